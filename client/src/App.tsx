@@ -11,6 +11,10 @@ import AIAssistant from "@/pages/AIAssistant";
 import Calendar from "@/pages/CalendarMonthView";
 import Communications from "@/pages/Communications";
 import Settings from "@/pages/Settings";
+import Contacts from "@/pages/Contacts";
+import ContactProfile from "@/pages/ContactProfile";
+import Trash from "@/pages/Trash";
+import Invoices from "@/pages/Invoices";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -41,6 +45,10 @@ function Router() {
           <Route path="/ai-assistant" component={AIAssistant} />
           <Route path="/calendar" component={Calendar} />
           <Route path="/communications" component={Communications} />
+          <Route path="/contacts" component={Contacts} />
+          <Route path="/contacts/:id" component={ContactProfile} />
+          <Route path="/invoices" component={Invoices} />
+          <Route path="/trash" component={Trash} />
           <Route path="/settings" component={Settings} />
         </>
       )}
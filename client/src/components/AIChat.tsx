@@ -45,6 +45,7 @@ export default function AIChat({ caseId }: AIChatProps) {
     },
     onSuccess: async (response) => {
       const data = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "time-suggestions"] });
       const newMessage: ChatMessage = {
         id: Date.now().toString(),
         type: 'ai',
@@ -80,6 +81,7 @@ export default function AIChat({ caseId }: AIChatProps) {
     },
     onSuccess: async (response) => {
       const data = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "time-suggestions"] });
       const newMessage: ChatMessage = {
         id: Date.now().toString(),
         type: 'ai',
@@ -118,6 +120,7 @@ export default function AIChat({ caseId }: AIChatProps) {
     },
     onSuccess: async (response) => {
       const data = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "time-suggestions"] });
       const newMessage: ChatMessage = {
         id: Date.now().toString(),
         type: 'ai',
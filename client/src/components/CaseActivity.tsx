@@ -0,0 +1,156 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import type { AuditEventWithActor } from "@shared/schema";
+import { Download, History } from "lucide-react";
+
+interface CaseActivityProps {
+  caseId: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  "case.created": "Created the case",
+  "case.updated": "Updated case details",
+  "case.deleted": "Moved the case to the trash",
+  "case.restored": "Restored the case from the trash",
+  "case.purged": "Permanently deleted the case",
+  "case.status_changed": "Changed the case status",
+  "case.conflict_checked": "Ran a conflict check",
+  "case.conflict_acknowledged": "Acknowledged the conflict report",
+  "mediator.added": "Added a mediator",
+  "mediator.removed": "Removed a mediator",
+  "mediator.lead_changed": "Changed the lead mediator",
+  "party.created": "Added a party",
+  "party.updated": "Updated a party",
+  "party.deleted": "Deleted a party",
+  "party.reordered": "Reordered the parties",
+  "representative.created": "Added a representative",
+  "representative.updated": "Updated a representative",
+  "representative.deleted": "Removed a representative",
+  "document.uploaded": "Uploaded a document",
+  "document.updated": "Updated a document",
+  "document.viewed": "Viewed a document",
+  "document.deleted": "Moved a document to the trash",
+  "document.restored": "Restored a document",
+  "document.purged": "Permanently deleted a document",
+  "note.created": "Wrote a case note",
+  "ai_analysis.created": "Ran an AI analysis",
+  "session.created": "Added a mediation session",
+  "session.updated": "Updated a mediation session",
+  "session.deleted": "Deleted a mediation session",
+  "attendance.added": "Recorded an attendee",
+  "attendance.updated": "Updated attendance",
+  "attendance.removed": "Removed an attendee",
+  "segment.started": "Started a joint session or caucus",
+  "segment.ended": "Paused the live session",
+  "caucus_note.created": "Took a private session note",
+  "caucus_note.deleted": "Deleted a private session note",
+  "email.sent": "Sent an email",
+  "reminder.sent": "Sent a reminder",
+  "reminder.cancelled": "Cancelled a reminder",
+  "reminder.resumed": "Resumed a reminder",
+  "audit.exported": "Exported the audit trail",
+};
+
+export default function CaseActivity({ caseId }: CaseActivityProps) {
+  const { data: events = [], isLoading } = useQuery<AuditEventWithActor[]>({
+    queryKey: ["/api/cases", caseId, "audit-events"],
+  });
+
+  const actorName = (event: AuditEventWithActor) => {
+    if (!event.actor) return event.actorId || 'System';
+    return `${event.actor.firstName || ''} ${event.actor.lastName || ''}`.trim() || event.actor.email || event.actor.id;
+  };
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+
+  const describeEvent = (event: AuditEventWithActor) => {
+    const metadata = (event.metadata || {}) as Record<string, any>;
+    switch (event.action) {
+      case 'document.viewed':
+      case 'document.deleted':
+      case 'document.restored':
+      case 'document.purged':
+        return metadata.originalName;
+      case 'email.sent':
+        return `"${metadata.subject}" to ${(metadata.recipients || []).join(', ')}`;
+      case 'ai_analysis.created':
+        return metadata.input ? `${metadata.analysisType}: ${metadata.input}` : metadata.analysisType;
+      case 'case.status_changed':
+        return metadata.reason;
+      default:
+        return undefined;
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Activity</h3>
+          <p className="text-sm text-muted-foreground">Audit trail of everything that has happened on this case</p>
+        </div>
+        <Button variant="outline" asChild data-testid="button-export-audit">
+          <a href={`/api/cases/${caseId}/audit-events/export`} download>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading activity...</p>
+      ) : events.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <History className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No activity recorded yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3" data-testid="list-audit-events">
+          {events.map((event) => {
+            const description = describeEvent(event);
+            return (
+              <Card key={event.id} data-testid={`audit-event-${event.id}`}>
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-foreground">
+                        {actorName(event)} · {ACTION_LABELS[event.action] || event.action}
+                      </p>
+                      {description && (
+                        <p className="text-sm text-muted-foreground mt-1">{description}</p>
+                      )}
+                    </div>
+                    <div className="text-right shrink-0 ml-4">
+                      <Badge variant="outline" className="text-xs">{event.entityType}</Badge>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {event.createdAt ? new Date(event.createdAt).toLocaleString('en-AU') : 'Unknown'}
+                      </p>
+                    </div>
+                  </div>
+                  {event.changes && Object.keys(event.changes).length > 0 && (
+                    <div className="mt-3 border-t pt-3 space-y-1">
+                      {Object.entries(event.changes).map(([field, change]) => (
+                        <p key={field} className="text-xs text-muted-foreground break-words">
+                          <span className="font-medium text-foreground">{field}</span>:{' '}
+                          <span className="line-through">{formatValue(change.before)}</span>{' '}
+                          → <span>{formatValue(change.after)}</span>
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,565 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { formatMinutes, formatMoney } from "@/lib/utils";
+import {
+  expenseCategoryLabels,
+  timeEntryActivityLabels,
+  timeEntryActivityTypes,
+  timeEntryAmount,
+  type BillingSummary,
+  type Case,
+  type CaseExpense,
+  type Invoice,
+  type PartyWithRepresentatives,
+  type ExpenseCategory,
+  type RunningTimer,
+  type TimeEntry,
+  type TimeEntryActivityType,
+  type TimeEntryWithUser,
+  type TimeSuggestion,
+  type User,
+} from "@shared/schema";
+import TimeEntryDialog from "./TimeEntryDialog";
+import ExpenseDialog from "./ExpenseDialog";
+import InvoiceTable from "./InvoiceTable";
+import GenerateInvoicesDialog from "./GenerateInvoicesDialog";
+import { Bot, Edit2, FileText, Lightbulb, Lock, Mail, Play, Plus, Square, Trash2, Users, X } from "lucide-react";
+
+interface CaseBillingProps {
+  caseId: string;
+  caseNumber: string;
+}
+
+const elapsedSince = (startedAt: Date | string) => {
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(startedAt).getTime()) / 1000));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+// Stable fallback so the invoice dialog doesn't reset on every render while the case loads
+const EMPTY_PARTIES: PartyWithRepresentatives[] = [];
+
+const userName = (entry: TimeEntryWithUser) => {
+  if (!entry.user) return 'Unknown user';
+  return `${entry.user.firstName || ''} ${entry.user.lastName || ''}`.trim() || entry.user.email || entry.user.id;
+};
+
+export default function CaseBilling({ caseId, caseNumber }: CaseBillingProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [timerActivity, setTimerActivity] = useState<TimeEntryActivityType>("preparation");
+  const [timerDescription, setTimerDescription] = useState('');
+  const [, setTick] = useState(0);
+  const [timeDialog, setTimeDialog] = useState<{ entry?: TimeEntry; suggestion?: TimeSuggestion } | null>(null);
+  const [expenseDialog, setExpenseDialog] = useState<{ expense?: CaseExpense } | null>(null);
+  const [generatingInvoices, setGeneratingInvoices] = useState(false);
+
+  const { data: billing, isLoading } = useQuery<BillingSummary>({
+    queryKey: ["/api/cases", caseId, "billing"],
+  });
+
+  const { data: runningTimer } = useQuery<RunningTimer | null>({
+    queryKey: ["/api/time-entries/running"],
+  });
+
+  const { data: suggestions = [] } = useQuery<TimeSuggestion[]>({
+    queryKey: ["/api/cases", caseId, "time-suggestions"],
+  });
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ["/api/cases", caseId, "invoices"],
+  });
+
+  const { data: caseDetails } = useQuery<Case & { parties: PartyWithRepresentatives[] }>({
+    queryKey: ["/api/cases", caseId],
+  });
+
+  // Billable amounts not on an invoice yet, per currency; unrated time can't be invoiced
+  const unbilled = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const entry of billing?.timeEntries ?? []) {
+      const amount = timeEntryAmount(entry);
+      if (entry.billable && !entry.invoiceRunId && amount !== null) {
+        totals.set(entry.currency, (totals.get(entry.currency) ?? 0) + amount);
+      }
+    }
+    for (const expense of billing?.expenses ?? []) {
+      if (expense.billable && !expense.invoiceRunId) {
+        totals.set(expense.currency, (totals.get(expense.currency) ?? 0) + Number(expense.amount));
+      }
+    }
+    return Array.from(totals, ([currency, amount]) => ({ currency, amount: Math.round(amount * 100) / 100 }));
+  }, [billing]);
+
+  const timerOnThisCase = runningTimer?.caseId === caseId;
+  const defaultCurrency = (user as User | undefined)?.billingCurrency || 'AUD';
+  const hasRate = !!(user as User | undefined)?.hourlyRate;
+
+  // Re-render every second while a timer is running so the elapsed time ticks
+  useEffect(() => {
+    if (!runningTimer) return;
+    const interval = setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => clearInterval(interval);
+  }, [runningTimer]);
+
+  const invalidateBilling = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "billing"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/time-entries/running"] });
+  };
+
+  const startTimerMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest('POST', `/api/cases/${caseId}/time-entries/timer`, {
+        activityType: timerActivity,
+        description: timerDescription.trim() || null,
+      }),
+    onSuccess: () => {
+      invalidateBilling();
+      setTimerDescription('');
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to start timer"), variant: "destructive" });
+    },
+  });
+
+  const stopTimerMutation = useMutation({
+    mutationFn: async (timer: RunningTimer) => apiRequest('POST', `/api/cases/${timer.caseId}/time-entries/${timer.id}/stop`),
+    onSuccess: (_, timer) => {
+      invalidateBilling();
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", timer.caseId, "billing"] });
+      toast({ title: "Success", description: `Timer stopped on case ${timer.caseNumber}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to stop timer"), variant: "destructive" });
+    },
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => apiRequest('DELETE', `/api/cases/${caseId}/time-entries/${entryId}`),
+    onSuccess: () => {
+      invalidateBilling();
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "time-suggestions"] });
+      toast({ title: "Success", description: "Time entry deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to delete time entry"), variant: "destructive" });
+    },
+  });
+
+  const deleteExpenseMutation = useMutation({
+    mutationFn: async (expenseId: string) => apiRequest('DELETE', `/api/cases/${caseId}/expenses/${expenseId}`),
+    onSuccess: () => {
+      invalidateBilling();
+      toast({ title: "Success", description: "Expense deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to delete expense"), variant: "destructive" });
+    },
+  });
+
+  const dismissSuggestionMutation = useMutation({
+    mutationFn: async (suggestion: TimeSuggestion) =>
+      apiRequest('POST', `/api/cases/${caseId}/time-suggestions/dismiss`, { source: suggestion.source, sourceId: suggestion.sourceId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "time-suggestions"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to dismiss suggestion"), variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !billing) {
+    return <p className="text-sm text-muted-foreground">Loading billing...</p>;
+  }
+
+  const totals = billing.totals.length > 0
+    ? billing.totals
+    : [{ currency: defaultCurrency, billableMinutes: 0, nonBillableMinutes: 0, timeAmount: 0, expenseAmount: 0, total: 0 }];
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      {totals.map((total) => (
+        <div key={total.currency} className="grid grid-cols-2 lg:grid-cols-4 gap-4" data-testid={`billing-summary-${total.currency}`}>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground uppercase">Billable time</p>
+              <p className="text-2xl font-semibold text-foreground">{formatMinutes(total.billableMinutes)}</p>
+              {total.nonBillableMinutes > 0 && (
+                <p className="text-xs text-muted-foreground">+ {formatMinutes(total.nonBillableMinutes)} non-billable</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground uppercase">Fees</p>
+              <p className="text-2xl font-semibold text-foreground">{formatMoney(total.timeAmount, total.currency)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground uppercase">Expenses</p>
+              <p className="text-2xl font-semibold text-foreground">{formatMoney(total.expenseAmount, total.currency)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground uppercase">Total</p>
+              <p className="text-2xl font-semibold text-primary">{formatMoney(total.total, total.currency)}</p>
+            </CardContent>
+          </Card>
+        </div>
+      ))}
+      {billing.unratedMinutes > 0 && (
+        <p className="text-sm text-amber-600" data-testid="text-unrated-time">
+          {formatMinutes(billing.unratedMinutes)} of billable time has no hourly rate and is not included in the fees.
+          Set a rate on each entry, or in Settings before logging more time.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Timer */}
+          <Card>
+            <CardContent className="p-4">
+              {runningTimer ? (
+                <div className="flex items-center justify-between gap-4" data-testid="timer-running">
+                  <div>
+                    <p className="text-sm font-medium text-foreground">
+                      {timeEntryActivityLabels[runningTimer.activityType as TimeEntryActivityType] ?? runningTimer.activityType}
+                      {!timerOnThisCase && <span className="text-muted-foreground"> on case {runningTimer.caseNumber}</span>}
+                    </p>
+                    {runningTimer.description && <p className="text-xs text-muted-foreground">{runningTimer.description}</p>}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-mono text-2xl text-foreground">{elapsedSince(runningTimer.startedAt)}</span>
+                    <Button
+                      variant="destructive"
+                      onClick={() => stopTimerMutation.mutate(runningTimer)}
+                      disabled={stopTimerMutation.isPending}
+                      data-testid="button-stop-timer"
+                    >
+                      <Square className="w-4 h-4 mr-2" />
+                      Stop
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Select value={timerActivity} onValueChange={(value) => setTimerActivity(value as TimeEntryActivityType)}>
+                    <SelectTrigger className="w-44" data-testid="select-timer-activity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeEntryActivityTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{timeEntryActivityLabels[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={timerDescription}
+                    onChange={(e) => setTimerDescription(e.target.value)}
+                    placeholder={`What are you working on for ${caseNumber}?`}
+                    data-testid="input-timer-description"
+                  />
+                  <Button
+                    onClick={() => startTimerMutation.mutate()}
+                    disabled={startTimerMutation.isPending}
+                    data-testid="button-start-timer"
+                  >
+                    <Play className="w-4 h-4 mr-2" />
+                    Start
+                  </Button>
+                </div>
+              )}
+              {!hasRate && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  No hourly rate is set in your profile, so new time will be logged without a rate.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Time entries */}
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-foreground">Time Entries</h3>
+                <Button size="sm" variant="outline" onClick={() => setTimeDialog({})} data-testid="button-add-time-entry">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Log Time
+                </Button>
+              </div>
+              {billing.timeEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No time logged yet.</p>
+              ) : (
+                <table className="w-full text-sm" data-testid="table-time-entries">
+                  <thead className="border-b border-border">
+                    <tr>
+                      <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Date</th>
+                      <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Activity</th>
+                      <th className="py-2 text-right text-xs font-medium text-muted-foreground uppercase">Time</th>
+                      <th className="py-2 text-right text-xs font-medium text-muted-foreground uppercase">Amount</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {billing.timeEntries.map((entry) => {
+                      const amount = timeEntryAmount(entry);
+                      return (
+                        <tr key={entry.id} data-testid={`row-time-entry-${entry.id}`}>
+                          <td className="py-2 align-top whitespace-nowrap">
+                            {new Date(entry.startedAt).toLocaleDateString()}
+                            <p className="text-xs text-muted-foreground">{userName(entry)}</p>
+                          </td>
+                          <td className="py-2 align-top">
+                            <span className="font-medium">
+                              {timeEntryActivityLabels[entry.activityType as TimeEntryActivityType] ?? entry.activityType}
+                            </span>
+                            {!entry.billable && <Badge variant="outline" className="ml-2 text-xs">Non-billable</Badge>}
+                            {entry.description && <p className="text-xs text-muted-foreground">{entry.description}</p>}
+                          </td>
+                          <td className="py-2 align-top text-right whitespace-nowrap">
+                            {entry.durationMinutes === null ? <Badge>Running</Badge> : formatMinutes(entry.durationMinutes)}
+                          </td>
+                          <td className="py-2 align-top text-right whitespace-nowrap">
+                            {!entry.billable ? '—' : amount === null ? (entry.durationMinutes === null ? '' : 'No rate') : formatMoney(amount, entry.currency)}
+                          </td>
+                          <td className="py-2 align-top text-right whitespace-nowrap">
+                            {entry.invoiceRunId ? (
+                              <Badge variant="secondary" className="text-xs" data-testid={`badge-invoiced-time-entry-${entry.id}`}>
+                                <Lock className="w-3 h-3 mr-1" />
+                                Invoiced
+                              </Badge>
+                            ) : (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setTimeDialog({ entry })}
+                                  data-testid={`button-edit-time-entry-${entry.id}`}
+                                >
+                                  <Edit2 className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => deleteEntryMutation.mutate(entry.id)}
+                                  disabled={deleteEntryMutation.isPending}
+                                  data-testid={`button-delete-time-entry-${entry.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Expenses */}
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-foreground">Expenses</h3>
+                <Button size="sm" variant="outline" onClick={() => setExpenseDialog({})} data-testid="button-add-expense">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Expense
+                </Button>
+              </div>
+              {billing.expenses.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No expenses recorded.</p>
+              ) : (
+                <table className="w-full text-sm" data-testid="table-expenses">
+                  <tbody className="divide-y divide-border">
+                    {billing.expenses.map((expense) => (
+                      <tr key={expense.id} data-testid={`row-expense-${expense.id}`}>
+                        <td className="py-2 align-top whitespace-nowrap">{new Date(expense.incurredOn).toLocaleDateString()}</td>
+                        <td className="py-2 align-top">
+                          <span className="font-medium">{expense.description}</span>
+                          <p className="text-xs text-muted-foreground">
+                            {expenseCategoryLabels[expense.category as ExpenseCategory] ?? expense.category}
+                            {!expense.billable && ' · Non-billable'}
+                          </p>
+                        </td>
+                        <td className="py-2 align-top text-right whitespace-nowrap">{formatMoney(expense.amount, expense.currency)}</td>
+                        <td className="py-2 align-top text-right whitespace-nowrap">
+                          {expense.invoiceRunId ? (
+                            <Badge variant="secondary" className="text-xs" data-testid={`badge-invoiced-expense-${expense.id}`}>
+                              <Lock className="w-3 h-3 mr-1" />
+                              Invoiced
+                            </Badge>
+                          ) : (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setExpenseDialog({ expense })}
+                                data-testid={`button-edit-expense-${expense.id}`}
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => deleteExpenseMutation.mutate(expense.id)}
+                                disabled={deleteExpenseMutation.isPending}
+                                data-testid={`button-delete-expense-${expense.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Invoices */}
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-foreground">Invoices</h3>
+                  <p className="text-xs text-muted-foreground">
+                    {unbilled.length === 0
+                      ? 'Everything billable has been invoiced.'
+                      : `Unbilled: ${unbilled.map(item => formatMoney(item.amount, item.currency)).join(', ')}`}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setGeneratingInvoices(true)}
+                  disabled={unbilled.length === 0}
+                  data-testid="button-generate-invoices"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  Generate Invoices
+                </Button>
+              </div>
+              {invoices.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No invoices issued yet.</p>
+              ) : (
+                <InvoiceTable invoices={invoices} />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Suggestions */}
+          <Card>
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-foreground mb-1 flex items-center gap-2">
+                <Lightbulb className="w-4 h-4 text-amber-500" />
+                Suggested Entries
+              </h3>
+              <p className="text-xs text-muted-foreground mb-3">Emails you sent, AI analyses you ran and sessions with recorded attendance on this case in the last 30 days.</p>
+              {suggestions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing to suggest.</p>
+              ) : (
+                <div className="space-y-2" data-testid="list-time-suggestions">
+                  {suggestions.map((suggestion) => (
+                    <div key={suggestion.sourceId} className="border border-border rounded-md p-3" data-testid={`suggestion-${suggestion.sourceId}`}>
+                      <div className="flex items-start gap-2">
+                        {suggestion.source === 'email'
+                          ? <Mail className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                          : suggestion.source === 'attendance'
+                            ? <Users className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+                            : <Bot className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />}
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm text-foreground truncate">{suggestion.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(suggestion.startedAt).toLocaleDateString()} · {formatMinutes(suggestion.durationMinutes)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex justify-end gap-2 mt-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => dismissSuggestionMutation.mutate(suggestion)}
+                          data-testid={`button-dismiss-suggestion-${suggestion.sourceId}`}
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Dismiss
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setTimeDialog({ suggestion })}
+                          data-testid={`button-accept-suggestion-${suggestion.sourceId}`}
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Log
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* By activity */}
+          {billing.byActivity.length > 0 && (
+            <Card>
+              <CardContent className="p-6">
+                <h3 className="text-lg font-semibold text-foreground mb-3">By Activity</h3>
+                <div className="space-y-2">
+                  {billing.byActivity.map((activity) => (
+                    <div key={activity.activityType} className="flex items-center justify-between text-sm">
+                      <span>{timeEntryActivityLabels[activity.activityType as TimeEntryActivityType] ?? activity.activityType}</span>
+                      <span className="text-muted-foreground">{formatMinutes(activity.minutes)}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <TimeEntryDialog
+        caseId={caseId}
+        isOpen={!!timeDialog}
+        onClose={() => setTimeDialog(null)}
+        entry={timeDialog?.entry}
+        suggestion={timeDialog?.suggestion}
+      />
+      <ExpenseDialog
+        caseId={caseId}
+        isOpen={!!expenseDialog}
+        onClose={() => setExpenseDialog(null)}
+        expense={expenseDialog?.expense}
+        defaultCurrency={defaultCurrency}
+      />
+      <GenerateInvoicesDialog
+        caseId={caseId}
+        isOpen={generatingInvoices}
+        onClose={() => setGeneratingInvoices(false)}
+        parties={caseDetails?.parties ?? EMPTY_PARTIES}
+        feeSplit={caseDetails?.feeSplit ?? null}
+        unbilled={unbilled}
+      />
+    </div>
+  );
+}
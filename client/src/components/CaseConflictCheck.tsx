@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Case } from "@shared/schema";
+import { RefreshCw, ShieldAlert, ShieldCheck } from "lucide-react";
+import ConflictMatchList from "./ConflictMatchList";
+
+interface CaseConflictCheckProps {
+  caseData: Case;
+}
+
+export default function CaseConflictCheck({ caseData }: CaseConflictCheckProps) {
+  const { toast } = useToast();
+  const [note, setNote] = useState('');
+  const report = caseData.conflictReport;
+  const acknowledged = !!caseData.conflictAcknowledgedAt;
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.replace(/^\d+: /, '') || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const runCheckMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/cases/${caseData.id}/conflict-check`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseData.id] });
+      toast({ title: "Success", description: "Conflict check completed" });
+    },
+    onError: onError("Failed to run conflict check"),
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest('POST', `/api/cases/${caseData.id}/conflict-check/acknowledge`, { note: note.trim() || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseData.id] });
+      setNote('');
+      toast({ title: "Success", description: "Conflict report acknowledged" });
+    },
+    onError: onError("Failed to acknowledge conflict report"),
+  });
+
+  return (
+    <Card className={report && !acknowledged ? 'border-amber-400' : undefined} data-testid="card-conflict-check">
+      <CardContent className="p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-foreground flex items-center">
+            {report && acknowledged
+              ? <ShieldCheck className="w-5 h-5 mr-2 text-green-600" />
+              : <ShieldAlert className="w-5 h-5 mr-2 text-amber-500" />}
+            Conflict Check
+          </h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => runCheckMutation.mutate()}
+            disabled={runCheckMutation.isPending}
+            title="Re-run against the current parties"
+            data-testid="button-run-conflict-check"
+          >
+            <RefreshCw className={`w-4 h-4 ${runCheckMutation.isPending ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        {!report ? (
+          <p className="text-sm text-muted-foreground">
+            No conflict check has been run for this case. Run one to compare its parties against the rest of the practice.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              Checked {report.subjects.length} name{report.subjects.length === 1 ? '' : 's'} on {new Date(report.checkedAt).toLocaleString()}
+            </p>
+            <ConflictMatchList matches={report.matches} />
+
+            {acknowledged ? (
+              <div className="pt-3 border-t">
+                <p className="text-sm text-foreground">
+                  Acknowledged {new Date(caseData.conflictAcknowledgedAt!).toLocaleString()}
+                </p>
+                {caseData.conflictAcknowledgementNote && (
+                  <p className="text-xs text-muted-foreground italic mt-1">{caseData.conflictAcknowledgementNote}</p>
+                )}
+              </div>
+            ) : (
+              <div className="space-y-2 pt-3 border-t">
+                <p className="text-sm text-foreground">
+                  {report.matches.length > 0
+                    ? 'Review the possible conflicts above and record how they were cleared.'
+                    : 'Confirm you have no prior involvement with any party or representative.'}
+                </p>
+                <Textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Notes (e.g. disclosed to both parties, no objection)"
+                  rows={2}
+                  data-testid="input-conflict-note"
+                />
+                <Button
+                  size="sm"
+                  className="w-full"
+                  onClick={() => acknowledgeMutation.mutate()}
+                  disabled={acknowledgeMutation.isPending}
+                  data-testid="button-acknowledge-conflicts"
+                >
+                  {acknowledgeMutation.isPending ? 'Saving...' : 'Acknowledge Report'}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
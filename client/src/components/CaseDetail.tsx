@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -30,44 +30,82 @@ import AIChat from "./AIChat";
 import DocumentManager from "./DocumentManager";
 import CaseNotes from "./CaseNotes";
 import EmailModal from "./EmailModal";
+import CaseMediators from "./CaseMediators";
+import CaseConflictCheck from "./CaseConflictCheck";
+import CaseTimeline from "./CaseTimeline";
+import CaseActivity from "./CaseActivity";
+import PartyCard from "./PartyCard";
+import ContactAutocomplete from "./ContactAutocomplete";
+import ContactSuggestions from "./ContactSuggestions";
+import { CustomFieldInputs } from "./CustomFields";
+import CaseTags from "./CaseTags";
+import CaseExportDialog from "./CaseExportDialog";
+import CaseMergeDialog from "./CaseMergeDialog";
+import CaseOutcome from "./CaseOutcome";
+import CaseBilling from "./CaseBilling";
+import CaseTasks from "./CaseTasks";
+import CaseReminders from "./CaseReminders";
+import CaseSessions, { useSessionActions } from "./CaseSessions";
+import LiveSessionPanel from "./LiveSessionPanel";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Case, Party, Document } from "@shared/schema";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { caseStatusLabels, formatCustomFieldValue, nextMediationSession, normalizeCaseStatus, sessionEndsAt, type Case, type MediationSession, type CaseType, type CustomFieldValues, type Contact, type PartyWithRepresentatives, type Document, type CaseMediatorWithUser } from "@shared/schema";
 import { 
   AlertTriangle, ArrowLeft, Mail, Video, Trash2, Info, Users, Folder, 
-  StickyNote, Bot, Circle, Download, FileText, Plus, Phone, Edit2, CalendarDays
+  StickyNote, Bot, Circle, Download, FileText, Plus, Edit2, CalendarDays, History, GitMerge, Handshake, Receipt, Radio
 } from "lucide-react";
 
 interface CaseDetailProps {
   caseId: string;
+  initialTab?: string;
   onBack: () => void;
 }
 
-export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
+const emptyPartyForm = {
+  contactId: '',
+  legalRepContactId: '',
+  entityName: '',
+  partyType: 'applicant',
+  primaryContactName: '',
+  primaryContactRole: '',
+  primaryContactEmail: '',
+  primaryContactPhone: '',
+  legalRepName: '',
+  legalRepFirm: '',
+  legalRepEmail: '',
+  legalRepPhone: '',
+};
+
+export default function CaseDetail({ caseId, initialTab, onBack }: CaseDetailProps) {
   const { toast } = useToast();
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
   const [showAddPartyDialog, setShowAddPartyDialog] = useState(false);
+  const [editingPartyId, setEditingPartyId] = useState<string | null>(null);
   const [showEditCaseDialog, setShowEditCaseDialog] = useState(false);
-  const [activeTab, setActiveTab] = useState("overview");
-  const [isCreatingZoomMeeting, setIsCreatingZoomMeeting] = useState(false);
-  const [isSyncingCalendar, setIsSyncingCalendar] = useState(false);
-  const [partyForm, setPartyForm] = useState({
-    entityName: '',
-    partyType: 'applicant',
-    primaryContactName: '',
-    primaryContactRole: '',
-    primaryContactEmail: '',
-    primaryContactPhone: '',
-    legalRepName: '',
-    legalRepFirm: '',
-    legalRepEmail: '',
-    legalRepPhone: '',
-  });
+  const [showLiveSession, setShowLiveSession] = useState(false);
+  const [activeTab, setActiveTab] = useState(initialTab || "overview");
+  // Search results link to a specific tab, e.g. /cases/:id?tab=notes
+  useEffect(() => {
+    if (initialTab) setActiveTab(initialTab);
+  }, [caseId, initialTab]);
+  const { createZoomMeeting, syncToCalendar } = useSessionActions(caseId);
+  const [partyForm, setPartyForm] = useState(emptyPartyForm);
 
-  const addPartyMutation = useMutation({
-    mutationFn: async (partyData: any) => {
-      const response = await apiRequest('POST', `/api/cases/${caseId}/parties`, partyData);
+  const savePartyMutation = useMutation({
+    mutationFn: async (partyData: typeof emptyPartyForm) => {
+      const { legalRepContactId, ...fields } = { ...partyData, contactId: partyData.contactId || null };
+      if (editingPartyId) {
+        // Representatives are managed on the party card, so only the party's own fields are sent
+        const { legalRepName, legalRepFirm, legalRepEmail, legalRepPhone, ...partyFields } = fields;
+        return apiRequest('PATCH', `/api/cases/${caseId}/parties/${editingPartyId}`, partyFields);
+      }
+      const response = await apiRequest('POST', `/api/cases/${caseId}/parties`, {
+        ...fields,
+        legalRepContactId: legalRepContactId || undefined,
+      });
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.message || 'Failed to add party');
@@ -78,21 +116,11 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
       toast({
         title: "Success",
-        description: "Party added successfully",
+        description: editingPartyId ? "Party updated successfully" : "Party added successfully",
       });
       setShowAddPartyDialog(false);
-      setPartyForm({
-        entityName: '',
-        partyType: 'applicant',
-        primaryContactName: '',
-        primaryContactRole: '',
-        primaryContactEmail: '',
-        primaryContactPhone: '',
-        legalRepName: '',
-        legalRepFirm: '',
-        legalRepEmail: '',
-        legalRepPhone: '',
-      });
+      setEditingPartyId(null);
+      setPartyForm(emptyPartyForm);
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -108,65 +136,60 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
       }
       toast({
         title: "Error",
-        description: error.message || "Failed to add party",
+        description: error.message || "Failed to save party",
         variant: "destructive",
       });
     },
   });
 
-  const deleteCaseMutation = useMutation({
-    mutationFn: async () => {
-      return await apiRequest('DELETE', `/api/cases/${caseId}`);
+  const reorderPartiesMutation = useMutation({
+    mutationFn: async (partyIds: string[]) => {
+      return apiRequest('PUT', `/api/cases/${caseId}/parties/order`, { partyIds });
     },
     onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Case deleted successfully",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
-      onBack();
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to delete case",
+        description: "Failed to reorder parties",
         variant: "destructive",
       });
     },
   });
 
-  const createZoomMeetingMutation = useMutation({
+  const deleteCaseMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', `/api/cases/${caseId}/zoom-meeting`);
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to create Zoom meeting');
-      }
-      return response.json();
+      return await apiRequest('DELETE', `/api/cases/${caseId}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
       toast({
         title: "Success",
-        description: "Zoom meeting created successfully",
+        description: "Case moved to trash",
       });
-      setIsCreatingZoomMeeting(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      onBack();
     },
-    onError: (error: Error) => {
+    onError: () => {
       toast({
         title: "Error",
-        description: error.message || "Failed to create Zoom meeting",
+        description: "Failed to delete case",
         variant: "destructive",
       });
-      setIsCreatingZoomMeeting(false);
     },
   });
 
   const [editCaseForm, setEditCaseForm] = useState({
     mediatorName: '',
     mediationType: '',
-    mediationDate: '',
     premises: '',
+    caseTypeId: '',
+    customFields: {} as CustomFieldValues,
+  });
+
+  const { data: caseTypes = [] } = useQuery<CaseType[]>({
+    queryKey: ['/api/case-types'],
   });
 
   const updateCaseMutation = useMutation({
@@ -180,6 +203,8 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      // Tasks due relative to the mediation move with its date
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/mine"] });
       toast({
         title: "Success",
         description: "Case updated successfully",
@@ -189,75 +214,19 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to update case",
+        description: apiErrorMessage(error, "Failed to update case"),
         variant: "destructive",
       });
     },
   });
 
-  const handleCreateZoomMeeting = () => {
-    setIsCreatingZoomMeeting(true);
-    createZoomMeetingMutation.mutate();
-  };
-
-  const handleJoinZoomMeeting = () => {
-    if (case_.zoomMeetingLink) {
-      window.open(case_.zoomMeetingLink, '_blank');
-    }
-  };
-
-  const handleSyncToCalendar = async () => {
-    if (!case_.mediationDate) {
-      toast({
-        title: "No Mediation Date",
-        description: "Please set a mediation date before syncing to calendar",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setIsSyncingCalendar(true);
-    try {
-      const response = await fetch(`/api/cases/${caseId}/sync-to-calendar`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to sync to calendar');
-      }
-
-      const result = await response.json();
-      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
-      queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] });
-
-      toast({
-        title: "Calendar Synced",
-        description: result.action === 'created' 
-          ? "Calendar event created successfully" 
-          : "Calendar event updated successfully",
-      });
-    } catch (error) {
-      toast({
-        title: "Sync Failed",
-        description: error instanceof Error ? error.message : "Failed to sync to calendar",
-        variant: "destructive",
-      });
-    } finally {
-      setIsSyncingCalendar(false);
-    }
-  };
-
   const handleEditCase = () => {
     const updates: any = {};
     if (editCaseForm.mediatorName) updates.mediatorName = editCaseForm.mediatorName;
     if (editCaseForm.mediationType) updates.mediationType = editCaseForm.mediationType;
-    if (editCaseForm.mediationDate) {
-      // Convert datetime-local input to ISO string
-      updates.mediationDate = new Date(editCaseForm.mediationDate).toISOString();
-    }
     if (editCaseForm.premises) updates.premises = editCaseForm.premises;
+    if (editCaseForm.caseTypeId !== (case_.caseTypeId || '')) updates.caseTypeId = editCaseForm.caseTypeId || null;
+    if (editCaseForm.caseTypeId) updates.customFields = editCaseForm.customFields;
     
     updateCaseMutation.mutate(updates);
   };
@@ -305,18 +274,89 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
     );
   }
 
-  const case_ = caseData as Case & { parties: Party[], documents: Document[] };
+  const case_ = caseData as Case & { parties: PartyWithRepresentatives[], documents: Document[], mediators: CaseMediatorWithUser[], sessions: MediationSession[] };
+  // Zoom and calendar quick actions work on the next session; the Sessions card has the rest
+  const nextSession = nextMediationSession(case_.sessions);
+  const upcomingSession = nextSession && sessionEndsAt(nextSession) > new Date() ? nextSession : undefined;
+  const joinZoomMeeting = () => window.open(upcomingSession!.zoomMeetingLink!, '_blank');
   const applicants = case_.parties.filter(p => p.partyType === 'applicant');
   const respondents = case_.parties.filter(p => p.partyType === 'respondent');
+  const caseType = caseTypes.find(t => t.id === case_.caseTypeId);
+  const editCaseType = caseTypes.find(t => t.id === editCaseForm.caseTypeId);
+
+  const openAddParty = () => {
+    setEditingPartyId(null);
+    setPartyForm(emptyPartyForm);
+    setShowAddPartyDialog(true);
+  };
+
+  const openEditParty = (party: PartyWithRepresentatives) => {
+    setEditingPartyId(party.id);
+    setPartyForm({
+      ...emptyPartyForm,
+      contactId: party.contactId || '',
+      entityName: party.entityName,
+      partyType: party.partyType,
+      primaryContactName: party.primaryContactName || '',
+      primaryContactRole: party.primaryContactRole || '',
+      primaryContactEmail: party.primaryContactEmail || '',
+      primaryContactPhone: party.primaryContactPhone || '',
+    });
+    setShowAddPartyDialog(true);
+  };
+
+  const selectLegalRepContact = async (contact: Contact) => {
+    // The directory search result has no firm name, so load the profile for it
+    const response = await apiRequest('GET', `/api/contacts/${contact.id}`);
+    const { firm } = await response.json();
+    setPartyForm((form) => ({
+      ...form,
+      legalRepContactId: contact.id,
+      legalRepName: contact.name,
+      legalRepFirm: firm?.name || form.legalRepFirm,
+      legalRepEmail: contact.email || '',
+      legalRepPhone: contact.phone || '',
+    }));
+  };
+
+  // Swaps a party with its neighbour of the same type; the order drives {applicant_N_*} placeholders
+  const moveParty = (group: PartyWithRepresentatives[], index: number, direction: -1 | 1) => {
+    const neighbour = group[index + direction];
+    if (!neighbour) return;
+    const partyIds = case_.parties.map(p => p.id);
+    const from = partyIds.indexOf(group[index].id);
+    const to = partyIds.indexOf(neighbour.id);
+    partyIds[from] = neighbour.id;
+    partyIds[to] = group[index].id;
+    reorderPartiesMutation.mutate(partyIds);
+  };
+
+  const renderPartyCards = (group: PartyWithRepresentatives[]) => group.map((party, index) => (
+    <PartyCard
+      key={party.id}
+      caseId={caseId}
+      party={party}
+      onEdit={openEditParty}
+      onMoveUp={index > 0 && !reorderPartiesMutation.isPending ? () => moveParty(group, index, -1) : undefined}
+      onMoveDown={index < group.length - 1 && !reorderPartiesMutation.isPending ? () => moveParty(group, index, 1) : undefined}
+    />
+  ));
 
   const getStatusBadgeClass = (status: string) => {
-    switch (status) {
-      case 'active':
+    switch (normalizeCaseStatus(status)) {
+      case 'referred':
+      case 'intake':
         return 'bg-green-100 text-green-800';
       case 'scheduled':
         return 'bg-blue-100 text-blue-800';
-      case 'closed':
-        return 'bg-gray-100 text-gray-800';
+      case 'in_session':
+        return 'bg-amber-100 text-amber-800';
+      case 'settled':
+      case 'partially_settled':
+        return 'bg-emerald-100 text-emerald-800';
+      case 'impasse':
+      case 'withdrawn':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -353,8 +393,8 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
               <h2 className="text-2xl font-bold" data-testid="text-case-number">
                 {case_.caseNumber}
               </h2>
-              <Badge className={`${getStatusBadgeClass(case_.status)} text-xs`}>
-                {case_.status}
+              <Badge className={`${getStatusBadgeClass(case_.status)} text-xs`} data-testid="badge-case-status">
+                {caseStatusLabels[normalizeCaseStatus(case_.status)]}
               </Badge>
             </div>
             <p className="text-primary-foreground/90" data-testid="text-case-title">
@@ -371,10 +411,21 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
               <Mail className="w-4 h-4 mr-2" />
               Send Email
             </Button>
-            {case_.zoomMeetingLink ? (
+            <Button
+              variant="ghost"
+              onClick={() => setShowLiveSession(!showLiveSession)}
+              disabled={case_.sessions.length === 0}
+              title={case_.sessions.length === 0 ? 'Add a session first' : undefined}
+              className={showLiveSession ? "bg-white text-primary hover:bg-white/90" : "bg-white/20 text-primary-foreground hover:bg-white/30"}
+              data-testid="button-live-session"
+            >
+              <Radio className="w-4 h-4 mr-2" />
+              Live Session
+            </Button>
+            {upcomingSession?.zoomMeetingLink ? (
               <Button
                 variant="default"
-                onClick={handleJoinZoomMeeting}
+                onClick={joinZoomMeeting}
                 className="bg-white text-primary hover:bg-white/90"
                 data-testid="button-join-session"
               >
@@ -384,15 +435,34 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
             ) : (
               <Button
                 variant="default"
-                onClick={handleCreateZoomMeeting}
-                disabled={createZoomMeetingMutation.isPending}
+                onClick={() => createZoomMeeting.mutate(upcomingSession!)}
+                disabled={!upcomingSession || createZoomMeeting.isPending}
+                title={upcomingSession ? undefined : 'Add a session first'}
                 className="bg-white text-primary hover:bg-white/90"
                 data-testid="button-set-zoom"
               >
                 <Video className="w-4 h-4 mr-2" />
-                {createZoomMeetingMutation.isPending ? 'Creating...' : 'Set Zoom'}
+                {createZoomMeeting.isPending ? 'Creating...' : 'Set Zoom'}
               </Button>
             )}
+            <Button
+              variant="ghost"
+              onClick={() => setShowExportDialog(true)}
+              className="bg-white/20 text-primary-foreground hover:bg-white/30"
+              data-testid="button-export-case"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setShowMergeDialog(true)}
+              className="bg-white/20 text-primary-foreground hover:bg-white/30"
+              data-testid="button-merge-case"
+            >
+              <GitMerge className="w-4 h-4 mr-2" />
+              Merge
+            </Button>
             <Button
               variant="ghost"
               onClick={() => setShowDeleteDialog(true)}
@@ -406,6 +476,10 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
         </div>
       </div>
 
+      {showLiveSession && (
+        <LiveSessionPanel caseData={case_} onClose={() => setShowLiveSession(false)} />
+      )}
+
       {/* Tabs Navigation */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1">
         <div className="border-b border-border bg-muted/30">
@@ -451,6 +525,30 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
                 <Bot className="w-4 h-4" />
                 <span>AI Analysis</span>
               </TabsTrigger>
+              <TabsTrigger
+                value="outcome"
+                className="flex items-center space-x-2"
+                data-testid="tab-outcome"
+              >
+                <Handshake className="w-4 h-4" />
+                <span>Outcome</span>
+              </TabsTrigger>
+              <TabsTrigger
+                value="billing"
+                className="flex items-center space-x-2"
+                data-testid="tab-billing"
+              >
+                <Receipt className="w-4 h-4" />
+                <span>Billing</span>
+              </TabsTrigger>
+              <TabsTrigger
+                value="activity"
+                className="flex items-center space-x-2"
+                data-testid="tab-activity"
+              >
+                <History className="w-4 h-4" />
+                <span>Activity</span>
+              </TabsTrigger>
             </TabsList>
           </div>
         </div>
@@ -492,13 +590,34 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
                       <p className="text-sm text-foreground">{case_.mediationType || 'Not specified'}</p>
                     </div>
                     <div>
-                      <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Session Date</p>
-                      <p className="text-sm text-foreground">{formatDate(case_.mediationDate?.toString() || null)}</p>
+                      <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Next Session</p>
+                      <p className="text-sm text-foreground" data-testid="text-next-session">
+                        {formatDate(nextSession ? String(nextSession.startsAt) : null)}
+                        {case_.sessions.length > 1 && ` (${case_.sessions.length} sessions)`}
+                      </p>
                     </div>
                     <div>
-                      <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Premises</p>
+                      <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Default Venue</p>
                       <p className="text-sm text-foreground">{case_.premises || 'Not specified'}</p>
                     </div>
+                    {caseType && (
+                      <div>
+                        <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Case Type</p>
+                        <p className="text-sm text-foreground" data-testid="text-case-type">{caseType.name}</p>
+                      </div>
+                    )}
+                    {caseType?.fields.map((field) => (
+                      <div key={field.key}>
+                        <p className="text-xs font-medium text-muted-foreground uppercase mb-1">{field.label}</p>
+                        <p className="text-sm text-foreground" data-testid={`text-custom-field-${field.key}`}>
+                          {formatCustomFieldValue(field, case_.customFields?.[field.key])}
+                        </p>
+                      </div>
+                    ))}
+                    <div className="col-span-2">
+                      <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Tags</p>
+                      <CaseTags caseId={caseId} tags={case_.tags || []} />
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -537,10 +656,10 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
                 <CardContent className="p-6">
                   <h3 className="text-lg font-semibold text-foreground mb-4">Quick Actions</h3>
                   <div className="space-y-2">
-                    {case_.zoomMeetingLink ? (
+                    {upcomingSession?.zoomMeetingLink ? (
                       <Button 
                         className="w-full justify-center" 
-                        onClick={handleJoinZoomMeeting}
+                        onClick={joinZoomMeeting}
                         data-testid="button-join-zoom"
                       >
                         <Video className="w-4 h-4 mr-2" />
@@ -549,12 +668,12 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
                     ) : (
                       <Button 
                         className="w-full justify-center" 
-                        onClick={handleCreateZoomMeeting}
-                        disabled={isCreatingZoomMeeting}
+                        onClick={() => createZoomMeeting.mutate(upcomingSession!)}
+                        disabled={!upcomingSession || createZoomMeeting.isPending}
                         data-testid="button-start-zoom"
                       >
                         <Video className="w-4 h-4 mr-2" />
-                        {isCreatingZoomMeeting ? 'Creating Meeting...' : 'Start Zoom Session'}
+                        {createZoomMeeting.isPending ? 'Creating Meeting...' : 'Start Zoom Session'}
                       </Button>
                     )}
                     <Button
@@ -569,12 +688,12 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
                     <Button
                       variant="outline"
                       className="w-full justify-center"
-                      onClick={handleSyncToCalendar}
-                      disabled={isSyncingCalendar || !case_.mediationDate}
+                      onClick={() => syncToCalendar.mutate(upcomingSession!)}
+                      disabled={!upcomingSession || syncToCalendar.isPending}
                       data-testid="button-sync-calendar"
                     >
                       <CalendarDays className="w-4 h-4 mr-2" />
-                      {case_.calendarEventId ? 'Update Calendar Event' : 'Sync to Calendar'}
+                      {upcomingSession?.calendarEventId ? 'Update Calendar Event' : 'Sync to Calendar'}
                     </Button>
                     <Button
                       variant="outline"
@@ -588,29 +707,17 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
                 </CardContent>
               </Card>
 
-              <Card>
-                <CardContent className="p-6">
-                  <h3 className="text-lg font-semibold text-foreground mb-4">Case Timeline</h3>
-                  <div className="space-y-4">
-                    <div className="flex items-start space-x-3">
-                      <div className="w-2 h-2 bg-green-500 rounded-full mt-2"></div>
-                      <div className="flex-1">
-                        <p className="text-sm font-medium text-foreground">Case Created</p>
-                        <p className="text-xs text-muted-foreground">
-                          {case_.createdAt ? new Date(case_.createdAt).toLocaleDateString() : 'Unknown'}
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex items-start space-x-3">
-                      <div className="w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
-                      <div className="flex-1">
-                        <p className="text-sm font-medium text-foreground">Current Status</p>
-                        <p className="text-xs text-muted-foreground capitalize">{case_.status}</p>
-                      </div>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+              <CaseSessions caseData={case_} />
+
+              <CaseTasks caseData={case_} caseType={caseType} />
+
+              <CaseReminders caseData={case_} />
+
+              <CaseConflictCheck caseData={case_} />
+
+              <CaseMediators caseId={caseId} mediators={case_.mediators || []} />
+
+              <CaseTimeline caseId={caseId} status={case_.status} />
 
               <Card>
                 <CardContent className="p-6">
@@ -649,11 +756,12 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
         <TabsContent value="parties" className="p-6">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-2xl font-semibold text-foreground">Case Parties</h2>
-            <Button onClick={() => setShowAddPartyDialog(true)} data-testid="button-add-party">
+            <Button onClick={openAddParty} data-testid="button-add-party">
               <Plus className="w-4 h-4 mr-2" />
               Add Party
             </Button>
           </div>
+          <ContactSuggestions caseId={caseId} />
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Applicants Column - LEFT */}
             <div className="space-y-4">
@@ -664,70 +772,7 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
               {applicants.length === 0 ? (
                 <p className="text-muted-foreground text-sm">No applicants added</p>
               ) : (
-                applicants.map((applicant, index) => (
-                  <Card key={applicant.id || index}>
-                    <CardContent className="p-6">
-                      <div className="space-y-4">
-                        <div>
-                          <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Entity Name</p>
-                          <p className="text-sm font-semibold text-foreground" data-testid={`text-applicant-name-${applicant.id}`}>
-                            {applicant.entityName}
-                          </p>
-                        </div>
-                        {applicant.primaryContactName && (
-                          <div>
-                            <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Primary Contact</p>
-                            <div className="bg-card rounded-md p-3 border border-border">
-                              <p className="text-sm font-medium text-foreground">{applicant.primaryContactName}</p>
-                              {applicant.primaryContactRole && (
-                                <p className="text-xs text-muted-foreground">{applicant.primaryContactRole}</p>
-                              )}
-                              <div className="mt-2 space-y-1">
-                                {applicant.primaryContactEmail && (
-                                  <p className="text-xs text-foreground flex items-center">
-                                    <Mail className="text-muted-foreground mr-2 w-4 h-4" />
-                                    {applicant.primaryContactEmail}
-                                  </p>
-                                )}
-                                {applicant.primaryContactPhone && (
-                                  <p className="text-xs text-foreground flex items-center">
-                                    <Phone className="text-muted-foreground mr-2 w-4 h-4" />
-                                    {applicant.primaryContactPhone}
-                                  </p>
-                                )}
-                              </div>
-                            </div>
-                          </div>
-                        )}
-                        {applicant.legalRepName && (
-                          <div>
-                            <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Legal Representative</p>
-                            <div className="bg-card rounded-md p-3 border border-border">
-                              <p className="text-sm font-medium text-foreground">{applicant.legalRepName}</p>
-                              {applicant.legalRepFirm && (
-                                <p className="text-xs text-muted-foreground">{applicant.legalRepFirm}</p>
-                              )}
-                              <div className="mt-2 space-y-1">
-                                {applicant.legalRepEmail && (
-                                  <p className="text-xs text-foreground flex items-center">
-                                    <Mail className="text-muted-foreground mr-2 w-4 h-4" />
-                                    {applicant.legalRepEmail}
-                                  </p>
-                                )}
-                                {applicant.legalRepPhone && (
-                                  <p className="text-xs text-foreground flex items-center">
-                                    <Phone className="text-muted-foreground mr-2 w-4 h-4" />
-                                    {applicant.legalRepPhone}
-                                  </p>
-                                )}
-                              </div>
-                            </div>
-                          </div>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))
+                renderPartyCards(applicants)
               )}
             </div>
 
@@ -740,70 +785,7 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
               {respondents.length === 0 ? (
                 <p className="text-muted-foreground text-sm">No respondents added</p>
               ) : (
-                respondents.map((respondent, index) => (
-                  <Card key={respondent.id || index}>
-                    <CardContent className="p-6">
-                      <div className="space-y-4">
-                        <div>
-                          <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Entity Name</p>
-                          <p className="text-sm font-semibold text-foreground" data-testid={`text-respondent-name-${respondent.id}`}>
-                            {respondent.entityName}
-                          </p>
-                        </div>
-                        {respondent.primaryContactName && (
-                          <div>
-                            <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Primary Contact</p>
-                            <div className="bg-card rounded-md p-3 border border-border">
-                              <p className="text-sm font-medium text-foreground">{respondent.primaryContactName}</p>
-                              {respondent.primaryContactRole && (
-                                <p className="text-xs text-muted-foreground">{respondent.primaryContactRole}</p>
-                              )}
-                              <div className="mt-2 space-y-1">
-                                {respondent.primaryContactEmail && (
-                                  <p className="text-xs text-foreground flex items-center">
-                                    <Mail className="text-muted-foreground mr-2 w-4 h-4" />
-                                    {respondent.primaryContactEmail}
-                                  </p>
-                                )}
-                                {respondent.primaryContactPhone && (
-                                  <p className="text-xs text-foreground flex items-center">
-                                    <Phone className="text-muted-foreground mr-2 w-4 h-4" />
-                                    {respondent.primaryContactPhone}
-                                  </p>
-                                )}
-                              </div>
-                            </div>
-                          </div>
-                        )}
-                        {respondent.legalRepName && (
-                          <div>
-                            <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Legal Representative</p>
-                            <div className="bg-card rounded-md p-3 border border-border">
-                              <p className="text-sm font-medium text-foreground">{respondent.legalRepName}</p>
-                              {respondent.legalRepFirm && (
-                                <p className="text-xs text-muted-foreground">{respondent.legalRepFirm}</p>
-                              )}
-                              <div className="mt-2 space-y-1">
-                                {respondent.legalRepEmail && (
-                                  <p className="text-xs text-foreground flex items-center">
-                                    <Mail className="text-muted-foreground mr-2 w-4 h-4" />
-                                    {respondent.legalRepEmail}
-                                  </p>
-                                )}
-                                {respondent.legalRepPhone && (
-                                  <p className="text-xs text-foreground flex items-center">
-                                    <Phone className="text-muted-foreground mr-2 w-4 h-4" />
-                                    {respondent.legalRepPhone}
-                                  </p>
-                                )}
-                              </div>
-                            </div>
-                          </div>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))
+                renderPartyCards(respondents)
               )}
             </div>
           </div>
@@ -831,6 +813,19 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
         <TabsContent value="ai" className="p-6">
           <AIChat caseId={caseId} />
         </TabsContent>
+
+        {/* Tab Content - Activity */}
+        <TabsContent value="outcome" className="p-6">
+          <CaseOutcome caseData={case_} />
+        </TabsContent>
+
+        <TabsContent value="billing" className="p-6">
+          <CaseBilling caseId={caseId} caseNumber={case_.caseNumber} />
+        </TabsContent>
+
+        <TabsContent value="activity" className="p-6">
+          <CaseActivity caseId={caseId} />
+        </TabsContent>
       </Tabs>
 
       {showEmailModal && (
@@ -841,13 +836,27 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
         />
       )}
 
+      <CaseExportDialog
+        caseId={caseId}
+        caseNumber={case_.caseNumber}
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+      />
+
+      <CaseMergeDialog
+        caseId={caseId}
+        caseNumber={case_.caseNumber}
+        isOpen={showMergeDialog}
+        onClose={() => setShowMergeDialog(false)}
+      />
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Case</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this case? This action cannot be undone.
-              All associated documents, parties, and notes will also be deleted.
+              The case and its documents, parties and notes will be moved to the Trash.
+              You can restore them from there until they are permanently deleted after the retention period.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -867,22 +876,28 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
       <Dialog open={showAddPartyDialog} onOpenChange={setShowAddPartyDialog}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Add Party</DialogTitle>
+            <DialogTitle>{editingPartyId ? 'Edit Party' : 'Add Party'}</DialogTitle>
             <DialogDescription>
-              Manually add a party to this case. Fill in the required fields and any additional information available.
+              {editingPartyId
+                ? 'Update the party details. Legal representatives and support persons are managed on the party card.'
+                : 'Manually add a party to this case. Fill in the required fields and any additional information available.'}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="col-span-2">
                 <Label htmlFor="entityName">Entity Name *</Label>
-                <Input
+                <ContactAutocomplete
                   id="entityName"
                   value={partyForm.entityName}
-                  onChange={(e) => setPartyForm({...partyForm, entityName: e.target.value})}
+                  onChange={(value) => setPartyForm({...partyForm, entityName: value, contactId: ''})}
+                  onSelect={(contact) => setPartyForm({...partyForm, entityName: contact.name, contactId: contact.id})}
                   placeholder="Company or individual name"
-                  data-testid="input-entity-name"
+                  testId="input-entity-name"
                 />
+                {partyForm.contactId && (
+                  <p className="text-xs text-muted-foreground mt-1">Linked to directory contact</p>
+                )}
               </div>
               <div className="col-span-2">
                 <Label htmlFor="partyType">Party Type *</Label>
@@ -939,59 +954,63 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
                 </div>
               </div>
             </div>
-            <div className="border-t pt-4">
-              <h4 className="font-medium mb-3">Legal Representative</h4>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="legalRepName">Representative Name</Label>
-                  <Input
-                    id="legalRepName"
-                    value={partyForm.legalRepName}
-                    onChange={(e) => setPartyForm({...partyForm, legalRepName: e.target.value})}
-                    data-testid="input-legal-rep-name"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="legalRepFirm">Law Firm</Label>
-                  <Input
-                    id="legalRepFirm"
-                    value={partyForm.legalRepFirm}
-                    onChange={(e) => setPartyForm({...partyForm, legalRepFirm: e.target.value})}
-                    data-testid="input-legal-rep-firm"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="legalRepEmail">Email</Label>
-                  <Input
-                    id="legalRepEmail"
-                    type="email"
-                    value={partyForm.legalRepEmail}
-                    onChange={(e) => setPartyForm({...partyForm, legalRepEmail: e.target.value})}
-                    data-testid="input-legal-rep-email"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="legalRepPhone">Phone</Label>
-                  <Input
-                    id="legalRepPhone"
-                    value={partyForm.legalRepPhone}
-                    onChange={(e) => setPartyForm({...partyForm, legalRepPhone: e.target.value})}
-                    data-testid="input-legal-rep-phone"
-                  />
+            {!editingPartyId && (
+              <div className="border-t pt-4">
+                <h4 className="font-medium mb-3">Legal Representative</h4>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="legalRepName">Representative Name</Label>
+                    <ContactAutocomplete
+                      id="legalRepName"
+                      kind="person"
+                      value={partyForm.legalRepName}
+                      onChange={(value) => setPartyForm({...partyForm, legalRepName: value, legalRepContactId: ''})}
+                      onSelect={selectLegalRepContact}
+                      testId="input-legal-rep-name"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="legalRepFirm">Law Firm</Label>
+                    <Input
+                      id="legalRepFirm"
+                      value={partyForm.legalRepFirm}
+                      onChange={(e) => setPartyForm({...partyForm, legalRepFirm: e.target.value})}
+                      data-testid="input-legal-rep-firm"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="legalRepEmail">Email</Label>
+                    <Input
+                      id="legalRepEmail"
+                      type="email"
+                      value={partyForm.legalRepEmail}
+                      onChange={(e) => setPartyForm({...partyForm, legalRepEmail: e.target.value})}
+                      data-testid="input-legal-rep-email"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="legalRepPhone">Phone</Label>
+                    <Input
+                      id="legalRepPhone"
+                      value={partyForm.legalRepPhone}
+                      onChange={(e) => setPartyForm({...partyForm, legalRepPhone: e.target.value})}
+                      data-testid="input-legal-rep-phone"
+                    />
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowAddPartyDialog(false)} data-testid="button-cancel-add-party">
               Cancel
             </Button>
             <Button
-              onClick={() => addPartyMutation.mutate(partyForm)}
-              disabled={!partyForm.entityName || addPartyMutation.isPending}
+              onClick={() => savePartyMutation.mutate(partyForm)}
+              disabled={!partyForm.entityName || savePartyMutation.isPending}
               data-testid="button-submit-add-party"
             >
-              {addPartyMutation.isPending ? "Adding..." : "Add Party"}
+              {savePartyMutation.isPending ? "Saving..." : editingPartyId ? "Save Changes" : "Add Party"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1004,18 +1023,17 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
           setEditCaseForm({
             mediatorName: case_.mediatorName || '',
             mediationType: case_.mediationType || '',
-            mediationDate: case_.mediationDate 
-              ? new Date(case_.mediationDate).toISOString().slice(0, 16) 
-              : '',
             premises: case_.premises || '',
+            caseTypeId: case_.caseTypeId || '',
+            customFields: case_.customFields || {},
           });
         }
       }}>
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Case Information</DialogTitle>
             <DialogDescription>
-              Update case details including session date/time, mediator, and mediation type.
+              Update case details including mediator and mediation type. Session dates are managed in the Sessions card.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -1046,20 +1064,7 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
               </Select>
             </div>
             <div>
-              <Label htmlFor="edit-mediationDate">Session Date & Time</Label>
-              <Input
-                id="edit-mediationDate"
-                type="datetime-local"
-                value={editCaseForm.mediationDate}
-                onChange={(e) => setEditCaseForm({...editCaseForm, mediationDate: e.target.value})}
-                data-testid="input-edit-mediation-date"
-              />
-              <p className="text-xs text-muted-foreground mt-1">
-                Select date and time in your local timezone
-              </p>
-            </div>
-            <div>
-              <Label htmlFor="edit-premises">Premises</Label>
+              <Label htmlFor="edit-premises">Default Venue</Label>
               <Input
                 id="edit-premises"
                 value={editCaseForm.premises}
@@ -1068,6 +1073,41 @@ export default function CaseDetail({ caseId, onBack }: CaseDetailProps) {
                 data-testid="input-edit-premises"
               />
             </div>
+            {caseTypes.length > 0 && (
+              <div>
+                <Label htmlFor="edit-caseType">Case Type</Label>
+                <Select
+                  value={editCaseForm.caseTypeId || 'none'}
+                  onValueChange={(value) => setEditCaseForm({
+                    ...editCaseForm,
+                    caseTypeId: value === 'none' ? '' : value,
+                    customFields: value === case_.caseTypeId ? case_.customFields || {} : {},
+                  })}
+                >
+                  <SelectTrigger id="edit-caseType" data-testid="select-edit-case-type">
+                    <SelectValue placeholder="Select case type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No case type</SelectItem>
+                    {caseTypes.map((type) => (
+                      <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {editCaseType?.defaultIssues?.length && !case_.issuesForDiscussion?.length ? (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The {editCaseType.name} issues for discussion will be added to this case
+                  </p>
+                ) : null}
+              </div>
+            )}
+            {editCaseType && (
+              <CustomFieldInputs
+                fields={editCaseType.fields}
+                values={editCaseForm.customFields}
+                onChange={(customFields) => setEditCaseForm({ ...editCaseForm, customFields })}
+              />
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowEditCaseDialog(false)} data-testid="button-cancel-edit">
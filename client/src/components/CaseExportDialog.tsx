@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download } from "lucide-react";
+
+interface CaseExportDialogProps {
+  caseId: string;
+  caseNumber: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// The export is a plain download link; the server streams the ZIP with the session cookie
+export default function CaseExportDialog({ caseId, caseNumber, isOpen, onClose }: CaseExportDialogProps) {
+  const [includeBrief, setIncludeBrief] = useState(true);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Case {caseNumber}</DialogTitle>
+          <DialogDescription>
+            Downloads a ZIP with the case details, parties, notes and AI analyses (case.json), every
+            document, and an index. The ZIP can be imported into another MediatorPro instance.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="export-include-brief"
+            checked={includeBrief}
+            onCheckedChange={(checked) => setIncludeBrief(checked === true)}
+            data-testid="checkbox-export-brief"
+          />
+          <Label htmlFor="export-include-brief">Include a PDF case brief</Label>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button asChild data-testid="button-download-export">
+            <a href={`/api/cases/${caseId}/export${includeBrief ? '?brief=true' : ''}`} download onClick={onClose}>
+              <Download className="w-4 h-4 mr-2" />
+              Download ZIP
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
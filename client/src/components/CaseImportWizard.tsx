@@ -0,0 +1,302 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  caseImportFieldLabels,
+  caseImportFields,
+  type CaseImportField,
+  type CaseImportMapping,
+  type CaseImportPreview,
+  type CaseImportResult,
+} from "@shared/schema";
+import { AlertTriangle, CheckCircle2, FileSpreadsheet } from "lucide-react";
+
+const UNMAPPED = "__unmapped__";
+
+type Step = "upload" | "map" | "preview";
+
+interface CaseImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mediatorId?: string;
+}
+
+// Multipart request shared by the preview and the import; the spreadsheet is re-sent each time
+async function postSpreadsheet<T>(url: string, file: File, fields: Record<string, string | undefined>): Promise<T> {
+  const formData = new FormData();
+  formData.append('file', file);
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) formData.append(key, value);
+  }
+  const response = await fetch(url, { method: 'POST', body: formData, credentials: 'include' });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`${response.status}: ${text}`);
+  }
+  return response.json();
+}
+
+export default function CaseImportWizard({ isOpen, onClose, mediatorId }: CaseImportWizardProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>("upload");
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CaseImportMapping>({});
+  const [preview, setPreview] = useState<CaseImportPreview | null>(null);
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setColumns([]);
+    setMapping({});
+    setPreview(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const readColumnsMutation = useMutation({
+    mutationFn: (selected: File) => postSpreadsheet<CaseImportPreview>('/api/cases/import/preview', selected, { mediatorId }),
+    onSuccess: (result, selected) => {
+      setFile(selected);
+      setColumns(result.columns);
+      setMapping(result.mapping);
+      setStep("map");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to read spreadsheet"), variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => postSpreadsheet<CaseImportPreview>('/api/cases/import/preview', file!, {
+      mediatorId,
+      mapping: JSON.stringify(mapping),
+    }),
+    onSuccess: (result) => {
+      setPreview(result);
+      setStep("preview");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to preview import"), variant: "destructive" });
+    },
+  });
+
+  const invalidCount = preview ? preview.rows.length - preview.validCount : 0;
+
+  const importMutation = useMutation({
+    mutationFn: () => postSpreadsheet<CaseImportResult>('/api/cases/import', file!, {
+      mediatorId,
+      mapping: JSON.stringify(mapping),
+      skipInvalid: String(invalidCount > 0),
+    }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      const unchecked = result.conflictCheckFailed.length > 0
+        ? `. The conflict check could not run for ${result.conflictCheckFailed.join(', ')}; run it from the case`
+        : '';
+      toast({
+        title: unchecked ? "Imported with warnings" : "Success",
+        description: `Imported ${result.created} case${result.created === 1 ? '' : 's'}` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} row${result.skipped === 1 ? '' : 's'}` : '') + unchecked,
+        variant: unchecked ? "destructive" : undefined,
+      });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to import cases"), variant: "destructive" });
+    },
+  });
+
+  const setFieldColumn = (field: CaseImportField, column: string) => {
+    const next = { ...mapping };
+    if (column === UNMAPPED) {
+      delete next[field];
+    } else {
+      next[field] = column;
+    }
+    setMapping(next);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (selected) {
+      readColumnsMutation.mutate(selected);
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Cases from Spreadsheet</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel referral spreadsheet with one case per row and column headings in the first row."}
+            {step === "map" && `Choose which column of ${file?.name} holds each field. Columns left unmapped are not imported.`}
+            {step === "preview" && "Check the rows below before importing. Rows with errors or duplicate case numbers are not imported."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div
+            className="upload-zone rounded-lg p-12 text-center cursor-pointer"
+            onClick={() => fileInputRef.current?.click()}
+            data-testid="zone-import-upload"
+          >
+            <FileSpreadsheet className="w-10 h-10 text-primary mx-auto mb-3" />
+            <p className="text-sm font-medium text-foreground">
+              {readColumnsMutation.isPending ? 'Reading spreadsheet...' : 'Click to choose a .csv, .xlsx or .xls file'}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">Up to 500 rows. Dates are read as DD/MM/YYYY.</p>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              data-testid="input-import-file"
+            />
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="max-h-[60vh] overflow-y-auto pr-2">
+            <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+              {caseImportFields.map((field) => (
+                <div key={field}>
+                  <Label htmlFor={`import-field-${field}`} className="text-xs">
+                    {caseImportFieldLabels[field]}
+                    {field === "caseNumber" && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select value={mapping[field] ?? UNMAPPED} onValueChange={(column) => setFieldColumn(field, column)}>
+                    <SelectTrigger id={`import-field-${field}`} data-testid={`select-import-field-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                      {columns.map((column) => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-3 text-sm" data-testid="text-import-summary">
+              <span className="flex items-center gap-1 text-foreground">
+                <CheckCircle2 className="w-4 h-4 text-green-600" />
+                {preview.validCount} ready to import
+              </span>
+              {invalidCount > 0 && (
+                <span className="flex items-center gap-1 text-destructive">
+                  <AlertTriangle className="w-4 h-4" />
+                  {invalidCount} with errors
+                </span>
+              )}
+            </div>
+            <ScrollArea className="h-[50vh] border border-border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 border-b border-border sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Row</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Case Number</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Parties</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Session</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {preview.rows.map((row) => (
+                    <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-destructive/5' : ''} data-testid={`row-import-${row.rowNumber}`}>
+                      <td className="px-3 py-2 text-muted-foreground">{row.rowNumber}</td>
+                      <td className="px-3 py-2 font-mono">{row.caseNumber || '—'}</td>
+                      <td className="px-3 py-2">
+                        {[row.applicant, row.respondent].filter(Boolean).join(' v ') || '—'}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.mediationDate ? new Date(row.mediationDate).toLocaleDateString('en-AU') : '—'}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.errors.length === 0 ? (
+                          <Badge variant="outline" className="text-green-700 border-green-300">OK</Badge>
+                        ) : (
+                          <div className="space-y-1">
+                            {row.duplicate && (
+                              <Badge variant="destructive">
+                                {row.duplicate === 'existing' ? 'Already exists' : 'Duplicate in file'}
+                              </Badge>
+                            )}
+                            {row.errors.map((error, index) => (
+                              <p key={index} className="text-xs text-destructive">{error}</p>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "upload" && (
+            <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>Choose Another File</Button>
+              <Button
+                onClick={() => previewMutation.mutate()}
+                disabled={!mapping.caseNumber || previewMutation.isPending}
+                data-testid="button-import-preview"
+              >
+                {previewMutation.isPending ? 'Checking...' : 'Preview'}
+              </Button>
+            </>
+          )}
+          {step === "preview" && preview && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>Back to Mapping</Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={preview.validCount === 0 || importMutation.isPending}
+                data-testid="button-import-confirm"
+              >
+                {importMutation.isPending
+                  ? 'Importing...'
+                  : `Import ${preview.validCount} Case${preview.validCount === 1 ? '' : 's'}${invalidCount > 0 ? `, Skip ${invalidCount}` : ''}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
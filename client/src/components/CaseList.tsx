@@ -0,0 +1,482 @@
+import { useEffect, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { keepPreviousData, useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { filtersToSearch, hasCaseFilters, searchToFilters } from "@/lib/caseListFilters";
+import {
+  caseStatuses,
+  caseStatusLabels,
+  normalizeCaseStatus,
+  type Case,
+  type CaseListFilters,
+  type CaseListPage,
+  type CaseListSortField,
+  type CaseType,
+  type SavedCaseView,
+} from "@shared/schema";
+import { ArrowDown, ArrowUp, Bookmark, ChevronLeft, ChevronRight, X } from "lucide-react";
+
+const ALL = "all";
+const PAGE_SIZE = 10;
+
+const SORT_LABELS: Record<CaseListSortField, string> = {
+  updatedAt: "Last updated",
+  createdAt: "Date created",
+  mediationDate: "Session date",
+  caseNumber: "Case number",
+};
+
+interface CaseListProps {
+  onSelectCase: (caseId: string) => void;
+  onEmailCase: (caseId: string) => void;
+}
+
+const getStatusBadgeClass = (status: string) => {
+  switch (normalizeCaseStatus(status)) {
+    case 'referred':
+    case 'intake':
+    case 'in_session':
+      return 'status-active';
+    case 'scheduled':
+      return 'status-scheduled';
+    default:
+      return 'status-closed';
+  }
+};
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return 'Not scheduled';
+  return new Date(dateString).toLocaleDateString('en-AU', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export default function CaseList({ onSelectCase, onEmailCase }: CaseListProps) {
+  const { toast } = useToast();
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
+  const { filters, page } = searchToFilters(search);
+  const [partyInput, setPartyInput] = useState(filters.party || '');
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [viewName, setViewName] = useState('');
+
+  const applyFilters = (changes: Partial<CaseListFilters>, nextPage = 1) => {
+    const next = { ...filters, ...changes };
+    const query = filtersToSearch(next, nextPage);
+    setLocation(query ? `${location}?${query}` : location);
+  };
+
+  // Party name search is applied as the user types, once they pause
+  useEffect(() => {
+    setPartyInput(filters.party || '');
+  }, [filters.party]);
+  useEffect(() => {
+    if (partyInput.trim() === (filters.party || '')) return;
+    const timeout = setTimeout(() => applyFilters({ party: partyInput.trim() || undefined }), 300);
+    return () => clearTimeout(timeout);
+  }, [partyInput]);
+
+  const listSearch = filtersToSearch({ ...filters }, page);
+  const { data, isLoading } = useQuery<CaseListPage>({
+    queryKey: ["/api/cases", "list", listSearch],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/cases/search?${listSearch}&pageSize=${PAGE_SIZE}`);
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+  const cases = data?.cases ?? [];
+  const total = data?.total ?? 0;
+
+  const { data: caseTypes = [] } = useQuery<CaseType[]>({ queryKey: ['/api/case-types'] });
+  const { data: tags = [] } = useQuery<string[]>({ queryKey: ['/api/cases/tags'] });
+
+  const saveViewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/case-views', { name: viewName, filters });
+      return response.json() as Promise<SavedCaseView>;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/case-views'] });
+      setShowSaveDialog(false);
+      setViewName('');
+      toast({ title: "Success", description: `Saved "${view.name}" to the sidebar` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to save view"), variant: "destructive" });
+    },
+  });
+
+  const dateRange = filters.nextDays ? `next-${filters.nextDays}` : filters.dateFrom || filters.dateTo ? 'custom' : ALL;
+  const sort = filters.sort ?? 'updatedAt';
+  const order = filters.order ?? (sort === 'caseNumber' || sort === 'mediationDate' ? 'asc' : 'desc');
+  const firstRow = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const lastRow = Math.min(page * PAGE_SIZE, total);
+
+  return (
+    <Card>
+      <div className="p-6 border-b border-border space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-foreground">Cases</h3>
+          <div className="flex items-center gap-2">
+            {hasCaseFilters(filters) && (
+              <Button variant="ghost" size="sm" onClick={() => setLocation(location)} data-testid="button-clear-case-filters">
+                <X className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setShowSaveDialog(true)} data-testid="button-save-case-view">
+              <Bookmark className="w-4 h-4 mr-2" />
+              Save View
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3" data-testid="case-filters">
+          <Select
+            value={filters.status?.length === 1 ? filters.status[0] : filters.status?.length ? 'multiple' : ALL}
+            onValueChange={(value) => applyFilters({ status: value === ALL ? undefined : [value as Case['status']] as CaseListFilters['status'] })}
+          >
+            <SelectTrigger data-testid="select-filter-status">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              {(filters.status?.length ?? 0) > 1 && <SelectItem value="multiple" disabled>Several statuses</SelectItem>}
+              {caseStatuses.map((status) => (
+                <SelectItem key={status} value={status}>{caseStatusLabels[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.mediationType || ALL}
+            onValueChange={(value) => applyFilters({ mediationType: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger data-testid="select-filter-mediation-type">
+              <SelectValue placeholder="Mediation type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any mediation type</SelectItem>
+              <SelectItem value="Remote">Remote</SelectItem>
+              <SelectItem value="In-Person">In-Person</SelectItem>
+              <SelectItem value="Hybrid">Hybrid</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.caseTypeId || ALL}
+            onValueChange={(value) => applyFilters({ caseTypeId: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger data-testid="select-filter-case-type">
+              <SelectValue placeholder="Case type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any case type</SelectItem>
+              {caseTypes.map((type) => (
+                <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.tag?.[0] || ALL}
+            onValueChange={(value) => applyFilters({ tag: value === ALL ? undefined : [value] })}
+          >
+            <SelectTrigger data-testid="select-filter-tag">
+              <SelectValue placeholder="Tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any tag</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            value={partyInput}
+            onChange={(e) => setPartyInput(e.target.value)}
+            placeholder="Party name"
+            data-testid="input-filter-party"
+          />
+
+          <Select
+            value={dateRange}
+            onValueChange={(value) => applyFilters(
+              value === ALL
+                ? { nextDays: undefined, dateFrom: undefined, dateTo: undefined }
+                : value === 'custom'
+                  ? { nextDays: undefined, dateFrom: new Date().toISOString().slice(0, 10) }
+                  : { nextDays: parseInt(value.replace('next-', ''), 10), dateFrom: undefined, dateTo: undefined },
+            )}
+          >
+            <SelectTrigger data-testid="select-filter-date-range">
+              <SelectValue placeholder="Session date" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any session date</SelectItem>
+              {[7, 14, 30, 90].map((days) => (
+                <SelectItem key={days} value={`next-${days}`}>Next {days} days</SelectItem>
+              ))}
+              {filters.nextDays && ![7, 14, 30, 90].includes(filters.nextDays) && (
+                <SelectItem value={`next-${filters.nextDays}`}>Next {filters.nextDays} days</SelectItem>
+              )}
+              <SelectItem value="custom">Date range...</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <div className="flex gap-1">
+            <Select value={sort} onValueChange={(value) => applyFilters({ sort: value as CaseListSortField, order: undefined }, page)}>
+              <SelectTrigger data-testid="select-case-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => applyFilters({ order: order === 'asc' ? 'desc' : 'asc' }, page)}
+              title={order === 'asc' ? 'Ascending' : 'Descending'}
+              data-testid="button-case-sort-order"
+            >
+              {order === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+
+        {dateRange === 'custom' && (
+          <div className="flex items-end gap-3">
+            <div>
+              <Label htmlFor="filter-date-from" className="text-xs">From</Label>
+              <Input
+                id="filter-date-from"
+                type="date"
+                value={filters.dateFrom || ''}
+                onChange={(e) => applyFilters({ dateFrom: e.target.value || undefined })}
+                data-testid="input-filter-date-from"
+              />
+            </div>
+            <div>
+              <Label htmlFor="filter-date-to" className="text-xs">To</Label>
+              <Input
+                id="filter-date-to"
+                type="date"
+                value={filters.dateTo || ''}
+                onChange={(e) => applyFilters({ dateTo: e.target.value || undefined })}
+                data-testid="input-filter-date-to"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto" data-testid="table-cases">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : cases.length === 0 ? (
+          <div className="text-center p-8" data-testid="text-no-cases">
+            <i className="fas fa-folder-open text-muted-foreground text-4xl mb-4"></i>
+            {hasCaseFilters(filters) ? (
+              <p className="text-foreground font-medium">No cases match these filters</p>
+            ) : (
+              <>
+                <p className="text-foreground font-medium">No cases yet</p>
+                <p className="text-muted-foreground text-sm">Upload your first case document to get started</p>
+              </>
+            )}
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-muted/50 border-b border-border">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Case Number
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Background
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Next Session
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {cases.map((caseItem) => (
+                <tr
+                  key={caseItem.id}
+                  className="hover:bg-accent/50 transition-colors cursor-pointer"
+                  onClick={() => onSelectCase(caseItem.id)}
+                  data-testid={`row-case-${caseItem.id}`}
+                >
+                  <td className="px-6 py-4">
+                    <div className="flex items-center">
+                      <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center mr-3">
+                        <i className="fas fa-briefcase text-primary"></i>
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium text-foreground" data-testid={`text-case-number-${caseItem.id}`}>
+                          {caseItem.caseNumber}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {caseItem.mediationNumber || 'N/A'}
+                        </p>
+                        {caseItem.tags?.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {caseItem.tags.map((tag) => (
+                              <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <p className="text-sm text-foreground truncate max-w-xs" title={caseItem.disputeBackground || ''}>
+                      {caseItem.disputeBackground || 'No background provided'}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <Badge variant="outline" className="flex items-center space-x-1 w-fit">
+                      <i className={`fas ${caseItem.mediationType === 'Remote' ? 'fa-video' : 'fa-building'} text-xs`}></i>
+                      <span>{caseItem.mediationType || 'Not specified'}</span>
+                    </Badge>
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`status-badge ${getStatusBadgeClass(caseItem.status)}`}>
+                      {caseStatusLabels[normalizeCaseStatus(caseItem.status)]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <p className="text-sm text-foreground">
+                      {formatDate(caseItem.mediationDate?.toString() || null)}
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onSelectCase(caseItem.id);
+                        }}
+                        data-testid={`button-view-case-${caseItem.id}`}
+                      >
+                        <i className="fas fa-eye"></i>
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onEmailCase(caseItem.id);
+                        }}
+                        data-testid={`button-email-case-${caseItem.id}`}
+                      >
+                        <i className="fas fa-envelope"></i>
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="flex items-center justify-between px-6 py-3 border-t border-border">
+          <p className="text-sm text-muted-foreground" data-testid="text-case-count">
+            {firstRow}–{lastRow} of {total}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => applyFilters({}, page - 1)}
+              disabled={page <= 1}
+              data-testid="button-cases-previous-page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => applyFilters({}, page + 1)}
+              disabled={lastRow >= total}
+              data-testid="button-cases-next-page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filters and sort order to your sidebar.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="case-view-name">Name</Label>
+            <Input
+              id="case-view-name"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder="e.g. Next 14 days, remote"
+              data-testid="input-case-view-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveDialog(false)}>Cancel</Button>
+            <Button
+              onClick={() => saveViewMutation.mutate()}
+              disabled={!viewName.trim() || saveViewMutation.isPending}
+              data-testid="button-confirm-save-case-view"
+            >
+              {saveViewMutation.isPending ? 'Saving...' : 'Save View'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
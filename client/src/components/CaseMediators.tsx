@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CaseMediatorWithUser, User } from "@shared/schema";
+import { Crown, Trash2, UserPlus } from "lucide-react";
+
+interface CaseMediatorsProps {
+  caseId: string;
+  mediators: CaseMediatorWithUser[];
+}
+
+export default function CaseMediators({ caseId, mediators }: CaseMediatorsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { organization, isAdmin, isLoading: organizationLoading } = useOrganization();
+  const [email, setEmail] = useState('');
+
+  // The lead mediator and organization admins manage the mediators; co-mediators can only leave
+  const currentUserId = (user as User | undefined)?.id;
+  const canManage = isAdmin || mediators.some(m => m.role === 'lead' && m.userId === currentUserId);
+
+  const onSuccess = (description: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+    toast({ title: "Success", description });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.replace(/^\d+: /, '') || "Failed to update mediators",
+      variant: "destructive",
+    });
+  };
+
+  const addMediatorMutation = useMutation({
+    mutationFn: async (mediatorEmail: string) =>
+      apiRequest('POST', `/api/cases/${caseId}/mediators`, { email: mediatorEmail }),
+    onSuccess: () => {
+      setEmail('');
+      onSuccess("Co-mediator added")();
+    },
+    onError,
+  });
+
+  const makeLeadMutation = useMutation({
+    mutationFn: async (userId: string) =>
+      apiRequest('PATCH', `/api/cases/${caseId}/mediators/${userId}`, { role: 'lead' }),
+    onSuccess: onSuccess("Lead mediator changed"),
+    onError,
+  });
+
+  const removeMediatorMutation = useMutation({
+    mutationFn: async (userId: string) =>
+      apiRequest('DELETE', `/api/cases/${caseId}/mediators/${userId}`),
+    onSuccess: onSuccess("Co-mediator removed"),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-4">Mediators</h3>
+        <div className="space-y-3" data-testid="list-case-mediators">
+          {mediators.map((mediator) => {
+            const name = `${mediator.user.firstName || ''} ${mediator.user.lastName || ''}`.trim() || mediator.user.id;
+            const isLead = mediator.role === 'lead';
+            return (
+              <div key={mediator.id} className="flex items-center justify-between" data-testid={`mediator-${mediator.userId}`}>
+                <div>
+                  <p className="text-sm font-medium text-foreground flex items-center gap-2">
+                    {name}
+                    <Badge variant={isLead ? "default" : "outline"} className="text-xs">
+                      {isLead ? 'Lead' : 'Co-mediator'}
+                    </Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">{mediator.user.mediatorEmail || mediator.user.email}</p>
+                </div>
+                {!isLead && (canManage || mediator.userId === currentUserId) && (
+                  <div className="flex items-center">
+                    {canManage && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Make lead mediator"
+                        onClick={() => makeLeadMutation.mutate(mediator.userId)}
+                        disabled={makeLeadMutation.isPending}
+                        data-testid={`button-make-lead-${mediator.userId}`}
+                      >
+                        <Crown className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title={mediator.userId === currentUserId ? "Leave this case" : "Remove co-mediator"}
+                      onClick={() => removeMediatorMutation.mutate(mediator.userId)}
+                      disabled={removeMediatorMutation.isPending}
+                      data-testid={`button-remove-mediator-${mediator.userId}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {canManage && !organizationLoading && !organization && (
+          <p className="text-sm text-muted-foreground mt-4 pt-4 border-t" data-testid="text-co-mediator-practice-required">
+            Co-mediators must be members of your practice. Create a practice under Settings &gt; Team and invite them to it to add them here.
+          </p>
+        )}
+        {canManage && organization && (
+          <div className="flex items-center gap-2 mt-4 pt-4 border-t">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email of a co-mediator in your organization"
+              data-testid="input-co-mediator-email"
+            />
+            <Button
+              size="sm"
+              onClick={() => addMediatorMutation.mutate(email.trim())}
+              disabled={!email.trim() || addMediatorMutation.isPending}
+              data-testid="button-add-co-mediator"
+            >
+              <UserPlus className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { Case, CaseMergeResult, DuplicateCaseMatch } from "@shared/schema";
+import { GitMerge } from "lucide-react";
+
+interface CaseMergeDialogProps {
+  caseId: string;
+  caseNumber: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Merges another case into this one. Likely duplicates are suggested first; any accessible case can be chosen.
+export default function CaseMergeDialog({ caseId, caseNumber, isOpen, onClose }: CaseMergeDialogProps) {
+  const { toast } = useToast();
+  const [sourceCaseId, setSourceCaseId] = useState<string>('');
+
+  const { data: duplicates = [], isLoading: duplicatesLoading } = useQuery<DuplicateCaseMatch[]>({
+    queryKey: ["/api/cases", caseId, "duplicates"],
+    enabled: isOpen,
+  });
+
+  const { data: cases = [] } = useQuery<Case[]>({
+    queryKey: ["/api/cases"],
+    enabled: isOpen,
+  });
+
+  const otherCases = cases.filter(c => c.id !== caseId);
+  const sourceCase = otherCases.find(c => c.id === sourceCaseId);
+
+  const handleClose = () => {
+    setSourceCaseId('');
+    onClose();
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/cases/${caseId}/merge`, { sourceCaseId });
+      return response.json() as Promise<CaseMergeResult>;
+    },
+    onSuccess: (result) => {
+      const { parties, documents, notes } = result.moved;
+      toast({
+        title: "Success",
+        description: `Merged ${sourceCase?.caseNumber ?? 'case'} into ${caseNumber}: moved ${parties} part${parties === 1 ? 'y' : 'ies'}, ` +
+          `${documents} document${documents === 1 ? '' : 's'} and ${notes} note${notes === 1 ? '' : 's'}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      handleClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to merge cases"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Merge a Case into {caseNumber}</DialogTitle>
+          <DialogDescription>
+            Parties, documents, notes and AI analyses from the chosen case are moved into {caseNumber}.
+            The chosen case is then moved to the Trash.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Likely duplicates</Label>
+            {duplicatesLoading ? (
+              <p className="text-sm text-muted-foreground">Looking for duplicates...</p>
+            ) : duplicates.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-duplicates">No likely duplicates found.</p>
+            ) : (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {duplicates.map((duplicate) => (
+                  <button
+                    key={duplicate.caseId}
+                    type="button"
+                    onClick={() => setSourceCaseId(duplicate.caseId)}
+                    className={`w-full text-left border rounded-md p-3 hover:bg-muted/50 ${
+                      sourceCaseId === duplicate.caseId ? 'border-primary bg-primary/5' : 'border-border'
+                    }`}
+                    data-testid={`button-merge-suggestion-${duplicate.caseId}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-sm font-medium">{duplicate.caseNumber}</span>
+                      {duplicate.matchedParties.length > 0 && (
+                        <Badge variant="secondary" className="text-xs">
+                          {duplicate.matchedParties.length} matching part{duplicate.matchedParties.length === 1 ? 'y' : 'ies'}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">{duplicate.parties.join(' v ') || 'No parties recorded'}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="merge-source-case">Or choose any case</Label>
+            <Select value={sourceCaseId} onValueChange={setSourceCaseId}>
+              <SelectTrigger id="merge-source-case" data-testid="select-merge-source">
+                <SelectValue placeholder="Select a case to merge" />
+              </SelectTrigger>
+              <SelectContent>
+                {otherCases.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.caseNumber}{c.mediationNumber ? ` (${c.mediationNumber})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button
+            onClick={() => mergeMutation.mutate()}
+            disabled={!sourceCaseId || mergeMutation.isPending}
+            data-testid="button-confirm-merge"
+          >
+            <GitMerge className="w-4 h-4 mr-2" />
+            {mergeMutation.isPending ? 'Merging...' : `Merge ${sourceCase?.caseNumber ?? ''} into ${caseNumber}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,352 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import SettlementDraft from "@/components/SettlementDraft";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  attendedSessionWindow,
+  canTransitionCaseStatus,
+  caseStatusLabels,
+  normalizeCaseStatus,
+  outcomeCaseStatuses,
+  settledOutcomeTypes,
+  type Case,
+  type CaseOutcome as CaseOutcomeRecord,
+  type MediationSession,
+  type OutcomeCaseStatus,
+  type SessionAttendee,
+} from "@shared/schema";
+import { CheckCircle2, Lock } from "lucide-react";
+
+interface CaseOutcomeProps {
+  caseData: Case & { sessions: MediationSession[] };
+}
+
+type OutcomeForm = {
+  outcomeType: OutcomeCaseStatus | '';
+  settlementAmount: string;
+  currency: string;
+  paymentTerms: string;
+  nonMonetaryTerms: string;
+  resolvedIssues: string[];
+  durationHours: string;
+  durationMinutes: string;
+};
+
+// Without a recorded duration, the time the sessions ran by their attendance registers
+const formFromOutcome = (outcome: CaseOutcomeRecord | null | undefined, status: string, attendedMinutes: number | null): OutcomeForm => {
+  const currentStatus = normalizeCaseStatus(status);
+  const duration = outcome?.sessionDurationMinutes ?? attendedMinutes;
+  return {
+    outcomeType: (outcome?.outcomeType as OutcomeCaseStatus | undefined)
+      ?? ((outcomeCaseStatuses as readonly string[]).includes(currentStatus) ? currentStatus as OutcomeCaseStatus : ''),
+    settlementAmount: outcome?.settlementAmount ?? '',
+    currency: outcome?.currency ?? 'AUD',
+    paymentTerms: outcome?.paymentTerms ?? '',
+    nonMonetaryTerms: outcome?.nonMonetaryTerms ?? '',
+    resolvedIssues: outcome?.resolvedIssues ?? [],
+    durationHours: duration !== null ? String(Math.floor(duration / 60)) : '',
+    durationMinutes: duration !== null ? String(duration % 60) : '',
+  };
+};
+
+export default function CaseOutcome({ caseData }: CaseOutcomeProps) {
+  const { toast } = useToast();
+  const currentStatus = normalizeCaseStatus(caseData.status);
+  const issues = caseData.issuesForDiscussion ?? [];
+
+  const { data: outcome, isLoading } = useQuery<CaseOutcomeRecord | null>({
+    queryKey: ["/api/cases", caseData.id, "outcome"],
+  });
+
+  const { data: attendance, isLoading: attendanceLoading } = useQuery<SessionAttendee[]>({
+    queryKey: ["/api/cases", caseData.id, "attendance"],
+  });
+
+  const attendedWindows = caseData.sessions
+    .map(session => attendedSessionWindow(session, (attendance ?? []).filter(attendee => attendee.sessionId === session.id)))
+    .filter((attended): attended is NonNullable<typeof attended> => attended !== null);
+  const attendedMinutes = attendedWindows.length > 0 ? attendedWindows.reduce((total, attended) => total + attended.minutes, 0) : null;
+  const durationFromAttendance = attendedMinutes !== null && (outcome?.sessionDurationMinutes ?? null) === null;
+
+  const [form, setForm] = useState<OutcomeForm>(() => formFromOutcome(null, caseData.status, null));
+
+  useEffect(() => {
+    if (!isLoading && !attendanceLoading) {
+      setForm(formFromOutcome(outcome, caseData.status, attendedMinutes));
+    }
+  }, [outcome, isLoading, attendanceLoading, caseData.status, attendedMinutes]);
+
+  const isSettled = form.outcomeType !== '' && settledOutcomeTypes.includes(form.outcomeType);
+  const isClosed = currentStatus === 'closed';
+  // Outcome types the case can still move to; a closed case keeps the one it was closed with
+  const availableTypes = outcomeCaseStatuses.filter(type =>
+    isClosed ? !outcome || outcome.outcomeType === type : type === currentStatus || canTransitionCaseStatus(currentStatus, type)
+  );
+
+  const invalidateCase = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cases", caseData.id] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const hours = Number(form.durationHours || 0);
+      const minutes = Number(form.durationMinutes || 0);
+      const hasDuration = form.durationHours !== '' || form.durationMinutes !== '';
+      const response = await apiRequest('PUT', `/api/cases/${caseData.id}/outcome`, {
+        outcomeType: form.outcomeType,
+        settlementAmount: isSettled ? form.settlementAmount : null,
+        currency: form.currency,
+        paymentTerms: isSettled ? form.paymentTerms || null : null,
+        nonMonetaryTerms: form.nonMonetaryTerms || null,
+        resolvedIssues: form.resolvedIssues,
+        sessionDurationMinutes: hasDuration ? Math.round(hours * 60 + minutes) : null,
+      });
+      return response.json() as Promise<{ outcome: CaseOutcomeRecord; case: Case }>;
+    },
+    onSuccess: (result) => {
+      invalidateCase();
+      const moved = normalizeCaseStatus(result.case.status) !== currentStatus;
+      toast({
+        title: "Success",
+        description: moved
+          ? `Outcome recorded; case moved to ${caseStatusLabels[normalizeCaseStatus(result.case.status)]}`
+          : "Outcome saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to save outcome"), variant: "destructive" });
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest('POST', `/api/cases/${caseData.id}/status`, { status: 'closed', reason: 'Outcome recorded' }),
+    onSuccess: () => {
+      invalidateCase();
+      toast({ title: "Success", description: "Case closed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to close case"), variant: "destructive" });
+    },
+  });
+
+  const toggleIssue = (issue: string, checked: boolean) => {
+    setForm({
+      ...form,
+      resolvedIssues: checked ? [...form.resolvedIssues, issue] : form.resolvedIssues.filter(i => i !== issue),
+    });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading outcome...</p>;
+  }
+
+  if (availableTypes.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-sm text-muted-foreground" data-testid="text-outcome-unavailable">
+          The outcome can be recorded once the mediation session is under way
+          (the case is {caseStatusLabels[currentStatus]}). A case can be withdrawn at any earlier stage.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2">
+        <CardContent className="p-6 space-y-5">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-foreground">Mediation Outcome</h3>
+            {outcome?.updatedAt && (
+              <span className="text-xs text-muted-foreground">
+                Last saved {new Date(outcome.updatedAt).toLocaleString()}
+              </span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="outcome-type">Outcome</Label>
+              <Select
+                value={form.outcomeType}
+                onValueChange={(value) => setForm({ ...form, outcomeType: value as OutcomeCaseStatus })}
+                disabled={isClosed && !!outcome}
+              >
+                <SelectTrigger id="outcome-type" data-testid="select-outcome-type">
+                  <SelectValue placeholder="How did the mediation end?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{caseStatusLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Session duration</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.durationHours}
+                  onChange={(e) => setForm({ ...form, durationHours: e.target.value })}
+                  className="w-20"
+                  data-testid="input-outcome-hours"
+                />
+                <span className="text-sm text-muted-foreground">h</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={59}
+                  value={form.durationMinutes}
+                  onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                  className="w-20"
+                  data-testid="input-outcome-minutes"
+                />
+                <span className="text-sm text-muted-foreground">min</span>
+              </div>
+              {durationFromAttendance && (
+                <p className="text-xs text-muted-foreground mt-1">From the attendance register</p>
+              )}
+            </div>
+          </div>
+
+          {isSettled && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <Label htmlFor="outcome-amount">Settlement amount</Label>
+                  <Input
+                    id="outcome-amount"
+                    inputMode="decimal"
+                    value={form.settlementAmount}
+                    onChange={(e) => setForm({ ...form, settlementAmount: e.target.value })}
+                    placeholder="Leave blank if no money changes hands"
+                    data-testid="input-outcome-amount"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="outcome-currency">Currency</Label>
+                  <Input
+                    id="outcome-currency"
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+                    maxLength={3}
+                    data-testid="input-outcome-currency"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="outcome-payment-terms">Payment terms</Label>
+                <Textarea
+                  id="outcome-payment-terms"
+                  value={form.paymentTerms}
+                  onChange={(e) => setForm({ ...form, paymentTerms: e.target.value })}
+                  placeholder="e.g. Three equal instalments, the first within 28 days"
+                  rows={3}
+                  data-testid="textarea-outcome-payment-terms"
+                />
+              </div>
+            </>
+          )}
+
+          <div>
+            <Label htmlFor="outcome-non-monetary">Non-monetary terms</Label>
+            <Textarea
+              id="outcome-non-monetary"
+              value={form.nonMonetaryTerms}
+              onChange={(e) => setForm({ ...form, nonMonetaryTerms: e.target.value })}
+              placeholder="e.g. Apology, confidentiality, lease variation, reference"
+              rows={4}
+              data-testid="textarea-outcome-non-monetary"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.outcomeType || saveMutation.isPending}
+              data-testid="button-save-outcome"
+            >
+              {saveMutation.isPending ? 'Saving...' : outcome ? 'Save Outcome' : 'Record Outcome'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-3">Issues Resolved</h3>
+            {issues.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No issues for discussion recorded on this case.</p>
+            ) : (
+              <div className="space-y-2" data-testid="list-outcome-issues">
+                {issues.map((issue, index) => (
+                  <div key={index} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`outcome-issue-${index}`}
+                      checked={form.resolvedIssues.includes(issue)}
+                      onCheckedChange={(checked) => toggleIssue(issue, checked === true)}
+                      data-testid={`checkbox-outcome-issue-${index}`}
+                    />
+                    <Label htmlFor={`outcome-issue-${index}`} className="text-sm font-normal leading-snug">{issue}</Label>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground pt-1">
+                  {form.resolvedIssues.length} of {issues.length} resolved
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {outcome && settledOutcomeTypes.includes(outcome.outcomeType as OutcomeCaseStatus) && (
+          <SettlementDraft caseId={caseData.id} />
+        )}
+
+        <Card>
+          <CardContent className="p-6 space-y-3">
+            <h3 className="text-lg font-semibold text-foreground">Closure</h3>
+            {isClosed ? (
+              <p className="text-sm text-muted-foreground flex items-center gap-2" data-testid="text-case-closed">
+                <Lock className="w-4 h-4" />
+                Closed {caseData.closedAt ? new Date(caseData.closedAt).toLocaleDateString() : ''}
+              </p>
+            ) : outcome && outcome.outcomeType === currentStatus ? (
+              <>
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <CheckCircle2 className="w-4 h-4 text-green-600" />
+                  Outcome recorded. Close the case once the file is complete.
+                </p>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => closeMutation.mutate()}
+                  disabled={closeMutation.isPending}
+                  data-testid="button-close-case"
+                >
+                  {closeMutation.isPending ? 'Closing...' : 'Close Case'}
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Recording the outcome moves the case to that status. A case can only be closed once its outcome is recorded.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { caseReminderStatusLabels, type Case, type CaseReminder, type CaseReminderStatus } from "@shared/schema";
+import { BellOff, BellRing } from "lucide-react";
+
+interface CaseRemindersProps {
+  caseData: Case;
+}
+
+const statusClassNames: Record<CaseReminderStatus, string> = {
+  scheduled: "bg-blue-100 text-blue-800 border-blue-200",
+  sent: "bg-green-100 text-green-800 border-green-200",
+  cancelled: "bg-muted text-muted-foreground",
+  skipped: "bg-muted text-muted-foreground",
+  failed: "bg-red-100 text-red-800 border-red-200",
+};
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString('en-AU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Automated reminder emails for each of the case's sessions, from the practice's reminder rules
+export default function CaseReminders({ caseData }: CaseRemindersProps) {
+  const { toast } = useToast();
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data: reminders = [], isLoading } = useQuery<CaseReminder[]>({
+    queryKey: ["/api/cases", caseData.id, "reminders"],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ reminder, action }: { reminder: CaseReminder; action: 'cancel' | 'resume' }) =>
+      apiRequest('POST', `/api/cases/${caseData.id}/reminders/${reminder.id}/${action}`),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseData.id, "reminders"] });
+      toast({ title: "Success", description: action === 'cancel' ? "Reminder cancelled" : "Reminder rescheduled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to update reminder"), variant: "destructive" });
+    },
+  });
+
+  // Reminders for sessions still ahead first; those for past or moved sessions are history
+  const now = new Date();
+  const isCurrent = (reminder: CaseReminder) => reminder.status !== 'skipped' && new Date(reminder.mediationDate) > now;
+  const current = reminders.filter(isCurrent);
+  const history = reminders.filter(reminder => !isCurrent(reminder));
+
+  const renderReminder = (reminder: CaseReminder) => {
+    const status = reminder.status as CaseReminderStatus;
+    const canResume = status === 'cancelled' && new Date(reminder.sendAt) > now;
+    return (
+      <div key={reminder.id} className="flex items-start justify-between gap-2" data-testid={`reminder-${reminder.id}`}>
+        <div className="min-w-0">
+          <p className="text-sm text-foreground">{reminder.ruleName}</p>
+          <p className="text-xs text-muted-foreground">For the session on {formatDateTime(reminder.mediationDate)}</p>
+          <p className="text-xs text-muted-foreground">
+            {status === 'sent' && reminder.sentAt
+              ? `Sent ${formatDateTime(reminder.sentAt)} to ${reminder.recipients.length} ${reminder.recipients.length === 1 ? 'recipient' : 'recipients'}`
+              : `${status === 'scheduled' ? 'Sends' : 'Was due'} ${formatDateTime(reminder.sendAt)}`}
+          </p>
+          {reminder.statusNote && <p className="text-xs text-muted-foreground">{reminder.statusNote}</p>}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Badge variant="outline" className={statusClassNames[status]} data-testid={`badge-reminder-status-${reminder.id}`}>
+            {caseReminderStatusLabels[status] ?? reminder.status}
+          </Badge>
+          {status === 'scheduled' && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              onClick={() => actionMutation.mutate({ reminder, action: 'cancel' })}
+              disabled={actionMutation.isPending}
+              data-testid={`button-cancel-reminder-${reminder.id}`}
+            >
+              Cancel
+            </Button>
+          )}
+          {canResume && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              onClick={() => actionMutation.mutate({ reminder, action: 'resume' })}
+              disabled={actionMutation.isPending}
+              data-testid={`button-resume-reminder-${reminder.id}`}
+            >
+              Resume
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-4">Reminders</h3>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading reminders...</p>
+        ) : reminders.length === 0 ? (
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <BellOff className="w-5 h-5 shrink-0" />
+            {caseData.mediationDate
+              ? "No reminders scheduled. Set up automated reminders in Settings."
+              : "Reminders are scheduled once a session is added."}
+          </div>
+        ) : (
+          <div className="space-y-3" data-testid="list-case-reminders">
+            {current.map(renderReminder)}
+            {current.length === 0 && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <BellRing className="w-4 h-4" />
+                Nothing scheduled for upcoming sessions
+              </p>
+            )}
+            {history.length > 0 && (
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:text-foreground"
+                onClick={() => setShowHistory(!showHistory)}
+                data-testid="button-toggle-reminder-history"
+              >
+                {showHistory ? 'Hide' : 'Show'} {history.length} earlier
+              </button>
+            )}
+            {showHistory && history.map(renderReminder)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  nextMediationSession,
+  sessionEndsAt,
+  sessionFormatLabels,
+  type Case,
+  type MediationSession,
+  type PartyWithRepresentatives,
+  type SessionFormat,
+} from "@shared/schema";
+import MediationSessionDialog from "./MediationSessionDialog";
+import SessionAttendanceDialog from "./SessionAttendanceDialog";
+import { CalendarDays, CalendarX, ClipboardCheck, Edit2, Plus, Trash2, Video, VideoOff } from "lucide-react";
+
+interface CaseSessionsProps {
+  caseData: Case & { sessions: MediationSession[]; parties: PartyWithRepresentatives[] };
+}
+
+const formatSessionTime = (session: MediationSession) => {
+  const start = new Date(session.startsAt);
+  const date = start.toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+  const time = (value: Date) => value.toLocaleTimeString('en-AU', { hour: '2-digit', minute: '2-digit' });
+  return `${date}, ${time(start)} – ${time(sessionEndsAt(session))}`;
+};
+
+// Session changes move the case's mediation date, its reminders and relative tasks, and the calendar
+export const invalidateSessions = (caseId: string) => {
+  queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tasks/mine"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/calendar/events"] });
+};
+
+// Zoom and calendar actions on a session, shared with the case header and quick actions
+export function useSessionActions(caseId: string) {
+  const { toast } = useToast();
+  const onError = (fallback: string) => (error: Error) => {
+    toast({ title: "Error", description: apiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const createZoomMeeting = useMutation({
+    mutationFn: async (session: MediationSession) =>
+      apiRequest('POST', `/api/cases/${caseId}/sessions/${session.id}/zoom-meeting`),
+    onSuccess: () => {
+      invalidateSessions(caseId);
+      toast({ title: "Success", description: "Zoom meeting created successfully" });
+    },
+    onError: onError("Failed to create Zoom meeting"),
+  });
+
+  const deleteZoomMeeting = useMutation({
+    mutationFn: async (session: MediationSession) =>
+      apiRequest('DELETE', `/api/cases/${caseId}/sessions/${session.id}/zoom-meeting`),
+    onSuccess: () => {
+      invalidateSessions(caseId);
+      toast({ title: "Success", description: "Zoom meeting removed" });
+    },
+    onError: onError("Failed to delete Zoom meeting"),
+  });
+
+  const syncToCalendar = useMutation({
+    mutationFn: async (session: MediationSession) => {
+      const response = await apiRequest('POST', `/api/cases/${caseId}/sessions/${session.id}/calendar-event`);
+      return response.json() as Promise<{ action: 'created' | 'recreated' }>;
+    },
+    onSuccess: (result) => {
+      invalidateSessions(caseId);
+      toast({
+        title: "Calendar Synced",
+        description: result.action === 'created' ? "Calendar event created successfully" : "Calendar event updated successfully",
+      });
+    },
+    onError: onError("Failed to sync to calendar"),
+  });
+
+  const removeFromCalendar = useMutation({
+    mutationFn: async (session: MediationSession) =>
+      apiRequest('DELETE', `/api/cases/${caseId}/sessions/${session.id}/calendar-event`),
+    onSuccess: () => {
+      invalidateSessions(caseId);
+      toast({ title: "Success", description: "Calendar event removed" });
+    },
+    onError: onError("Failed to delete calendar event"),
+  });
+
+  return { createZoomMeeting, deleteZoomMeeting, syncToCalendar, removeFromCalendar };
+}
+
+// The case's mediation sessions, each with its own Zoom meeting and calendar event
+export default function CaseSessions({ caseData }: CaseSessionsProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<MediationSession | 'new' | null>(null);
+  const [registerSession, setRegisterSession] = useState<MediationSession | null>(null);
+  const { createZoomMeeting, deleteZoomMeeting, syncToCalendar, removeFromCalendar } = useSessionActions(caseData.id);
+
+  const sessions = caseData.sessions;
+  const nextSession = nextMediationSession(sessions);
+  const now = new Date();
+  const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (session: MediationSession) => apiRequest('DELETE', `/api/cases/${caseData.id}/sessions/${session.id}`),
+    onSuccess: () => {
+      invalidateSessions(caseData.id);
+      toast({ title: "Success", description: "Session deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to delete session"), variant: "destructive" });
+    },
+  });
+
+  const busy = createZoomMeeting.isPending || deleteZoomMeeting.isPending || syncToCalendar.isPending || removeFromCalendar.isPending;
+
+  const renderSession = (session: MediationSession) => {
+    const past = sessionEndsAt(session) <= now;
+    return (
+      <div key={session.id} className="space-y-2 group" data-testid={`session-${session.id}`}>
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className={`text-sm font-medium ${past ? 'text-muted-foreground' : 'text-foreground'}`}>
+              {session.title}
+              {session.id === nextSession?.id && !past && (
+                <Badge variant="outline" className="ml-2 text-xs bg-blue-100 text-blue-800 border-blue-200">Next</Badge>
+              )}
+            </p>
+            <p className="text-xs text-muted-foreground">{formatSessionTime(session)}</p>
+            <p className="text-xs text-muted-foreground">
+              {sessionFormatLabels[session.format as SessionFormat] ?? session.format}
+              {session.venue && ` · ${session.venue}`}
+            </p>
+          </div>
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+            <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setEditing(session)} data-testid={`button-edit-session-${session.id}`}>
+              <Edit2 className="w-3 h-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 p-0"
+              onClick={() => deleteMutation.mutate(session)}
+              disabled={deleteMutation.isPending}
+              data-testid={`button-delete-session-${session.id}`}
+            >
+              <Trash2 className="w-3 h-3 text-destructive" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {new Date(session.startsAt) < endOfToday && (
+            <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => setRegisterSession(session)} data-testid={`button-attendance-${session.id}`}>
+              <ClipboardCheck className="w-3 h-3 mr-1" />
+              Attendance
+            </Button>
+          )}
+          {!past && (
+            <>
+              {session.zoomMeetingLink ? (
+                <>
+                  <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => window.open(session.zoomMeetingLink!, '_blank')} data-testid={`button-join-zoom-${session.id}`}>
+                    <Video className="w-3 h-3 mr-1" />
+                    Join Zoom
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => deleteZoomMeeting.mutate(session)} disabled={busy} data-testid={`button-delete-zoom-${session.id}`}>
+                    <VideoOff className="w-3 h-3 mr-1" />
+                    Remove Zoom
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => createZoomMeeting.mutate(session)} disabled={busy} data-testid={`button-create-zoom-${session.id}`}>
+                  <Video className="w-3 h-3 mr-1" />
+                  Create Zoom
+                </Button>
+              )}
+              <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => syncToCalendar.mutate(session)} disabled={busy} data-testid={`button-sync-session-calendar-${session.id}`}>
+                <CalendarDays className="w-3 h-3 mr-1" />
+                {session.calendarEventId ? 'Update Calendar' : 'Add to Calendar'}
+              </Button>
+              {session.calendarEventId && (
+                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => removeFromCalendar.mutate(session)} disabled={busy} data-testid={`button-remove-session-calendar-${session.id}`}>
+                  <CalendarX className="w-3 h-3 mr-1" />
+                  Remove
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-foreground">Sessions</h3>
+          <Button size="sm" variant="outline" onClick={() => setEditing('new')} data-testid="button-add-session">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {sessions.length === 0 ? (
+          <div className="text-center py-2">
+            <CalendarDays className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">No sessions scheduled</p>
+          </div>
+        ) : (
+          <div className="space-y-4" data-testid="list-case-sessions">
+            {sessions.map(renderSession)}
+          </div>
+        )}
+      </CardContent>
+
+      <MediationSessionDialog
+        caseData={caseData}
+        session={editing}
+        onClose={() => setEditing(null)}
+        onSaved={() => invalidateSessions(caseData.id)}
+      />
+      <SessionAttendanceDialog
+        caseId={caseData.id}
+        parties={caseData.parties}
+        session={registerSession}
+        onClose={() => setRegisterSession(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { X } from "lucide-react";
+
+interface CaseTagsProps {
+  caseId: string;
+  tags: string[];
+}
+
+export default function CaseTags({ caseId, tags }: CaseTagsProps) {
+  const { toast } = useToast();
+  const [newTag, setNewTag] = useState('');
+  // Tags already used on other cases, offered as suggestions
+  const { data: knownTags = [] } = useQuery<string[]>({ queryKey: ['/api/cases/tags'] });
+
+  const updateTagsMutation = useMutation({
+    mutationFn: async (next: string[]) => {
+      return apiRequest('PATCH', `/api/cases/${caseId}`, { tags: next });
+    },
+    onSuccess: () => {
+      setNewTag('');
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cases/tags'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update tags"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addTag = () => {
+    const tag = newTag.trim().toLowerCase();
+    if (!tag) return;
+    if (tags.includes(tag)) {
+      setNewTag('');
+      return;
+    }
+    updateTagsMutation.mutate([...tags, tag]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid="case-tags">
+      {tags.map((tag) => (
+        <Badge key={tag} variant="secondary" className="flex items-center gap-1" data-testid={`badge-tag-${tag}`}>
+          {tag}
+          <button
+            type="button"
+            onClick={() => updateTagsMutation.mutate(tags.filter(t => t !== tag))}
+            disabled={updateTagsMutation.isPending}
+            className="hover:text-destructive"
+            aria-label={`Remove tag ${tag}`}
+            data-testid={`button-remove-tag-${tag}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+      <Input
+        value={newTag}
+        onChange={(e) => setNewTag(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            addTag();
+          }
+        }}
+        placeholder="Add tag..."
+        list={`case-tag-suggestions-${caseId}`}
+        className="h-7 w-32 text-xs"
+        disabled={updateTagsMutation.isPending}
+        data-testid="input-add-tag"
+      />
+      <datalist id={`case-tag-suggestions-${caseId}`}>
+        {knownTags.filter(tag => !tags.includes(tag)).map((tag) => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
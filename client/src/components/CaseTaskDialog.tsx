@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { CaseTask } from "@shared/schema";
+
+interface CaseTaskDialogProps {
+  caseId: string;
+  task: CaseTask | 'new' | null;
+  onClose: () => void;
+  onSaved: () => void;
+  assignees: { id: string; name: string }[];
+  defaultAssigneeId?: string;
+  hasMediationDate: boolean;
+}
+
+type DueMode = "none" | "date" | "relative";
+
+const UNASSIGNED = "unassigned";
+
+const toDateInput = (value: string | Date | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export default function CaseTaskDialog({ caseId, task, onClose, onSaved, assignees, defaultAssigneeId, hasMediationDate }: CaseTaskDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [assigneeId, setAssigneeId] = useState(UNASSIGNED);
+  const [dueMode, setDueMode] = useState<DueMode>("none");
+  const [dueDate, setDueDate] = useState('');
+  const [offsetDays, setOffsetDays] = useState('');
+
+  useEffect(() => {
+    if (!task) return;
+    if (task === 'new') {
+      setTitle('');
+      setDescription('');
+      setAssigneeId(defaultAssigneeId ?? UNASSIGNED);
+      setDueMode("none");
+      setDueDate('');
+      setOffsetDays('');
+      return;
+    }
+    setTitle(task.title);
+    setDescription(task.description ?? '');
+    setAssigneeId(task.assigneeId ?? UNASSIGNED);
+    setDueMode(task.dueOffsetDays !== null ? "relative" : task.dueAt ? "date" : "none");
+    setDueDate(toDateInput(task.dueAt));
+    setOffsetDays(task.dueOffsetDays !== null ? String(task.dueOffsetDays) : '');
+  }, [task, defaultAssigneeId]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        title: title.trim(),
+        description: description.trim() || null,
+        assigneeId: assigneeId === UNASSIGNED ? null : assigneeId,
+        // Fixed dates are due by the end of the chosen day
+        dueAt: dueMode === "date" && dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : null,
+        dueOffsetDays: dueMode === "relative" ? parseInt(offsetDays, 10) : null,
+      };
+      return task === 'new'
+        ? apiRequest('POST', `/api/cases/${caseId}/tasks`, payload)
+        : apiRequest('PATCH', `/api/cases/${caseId}/tasks/${(task as CaseTask).id}`, payload);
+    },
+    onSuccess: () => {
+      onSaved();
+      toast({ title: "Success", description: task === 'new' ? "Task added" : "Task updated" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to save task"), variant: "destructive" });
+    },
+  });
+
+  const dueValid = dueMode === "none"
+    || (dueMode === "date" && !!dueDate)
+    || (dueMode === "relative" && offsetDays.trim() !== '' && !Number.isNaN(parseInt(offsetDays, 10)));
+
+  return (
+    <Dialog open={!!task} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{task === 'new' ? 'Add Task' : 'Edit Task'}</DialogTitle>
+          <DialogDescription>
+            Tasks due relative to the mediation move with it when the session is rescheduled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="task-title">Task</Label>
+            <Input
+              id="task-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Position papers received"
+              data-testid="input-task-title"
+            />
+          </div>
+          <div>
+            <Label htmlFor="task-description">Notes</Label>
+            <Textarea
+              id="task-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              data-testid="textarea-task-description"
+            />
+          </div>
+          <div>
+            <Label htmlFor="task-assignee">Assigned to</Label>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger id="task-assignee" data-testid="select-task-assignee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {assignees.map((assignee) => (
+                  <SelectItem key={assignee.id} value={assignee.id}>{assignee.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="task-due-mode">Due</Label>
+              <Select value={dueMode} onValueChange={(value) => setDueMode(value as DueMode)}>
+                <SelectTrigger id="task-due-mode" data-testid="select-task-due-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No due date</SelectItem>
+                  <SelectItem value="date">On a date</SelectItem>
+                  <SelectItem value="relative">Relative to the mediation</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {dueMode === "date" && (
+              <div>
+                <Label htmlFor="task-due-date">Date</Label>
+                <Input
+                  id="task-due-date"
+                  type="date"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                  data-testid="input-task-due-date"
+                />
+              </div>
+            )}
+            {dueMode === "relative" && (
+              <div>
+                <Label htmlFor="task-offset-days">Days from mediation</Label>
+                <Input
+                  id="task-offset-days"
+                  type="number"
+                  value={offsetDays}
+                  onChange={(e) => setOffsetDays(e.target.value)}
+                  placeholder="-7"
+                  data-testid="input-task-offset-days"
+                />
+              </div>
+            )}
+          </div>
+          {dueMode === "relative" && (
+            <p className="text-xs text-muted-foreground">
+              Negative numbers are before the mediation.
+              {!hasMediationDate && ' The case has no mediation date yet, so the task stays undated until one is set.'}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!title.trim() || !dueValid || saveMutation.isPending}
+            data-testid="button-save-task"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Task'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useOrganization } from "@/hooks/useOrganization";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { Case, CaseMediatorWithUser, CaseTask, CaseTaskWithAssignee, CaseType, User } from "@shared/schema";
+import CaseTaskDialog from "./CaseTaskDialog";
+import { ClipboardList, Edit2, ListChecks, Plus, Trash2 } from "lucide-react";
+
+interface CaseTasksProps {
+  caseData: Case & { mediators: CaseMediatorWithUser[] };
+  caseType?: CaseType;
+}
+
+const userName = (user: Pick<User, "id" | "firstName" | "lastName" | "email">) =>
+  `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || user.id;
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// e.g. "7 days before the mediation"
+export function taskOffsetLabel(offsetDays: number) {
+  if (offsetDays === 0) return 'day of the mediation';
+  const days = Math.abs(offsetDays);
+  return `${days} ${days === 1 ? 'day' : 'days'} ${offsetDays < 0 ? 'before' : 'after'} the mediation`;
+}
+
+// Due text for a task, and whether it is overdue
+export function taskDueStatus(task: Pick<CaseTask, "dueAt" | "dueOffsetDays" | "completedAt">, now = new Date()) {
+  if (!task.dueAt) {
+    return { label: task.dueOffsetDays !== null ? `${taskOffsetLabel(task.dueOffsetDays)} (no date set)` : '', overdue: false };
+  }
+  return { label: `Due ${formatDate(task.dueAt)}`, overdue: !task.completedAt && new Date(task.dueAt) < now };
+}
+
+// Task changes show on the case and in everyone's "My tasks" list
+export const invalidateTasks = (caseId: string) => {
+  queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "tasks"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tasks/mine"] });
+};
+
+export default function CaseTasks({ caseData, caseType }: CaseTasksProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { members } = useOrganization();
+  const [editing, setEditing] = useState<CaseTask | 'new' | null>(null);
+  const [showCompleted, setShowCompleted] = useState(false);
+
+  const { data: tasks = [], isLoading } = useQuery<CaseTaskWithAssignee[]>({
+    queryKey: ["/api/cases", caseData.id, "tasks"],
+  });
+
+  // The case's mediators plus practice staff who can work on cases
+  const assignees = useMemo(() => {
+    const people = new Map<string, string>();
+    for (const mediator of caseData.mediators) people.set(mediator.userId, userName(mediator.user));
+    for (const member of members) {
+      if (member.role !== 'read_only' && !people.has(member.userId)) people.set(member.userId, userName(member.user));
+    }
+    return Array.from(people, ([id, name]) => ({ id, name }));
+  }, [caseData.mediators, members]);
+
+  // New tasks go to whoever adds them, when they can be assigned one
+  const currentUserId = (user as User | undefined)?.id;
+  const defaultAssigneeId = assignees.some(assignee => assignee.id === currentUserId) ? currentUserId : caseData.mediatorId;
+
+  const openTasks = tasks.filter(task => !task.completedAt);
+  const completedTasks = tasks.filter(task => task.completedAt);
+  const existingTitles = new Set(tasks.map(task => task.title.trim().toLowerCase()));
+  const missingChecklist = (caseType?.taskTemplates ?? []).filter(template => !existingTitles.has(template.title.trim().toLowerCase()));
+
+  const completeMutation = useMutation({
+    mutationFn: async ({ task, completed }: { task: CaseTask; completed: boolean }) =>
+      apiRequest('PATCH', `/api/cases/${caseData.id}/tasks/${task.id}`, { completed }),
+    onSuccess: () => invalidateTasks(caseData.id),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to update task"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (task: CaseTask) => apiRequest('DELETE', `/api/cases/${caseData.id}/tasks/${task.id}`),
+    onSuccess: () => {
+      invalidateTasks(caseData.id);
+      toast({ title: "Success", description: "Task deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to delete task"), variant: "destructive" });
+    },
+  });
+
+  const checklistMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/cases/${caseData.id}/tasks/checklist`);
+      return response.json() as Promise<CaseTask[]>;
+    },
+    onSuccess: (created) => {
+      invalidateTasks(caseData.id);
+      toast({ title: "Success", description: `Added ${created.length} checklist ${created.length === 1 ? 'task' : 'tasks'}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to add checklist"), variant: "destructive" });
+    },
+  });
+
+  const renderTask = (task: CaseTaskWithAssignee) => {
+    const due = taskDueStatus(task);
+    return (
+      <div key={task.id} className="flex items-start gap-3 group" data-testid={`task-${task.id}`}>
+        <Checkbox
+          className="mt-0.5"
+          checked={!!task.completedAt}
+          onCheckedChange={(checked) => completeMutation.mutate({ task, completed: checked === true })}
+          disabled={completeMutation.isPending}
+          data-testid={`checkbox-task-${task.id}`}
+        />
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm ${task.completedAt ? 'line-through text-muted-foreground' : 'text-foreground'}`}>{task.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {task.completedAt ? (
+              `Done ${formatDate(task.completedAt)}`
+            ) : (
+              <>
+                {due.label && <span className={due.overdue ? 'text-destructive font-medium' : ''}>{due.label}</span>}
+                {due.label && task.assignee && ' · '}
+                {task.assignee && userName(task.assignee)}
+              </>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setEditing(task)} data-testid={`button-edit-task-${task.id}`}>
+            <Edit2 className="w-3 h-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 w-7 p-0"
+            onClick={() => deleteMutation.mutate(task)}
+            disabled={deleteMutation.isPending}
+            data-testid={`button-delete-task-${task.id}`}
+          >
+            <Trash2 className="w-3 h-3 text-destructive" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-foreground">Tasks</h3>
+          <Button size="sm" variant="outline" onClick={() => setEditing('new')} data-testid="button-add-task">
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading tasks...</p>
+        ) : tasks.length === 0 ? (
+          <div className="text-center py-2">
+            <ClipboardList className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Nothing outstanding</p>
+          </div>
+        ) : (
+          <div className="space-y-3" data-testid="list-case-tasks">
+            {openTasks.map(renderTask)}
+            {openTasks.length === 0 && <p className="text-sm text-muted-foreground">All tasks are done</p>}
+            {completedTasks.length > 0 && (
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:text-foreground"
+                onClick={() => setShowCompleted(!showCompleted)}
+                data-testid="button-toggle-completed-tasks"
+              >
+                {showCompleted ? 'Hide' : 'Show'} {completedTasks.length} completed
+              </button>
+            )}
+            {showCompleted && completedTasks.map(renderTask)}
+          </div>
+        )}
+
+        {missingChecklist.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mt-4"
+            onClick={() => checklistMutation.mutate()}
+            disabled={checklistMutation.isPending}
+            data-testid="button-add-checklist"
+          >
+            <ListChecks className="w-4 h-4 mr-2" />
+            Add {caseType!.name} checklist ({missingChecklist.length})
+          </Button>
+        )}
+      </CardContent>
+
+      <CaseTaskDialog
+        caseId={caseData.id}
+        task={editing}
+        onClose={() => setEditing(null)}
+        onSaved={() => invalidateTasks(caseData.id)}
+        assignees={assignees}
+        defaultAssigneeId={defaultAssigneeId}
+        hasMediationDate={!!caseData.mediationDate}
+      />
+    </Card>
+  );
+}
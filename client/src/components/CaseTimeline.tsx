@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  caseStatusLabels,
+  caseStatusTransitions,
+  normalizeCaseStatus,
+  type CaseStatus,
+  type CaseStatusHistoryWithActor,
+} from "@shared/schema";
+
+interface CaseTimelineProps {
+  caseId: string;
+  status: string;
+}
+
+export default function CaseTimeline({ caseId, status }: CaseTimelineProps) {
+  const { toast } = useToast();
+  const [nextStatus, setNextStatus] = useState<CaseStatus | ''>('');
+  const [reason, setReason] = useState('');
+
+  const currentStatus = normalizeCaseStatus(status);
+  const allowedStatuses = caseStatusTransitions[currentStatus];
+
+  const { data: history = [], isLoading } = useQuery<CaseStatusHistoryWithActor[]>({
+    queryKey: ["/api/cases", caseId, "status-history"],
+  });
+
+  const changeStatusMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest('POST', `/api/cases/${caseId}/status`, { status: nextStatus, reason: reason.trim() || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      setNextStatus('');
+      setReason('');
+      toast({ title: "Success", description: "Case status updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to update case status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actorName = (entry: CaseStatusHistoryWithActor) => {
+    if (!entry.actor) return 'Unknown user';
+    return `${entry.actor.firstName || ''} ${entry.actor.lastName || ''}`.trim() || entry.actor.email || entry.actor.id;
+  };
+
+  const statusLabel = (value: string) => caseStatusLabels[normalizeCaseStatus(value)];
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-4">Case Timeline</h3>
+        <div className="space-y-4" data-testid="list-case-timeline">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading timeline...</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No status changes recorded</p>
+          ) : (
+            history.map((entry, index) => (
+              <div key={entry.id} className="flex items-start space-x-3" data-testid={`timeline-entry-${entry.id}`}>
+                <div className={`w-2 h-2 rounded-full mt-2 ${index === history.length - 1 ? 'bg-blue-500' : 'bg-green-500'}`}></div>
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-foreground">
+                    {entry.fromStatus ? `${statusLabel(entry.fromStatus)} → ${statusLabel(entry.toStatus)}` : `Case Created (${statusLabel(entry.toStatus)})`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : 'Unknown'} · {actorName(entry)}
+                  </p>
+                  {entry.reason && (
+                    <p className="text-xs text-muted-foreground italic mt-1">{entry.reason}</p>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {allowedStatuses.length > 0 && (
+          <div className="space-y-2 mt-4 pt-4 border-t">
+            <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as CaseStatus)}>
+              <SelectTrigger data-testid="select-next-status">
+                <SelectValue placeholder="Move case to..." />
+              </SelectTrigger>
+              <SelectContent>
+                {allowedStatuses.map((value) => (
+                  <SelectItem key={value} value={value}>{caseStatusLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (optional)"
+              data-testid="input-status-reason"
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={() => changeStatusMutation.mutate()}
+              disabled={!nextStatus || changeStatusMutation.isPending}
+              data-testid="button-change-status"
+            >
+              {changeStatusMutation.isPending ? 'Updating...' : 'Update Status'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
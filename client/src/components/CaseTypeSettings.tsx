@@ -0,0 +1,439 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  customFieldTypes,
+  type CaseType,
+  type CaseTypeEmailTemplate,
+  type CaseTypeTaskTemplate,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+} from "@shared/schema";
+import { Edit2, Layers, Plus, Trash2, X } from "lucide-react";
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  currency: "Currency",
+  select: "Select",
+};
+
+// Field rows keep select options as the comma-separated text being typed
+type FieldRow = Omit<CustomFieldDefinition, "options"> & { options: string };
+
+// Checklist rows keep the day offset as typed; blank means the task has no due date
+type TaskRow = Omit<CaseTypeTaskTemplate, "offsetDays"> & { offsetDays: string };
+
+const emptyForm = {
+  name: '',
+  description: '',
+  defaultIssues: '',
+  fields: [] as FieldRow[],
+  emailTemplates: [] as CaseTypeEmailTemplate[],
+  taskTemplates: [] as TaskRow[],
+};
+
+// Derives a stable key from the field label, e.g. "Lease expiry" -> lease_expiry
+const fieldKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 50);
+
+export default function CaseTypeSettings() {
+  const { toast } = useToast();
+  const { organization, isAdmin } = useOrganization();
+  const canManage = !organization || isAdmin;
+  const [editing, setEditing] = useState<CaseType | 'new' | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: caseTypes = [], isLoading } = useQuery<CaseType[]>({ queryKey: ['/api/case-types'] });
+
+  const openEditor = (caseType: CaseType | 'new') => {
+    setEditing(caseType);
+    setForm(caseType === 'new' ? emptyForm : {
+      name: caseType.name,
+      description: caseType.description || '',
+      defaultIssues: (caseType.defaultIssues || []).join('\n'),
+      fields: caseType.fields.map(field => ({ ...field, options: (field.options || []).join(', ') })),
+      emailTemplates: caseType.emailTemplates,
+      taskTemplates: caseType.taskTemplates.map(task => ({ ...task, offsetDays: task.offsetDays === null ? '' : String(task.offsetDays) })),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: form.name,
+        description: form.description || null,
+        defaultIssues: form.defaultIssues.split('\n').map(issue => issue.trim()).filter(Boolean),
+        fields: form.fields.map(({ options, ...field }) => ({
+          ...field,
+          options: field.type === 'select' ? options.split(',').map(option => option.trim()).filter(Boolean) : undefined,
+          currency: field.type === 'currency' ? field.currency || 'AUD' : undefined,
+        })),
+        emailTemplates: form.emailTemplates,
+        taskTemplates: form.taskTemplates.map(task => ({
+          ...task,
+          offsetDays: task.offsetDays.trim() === '' ? null : parseInt(task.offsetDays, 10),
+        })),
+      };
+      return editing === 'new'
+        ? apiRequest('POST', '/api/case-types', payload)
+        : apiRequest('PATCH', `/api/case-types/${(editing as CaseType).id}`, payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/case-types'] });
+      setEditing(null);
+      toast({ title: "Success", description: "Case type saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to save case type"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (caseTypeId: string) => apiRequest('DELETE', `/api/case-types/${caseTypeId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/case-types'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
+      toast({ title: "Success", description: "Case type deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to delete case type"), variant: "destructive" });
+    },
+  });
+
+  const updateField = (index: number, changes: Partial<FieldRow>) => {
+    setForm({ ...form, fields: form.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)) });
+  };
+
+  const updateTemplate = (index: number, changes: Partial<CaseTypeEmailTemplate>) => {
+    setForm({ ...form, emailTemplates: form.emailTemplates.map((template, i) => (i === index ? { ...template, ...changes } : template)) });
+  };
+
+  const updateTask = (index: number, changes: Partial<TaskRow>) => {
+    setForm({ ...form, taskTemplates: form.taskTemplates.map((task, i) => (i === index ? { ...task, ...changes } : task)) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Layers className="w-5 h-5 mr-2" />
+              Case Types
+            </CardTitle>
+            <CardDescription>
+              The kinds of matter your practice handles. Each type adds its own fields to the Case Information card and brings default issues for discussion, email templates and a task checklist.
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={() => openEditor('new')} data-testid="button-new-case-type">
+              <Plus className="w-4 h-4 mr-2" />
+              New Case Type
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground px-6 pb-6">Loading case types...</p>
+        ) : caseTypes.length === 0 ? (
+          <p className="text-sm text-muted-foreground px-6 pb-6">No case types defined yet.</p>
+        ) : (
+          <div className="divide-y" data-testid="list-case-types">
+            {caseTypes.map((caseType) => (
+              <div key={caseType.id} className="flex items-center justify-between p-4" data-testid={`case-type-${caseType.id}`}>
+                <div>
+                  <p className="text-sm font-medium text-foreground">{caseType.name}</p>
+                  {caseType.description && <p className="text-xs text-muted-foreground">{caseType.description}</p>}
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {caseType.fields.map((field) => (
+                      <Badge key={field.key} variant="outline" className="text-xs">
+                        {field.label} · {FIELD_TYPE_LABELS[field.type]}
+                      </Badge>
+                    ))}
+                    {caseType.taskTemplates.length > 0 && (
+                      <Badge variant="secondary" className="text-xs">
+                        {caseType.taskTemplates.length} checklist {caseType.taskTemplates.length === 1 ? 'task' : 'tasks'}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => openEditor(caseType)} data-testid={`button-edit-case-type-${caseType.id}`}>
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(caseType.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-case-type-${caseType.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Case Type' : 'Edit Case Type'}</DialogTitle>
+            <DialogDescription>
+              Use <span className="font-mono">{'{field_key}'}</span> in email templates, reminders and settlement templates to insert a custom field value.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="case-type-name">Name</Label>
+                <Input
+                  id="case-type-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Retail Lease"
+                  data-testid="input-case-type-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="case-type-description">Description</Label>
+                <Input
+                  id="case-type-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  data-testid="input-case-type-description"
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Custom Fields</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setForm({ ...form, fields: [...form.fields, { key: '', label: '', type: 'text', required: false, options: '' }] })}
+                  data-testid="button-add-custom-field"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Field
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {form.fields.map((field, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center" data-testid={`custom-field-row-${index}`}>
+                    <Input
+                      className="col-span-4"
+                      value={field.label}
+                      onChange={(e) => updateField(index, {
+                        label: e.target.value,
+                        // Keys of saved fields stay fixed so existing values keep their meaning
+                        ...(editing === 'new' || !(editing as CaseType).fields.some(f => f.key === field.key) ? { key: fieldKey(e.target.value) } : {}),
+                      })}
+                      placeholder="Label"
+                      data-testid={`input-custom-field-label-${index}`}
+                    />
+                    <Select value={field.type} onValueChange={(type) => updateField(index, { type: type as CustomFieldType })}>
+                      <SelectTrigger className="col-span-2" data-testid={`select-custom-field-type-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {customFieldTypes.map((type) => (
+                          <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="col-span-4">
+                      {field.type === 'select' ? (
+                        <Input
+                          value={field.options}
+                          onChange={(e) => updateField(index, { options: e.target.value })}
+                          placeholder="Options, comma separated"
+                          data-testid={`input-custom-field-options-${index}`}
+                        />
+                      ) : field.type === 'currency' ? (
+                        <Input
+                          value={field.currency || 'AUD'}
+                          onChange={(e) => updateField(index, { currency: e.target.value.toUpperCase() })}
+                          maxLength={3}
+                          placeholder="Currency"
+                          data-testid={`input-custom-field-currency-${index}`}
+                        />
+                      ) : (
+                        <p className="text-xs text-muted-foreground font-mono truncate">{field.key ? `{field_${field.key}}` : ''}</p>
+                      )}
+                    </div>
+                    <label className="col-span-1 flex items-center gap-1 text-xs text-muted-foreground">
+                      <Checkbox
+                        checked={field.required}
+                        onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+                        data-testid={`checkbox-custom-field-required-${index}`}
+                      />
+                      Req.
+                    </label>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="col-span-1"
+                      onClick={() => setForm({ ...form, fields: form.fields.filter((_, i) => i !== index) })}
+                      data-testid={`button-remove-custom-field-${index}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="case-type-issues">Default Issues for Discussion</Label>
+              <Textarea
+                id="case-type-issues"
+                value={form.defaultIssues}
+                onChange={(e) => setForm({ ...form, defaultIssues: e.target.value })}
+                placeholder="One issue per line"
+                className="min-h-[100px]"
+                data-testid="input-case-type-issues"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Added to cases of this type that have no issues yet</p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Task Checklist</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setForm({ ...form, taskTemplates: [...form.taskTemplates, { title: '', description: null, offsetDays: '' }] })}
+                  data-testid="button-add-case-type-task"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Task
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {form.taskTemplates.map((task, index) => (
+                  <div key={index} className="flex items-center gap-2" data-testid={`case-type-task-${index}`}>
+                    <Input
+                      value={task.title}
+                      onChange={(e) => updateTask(index, { title: e.target.value })}
+                      placeholder="e.g. Agreement to mediate signed"
+                      data-testid={`input-case-type-task-title-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      value={task.offsetDays}
+                      onChange={(e) => updateTask(index, { offsetDays: e.target.value })}
+                      placeholder="Days"
+                      className="w-24"
+                      title="Days from the mediation date; negative is before"
+                      data-testid={`input-case-type-task-offset-${index}`}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setForm({ ...form, taskTemplates: form.taskTemplates.filter((_, i) => i !== index) })}
+                      data-testid={`button-remove-case-type-task-${index}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Added to new cases of this type. Days count from the mediation date (e.g. -7 for a week before); leave blank for no due date.
+              </p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label>Email Templates</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setForm({ ...form, emailTemplates: [...form.emailTemplates, { name: '', subject: '', body: '' }] })}
+                  data-testid="button-add-case-type-template"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Template
+                </Button>
+              </div>
+              <div className="space-y-4">
+                {form.emailTemplates.map((template, index) => (
+                  <div key={index} className="border rounded-md p-3 space-y-2" data-testid={`case-type-template-${index}`}>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={template.name}
+                        onChange={(e) => updateTemplate(index, { name: e.target.value })}
+                        placeholder="Template name"
+                        data-testid={`input-case-type-template-name-${index}`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setForm({ ...form, emailTemplates: form.emailTemplates.filter((_, i) => i !== index) })}
+                        data-testid={`button-remove-case-type-template-${index}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <Input
+                      value={template.subject}
+                      onChange={(e) => updateTemplate(index, { subject: e.target.value })}
+                      placeholder="Subject"
+                      data-testid={`input-case-type-template-subject-${index}`}
+                    />
+                    <Textarea
+                      value={template.body}
+                      onChange={(e) => updateTemplate(index, { body: e.target.value })}
+                      placeholder="Body"
+                      className="min-h-[120px]"
+                      data-testid={`input-case-type-template-body-${index}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!form.name.trim() || saveMutation.isPending}
+              data-testid="button-save-case-type"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Case Type'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ConflictCheckSubject, ConflictMatch } from "@shared/schema";
+import { Plus, X } from "lucide-react";
+import ConflictMatchList from "./ConflictMatchList";
+
+interface ConflictCheckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptySubject = { name: '', email: '', firm: '' };
+
+export default function ConflictCheckDialog({ open, onOpenChange }: ConflictCheckDialogProps) {
+  const { toast } = useToast();
+  const [subjects, setSubjects] = useState([{ ...emptySubject }]);
+  const [matches, setMatches] = useState<ConflictMatch[] | null>(null);
+
+  const updateSubject = (index: number, field: keyof typeof emptySubject, value: string) => {
+    setSubjects(subjects.map((subject, i) => i === index ? { ...subject, [field]: value } : subject));
+  };
+
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      const payload: ConflictCheckSubject[] = subjects
+        .filter(subject => subject.name.trim())
+        .map(subject => ({ name: subject.name, email: subject.email || null, firm: subject.firm || null }));
+      const response = await apiRequest('POST', '/api/conflict-check', { subjects: payload });
+      return response.json() as Promise<{ matches: ConflictMatch[] }>;
+    },
+    onSuccess: (result) => setMatches(result.matches),
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to run conflict check",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSubjects([{ ...emptySubject }]);
+      setMatches(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Run Conflict Check</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Check people or organisations against every party and representative in the practice before accepting a matter.
+        </p>
+        <div className="space-y-2">
+          {subjects.map((subject, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={subject.name}
+                onChange={(e) => updateSubject(index, 'name', e.target.value)}
+                placeholder="Name *"
+                data-testid={`input-conflict-name-${index}`}
+              />
+              <Input
+                value={subject.email}
+                onChange={(e) => updateSubject(index, 'email', e.target.value)}
+                placeholder="Email"
+                data-testid={`input-conflict-email-${index}`}
+              />
+              <Input
+                value={subject.firm}
+                onChange={(e) => updateSubject(index, 'firm', e.target.value)}
+                placeholder="Firm"
+                data-testid={`input-conflict-firm-${index}`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSubjects(subjects.filter((_, i) => i !== index))}
+                disabled={subjects.length === 1}
+                data-testid={`button-remove-conflict-subject-${index}`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between">
+          <Button variant="outline" size="sm" onClick={() => setSubjects([...subjects, { ...emptySubject }])} data-testid="button-add-conflict-subject">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Name
+          </Button>
+          <Button
+            onClick={() => checkMutation.mutate()}
+            disabled={checkMutation.isPending || !subjects.some(subject => subject.name.trim())}
+            data-testid="button-submit-conflict-check"
+          >
+            {checkMutation.isPending ? 'Checking...' : 'Run Check'}
+          </Button>
+        </div>
+        {matches && (
+          <div className="pt-4 border-t">
+            <h4 className="text-sm font-semibold text-foreground mb-2">Results ({matches.length})</h4>
+            <ConflictMatchList matches={matches} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { caseStatusLabels, normalizeCaseStatus, type ConflictMatch } from "@shared/schema";
+
+interface ConflictMatchListProps {
+  matches: ConflictMatch[];
+}
+
+const REASON_LABELS: Record<ConflictMatch["reason"], string> = {
+  email: "Same email",
+  name: "Similar name",
+  firm: "Same firm",
+};
+
+export default function ConflictMatchList({ matches }: ConflictMatchListProps) {
+  if (matches.length === 0) {
+    return <p className="text-sm text-muted-foreground">No prior involvement found in the practice</p>;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="list-conflict-matches">
+      {matches.map((match, index) => (
+        <div key={`${match.partyId}-${match.subject}-${index}`} className="p-3 rounded-md border border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/30">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium text-foreground">
+              {match.subject}
+              {match.subjectLabel && <span className="text-muted-foreground font-normal"> · {match.subjectLabel}</span>}
+            </p>
+            <Badge variant="outline" className="text-xs shrink-0">
+              {REASON_LABELS[match.reason]}{match.reason === 'email' ? '' : ` ${Math.round(match.score * 100)}%`}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {match.involvement} on{' '}
+            <Link href={`/cases/${match.caseId}`} className="text-primary hover:underline font-mono">{match.caseNumber}</Link>
+            {' '}({caseStatusLabels[normalizeCaseStatus(match.caseStatus)]})
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import type { Contact, ContactKind } from "@shared/schema";
+import { Building2, User } from "lucide-react";
+
+interface ContactAutocompleteProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSelect: (contact: Contact) => void;
+  kind?: ContactKind;
+  placeholder?: string;
+  testId?: string;
+}
+
+// Text input that suggests matching entries from the contacts directory as the user types
+export default function ContactAutocomplete({ id, value, onChange, onSelect, kind, placeholder, testId }: ContactAutocompleteProps) {
+  const [isFocused, setIsFocused] = useState(false);
+  const search = value.trim();
+
+  const { data: matches = [] } = useQuery<Contact[]>({
+    queryKey: [`/api/contacts?search=${encodeURIComponent(search)}${kind ? `&kind=${kind}` : ''}`],
+    enabled: isFocused && search.length >= 2,
+    staleTime: 30000,
+  });
+
+  const showSuggestions = isFocused && search.length >= 2 && matches.length > 0;
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        placeholder={placeholder}
+        autoComplete="off"
+        data-testid={testId}
+      />
+      {showSuggestions && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border border-border bg-popover shadow-md max-h-60 overflow-y-auto">
+          {matches.slice(0, 8).map((contact) => (
+            <button
+              key={contact.id}
+              type="button"
+              className="w-full text-left px-3 py-2 hover:bg-accent flex items-center space-x-2"
+              // mousedown fires before the input blurs and hides the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(contact);
+                setIsFocused(false);
+              }}
+              data-testid={`option-contact-${contact.id}`}
+            >
+              {contact.kind === 'organization'
+                ? <Building2 className="w-4 h-4 text-muted-foreground shrink-0" />
+                : <User className="w-4 h-4 text-muted-foreground shrink-0" />}
+              <div className="min-w-0">
+                <p className="text-sm text-foreground truncate">{contact.name}</p>
+                {(contact.email || contact.role) && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[contact.role, contact.email].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
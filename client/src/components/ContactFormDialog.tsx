@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Contact, ContactKind } from "@shared/schema";
+
+interface ContactFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact?: Contact | null;
+  onSaved?: (contact: Contact) => void;
+}
+
+const NO_FIRM = 'none';
+
+const toForm = (contact?: Contact | null) => ({
+  kind: (contact?.kind || 'person') as ContactKind,
+  name: contact?.name || '',
+  role: contact?.role || '',
+  email: contact?.email || '',
+  phone: contact?.phone || '',
+  firmId: contact?.firmId || NO_FIRM,
+  notes: contact?.notes || '',
+});
+
+export default function ContactFormDialog({ open, onOpenChange, contact, onSaved }: ContactFormDialogProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(toForm(contact));
+
+  useEffect(() => {
+    if (open) setForm(toForm(contact));
+  }, [open, contact]);
+
+  const { data: firms = [] } = useQuery<Contact[]>({
+    queryKey: ["/api/contacts?kind=organization"],
+    enabled: open && form.kind === 'person',
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { ...form, firmId: form.kind === 'person' && form.firmId !== NO_FIRM ? form.firmId : null };
+      const response = contact
+        ? await apiRequest('PATCH', `/api/contacts/${contact.id}`, payload)
+        : await apiRequest('POST', '/api/contacts', payload);
+      return await response.json() as Contact;
+    },
+    onSuccess: (saved) => {
+      // Directory queries embed their search in the key, so match on the path prefix
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/contacts') });
+      toast({ title: "Success", description: contact ? "Contact updated" : "Contact created" });
+      onOpenChange(false);
+      onSaved?.(saved);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to save contact",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{contact ? 'Edit Contact' : 'New Contact'}</DialogTitle>
+          <DialogDescription>
+            People and organisations (law firms, companies) that appear across your cases.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as ContactKind })}>
+              <SelectTrigger data-testid="select-contact-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="person">Person</SelectItem>
+                <SelectItem value="organization">Organisation / Firm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="contactName">Name *</Label>
+            <Input
+              id="contactName"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              data-testid="input-contact-name"
+            />
+          </div>
+          {form.kind === 'person' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="contactRole">Role</Label>
+                <Input
+                  id="contactRole"
+                  value={form.role}
+                  onChange={(e) => setForm({ ...form, role: e.target.value })}
+                  placeholder="e.g. Solicitor, Partner"
+                  data-testid="input-contact-role"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Firm</Label>
+                <Select value={form.firmId} onValueChange={(value) => setForm({ ...form, firmId: value })}>
+                  <SelectTrigger data-testid="select-contact-firm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FIRM}>No firm</SelectItem>
+                    {firms.filter(f => f.id !== contact?.id).map((firm) => (
+                      <SelectItem key={firm.id} value={firm.id}>{firm.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="contactEmail">Email</Label>
+            <Input
+              id="contactEmail"
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              data-testid="input-contact-email"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="contactPhone">Phone</Label>
+            <Input
+              id="contactPhone"
+              value={form.phone}
+              onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              data-testid="input-contact-phone"
+            />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="contactNotes">Notes</Label>
+            <Textarea
+              id="contactNotes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={3}
+              data-testid="input-contact-notes"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-contact">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!form.name.trim() || saveMutation.isPending}
+            data-testid="button-save-contact"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ContactSuggestion } from "@shared/schema";
+import { Link2, X } from "lucide-react";
+
+interface ContactSuggestionsProps {
+  caseId: string;
+}
+
+// Offers to link extracted parties and representatives to near-matching directory contacts
+export default function ContactSuggestions({ caseId }: ContactSuggestionsProps) {
+  const { toast } = useToast();
+  const [dismissed, setDismissed] = useState<string[]>([]);
+
+  const { data: suggestions = [] } = useQuery<ContactSuggestion[]>({
+    queryKey: ["/api/cases", caseId, "contact-suggestions"],
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async ({ suggestion, contactId }: { suggestion: ContactSuggestion; contactId: string }) => {
+      const partyUrl = `/api/cases/${caseId}/parties/${suggestion.partyId}`;
+      if (suggestion.representativeId) {
+        return apiRequest('PATCH', `${partyUrl}/representatives/${suggestion.representativeId}`, { contactId });
+      }
+      return apiRequest('PATCH', partyUrl, { contactId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      toast({ title: "Success", description: "Linked to directory contact" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to link contact", variant: "destructive" });
+    },
+  });
+
+  const suggestionKey = (suggestion: ContactSuggestion) => suggestion.representativeId || suggestion.partyId;
+  const visible = suggestions.filter(s => !dismissed.includes(suggestionKey(s)));
+
+  if (visible.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-amber-200 bg-amber-50/50" data-testid="card-contact-suggestions">
+      <CardContent className="p-4">
+        <h3 className="text-sm font-semibold text-foreground mb-1">Possible duplicates in your contacts directory</h3>
+        <p className="text-xs text-muted-foreground mb-3">
+          Link these to the existing contacts so their case history stays in one place.
+        </p>
+        <div className="space-y-2">
+          {visible.map((suggestion) => {
+            const [best] = suggestion.matches;
+            return (
+              <div key={suggestionKey(suggestion)} className="flex items-center justify-between text-sm" data-testid={`suggestion-${suggestionKey(suggestion)}`}>
+                <p className="text-foreground">
+                  <span className="font-medium">{suggestion.name}</span>
+                  <span className="text-muted-foreground"> looks like </span>
+                  <span className="font-medium">{best.contact.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {' '}({best.reason === 'email' ? 'same email' : `${Math.round(best.score * 100)}% name match`})
+                  </span>
+                </p>
+                <div className="flex items-center">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => linkMutation.mutate({ suggestion, contactId: best.contact.id })}
+                    disabled={linkMutation.isPending}
+                    data-testid={`button-link-suggestion-${suggestionKey(suggestion)}`}
+                  >
+                    <Link2 className="w-3 h-3 mr-1" />
+                    Link
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setDismissed([...dismissed, suggestionKey(suggestion)])}
+                    data-testid={`button-dismiss-suggestion-${suggestionKey(suggestion)}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
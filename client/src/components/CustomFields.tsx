@@ -0,0 +1,69 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CustomFieldDefinition, CustomFieldValues } from "@shared/schema";
+
+const NONE = "__none__";
+
+interface CustomFieldInputsProps {
+  fields: CustomFieldDefinition[];
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+}
+
+// Inputs for a case type's custom fields. Values are kept as entered; the server validates them.
+export function CustomFieldInputs({ fields, values, onChange }: CustomFieldInputsProps) {
+  const setValue = (key: string, value: string | null) => onChange({ ...values, [key]: value });
+
+  return (
+    <>
+      {fields.map((field) => {
+        const id = `custom-field-${field.key}`;
+        const value = values[field.key] ?? '';
+        const label = (
+          <Label htmlFor={id}>
+            {field.label}
+            {field.type === 'currency' && ` (${field.currency || 'AUD'})`}
+            {field.required && <span className="text-destructive"> *</span>}
+          </Label>
+        );
+
+        if (field.type === 'select') {
+          return (
+            <div key={field.key}>
+              {label}
+              <Select
+                value={value === '' ? NONE : String(value)}
+                onValueChange={(option) => setValue(field.key, option === NONE ? null : option)}
+              >
+                <SelectTrigger id={id} data-testid={`select-${id}`}>
+                  <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {!field.required && <SelectItem value={NONE}>Not specified</SelectItem>}
+                  {(field.options || []).map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        }
+
+        return (
+          <div key={field.key}>
+            {label}
+            <Input
+              id={id}
+              type={field.type === 'date' ? 'date' : field.type === 'text' ? 'text' : 'number'}
+              step={field.type === 'currency' ? '0.01' : undefined}
+              value={String(value)}
+              onChange={(e) => setValue(field.key, e.target.value)}
+              data-testid={`input-${id}`}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -1,23 +1,54 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
+import { useRoute, useSearch } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import CaseDetail from "./CaseDetail";
+import CaseList from "./CaseList";
+import CaseImportWizard from "./CaseImportWizard";
+import DuplicateCaseDialog, { DuplicateIntakeError, appendIntakeResolution, type IntakeResolution } from "./DuplicateCaseDialog";
 import EmailModal from "./EmailModal";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import MyTasks from "./MyTasks";
+import { queryClient, apiRequest, apiErrorMessage } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Case } from "@shared/schema";
+import { useOrganization } from "@/hooks/useOrganization";
+import { normalizeCaseStatus, openCaseStatuses, type Case, type CaseBundleImport, type DuplicateIntakeResponse } from "@shared/schema";
 
 export default function Dashboard() {
   const { toast } = useToast();
-  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
+  // /cases/:id opens a case directly, e.g. from a contact's profile
+  const [, caseRouteParams] = useRoute<{ id: string }>("/cases/:id");
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(caseRouteParams?.id ?? null);
+  const caseTab = new URLSearchParams(useSearch()).get('tab') || undefined;
+  useEffect(() => {
+    if (caseRouteParams?.id) setSelectedCaseId(caseRouteParams.id);
+  }, [caseRouteParams?.id]);
   const [showEmailModal, setShowEmailModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  // An intake upload that matched existing cases, held until the user attaches it or creates anyway
+  const [duplicateIntake, setDuplicateIntake] = useState<{
+    kind: 'document' | 'meeting';
+    file: File;
+    response: DuplicateIntakeResponse;
+  } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const meetingFileInputRef = useRef<HTMLInputElement>(null);
+  const bundleFileInputRef = useRef<HTMLInputElement>(null);
+  const { membership, members, canActForOthers } = useOrganization();
+  // Mediator that new cases are created for (admins and case managers can pick a team member)
+  const [assignedMediatorId, setAssignedMediatorId] = useState<string>('');
+  const assignableMediators = members.filter(m => m.role === 'mediator' || m.role === 'admin');
 
-  const { data: cases = [], isLoading } = useQuery({
+  // Unfiltered list for the stats; the case table below queries its own filtered page
+  const { data: cases = [] } = useQuery({
     queryKey: ["/api/cases"],
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -39,10 +70,21 @@ export default function Dashboard() {
     },
   });
 
+  const conflictSummary = (newCase: Case | undefined, message: string) => {
+    const matchCount = newCase?.conflictReport?.matches.length ?? 0;
+    return matchCount > 0
+      ? `${message}. The conflict check found ${matchCount} possible conflict${matchCount === 1 ? '' : 's'} to review.`
+      : message;
+  };
+
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, resolution }: { file: File; resolution?: IntakeResolution }) => {
       const formData = new FormData();
       formData.append('document', file);
+      if (assignedMediatorId) {
+        formData.append('mediatorId', assignedMediatorId);
+      }
+      appendIntakeResolution(formData, resolution);
       
       const response = await fetch('/api/cases/create-from-upload', {
         method: 'POST',
@@ -50,6 +92,9 @@ export default function Dashboard() {
         credentials: 'include',
       });
 
+      if (response.status === 409) {
+        throw new DuplicateIntakeError(await response.json());
+      }
       if (!response.ok) {
         const text = await response.text();
         throw new Error(`${response.status}: ${text}`);
@@ -57,14 +102,23 @@ export default function Dashboard() {
 
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      setDuplicateIntake(null);
       toast({
         title: "Success",
-        description: "Case created successfully from uploaded document",
+        description: data.attached ? data.message : conflictSummary(data.case, "Case created successfully from uploaded document"),
       });
       queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      // Open the case so the conflict report can be reviewed and acknowledged
+      if (data.case?.id) {
+        setSelectedCaseId(data.case.id);
+      }
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { file }) => {
+      if (error instanceof DuplicateIntakeError) {
+        setDuplicateIntake({ kind: 'document', file, response: error.response });
+        return;
+      }
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -87,7 +141,7 @@ export default function Dashboard() {
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      uploadMutation.mutate(file);
+      uploadMutation.mutate({ file });
     }
     // Reset the input
     if (fileInputRef.current) {
@@ -101,9 +155,13 @@ export default function Dashboard() {
 
   // New mutation for creating meeting from file
   const createMeetingMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, resolution }: { file: File; resolution?: IntakeResolution }) => {
       const formData = new FormData();
       formData.append('file', file);
+      if (assignedMediatorId) {
+        formData.append('mediatorId', assignedMediatorId);
+      }
+      appendIntakeResolution(formData, resolution);
       
       const response = await fetch('/api/cases/create-from-file', {
         method: 'POST',
@@ -111,6 +169,9 @@ export default function Dashboard() {
         credentials: 'include',
       });
 
+      if (response.status === 409) {
+        throw new DuplicateIntakeError(await response.json());
+      }
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || 'Failed to create meeting from file');
@@ -119,9 +180,10 @@ export default function Dashboard() {
       return response.json();
     },
     onSuccess: (data) => {
+      setDuplicateIntake(null);
       toast({
         title: "Success",
-        description: `Meeting created successfully: ${data.case.caseNumber}`,
+        description: data.attached ? data.message : conflictSummary(data.case, `Meeting created successfully: ${data.case.caseNumber}`),
       });
       queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
       // Optionally navigate to the newly created case
@@ -129,7 +191,11 @@ export default function Dashboard() {
         setSelectedCaseId(data.case.id);
       }
     },
-    onError: (error: Error) => {
+    onError: (error: Error, { file }) => {
+      if (error instanceof DuplicateIntakeError) {
+        setDuplicateIntake({ kind: 'meeting', file, response: error.response });
+        return;
+      }
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -152,7 +218,7 @@ export default function Dashboard() {
   const handleMeetingFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      createMeetingMutation.mutate(file);
+      createMeetingMutation.mutate({ file });
     }
     // Reset the input
     if (meetingFileInputRef.current) {
@@ -164,32 +230,66 @@ export default function Dashboard() {
     meetingFileInputRef.current?.click();
   };
 
-  const getStatusBadgeClass = (status: string) => {
-    switch (status) {
-      case 'active':
-        return 'status-active';
-      case 'scheduled':
-        return 'status-scheduled';
-      case 'closed':
-        return 'status-closed';
-      default:
-        return 'bg-gray-100 text-gray-800';
+  // Recreates a case from a ZIP made by a case's Export button, e.g. on another MediatorPro instance
+  const importBundleMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (assignedMediatorId) {
+        formData.append('mediatorId', assignedMediatorId);
+      }
+
+      const response = await fetch('/api/cases/import-bundle', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`${response.status}: ${text}`);
+      }
+
+      return response.json() as Promise<CaseBundleImport>;
+    },
+    onSuccess: (newCase) => {
+      const dropped = newCase.droppedCustomFields.length > 0
+        ? `. Custom fields with no matching case type field were not imported: ${newCase.droppedCustomFields.join(', ')}`
+        : '';
+      toast({
+        title: "Success",
+        description: conflictSummary(newCase, `Imported case ${newCase.caseNumber}${dropped}`),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+      setSelectedCaseId(newCase.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to import case"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleBundleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importBundleMutation.mutate(file);
+    }
+    if (bundleFileInputRef.current) {
+      bundleFileInputRef.current.value = '';
     }
   };
 
-  const formatDate = (dateString: string | null) => {
-    if (!dateString) return 'Not scheduled';
-    return new Date(dateString).toLocaleDateString('en-AU', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+  const resolveDuplicateIntake = (resolution: IntakeResolution) => {
+    if (!duplicateIntake) return;
+    const mutation = duplicateIntake.kind === 'document' ? uploadMutation : createMeetingMutation;
+    mutation.mutate({ file: duplicateIntake.file, resolution });
   };
 
   if (selectedCaseId) {
-    return <CaseDetail caseId={selectedCaseId} onBack={() => setSelectedCaseId(null)} />;
+    return <CaseDetail caseId={selectedCaseId} initialTab={caseTab} onBack={() => setSelectedCaseId(null)} />;
   }
 
   return (
@@ -205,6 +305,23 @@ export default function Dashboard() {
               </p>
             </div>
             <div className="flex items-center space-x-3">
+              {canActForOthers && assignableMediators.length > 0 && (
+                <Select
+                  value={assignedMediatorId || membership?.userId || ''}
+                  onValueChange={setAssignedMediatorId}
+                >
+                  <SelectTrigger className="w-48" data-testid="select-assigned-mediator">
+                    <SelectValue placeholder="Create for..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableMediators.map((member) => (
+                      <SelectItem key={member.userId} value={member.userId}>
+                        {`${member.user.firstName || ''} ${member.user.lastName || ''}`.trim() || member.userId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               <Button
                 variant="outline"
                 className="flex items-center space-x-2"
@@ -213,6 +330,35 @@ export default function Dashboard() {
                 <i className="fas fa-filter"></i>
                 <span>Filter</span>
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    disabled={importBundleMutation.isPending}
+                    className="flex items-center space-x-2"
+                    data-testid="button-import-cases"
+                  >
+                    <i className="fas fa-file-import"></i>
+                    <span>{importBundleMutation.isPending ? 'Importing...' : 'Import'}</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setShowImportWizard(true)} data-testid="menu-import-spreadsheet">
+                    Referral spreadsheet (CSV/Excel)...
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => bundleFileInputRef.current?.click()} data-testid="menu-import-bundle">
+                    Case export (ZIP)...
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <input
+                type="file"
+                ref={bundleFileInputRef}
+                onChange={handleBundleFileUpload}
+                accept=".zip"
+                className="hidden"
+                data-testid="input-bundle-file-upload"
+              />
               <Button
                 onClick={triggerMeetingFileUpload}
                 disabled={createMeetingMutation.isPending}
@@ -263,7 +409,7 @@ export default function Dashboard() {
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Active Cases</p>
                   <p className="text-3xl font-bold text-foreground mt-2" data-testid="text-active-cases">
-                    {cases.filter((c: Case) => c.status === 'active').length}
+                    {cases.filter((c: Case) => openCaseStatuses.includes(normalizeCaseStatus(c.status))).length}
                   </p>
                   <p className="text-xs text-accent-foreground mt-2 flex items-center">
                     <i className="fas fa-arrow-up text-green-500 mr-1"></i>
@@ -323,7 +469,7 @@ export default function Dashboard() {
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Closed Cases</p>
                   <p className="text-3xl font-bold text-foreground mt-2" data-testid="text-closed-cases">
-                    {cases.filter((c: Case) => c.status === 'closed').length}
+                    {cases.filter((c: Case) => normalizeCaseStatus(c.status) === 'closed').length}
                   </p>
                   <p className="text-xs text-accent-foreground mt-2 flex items-center">
                     <i className="fas fa-arrow-up text-green-500 mr-1"></i>
@@ -427,131 +573,29 @@ export default function Dashboard() {
           </Card>
         </div>
 
-        {/* Recent Cases */}
-        <Card>
-          <div className="p-6 border-b border-border">
-            <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-foreground">Recent Cases</h3>
-              <Button variant="link" className="text-primary hover:underline">
-                View All
-              </Button>
-            </div>
-          </div>
-          
-          <div className="overflow-x-auto" data-testid="table-cases">
-            {isLoading ? (
-              <div className="flex items-center justify-center p-8">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-              </div>
-            ) : cases.length === 0 ? (
-              <div className="text-center p-8" data-testid="text-no-cases">
-                <i className="fas fa-folder-open text-muted-foreground text-4xl mb-4"></i>
-                <p className="text-foreground font-medium">No cases yet</p>
-                <p className="text-muted-foreground text-sm">Upload your first case document to get started</p>
-              </div>
-            ) : (
-              <table className="w-full">
-                <thead className="bg-muted/50 border-b border-border">
-                  <tr>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      Case Number
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      Background
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      Type
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      Status
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      Next Session
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                      Actions
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-border">
-                  {cases.slice(0, 10).map((caseItem: Case) => (
-                    <tr
-                      key={caseItem.id}
-                      className="hover:bg-accent/50 transition-colors cursor-pointer"
-                      onClick={() => setSelectedCaseId(caseItem.id)}
-                      data-testid={`row-case-${caseItem.id}`}
-                    >
-                      <td className="px-6 py-4">
-                        <div className="flex items-center">
-                          <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center mr-3">
-                            <i className="fas fa-briefcase text-primary"></i>
-                          </div>
-                          <div>
-                            <p className="text-sm font-medium text-foreground" data-testid={`text-case-number-${caseItem.id}`}>
-                              {caseItem.caseNumber}
-                            </p>
-                            <p className="text-xs text-muted-foreground">
-                              {caseItem.mediationNumber || 'N/A'}
-                            </p>
-                          </div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <p className="text-sm text-foreground truncate max-w-xs" title={caseItem.disputeBackground || ''}>
-                          {caseItem.disputeBackground || 'No background provided'}
-                        </p>
-                      </td>
-                      <td className="px-6 py-4">
-                        <Badge variant="outline" className="flex items-center space-x-1 w-fit">
-                          <i className={`fas ${caseItem.mediationType === 'Remote' ? 'fa-video' : 'fa-building'} text-xs`}></i>
-                          <span>{caseItem.mediationType || 'Not specified'}</span>
-                        </Badge>
-                      </td>
-                      <td className="px-6 py-4">
-                        <span className={`status-badge ${getStatusBadgeClass(caseItem.status)}`}>
-                          {caseItem.status}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4">
-                        <p className="text-sm text-foreground">
-                          {formatDate(caseItem.mediationDate?.toString() || null)}
-                        </p>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center space-x-2">
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setSelectedCaseId(caseItem.id);
-                            }}
-                            data-testid={`button-view-case-${caseItem.id}`}
-                          >
-                            <i className="fas fa-eye"></i>
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setShowEmailModal(true);
-                            }}
-                            data-testid={`button-email-case-${caseItem.id}`}
-                          >
-                            <i className="fas fa-envelope"></i>
-                          </Button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            )}
-          </div>
-        </Card>
+        <MyTasks onSelectCase={setSelectedCaseId} />
+
+        <CaseList
+          onSelectCase={setSelectedCaseId}
+          onEmailCase={() => setShowEmailModal(true)}
+        />
       </div>
 
+      <DuplicateCaseDialog
+        fileName={duplicateIntake?.file.name ?? ''}
+        response={duplicateIntake?.response ?? null}
+        isPending={uploadMutation.isPending || createMeetingMutation.isPending}
+        onAttach={(caseId) => resolveDuplicateIntake({ attachToCaseId: caseId })}
+        onCreateAnyway={() => resolveDuplicateIntake({ createDuplicate: true })}
+        onClose={() => setDuplicateIntake(null)}
+      />
+
+      <CaseImportWizard
+        isOpen={showImportWizard}
+        onClose={() => setShowImportWizard(false)}
+        mediatorId={assignedMediatorId || undefined}
+      />
+
       {showEmailModal && (
         <EmailModal
           isOpen={showEmailModal}
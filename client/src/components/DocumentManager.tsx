@@ -12,7 +12,7 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import type { Document } from "@shared/schema";
 import type { UploadResult } from '@uppy/core';
-import { Upload, Search, RefreshCw, Download, Eye, FileText, FileImage, FileSpreadsheet, CheckCircle } from "lucide-react";
+import { Upload, Search, RefreshCw, Download, Eye, FileText, FileImage, FileSpreadsheet, CheckCircle, Trash2 } from "lucide-react";
 
 interface DocumentManagerProps {
   caseId: string;
@@ -66,6 +66,26 @@ export default function DocumentManager({ caseId }: DocumentManagerProps) {
     },
   });
 
+  // Moves the document to the trash; it can be restored from the Trash page until it is purged
+  const deleteMutation = useMutation({
+    mutationFn: async (documentId: string) => apiRequest('DELETE', `/api/documents/${documentId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Success",
+        description: "Document moved to trash",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete document",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleGetUploadParameters = async () => {
     try {
       console.log('[DocumentManager] Getting upload parameters...');
@@ -324,6 +344,16 @@ export default function DocumentManager({ caseId }: DocumentManagerProps) {
                     >
                       <Eye className="w-4 h-4" />
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(document.id)}
+                      disabled={deleteMutation.isPending}
+                      title="Move to Trash"
+                      data-testid={`button-delete-document-${document.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
                   </div>
                 </div>
                 {document.isProcessed && (
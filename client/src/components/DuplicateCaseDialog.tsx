@@ -0,0 +1,115 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { caseStatusLabels, normalizeCaseStatus, type DuplicateCaseReason, type DuplicateIntakeResponse } from "@shared/schema";
+import { AlertTriangle, Paperclip } from "lucide-react";
+
+// Thrown by intake uploads when the server answers 409 with likely duplicates of the new case
+export class DuplicateIntakeError extends Error {
+  constructor(public response: DuplicateIntakeResponse) {
+    super(response.message);
+    this.name = "DuplicateIntakeError";
+    Object.setPrototypeOf(this, DuplicateIntakeError.prototype);
+  }
+}
+
+// How the user resolved a duplicate warning; resent with the same file
+export interface IntakeResolution {
+  attachToCaseId?: string;
+  createDuplicate?: boolean;
+}
+
+export function appendIntakeResolution(formData: FormData, resolution?: IntakeResolution) {
+  if (resolution?.attachToCaseId) {
+    formData.append('attachToCaseId', resolution.attachToCaseId);
+  }
+  if (resolution?.createDuplicate) {
+    formData.append('createDuplicate', 'true');
+  }
+}
+
+const reasonLabels: Record<DuplicateCaseReason, string> = {
+  case_number: "Same case number",
+  party_names: "Same parties",
+  mediation_date: "Same session date",
+};
+
+interface DuplicateCaseDialogProps {
+  fileName: string;
+  response: DuplicateIntakeResponse | null;
+  isPending: boolean;
+  onAttach: (caseId: string) => void;
+  onCreateAnyway: () => void;
+  onClose: () => void;
+}
+
+export default function DuplicateCaseDialog({ fileName, response, isPending, onAttach, onCreateAnyway, onClose }: DuplicateCaseDialogProps) {
+  return (
+    <Dialog open={!!response} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            Possible Duplicate Case
+          </DialogTitle>
+          <DialogDescription>
+            {response?.message}. Attach {fileName} to an existing case
+            {response?.caseNumberTaken ? '.' : ', or create a new case anyway.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {response?.duplicates.map((duplicate) => (
+            <div
+              key={duplicate.caseId}
+              className="flex items-start justify-between gap-4 border border-border rounded-md p-3"
+              data-testid={`duplicate-case-${duplicate.caseId}`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium">{duplicate.caseNumber}</span>
+                  <Badge variant="outline">{caseStatusLabels[normalizeCaseStatus(duplicate.caseStatus)]}</Badge>
+                </div>
+                <p className="text-sm text-foreground truncate">{duplicate.parties.join(' v ') || 'No parties recorded'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {duplicate.mediationDate ? `Session ${new Date(duplicate.mediationDate).toLocaleDateString('en-AU')}` : 'No session scheduled'}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {duplicate.reasons.map((reason) => (
+                    <Badge key={reason} variant="secondary" className="text-xs">{reasonLabels[reason]}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onAttach(duplicate.caseId)}
+                disabled={isPending}
+                data-testid={`button-attach-duplicate-${duplicate.caseId}`}
+              >
+                <Paperclip className="w-4 h-4 mr-2" />
+                Attach to this case
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isPending}>Cancel</Button>
+          {!response?.caseNumberTaken && (
+            <Button onClick={onCreateAnyway} disabled={isPending} data-testid="button-create-duplicate">
+              {isPending ? 'Creating...' : 'Create New Case Anyway'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
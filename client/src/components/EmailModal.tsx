@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,9 +7,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { Case, Party, EmailTemplate, Document } from "@shared/schema";
+import { replaceCasePlaceholders, type Case, type CaseType, type PartyWithRepresentatives, type EmailTemplate, type Document, type MediationSession } from "@shared/schema";
 
 interface EmailModalProps {
   isOpen: boolean;
@@ -17,7 +17,10 @@ interface EmailModalProps {
   caseId: string | null;
 }
 
-type CaseWithDetails = Case & { parties: Party[], documents: Document[] };
+type CaseWithDetails = Case & { parties: PartyWithRepresentatives[], documents: Document[], sessions: MediationSession[] };
+
+// Session placeholders describe the case's next session unless another is picked
+const NEXT_SESSION = 'next';
 
 interface EmailRecipient {
   email: string;
@@ -31,6 +34,13 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
   const [selectedRecipients, setSelectedRecipients] = useState<string[]>([]);
   const [subject, setSubject] = useState('');
   const [message, setMessage] = useState('');
+  const [selectedSessionId, setSelectedSessionId] = useState(NEXT_SESSION);
+  // Drafting time is sent with the email and offered as a time entry on the case's Billing tab
+  const [openedAt, setOpenedAt] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (isOpen) setOpenedAt(Date.now());
+  }, [isOpen]);
   
   const { data: caseData } = useQuery<CaseWithDetails>({
     queryKey: ["/api/cases", caseId],
@@ -41,11 +51,17 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
     queryKey: ["/api/email/templates"],
   });
 
+  const { data: caseTypes = [] } = useQuery<CaseType[]>({
+    queryKey: ["/api/case-types"],
+  });
+  const caseType = caseTypes.find(t => t.id === caseData?.caseTypeId);
+
   const sendEmailMutation = useMutation({
     mutationFn: async (emailData: any) => {
       return apiRequest('POST', `/api/cases/${caseId}/email`, emailData);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "time-suggestions"] });
       toast({
         title: "Success",
         description: "Email sent successfully",
@@ -78,6 +94,7 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
     setSelectedRecipients([]);
     setSubject('');
     setMessage('');
+    setSelectedSessionId(NEXT_SESSION);
   };
 
   const handleClose = () => {
@@ -90,7 +107,7 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
     
     const recipients: EmailRecipient[] = [];
     
-    caseData.parties.forEach((party: Party) => {
+    caseData.parties.forEach((party: PartyWithRepresentatives) => {
       if (party.primaryContactEmail && party.primaryContactName) {
         recipients.push({
           email: party.primaryContactEmail,
@@ -99,20 +116,26 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
         });
       }
       
-      if (party.legalRepEmail && party.legalRepName) {
-        recipients.push({
-          email: party.legalRepEmail,
-          name: party.legalRepName,
-          role: `${party.legalRepName} - ${party.legalRepFirm || 'Legal Representative'}`,
-        });
-      }
+      (party.representatives || []).forEach((representative) => {
+        if (representative.email) {
+          const fallbackRole = representative.kind === 'support_person' ? 'Support Person' : 'Legal Representative';
+          recipients.push({
+            email: representative.email,
+            name: representative.name,
+            role: `${representative.name} - ${representative.firm || representative.role || fallbackRole}`,
+          });
+        }
+      });
     });
     
     return recipients;
   };
 
-  const replacePlaceholders = (text: string): string => {
-    if (!text) return '';
+  const sessions = caseData?.sessions || [];
+  const selectedSession = sessions.find(session => session.id === selectedSessionId);
+
+  const replacePlaceholders = (text: string, sessionId = selectedSessionId): string => {
+    if (!text || !caseData) return text || '';
     
     // Get available recipients for {recipientName} placeholder
     const availableRecipients = getEmailRecipients();
@@ -122,77 +145,14 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
         ? 'All' 
         : '[Recipient Name]';
     
-    // Get party-specific variables
-    const applicants = caseData?.parties?.filter(p => p.partyType === 'applicant') || [];
-    const respondents = caseData?.parties?.filter(p => p.partyType === 'respondent') || [];
-    
-    let result = text;
-    
-    // Replace basic case placeholders
-    result = result
-      .replace(/\{caseNumber\}/g, caseData?.caseNumber || '[Case Number]')
-      .replace(/\{mediatorName\}/g, caseData?.mediatorName || '[Mediator Name]')
-      .replace(/\{mediationDate\}/g, caseData?.mediationDate ? new Date(caseData.mediationDate).toLocaleDateString('en-AU', { year: 'numeric', month: 'long', day: 'numeric' }) : '[Mediation Date]')
-      .replace(/\{mediationTime\}/g, caseData?.mediationDate ? new Date(caseData.mediationDate).toLocaleTimeString('en-AU', { hour: '2-digit', minute: '2-digit' }) : '[Mediation Time]')
-      .replace(/\{mediationType\}/g, caseData?.mediationType || '[Mediation Type]')
-      .replace(/\{recipientName\}/g, recipientName)
-      .replace(/\{disputeType\}/g, caseData?.disputeType || '[Dispute Type]')
-      .replace(/\{disputeAmount\}/g, caseData?.disputeAmount ? `$${caseData.disputeAmount.toLocaleString()}` : '[Dispute Amount]')
-      .replace(/\{zoomLink\}/g, caseData?.zoomMeetingLink || '[Zoom Link]')
-      .replace(/\{zoomPassword\}/g, caseData?.zoomMeetingPassword || '[Zoom Password]');
-    
-    // Replace applicant placeholders (indexed from 1)
-    applicants.forEach((applicant, index) => {
-      const num = index + 1;
-      result = result
-        .replace(new RegExp(`\\{applicant_${num}_name\\}`, 'g'), applicant.entityName || `[Applicant ${num} Name]`)
-        .replace(new RegExp(`\\{applicant_${num}_contact\\}`, 'g'), applicant.primaryContactName || `[Applicant ${num} Contact]`)
-        .replace(new RegExp(`\\{applicant_${num}_email\\}`, 'g'), applicant.primaryContactEmail || `[Applicant ${num} Email]`)
-        .replace(new RegExp(`\\{applicant_${num}_phone\\}`, 'g'), applicant.primaryContactPhone || `[Applicant ${num} Phone]`)
-        .replace(new RegExp(`\\{applicant_${num}_lawyer\\}`, 'g'), applicant.legalRepName || `[Applicant ${num} Lawyer]`)
-        .replace(new RegExp(`\\{applicant_${num}_lawyer_firm\\}`, 'g'), applicant.legalRepFirm || `[Applicant ${num} Law Firm]`)
-        .replace(new RegExp(`\\{applicant_${num}_lawyer_email\\}`, 'g'), applicant.legalRepEmail || `[Applicant ${num} Lawyer Email]`)
-        .replace(new RegExp(`\\{applicant_${num}_lawyer_phone\\}`, 'g'), applicant.legalRepPhone || `[Applicant ${num} Lawyer Phone]`);
-    });
-    
-    // Replace respondent placeholders (indexed from 1)
-    respondents.forEach((respondent, index) => {
-      const num = index + 1;
-      result = result
-        .replace(new RegExp(`\\{respondent_${num}_name\\}`, 'g'), respondent.entityName || `[Respondent ${num} Name]`)
-        .replace(new RegExp(`\\{respondent_${num}_contact\\}`, 'g'), respondent.primaryContactName || `[Respondent ${num} Contact]`)
-        .replace(new RegExp(`\\{respondent_${num}_email\\}`, 'g'), respondent.primaryContactEmail || `[Respondent ${num} Email]`)
-        .replace(new RegExp(`\\{respondent_${num}_phone\\}`, 'g'), respondent.primaryContactPhone || `[Respondent ${num} Phone]`)
-        .replace(new RegExp(`\\{respondent_${num}_lawyer\\}`, 'g'), respondent.legalRepName || `[Respondent ${num} Lawyer]`)
-        .replace(new RegExp(`\\{respondent_${num}_lawyer_firm\\}`, 'g'), respondent.legalRepFirm || `[Respondent ${num} Law Firm]`)
-        .replace(new RegExp(`\\{respondent_${num}_lawyer_email\\}`, 'g'), respondent.legalRepEmail || `[Respondent ${num} Lawyer Email]`)
-        .replace(new RegExp(`\\{respondent_${num}_lawyer_phone\\}`, 'g'), respondent.legalRepPhone || `[Respondent ${num} Lawyer Phone]`);
+    return replaceCasePlaceholders(text, caseData, caseData.parties, sessions, {
+      session: sessions.find(session => session.id === sessionId),
+      recipientName,
+      caseType,
     });
-    
-    // Final pass: Replace any remaining party placeholders with bracketed fallbacks
-    // This handles cases where there are no parties or fewer parties than referenced
-    result = result
-      .replace(/\{applicant_(\d+)_name\}/g, (match, num) => `[Applicant ${num} Name]`)
-      .replace(/\{applicant_(\d+)_contact\}/g, (match, num) => `[Applicant ${num} Contact]`)
-      .replace(/\{applicant_(\d+)_email\}/g, (match, num) => `[Applicant ${num} Email]`)
-      .replace(/\{applicant_(\d+)_phone\}/g, (match, num) => `[Applicant ${num} Phone]`)
-      .replace(/\{applicant_(\d+)_lawyer\}/g, (match, num) => `[Applicant ${num} Lawyer]`)
-      .replace(/\{applicant_(\d+)_lawyer_firm\}/g, (match, num) => `[Applicant ${num} Law Firm]`)
-      .replace(/\{applicant_(\d+)_lawyer_email\}/g, (match, num) => `[Applicant ${num} Lawyer Email]`)
-      .replace(/\{applicant_(\d+)_lawyer_phone\}/g, (match, num) => `[Applicant ${num} Lawyer Phone]`)
-      .replace(/\{respondent_(\d+)_name\}/g, (match, num) => `[Respondent ${num} Name]`)
-      .replace(/\{respondent_(\d+)_contact\}/g, (match, num) => `[Respondent ${num} Contact]`)
-      .replace(/\{respondent_(\d+)_email\}/g, (match, num) => `[Respondent ${num} Email]`)
-      .replace(/\{respondent_(\d+)_phone\}/g, (match, num) => `[Respondent ${num} Phone]`)
-      .replace(/\{respondent_(\d+)_lawyer\}/g, (match, num) => `[Respondent ${num} Lawyer]`)
-      .replace(/\{respondent_(\d+)_lawyer_firm\}/g, (match, num) => `[Respondent ${num} Law Firm]`)
-      .replace(/\{respondent_(\d+)_lawyer_email\}/g, (match, num) => `[Respondent ${num} Lawyer Email]`)
-      .replace(/\{respondent_(\d+)_lawyer_phone\}/g, (match, num) => `[Respondent ${num} Lawyer Phone]`);
-    
-    return result;
   };
 
-  const handleTemplateChange = (templateId: string) => {
+  const handleTemplateChange = (templateId: string, sessionId = selectedSessionId) => {
     setSelectedTemplate(templateId);
     
     if (templateId === 'custom') {
@@ -201,18 +161,28 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
       return;
     }
 
-    // Find the selected template from database templates
-    const selectedDbTemplate = templates.find(t => t.id === templateId);
+    // Find the selected template from database templates, or the case type's templates
+    const selectedDbTemplate = templateId.startsWith('case-type:')
+      ? caseType?.emailTemplates[parseInt(templateId.slice('case-type:'.length), 10)]
+      : templates.find(t => t.id === templateId);
     if (selectedDbTemplate) {
       // Replace all placeholders in subject and body
-      const subject = replacePlaceholders(selectedDbTemplate.subject);
-      const body = replacePlaceholders(selectedDbTemplate.body);
+      const subject = replacePlaceholders(selectedDbTemplate.subject, sessionId);
+      const body = replacePlaceholders(selectedDbTemplate.body, sessionId);
 
       setSubject(subject);
       setMessage(body);
     }
   };
 
+  // Re-fills the chosen template for the newly picked session
+  const handleSessionChange = (sessionId: string) => {
+    setSelectedSessionId(sessionId);
+    if (selectedTemplate && selectedTemplate !== 'custom') {
+      handleTemplateChange(selectedTemplate, sessionId);
+    }
+  };
+
   const handleRecipientToggle = (email: string) => {
     setSelectedRecipients(prev => 
       prev.includes(email) 
@@ -255,14 +225,8 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
       recipients: recipients,
       subject: subject,
       message: message,
-      templateData: {
-        recipientName: '[Recipient Name]',
-        caseNumber: caseData?.caseNumber,
-        mediatorName: caseData?.mediatorName,
-        mediationDate: caseData?.mediationDate ? new Date(caseData.mediationDate).toLocaleDateString('en-AU') : 'TBD',
-        mediationTime: caseData?.mediationDate ? new Date(caseData.mediationDate).toLocaleTimeString('en-AU') : 'TBD',
-        mediationType: caseData?.mediationType,
-      },
+      draftingSeconds: Math.round((Date.now() - openedAt) / 1000),
+      sessionId: selectedSession?.id,
     };
 
     sendEmailMutation.mutate(emailData);
@@ -272,6 +236,10 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
   
   // Build template options from database templates + custom option
   const templateOptions = [
+    ...(caseType?.emailTemplates || []).map((template, index) => ({
+      value: `case-type:${index}`,
+      label: `${template.name} (${caseType!.name})`,
+    })),
     ...templates.map(template => ({
       value: template.id,
       label: template.name,
@@ -309,6 +277,28 @@ export default function EmailModal({ isOpen, onClose, caseId }: EmailModalProps)
             </Select>
           </div>
 
+          {/* Session for the session placeholders */}
+          {sessions.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">
+                Session
+              </label>
+              <Select value={selectedSessionId} onValueChange={handleSessionChange}>
+                <SelectTrigger data-testid="select-email-session">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEXT_SESSION}>Next session</SelectItem>
+                  {sessions.map((session) => (
+                    <SelectItem key={session.id} value={session.id}>
+                      {session.title} ({new Date(session.startsAt).toLocaleDateString('en-AU')})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Recipients */}
           <div>
             <label className="block text-sm font-medium text-foreground mb-2">
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { expenseCategories, expenseCategoryLabels, type CaseExpense, type ExpenseCategory } from "@shared/schema";
+
+interface ExpenseDialogProps {
+  caseId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  expense?: CaseExpense | null;
+  defaultCurrency: string;
+}
+
+export default function ExpenseDialog({ caseId, isOpen, onClose, expense, defaultCurrency }: ExpenseDialogProps) {
+  const { toast } = useToast();
+  const [incurredOn, setIncurredOn] = useState('');
+  const [category, setCategory] = useState<ExpenseCategory>("other");
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [billable, setBillable] = useState(true);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIncurredOn((expense ? new Date(expense.incurredOn) : new Date()).toISOString().slice(0, 10));
+    setCategory((expense?.category as ExpenseCategory | undefined) ?? "other");
+    setDescription(expense?.description ?? '');
+    setAmount(expense?.amount ?? '');
+    setCurrency(expense?.currency ?? defaultCurrency);
+    setBillable(expense?.billable ?? true);
+  }, [isOpen, expense, defaultCurrency]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { incurredOn, category, description, amount, currency, billable };
+      return expense
+        ? apiRequest('PATCH', `/api/cases/${caseId}/expenses/${expense.id}`, body)
+        : apiRequest('POST', `/api/cases/${caseId}/expenses`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "billing"] });
+      toast({ title: "Success", description: expense ? "Expense updated" : "Expense added" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to save expense"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{expense ? 'Edit Expense' : 'Add Expense'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="expense-date">Date</Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={incurredOn}
+                onChange={(e) => setIncurredOn(e.target.value)}
+                data-testid="input-expense-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="expense-category">Category</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as ExpenseCategory)}>
+                <SelectTrigger id="expense-category" data-testid="select-expense-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expenseCategories.map((value) => (
+                    <SelectItem key={value} value={value}>{expenseCategoryLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="expense-description">Description</Label>
+            <Input
+              id="expense-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Meeting room hire, 3 hours"
+              data-testid="input-expense-description"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="expense-amount">Amount</Label>
+              <Input
+                id="expense-amount"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-expense-amount"
+              />
+            </div>
+            <div>
+              <Label htmlFor="expense-currency">Currency</Label>
+              <Input
+                id="expense-currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                maxLength={3}
+                data-testid="input-expense-currency"
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="expense-billable"
+              checked={billable}
+              onCheckedChange={(checked) => setBillable(checked === true)}
+              data-testid="checkbox-expense-billable"
+            />
+            <Label htmlFor="expense-billable">Billable to the parties</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!incurredOn || !description.trim() || !amount || saveMutation.isPending}
+            data-testid="button-save-expense"
+          >
+            {saveMutation.isPending ? 'Saving...' : expense ? 'Save Changes' : 'Add Expense'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
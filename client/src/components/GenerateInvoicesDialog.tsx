@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/utils";
+import type { FeeSplitShare, Invoice, InvoiceBillTo, PartyWithRepresentatives } from "@shared/schema";
+import { invalidateInvoices } from "./InvoiceTable";
+import { FileText } from "lucide-react";
+
+interface GenerateInvoicesDialogProps {
+  caseId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  parties: PartyWithRepresentatives[];
+  feeSplit: FeeSplitShare[] | null; // last split used on the case
+  unbilled: { currency: string; amount: number }[];
+}
+
+type ShareRow = { partyId: string; percent: string; billTo: InvoiceBillTo };
+
+// Equal shares in whole cents; the last party takes the rounding remainder
+function equalShares(parties: PartyWithRepresentatives[]): ShareRow[] {
+  const each = Math.floor(10000 / Math.max(parties.length, 1)) / 100;
+  return parties.map((party, index) => ({
+    partyId: party.id,
+    percent: String(index === parties.length - 1 ? Math.round((100 - each * index) * 100) / 100 : each),
+    billTo: "party",
+  }));
+}
+
+export default function GenerateInvoicesDialog({ caseId, isOpen, onClose, parties, feeSplit, unbilled }: GenerateInvoicesDialogProps) {
+  const { toast } = useToast();
+  const [shares, setShares] = useState<ShareRow[]>([]);
+  const [currency, setCurrency] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setShares(feeSplit
+      ? parties.map((party) => {
+          const saved = feeSplit.find(share => share.partyId === party.id);
+          return { partyId: party.id, percent: String(saved?.percent ?? 0), billTo: saved?.billTo ?? "party" };
+        })
+      : equalShares(parties));
+    setCurrency(unbilled[0]?.currency ?? '');
+  }, [isOpen, parties, feeSplit, unbilled]);
+
+  const amount = unbilled.find(item => item.currency === currency)?.amount ?? 0;
+  const totalPercent = Math.round(shares.reduce((sum, share) => sum + (Number(share.percent) || 0), 0) * 100) / 100;
+
+  const updateShare = (partyId: string, changes: Partial<ShareRow>) =>
+    setShares(rows => rows.map(row => (row.partyId === partyId ? { ...row, ...changes } : row)));
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/cases/${caseId}/invoices`, {
+        shares: shares.map(share => ({ partyId: share.partyId, percent: Number(share.percent) || 0, billTo: share.billTo })),
+        currency,
+      });
+      return response.json() as Promise<Invoice[]>;
+    },
+    onSuccess: (invoices) => {
+      invalidateInvoices(caseId);
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      toast({
+        title: "Success",
+        description: `Generated ${invoices.map(invoice => invoice.invoiceNumber).join(', ')}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to generate invoices"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Generate Invoices</DialogTitle>
+          <DialogDescription>
+            Unbilled billable time and expenses are split between the parties. Each party with a share gets its own
+            invoice, addressed to the party or its solicitors. The split is saved for next time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {parties.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add the parties to this case before invoicing.</p>
+        ) : (
+          <div className="space-y-4">
+            {unbilled.length > 1 && (
+              <div className="w-40">
+                <Label htmlFor="invoice-currency">Currency</Label>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger id="invoice-currency" data-testid="select-invoice-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unbilled.map((item) => (
+                      <SelectItem key={item.currency} value={item.currency}>{item.currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <table className="w-full text-sm">
+              <thead className="border-b border-border">
+                <tr>
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Party</th>
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Share %</th>
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Bill to</th>
+                  <th className="py-2 text-right text-xs font-medium text-muted-foreground uppercase">Before tax</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {parties.map((party) => {
+                  const share = shares.find(row => row.partyId === party.id);
+                  if (!share) return null;
+                  const legalRep = party.legalRepFirm || party.legalRepName;
+                  return (
+                    <tr key={party.id} data-testid={`row-fee-share-${party.id}`}>
+                      <td className="py-2 pr-2">
+                        <span className="font-medium">{party.entityName}</span>
+                        <p className="text-xs text-muted-foreground capitalize">{party.partyType}</p>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          step="0.01"
+                          value={share.percent}
+                          onChange={(e) => updateShare(party.id, { percent: e.target.value })}
+                          className="w-24"
+                          data-testid={`input-fee-share-${party.id}`}
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <Select value={share.billTo} onValueChange={(value) => updateShare(party.id, { billTo: value as InvoiceBillTo })}>
+                          <SelectTrigger className="w-48" data-testid={`select-bill-to-${party.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="party">{party.primaryContactName || party.entityName}</SelectItem>
+                            <SelectItem value="legal_rep" disabled={!legalRep}>
+                              {legalRep ? `${legalRep} (solicitors)` : 'No legal representative'}
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {currency && formatMoney(amount * (Number(share.percent) || 0) / 100, currency)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="flex items-center justify-between text-sm">
+              <span className={totalPercent === 100 ? 'text-muted-foreground' : 'text-destructive'} data-testid="text-fee-share-total">
+                Shares total {totalPercent}%{totalPercent !== 100 && ' (must be 100%)'}
+              </span>
+              <span className="font-medium">
+                Unbilled: {currency ? formatMoney(amount, currency) : '—'}
+              </span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => generateMutation.mutate()}
+            disabled={parties.length === 0 || !currency || totalPercent !== 100 || generateMutation.isPending}
+            data-testid="button-confirm-generate-invoices"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            {generateMutation.isPending ? 'Generating...' : 'Generate Invoices'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
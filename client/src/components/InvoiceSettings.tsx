@@ -0,0 +1,273 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { formatInvoiceNumber, type InvoiceSettings as InvoiceSettingsRecord } from "@shared/schema";
+import { ImagePlus, Receipt, Save, Trash2 } from "lucide-react";
+
+const emptyForm = {
+  businessName: '',
+  address: '',
+  taxNumber: '',
+  email: '',
+  phone: '',
+  paymentInstructions: '',
+  paymentTermsDays: '14',
+  taxRate: '0',
+  taxLabel: 'GST',
+  numberPrefix: 'INV-',
+  nextNumber: '1',
+};
+
+// Letterhead, payment details and numbering for invoices. Shared by the practice; only admins edit it.
+export default function InvoiceSettings() {
+  const { toast } = useToast();
+  const { organization, isAdmin } = useOrganization();
+  const canManage = !organization || isAdmin;
+  const [form, setForm] = useState(emptyForm);
+  const [logoVersion, setLogoVersion] = useState(0);
+  const logoInput = useRef<HTMLInputElement>(null);
+
+  const { data: settings, isLoading } = useQuery<InvoiceSettingsRecord | null>({ queryKey: ['/api/invoice-settings'] });
+
+  useEffect(() => {
+    if (!settings) return;
+    setForm({
+      businessName: settings.businessName,
+      address: settings.address ?? '',
+      taxNumber: settings.taxNumber ?? '',
+      email: settings.email ?? '',
+      phone: settings.phone ?? '',
+      paymentInstructions: settings.paymentInstructions ?? '',
+      paymentTermsDays: String(settings.paymentTermsDays),
+      taxRate: String(Number(settings.taxRate)),
+      taxLabel: settings.taxLabel,
+      numberPrefix: settings.numberPrefix,
+      nextNumber: String(settings.nextNumber),
+    });
+  }, [settings]);
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/invoice-settings'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest('PUT', '/api/invoice-settings', {
+      ...form,
+      paymentTermsDays: parseInt(form.paymentTermsDays, 10) || 0,
+      nextNumber: parseInt(form.nextNumber, 10) || undefined,
+    }),
+    onSuccess: () => {
+      onSaved();
+      toast({ title: "Success", description: "Invoice settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to save invoice settings"), variant: "destructive" });
+    },
+  });
+
+  const uploadLogoMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('logo', file);
+      const response = await fetch('/api/invoice-settings/logo', { method: 'POST', body: formData, credentials: 'include' });
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`${response.status}: ${text}`);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      onSaved();
+      setLogoVersion(version => version + 1);
+      toast({ title: "Success", description: "Logo uploaded" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to upload logo"), variant: "destructive" });
+    },
+  });
+
+  const removeLogoMutation = useMutation({
+    mutationFn: async () => apiRequest('DELETE', '/api/invoice-settings/logo'),
+    onSuccess: () => {
+      onSaved();
+      toast({ title: "Success", description: "Logo removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to remove logo"), variant: "destructive" });
+    },
+  });
+
+  const field = (key: keyof typeof emptyForm) => ({
+    value: form[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setForm({ ...form, [key]: e.target.value }),
+    disabled: !canManage,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading invoice settings...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Receipt className="w-5 h-5 mr-2" />
+            Invoice Letterhead
+          </CardTitle>
+          <CardDescription>
+            Printed at the top of every invoice. Changes apply to invoices downloaded or sent from now on.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="invoice-business-name">Business name</Label>
+              <Input id="invoice-business-name" {...field('businessName')} data-testid="input-invoice-business-name" />
+            </div>
+            <div>
+              <Label htmlFor="invoice-tax-number">ABN</Label>
+              <Input id="invoice-tax-number" {...field('taxNumber')} data-testid="input-invoice-tax-number" />
+            </div>
+            <div>
+              <Label htmlFor="invoice-email">Email</Label>
+              <Input id="invoice-email" type="email" {...field('email')} data-testid="input-invoice-email" />
+            </div>
+            <div>
+              <Label htmlFor="invoice-phone">Phone</Label>
+              <Input id="invoice-phone" {...field('phone')} data-testid="input-invoice-phone" />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="invoice-address">Address</Label>
+            <Textarea id="invoice-address" rows={3} {...field('address')} data-testid="textarea-invoice-address" />
+          </div>
+
+          <div>
+            <Label>Logo</Label>
+            <div className="flex items-center gap-4 mt-1">
+              {settings?.logoObjectPath ? (
+                <img
+                  src={`/api/invoice-settings/logo?v=${logoVersion}`}
+                  alt="Invoice logo"
+                  className="h-14 max-w-[200px] object-contain border rounded-md p-1"
+                  data-testid="img-invoice-logo"
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">No logo. PNG or JPEG, up to 2MB.</p>
+              )}
+              {canManage && settings && (
+                <>
+                  <input
+                    ref={logoInput}
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) uploadLogoMutation.mutate(file);
+                      e.target.value = '';
+                    }}
+                    data-testid="input-invoice-logo"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => logoInput.current?.click()}
+                    disabled={uploadLogoMutation.isPending}
+                    data-testid="button-upload-invoice-logo"
+                  >
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    {settings.logoObjectPath ? 'Replace' : 'Upload'}
+                  </Button>
+                  {settings.logoObjectPath && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeLogoMutation.mutate()}
+                      disabled={removeLogoMutation.isPending}
+                      data-testid="button-remove-invoice-logo"
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+            {canManage && !settings && (
+              <p className="text-xs text-muted-foreground mt-1">Save the letterhead first to add a logo.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payment and Numbering</CardTitle>
+          <CardDescription>
+            Invoice numbers run in sequence across the practice and are never reused, even when an invoice is voided.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="invoice-payment-instructions">Payment details</Label>
+            <Textarea
+              id="invoice-payment-instructions"
+              rows={3}
+              placeholder="e.g. BSB 062-000, Account 1234 5678, reference the invoice number"
+              {...field('paymentInstructions')}
+              data-testid="textarea-invoice-payment-instructions"
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <Label htmlFor="invoice-terms">Payment terms (days)</Label>
+              <Input id="invoice-terms" type="number" min={0} {...field('paymentTermsDays')} data-testid="input-invoice-terms" />
+            </div>
+            <div>
+              <Label htmlFor="invoice-tax-label">Tax name</Label>
+              <Input id="invoice-tax-label" {...field('taxLabel')} data-testid="input-invoice-tax-label" />
+            </div>
+            <div>
+              <Label htmlFor="invoice-tax-rate">Tax rate (%)</Label>
+              <Input id="invoice-tax-rate" inputMode="decimal" {...field('taxRate')} data-testid="input-invoice-tax-rate" />
+            </div>
+            <div>
+              <Label htmlFor="invoice-prefix">Number prefix</Label>
+              <Input id="invoice-prefix" {...field('numberPrefix')} data-testid="input-invoice-prefix" />
+            </div>
+            <div>
+              <Label htmlFor="invoice-next-number">Next number</Label>
+              <Input id="invoice-next-number" type="number" min={1} {...field('nextNumber')} data-testid="input-invoice-next-number" />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground" data-testid="text-next-invoice-number">
+            The next invoice will be {formatInvoiceNumber(form.numberPrefix, parseInt(form.nextNumber, 10) || 1)}.
+            Set the tax rate to 0 if you are not registered for {form.taxLabel || 'GST'}.
+          </p>
+          {canManage ? (
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!form.businessName.trim() || saveMutation.isPending}
+                data-testid="button-save-invoice-settings"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saveMutation.isPending ? 'Saving...' : 'Save Invoice Settings'}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Only organization admins can change invoice settings.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/utils";
+import {
+  invoiceDisplayStatus,
+  invoiceStatusLabels,
+  type Invoice,
+  type InvoiceDisplayStatus,
+  type InvoiceWithCase,
+} from "@shared/schema";
+import SendInvoiceDialog from "./SendInvoiceDialog";
+import { Ban, CheckCircle2, FileDown, RotateCcw, Send } from "lucide-react";
+
+interface InvoiceTableProps {
+  invoices: (Invoice | InvoiceWithCase)[];
+  showCase?: boolean; // practice-wide list
+}
+
+const statusClassNames: Record<InvoiceDisplayStatus, string> = {
+  unpaid: "bg-amber-100 text-amber-800 border-amber-200",
+  overdue: "bg-red-100 text-red-800 border-red-200",
+  paid: "bg-green-100 text-green-800 border-green-200",
+  void: "bg-muted text-muted-foreground line-through",
+};
+
+const formatDate = (value: string | Date | null) =>
+  value ? new Date(value).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+// Invoices touch the case billing (void releases items) and the practice-wide list
+export const invalidateInvoices = (caseId: string) => {
+  queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "invoices"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "billing"] });
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/invoices') });
+};
+
+export default function InvoiceTable({ invoices, showCase }: InvoiceTableProps) {
+  const { toast } = useToast();
+  const [sending, setSending] = useState<Invoice | null>(null);
+  const [voiding, setVoiding] = useState<Invoice | null>(null);
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ invoice, status }: { invoice: Invoice; status: "paid" | "unpaid" }) =>
+      apiRequest('POST', `/api/cases/${invoice.caseId}/invoices/${invoice.id}/status`, { status }),
+    onSuccess: (_, { invoice, status }) => {
+      invalidateInvoices(invoice.caseId);
+      toast({ title: "Success", description: `Invoice ${invoice.invoiceNumber} marked ${status}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to update invoice"), variant: "destructive" });
+    },
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async (invoice: Invoice) => {
+      const response = await apiRequest('POST', `/api/cases/${invoice.caseId}/invoices/${invoice.id}/void`);
+      return response.json() as Promise<{ invoice: Invoice; released: boolean }>;
+    },
+    onSuccess: ({ invoice, released }) => {
+      invalidateInvoices(invoice.caseId);
+      setVoiding(null);
+      toast({
+        title: "Success",
+        description: released
+          ? `Invoice ${invoice.invoiceNumber} voided. Its time and expenses can be invoiced again.`
+          : `Invoice ${invoice.invoiceNumber} voided`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to void invoice"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <table className="w-full text-sm" data-testid="table-invoices">
+        <thead className="border-b border-border">
+          <tr>
+            <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Invoice</th>
+            {showCase && <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Case</th>}
+            <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Bill to</th>
+            <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Due</th>
+            <th className="py-2 text-right text-xs font-medium text-muted-foreground uppercase">Amount</th>
+            <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase pl-4">Status</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {invoices.map((invoice) => {
+            const status = invoiceDisplayStatus(invoice);
+            return (
+              <tr key={invoice.id} data-testid={`row-invoice-${invoice.id}`}>
+                <td className="py-2 align-top whitespace-nowrap">
+                  <span className="font-mono font-medium">{invoice.invoiceNumber}</span>
+                  <p className="text-xs text-muted-foreground">{formatDate(invoice.issuedAt)}</p>
+                </td>
+                {showCase && (
+                  <td className="py-2 align-top whitespace-nowrap">
+                    <Link href={`/cases/${invoice.caseId}`} className="font-mono text-primary hover:underline">
+                      {'caseNumber' in invoice ? invoice.caseNumber : invoice.caseId}
+                    </Link>
+                  </td>
+                )}
+                <td className="py-2 align-top">
+                  <span className="font-medium">{invoice.recipientName}</span>
+                  <p className="text-xs text-muted-foreground">
+                    {invoice.billTo === 'legal_rep' ? `Solicitors for ${invoice.partyName}` : invoice.recipientAttention}
+                    {' · '}{Number(invoice.sharePercent)}% share
+                  </p>
+                </td>
+                <td className="py-2 align-top whitespace-nowrap">{formatDate(invoice.dueAt)}</td>
+                <td className="py-2 align-top text-right whitespace-nowrap">{formatMoney(invoice.total, invoice.currency)}</td>
+                <td className="py-2 align-top pl-4 whitespace-nowrap">
+                  <Badge variant="outline" className={statusClassNames[status]} data-testid={`badge-invoice-status-${invoice.id}`}>
+                    {invoiceStatusLabels[status]}
+                  </Badge>
+                  {invoice.status === 'paid' && invoice.paidAt && (
+                    <p className="text-xs text-muted-foreground">{formatDate(invoice.paidAt)}</p>
+                  )}
+                  {invoice.sentAt && invoice.status !== 'paid' && (
+                    <p className="text-xs text-muted-foreground">Sent {formatDate(invoice.sentAt)}</p>
+                  )}
+                </td>
+                <td className="py-2 align-top text-right whitespace-nowrap">
+                  <Button size="sm" variant="ghost" asChild data-testid={`button-download-invoice-${invoice.id}`}>
+                    <a href={`/api/cases/${invoice.caseId}/invoices/${invoice.id}/pdf`} target="_blank" rel="noreferrer" title="Download PDF">
+                      <FileDown className="w-4 h-4" />
+                    </a>
+                  </Button>
+                  {invoice.status !== 'void' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setSending(invoice)}
+                      title="Email invoice"
+                      data-testid={`button-send-invoice-${invoice.id}`}
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {invoice.status === 'unpaid' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => statusMutation.mutate({ invoice, status: 'paid' })}
+                      disabled={statusMutation.isPending}
+                      title="Mark paid"
+                      data-testid={`button-mark-paid-${invoice.id}`}
+                    >
+                      <CheckCircle2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {invoice.status === 'paid' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => statusMutation.mutate({ invoice, status: 'unpaid' })}
+                      disabled={statusMutation.isPending}
+                      title="Mark unpaid"
+                      data-testid={`button-mark-unpaid-${invoice.id}`}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {invoice.status === 'unpaid' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setVoiding(invoice)}
+                      title="Void invoice"
+                      data-testid={`button-void-invoice-${invoice.id}`}
+                    >
+                      <Ban className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <SendInvoiceDialog
+        invoice={sending}
+        onClose={() => setSending(null)}
+        onSent={(invoice) => invalidateInvoices(invoice.caseId)}
+      />
+
+      <AlertDialog open={!!voiding} onOpenChange={(open) => !open && setVoiding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Void invoice {voiding?.invoiceNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The invoice number stays used. Once every invoice from the same run is void, its time entries and
+              expenses are unlocked so they can be corrected and invoiced again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => voiding && voidMutation.mutate(voiding)}
+              disabled={voidMutation.isPending}
+              data-testid="button-confirm-void-invoice"
+            >
+              Void Invoice
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,7 +1,11 @@
 import { ReactNode } from "react";
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { filtersToSearch } from "@/lib/caseListFilters";
+import SearchPalette from "@/components/SearchPalette";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -10,7 +14,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Settings, LogOut, ChevronDown } from "lucide-react";
+import { Settings, LogOut, ChevronDown, X } from "lucide-react";
+import type { SavedCaseView } from "@shared/schema";
 
 interface LayoutProps {
   children: ReactNode;
@@ -18,7 +23,18 @@ interface LayoutProps {
 
 export default function Layout({ children }: LayoutProps) {
   const { user } = useAuth();
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
+
+  const { data: savedViews = [] } = useQuery<SavedCaseView[]>({ queryKey: ['/api/case-views'] });
+  const deleteViewMutation = useMutation({
+    mutationFn: async (viewId: string) => {
+      return apiRequest('DELETE', `/api/case-views/${viewId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/case-views'] });
+    },
+  });
 
   const navItems = [
     { href: "/", icon: "fas fa-th-large", label: "Dashboard" },
@@ -27,6 +43,9 @@ export default function Layout({ children }: LayoutProps) {
     { href: "/ai-assistant", icon: "fas fa-robot", label: "AI Assistant" },
     { href: "/calendar", icon: "fas fa-calendar-alt", label: "Calendar" },
     { href: "/communications", icon: "fas fa-envelope", label: "Communications" },
+    { href: "/contacts", icon: "fas fa-address-book", label: "Contacts" },
+    { href: "/invoices", icon: "fas fa-file-invoice-dollar", label: "Invoices" },
+    { href: "/trash", icon: "fas fa-trash-alt", label: "Trash" },
   ];
 
   return (
@@ -45,6 +64,10 @@ export default function Layout({ children }: LayoutProps) {
           </div>
         </div>
         
+        <div className="px-4 pt-4">
+          <SearchPalette />
+        </div>
+
         <nav className="p-4 space-y-1">
           {navItems.map((item) => {
             const isActive = location === item.href || (item.href === "/" && location === "/");
@@ -66,6 +89,50 @@ export default function Layout({ children }: LayoutProps) {
             );
           })}
         </nav>
+
+        {savedViews.length > 0 && (
+          <div className="px-4 pb-4" data-testid="section-saved-views">
+            <p className="px-4 pb-2 text-xs font-medium text-muted-foreground uppercase">Saved Views</p>
+            <div className="space-y-1">
+              {savedViews.map((view) => {
+                const viewSearch = filtersToSearch(view.filters);
+                const isActive = location === "/cases" && search === viewSearch;
+                return (
+                  <div
+                    key={view.id}
+                    className={cn(
+                      "group flex items-center rounded-md transition-colors",
+                      isActive
+                        ? "bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                    )}
+                  >
+                    <Link
+                      href={viewSearch ? `/cases?${viewSearch}` : "/cases"}
+                      className="flex-1 flex items-center space-x-3 px-4 py-2 min-w-0"
+                      data-testid={`nav-saved-view-${view.id}`}
+                    >
+                      <i className="fas fa-filter w-5"></i>
+                      <span className="text-sm truncate">{view.name}</span>
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        deleteViewMutation.mutate(view.id);
+                        if (isActive) setLocation("/cases");
+                      }}
+                      className="px-2 opacity-0 group-hover:opacity-100 transition-opacity"
+                      aria-label={`Delete saved view ${view.name}`}
+                      data-testid={`button-delete-saved-view-${view.id}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
         
         <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-border">
           <DropdownMenu>
@@ -0,0 +1,341 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  nextMediationSession,
+  sessionSegmentKindLabels,
+  visibleCaucusNotes,
+  type Case,
+  type CaucusNote,
+  type MediationSession,
+  type PartyWithRepresentatives,
+  type SessionLog,
+  type SessionSegment,
+  type StartSessionSegment,
+} from "@shared/schema";
+import { Lock, Pause, Radio, Trash2, Users, X } from "lucide-react";
+
+interface LiveSessionPanelProps {
+  caseData: Case & { sessions: MediationSession[]; parties: PartyWithRepresentatives[] };
+  onClose: () => void;
+}
+
+const JOINT = "joint";
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const formatTime = (value: string | Date) =>
+  new Date(value).toLocaleTimeString('en-AU', { hour: '2-digit', minute: '2-digit' });
+
+const segmentMs = (segment: SessionSegment, now: Date) =>
+  (segment.endedAt ? new Date(segment.endedAt) : now).getTime() - new Date(segment.startedAt).getTime();
+
+// Live session mode: a running timer, joint sessions and caucuses with each party, and private notes.
+// While a party is in caucus only their own caucus notes and joint-session notes are on screen.
+export default function LiveSessionPanel({ caseData, onClose }: LiveSessionPanelProps) {
+  const { toast } = useToast();
+  const parties = caseData.parties;
+  const [sessionId, setSessionId] = useState(() => nextMediationSession(caseData.sessions)?.id ?? '');
+  const [now, setNow] = useState(() => new Date());
+  const [noteContent, setNoteContent] = useState('');
+  const [noteTag, setNoteTag] = useState(JOINT);
+  const [showAllNotes, setShowAllNotes] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const logKey = ["/api/cases", caseData.id, "sessions", sessionId, "log"];
+  const { data: log, isLoading } = useQuery<SessionLog>({
+    queryKey: logKey,
+    enabled: !!sessionId,
+  });
+
+  const segments = log?.segments ?? [];
+  const notes = log?.notes ?? [];
+  const running = segments.find(segment => !segment.endedAt);
+
+  // Notes follow the room: tagged to the party in caucus, or to the joint session
+  useEffect(() => {
+    setNoteTag(running?.partyId ?? JOINT);
+    setShowAllNotes(false);
+  }, [running?.id, running?.partyId]);
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({ title: "Error", description: apiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async (segment: StartSessionSegment) =>
+      apiRequest('POST', `/api/cases/${caseData.id}/sessions/${sessionId}/log/segments`, segment),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: logKey }),
+    onError: onError("Failed to start"),
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/cases/${caseData.id}/sessions/${sessionId}/log/stop`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: logKey }),
+    onError: onError("Failed to pause"),
+  });
+
+  const saveNoteMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest('POST', `/api/cases/${caseData.id}/sessions/${sessionId}/log/notes`, {
+        content: noteContent.trim(),
+        partyId: noteTag === JOINT ? null : noteTag,
+      }),
+    onSuccess: () => {
+      setNoteContent('');
+      queryClient.invalidateQueries({ queryKey: logKey });
+    },
+    onError: onError("Failed to save note"),
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (note: CaucusNote) =>
+      apiRequest('DELETE', `/api/cases/${caseData.id}/sessions/${sessionId}/log/notes/${note.id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: logKey }),
+    onError: onError("Failed to delete note"),
+  });
+
+  const endLiveSession = async () => {
+    if (running) {
+      try {
+        await stopMutation.mutateAsync();
+      } catch {
+        return;
+      }
+    }
+    onClose();
+  };
+
+  const partyName = (partyId: string | null) =>
+    parties.find(party => party.id === partyId)?.entityName ?? 'Removed party';
+  const segmentLabel = (segment: Pick<SessionSegment, "kind" | "partyId">) =>
+    segment.kind === 'caucus' ? `Caucus: ${partyName(segment.partyId)}` : sessionSegmentKindLabels.joint;
+
+  const busy = startMutation.isPending || stopMutation.isPending;
+  const sessionStart = segments[0] ? new Date(segments[0].startedAt) : null;
+  const sessionEnd = running ? now : segments.length > 0 ? new Date(segments[segments.length - 1].endedAt!) : null;
+  const jointMs = segments.filter(segment => segment.kind === 'joint').reduce((total, segment) => total + segmentMs(segment, now), 0);
+
+  // Everything is visible only between segments and on request; otherwise the room decides
+  const shownNotes = !running && showAllNotes ? notes : visibleCaucusNotes(notes, running?.partyId ?? null);
+  const hiddenCount = notes.length - shownNotes.length;
+
+  return (
+    <Card className="m-6 mb-0 border-red-200" data-testid="panel-live-session">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Radio className={`w-5 h-5 ${running ? 'text-red-600 animate-pulse' : 'text-muted-foreground'}`} />
+            <h3 className="text-lg font-semibold text-foreground">Live Session</h3>
+            {caseData.sessions.length > 1 ? (
+              <Select value={sessionId} onValueChange={setSessionId} disabled={!!running}>
+                <SelectTrigger className="w-64" data-testid="select-live-session">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {caseData.sessions.map((session) => (
+                    <SelectItem key={session.id} value={session.id}>
+                      {session.title} · {new Date(session.startsAt).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="text-sm text-muted-foreground">{caseData.sessions[0]?.title}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-xs text-muted-foreground">Session</p>
+              <p className="text-2xl font-mono font-semibold text-foreground" data-testid="text-session-timer">
+                {sessionStart && sessionEnd ? formatElapsed(sessionEnd.getTime() - sessionStart.getTime()) : '00:00'}
+              </p>
+            </div>
+            <Button variant="outline" onClick={endLiveSession} disabled={stopMutation.isPending} data-testid="button-end-live-session">
+              <X className="w-4 h-4 mr-2" />
+              {running ? 'Pause & close' : 'Close'}
+            </Button>
+          </div>
+        </div>
+
+        {!sessionId ? (
+          <p className="text-sm text-muted-foreground">Add a session to the case to run it live.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading session log...</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="space-y-4">
+              <div className="rounded-md border border-border p-4" data-testid="current-segment">
+                <p className="text-xs text-muted-foreground">Now</p>
+                <p className="text-base font-medium text-foreground">{running ? segmentLabel(running) : 'Not started or paused'}</p>
+                {running && (
+                  <p className="text-xl font-mono text-foreground" data-testid="text-segment-timer">{formatElapsed(segmentMs(running, now))}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Button
+                  className="w-full justify-between"
+                  variant={running?.kind === 'joint' ? 'default' : 'outline'}
+                  onClick={() => startMutation.mutate({ kind: 'joint', partyId: null })}
+                  disabled={busy || running?.kind === 'joint'}
+                  data-testid="button-start-joint"
+                >
+                  <span className="flex items-center"><Users className="w-4 h-4 mr-2" />Joint session</span>
+                  <span className="font-mono text-xs">{formatElapsed(jointMs)}</span>
+                </Button>
+                {parties.map((party) => {
+                  const inCaucus = running?.kind === 'caucus' && running.partyId === party.id;
+                  const caucusMs = segments
+                    .filter(segment => segment.kind === 'caucus' && segment.partyId === party.id)
+                    .reduce((total, segment) => total + segmentMs(segment, now), 0);
+                  return (
+                    <Button
+                      key={party.id}
+                      className="w-full justify-between"
+                      variant={inCaucus ? 'default' : 'outline'}
+                      onClick={() => startMutation.mutate({ kind: 'caucus', partyId: party.id })}
+                      disabled={busy || inCaucus}
+                      data-testid={`button-start-caucus-${party.id}`}
+                    >
+                      <span className="flex items-center min-w-0"><Lock className="w-4 h-4 mr-2 shrink-0" /><span className="truncate">Caucus: {party.entityName}</span></span>
+                      <span className="font-mono text-xs">{formatElapsed(caucusMs)}</span>
+                    </Button>
+                  );
+                })}
+                {running && (
+                  <Button className="w-full" variant="ghost" onClick={() => stopMutation.mutate()} disabled={busy} data-testid="button-pause-session">
+                    <Pause className="w-4 h-4 mr-2" />
+                    Pause (break)
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="caucus-note">Private note</Label>
+              <Textarea
+                id="caucus-note"
+                value={noteContent}
+                onChange={(e) => setNoteContent(e.target.value)}
+                rows={6}
+                placeholder="Offers, concerns, instructions..."
+                data-testid="textarea-caucus-note"
+              />
+              <div className="flex items-center gap-2">
+                <Select value={noteTag} onValueChange={setNoteTag}>
+                  <SelectTrigger className="flex-1" data-testid="select-note-tag">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={JOINT}>Joint session</SelectItem>
+                    {parties.map((party) => (
+                      <SelectItem key={party.id} value={party.id}>Caucus: {party.entityName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => saveNoteMutation.mutate()}
+                  disabled={!noteContent.trim() || saveNoteMutation.isPending}
+                  data-testid="button-save-caucus-note"
+                >
+                  Save
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Caucus notes stay with the mediator: they are never emailed, exported or shown during another party's caucus.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-foreground">Notes</h4>
+                {!running && notes.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Switch checked={showAllNotes} onCheckedChange={setShowAllNotes} data-testid="switch-show-all-notes" />
+                    <span className="text-xs text-muted-foreground">Show caucus notes</span>
+                  </div>
+                )}
+              </div>
+              {shownNotes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No notes yet</p>
+              ) : (
+                <div className="space-y-2 max-h-80 overflow-y-auto" data-testid="list-caucus-notes">
+                  {[...shownNotes].reverse().map((note) => (
+                    <div key={note.id} className="rounded-md border border-border p-3 group" data-testid={`caucus-note-${note.id}`}>
+                      <div className="flex items-center justify-between gap-2 mb-1">
+                        <span className="text-xs text-muted-foreground">
+                          {formatTime(note.createdAt!)} · {note.partyId ? `Caucus: ${partyName(note.partyId)}` : 'Joint session'}
+                        </span>
+                        <div className="flex items-center gap-1">
+                          {note.partyId && (
+                            <Badge variant="outline" className="text-xs bg-amber-50 text-amber-800 border-amber-200">
+                              <Lock className="w-3 h-3 mr-1" />
+                              Private
+                            </Badge>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                            onClick={() => deleteNoteMutation.mutate(note)}
+                            disabled={deleteNoteMutation.isPending}
+                            data-testid={`button-delete-caucus-note-${note.id}`}
+                          >
+                            <Trash2 className="w-3 h-3 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+                      <p className="text-sm text-foreground whitespace-pre-wrap">{note.content}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {hiddenCount > 0 && (
+                <p className="text-xs text-muted-foreground" data-testid="text-hidden-notes">
+                  {hiddenCount} note{hiddenCount === 1 ? '' : 's'} from other caucuses hidden
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {segments.length > 0 && (
+          <div className="border-t pt-4">
+            <h4 className="text-sm font-semibold text-foreground mb-2">Session log</h4>
+            <div className="flex flex-wrap gap-2" data-testid="list-session-segments">
+              {segments.map((segment) => (
+                <Badge
+                  key={segment.id}
+                  variant="outline"
+                  className={segment.kind === 'joint' ? 'bg-blue-50 text-blue-800 border-blue-200' : 'bg-amber-50 text-amber-800 border-amber-200'}
+                  data-testid={`segment-${segment.id}`}
+                >
+                  {formatTime(segment.startedAt)} {segmentLabel(segment)} · {formatElapsed(segmentMs(segment, now))}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import {
+  sessionFormatFromMediationType,
+  sessionFormatLabels,
+  sessionFormats,
+  type Case,
+  type MediationSession,
+  type SessionFormat,
+} from "@shared/schema";
+
+interface MediationSessionDialogProps {
+  caseData: Case;
+  session: MediationSession | 'new' | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// datetime-local inputs take local time without a zone
+const toDateTimeInput = (value: string | Date) => {
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export default function MediationSessionDialog({ caseData, session, onClose, onSaved }: MediationSessionDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState('210');
+  const [format, setFormat] = useState<SessionFormat>("remote");
+  const [venue, setVenue] = useState('');
+
+  useEffect(() => {
+    if (!session) return;
+    if (session === 'new') {
+      setTitle('Mediation session');
+      setStartsAt('');
+      setDurationMinutes('210');
+      setFormat(sessionFormatFromMediationType(caseData.mediationType));
+      setVenue(caseData.premises ?? '');
+      return;
+    }
+    setTitle(session.title);
+    setStartsAt(toDateTimeInput(session.startsAt));
+    setDurationMinutes(String(session.durationMinutes));
+    setFormat(session.format as SessionFormat);
+    setVenue(session.venue ?? '');
+  }, [session, caseData.mediationType, caseData.premises]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        title: title.trim(),
+        startsAt: new Date(startsAt).toISOString(),
+        durationMinutes: parseInt(durationMinutes, 10),
+        format,
+        venue: venue.trim() || null,
+      };
+      return session === 'new'
+        ? apiRequest('POST', `/api/cases/${caseData.id}/sessions`, payload)
+        : apiRequest('PATCH', `/api/cases/${caseData.id}/sessions/${(session as MediationSession).id}`, payload);
+    },
+    onSuccess: () => {
+      onSaved();
+      toast({ title: "Success", description: session === 'new' ? "Session added" : "Session updated" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to save session"), variant: "destructive" });
+    },
+  });
+
+  const duration = parseInt(durationMinutes, 10);
+  const formValid = !!title.trim() && !!startsAt && !Number.isNaN(duration) && duration >= 15 && duration <= 1440;
+
+  return (
+    <Dialog open={!!session} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{session === 'new' ? 'Add Session' : 'Edit Session'}</DialogTitle>
+          <DialogDescription>
+            Reminders and tasks due relative to the mediation follow the case's next session.
+            A session already in the calendar is moved with it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="session-title">Title</Label>
+            <Input
+              id="session-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Mediation session, Continuation"
+              data-testid="input-session-title"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="session-starts-at">Date & time</Label>
+              <Input
+                id="session-starts-at"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                data-testid="input-session-starts-at"
+              />
+            </div>
+            <div>
+              <Label htmlFor="session-duration">Duration (minutes)</Label>
+              <Input
+                id="session-duration"
+                type="number"
+                min={15}
+                max={1440}
+                step={15}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(e.target.value)}
+                data-testid="input-session-duration"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="session-format">Type</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as SessionFormat)}>
+                <SelectTrigger id="session-format" data-testid="select-session-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sessionFormats.map((value) => (
+                    <SelectItem key={value} value={value}>{sessionFormatLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="session-venue">Venue</Label>
+              <Input
+                id="session-venue"
+                value={venue}
+                onChange={(e) => setVenue(e.target.value)}
+                placeholder={format === 'in_person' ? 'Address or room' : 'Optional'}
+                data-testid="input-session-venue"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Times are in your local timezone.</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!formValid || saveMutation.isPending}
+            data-testid="button-save-session"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Session'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import type { MyTask } from "@shared/schema";
+import { invalidateTasks, taskDueStatus, taskOffsetLabel } from "./CaseTasks";
+import { ClipboardCheck } from "lucide-react";
+
+interface MyTasksProps {
+  onSelectCase: (caseId: string) => void;
+}
+
+// Open tasks assigned to the user across their cases: overdue first, then the next two weeks
+export default function MyTasks({ onSelectCase }: MyTasksProps) {
+  const { toast } = useToast();
+
+  const { data: tasks = [], isLoading } = useQuery<MyTask[]>({ queryKey: ["/api/tasks/mine"] });
+
+  const completeMutation = useMutation({
+    mutationFn: async (task: MyTask) => apiRequest('PATCH', `/api/cases/${task.caseId}/tasks/${task.id}`, { completed: true }),
+    onSuccess: (_, task) => {
+      invalidateTasks(task.caseId);
+      toast({ title: "Success", description: `"${task.title}" marked done` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to update task"), variant: "destructive" });
+    },
+  });
+
+  const now = new Date();
+  const overdue = tasks.filter(task => taskDueStatus(task, now).overdue);
+  const upcoming = tasks.filter(task => !taskDueStatus(task, now).overdue);
+
+  const renderGroup = (title: string, group: MyTask[], testId: string, titleClassName: string) => (
+    <div data-testid={testId}>
+      <p className={`text-xs font-medium uppercase mb-2 ${titleClassName}`}>
+        {title} ({group.length})
+      </p>
+      <div className="space-y-2">
+        {group.map((task) => (
+          <div key={task.id} className="flex items-start gap-3" data-testid={`my-task-${task.id}`}>
+            <Checkbox
+              className="mt-0.5"
+              checked={false}
+              onCheckedChange={() => completeMutation.mutate(task)}
+              disabled={completeMutation.isPending}
+              data-testid={`checkbox-my-task-${task.id}`}
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-foreground">{task.title}</p>
+              <p className="text-xs text-muted-foreground">
+                <button
+                  type="button"
+                  className="font-mono text-primary hover:underline"
+                  onClick={() => onSelectCase(task.caseId)}
+                  data-testid={`link-my-task-case-${task.id}`}
+                >
+                  {task.caseNumber}
+                </button>
+                {' · '}{taskDueStatus(task, now).label}
+                {task.dueOffsetDays !== null && ` (${taskOffsetLabel(task.dueOffsetDays)})`}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="mb-8" data-testid="card-my-tasks">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-4">My Tasks</h3>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading tasks...</p>
+        ) : tasks.length === 0 ? (
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <ClipboardCheck className="w-5 h-5" />
+            Nothing overdue or due in the next two weeks.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderGroup("Overdue", overdue, "list-my-tasks-overdue", "text-destructive")}
+            {renderGroup("Upcoming", upcoming, "list-my-tasks-upcoming", "text-muted-foreground")}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
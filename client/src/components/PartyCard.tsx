@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PartyRepresentative, PartyRepresentativeKind, PartyWithRepresentatives } from "@shared/schema";
+import { ArrowDown, ArrowUp, BookUser, BookmarkPlus, Edit2, Mail, Phone, Plus, Trash2 } from "lucide-react";
+
+interface PartyCardProps {
+  caseId: string;
+  party: PartyWithRepresentatives;
+  onEdit: (party: PartyWithRepresentatives) => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+}
+
+const emptyRepresentativeForm = {
+  kind: 'legal_rep' as PartyRepresentativeKind,
+  name: '',
+  firm: '',
+  role: '',
+  email: '',
+  phone: '',
+};
+
+export default function PartyCard({ caseId, party, onEdit, onMoveUp, onMoveDown }: PartyCardProps) {
+  const { toast } = useToast();
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showRepresentativeDialog, setShowRepresentativeDialog] = useState(false);
+  const [editingRepresentative, setEditingRepresentative] = useState<PartyRepresentative | null>(null);
+  const [representativeForm, setRepresentativeForm] = useState(emptyRepresentativeForm);
+
+  const partyUrl = `/api/cases/${caseId}/parties/${party.id}`;
+  const legalReps = party.representatives.filter(r => r.kind === 'legal_rep');
+  const supportPersons = party.representatives.filter(r => r.kind === 'support_person');
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.replace(/^\d+: /, '') || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const deletePartyMutation = useMutation({
+    mutationFn: async () => apiRequest('DELETE', partyUrl),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      setShowDeleteDialog(false);
+      toast({ title: "Success", description: "Party deleted successfully" });
+    },
+    onError: onError("Failed to delete party"),
+  });
+
+  const saveRepresentativeMutation = useMutation({
+    mutationFn: async () => {
+      if (editingRepresentative) {
+        return apiRequest('PATCH', `${partyUrl}/representatives/${editingRepresentative.id}`, representativeForm);
+      }
+      return apiRequest('POST', `${partyUrl}/representatives`, representativeForm);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      setShowRepresentativeDialog(false);
+      toast({
+        title: "Success",
+        description: editingRepresentative ? "Representative updated successfully" : "Representative added successfully",
+      });
+    },
+    onError: onError("Failed to save representative"),
+  });
+
+  const deleteRepresentativeMutation = useMutation({
+    mutationFn: async (representativeId: string) =>
+      apiRequest('DELETE', `${partyUrl}/representatives/${representativeId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      toast({ title: "Success", description: "Representative removed successfully" });
+    },
+    onError: onError("Failed to remove representative"),
+  });
+
+  const saveToDirectoryMutation = useMutation({
+    mutationFn: async (representativeId?: string) =>
+      apiRequest('POST', `${partyUrl}/save-to-directory`, { representativeId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/contacts') });
+      toast({ title: "Success", description: "Saved to contacts directory" });
+    },
+    onError: onError("Failed to save to directory"),
+  });
+
+  const renderDirectoryButton = (contactId: string | null, testId: string, representativeId?: string) => (
+    contactId ? (
+      <Button size="sm" variant="ghost" asChild title="View in contacts directory">
+        <Link href={`/contacts/${contactId}`} data-testid={`link-contact-${testId}`}>
+          <BookUser className="w-3 h-3" />
+        </Link>
+      </Button>
+    ) : (
+      <Button
+        size="sm"
+        variant="ghost"
+        title="Save to contacts directory"
+        onClick={() => saveToDirectoryMutation.mutate(representativeId)}
+        disabled={saveToDirectoryMutation.isPending}
+        data-testid={`button-save-contact-${testId}`}
+      >
+        <BookmarkPlus className="w-3 h-3" />
+      </Button>
+    )
+  );
+
+  const openRepresentativeDialog = (representative?: PartyRepresentative, kind: PartyRepresentativeKind = 'legal_rep') => {
+    setEditingRepresentative(representative || null);
+    setRepresentativeForm(representative ? {
+      kind: representative.kind as PartyRepresentativeKind,
+      name: representative.name,
+      firm: representative.firm || '',
+      role: representative.role || '',
+      email: representative.email || '',
+      phone: representative.phone || '',
+    } : { ...emptyRepresentativeForm, kind });
+    setShowRepresentativeDialog(true);
+  };
+
+  const renderRepresentative = (representative: PartyRepresentative) => (
+    <div key={representative.id} className="bg-card rounded-md p-3 border border-border" data-testid={`representative-${representative.id}`}>
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm font-medium text-foreground">{representative.name}</p>
+          {(representative.firm || representative.role) && (
+            <p className="text-xs text-muted-foreground">
+              {[representative.role, representative.firm].filter(Boolean).join(' · ')}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center">
+          {renderDirectoryButton(representative.contactId, representative.id, representative.id)}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => openRepresentativeDialog(representative)}
+            data-testid={`button-edit-representative-${representative.id}`}
+          >
+            <Edit2 className="w-3 h-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => deleteRepresentativeMutation.mutate(representative.id)}
+            disabled={deleteRepresentativeMutation.isPending}
+            data-testid={`button-delete-representative-${representative.id}`}
+          >
+            <Trash2 className="w-3 h-3 text-destructive" />
+          </Button>
+        </div>
+      </div>
+      <div className="mt-2 space-y-1">
+        {representative.email && (
+          <p className="text-xs text-foreground flex items-center">
+            <Mail className="text-muted-foreground mr-2 w-4 h-4" />
+            {representative.email}
+          </p>
+        )}
+        {representative.phone && (
+          <p className="text-xs text-foreground flex items-center">
+            <Phone className="text-muted-foreground mr-2 w-4 h-4" />
+            {representative.phone}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card data-testid={`card-party-${party.id}`}>
+      <CardContent className="p-6">
+        <div className="space-y-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="text-xs font-medium text-muted-foreground uppercase mb-1">Entity Name</p>
+              <p className="text-sm font-semibold text-foreground" data-testid={`text-${party.partyType}-name-${party.id}`}>
+                {party.entityName}
+              </p>
+            </div>
+            <div className="flex items-center">
+              {renderDirectoryButton(party.contactId, party.id)}
+              <Button size="sm" variant="ghost" onClick={onMoveUp} disabled={!onMoveUp} title="Move up" data-testid={`button-move-up-party-${party.id}`}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={onMoveDown} disabled={!onMoveDown} title="Move down" data-testid={`button-move-down-party-${party.id}`}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => onEdit(party)} title="Edit party" data-testid={`button-edit-party-${party.id}`}>
+                <Edit2 className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setShowDeleteDialog(true)} title="Delete party" data-testid={`button-delete-party-${party.id}`}>
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+          {party.primaryContactName && (
+            <div>
+              <p className="text-xs font-medium text-muted-foreground uppercase mb-2">Primary Contact</p>
+              <div className="bg-card rounded-md p-3 border border-border">
+                <p className="text-sm font-medium text-foreground">{party.primaryContactName}</p>
+                {party.primaryContactRole && (
+                  <p className="text-xs text-muted-foreground">{party.primaryContactRole}</p>
+                )}
+                <div className="mt-2 space-y-1">
+                  {party.primaryContactEmail && (
+                    <p className="text-xs text-foreground flex items-center">
+                      <Mail className="text-muted-foreground mr-2 w-4 h-4" />
+                      {party.primaryContactEmail}
+                    </p>
+                  )}
+                  {party.primaryContactPhone && (
+                    <p className="text-xs text-foreground flex items-center">
+                      <Phone className="text-muted-foreground mr-2 w-4 h-4" />
+                      {party.primaryContactPhone}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase">Legal Representatives</p>
+              <Button size="sm" variant="ghost" onClick={() => openRepresentativeDialog(undefined, 'legal_rep')} data-testid={`button-add-legal-rep-${party.id}`}>
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {legalReps.length === 0 ? (
+                <p className="text-xs text-muted-foreground">None recorded</p>
+              ) : legalReps.map(renderRepresentative)}
+            </div>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-medium text-muted-foreground uppercase">Support Persons</p>
+              <Button size="sm" variant="ghost" onClick={() => openRepresentativeDialog(undefined, 'support_person')} data-testid={`button-add-support-person-${party.id}`}>
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {supportPersons.length === 0 ? (
+                <p className="text-xs text-muted-foreground">None recorded</p>
+              ) : supportPersons.map(renderRepresentative)}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete party?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {party.entityName} and its representatives will be removed from this case.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-party">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletePartyMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-party"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={showRepresentativeDialog} onOpenChange={setShowRepresentativeDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRepresentative ? 'Edit Representative' : 'Add Representative'}</DialogTitle>
+            <DialogDescription>
+              Legal representatives and support persons attending for {party.entityName}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={representativeForm.kind}
+                  onValueChange={(value) => setRepresentativeForm({ ...representativeForm, kind: value as PartyRepresentativeKind })}
+                >
+                  <SelectTrigger data-testid="select-representative-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="legal_rep">Legal Representative</SelectItem>
+                    <SelectItem value="support_person">Support Person</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="representativeName">Name *</Label>
+                <Input
+                  id="representativeName"
+                  value={representativeForm.name}
+                  onChange={(e) => setRepresentativeForm({ ...representativeForm, name: e.target.value })}
+                  data-testid="input-representative-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="representativeRole">Role</Label>
+                <Input
+                  id="representativeRole"
+                  value={representativeForm.role}
+                  onChange={(e) => setRepresentativeForm({ ...representativeForm, role: e.target.value })}
+                  placeholder={representativeForm.kind === 'legal_rep' ? 'e.g. Solicitor, Counsel' : 'e.g. Interpreter, Family member'}
+                  data-testid="input-representative-role"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="representativeFirm">Firm / Organisation</Label>
+                <Input
+                  id="representativeFirm"
+                  value={representativeForm.firm}
+                  onChange={(e) => setRepresentativeForm({ ...representativeForm, firm: e.target.value })}
+                  data-testid="input-representative-firm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="representativeEmail">Email</Label>
+                <Input
+                  id="representativeEmail"
+                  type="email"
+                  value={representativeForm.email}
+                  onChange={(e) => setRepresentativeForm({ ...representativeForm, email: e.target.value })}
+                  data-testid="input-representative-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="representativePhone">Phone</Label>
+                <Input
+                  id="representativePhone"
+                  value={representativeForm.phone}
+                  onChange={(e) => setRepresentativeForm({ ...representativeForm, phone: e.target.value })}
+                  data-testid="input-representative-phone"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRepresentativeDialog(false)} data-testid="button-cancel-representative">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveRepresentativeMutation.mutate()}
+              disabled={!representativeForm.name.trim() || saveRepresentativeMutation.isPending}
+              data-testid="button-save-representative"
+            >
+              {saveRepresentativeMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  defaultReminderRules,
+  reminderRecipientLabels,
+  reminderRecipients,
+  type ReminderRecipients,
+  type ReminderRule,
+} from "@shared/schema";
+import { BellRing, Edit2, Plus, Trash2 } from "lucide-react";
+
+const emptyRuleForm = {
+  name: '',
+  daysBefore: '3',
+  recipients: "parties_and_representatives" as ReminderRecipients,
+  subject: defaultReminderRules[0].subject,
+  body: defaultReminderRules[0].body,
+};
+
+const PLACEHOLDERS = ['{recipientName}', '{caseNumber}', '{sessionTitle}', '{mediationDate}', '{mediationTime}', '{sessionDetails}', '{sessionSchedule}', '{zoomLink}', '{premises}', '{mediatorName}'];
+
+const describeTiming = (daysBefore: number) =>
+  daysBefore === 0 ? 'On the day of the mediation' : `${daysBefore} day${daysBefore === 1 ? '' : 's'} before the mediation`;
+
+export default function ReminderSettings() {
+  const { toast } = useToast();
+  const { organization, isAdmin } = useOrganization();
+  const canManage = !organization || isAdmin;
+  const [editing, setEditing] = useState<ReminderRule | 'new' | null>(null);
+  const [ruleForm, setRuleForm] = useState(emptyRuleForm);
+
+  const { data: rules = [], isLoading } = useQuery<ReminderRule[]>({ queryKey: ['/api/reminders/rules'] });
+
+  // Rule changes reschedule reminders on open cases
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/reminders/rules'] });
+    queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === '/api/cases' && query.queryKey[2] === 'reminders' });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({ title: "Error", description: apiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const openEditor = (rule: ReminderRule | 'new') => {
+    setEditing(rule);
+    setRuleForm(rule === 'new' ? emptyRuleForm : {
+      name: rule.name,
+      daysBefore: String(rule.daysBefore),
+      recipients: rule.recipients as ReminderRecipients,
+      subject: rule.subject,
+      body: rule.body,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        name: ruleForm.name.trim(),
+        daysBefore: parseInt(ruleForm.daysBefore, 10),
+        recipients: ruleForm.recipients,
+        subject: ruleForm.subject.trim(),
+        body: ruleForm.body,
+      };
+      return editing === 'new'
+        ? apiRequest('POST', '/api/reminders/rules', payload)
+        : apiRequest('PATCH', `/api/reminders/rules/${(editing as ReminderRule).id}`, payload);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: editing === 'new' ? "Reminder added" : "Reminder updated" });
+      setEditing(null);
+    },
+    onError: onError("Failed to save reminder"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ rule, enabled }: { rule: ReminderRule; enabled: boolean }) =>
+      apiRequest('PATCH', `/api/reminders/rules/${rule.id}`, { enabled }),
+    onSuccess: invalidate,
+    onError: onError("Failed to update reminder"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ruleId: string) => apiRequest('DELETE', `/api/reminders/rules/${ruleId}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Reminder deleted. Reminders already scheduled from it will be skipped." });
+    },
+    onError: onError("Failed to delete reminder"),
+  });
+
+  const addDefaultsMutation = useMutation({
+    mutationFn: async () => {
+      for (const rule of defaultReminderRules) {
+        await apiRequest('POST', '/api/reminders/rules', rule);
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Standard reminders added" });
+    },
+    onError: onError("Failed to add reminders"),
+  });
+
+  const daysBefore = parseInt(ruleForm.daysBefore, 10);
+  const formValid = !!ruleForm.name.trim() && !!ruleForm.subject.trim() && !!ruleForm.body.trim()
+    && !Number.isNaN(daysBefore) && daysBefore >= 0 && daysBefore <= 90;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <BellRing className="w-5 h-5 mr-2" />
+              Automated Reminders
+            </CardTitle>
+            <CardDescription>
+              Emails sent to the parties before each mediation session through the case mediator's Google account.
+              Reminders follow the session when it is rescheduled and can be cancelled on each case.
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={() => openEditor('new')} data-testid="button-add-reminder-rule">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Reminder
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading reminders...</p>
+        ) : rules.length === 0 ? (
+          <div className="text-sm text-muted-foreground space-y-3">
+            <p>No automated reminders. Parties only hear from you when you email them.</p>
+            {canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addDefaultsMutation.mutate()}
+                disabled={addDefaultsMutation.isPending}
+                data-testid="button-add-default-reminders"
+              >
+                Add standard reminders (7 days and 1 day before)
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="divide-y border rounded-md" data-testid="list-reminder-rules">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-3 gap-4" data-testid={`reminder-rule-${rule.id}`}>
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium ${rule.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>{rule.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeTiming(rule.daysBefore)} · {reminderRecipientLabels[rule.recipients as ReminderRecipients] ?? rule.recipients}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{rule.subject}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => toggleMutation.mutate({ rule, enabled })}
+                    disabled={!canManage || toggleMutation.isPending}
+                    data-testid={`switch-reminder-rule-${rule.id}`}
+                  />
+                  {canManage && (
+                    <>
+                      <Button size="sm" variant="ghost" onClick={() => openEditor(rule)} data-testid={`button-edit-reminder-rule-${rule.id}`}>
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(rule.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-reminder-rule-${rule.id}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Reminder' : 'Edit Reminder'}</DialogTitle>
+            <DialogDescription>
+              Each recipient gets their own copy. Placeholders: {PLACEHOLDERS.join(', ')}, plus the party placeholders from email templates.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="reminder-name">Name</Label>
+                <Input
+                  id="reminder-name"
+                  value={ruleForm.name}
+                  onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                  placeholder="e.g. 3 days before"
+                  data-testid="input-reminder-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="reminder-days-before">Days before</Label>
+                <Input
+                  id="reminder-days-before"
+                  type="number"
+                  min={0}
+                  max={90}
+                  value={ruleForm.daysBefore}
+                  onChange={(e) => setRuleForm({ ...ruleForm, daysBefore: e.target.value })}
+                  data-testid="input-reminder-days-before"
+                />
+              </div>
+              <div>
+                <Label htmlFor="reminder-recipients">Send to</Label>
+                <Select
+                  value={ruleForm.recipients}
+                  onValueChange={(recipients) => setRuleForm({ ...ruleForm, recipients: recipients as ReminderRecipients })}
+                >
+                  <SelectTrigger id="reminder-recipients" data-testid="select-reminder-recipients">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reminderRecipients.map((value) => (
+                      <SelectItem key={value} value={value}>{reminderRecipientLabels[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="reminder-subject">Subject</Label>
+              <Input
+                id="reminder-subject"
+                value={ruleForm.subject}
+                onChange={(e) => setRuleForm({ ...ruleForm, subject: e.target.value })}
+                data-testid="input-reminder-subject"
+              />
+            </div>
+            <div>
+              <Label htmlFor="reminder-body">Message</Label>
+              <Textarea
+                id="reminder-body"
+                value={ruleForm.body}
+                onChange={(e) => setRuleForm({ ...ruleForm, body: e.target.value })}
+                rows={10}
+                data-testid="textarea-reminder-body"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!formValid || saveMutation.isPending}
+              data-testid="button-save-reminder-rule"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Reminder'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  caseStatusLabels,
+  outcomeCaseStatuses,
+  type CaseStatus,
+  type DestructionCertificate,
+  type RetentionReviewWithCase,
+  type RetentionRule,
+} from "@shared/schema";
+import { Archive, ClipboardCheck, FileX, Plus, RefreshCw, Trash2 } from "lucide-react";
+
+const ANY = "any";
+
+const emptyRuleForm = {
+  outcomeStatus: ANY,
+  mediationType: '',
+  retentionYears: '7',
+  description: '',
+};
+
+const formatDate = (value: string | Date | null | undefined) =>
+  value ? new Date(value).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+const outcomeLabel = (status: string | null) =>
+  status ? caseStatusLabels[status as CaseStatus] || status : 'Any outcome';
+
+export default function RetentionSettings() {
+  const { toast } = useToast();
+  const { organization, isAdmin } = useOrganization();
+  const canManage = !organization || isAdmin;
+  const [ruleForm, setRuleForm] = useState(emptyRuleForm);
+  const [approving, setApproving] = useState<RetentionReviewWithCase | null>(null);
+  const [deferring, setDeferring] = useState<RetentionReviewWithCase | null>(null);
+  const [deferForm, setDeferForm] = useState({ until: '', note: '' });
+
+  const { data: rules = [] } = useQuery<RetentionRule[]>({ queryKey: ['/api/retention/rules'] });
+  const { data: reviews = [] } = useQuery<RetentionReviewWithCase[]>({ queryKey: ['/api/retention/reviews'] });
+  const { data: certificates = [] } = useQuery<DestructionCertificate[]>({ queryKey: ['/api/retention/certificates'] });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.replace(/^\d+: /, '') || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/retention') });
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/retention/rules', {
+      outcomeStatus: ruleForm.outcomeStatus === ANY ? null : ruleForm.outcomeStatus,
+      mediationType: ruleForm.mediationType.trim() || null,
+      retentionYears: parseInt(ruleForm.retentionYears, 10),
+      description: ruleForm.description.trim() || null,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setRuleForm(emptyRuleForm);
+      toast({ title: "Success", description: "Retention rule added" });
+    },
+    onError: onError("Failed to add retention rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (ruleId: string) => apiRequest('DELETE', `/api/retention/rules/${ruleId}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Retention rule deleted" });
+    },
+    onError: onError("Failed to delete retention rule"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/retention/run');
+      return response.json() as Promise<{ reviewsOpened: number; reviewsReopened: number }>;
+    },
+    onSuccess: ({ reviewsOpened, reviewsReopened }) => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: reviewsOpened || reviewsReopened
+          ? `${reviewsOpened + reviewsReopened} case${reviewsOpened + reviewsReopened === 1 ? '' : 's'} ready for review`
+          : "No cases are past their retention period",
+      });
+    },
+    onError: onError("Failed to run retention check"),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (review: RetentionReviewWithCase) => apiRequest('POST', `/api/retention/reviews/${review.id}/approve`, {}),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
+      setApproving(null);
+      toast({ title: "Success", description: "Case records destroyed and certificate recorded" });
+    },
+    onError: onError("Failed to purge case records"),
+  });
+
+  const deferMutation = useMutation({
+    mutationFn: async (review: RetentionReviewWithCase) => apiRequest('POST', `/api/retention/reviews/${review.id}/defer`, deferForm),
+    onSuccess: () => {
+      invalidate();
+      setDeferring(null);
+      setDeferForm({ until: '', note: '' });
+      toast({ title: "Success", description: "Records will be kept until the new review date" });
+    },
+    onError: onError("Failed to defer review"),
+  });
+
+  const describeRule = (rule: Pick<RetentionRule, 'outcomeStatus' | 'mediationType'>) =>
+    `${outcomeLabel(rule.outcomeStatus)} · ${rule.mediationType || 'Any mediation type'}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Archive className="w-5 h-5 mr-2" />
+            Retention Rules
+          </CardTitle>
+          <CardDescription>
+            How long records of closed cases are kept, counted from the date the case closed. When several rules match a case, the one naming its outcome and mediation type wins.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No retention rules. Closed cases are kept indefinitely.</p>
+          ) : (
+            <div className="divide-y border rounded-md" data-testid="list-retention-rules">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between p-3" data-testid={`retention-rule-${rule.id}`}>
+                  <div>
+                    <p className="text-sm font-medium text-foreground">
+                      {rule.retentionYears} year{rule.retentionYears === 1 ? '' : 's'} · {describeRule(rule)}
+                    </p>
+                    {rule.description && <p className="text-xs text-muted-foreground">{rule.description}</p>}
+                  </div>
+                  {canManage && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteRuleMutation.mutate(rule.id)}
+                      disabled={deleteRuleMutation.isPending}
+                      data-testid={`button-delete-retention-rule-${rule.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canManage && (
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+              <div>
+                <Label>Outcome</Label>
+                <Select value={ruleForm.outcomeStatus} onValueChange={(outcomeStatus) => setRuleForm({ ...ruleForm, outcomeStatus })}>
+                  <SelectTrigger data-testid="select-retention-outcome">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any outcome</SelectItem>
+                    {outcomeCaseStatuses.map((status) => (
+                      <SelectItem key={status} value={status}>{caseStatusLabels[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="retention-mediation-type">Mediation Type</Label>
+                <Input
+                  id="retention-mediation-type"
+                  value={ruleForm.mediationType}
+                  onChange={(e) => setRuleForm({ ...ruleForm, mediationType: e.target.value })}
+                  placeholder="Any"
+                  data-testid="input-retention-mediation-type"
+                />
+              </div>
+              <div>
+                <Label htmlFor="retention-years">Keep for (years)</Label>
+                <Input
+                  id="retention-years"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={ruleForm.retentionYears}
+                  onChange={(e) => setRuleForm({ ...ruleForm, retentionYears: e.target.value })}
+                  data-testid="input-retention-years"
+                />
+              </div>
+              <div>
+                <Label htmlFor="retention-description">Description</Label>
+                <Input
+                  id="retention-description"
+                  value={ruleForm.description}
+                  onChange={(e) => setRuleForm({ ...ruleForm, description: e.target.value })}
+                  placeholder="e.g. Limitation period"
+                  data-testid="input-retention-description"
+                />
+              </div>
+              <Button
+                onClick={() => createRuleMutation.mutate()}
+                disabled={!(parseInt(ruleForm.retentionYears, 10) >= 1) || createRuleMutation.isPending}
+                data-testid="button-add-retention-rule"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Rule
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center">
+                <ClipboardCheck className="w-5 h-5 mr-2" />
+                Awaiting Review
+              </CardTitle>
+              <CardDescription>
+                Closed cases past their retention period. Nothing is destroyed until an admin approves it.
+              </CardDescription>
+            </div>
+            {canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runMutation.mutate()}
+                disabled={runMutation.isPending}
+                data-testid="button-run-retention"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                {runMutation.isPending ? 'Checking...' : 'Check Now'}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {reviews.length === 0 ? (
+            <p className="text-sm text-muted-foreground px-6 pb-6">No cases are awaiting review.</p>
+          ) : (
+            <div className="divide-y" data-testid="list-retention-reviews">
+              {reviews.map((review) => (
+                <div key={review.id} className="flex items-center justify-between p-4" data-testid={`retention-review-${review.id}`}>
+                  <div>
+                    <p className="text-sm font-medium text-foreground">
+                      <span className="font-mono">{review.caseNumber}</span>
+                      {review.status === 'deferred' && (
+                        <Badge variant="outline" className="ml-2">Deferred until {formatDate(review.deferredUntil)}</Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Closed {formatDate(review.closedAt)} · Due {formatDate(review.dueAt)}
+                      {review.retentionYears ? ` · ${review.retentionYears}-year rule` : ''}
+                    </p>
+                    {review.status === 'deferred' && review.note && (
+                      <p className="text-xs text-muted-foreground mt-1">{review.note}</p>
+                    )}
+                  </div>
+                  {canManage && review.status === 'pending' && (
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setDeferring(review)} data-testid={`button-defer-review-${review.id}`}>
+                        Keep Longer
+                      </Button>
+                      <Button size="sm" variant="destructive" onClick={() => setApproving(review)} data-testid={`button-approve-review-${review.id}`}>
+                        Approve Destruction
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileX className="w-5 h-5 mr-2" />
+            Destruction Certificates
+          </CardTitle>
+          <CardDescription>Permanent record of case files destroyed under the retention policy.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {certificates.length === 0 ? (
+            <p className="text-sm text-muted-foreground px-6 pb-6">No records have been destroyed.</p>
+          ) : (
+            <div className="divide-y" data-testid="list-destruction-certificates">
+              {certificates.map((certificate) => (
+                <div key={certificate.id} className="p-4 space-y-1" data-testid={`destruction-certificate-${certificate.id}`}>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-foreground font-mono">{certificate.caseNumber}</p>
+                    <p className="text-xs text-muted-foreground">Destroyed {formatDate(certificate.destroyedAt)}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {outcomeLabel(certificate.outcomeStatus)} · Closed {formatDate(certificate.closedAt)}
+                    {certificate.retentionYears ? ` · Kept ${certificate.retentionYears} year${certificate.retentionYears === 1 ? '' : 's'}` : ''}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {certificate.summary.parties.length} part{certificate.summary.parties.length === 1 ? 'y' : 'ies'}, {certificate.summary.documents.length} document{certificate.summary.documents.length === 1 ? '' : 's'} ({certificate.summary.filesDeleted} stored file{certificate.summary.filesDeleted === 1 ? '' : 's'}), {certificate.summary.notes} note{certificate.summary.notes === 1 ? '' : 's'}, {certificate.summary.aiAnalyses} AI analys{certificate.summary.aiAnalyses === 1 ? 'is' : 'es'}
+                  </p>
+                  {certificate.note && <p className="text-xs text-muted-foreground">{certificate.note}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!approving} onOpenChange={(open) => !open && setApproving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Destroy case records?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {approving?.caseNumber} and all of its parties, notes, AI analyses, documents and stored files will be permanently deleted. A destruction certificate will be kept. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => approving && approveMutation.mutate(approving)}
+              disabled={approveMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-approve-review"
+            >
+              {approveMutation.isPending ? 'Destroying...' : 'Destroy Records'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!deferring} onOpenChange={(open) => !open && setDeferring(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Keep {deferring?.caseNumber} longer</DialogTitle>
+            <DialogDescription>The case comes back for review on the date you choose.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="defer-until">Review again on</Label>
+              <Input
+                id="defer-until"
+                type="date"
+                value={deferForm.until}
+                onChange={(e) => setDeferForm({ ...deferForm, until: e.target.value })}
+                data-testid="input-defer-until"
+              />
+            </div>
+            <div>
+              <Label htmlFor="defer-note">Reason</Label>
+              <Textarea
+                id="defer-note"
+                value={deferForm.note}
+                onChange={(e) => setDeferForm({ ...deferForm, note: e.target.value })}
+                placeholder="e.g. Related proceedings still on foot"
+                data-testid="input-defer-note"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeferring(null)}>Cancel</Button>
+            <Button
+              onClick={() => deferring && deferMutation.mutate(deferring)}
+              disabled={!deferForm.until || !deferForm.note.trim() || deferMutation.isPending}
+              data-testid="button-confirm-defer-review"
+            >
+              {deferMutation.isPending ? 'Saving...' : 'Defer Review'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
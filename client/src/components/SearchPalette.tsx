@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  type SearchResponse,
+  type SearchResult,
+  type SearchResultType,
+} from "@shared/schema";
+import { Bot, FileText, Folder, Search, StickyNote, Users } from "lucide-react";
+
+const GROUP_LABELS: Record<SearchResultType, string> = {
+  case: "Cases",
+  party: "Parties",
+  document: "Documents",
+  note: "Notes",
+  analysis: "AI Analyses",
+};
+
+const GROUP_ICONS: Record<SearchResultType, typeof Folder> = {
+  case: Folder,
+  party: Users,
+  document: FileText,
+  note: StickyNote,
+  analysis: Bot,
+};
+
+// CaseDetail tab that shows each kind of result
+const RESULT_TABS: Record<SearchResultType, string> = {
+  case: "overview",
+  party: "parties",
+  document: "documents",
+  note: "notes",
+  analysis: "ai",
+};
+
+const highlightPattern = new RegExp(`${SEARCH_HIGHLIGHT_START}(.*?)${SEARCH_HIGHLIGHT_END}`, "g");
+
+function Highlight({ text }: { text: string }) {
+  const parts = text.split(highlightPattern);
+  return (
+    <>
+      {parts.map((part, index) =>
+        // split() puts the captured (matched) text at odd indexes
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">{part}</mark>
+          : <span key={index}>{part}</span>
+      )}
+    </>
+  );
+}
+
+export default function SearchPalette() {
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: open && debouncedQuery.length >= 2,
+    staleTime: 30 * 1000,
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) setQuery('');
+  };
+
+  const selectResult = (result: SearchResult) => {
+    handleOpenChange(false);
+    setLocation(`/cases/${result.caseId}?tab=${RESULT_TABS[result.type]}`);
+  };
+
+  const groups = debouncedQuery.length >= 2 ? data?.groups ?? [] : [];
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="w-full flex items-center space-x-3 px-4 py-2 rounded-md border border-border text-sm text-muted-foreground hover:bg-accent transition-colors"
+        data-testid="button-open-search"
+      >
+        <Search className="w-4 h-4" />
+        <span className="flex-1 text-left">Search...</span>
+        <kbd className="text-xs bg-muted px-1.5 py-0.5 rounded">Ctrl K</kbd>
+      </button>
+
+      <CommandDialog open={open} onOpenChange={handleOpenChange} commandProps={{ shouldFilter: false }}>
+        <CommandInput
+          value={query}
+          onValueChange={setQuery}
+          placeholder="Search cases, parties, documents and notes..."
+          data-testid="input-global-search"
+        />
+        <CommandList className="max-h-[420px]">
+          {debouncedQuery.length >= 2 && !isFetching && (
+            <CommandEmpty>No results for "{debouncedQuery}"</CommandEmpty>
+          )}
+          {groups.map((group) => {
+            const Icon = GROUP_ICONS[group.type];
+            return (
+              <CommandGroup key={group.type} heading={GROUP_LABELS[group.type]}>
+                {group.results.map((result) => (
+                  <CommandItem
+                    key={`${result.type}-${result.id}`}
+                    value={`${result.type}-${result.id}`}
+                    onSelect={() => selectResult(result)}
+                    className="items-start"
+                    data-testid={`search-result-${result.type}-${result.id}`}
+                  >
+                    <Icon className="mr-2 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {result.title}
+                        {result.type !== 'case' && (
+                          <span className="ml-2 text-xs font-mono text-muted-foreground">{result.caseNumber}</span>
+                        )}
+                      </p>
+                      {result.highlight && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">
+                          <Highlight text={result.highlight} />
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
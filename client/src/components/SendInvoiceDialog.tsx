@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/utils";
+import type { Invoice } from "@shared/schema";
+import { Send } from "lucide-react";
+
+interface SendInvoiceDialogProps {
+  invoice: Invoice | null;
+  onClose: () => void;
+  onSent: (invoice: Invoice) => void;
+}
+
+// Emails the invoice PDF through the lead mediator's Gmail account
+export default function SendInvoiceDialog({ invoice, onClose, onSent }: SendInvoiceDialogProps) {
+  const { toast } = useToast();
+  const [to, setTo] = useState('');
+  const [subject, setSubject] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!invoice) return;
+    setTo(invoice.sentTo ?? invoice.recipientEmail ?? '');
+    setSubject('');
+    setMessage('');
+  }, [invoice]);
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/cases/${invoice!.caseId}/invoices/${invoice!.id}/send`, {
+        to: to.trim(),
+        subject: subject.trim() || undefined,
+        message: message.trim() || undefined,
+      });
+      return response.json() as Promise<Invoice>;
+    },
+    onSuccess: (sent) => {
+      toast({ title: "Success", description: `Invoice ${sent.invoiceNumber} sent to ${sent.sentTo}` });
+      onSent(sent);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to send invoice"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send Invoice {invoice?.invoiceNumber}</DialogTitle>
+          <DialogDescription>
+            {invoice && `${formatMoney(invoice.total, invoice.currency)} to ${invoice.recipientName}. `}
+            The PDF is attached and the case mediators are copied in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="invoice-send-to">To</Label>
+            <Input
+              id="invoice-send-to"
+              type="email"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-invoice-send-to"
+            />
+          </div>
+          <div>
+            <Label htmlFor="invoice-send-subject">Subject</Label>
+            <Input
+              id="invoice-send-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder={invoice ? `Invoice ${invoice.invoiceNumber}` : ''}
+              data-testid="input-invoice-send-subject"
+            />
+          </div>
+          <div>
+            <Label htmlFor="invoice-send-message">Message</Label>
+            <Textarea
+              id="invoice-send-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={6}
+              placeholder="Leave blank to send the standard message with the amount, due date and payment details"
+              data-testid="textarea-invoice-send-message"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => sendMutation.mutate()}
+            disabled={!to.trim() || sendMutation.isPending}
+            data-testid="button-confirm-send-invoice"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {sendMutation.isPending ? 'Sending...' : 'Send'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
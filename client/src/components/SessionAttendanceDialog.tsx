@@ -0,0 +1,384 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  attendedSessionWindow,
+  attendeeRoleLabels,
+  expectedSessionAttendees,
+  isExpectedAttendee,
+  sessionEndsAt,
+  type AttendeeRole,
+  type InsertSessionAttendee,
+  type MediationSession,
+  type PartyWithRepresentatives,
+  type SessionAttendee,
+  type UpdateSessionAttendee,
+} from "@shared/schema";
+import { Download, LogIn, LogOut, Plus, Trash2 } from "lucide-react";
+
+interface SessionAttendanceDialogProps {
+  caseId: string;
+  parties: PartyWithRepresentatives[];
+  session: MediationSession | null;
+  onClose: () => void;
+}
+
+// Each expected attendee has a row whether or not they have been checked in yet
+interface RegisterRow {
+  key: string;
+  expected?: InsertSessionAttendee;
+  attendee?: SessionAttendee;
+}
+
+const ADDED_ROLES: AttendeeRole[] = ["interpreter", "support_person", "other"];
+const NO_PARTY = "none";
+const STAMP_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+const toTimeInput = (value: string | Date) => {
+  const date = new Date(value);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+const formatTime = (value: Date) => value.toLocaleTimeString('en-AU', { hour: '2-digit', minute: '2-digit' });
+
+// An HH:MM time on the session's day
+const atTime = (session: MediationSession, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(session.startsAt);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+// Check-ins on the day take the current time; when filling in the register afterwards they take the
+// scheduled time, which can then be corrected
+const stampTime = (scheduled: Date) => {
+  const now = new Date();
+  return Math.abs(now.getTime() - scheduled.getTime()) < STAMP_WINDOW_MS ? now : scheduled;
+};
+
+// A time that is saved when the field loses focus rather than on every keystroke
+function TimeField({ value, session, onCommit, testId }: {
+  value: string | Date | null;
+  session: MediationSession;
+  onCommit: (value: Date | null) => void;
+  testId: string;
+}) {
+  const initial = value ? toTimeInput(value) : '';
+  const [text, setText] = useState(initial);
+  useEffect(() => setText(initial), [initial]);
+
+  return (
+    <Input
+      type="time"
+      className="h-8 w-28"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => text !== initial && onCommit(text ? atTime(session, text) : null)}
+      data-testid={testId}
+    />
+  );
+}
+
+// Attendance register for one session: who came, when they arrived and left, and who could settle
+export default function SessionAttendanceDialog({ caseId, parties, session, onClose }: SessionAttendanceDialogProps) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [newRole, setNewRole] = useState<AttendeeRole>("interpreter");
+  const [newPartyId, setNewPartyId] = useState(NO_PARTY);
+  const [newNotes, setNewNotes] = useState('');
+
+  const attendanceKey = ["/api/cases", caseId, "sessions", session?.id, "attendance"];
+  const { data: attendees = [], isLoading } = useQuery<SessionAttendee[]>({
+    queryKey: attendanceKey,
+    enabled: !!session,
+  });
+
+  useEffect(() => {
+    setNewName('');
+    setNewRole("interpreter");
+    setNewPartyId(NO_PARTY);
+    setNewNotes('');
+  }, [session?.id]);
+
+  // Attendance feeds the suggested billing entries and the outcome's session duration
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: attendanceKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "attendance"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "time-suggestions"] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({ title: "Error", description: apiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (attendee: InsertSessionAttendee) =>
+      apiRequest('POST', `/api/cases/${caseId}/sessions/${session!.id}/attendance`, attendee),
+    onSuccess: invalidate,
+    onError: onError("Failed to check in"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ attendee, changes }: { attendee: SessionAttendee; changes: UpdateSessionAttendee }) =>
+      apiRequest('PATCH', `/api/cases/${caseId}/sessions/${session!.id}/attendance/${attendee.id}`, changes),
+    onSuccess: invalidate,
+    onError: onError("Failed to update attendance"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (attendee: SessionAttendee) =>
+      apiRequest('DELETE', `/api/cases/${caseId}/sessions/${session!.id}/attendance/${attendee.id}`),
+    onSuccess: invalidate,
+    onError: onError("Failed to remove attendee"),
+  });
+
+  const zoomImportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/cases/${caseId}/sessions/${session!.id}/attendance/zoom-import`);
+      return response.json() as Promise<{ added: number; updated: number }>;
+    },
+    onSuccess: ({ added, updated }) => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: added + updated === 0
+          ? "The register already matches the Zoom report"
+          : `Imported from Zoom: ${added} added, ${updated} updated`,
+      });
+    },
+    onError: onError("Failed to import attendance from Zoom"),
+  });
+
+  if (!session) return null;
+
+  const start = new Date(session.startsAt);
+  const expected = expectedSessionAttendees(parties);
+  const rows: RegisterRow[] = [
+    ...expected.map((each, index) => ({
+      key: `expected-${index}`,
+      expected: each,
+      attendee: attendees.find(attendee => isExpectedAttendee(attendee, each)),
+    })),
+    ...attendees
+      .filter(attendee => !expected.some(each => isExpectedAttendee(attendee, each)))
+      .map(attendee => ({ key: attendee.id, attendee })),
+  ];
+  const present = attendees.filter(attendee => attendee.arrivedAt && !attendee.leftAt).length;
+  const attended = attendedSessionWindow(session, attendees);
+  const busy = addMutation.isPending || updateMutation.isPending || removeMutation.isPending;
+  const partyName = (partyId: string | null | undefined) => parties.find(party => party.id === partyId)?.entityName;
+
+  const addAttendee = () => {
+    addMutation.mutate({
+      name: newName.trim(),
+      role: newRole,
+      partyId: newPartyId === NO_PARTY ? null : newPartyId,
+      notes: newNotes.trim() || null,
+      arrivedAt: stampTime(start),
+      authorityToSettle: false,
+    }, {
+      onSuccess: () => {
+        setNewName('');
+        setNewNotes('');
+      },
+    });
+  };
+
+  const renderRow = ({ key, expected: expectedAttendee, attendee }: RegisterRow) => {
+    const role = (attendee?.role ?? expectedAttendee!.role) as AttendeeRole;
+    const name = attendee?.name ?? expectedAttendee!.name;
+    const forParty = partyName(attendee?.partyId ?? expectedAttendee?.partyId);
+    const canSettle = role === "party" || role === "representative";
+    const testId = attendee?.id ?? key;
+
+    return (
+      <div key={key} className="flex flex-wrap items-center justify-between gap-2 py-2" data-testid={`attendee-${testId}`}>
+        <div className="min-w-0">
+          <p className={`text-sm font-medium ${attendee?.arrivedAt ? 'text-foreground' : 'text-muted-foreground'}`}>
+            {name}
+            {attendee?.source === 'zoom' && <Badge variant="outline" className="ml-2 text-xs">Zoom</Badge>}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {attendeeRoleLabels[role] ?? role}
+            {forParty && ` · ${forParty}`}
+            {attendee?.notes && ` · ${attendee.notes}`}
+          </p>
+        </div>
+        {!attendee ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => addMutation.mutate({ ...expectedAttendee!, arrivedAt: stampTime(start) })}
+            disabled={busy}
+            data-testid={`button-check-in-${testId}`}
+          >
+            <LogIn className="w-3 h-3 mr-1" />
+            Check in
+          </Button>
+        ) : (
+          <div className="flex items-center gap-2">
+            <TimeField
+              value={attendee.arrivedAt}
+              session={session}
+              onCommit={(arrivedAt) => updateMutation.mutate({ attendee, changes: { arrivedAt } })}
+              testId={`input-arrived-${testId}`}
+            />
+            {attendee.arrivedAt && !attendee.leftAt ? (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 w-28"
+                onClick={() => updateMutation.mutate({ attendee, changes: { leftAt: stampTime(sessionEndsAt(session)) } })}
+                disabled={busy}
+                data-testid={`button-check-out-${testId}`}
+              >
+                <LogOut className="w-3 h-3 mr-1" />
+                Left
+              </Button>
+            ) : (
+              <TimeField
+                value={attendee.leftAt}
+                session={session}
+                onCommit={(leftAt) => updateMutation.mutate({ attendee, changes: { leftAt } })}
+                testId={`input-left-${testId}`}
+              />
+            )}
+            <div className="flex items-center gap-1 w-24" title="Authority to settle">
+              {canSettle && (
+                <>
+                  <Switch
+                    checked={attendee.authorityToSettle}
+                    onCheckedChange={(authorityToSettle) => updateMutation.mutate({ attendee, changes: { authorityToSettle } })}
+                    disabled={busy}
+                    data-testid={`switch-authority-${testId}`}
+                  />
+                  <span className="text-xs text-muted-foreground">Authority</span>
+                </>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 w-8 p-0"
+              onClick={() => removeMutation.mutate(attendee)}
+              disabled={busy}
+              data-testid={`button-remove-attendee-${testId}`}
+            >
+              <Trash2 className="w-3 h-3 text-destructive" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={!!session} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Attendance: {session.title}</DialogTitle>
+          <DialogDescription>
+            {start.toLocaleDateString('en-AU', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}.
+            {' '}The register appears in the case brief and suggests a billing entry for the session.
+          </DialogDescription>
+        </DialogHeader>
+
+        <p className="text-xs text-muted-foreground" data-testid="text-attendance-summary">
+          {attended
+            ? `${present} present · ${formatTime(attended.start)} – ${formatTime(attended.end)} (${attended.minutes} min)`
+            : 'No one checked in yet'}
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading attendance...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add parties to the case, or add attendees below.</p>
+        ) : (
+          <div className="divide-y" data-testid="list-session-attendees">
+            {rows.map(renderRow)}
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-2">
+          <Label>Add interpreter, support person or other attendee</Label>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name"
+              data-testid="input-attendee-name"
+            />
+            <Select value={newRole} onValueChange={(value) => setNewRole(value as AttendeeRole)}>
+              <SelectTrigger data-testid="select-attendee-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADDED_ROLES.map((value) => (
+                  <SelectItem key={value} value={value}>{attendeeRoleLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newPartyId} onValueChange={setNewPartyId}>
+              <SelectTrigger data-testid="select-attendee-party">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARTY}>No party</SelectItem>
+                {parties.map((party) => (
+                  <SelectItem key={party.id} value={party.id}>{party.entityName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={newNotes}
+              onChange={(e) => setNewNotes(e.target.value)}
+              placeholder={newRole === 'interpreter' ? 'Language' : 'Notes'}
+              data-testid="input-attendee-notes"
+            />
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={addAttendee}
+            disabled={!newName.trim() || busy}
+            data-testid="button-add-attendee"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add & check in
+          </Button>
+        </div>
+
+        <DialogFooter>
+          {session.zoomMeetingId && start <= new Date() && (
+            <Button
+              variant="outline"
+              onClick={() => zoomImportMutation.mutate()}
+              disabled={zoomImportMutation.isPending}
+              data-testid="button-import-zoom-attendance"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {zoomImportMutation.isPending ? 'Importing...' : 'Import from Zoom'}
+            </Button>
+          )}
+          <Button onClick={onClose} data-testid="button-close-attendance">Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import type { Document, SettlementTemplate } from "@shared/schema";
+import { Download, FileSignature } from "lucide-react";
+
+interface SettlementDraftProps {
+  caseId: string;
+}
+
+const downloadUrl = (objectPath: string) => objectPath.startsWith('/objects/') ? objectPath : `/objects/${objectPath}`;
+
+// Drafts the settlement agreement from a practice template and the recorded outcome; every draft is kept
+// in the case documents as the next version
+export default function SettlementDraft({ caseId }: SettlementDraftProps) {
+  const { toast } = useToast();
+  const [templateId, setTemplateId] = useState('');
+  const [additionalTerms, setAdditionalTerms] = useState('');
+
+  const { data: templates = [], isLoading } = useQuery<SettlementTemplate[]>({ queryKey: ['/api/settlement-templates'] });
+  const { data: documents = [] } = useQuery<Document[]>({ queryKey: ["/api/cases", caseId, "documents"] });
+
+  const selectedTemplateId = templateId || templates[0]?.id || '';
+  const drafts = documents
+    .filter(document => document.version !== null && !!document.objectPath)
+    .sort((a, b) => (b.version ?? 0) - (a.version ?? 0) || a.originalName.localeCompare(b.originalName));
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/cases/${caseId}/settlement`, {
+        templateId: selectedTemplateId,
+        additionalTerms: additionalTerms.trim() || null,
+      });
+      return response.json() as Promise<{ version: number; documents: Document[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId] });
+      toast({ title: "Success", description: `Version ${result.version} saved to the case documents` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to draft settlement agreement"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-3">
+        <h3 className="text-lg font-semibold text-foreground">Settlement Agreement</h3>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add a settlement template under Settings, Templates to draft the agreement.</p>
+        ) : (
+          <>
+            <div>
+              <Label htmlFor="settlement-template">Template</Label>
+              <Select value={selectedTemplateId} onValueChange={setTemplateId}>
+                <SelectTrigger id="settlement-template" data-testid="select-settlement-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="settlement-additional-terms">Additional terms</Label>
+              <Textarea
+                id="settlement-additional-terms"
+                value={additionalTerms}
+                onChange={(e) => setAdditionalTerms(e.target.value)}
+                placeholder="Clauses agreed on the day beyond the recorded outcome, separated by a blank line"
+                rows={4}
+                data-testid="textarea-settlement-additional-terms"
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => generateMutation.mutate()}
+              disabled={!selectedTemplateId || generateMutation.isPending}
+              data-testid="button-generate-settlement"
+            >
+              <FileSignature className="w-4 h-4 mr-2" />
+              {generateMutation.isPending ? 'Drafting...' : 'Draft Agreement'}
+            </Button>
+          </>
+        )}
+
+        {drafts.length > 0 && (
+          <div className="space-y-1 pt-2 border-t" data-testid="list-settlement-drafts">
+            {drafts.map((document) => (
+              <a
+                key={document.id}
+                href={downloadUrl(document.objectPath!)}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-2 text-sm text-primary hover:underline"
+                data-testid={`link-settlement-draft-${document.id}`}
+              >
+                <Download className="w-4 h-4 shrink-0" />
+                <span className="truncate">{document.originalName}</span>
+              </a>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
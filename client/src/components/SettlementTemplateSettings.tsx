@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { defaultSettlementTemplate, settlementPlaceholders, type SettlementTemplate } from "@shared/schema";
+import { Edit2, FileSignature, Plus, Trash2 } from "lucide-react";
+
+const emptyTemplateForm = { name: '', title: defaultSettlementTemplate.title, body: defaultSettlementTemplate.body };
+
+const CASE_PLACEHOLDERS = ['{caseNumber}', '{mediatorName}', '{mediationType}', '{mediationDate}', '{premises}', '{disputeType}', '{disputeAmount}', '{applicant_1_name}', '{applicant_1_lawyer}', '{respondent_1_name}', '{respondent_1_lawyer}'];
+
+export default function SettlementTemplateSettings() {
+  const { toast } = useToast();
+  const { organization, isAdmin } = useOrganization();
+  const canManage = !organization || isAdmin;
+  const [editing, setEditing] = useState<SettlementTemplate | 'new' | null>(null);
+  const [templateForm, setTemplateForm] = useState(emptyTemplateForm);
+
+  const { data: templates = [], isLoading } = useQuery<SettlementTemplate[]>({ queryKey: ['/api/settlement-templates'] });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['/api/settlement-templates'] });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({ title: "Error", description: apiErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const openEditor = (template: SettlementTemplate | 'new') => {
+    setEditing(template);
+    setTemplateForm(template === 'new' ? emptyTemplateForm : { name: template.name, title: template.title, body: template.body });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { name: templateForm.name.trim(), title: templateForm.title.trim(), body: templateForm.body };
+      return editing === 'new'
+        ? apiRequest('POST', '/api/settlement-templates', payload)
+        : apiRequest('PATCH', `/api/settlement-templates/${(editing as SettlementTemplate).id}`, payload);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: editing === 'new' ? "Settlement template added" : "Settlement template updated" });
+      setEditing(null);
+    },
+    onError: onError("Failed to save settlement template"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: string) => apiRequest('DELETE', `/api/settlement-templates/${templateId}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Settlement template deleted. Agreements already drafted from it are kept." });
+    },
+    onError: onError("Failed to delete settlement template"),
+  });
+
+  const addDefaultMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/settlement-templates', defaultSettlementTemplate),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Success", description: "Standard settlement template added" });
+    },
+    onError: onError("Failed to add settlement template"),
+  });
+
+  const formValid = !!templateForm.name.trim() && !!templateForm.title.trim() && !!templateForm.body.trim();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <FileSignature className="w-5 h-5 mr-2" />
+              Settlement Agreements
+            </CardTitle>
+            <CardDescription>
+              Templates for drafting settlement agreements from a case's recorded outcome. Each draft is saved to the
+              case documents as a numbered version in Word and PDF.
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" onClick={() => openEditor('new')} data-testid="button-add-settlement-template">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Template
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading settlement templates...</p>
+        ) : templates.length === 0 ? (
+          <div className="text-sm text-muted-foreground space-y-3">
+            <p>No settlement templates yet.</p>
+            {canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addDefaultMutation.mutate()}
+                disabled={addDefaultMutation.isPending}
+                data-testid="button-add-default-settlement-template"
+              >
+                Add standard template ({defaultSettlementTemplate.name})
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="divide-y border rounded-md" data-testid="list-settlement-templates">
+            {templates.map((template) => (
+              <div key={template.id} className="flex items-center justify-between p-3 gap-4" data-testid={`settlement-template-${template.id}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">{template.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{template.title}</p>
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => openEditor(template)} data-testid={`button-edit-settlement-template-${template.id}`}>
+                      <Edit2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(template.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-settlement-template-${template.id}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Settlement Template' : 'Edit Settlement Template'}</DialogTitle>
+            <DialogDescription>
+              Start a line with "# " for a section heading. Placeholders: {CASE_PLACEHOLDERS.join(', ')} and the other
+              email template placeholders, plus the recorded terms: {settlementPlaceholders.join(', ')}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="settlement-template-name">Name</Label>
+                <Input
+                  id="settlement-template-name"
+                  value={templateForm.name}
+                  onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+                  placeholder="e.g. Terms of Settlement"
+                  data-testid="input-settlement-template-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="settlement-template-title">Document title</Label>
+                <Input
+                  id="settlement-template-title"
+                  value={templateForm.title}
+                  onChange={(e) => setTemplateForm({ ...templateForm, title: e.target.value })}
+                  data-testid="input-settlement-template-title"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="settlement-template-body">Agreement</Label>
+              <Textarea
+                id="settlement-template-body"
+                value={templateForm.body}
+                onChange={(e) => setTemplateForm({ ...templateForm, body: e.target.value })}
+                rows={16}
+                className="font-mono text-sm"
+                data-testid="textarea-settlement-template-body"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!formValid || saveMutation.isPending}
+              data-testid="button-save-settlement-template"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,393 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useOrganization } from "@/hooks/useOrganization";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { organizationRoles, type OrganizationRole, type ReceivedInvitation } from "@shared/schema";
+import { Building2, Mail, Plus, Trash2, Users, X } from "lucide-react";
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: "Admin",
+  mediator: "Mediator",
+  case_manager: "Case Manager",
+  read_only: "Read-only",
+};
+
+const emptyMemberForm = {
+  email: '',
+  role: 'mediator' as OrganizationRole,
+  username: '',
+  password: '',
+  firstName: '',
+  lastName: '',
+};
+
+export default function TeamManagement() {
+  const { toast } = useToast();
+  const { organization, membership, members, invitations, isLoading, isAdmin } = useOrganization();
+  const [organizationName, setOrganizationName] = useState('');
+  const [memberForm, setMemberForm] = useState(emptyMemberForm);
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message.replace(/^\d+: /, '') || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const { data: receivedInvitations = [] } = useQuery<ReceivedInvitation[]>({
+    queryKey: ['/api/organization/invitations'],
+    enabled: !isLoading && !organization,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/organization'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/cases'] });
+  };
+
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (name: string) => apiRequest('POST', '/api/organization', { name }),
+    onSuccess: () => {
+      invalidate();
+      setOrganizationName('');
+      toast({ title: "Organization Created", description: "You are now the admin of your practice." });
+    },
+    onError: onError("Failed to create organization"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (data: typeof emptyMemberForm) => {
+      // Only send account fields when creating a new local account
+      const payload = {
+        email: data.email,
+        role: data.role,
+        username: data.username || undefined,
+        password: data.password || undefined,
+        firstName: data.firstName || undefined,
+        lastName: data.lastName || undefined,
+      };
+      return apiRequest('POST', '/api/organization/members', payload);
+    },
+    onSuccess: (response) => {
+      invalidate();
+      setMemberForm(emptyMemberForm);
+      // Existing accounts are invited rather than added
+      toast(response.status === 202
+        ? { title: "Invitation Sent", description: "They join the practice once they accept the invitation in their Settings." }
+        : { title: "Team Member Added", description: "The new member can now access the practice's cases." });
+    },
+    onError: onError("Failed to add team member"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: OrganizationRole }) =>
+      apiRequest('PATCH', `/api/organization/members/${memberId}`, { role }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Role Updated", description: "The team member's role has been changed." });
+    },
+    onError: onError("Failed to update role"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (memberId: string) => apiRequest('DELETE', `/api/organization/members/${memberId}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Team Member Removed", description: "The member no longer has access to the practice." });
+    },
+    onError: onError("Failed to remove team member"),
+  });
+
+  const acceptInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => apiRequest('POST', `/api/organization/invitations/${invitationId}/accept`),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/organization/invitations'] });
+      toast({ title: "Invitation Accepted", description: "You are now a member of the practice." });
+    },
+    onError: onError("Failed to accept invitation"),
+  });
+
+  const removeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: string) => apiRequest('DELETE', `/api/organization/invitations/${invitationId}`),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['/api/organization/invitations'] });
+    },
+    onError: onError("Failed to remove invitation"),
+  });
+
+  if (isLoading) {
+    return <div className="h-32 bg-muted animate-pulse rounded-md"></div>;
+  }
+
+  if (!organization) {
+    return (
+      <div className="space-y-6">
+        {receivedInvitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Mail className="w-5 h-5 mr-2" />
+                Invitations
+              </CardTitle>
+              <CardDescription>
+                Joining a practice lets its admins and case managers see and manage the cases you mediate.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="divide-y" data-testid="list-received-invitations">
+                {receivedInvitations.map((invitation) => (
+                  <div key={invitation.id} className="flex items-center justify-between p-4" data-testid={`invitation-${invitation.id}`}>
+                    <div>
+                      <p className="text-sm font-medium text-foreground">{invitation.organizationName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        As {ROLE_LABELS[invitation.role as OrganizationRole] || invitation.role}
+                        {invitation.invitedByName && `, invited by ${invitation.invitedByName}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => acceptInvitationMutation.mutate(invitation.id)}
+                        disabled={acceptInvitationMutation.isPending}
+                        data-testid={`button-accept-invitation-${invitation.id}`}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => removeInvitationMutation.mutate(invitation.id)}
+                        disabled={removeInvitationMutation.isPending}
+                        data-testid={`button-decline-invitation-${invitation.id}`}
+                      >
+                        Decline
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Building2 className="w-5 h-5 mr-2" />
+              Create Your Practice
+            </CardTitle>
+            <CardDescription>
+              Set up an organization to share cases with other mediators and case managers in your practice.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-3 max-w-lg">
+              <div className="flex-1">
+                <Label htmlFor="organization-name">Practice Name</Label>
+                <Input
+                  id="organization-name"
+                  value={organizationName}
+                  onChange={(e) => setOrganizationName(e.target.value)}
+                  placeholder="e.g. Harbour Mediation Group"
+                  data-testid="input-organization-name"
+                />
+              </div>
+              <Button
+                onClick={() => createOrganizationMutation.mutate(organizationName.trim())}
+                disabled={!organizationName.trim() || createOrganizationMutation.isPending}
+                data-testid="button-create-organization"
+              >
+                {createOrganizationMutation.isPending ? 'Creating...' : 'Create'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="w-5 h-5 mr-2" />
+            {organization.name}
+          </CardTitle>
+          <CardDescription>
+            Admins and case managers can see and manage every case in the practice. Read-only members can view but not change cases.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="divide-y" data-testid="list-team-members">
+            {members.map((member) => {
+              const name = `${member.user.firstName || ''} ${member.user.lastName || ''}`.trim() || member.user.id;
+              const isSelf = member.id === membership?.id;
+              return (
+                <div key={member.id} className="flex items-center justify-between p-4" data-testid={`team-member-${member.id}`}>
+                  <div>
+                    <p className="text-sm font-medium text-foreground">
+                      {name} {isSelf && <span className="text-xs text-muted-foreground">(you)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{member.user.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isAdmin ? (
+                      <>
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => updateRoleMutation.mutate({ memberId: member.id, role: role as OrganizationRole })}
+                        >
+                          <SelectTrigger className="w-40" data-testid={`select-member-role-${member.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {organizationRoles.map((role) => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeMemberMutation.mutate(member.id)}
+                          disabled={removeMemberMutation.isPending}
+                          data-testid={`button-remove-member-${member.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Badge variant="outline">{ROLE_LABELS[member.role as OrganizationRole] || member.role}</Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between p-4" data-testid={`pending-invitation-${invitation.id}`}>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">
+                    {`${invitation.user.firstName || ''} ${invitation.user.lastName || ''}`.trim() || invitation.user.email}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{invitation.user.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">Invited as {ROLE_LABELS[invitation.role as OrganizationRole] || invitation.role}</Badge>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeInvitationMutation.mutate(invitation.id)}
+                    disabled={removeInvitationMutation.isPending}
+                    data-testid={`button-cancel-invitation-${invitation.id}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Plus className="w-5 h-5 mr-2" />
+              Add Team Member
+            </CardTitle>
+            <CardDescription>
+              Invite an existing user by email; they join once they accept. Or provide a username and password to create a new local account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="member-email">Email *</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  value={memberForm.email}
+                  onChange={(e) => setMemberForm({ ...memberForm, email: e.target.value })}
+                  data-testid="input-member-email"
+                />
+              </div>
+              <div>
+                <Label htmlFor="member-role">Role *</Label>
+                <Select
+                  value={memberForm.role}
+                  onValueChange={(role) => setMemberForm({ ...memberForm, role: role as OrganizationRole })}
+                >
+                  <SelectTrigger id="member-role" data-testid="select-member-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {organizationRoles.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="member-first-name">First Name</Label>
+                <Input
+                  id="member-first-name"
+                  value={memberForm.firstName}
+                  onChange={(e) => setMemberForm({ ...memberForm, firstName: e.target.value })}
+                  data-testid="input-member-first-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="member-last-name">Last Name</Label>
+                <Input
+                  id="member-last-name"
+                  value={memberForm.lastName}
+                  onChange={(e) => setMemberForm({ ...memberForm, lastName: e.target.value })}
+                  data-testid="input-member-last-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="member-username">Username (new accounts)</Label>
+                <Input
+                  id="member-username"
+                  value={memberForm.username}
+                  onChange={(e) => setMemberForm({ ...memberForm, username: e.target.value })}
+                  data-testid="input-member-username"
+                />
+              </div>
+              <div>
+                <Label htmlFor="member-password">Password (new accounts)</Label>
+                <Input
+                  id="member-password"
+                  type="password"
+                  value={memberForm.password}
+                  onChange={(e) => setMemberForm({ ...memberForm, password: e.target.value })}
+                  data-testid="input-member-password"
+                />
+              </div>
+            </div>
+            <div className="pt-4 mt-4 border-t">
+              <Button
+                onClick={() => addMemberMutation.mutate(memberForm)}
+                disabled={!memberForm.email || addMemberMutation.isPending}
+                data-testid="button-add-member"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {addMemberMutation.isPending ? 'Adding...' : 'Add Member'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
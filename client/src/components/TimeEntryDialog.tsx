@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  timeEntryActivityLabels,
+  timeEntryActivityTypes,
+  type TimeEntry,
+  type TimeEntryActivityType,
+  type TimeSuggestion,
+} from "@shared/schema";
+
+interface TimeEntryDialogProps {
+  caseId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  entry?: TimeEntry | null; // edit an existing entry
+  suggestion?: TimeSuggestion | null; // prefill from a suggested entry
+}
+
+// datetime-local inputs work in local time without a zone
+const toDateTimeLocal = (date: Date) => new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+export default function TimeEntryDialog({ caseId, isOpen, onClose, entry, suggestion }: TimeEntryDialogProps) {
+  const { toast } = useToast();
+  const [activityType, setActivityType] = useState<TimeEntryActivityType>("preparation");
+  const [description, setDescription] = useState('');
+  const [startedAt, setStartedAt] = useState('');
+  const [hours, setHours] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [billable, setBillable] = useState(true);
+  const [hourlyRate, setHourlyRate] = useState('');
+
+  const isRunning = !!entry && !entry.endedAt;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const source = entry ?? suggestion;
+    const duration = source?.durationMinutes ?? null;
+    setActivityType((source?.activityType as TimeEntryActivityType | undefined) ?? "preparation");
+    setDescription(source?.description ?? '');
+    setStartedAt(toDateTimeLocal(source?.startedAt ? new Date(source.startedAt) : new Date()));
+    setHours(duration !== null ? String(Math.floor(duration / 60)) : '');
+    setMinutes(duration !== null ? String(duration % 60) : '');
+    setBillable(entry?.billable ?? true);
+    setHourlyRate(entry?.hourlyRate ?? '');
+  }, [isOpen, entry, suggestion]);
+
+  const durationMinutes = Math.round(Number(hours || 0) * 60 + Number(minutes || 0));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        activityType,
+        description: description.trim() || null,
+        startedAt: new Date(startedAt).toISOString(),
+        billable,
+        ...(isRunning ? {} : { durationMinutes }),
+      };
+      if (entry) {
+        return apiRequest('PATCH', `/api/cases/${caseId}/time-entries/${entry.id}`, { ...body, hourlyRate });
+      }
+      return apiRequest('POST', `/api/cases/${caseId}/time-entries`, {
+        ...body,
+        source: suggestion?.source ?? 'manual',
+        sourceId: suggestion?.sourceId ?? null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "billing"] });
+      if (suggestion) {
+        queryClient.invalidateQueries({ queryKey: ["/api/cases", caseId, "time-suggestions"] });
+      }
+      toast({ title: "Success", description: entry ? "Time entry updated" : "Time entry added" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error, "Failed to save time entry"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit Time Entry' : 'Log Time'}</DialogTitle>
+          <DialogDescription>
+            {entry
+              ? 'The hourly rate was copied from the mediator profile when the time was logged.'
+              : 'Time is billed at the hourly rate in your profile settings.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="time-entry-activity">Activity</Label>
+              <Select value={activityType} onValueChange={(value) => setActivityType(value as TimeEntryActivityType)}>
+                <SelectTrigger id="time-entry-activity" data-testid="select-time-entry-activity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeEntryActivityTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{timeEntryActivityLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="time-entry-started">Started</Label>
+              <Input
+                id="time-entry-started"
+                type="datetime-local"
+                value={startedAt}
+                onChange={(e) => setStartedAt(e.target.value)}
+                data-testid="input-time-entry-started"
+              />
+            </div>
+          </div>
+
+          {!isRunning && (
+            <div>
+              <Label>Duration</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                  className="w-20"
+                  data-testid="input-time-entry-hours"
+                />
+                <span className="text-sm text-muted-foreground">h</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={59}
+                  value={minutes}
+                  onChange={(e) => setMinutes(e.target.value)}
+                  className="w-20"
+                  data-testid="input-time-entry-minutes"
+                />
+                <span className="text-sm text-muted-foreground">min</span>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="time-entry-description">Description</Label>
+            <Textarea
+              id="time-entry-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              placeholder="e.g. Reviewed position papers"
+              data-testid="textarea-time-entry-description"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="time-entry-billable"
+                checked={billable}
+                onCheckedChange={(checked) => setBillable(checked === true)}
+                data-testid="checkbox-time-entry-billable"
+              />
+              <Label htmlFor="time-entry-billable">Billable</Label>
+            </div>
+            {entry && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="time-entry-rate" className="text-sm">Hourly rate ({entry.currency})</Label>
+                <Input
+                  id="time-entry-rate"
+                  inputMode="decimal"
+                  value={hourlyRate}
+                  onChange={(e) => setHourlyRate(e.target.value)}
+                  className="w-28"
+                  data-testid="input-time-entry-rate"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!startedAt || (!isRunning && durationMinutes < 1) || saveMutation.isPending}
+            data-testid="button-save-time-entry"
+          >
+            {saveMutation.isPending ? 'Saving...' : entry ? 'Save Changes' : 'Log Time'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
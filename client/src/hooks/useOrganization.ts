@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Organization, OrganizationMember, SentInvitation, TeamMember } from "@shared/schema";
+
+interface OrganizationResponse {
+  organization: Organization | null;
+  membership: OrganizationMember | null;
+  members: TeamMember[];
+  invitations: SentInvitation[]; // pending, shown to admins only
+}
+
+export function useOrganization() {
+  const { data, isLoading } = useQuery<OrganizationResponse>({
+    queryKey: ["/api/organization"],
+  });
+
+  const role = data?.membership?.role;
+
+  return {
+    organization: data?.organization ?? null,
+    membership: data?.membership ?? null,
+    members: data?.members ?? [],
+    invitations: data?.invitations ?? [],
+    isLoading,
+    isAdmin: role === "admin",
+    // Admins and case managers can create and manage cases for other mediators
+    canActForOthers: role === "admin" || role === "case_manager",
+  };
+}
@@ -0,0 +1,38 @@
+import { caseListFiltersSchema, type CaseListFilters } from "@shared/schema";
+
+// Case list filters live in the URL (/cases?status=scheduled&nextDays=14) so saved views are plain links
+
+export function filtersToSearch(filters: CaseListFilters, page?: number): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      value.forEach(item => params.append(key, String(item)));
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  if (page && page > 1) params.set('page', String(page));
+  return params.toString();
+}
+
+// Unknown or invalid parameters (e.g. a case's ?tab=) are ignored
+export function searchToFilters(search: string): { filters: CaseListFilters; page: number } {
+  const params = new URLSearchParams(search);
+  const raw: Record<string, string | string[]> = {};
+  params.forEach((_value, key) => {
+    const values = params.getAll(key);
+    raw[key] = values.length > 1 ? values : values[0];
+  });
+
+  const parsed = caseListFiltersSchema.safeParse(raw);
+  const filters = parsed.success
+    ? Object.fromEntries(Object.entries(parsed.data).filter(([, value]) => value !== undefined)) as CaseListFilters
+    : {};
+  const page = Math.max(1, parseInt(params.get('page') || '1', 10) || 1);
+  return { filters, page };
+}
+
+export function hasCaseFilters(filters: CaseListFilters): boolean {
+  return Object.values(filters).some(value => value !== undefined && (!Array.isArray(value) || value.length > 0));
+}
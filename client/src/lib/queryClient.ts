@@ -7,6 +7,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Message to show for an error thrown by apiRequest: the JSON body's message when there is one
+export function apiErrorMessage(error: Error, fallback: string): string {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
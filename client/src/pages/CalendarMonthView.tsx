@@ -1,7 +1,8 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Calendar, dateFnsLocalizer, View } from "react-big-calendar";
-import { format, parse, startOfWeek, getDay } from "date-fns";
+import { format, parse, startOfWeek, getDay, addDays, endOfMonth, startOfMonth } from "date-fns";
 import { enUS } from "date-fns/locale";
 import Layout from "@/components/Layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,9 +11,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogD
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { RefreshCw, Pencil, Trash2, X } from "lucide-react";
+import { RefreshCw, Pencil, Trash2, X, FolderOpen, Video } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { sessionEndsAt, sessionFormatLabels, type MediationSessionWithCase, type SessionFormat } from "@shared/schema";
 import "react-big-calendar/lib/css/react-big-calendar.css";
 
 const locales = {
@@ -44,11 +46,21 @@ interface BigCalendarEvent {
   allDay: boolean;
   location?: string;
   description?: string;
+  // Set for the app's own mediation sessions, which are edited on their case
+  session?: MediationSessionWithCase;
 }
 
+// The visible month padded by a week either side, plus the 30 days the agenda view lists
+const sessionRange = (date: Date) => ({
+  from: addDays(startOfMonth(date), -7),
+  to: addDays(endOfMonth(date), 37),
+});
+
 export default function CalendarMonthView() {
   const [refreshing, setRefreshing] = useState(false);
   const [view, setView] = useState<View>('month');
+  const [date, setDate] = useState(() => new Date());
+  const [, setLocation] = useLocation();
   const [selectedEvent, setSelectedEvent] = useState<BigCalendarEvent | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -66,6 +78,16 @@ export default function CalendarMonthView() {
     queryKey: ['/api/calendar/events'],
   });
 
+  // Sessions show even when Google Calendar isn't connected
+  const { from, to } = sessionRange(date);
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery<MediationSessionWithCase[]>({
+    queryKey: ['/api/sessions', from.toISOString(), to.toISOString()],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/sessions?from=${from.toISOString()}&to=${to.toISOString()}`);
+      return response.json();
+    },
+  });
+
   const updateEventMutation = useMutation({
     mutationFn: async (data: { eventId: string; updates: typeof editFormData }) => {
       const response = await apiRequest('PATCH', `/api/calendar/events/${data.eventId}`, data.updates);
@@ -122,7 +144,10 @@ export default function CalendarMonthView() {
 
   const handleRefresh = async () => {
     setRefreshing(true);
-    await queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] });
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar/events'] }),
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] }),
+    ]);
     setRefreshing(false);
   };
 
@@ -160,8 +185,20 @@ export default function CalendarMonthView() {
     deleteEventMutation.mutate(selectedEvent.id);
   };
 
+  // Sessions synced to Google show once, as the session
+  const sessionEventIds = new Set(sessions.map(session => session.calendarEventId).filter(Boolean));
+  const sessionEvents: BigCalendarEvent[] = sessions.map((session) => ({
+    id: `session:${session.id}`,
+    title: `${session.caseNumber}: ${session.title}`,
+    start: new Date(session.startsAt),
+    end: sessionEndsAt(session),
+    allDay: false,
+    location: session.venue || undefined,
+    session,
+  }));
+
   // Transform Google Calendar events to react-big-calendar format
-  const calendarEvents: BigCalendarEvent[] = events.map((event) => {
+  const googleEvents: BigCalendarEvent[] = events.filter((event) => !sessionEventIds.has(event.id)).map((event) => {
     const startDateStr = event.start.dateTime || event.start.date;
     const endDateStr = event.end.dateTime || event.end.date;
     const isAllDay = !event.start.dateTime;
@@ -176,6 +213,10 @@ export default function CalendarMonthView() {
       description: event.description,
     };
   });
+  const calendarEvents = [...sessionEvents, ...googleEvents];
+
+  const eventPropGetter = (event: BigCalendarEvent) =>
+    event.session ? { style: { backgroundColor: '#059669', borderColor: '#047857' } } : {};
 
   // Custom event rendering to show time in month view
   const EventComponent = ({ event }: { event: BigCalendarEvent }) => {
@@ -187,22 +228,6 @@ export default function CalendarMonthView() {
     );
   };
 
-  if (error) {
-    return (
-      <Layout>
-        <div className="p-6">
-          <Card>
-            <CardContent className="pt-6">
-              <p className="text-center text-muted-foreground">
-                {error instanceof Error ? error.message : "Failed to load calendar. Please connect your Google Calendar in Settings."}
-              </p>
-            </CardContent>
-          </Card>
-        </div>
-      </Layout>
-    );
-  }
-
   return (
     <Layout>
       <div className="p-6 space-y-6">
@@ -221,7 +246,18 @@ export default function CalendarMonthView() {
           </div>
         </div>
 
-        {isLoading ? (
+        {error && (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-center text-muted-foreground" data-testid="text-calendar-error">
+                {error instanceof Error ? error.message : "Failed to load calendar. Please connect your Google Calendar in Settings."}
+                {' '}Mediation sessions are still shown.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading || sessionsLoading ? (
           <Card>
             <CardContent className="pt-6">
               <div className="h-[600px] flex items-center justify-center">
@@ -232,7 +268,7 @@ export default function CalendarMonthView() {
         ) : (
           <Card>
             <CardHeader>
-              <CardTitle>Google Calendar</CardTitle>
+              <CardTitle>Mediation Sessions & Google Calendar</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="h-[600px]">
@@ -244,7 +280,10 @@ export default function CalendarMonthView() {
                   views={['month', 'week', 'day', 'agenda']}
                   view={view}
                   onView={(newView: View) => setView(newView)}
+                  date={date}
+                  onNavigate={(newDate: Date) => setDate(newDate)}
                   onSelectEvent={handleSelectEvent}
+                  eventPropGetter={eventPropGetter}
                   style={{ height: '100%' }}
                   components={{
                     event: EventComponent,
@@ -273,6 +312,12 @@ export default function CalendarMonthView() {
                   )}
                 </p>
               </div>
+              {selectedEvent?.session && (
+                <div>
+                  <Label className="text-sm font-semibold">Type</Label>
+                  <p className="text-sm">{sessionFormatLabels[selectedEvent.session.format as SessionFormat] ?? selectedEvent.session.format}</p>
+                </div>
+              )}
               {selectedEvent?.location && (
                 <div>
                   <Label className="text-sm font-semibold">Location</Label>
@@ -287,22 +332,46 @@ export default function CalendarMonthView() {
               )}
             </div>
             <DialogFooter className="flex gap-2">
-              <Button
-                variant="outline"
-                onClick={handleEditEvent}
-                data-testid="button-edit-event"
-              >
-                <Pencil className="h-4 w-4 mr-2" />
-                Edit
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={handleDeleteEvent}
-                data-testid="button-delete-event"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete
-              </Button>
+              {selectedEvent?.session ? (
+                <>
+                  {selectedEvent.session.zoomMeetingLink && (
+                    <Button
+                      variant="outline"
+                      onClick={() => window.open(selectedEvent.session!.zoomMeetingLink!, '_blank')}
+                      data-testid="button-join-session-zoom"
+                    >
+                      <Video className="h-4 w-4 mr-2" />
+                      Join Zoom
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => setLocation(`/cases/${selectedEvent.session!.caseId}`)}
+                    data-testid="button-open-session-case"
+                  >
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Open case
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={handleEditEvent}
+                    data-testid="button-edit-event"
+                  >
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={handleDeleteEvent}
+                    data-testid="button-delete-event"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </>
+              )}
             </DialogFooter>
           </DialogContent>
         </Dialog>
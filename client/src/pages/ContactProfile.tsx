@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import Layout from "@/components/Layout";
+import ContactFormDialog from "@/components/ContactFormDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { caseStatusLabels, normalizeCaseStatus, type Contact, type ContactCase } from "@shared/schema";
+import { ArrowLeft, Building2, Edit2, Mail, Phone, Trash2, User } from "lucide-react";
+
+interface ContactProfileData {
+  contact: Contact;
+  firm: Contact | null;
+  members: Contact[];
+  cases: ContactCase[];
+}
+
+export default function ContactProfile() {
+  const { toast } = useToast();
+  const [, params] = useRoute<{ id: string }>("/contacts/:id");
+  const [, setLocation] = useLocation();
+  const [showEdit, setShowEdit] = useState(false);
+  const [showDelete, setShowDelete] = useState(false);
+  const contactId = params?.id;
+
+  const { data, isLoading } = useQuery<ContactProfileData>({
+    queryKey: [`/api/contacts/${contactId}`],
+    enabled: !!contactId,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => apiRequest('DELETE', `/api/contacts/${contactId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/contacts') });
+      toast({ title: "Success", description: "Contact deleted" });
+      setLocation('/contacts');
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete contact", variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <Layout>
+        <div className="p-8">
+          <p className="text-muted-foreground">{isLoading ? 'Loading contact...' : 'Contact not found'}</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { contact, firm, members, cases } = data;
+
+  return (
+    <Layout>
+      <div className="p-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/contacts" data-testid="button-back-contacts">
+                <ArrowLeft className="w-5 h-5" />
+              </Link>
+            </Button>
+            <div className="w-12 h-12 bg-primary/10 rounded-lg flex items-center justify-center">
+              {contact.kind === 'organization'
+                ? <Building2 className="w-6 h-6 text-primary" />
+                : <User className="w-6 h-6 text-primary" />}
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground" data-testid="heading-contact-name">{contact.name}</h1>
+              <p className="text-muted-foreground">
+                {contact.role || (contact.kind === 'organization' ? 'Organisation' : 'Person')}
+                {firm && (
+                  <>
+                    {' at '}
+                    <Link href={`/contacts/${firm.id}`} className="text-primary hover:underline">{firm.name}</Link>
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setShowEdit(true)} data-testid="button-edit-contact">
+              <Edit2 className="w-4 h-4 mr-2" />
+              Edit
+            </Button>
+            <Button variant="outline" onClick={() => setShowDelete(true)} data-testid="button-delete-contact">
+              <Trash2 className="w-4 h-4 mr-2 text-destructive" />
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardContent className="p-6 space-y-3">
+              <h3 className="text-lg font-semibold text-foreground">Details</h3>
+              {contact.email && (
+                <p className="text-sm text-foreground flex items-center">
+                  <Mail className="text-muted-foreground mr-2 w-4 h-4" />
+                  {contact.email}
+                </p>
+              )}
+              {contact.phone && (
+                <p className="text-sm text-foreground flex items-center">
+                  <Phone className="text-muted-foreground mr-2 w-4 h-4" />
+                  {contact.phone}
+                </p>
+              )}
+              {contact.notes && (
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{contact.notes}</p>
+              )}
+              {!contact.email && !contact.phone && !contact.notes && (
+                <p className="text-sm text-muted-foreground">No contact details recorded</p>
+              )}
+
+              {contact.kind === 'organization' && (
+                <div className="pt-3 border-t">
+                  <h4 className="text-sm font-semibold text-foreground mb-2">People</h4>
+                  {members.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No people linked to this organisation</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {members.map((member) => (
+                        <Link key={member.id} href={`/contacts/${member.id}`} className="block text-sm text-primary hover:underline">
+                          {member.name}{member.role ? ` · ${member.role}` : ''}
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-foreground mb-4">Cases ({cases.length})</h3>
+              {cases.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Not involved in any of your cases yet</p>
+              ) : (
+                <div className="space-y-2" data-testid="list-contact-cases">
+                  {cases.map((caseItem, index) => (
+                    <Link key={`${caseItem.id}-${index}`} href={`/cases/${caseItem.id}`}>
+                      <div className="flex items-center justify-between p-3 rounded-md border border-border hover:bg-accent/50 cursor-pointer">
+                        <div>
+                          <p className="text-sm font-medium text-foreground">{caseItem.caseNumber}</p>
+                          <p className="text-xs text-muted-foreground">{caseItem.involvement}</p>
+                        </div>
+                        <div className="text-right">
+                          <Badge variant="outline" className="text-xs">{caseStatusLabels[normalizeCaseStatus(caseItem.status)]}</Badge>
+                          {caseItem.mediationDate && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {new Date(caseItem.mediationDate).toLocaleDateString('en-AU')}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <ContactFormDialog open={showEdit} onOpenChange={setShowEdit} contact={contact} />
+
+      <AlertDialog open={showDelete} onOpenChange={setShowDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete contact?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {contact.name} will be removed from the directory. Parties and representatives on your cases keep their details but are no longer linked.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-contact"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import Layout from "@/components/Layout";
+import ContactFormDialog from "@/components/ContactFormDialog";
+import ConflictCheckDialog from "@/components/ConflictCheckDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { Contact } from "@shared/schema";
+import { Building2, Plus, ShieldAlert, User } from "lucide-react";
+
+export default function Contacts() {
+  const [search, setSearch] = useState('');
+  const [showNewContact, setShowNewContact] = useState(false);
+  const [showConflictCheck, setShowConflictCheck] = useState(false);
+
+  const { data: directory = [], isLoading } = useQuery<Contact[]>({
+    queryKey: ["/api/contacts"],
+  });
+
+  const term = search.trim().toLowerCase();
+  const filtered = term
+    ? directory.filter(c => c.name.toLowerCase().includes(term) || (c.email || '').toLowerCase().includes(term))
+    : directory;
+  const firmNames = new Map(directory.filter(c => c.kind === 'organization').map(c => [c.id, c.name]));
+
+  return (
+    <Layout>
+      <div className="p-8">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground" data-testid="heading-contacts">Contacts</h1>
+            <p className="text-muted-foreground">Solicitors, firms and parties you work with across cases</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setShowConflictCheck(true)} data-testid="button-conflict-check">
+              <ShieldAlert className="w-4 h-4 mr-2" />
+              Conflict Check
+            </Button>
+            <Button onClick={() => setShowNewContact(true)} data-testid="button-new-contact">
+              <Plus className="w-4 h-4 mr-2" />
+              New Contact
+            </Button>
+          </div>
+        </div>
+
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or email..."
+          className="mb-6 max-w-md"
+          data-testid="input-search-contacts"
+        />
+
+        <div className="grid gap-3">
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading contacts...</p>
+          ) : filtered.length > 0 ? (
+            filtered.map((contact) => (
+              <Link key={contact.id} href={`/contacts/${contact.id}`}>
+                <Card className="cursor-pointer hover:bg-accent/50 transition-colors" data-testid={`contact-${contact.id}`}>
+                  <CardContent className="p-4 flex items-center justify-between">
+                    <div className="flex items-center space-x-4">
+                      <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                        {contact.kind === 'organization'
+                          ? <Building2 className="w-5 h-5 text-primary" />
+                          : <User className="w-5 h-5 text-primary" />}
+                      </div>
+                      <div>
+                        <h3 className="font-semibold text-foreground">{contact.name}</h3>
+                        <p className="text-sm text-muted-foreground">
+                          {[contact.role, contact.firmId ? firmNames.get(contact.firmId) : null, contact.email].filter(Boolean).join(' · ') || '—'}
+                        </p>
+                      </div>
+                    </div>
+                    <Badge variant="outline">{contact.kind === 'organization' ? 'Organisation' : 'Person'}</Badge>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))
+          ) : (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <p className="text-muted-foreground">
+                  {term ? 'No contacts match your search' : 'No contacts yet. Save parties and representatives from a case, or add one here.'}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <ContactFormDialog open={showNewContact} onOpenChange={setShowNewContact} />
+      <ConflictCheckDialog open={showConflictCheck} onOpenChange={setShowConflictCheck} />
+    </Layout>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Layout from "@/components/Layout";
+import InvoiceTable from "@/components/InvoiceTable";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { formatMoney } from "@/lib/utils";
+import { invoiceDisplayStatus, invoiceStatusLabels, type InvoiceDisplayStatus, type InvoiceWithCase } from "@shared/schema";
+import { Receipt } from "lucide-react";
+
+type StatusFilter = InvoiceDisplayStatus | "outstanding" | "all";
+
+const filters: { value: StatusFilter; label: string }[] = [
+  { value: "outstanding", label: "Outstanding" },
+  { value: "overdue", label: invoiceStatusLabels.overdue },
+  { value: "paid", label: invoiceStatusLabels.paid },
+  { value: "void", label: invoiceStatusLabels.void },
+  { value: "all", label: "All" },
+];
+
+const filterQuery: Record<StatusFilter, string> = {
+  outstanding: "?status=unpaid,overdue",
+  unpaid: "?status=unpaid",
+  overdue: "?status=overdue",
+  paid: "?status=paid",
+  void: "?status=void",
+  all: "",
+};
+
+export default function Invoices() {
+  const [filter, setFilter] = useState<StatusFilter>("outstanding");
+
+  const { data: invoices = [], isLoading } = useQuery<InvoiceWithCase[]>({
+    queryKey: [`/api/invoices${filterQuery[filter]}`],
+  });
+
+  // Amount owed per currency across the listed invoices
+  const outstanding = new Map<string, { total: number; overdue: number }>();
+  for (const invoice of invoices) {
+    const status = invoiceDisplayStatus(invoice);
+    if (status !== "unpaid" && status !== "overdue") continue;
+    const totals = outstanding.get(invoice.currency) ?? { total: 0, overdue: 0 };
+    totals.total += Number(invoice.total);
+    if (status === "overdue") totals.overdue += Number(invoice.total);
+    outstanding.set(invoice.currency, totals);
+  }
+
+  return (
+    <Layout>
+      <div className="p-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground" data-testid="heading-invoices">Invoices</h1>
+          <p className="text-muted-foreground">Invoices issued on every case you can see. Generate new invoices from a case's Billing tab.</p>
+        </div>
+
+        <div className="flex items-center gap-2" data-testid="filters-invoice-status">
+          {filters.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={filter === option.value ? "default" : "outline"}
+              onClick={() => setFilter(option.value)}
+              data-testid={`button-invoice-filter-${option.value}`}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {outstanding.size > 0 && (
+          <div className="flex flex-wrap gap-4">
+            {Array.from(outstanding, ([currency, totals]) => (
+              <Card key={currency} data-testid={`invoice-outstanding-${currency}`}>
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground uppercase">Outstanding ({currency})</p>
+                  <p className="text-2xl font-semibold text-foreground">{formatMoney(totals.total, currency)}</p>
+                  {totals.overdue > 0 && (
+                    <p className="text-xs text-destructive">{formatMoney(totals.overdue, currency)} overdue</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading invoices...</p>
+        ) : invoices.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Receipt className="text-muted-foreground w-12 h-12 mx-auto mb-4" />
+              <p className="text-muted-foreground">No invoices to show</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-6">
+              <InvoiceTable invoices={invoices} showCase />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+}
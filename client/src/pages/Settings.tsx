@@ -9,9 +9,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
 import { SmtpSettings, EmailTemplate, InsertSmtpSettings, InsertEmailTemplate, ZoomSettings, CalendarSettings, InsertZoomSettings, InsertCalendarSettings, User } from "@shared/schema";
-import { Server, Mail, Plus, Trash2, Save, TestTube, Video, Calendar, Link2, CheckCircle, XCircle, UserCircle } from "lucide-react";
+import { Server, Mail, Plus, Trash2, Save, TestTube, Video, Calendar, Link2, CheckCircle, XCircle, UserCircle, Users, Archive, Layers, Receipt, BellRing } from "lucide-react";
+import TeamManagement from "@/components/TeamManagement";
+import RetentionSettings from "@/components/RetentionSettings";
+import CaseTypeSettings from "@/components/CaseTypeSettings";
+import InvoiceSettings from "@/components/InvoiceSettings";
+import ReminderSettings from "@/components/ReminderSettings";
+import SettlementTemplateSettings from "@/components/SettlementTemplateSettings";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertSmtpSettingsSchema, insertEmailTemplateSchema, insertZoomSettingsSchema, insertCalendarSettingsSchema } from "@shared/schema";
@@ -42,6 +48,8 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
+type ProfileFormValues = { mediatorEmail: string; hourlyRate: string; billingCurrency: string };
+
 export default function Settings() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -117,9 +125,11 @@ export default function Settings() {
   });
 
   // Profile form for mediator email
-  const profileForm = useForm<{ mediatorEmail: string }>({
+  const profileForm = useForm<ProfileFormValues>({
     defaultValues: {
       mediatorEmail: (user as User)?.mediatorEmail || '',
+      hourlyRate: (user as User)?.hourlyRate || '',
+      billingCurrency: (user as User)?.billingCurrency || 'AUD',
     },
   });
 
@@ -346,20 +356,20 @@ export default function Settings() {
 
   // Update user profile mutation
   const profileMutation = useMutation({
-    mutationFn: async (data: { mediatorEmail: string | null }) => {
+    mutationFn: async (data: { mediatorEmail: string | null; hourlyRate: string | null; billingCurrency: string }) => {
       return apiRequest('PATCH', '/api/auth/user', data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
       toast({
         title: "Profile Updated",
-        description: "Your mediator email has been updated successfully.",
+        description: "Your profile settings have been updated successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update profile. Please try again.",
+        description: apiErrorMessage(error, "Failed to update profile. Please try again."),
         variant: "destructive",
       });
     },
@@ -369,10 +379,12 @@ export default function Settings() {
     smtpMutation.mutate(data);
   };
 
-  const onProfileSubmit = (data: { mediatorEmail: string }) => {
-    // Convert empty string to null so Zod validation accepts it
+  const onProfileSubmit = (data: ProfileFormValues) => {
+    // Convert empty strings to null so Zod validation accepts them
     const submitData = {
       mediatorEmail: data.mediatorEmail.trim() === '' ? null : data.mediatorEmail,
+      hourlyRate: data.hourlyRate.trim() === '' ? null : data.hourlyRate,
+      billingCurrency: data.billingCurrency.trim().toUpperCase() || 'AUD',
     };
     profileMutation.mutate(submitData);
   };
@@ -412,6 +424,8 @@ export default function Settings() {
     if (user && !profileForm.formState.isDirty) {
       profileForm.reset({
         mediatorEmail: (user as User)?.mediatorEmail || '',
+        hourlyRate: (user as User)?.hourlyRate || '',
+        billingCurrency: (user as User)?.billingCurrency || 'AUD',
       });
     }
   }, [user, profileForm]);
@@ -452,6 +466,14 @@ export default function Settings() {
               <UserCircle className="w-4 h-4 mr-2" />
               Profile
             </TabsTrigger>
+            <TabsTrigger value="team" className="data-[state=active]:bg-background" data-testid="tab-team">
+              <Users className="w-4 h-4 mr-2" />
+              Team
+            </TabsTrigger>
+            <TabsTrigger value="case-types" className="data-[state=active]:bg-background" data-testid="tab-case-types">
+              <Layers className="w-4 h-4 mr-2" />
+              Case Types
+            </TabsTrigger>
             <TabsTrigger value="smtp" className="data-[state=active]:bg-background" data-testid="tab-smtp">
               <Server className="w-4 h-4 mr-2" />
               SMTP Configuration
@@ -468,6 +490,18 @@ export default function Settings() {
               <Mail className="w-4 h-4 mr-2" />
               Email Templates
             </TabsTrigger>
+            <TabsTrigger value="reminders" className="data-[state=active]:bg-background" data-testid="tab-reminders">
+              <BellRing className="w-4 h-4 mr-2" />
+              Reminders
+            </TabsTrigger>
+            <TabsTrigger value="invoicing" className="data-[state=active]:bg-background" data-testid="tab-invoicing">
+              <Receipt className="w-4 h-4 mr-2" />
+              Invoicing
+            </TabsTrigger>
+            <TabsTrigger value="retention" className="data-[state=active]:bg-background" data-testid="tab-retention">
+              <Archive className="w-4 h-4 mr-2" />
+              Retention
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="profile" className="pt-8">
@@ -505,6 +539,42 @@ export default function Settings() {
                         </FormItem>
                       )}
                     />
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <FormField
+                        control={profileForm.control}
+                        name="hourlyRate"
+                        render={({ field }) => (
+                          <FormItem className="md:col-span-2">
+                            <FormLabel>Hourly Rate</FormLabel>
+                            <FormControl>
+                              <Input
+                                inputMode="decimal"
+                                placeholder="e.g. 450"
+                                {...field}
+                                data-testid="input-hourly-rate"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Applied to time you log on cases. Changing it does not alter time already logged.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={profileForm.control}
+                        name="billingCurrency"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Currency</FormLabel>
+                            <FormControl>
+                              <Input maxLength={3} {...field} data-testid="input-billing-currency" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                     <div className="pt-4 border-t">
                       <Button 
                         type="submit" 
@@ -521,6 +591,26 @@ export default function Settings() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="team" className="pt-8">
+            <TeamManagement />
+          </TabsContent>
+
+          <TabsContent value="case-types" className="pt-8">
+            <CaseTypeSettings />
+          </TabsContent>
+
+          <TabsContent value="invoicing" className="pt-8">
+            <InvoiceSettings />
+          </TabsContent>
+
+          <TabsContent value="reminders" className="pt-8">
+            <ReminderSettings />
+          </TabsContent>
+
+          <TabsContent value="retention" className="pt-8">
+            <RetentionSettings />
+          </TabsContent>
+
           <TabsContent value="smtp" className="pt-8">
             <Card>
               <CardHeader>
@@ -953,7 +1043,7 @@ export default function Settings() {
                     {selectedTemplate ? 'Edit Template' : 'Create New Template'}
                   </CardTitle>
                   <CardDescription>
-                    Available variables: {'{caseNumber}'}, {'{mediatorName}'}, {'{mediationType}'}, {'{mediationDate}'}, {'{mediationTime}'}, {'{recipientName}'}, {'{disputeType}'}, {'{disputeAmount}'}, {'{zoomLink}'}, {'{zoomPassword}'}, {'{applicant_1_name}'}, {'{applicant_1_contact}'}, {'{applicant_1_email}'}, {'{applicant_1_phone}'}, {'{applicant_1_lawyer}'}, {'{applicant_1_lawyer_firm}'}, {'{applicant_1_lawyer_email}'}, {'{applicant_1_lawyer_phone}'}, {'{respondent_1_name}'}, {'{respondent_1_contact}'}, {'{respondent_1_email}'}, {'{respondent_1_phone}'}, {'{respondent_1_lawyer}'}, {'{respondent_1_lawyer_firm}'}, {'{respondent_1_lawyer_email}'}, {'{respondent_1_lawyer_phone}'} (and _2, _3, etc. for multiple parties)
+                    Available variables: {'{caseNumber}'}, {'{mediatorName}'}, {'{mediationType}'}, {'{mediationDate}'}, {'{mediationTime}'}, {'{recipientName}'}, {'{disputeType}'}, {'{disputeAmount}'}, {'{zoomLink}'}, {'{zoomPassword}'}, {'{premises}'}, {'{sessionDetails}'}, {'{sessionTitle}'}, {'{sessionSchedule}'}, {'{applicant_1_name}'}, {'{applicant_1_contact}'}, {'{applicant_1_email}'}, {'{applicant_1_phone}'}, {'{applicant_1_lawyer}'}, {'{applicant_1_lawyer_firm}'}, {'{applicant_1_lawyer_email}'}, {'{applicant_1_lawyer_phone}'}, {'{respondent_1_name}'}, {'{respondent_1_contact}'}, {'{respondent_1_email}'}, {'{respondent_1_phone}'}, {'{respondent_1_lawyer}'}, {'{respondent_1_lawyer_firm}'}, {'{respondent_1_lawyer_email}'}, {'{respondent_1_lawyer_phone}'} (and _2, _3, etc. for multiple parties)
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -1063,6 +1153,10 @@ export default function Settings() {
                 </CardContent>
               </Card>
             </div>
+
+            <div className="mt-6">
+              <SettlementTemplateSettings />
+            </div>
           </TabsContent>
         </Tabs>
       </div>
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TrashContents } from "@shared/schema";
+import { FileText, Folder, RotateCcw, Trash2 } from "lucide-react";
+
+type TrashItem = { kind: 'case' | 'document'; id: string; name: string };
+
+export default function Trash() {
+  const { toast } = useToast();
+  const [purging, setPurging] = useState<TrashItem | null>(null);
+
+  const { data, isLoading } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+  });
+
+  const itemUrl = (item: TrashItem) => item.kind === 'case' ? `/api/cases/${item.id}` : `/api/documents/${item.id}`;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cases"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (item: TrashItem) => apiRequest('POST', `${itemUrl(item)}/restore`),
+    onSuccess: (_, item) => {
+      refresh();
+      toast({ title: "Success", description: `${item.name} restored` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to restore",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (item: TrashItem) => apiRequest('DELETE', `${itemUrl(item)}/permanent`),
+    onSuccess: (_, item) => {
+      refresh();
+      setPurging(null);
+      toast({ title: "Success", description: `${item.name} permanently deleted` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message.replace(/^\d+: /, '') || "Failed to delete permanently",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (value: string | Date | null) => value ? new Date(value).toLocaleDateString('en-AU', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  }) : '—';
+
+  const renderActions = (item: TrashItem) => (
+    <div className="flex items-center space-x-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => restoreMutation.mutate(item)}
+        disabled={restoreMutation.isPending}
+        data-testid={`button-restore-${item.kind}-${item.id}`}
+      >
+        <RotateCcw className="w-4 h-4 mr-2" />
+        Restore
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setPurging(item)}
+        data-testid={`button-purge-${item.kind}-${item.id}`}
+      >
+        <Trash2 className="w-4 h-4 text-destructive" />
+      </Button>
+    </div>
+  );
+
+  const trashedCases = data?.cases ?? [];
+  const trashedDocuments = data?.documents ?? [];
+
+  return (
+    <Layout>
+      <div className="p-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground" data-testid="heading-trash">Trash</h1>
+          <p className="text-muted-foreground">
+            Deleted cases and documents are permanently removed after {data?.retentionDays ?? 30} days, including their stored files, Zoom meetings and calendar events.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading trash...</p>
+        ) : trashedCases.length === 0 && trashedDocuments.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Trash2 className="text-muted-foreground w-12 h-12 mx-auto mb-4" />
+              <p className="text-muted-foreground">The trash is empty</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {trashedCases.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-lg font-semibold text-foreground">Cases</h2>
+                {trashedCases.map((caseItem) => (
+                  <Card key={caseItem.id} data-testid={`trash-case-${caseItem.id}`}>
+                    <CardContent className="p-4 flex items-center justify-between">
+                      <div className="flex items-center space-x-4">
+                        <Folder className="w-5 h-5 text-muted-foreground" />
+                        <div>
+                          <p className="font-semibold text-foreground font-mono">{caseItem.caseNumber}</p>
+                          <p className="text-sm text-muted-foreground">
+                            Deleted {formatDate(caseItem.deletedAt)} · {caseItem.documentCount} document{caseItem.documentCount === 1 ? '' : 's'} · Purged {formatDate(caseItem.purgeAt)}
+                          </p>
+                        </div>
+                      </div>
+                      {renderActions({ kind: 'case', id: caseItem.id, name: caseItem.caseNumber })}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            {trashedDocuments.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-lg font-semibold text-foreground">Documents</h2>
+                {trashedDocuments.map((document) => (
+                  <Card key={document.id} data-testid={`trash-document-${document.id}`}>
+                    <CardContent className="p-4 flex items-center justify-between">
+                      <div className="flex items-center space-x-4">
+                        <FileText className="w-5 h-5 text-muted-foreground" />
+                        <div>
+                          <p className="font-semibold text-foreground">{document.originalName}</p>
+                          <p className="text-sm text-muted-foreground">
+                            <span className="font-mono">{document.caseNumber}</span> · Deleted {formatDate(document.deletedAt)} · Purged {formatDate(document.purgeAt)}
+                          </p>
+                        </div>
+                      </div>
+                      {renderActions({ kind: 'document', id: document.id, name: document.originalName })}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={!!purging} onOpenChange={(open) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purging?.kind === 'case'
+                ? `${purging.name} and all of its parties, notes, documents and stored files will be deleted, and its Zoom meeting and calendar event removed. This cannot be undone.`
+                : `${purging?.name} and its stored file will be deleted. This cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purging && purgeMutation.mutate(purging)}
+              disabled={purgeMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-purge"
+            >
+              {purgeMutation.isPending ? 'Deleting...' : 'Delete Permanently'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,109 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+import type { SessionAttendee } from "@shared/schema";
+import { storage } from "./storage";
+import type { ZoomParticipant } from "./zoomService";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+const participants = vi.hoisted(() => [] as ZoomParticipant[]);
+
+vi.mock("./zoomService", () => ({
+  zoomService: {
+    async getMeetingParticipants() {
+      return participants;
+    },
+  },
+}));
+
+const at = (time: string) => new Date(`2025-03-10T${time}:00.000Z`);
+
+describe("attendance register", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("only links attendees to the case's own parties and their representatives", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const party = await storage.createParty({ caseId: caseData.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    const other = await storage.createParty({ caseId: caseData.id, entityName: "Beta Pty Ltd", partyType: "respondent" });
+    const representative = await storage.createPartyRepresentative({ partyId: party.id, name: "Sam Solicitor", firm: "Law & Co" });
+    const elsewhere = await storage.createParty({ caseId: (await createTestCase(mediator.id)).id, entityName: "Gamma Pty Ltd", partyType: "applicant" });
+    const session = await storage.createMediationSession(caseData.id, { title: "Mediation", startsAt: at("09:00"), durationMinutes: 210 }, mediator.id);
+    const agent = await signIn(app, mediator.id);
+    const register = `/api/cases/${caseData.id}/sessions/${session.id}/attendance`;
+
+    await agent.post(register).send({ partyId: elsewhere.id, name: "Gail Gamma" }).expect(400);
+    await agent.post(register).send({ partyId: other.id, representativeId: representative.id, name: "Sam Solicitor", role: "representative" }).expect(400);
+    await agent.post(register).send({ representativeId: representative.id, name: "Sam Solicitor", role: "representative" }).expect(400);
+    await agent.post(register).send({ name: "Ines Interpreter", role: "interpreter", arrivedAt: at("09:00"), leftAt: at("08:00") }).expect(400);
+
+    const { body: lawyer } = await agent.post(register).send({
+      partyId: party.id,
+      representativeId: representative.id,
+      name: "Sam Solicitor",
+      role: "representative",
+      arrivedAt: at("09:05"),
+      authorityToSettle: true,
+    }).expect(201);
+    await agent.post(register).send({ partyId: party.id, name: "Ines Interpreter", role: "interpreter", notes: "Mandarin" }).expect(201);
+    await agent.patch(`${register}/${lawyer.id}`).send({ leftAt: at("09:00") }).expect(400);
+    const { body: checkedOut } = await agent.patch(`${register}/${lawyer.id}`).send({ leftAt: at("12:30") }).expect(200);
+    expect(checkedOut).toMatchObject({ authorityToSettle: true, source: "manual", recordedBy: mediator.id });
+
+    const { body: attendance } = await agent.get(`/api/cases/${caseData.id}/attendance`).expect(200);
+    expect(attendance.map((attendee: SessionAttendee) => [attendee.name, attendee.role])).toEqual([
+      ["Sam Solicitor", "representative"],
+      ["Ines Interpreter", "interpreter"],
+    ]);
+    const otherSession = await storage.createMediationSession(caseData.id, { title: "Day two", startsAt: at("13:00"), durationMinutes: 60 }, mediator.id);
+    await agent.delete(`/api/cases/${caseData.id}/sessions/${otherSession.id}/attendance/${lawyer.id}`).expect(404);
+  });
+
+  it("fills the register from the Zoom participant report", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const party = await storage.createParty({
+      caseId: caseData.id,
+      entityName: "Alpha Pty Ltd",
+      partyType: "applicant",
+      primaryContactName: "Alex Applicant",
+    });
+    const representative = await storage.createPartyRepresentative({ partyId: party.id, name: "Sam Solicitor", email: "sam@lawandco.example" });
+    await storage.createZoomSettings({ userId: mediator.id, accountId: "account", clientId: "client", clientSecret: "secret" });
+    const session = await storage.createMediationSession(caseData.id, { title: "Mediation", startsAt: at("09:00"), durationMinutes: 210 }, mediator.id);
+    const agent = await signIn(app, mediator.id);
+    const importUrl = `/api/cases/${caseData.id}/sessions/${session.id}/attendance/zoom-import`;
+
+    await agent.post(importUrl).expect(400);
+    await storage.updateMediationSession(session.id, { zoomMeetingId: "123456789" });
+    // Checked in by hand before the report was available
+    await storage.createSessionAttendee(session, {
+      partyId: party.id,
+      representativeId: representative.id,
+      name: "Sam Solicitor",
+      role: "representative",
+      arrivedAt: at("08:55"),
+      authorityToSettle: false,
+    }, mediator.id);
+    participants.push(
+      { name: "Samuel S", email: "SAM@lawandco.example", joinTime: at("09:01"), leaveTime: at("10:00") },
+      { name: "Samuel S", email: "sam@lawandco.example", joinTime: at("10:05"), leaveTime: at("12:00") },
+      { name: "Alex Applicant (Alpha)", email: null, joinTime: at("09:02"), leaveTime: at("12:01") },
+      { name: "Test Mediator", email: mediator.email, joinTime: at("08:50"), leaveTime: at("12:05") },
+      { name: "Pat Observer", email: null, joinTime: at("09:30"), leaveTime: null },
+    );
+
+    const { body: result } = await agent.post(importUrl).expect(200);
+    expect(result).toEqual({ added: 2, updated: 1 });
+    const register = new Map((await storage.getSessionAttendees(session.id)).map(attendee => [attendee.name, attendee]));
+    expect(register.get("Sam Solicitor")).toMatchObject({ arrivedAt: at("08:55"), leftAt: at("12:00"), source: "manual" });
+    expect(register.get("Alex Applicant")).toMatchObject({ partyId: party.id, role: "party", arrivedAt: at("09:02"), source: "zoom" });
+    expect(register.get("Pat Observer")).toMatchObject({ partyId: null, role: "other", leftAt: null });
+    expect(register.has("Test Mediator")).toBe(false);
+
+    expect((await agent.post(importUrl).expect(200)).body).toEqual({ added: 0, updated: 0 });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  expectedSessionAttendees,
+  isExpectedAttendee,
+  type Case,
+  type MediationSession,
+} from "@shared/schema";
+import { storage, type NewSessionAttendee } from "./storage";
+import { normalizeName } from "./nameMatching";
+import type { ZoomParticipant } from "./zoomService";
+
+// The register cannot be filled from Zoom; status is the HTTP status to answer with
+export class AttendanceImportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "AttendanceImportError";
+    Object.setPrototypeOf(this, AttendanceImportError.prototype);
+  }
+}
+
+// A person's time in the meeting across every time they joined
+interface ZoomAttendance {
+  name: string;
+  email: string | null;
+  arrivedAt: Date;
+  leftAt: Date | null;
+}
+
+const emailKey = (email: string | null | undefined) => email?.trim().toLowerCase() || null;
+
+// Zoom display names often carry the firm, e.g. "Jane Smith (Smith Lawyers)"
+const nameMatches = (displayName: string, name: string) => {
+  const display = normalizeName(displayName);
+  const expected = normalizeName(name);
+  return !!expected && (display === expected || display.startsWith(`${expected} `));
+};
+
+function combineJoins(participants: ZoomParticipant[]): ZoomAttendance[] {
+  const people = new Map<string, ZoomAttendance>();
+  for (const participant of participants) {
+    const key = emailKey(participant.email) ?? normalizeName(participant.name);
+    if (!key) continue;
+    const person = people.get(key);
+    if (!person) {
+      people.set(key, { name: participant.name, email: participant.email, arrivedAt: participant.joinTime, leftAt: participant.leaveTime });
+      continue;
+    }
+    if (participant.joinTime < person.arrivedAt) person.arrivedAt = participant.joinTime;
+    if (person.leftAt && (!participant.leaveTime || participant.leaveTime > person.leftAt)) person.leftAt = participant.leaveTime;
+  }
+  return Array.from(people.values());
+}
+
+// Fills the session's register from the Zoom participant report. Participants are matched to the parties
+// and their representatives by email, then by name; mediators are left out and anyone else is added as
+// "Other". Times already recorded by hand are kept.
+export async function importZoomAttendance(
+  caseData: Case,
+  session: MediationSession,
+  actorId: string,
+): Promise<{ added: number; updated: number }> {
+  if (!session.zoomMeetingId) {
+    throw new AttendanceImportError("This session has no Zoom meeting");
+  }
+  const zoomSettings = await storage.getZoomSettings(caseData.mediatorId);
+  if (!zoomSettings) {
+    throw new AttendanceImportError("Zoom is not configured for the case mediator");
+  }
+
+  const { zoomService } = await import('./zoomService.js');
+  let participants: ZoomParticipant[];
+  try {
+    participants = await zoomService.getMeetingParticipants(
+      {
+        accountId: zoomSettings.accountId,
+        clientId: zoomSettings.clientId,
+        clientSecret: zoomSettings.clientSecret,
+      },
+      session.zoomMeetingId,
+    );
+  } catch (error) {
+    console.error("Error fetching Zoom participant report:", error);
+    throw new AttendanceImportError(
+      "Zoom has no participant report for this meeting yet. Reports are available once the meeting has ended.",
+      502,
+    );
+  }
+
+  const [parties, mediators, existing] = await Promise.all([
+    storage.getPartiesWithRepresentatives(caseData.id),
+    storage.getCaseMediators(caseData.id),
+    storage.getSessionAttendees(session.id),
+  ]);
+  const mediatorEmails = new Set(mediators.flatMap(m => [emailKey(m.user.mediatorEmail), emailKey(m.user.email)]).filter(Boolean));
+  const mediatorNames = mediators.map(m => `${m.user.firstName || ''} ${m.user.lastName || ''}`.trim()).filter(Boolean);
+  const expected = expectedSessionAttendees(parties);
+
+  let added = 0;
+  let updated = 0;
+  for (const person of combineJoins(participants)) {
+    const email = emailKey(person.email);
+    if (email ? mediatorEmails.has(email) : mediatorNames.some(name => nameMatches(person.name, name))) continue;
+
+    const match = (email && expected.find(each => emailKey(each.email) === email))
+      || expected.find(each => nameMatches(person.name, each.name));
+    const row = match
+      ? existing.find(each => isExpectedAttendee(each, match))
+      : existing.find(each => (email && emailKey(each.email) === email) || nameMatches(person.name, each.name));
+
+    if (row) {
+      const changes: Partial<NewSessionAttendee> = {};
+      if (!row.arrivedAt) changes.arrivedAt = person.arrivedAt;
+      if (!row.leftAt && person.leftAt) changes.leftAt = person.leftAt;
+      if (Object.keys(changes).length > 0) {
+        await storage.updateSessionAttendee(row.id, changes, actorId);
+        updated++;
+      }
+      continue;
+    }
+
+    const attendee = match
+      ? { ...match, email: match.email || person.email }
+      : { name: person.name, email: person.email, role: "other" as const, authorityToSettle: false };
+    existing.push(await storage.createSessionAttendee(
+      session,
+      { ...attendee, arrivedAt: person.arrivedAt, leftAt: person.leftAt },
+      actorId,
+      "zoom",
+    ));
+    added++;
+  }
+  return { added, updated };
+}
@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { eq } from "drizzle-orm";
+import { auditEvents } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+describe("audit trail", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    await storage.protectAuditTrail();
+  });
+
+  it("rejects updates and deletes of logged events", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    await storage.recordAuditEvent({ caseId: caseData.id, action: "case.viewed", entityType: "case", entityId: caseData.id });
+
+    await expect(db.update(auditEvents).set({ action: "case.hidden" }).where(eq(auditEvents.caseId, caseData.id))).rejects.toThrow(/append-only/);
+    await expect(db.delete(auditEvents).where(eq(auditEvents.caseId, caseData.id))).rejects.toThrow(/append-only/);
+    expect(await storage.getAuditEvents(caseData.id)).not.toHaveLength(0);
+  });
+
+  it("keeps exported cells from being read as spreadsheet formulas", async () => {
+    const mediator = await createTestUser("=HYPERLINK(\"http://example.com\")");
+    const caseData = await createTestCase(mediator.id);
+    await storage.recordAuditEvent({ caseId: caseData.id, actorId: mediator.id, action: "case.viewed", entityType: "case", entityId: caseData.id });
+    const agent = await signIn(app, mediator.id);
+
+    const res = await agent.get(`/api/cases/${caseData.id}/audit-events/export`).expect(200);
+    expect(res.text).toContain(`"'=HYPERLINK(""http://example.com"") Mediator"`);
+    expect(res.text).not.toMatch(/(^|,)=/m);
+  });
+});
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage, AsyncResource } from "node:async_hooks";
+import type { RequestHandler } from "express";
+import type { AuditChanges } from "@shared/schema";
+
+export interface AuditContext {
+  actorId: string | null;
+  ipAddress: string | null;
+}
+
+// Carries the acting user through a request so storage mutations can attribute audit events
+export const auditContext = new AsyncLocalStorage<AuditContext>();
+
+export const auditContextMiddleware: RequestHandler = (req, _res, next) => {
+  const actorId = (req.user as any)?.claims?.sub ?? null;
+  auditContext.run({ actorId, ipAddress: req.ip ?? null }, next);
+};
+
+// Multer and other stream-driven middleware call next() outside the request's async context
+export function preserveAuditContext(handler: RequestHandler): RequestHandler {
+  return (req, res, next) => handler(req, res, AsyncResource.bind(next));
+}
+
+const MAX_AUDIT_VALUE_LENGTH = 500;
+
+const normalizeAuditValue = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string" && value.length > MAX_AUDIT_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_AUDIT_VALUE_LENGTH)}… (${value.length} characters)`;
+  }
+  return value ?? null;
+};
+
+// Field-level diff of the keys present in `after`; returns null when nothing changed.
+// Bulky or confidential fields can be left out with `ignoredFields`.
+export function diffRecords(
+  before: Record<string, any> | undefined,
+  after: Record<string, any>,
+  ignoredFields: string[] = [],
+): AuditChanges | null {
+  const changes: AuditChanges = {};
+  for (const key of Object.keys(after)) {
+    if (key === "updatedAt" || ignoredFields.includes(key)) continue;
+    const previous = normalizeAuditValue(before?.[key]);
+    const next = normalizeAuditValue(after[key]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Whole-record diff for created (before is null) and deleted (after is null) entities
+export function snapshotRecord(
+  record: Record<string, any>,
+  kind: "created" | "deleted",
+  ignoredFields: string[] = [],
+): AuditChanges {
+  const empty = Object.fromEntries(Object.keys(record).map(key => [key, null]));
+  return (kind === "created" ? diffRecords(empty, record, ignoredFields) : diffRecords(record, empty, ignoredFields)) ?? {};
+}
@@ -0,0 +1,233 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { Case, Document, Party, User } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  createTestApp,
+  createTestCase,
+  createTestDocument,
+  createTestPractice,
+  createTestUser,
+  signIn,
+} from "./test/helpers";
+
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+// Every route behind requireCaseAccess or requireDocumentAccess. Child ids need not exist: access is
+// checked before the child is looked up.
+const caseRoutes: [Method, string][] = [
+  ["get", "/api/cases/:id"],
+  ["patch", "/api/cases/:id"],
+  ["delete", "/api/cases/:id"],
+  ["post", "/api/cases/:id/restore"],
+  ["delete", "/api/cases/:id/permanent"],
+  ["post", "/api/cases/:id/status"],
+  ["get", "/api/cases/:id/status-history"],
+  ["get", "/api/cases/:id/outcome"],
+  ["put", "/api/cases/:id/outcome"],
+  ["get", "/api/cases/:id/billing"],
+  ["post", "/api/cases/:id/time-entries/timer"],
+  ["post", "/api/cases/:id/time-entries/missing/stop"],
+  ["post", "/api/cases/:id/time-entries"],
+  ["patch", "/api/cases/:id/time-entries/missing"],
+  ["delete", "/api/cases/:id/time-entries/missing"],
+  ["get", "/api/cases/:id/time-suggestions"],
+  ["post", "/api/cases/:id/time-suggestions/dismiss"],
+  ["post", "/api/cases/:id/expenses"],
+  ["patch", "/api/cases/:id/expenses/missing"],
+  ["delete", "/api/cases/:id/expenses/missing"],
+  ["get", "/api/cases/:id/invoices"],
+  ["post", "/api/cases/:id/invoices"],
+  ["get", "/api/cases/:id/invoices/missing/pdf"],
+  ["post", "/api/cases/:id/invoices/missing/send"],
+  ["post", "/api/cases/:id/invoices/missing/status"],
+  ["post", "/api/cases/:id/invoices/missing/void"],
+  ["get", "/api/cases/:id/tasks"],
+  ["post", "/api/cases/:id/tasks"],
+  ["post", "/api/cases/:id/tasks/checklist"],
+  ["patch", "/api/cases/:id/tasks/missing"],
+  ["delete", "/api/cases/:id/tasks/missing"],
+  ["post", "/api/cases/:id/settlement"],
+  ["get", "/api/cases/:id/reminders"],
+  ["post", "/api/cases/:id/reminders/missing/cancel"],
+  ["post", "/api/cases/:id/reminders/missing/resume"],
+  ["get", "/api/cases/:id/audit-events"],
+  ["get", "/api/cases/:id/audit-events/export"],
+  ["get", "/api/cases/:id/duplicates"],
+  ["post", "/api/cases/:id/merge"],
+  ["get", "/api/cases/:id/export"],
+  ["post", "/api/cases/:id/conflict-check"],
+  ["post", "/api/cases/:id/conflict-check/acknowledge"],
+  ["post", "/api/cases/:id/parties"],
+  ["patch", "/api/cases/:id/parties/missing"],
+  ["delete", "/api/cases/:id/parties/missing"],
+  ["put", "/api/cases/:id/parties/order"],
+  ["post", "/api/cases/:id/parties/missing/representatives"],
+  ["patch", "/api/cases/:id/parties/missing/representatives/missing"],
+  ["delete", "/api/cases/:id/parties/missing/representatives/missing"],
+  ["post", "/api/cases/:id/parties/missing/save-to-directory"],
+  ["get", "/api/cases/:id/contact-suggestions"],
+  ["get", "/api/cases/:id/documents"],
+  ["post", "/api/cases/:id/documents"],
+  ["post", "/api/cases/:id/documents/process-upload"],
+  ["get", "/api/cases/:id/notes"],
+  ["post", "/api/cases/:id/notes"],
+  ["post", "/api/cases/:id/ai/summary"],
+  ["post", "/api/cases/:id/ai/question"],
+  ["post", "/api/cases/:id/ai/irac"],
+  ["get", "/api/cases/:id/mediators"],
+  ["post", "/api/cases/:id/mediators"],
+  ["patch", "/api/cases/:id/mediators/missing"],
+  ["delete", "/api/cases/:id/mediators/missing"],
+  ["post", "/api/cases/:id/email"],
+  ["get", "/api/cases/:id/sessions"],
+  ["post", "/api/cases/:id/sessions"],
+  ["patch", "/api/cases/:id/sessions/missing"],
+  ["delete", "/api/cases/:id/sessions/missing"],
+  ["get", "/api/cases/:id/attendance"],
+  ["get", "/api/cases/:id/sessions/missing/attendance"],
+  ["post", "/api/cases/:id/sessions/missing/attendance"],
+  ["patch", "/api/cases/:id/sessions/missing/attendance/missing"],
+  ["delete", "/api/cases/:id/sessions/missing/attendance/missing"],
+  ["post", "/api/cases/:id/sessions/missing/attendance/zoom-import"],
+  ["get", "/api/cases/:id/sessions/missing/log"],
+  ["post", "/api/cases/:id/sessions/missing/log/segments"],
+  ["post", "/api/cases/:id/sessions/missing/log/stop"],
+  ["post", "/api/cases/:id/sessions/missing/log/notes"],
+  ["delete", "/api/cases/:id/sessions/missing/log/notes/missing"],
+  ["post", "/api/cases/:id/sessions/missing/zoom-meeting"],
+  ["delete", "/api/cases/:id/sessions/missing/zoom-meeting"],
+  ["post", "/api/cases/:id/sessions/missing/calendar-event"],
+  ["delete", "/api/cases/:id/sessions/missing/calendar-event"],
+];
+
+const documentRoutes: [Method, string][] = [
+  ["delete", "/api/documents/:documentId"],
+  ["post", "/api/documents/:documentId/restore"],
+  ["delete", "/api/documents/:documentId/permanent"],
+  ["post", "/api/documents/:documentId/reparse"],
+];
+
+describe("case access", () => {
+  let app: Express;
+  let caseA: Case;
+  let documentA: Document;
+  let partyA: Party;
+  let taskAId: string;
+  let caseB: Case;
+  let mediatorB: User;
+  let readOnlyA: User;
+  let mediatorA: User;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+
+    const practiceA = await createTestPractice("read_only", "mediator");
+    [readOnlyA, mediatorA] = practiceA.members;
+    caseA = await createTestCase(practiceA.admin.id);
+    documentA = await createTestDocument(caseA.id, practiceA.admin.id);
+    partyA = await storage.createParty({ caseId: caseA.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    taskAId = (await storage.createCaseTask(caseA.id, practiceA.admin.id, { title: "Send agreement to mediate" })).id;
+
+    mediatorB = await createTestUser("Other");
+    caseB = await createTestCase(mediatorB.id);
+  });
+
+  describe("another practice", () => {
+    it("gets 404 for the case and its child resources", async () => {
+      const agent = await signIn(app, mediatorB.id);
+
+      await agent.get(`/api/cases/${caseA.id}`).expect(404);
+      await agent.get(`/api/cases/${caseA.id}/documents`).expect(404);
+      await agent.get(`/api/cases/${caseA.id}/notes`).expect(404);
+      await agent.get(`/api/cases/${caseA.id}/export`).expect(404);
+      await agent.patch(`/api/cases/${caseA.id}`).send({ premises: "Elsewhere" }).expect(404);
+      await agent.post(`/api/cases/${caseA.id}/notes`).send({ content: "Hello" }).expect(404);
+      await agent.delete(`/api/cases/${caseA.id}`).expect(404);
+    });
+
+    it("gets 404 for the case's documents", async () => {
+      const agent = await signIn(app, mediatorB.id);
+
+      await agent.delete(`/api/documents/${documentA.id}`).expect(404);
+      await agent.post(`/api/documents/${documentA.id}/reparse`).expect(404);
+      expect(await storage.getDocument(documentA.id)).toBeDefined();
+    });
+
+    it("gets 404 for child ids of the case used under its own case", async () => {
+      const agent = await signIn(app, mediatorB.id);
+
+      await agent.patch(`/api/cases/${caseB.id}/parties/${partyA.id}`).send({ entityName: "Taken" }).expect(404);
+      await agent.delete(`/api/cases/${caseB.id}/parties/${partyA.id}`).expect(404);
+      await agent.patch(`/api/cases/${caseB.id}/tasks/${taskAId}`).send({ title: "Taken", completed: true }).expect(404);
+      await agent.delete(`/api/cases/${caseB.id}/tasks/${taskAId}`).expect(404);
+      expect((await storage.getParty(partyA.id))?.entityName).toBe("Alpha Pty Ltd");
+    });
+
+    it("gets 404 from every case and document route", async () => {
+      const agent = await signIn(app, mediatorB.id);
+
+      for (const [method, path] of caseRoutes) {
+        const res = await agent[method](path.replace(":id", caseA.id)).send({});
+        expect(res.status, `${method.toUpperCase()} ${path}`).toBe(404);
+        expect(res.body.message).toBe("Case not found");
+      }
+      for (const [method, path] of documentRoutes) {
+        const res = await agent[method](path.replace(":documentId", documentA.id)).send({});
+        expect(res.status, `${method.toUpperCase()} ${path}`).toBe(404);
+      }
+      await agent.get(documentA.objectPath).expect(401);
+      expect(await storage.getCase(caseA.id)).toBeDefined();
+      expect(await storage.getDocument(documentA.id)).toBeDefined();
+    });
+
+    it("does not list the case", async () => {
+      const agent = await signIn(app, mediatorB.id);
+
+      for (const response of [await agent.get("/api/cases").expect(200), await agent.get("/api/cases/search").expect(200)]) {
+        const ids = (Array.isArray(response.body) ? response.body : response.body.cases).map((c: Case) => c.id);
+        expect(ids).toContain(caseB.id);
+        expect(ids).not.toContain(caseA.id);
+      }
+    });
+  });
+
+  describe("members of the same practice", () => {
+    it("lets read-only members read but not write", async () => {
+      const agent = await signIn(app, readOnlyA.id);
+
+      await agent.get(`/api/cases/${caseA.id}`).expect(200);
+      await agent.get(`/api/cases/${caseA.id}/documents`).expect(200);
+      await agent.patch(`/api/cases/${caseA.id}`).send({ premises: "Elsewhere" }).expect(403);
+      await agent.post(`/api/cases/${caseA.id}/notes`).send({ content: "Hello" }).expect(403);
+      await agent.patch(`/api/cases/${caseA.id}/parties/${partyA.id}`).send({ entityName: "Changed" }).expect(403);
+      await agent.delete(`/api/documents/${documentA.id}`).expect(403);
+      await agent.delete(`/api/cases/${caseA.id}`).expect(403);
+    });
+
+    it("refuses read-only members every write route", async () => {
+      const agent = await signIn(app, readOnlyA.id);
+
+      for (const [method, path] of caseRoutes.filter(([method]) => method !== "get")) {
+        const res = await agent[method](path.replace(":id", caseA.id)).send({});
+        expect(res.status, `${method.toUpperCase()} ${path}`).toBe(403);
+      }
+      for (const [method, path] of documentRoutes) {
+        await agent[method](path.replace(":documentId", documentA.id)).send({}).expect(403);
+      }
+      // The case export reads document files, and the test document has none on disk
+      const reads = caseRoutes.filter(([method, path]) => method === "get" && !path.includes("missing") && path !== "/api/cases/:id/export");
+      for (const [, path] of reads) {
+        const res = await agent.get(path.replace(":id", caseA.id));
+        expect(res.status, `GET ${path}`).toBe(200);
+      }
+    });
+
+    it("hides other mediators' cases from a mediator", async () => {
+      const agent = await signIn(app, mediatorA.id);
+
+      await agent.get(`/api/cases/${caseA.id}`).expect(404);
+      await agent.delete(`/api/documents/${documentA.id}`).expect(404);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import type { RequestHandler } from "express";
+import type { Case, Document, OrganizationMember, OrganizationRole } from "@shared/schema";
+import { storage, type TrashOptions } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      caseData?: Case;
+      document?: Document;
+      membership?: OrganizationMember;
+    }
+  }
+}
+
+// Loads the case named by the route parameter and verifies the current user may access it.
+// Foreign and missing cases both return 404 so case IDs belonging to other mediators are not disclosed.
+// Any non-GET request additionally requires write access (read-only members get 403).
+// Trashed cases are only found by routes that opt in with includeDeleted.
+export function requireCaseAccess(paramName: string = "id", options: TrashOptions = {}): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const access = await storage.getCaseAccess(req.params[paramName], userId, options);
+      if (!access) {
+        return res.status(404).json({ message: "Case not found" });
+      }
+
+      if (req.method !== "GET" && !access.canWrite) {
+        return res.status(403).json({ message: "You have read-only access to this case" });
+      }
+
+      req.caseData = access.caseData;
+      next();
+    } catch (error) {
+      console.error("Error checking case access:", error);
+      res.status(500).json({ message: "Failed to verify case access" });
+    }
+  };
+}
+
+// Same as requireCaseAccess, but resolves the case through a document ID
+export function requireDocumentAccess(paramName: string = "documentId", options: TrashOptions = {}): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const document = await storage.getDocument(req.params[paramName], options);
+      const access = document ? await storage.getCaseAccess(document.caseId, userId) : undefined;
+      if (!document || !access) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      if (req.method !== "GET" && !access.canWrite) {
+        return res.status(403).json({ message: "You have read-only access to this case" });
+      }
+
+      req.document = document;
+      req.caseData = access.caseData;
+      next();
+    } catch (error) {
+      console.error("Error checking document access:", error);
+      res.status(500).json({ message: "Failed to verify document access" });
+    }
+  };
+}
+
+// Requires the current user to belong to an organization with one of the given roles
+export function requireOrganizationRole(...roles: OrganizationRole[]): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const membership = await storage.getOrganizationMembership(userId);
+      if (!membership) {
+        return res.status(404).json({ message: "You are not a member of an organization" });
+      }
+
+      if (roles.length > 0 && !roles.includes(membership.role as OrganizationRole)) {
+        return res.status(403).json({ message: "Insufficient organization role" });
+      }
+
+      req.membership = membership;
+      next();
+    } catch (error) {
+      console.error("Error checking organization role:", error);
+      res.status(500).json({ message: "Failed to verify organization role" });
+    }
+  };
+}
+
+// Practice-wide settings (e.g. records retention) are managed by organization admins.
+// Users without an organization manage their own.
+export function requirePracticeAdmin(): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const membership = await storage.getOrganizationMembership(userId);
+      if (membership && membership.role !== "admin") {
+        return res.status(403).json({ message: "Only organization admins can change practice settings" });
+      }
+
+      req.membership = membership;
+      next();
+    } catch (error) {
+      console.error("Error checking practice admin:", error);
+      res.status(500).json({ message: "Failed to verify organization role" });
+    }
+  };
+}
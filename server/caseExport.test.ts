@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import JSZip from "jszip";
+import { eq } from "drizzle-orm";
+import { cases } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on("data", (chunk: Buffer) => chunks.push(chunk));
+  res.on("end", () => callback(null, Buffer.concat(chunks)));
+};
+
+describe("case export", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("leaves practice-internal case fields out of case.json", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    await db.update(cases).set({
+      conflictReport: { checkedAt: new Date().toISOString(), checkedBy: mediator.id, subjects: [], matches: [] },
+      conflictAcknowledgedAt: new Date(),
+      conflictAcknowledgedBy: mediator.id,
+      conflictAcknowledgementNote: "Acted for the landlord in 2019",
+      feeSplit: [{ partyId: "party-1", percent: 100, billTo: "party" }],
+    }).where(eq(cases.id, caseData.id));
+    const agent = await signIn(app, mediator.id);
+
+    const response = await agent.get(`/api/cases/${caseData.id}/export`).buffer(true).parse(binaryParser).expect(200);
+    const zip = await JSZip.loadAsync(response.body);
+    const manifest = JSON.parse(await zip.file("case.json")!.async("string"));
+
+    expect(manifest.case).toMatchObject({ id: caseData.id, caseNumber: caseData.caseNumber, issuesForDiscussion: ["Outstanding rent"] });
+    for (const field of [
+      "conflictReport",
+      "conflictAcknowledgedAt",
+      "conflictAcknowledgedBy",
+      "conflictAcknowledgementNote",
+      "feeSplit",
+      "mediatorId",
+      "deletedAt",
+      "deletedBy",
+    ]) {
+      expect(manifest.case).not.toHaveProperty(field);
+    }
+  });
+
+  it("keeps custom fields only under a case type of the same name on import", async () => {
+    const exporter = await createTestUser("Exporter");
+    const exporterType = await storage.createCaseType(exporter.id, {
+      name: "Retail Lease",
+      fields: [
+        { key: "lease_expiry", label: "Lease expiry", type: "date", required: false },
+        { key: "shop_number", label: "Shop number", type: "text", required: false },
+      ],
+      emailTemplates: [],
+      taskTemplates: [],
+    });
+    const caseData = await createTestCase(exporter.id);
+    await db.update(cases)
+      .set({ caseTypeId: exporterType.id, customFields: { lease_expiry: "2025-06-30", shop_number: "12" } })
+      .where(eq(cases.id, caseData.id));
+    const exportResponse = await (await signIn(app, exporter.id))
+      .get(`/api/cases/${caseData.id}/export`).buffer(true).parse(binaryParser).expect(200);
+
+    const importer = await createTestUser("Importer");
+    const importerType = await storage.createCaseType(importer.id, {
+      name: "retail lease",
+      fields: [{ key: "lease_expiry", label: "Lease expiry", type: "date", required: false }],
+      emailTemplates: [],
+      taskTemplates: [],
+    });
+    const imported = await (await signIn(app, importer.id))
+      .post("/api/cases/import-bundle")
+      .field("caseNumber", `${caseData.caseNumber}-A`)
+      .attach("file", exportResponse.body, "export.zip")
+      .expect(201);
+    expect(imported.body).toMatchObject({
+      caseTypeId: importerType.id,
+      customFields: { lease_expiry: "2025-06-30" },
+      droppedCustomFields: ["shop_number"],
+    });
+
+    const withoutType = await createTestUser("Solo");
+    const importedWithoutType = await (await signIn(app, withoutType.id))
+      .post("/api/cases/import-bundle")
+      .field("caseNumber", `${caseData.caseNumber}-B`)
+      .attach("file", exportResponse.body, "export.zip")
+      .expect(201);
+    expect(importedWithoutType.body).toMatchObject({ caseTypeId: null, customFields: null });
+    expect(importedWithoutType.body.droppedCustomFields.sort()).toEqual(["lease_expiry", "shop_number"]);
+  });
+});
@@ -0,0 +1,367 @@
+import path from "path";
+import JSZip from "jszip";
+import {
+  attendedSessionWindow,
+  attendeeRoleLabels,
+  caseExportFormat,
+  caseExportManifestSchema,
+  caseStatusLabels,
+  normalizeCaseStatus,
+  sessionFormatLabels,
+  type Case,
+  type AttendeeRole,
+  type CaseBundleImport,
+  type CaseExportManifest,
+  type CustomFieldValues,
+  type SessionAttendee,
+  type SessionFormat,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { LocalFileStorageService } from "./localFileStorage";
+import { pdfField, pdfHeading, pdfParagraphs, renderPdf } from "./pdf";
+
+// The bundle cannot be imported; status is the HTTP status to answer with
+export class CaseBundleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "CaseBundleError";
+    Object.setPrototypeOf(this, CaseBundleError.prototype);
+  }
+}
+
+type CaseDetails = NonNullable<Awaited<ReturnType<typeof storage.getCaseWithDetails>>>;
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|\x00-\x1F]/g, "_").slice(0, 150) || "document";
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatDate = (date: Date | string | null | undefined) =>
+  date ? new Date(date).toLocaleString("en-AU", { dateStyle: "medium", timeStyle: "short" }) : "Not scheduled";
+
+const formatTime = (date: Date | string) =>
+  new Date(date).toLocaleTimeString("en-AU", { hour: "2-digit", minute: "2-digit" });
+
+function buildBrief(details: CaseDetails, attendance: SessionAttendee[]) {
+  const issues = details.issuesForDiscussion ?? [];
+  return renderPdf((doc) => {
+    doc.font("Helvetica-Bold").fontSize(18).text(`Case Brief: ${details.caseNumber}`);
+    doc.font("Helvetica").fontSize(9).fillColor("#6b7280").text(`Prepared ${formatDate(new Date())}`);
+    doc.fillColor("#111827").fontSize(10);
+
+    pdfHeading(doc, "Case Details");
+    pdfField(doc, "Mediation number", details.mediationNumber);
+    pdfField(doc, "Status", caseStatusLabels[normalizeCaseStatus(details.status)]);
+    pdfField(doc, "Mediator", details.mediatorName);
+    pdfField(doc, "Mediation type", details.mediationType);
+    if (details.sessions.length === 0) pdfField(doc, "Sessions", formatDate(null));
+    for (const session of details.sessions) {
+      const format = sessionFormatLabels[session.format as SessionFormat] ?? session.format;
+      pdfField(doc, session.title, `${formatDate(session.startsAt)}, ${session.durationMinutes} min, ${format}${session.venue ? ` at ${session.venue}` : ""}`);
+    }
+    pdfField(doc, "Premises", details.premises);
+    if (details.tags.length > 0) pdfField(doc, "Tags", details.tags.join(", "));
+
+    pdfHeading(doc, "Parties");
+    if (details.parties.length === 0) doc.text("No parties recorded.");
+    for (const party of details.parties) {
+      doc.font("Helvetica-Bold").text(`${party.entityName} (${party.partyType})`).font("Helvetica");
+      if (party.primaryContactName) {
+        doc.text(`Contact: ${[party.primaryContactName, party.primaryContactEmail, party.primaryContactPhone].filter(Boolean).join(", ")}`);
+      }
+      for (const representative of party.representatives) {
+        const label = representative.kind === "legal_rep" ? "Legal representative" : representative.role || "Support person";
+        doc.text(`${label}: ${[representative.name, representative.firm, representative.email].filter(Boolean).join(", ")}`);
+      }
+      doc.moveDown(0.4);
+    }
+
+    const attendedSessions = details.sessions.filter(session => attendance.some(attendee => attendee.sessionId === session.id));
+    if (attendedSessions.length > 0) {
+      pdfHeading(doc, "Attendance");
+      for (const session of attendedSessions) {
+        const attendees = attendance.filter(attendee => attendee.sessionId === session.id);
+        const attended = attendedSessionWindow(session, attendees);
+        doc.font("Helvetica-Bold").text(`${session.title}, ${formatDate(session.startsAt)}`).font("Helvetica");
+        if (attended) doc.text(`Ran ${formatTime(attended.start)} to ${formatTime(attended.end)} (${attended.minutes} min)`);
+        for (const attendee of attendees) {
+          const party = details.parties.find(p => p.id === attendee.partyId);
+          const role = attendeeRoleLabels[attendee.role as AttendeeRole] ?? attendee.role;
+          const times = attendee.arrivedAt
+            ? `${formatTime(attendee.arrivedAt)}${attendee.leftAt ? ` to ${formatTime(attendee.leftAt)}` : ""}`
+            : "Did not attend";
+          doc.text([
+            `${attendee.name} (${party ? `${role}, ${party.entityName}` : role})`,
+            times,
+            attendee.authorityToSettle ? "authority to settle" : null,
+            attendee.notes,
+          ].filter(Boolean).join(" · "));
+        }
+        doc.moveDown(0.4);
+      }
+    }
+
+    if (issues.length > 0) {
+      pdfHeading(doc, "Issues for Discussion");
+      issues.forEach((issue, index) => doc.text(`${index + 1}. ${issue}`));
+    }
+
+    if (details.disputeBackground) {
+      pdfHeading(doc, "Dispute Background");
+      pdfParagraphs(doc, details.disputeBackground);
+    }
+
+    pdfHeading(doc, "Documents");
+    if (details.documents.length === 0) doc.text("No documents.");
+    details.documents.forEach((document, index) => {
+      doc.text(`${index + 1}. ${document.originalName}${document.category ? ` (${document.category})` : ""}`);
+    });
+  }, { title: `Case Brief ${details.caseNumber}`, author: details.mediatorName || undefined });
+}
+
+function buildIndex(
+  details: CaseDetails,
+  files: { document: CaseDetails["documents"][number]; file: string | null }[],
+  counts: { notes: number; aiAnalyses: number },
+  includeBrief: boolean,
+) {
+  const rows = files.map(({ document, file }) => `
+      <tr>
+        <td>${file ? `<a href="${escapeHtml(file)}">${escapeHtml(document.originalName)}</a>` : `${escapeHtml(document.originalName)} <em>(file missing from storage)</em>`}</td>
+        <td>${escapeHtml(document.category || "")}</td>
+        <td>${escapeHtml(formatDate(document.createdAt))}</td>
+      </tr>`).join("");
+  const parties = details.parties
+    .map(party => `<li>${escapeHtml(party.entityName)} (${escapeHtml(party.partyType)})</li>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Case ${escapeHtml(details.caseNumber)}</title>
+  <style>
+    body { font-family: sans-serif; margin: 2rem; color: #111827; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #e5e7eb; padding: 0.4rem; text-align: left; }
+  </style>
+</head>
+<body>
+  <h1>Case ${escapeHtml(details.caseNumber)}</h1>
+  <p>Exported ${escapeHtml(formatDate(new Date()))}. Status: ${escapeHtml(caseStatusLabels[normalizeCaseStatus(details.status)])}.</p>
+  <ul>
+    <li><a href="case.json">case.json</a>: case details, parties, ${counts.notes} note${counts.notes === 1 ? "" : "s"} and ${counts.aiAnalyses} AI analys${counts.aiAnalyses === 1 ? "is" : "es"}</li>
+    ${includeBrief ? '<li><a href="case-brief.pdf">case-brief.pdf</a>: printable case brief</li>' : ""}
+  </ul>
+  <h2>Parties</h2>
+  <ul>${parties || "<li>None recorded</li>"}</ul>
+  <h2>Documents</h2>
+  <table>
+    <thead><tr><th>Document</th><th>Category</th><th>Uploaded</th></tr></thead>
+    <tbody>${rows || '<tr><td colspan="3">No documents</td></tr>'}</tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+// The case fields an import reads back (caseExportManifestSchema). Conflict checks, fee splits, the mediator
+// and trash state belong to the exporting practice and stay out of case.json.
+function exportedCaseRecord(caseData: Case): CaseExportManifest["case"] {
+  const {
+    id,
+    caseNumber,
+    mediationNumber,
+    mediatorName,
+    mediationType,
+    mediationDate,
+    premises,
+    disputeBackground,
+    issuesForDiscussion,
+    status,
+    customFields,
+    tags,
+  } = caseData;
+  return {
+    id,
+    caseNumber,
+    mediationNumber,
+    mediatorName,
+    mediationType,
+    mediationDate,
+    premises,
+    disputeBackground,
+    issuesForDiscussion,
+    status,
+    customFields,
+    tags,
+  };
+}
+
+// Collects the whole case file into a ZIP. Documents missing from storage are listed in the index
+// rather than failing the export.
+export async function buildCaseExport(caseData: Case, options: { includeBrief: boolean }) {
+  const details = await storage.getCaseWithDetails(caseData.id);
+  if (!details) {
+    throw new CaseBundleError("Case not found", 404);
+  }
+  const [notes, aiAnalyses, attendance] = await Promise.all([
+    storage.getCaseNotes(caseData.id),
+    storage.getAiAnalyses(caseData.id),
+    storage.getCaseAttendance(caseData.id),
+  ]);
+
+  const zip = new JSZip();
+  const fileStorage = new LocalFileStorageService();
+  const files: { document: CaseDetails["documents"][number]; file: string | null }[] = [];
+  for (const [index, document] of Array.from(details.documents.entries())) {
+    const file = `documents/${String(index + 1).padStart(3, "0")}-${safeFileName(document.originalName)}`;
+    try {
+      zip.file(file, await fileStorage.readFile(document.objectPath));
+      files.push({ document, file });
+    } catch {
+      files.push({ document, file: null });
+    }
+  }
+
+  const caseType = caseData.caseTypeId ? await storage.getCaseType(caseData.caseTypeId) : undefined;
+  const manifest = {
+    format: caseExportFormat,
+    version: 1 as const,
+    exportedAt: new Date(),
+    case: exportedCaseRecord(details),
+    caseType: caseType ? { name: caseType.name } : null,
+    parties: details.parties,
+    // Zoom meetings and calendar events belong to the exporting mediator's accounts, so they stay behind
+    sessions: details.sessions.map(({ title, startsAt, durationMinutes, format, venue }) => ({ title, startsAt, durationMinutes, format, venue })),
+    notes: notes.map(note => ({ content: note.content, createdAt: note.createdAt })),
+    aiAnalyses: aiAnalyses.map(({ analysisType, input, output, metadata, createdAt }) => ({ analysisType, input, output, metadata, createdAt })),
+    documents: files.flatMap(({ document, file }) => file ? [{
+      file,
+      originalName: document.originalName,
+      mimeType: document.mimeType,
+      category: document.category,
+      extractedText: document.extractedText,
+      createdAt: document.createdAt,
+    }] : []),
+  };
+  zip.file("case.json", JSON.stringify(manifest, null, 2));
+
+  if (options.includeBrief) {
+    zip.file("case-brief.pdf", await buildBrief(details, attendance));
+  }
+  zip.file("index.html", buildIndex(details, files, { notes: notes.length, aiAnalyses: aiAnalyses.length }, options.includeBrief));
+
+  return { zip, fileName: `${safeFileName(details.caseNumber)}-export.zip` };
+}
+
+async function readManifest(zip: JSZip): Promise<CaseExportManifest> {
+  const entry = zip.file("case.json");
+  if (!entry) {
+    throw new CaseBundleError("The ZIP has no case.json; is it a MediatorPro case export?");
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(await entry.async("string"));
+  } catch {
+    throw new CaseBundleError("case.json is not valid JSON");
+  }
+  const parsed = caseExportManifestSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new CaseBundleError(`case.json is not a supported case export (${issue.path.join(".") || "format"}: ${issue.message})`);
+  }
+  return parsed.data;
+}
+
+// Custom field values only show under a case type, so they are kept for the mediator's case type with the
+// exported type's name, and only for the fields it defines. The keys of the values left behind are returned.
+async function matchCaseType(mediatorId: string, caseTypeName: string | null | undefined, customFields: CustomFieldValues | null | undefined) {
+  const name = caseTypeName?.trim().toLowerCase();
+  const caseType = name
+    ? (await storage.getCaseTypes(mediatorId)).find(candidate => candidate.name.trim().toLowerCase() === name)
+    : undefined;
+  const fieldKeys = new Set(caseType?.fields.map(field => field.key) ?? []);
+  const entries = Object.entries(customFields ?? {});
+  const kept = entries.filter(([key]) => fieldKeys.has(key));
+  return {
+    caseTypeId: caseType?.id ?? null,
+    customFields: kept.length > 0 ? Object.fromEntries(kept) : null,
+    droppedCustomFields: entries.filter(([key]) => !fieldKeys.has(key)).map(([key]) => key),
+  };
+}
+
+// Recreates an exported case for the given mediator. Documents are written to storage first and
+// removed again if the case cannot be created.
+export async function importCaseBundle(buffer: Buffer, mediatorId: string, actorId: string, caseNumber?: string): Promise<CaseBundleImport> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new CaseBundleError("The file is not a valid ZIP archive");
+  }
+  const manifest = await readManifest(zip);
+  const { id: sourceCaseId, ...exportedCase } = manifest.case;
+  const targetCaseNumber = caseNumber?.trim() || exportedCase.caseNumber;
+
+  if ((await storage.getExistingCaseNumbers([targetCaseNumber])).length > 0) {
+    throw new CaseBundleError(`Case ${targetCaseNumber} already exists. Import it under a different case number.`, 409);
+  }
+
+  const documentFiles: { entry: JSZip.JSZipObject; document: CaseExportManifest["documents"][number] }[] = [];
+  for (const document of manifest.documents) {
+    const entry = zip.file(document.file);
+    if (!entry) {
+      throw new CaseBundleError(`${document.file} is listed in case.json but missing from the ZIP`);
+    }
+    documentFiles.push({ entry, document });
+  }
+
+  const fileStorage = new LocalFileStorageService();
+  const savedPaths: string[] = [];
+  try {
+    const documents = [];
+    for (const { entry, document } of documentFiles) {
+      const content = await entry.async("nodebuffer");
+      const objectPath = await fileStorage.saveFile(content, {
+        contentType: document.mimeType,
+        size: content.length,
+        uploadedAt: new Date().toISOString(),
+        userId: actorId,
+      }, actorId);
+      savedPaths.push(objectPath);
+      documents.push({
+        fileName: path.basename(objectPath),
+        originalName: document.originalName,
+        fileSize: content.length,
+        mimeType: document.mimeType,
+        category: document.category ?? null,
+        objectPath,
+        extractedText: document.extractedText ?? null,
+        isProcessed: !!document.extractedText,
+        createdAt: document.createdAt,
+      });
+    }
+
+    const { droppedCustomFields, ...caseTypeFields } = await matchCaseType(mediatorId, manifest.caseType?.name, exportedCase.customFields);
+    const newCase = await storage.createCaseFromBundle({
+      caseData: { ...exportedCase, ...caseTypeFields, caseNumber: targetCaseNumber, mediatorId },
+      parties: manifest.parties,
+      notes: manifest.notes,
+      aiAnalyses: manifest.aiAnalyses,
+      documents,
+      sessions: manifest.sessions,
+      source: { caseId: sourceCaseId, exportedAt: manifest.exportedAt },
+    }, actorId);
+
+    try {
+      return { ...(await storage.runCaseConflictCheck(newCase.id, actorId)), droppedCustomFields };
+    } catch (error) {
+      console.error(`Error running conflict check for imported case ${newCase.caseNumber}:`, error);
+      return { ...newCase, droppedCustomFields };
+    }
+  } catch (error) {
+    await Promise.all(savedPaths.map(objectPath => fileStorage.deleteFile(objectPath).catch(() => undefined)));
+    throw error;
+  }
+}
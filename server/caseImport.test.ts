@@ -0,0 +1,104 @@
+import { randomUUID } from "crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { importCases, parseImportDate, suggestMapping } from "./caseImport";
+import { storage } from "./storage";
+import { createTestUser } from "./test/helpers";
+
+const csvFile = (lines: string[]) => ({ buffer: Buffer.from(lines.join("\n")), originalname: "cases.csv" });
+
+describe("case import", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("parseImportDate", () => {
+    it("reads day-first, ISO and date cells", () => {
+      expect(parseImportDate("15/03/2025")).toEqual(new Date(2025, 2, 15));
+      expect(parseImportDate("15-03-25 2:30 pm")).toEqual(new Date(2025, 2, 15, 14, 30));
+      expect(parseImportDate("12.01.2026 12:05 am")).toEqual(new Date(2026, 0, 12, 0, 5));
+      expect(parseImportDate("2025-03-15")).toEqual(new Date(2025, 2, 15));
+      const cell = new Date(2025, 5, 1);
+      expect(parseImportDate(cell)).toBe(cell);
+    });
+
+    it("returns null for empty cells and flags what it cannot read", () => {
+      expect(parseImportDate(undefined)).toBeNull();
+      expect(parseImportDate("  ")).toBeNull();
+      expect(parseImportDate("31/02/2025")).toBe("invalid");
+      expect(parseImportDate("March 15")).toBe("invalid");
+      expect(parseImportDate("2025-13-40")).toBe("invalid");
+      expect(parseImportDate(new Date("not a date"))).toBe("invalid");
+    });
+  });
+
+  describe("suggestMapping", () => {
+    it("matches common headings and uses each column once", () => {
+      expect(suggestMapping(["Case No.", "Applicant", "Applicant Email", "Respondent Solicitor", "Date", "Notes"])).toEqual({
+        caseNumber: "Case No.",
+        mediationDate: "Date",
+        "applicant.entityName": "Applicant",
+        "applicant.primaryContactEmail": "Applicant Email",
+        "respondent.legalRepName": "Respondent Solicitor",
+      });
+    });
+
+    it("leaves fields unmapped when no heading matches", () => {
+      expect(suggestMapping(["Colour", "Size"])).toEqual({});
+    });
+  });
+
+  describe("importCases", () => {
+    const mapping = { caseNumber: "Case", "applicant.entityName": "Applicant", mediationDate: "Date" };
+
+    it("flags duplicate and invalid rows and imports nothing unless told to skip them", async () => {
+      const mediator = await createTestUser();
+      const taken = `IMP-${randomUUID().slice(0, 8)}`;
+      await storage.createCase({ caseNumber: taken, mediatorId: mediator.id }, mediator.id);
+      const fresh = `IMP-${randomUUID().slice(0, 8)}`;
+      const file = csvFile([
+        "Case,Applicant,Date",
+        `${fresh},Alpha Pty Ltd,15/03/2025`,
+        `${taken},Beta Pty Ltd,`,
+        `${fresh},Gamma Pty Ltd,`,
+        ",Delta Pty Ltd,31/02/2025",
+        ",,",
+      ]);
+
+      const refused = await importCases(file, mapping, mediator.id, mediator.id, false);
+      expect(refused.created).toHaveLength(0);
+      expect(refused.invalid.map(row => [row.rowNumber, row.duplicate])).toEqual([[3, "existing"], [4, "file"], [5, null]]);
+      expect(refused.invalid[2].errors).toEqual([
+        "Case number is required",
+        'Session date "31/02/2025" is not a recognised date (use DD/MM/YYYY)',
+      ]);
+
+      const imported = await importCases(file, mapping, mediator.id, mediator.id, true);
+      expect(imported.created.map(c => c.caseNumber)).toEqual([fresh]);
+      expect(imported.invalid).toHaveLength(3);
+      expect(imported.conflictCheckFailed).toEqual([]);
+    });
+
+    it("reports cases whose conflict check failed without undoing the import", async () => {
+      const mediator = await createTestUser();
+      const [first, second] = [`IMP-${randomUUID().slice(0, 8)}`, `IMP-${randomUUID().slice(0, 8)}`];
+      const runCheck = storage.runCaseConflictCheck.bind(storage);
+      vi.spyOn(storage, "runCaseConflictCheck").mockImplementation(async (caseId, userId) => {
+        if ((await storage.getCase(caseId))?.caseNumber === second) throw new Error("Directory unavailable");
+        return runCheck(caseId, userId);
+      });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const result = await importCases(
+        csvFile(["Case,Applicant,Date", `${first},Alpha Pty Ltd,`, `${second},Beta Pty Ltd,`]),
+        mapping,
+        mediator.id,
+        mediator.id,
+        false,
+      );
+
+      expect(result.created).toHaveLength(2);
+      expect(result.conflictCheckFailed).toEqual([second]);
+      expect((await storage.getCase(result.created[0].id))?.conflictReport).toBeTruthy();
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  caseImportFields,
+  insertCaseSchema,
+  intakePartiesSchema,
+  type CaseImportField,
+  type CaseImportMapping,
+  type CaseImportPreview,
+  type CaseImportRow,
+  type InsertCase,
+} from "@shared/schema";
+import { storage, type NewCaseWithParties } from "./storage";
+
+export const MAX_IMPORT_ROWS = 500;
+
+// The spreadsheet cannot be used at all (unreadable, no header row, too many rows, bad mapping)
+export class CaseImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CaseImportError";
+    Object.setPrototypeOf(this, CaseImportError.prototype);
+  }
+}
+
+type SpreadsheetRow = Record<string, unknown>;
+
+const partyPrefixes = {
+  applicant: ["applicant", "claimant", "party1", "partya"],
+  respondent: ["respondent", "party2", "partyb"],
+};
+
+const partyFieldAliases: Record<string, string[]> = {
+  entityName: ["", "name", "entity", "entityname"],
+  primaryContactName: ["contact", "contactname"],
+  primaryContactEmail: ["email", "contactemail"],
+  primaryContactPhone: ["phone", "contactphone", "mobile"],
+  legalRepName: ["lawyer", "solicitor", "legalrep", "representative"],
+  legalRepFirm: ["firm", "lawfirm", "solicitorfirm", "legalrepfirm"],
+  legalRepEmail: ["lawyeremail", "solicitoremail", "legalrepemail"],
+  legalRepPhone: ["lawyerphone", "solicitorphone", "legalrepphone"],
+};
+
+const caseFieldAliases: Partial<Record<CaseImportField, string[]>> = {
+  caseNumber: ["casenumber", "caseno", "case", "filenumber", "fileno", "reference", "referencenumber", "ref"],
+  mediationNumber: ["mediationnumber", "mediationno", "mediationref"],
+  mediationType: ["mediationtype", "type", "format"],
+  mediationDate: ["mediationdate", "sessiondate", "date", "hearingdate"],
+  premises: ["premises", "address", "propertyaddress", "venue"],
+  disputeBackground: ["disputebackground", "background", "summary", "description", "details"],
+  issuesForDiscussion: ["issues", "issuesfordiscussion"],
+  tags: ["tags", "labels"],
+};
+
+function fieldAliases(field: CaseImportField): string[] {
+  const [party, partyField] = field.split(".") as [keyof typeof partyPrefixes, string?];
+  if (!partyField) return caseFieldAliases[field] ?? [];
+  return partyPrefixes[party].flatMap(prefix => partyFieldAliases[partyField].map(suffix => prefix + suffix));
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Reads the first worksheet. CSV cells are kept as text so dates are read day-first below rather than by SheetJS.
+export async function readSpreadsheet(buffer: Buffer, fileName: string): Promise<{ columns: string[]; rows: SpreadsheetRow[] }> {
+  const XLSX = await import('xlsx');
+  let workbook;
+  try {
+    workbook = /\.csv$/i.test(fileName)
+      ? XLSX.read(buffer.toString("utf8").replace(/^\uFEFF/, ""), { type: "string", raw: true })
+      : XLSX.read(buffer, { type: "buffer", cellDates: true });
+  } catch {
+    throw new CaseImportError("The file could not be read as a CSV or Excel spreadsheet");
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new CaseImportError("The spreadsheet has no worksheets");
+  }
+  const [header = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false });
+  const columns = header.map(cell => String(cell ?? "").trim()).filter(Boolean);
+  if (columns.length === 0) {
+    throw new CaseImportError("The first row must contain column headings");
+  }
+
+  const rows = XLSX.utils.sheet_to_json<SpreadsheetRow>(sheet, { defval: "", raw: true, blankrows: true });
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new CaseImportError(`A single import is limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+  return { columns, rows };
+}
+
+// Matches column headings like "Case No." or "Respondent Solicitor" to fields; each column is used once
+export function suggestMapping(columns: string[]): CaseImportMapping {
+  const mapping: CaseImportMapping = {};
+  const available = new Map(columns.map(column => [normalizeHeader(column), column]));
+  for (const field of caseImportFields) {
+    const alias = fieldAliases(field).find(candidate => candidate && available.has(candidate));
+    if (alias) {
+      mapping[field] = available.get(alias)!;
+      available.delete(alias);
+    }
+  }
+  return mapping;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value).trim();
+}
+
+// Accepts real date cells, ISO dates and day-first dates (15/03/2025, 15-03-25 2:30 pm)
+export function parseImportDate(value: unknown): Date | null | "invalid" {
+  if (value instanceof Date) return isNaN(value.getTime()) ? "invalid" : value;
+  const text = cellText(value);
+  if (!text) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const date = new Date(text.length === 10 ? `${text}T00:00:00` : text);
+    return isNaN(date.getTime()) ? "invalid" : date;
+  }
+
+  const match = text.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2}|\d{4})(?:[ T]+(\d{1,2}):(\d{2})\s*(am|pm)?)?$/i);
+  if (!match) return "invalid";
+  const [, day, month, rawYear, rawHour, minute, meridiem] = match;
+  const year = rawYear.length === 2 ? 2000 + Number(rawYear) : Number(rawYear);
+  let hour = rawHour ? Number(rawHour) : 0;
+  if (meridiem) {
+    hour = (hour % 12) + (meridiem.toLowerCase() === "pm" ? 12 : 0);
+  }
+  const date = new Date(year, Number(month) - 1, Number(day), hour, minute ? Number(minute) : 0);
+  // Rejects dates that rolled over, e.g. 31/02
+  return date.getDate() === Number(day) && date.getMonth() === Number(month) - 1 ? date : "invalid";
+}
+
+const splitList = (text: string) => text.split(/[;\n]/).map(item => item.trim()).filter(Boolean);
+
+const describeIssues = (issues: { path: (string | number)[]; message: string }[], prefix = "") =>
+  issues.map(issue => `${prefix}${issue.path.join(".") || "value"}: ${issue.message}`);
+
+interface BuiltImportRow {
+  preview: CaseImportRow;
+  entry: NewCaseWithParties | null; // null when the row has errors
+}
+
+// Converts one spreadsheet row; errors are collected rather than thrown so the preview can list them all
+function buildImportRow(row: SpreadsheetRow, rowNumber: number, mapping: CaseImportMapping, mediatorId: string): BuiltImportRow | null {
+  const raw = (field: CaseImportField) => (mapping[field] ? row[mapping[field]!] : undefined);
+  const text = (field: CaseImportField) => cellText(raw(field)) || null;
+
+  if (caseImportFields.every(field => !text(field))) {
+    return null;
+  }
+
+  const errors: string[] = [];
+  const caseNumber = text("caseNumber");
+  if (!caseNumber) {
+    errors.push("Case number is required");
+  }
+
+  const mediationDate = parseImportDate(raw("mediationDate"));
+  if (mediationDate === "invalid") {
+    errors.push(`Session date "${cellText(raw("mediationDate"))}" is not a recognised date (use DD/MM/YYYY)`);
+  }
+
+  const caseData = {
+    caseNumber: caseNumber ?? "",
+    mediationNumber: text("mediationNumber"),
+    mediatorId,
+    mediationType: text("mediationType"),
+    mediationDate: mediationDate instanceof Date ? mediationDate : null,
+    premises: text("premises"),
+    disputeBackground: text("disputeBackground"),
+    issuesForDiscussion: splitList(text("issuesForDiscussion") ?? ""),
+    tags: splitList(text("tags") ?? ""),
+    status: "referred" as const,
+  };
+  const parsedCase = insertCaseSchema.safeParse(caseData);
+  if (!parsedCase.success) {
+    errors.push(...describeIssues(parsedCase.error.issues));
+  }
+
+  const partyRows = (["applicant", "respondent"] as const).flatMap(partyType => {
+    const value = (field: string) => text(`${partyType}.${field}` as CaseImportField);
+    const details = Object.keys(partyFieldAliases).filter(field => field !== "entityName" && value(field));
+    const entityName = value("entityName");
+    if (!entityName) {
+      if (details.length > 0) {
+        errors.push(`${partyType === "applicant" ? "Applicant" : "Respondent"} name is required when their other details are given`);
+      }
+      return [];
+    }
+    return [{
+      entityName,
+      partyType,
+      primaryContactName: value("primaryContactName"),
+      primaryContactEmail: value("primaryContactEmail"),
+      primaryContactPhone: value("primaryContactPhone"),
+      legalRepName: value("legalRepName"),
+      legalRepFirm: value("legalRepFirm"),
+      legalRepEmail: value("legalRepEmail"),
+      legalRepPhone: value("legalRepPhone"),
+    }];
+  });
+  const parsedParties = intakePartiesSchema.safeParse(partyRows);
+  if (!parsedParties.success) {
+    errors.push(...describeIssues(parsedParties.error.issues, "party "));
+  }
+
+  return {
+    preview: {
+      rowNumber,
+      caseNumber,
+      applicant: text("applicant.entityName"),
+      respondent: text("respondent.entityName"),
+      mediationDate: mediationDate instanceof Date ? mediationDate.toISOString() : null,
+      duplicate: null,
+      errors,
+    },
+    entry: parsedCase.success && parsedParties.success && errors.length === 0
+      ? { caseData: parsedCase.data as InsertCase, parties: parsedParties.data }
+      : null,
+  };
+}
+
+function validateMapping(columns: string[], mapping: CaseImportMapping) {
+  if (!mapping.caseNumber) {
+    throw new CaseImportError("Choose the column that holds the case number");
+  }
+  const missing = Object.values(mapping).filter(column => !columns.includes(column!));
+  if (missing.length > 0) {
+    throw new CaseImportError(`Column${missing.length === 1 ? "" : "s"} not found in the spreadsheet: ${missing.join(", ")}`);
+  }
+}
+
+// Builds every row and flags case numbers that already exist or repeat within the file
+async function buildImport(columns: string[], rows: SpreadsheetRow[], mapping: CaseImportMapping, mediatorId: string) {
+  validateMapping(columns, mapping);
+  // Row 1 is the header, so data starts on row 2
+  const built = rows
+    .map((row, index) => buildImportRow(row, index + 2, mapping, mediatorId))
+    .filter((row): row is BuiltImportRow => row !== null);
+
+  const caseNumbers = built.map(row => row.preview.caseNumber).filter((n): n is string => !!n);
+  const existing = new Set(await storage.getExistingCaseNumbers(Array.from(new Set(caseNumbers))));
+  const seen = new Set<string>();
+  for (const row of built) {
+    const caseNumber = row.preview.caseNumber;
+    if (!caseNumber) continue;
+    if (existing.has(caseNumber)) {
+      row.preview.duplicate = "existing";
+      row.preview.errors.push(`Case ${caseNumber} already exists`);
+    } else if (seen.has(caseNumber)) {
+      row.preview.duplicate = "file";
+      row.preview.errors.push(`Case ${caseNumber} appears earlier in this file`);
+    }
+    seen.add(caseNumber);
+    if (row.preview.duplicate) row.entry = null;
+  }
+  return built;
+}
+
+export async function previewCaseImport(
+  file: { buffer: Buffer; originalname: string },
+  mediatorId: string,
+  mapping?: CaseImportMapping,
+): Promise<CaseImportPreview> {
+  const { columns, rows } = await readSpreadsheet(file.buffer, file.originalname);
+  const effectiveMapping = mapping ?? suggestMapping(columns);
+  // A first look without a case number column still returns the columns so they can be mapped
+  if (!mapping && !effectiveMapping.caseNumber) {
+    return { columns, mapping: effectiveMapping, rows: [], validCount: 0 };
+  }
+  const built = await buildImport(columns, rows, effectiveMapping, mediatorId);
+  return {
+    columns,
+    mapping: effectiveMapping,
+    rows: built.map(row => row.preview),
+    validCount: built.filter(row => row.entry).length,
+  };
+}
+
+// Re-reads and re-validates the file rather than trusting the preview the client saw
+export async function importCases(
+  file: { buffer: Buffer; originalname: string },
+  mapping: CaseImportMapping,
+  mediatorId: string,
+  actorId: string,
+  skipInvalid: boolean,
+) {
+  const { columns, rows } = await readSpreadsheet(file.buffer, file.originalname);
+  const built = await buildImport(columns, rows, mapping, mediatorId);
+  const invalid = built.filter(row => !row.entry);
+  if (invalid.length > 0 && !skipInvalid) {
+    return { created: [], invalid: invalid.map(row => row.preview), conflictCheckFailed: [] };
+  }
+
+  const entries = built.flatMap(row => (row.entry ? [row.entry] : []));
+  if (built.length === 0) {
+    throw new CaseImportError("The spreadsheet has no rows to import");
+  }
+  const created = entries.length > 0 ? await storage.createCasesWithParties(entries, actorId) : [];
+
+  // Same intake conflict check as single cases; a failure here does not undo the import, but the case
+  // numbers are returned so the mediator can run the check from those cases
+  const conflictCheckFailed: string[] = [];
+  for (const newCase of created) {
+    try {
+      await storage.runCaseConflictCheck(newCase.id, actorId);
+    } catch (error) {
+      console.error(`Error running conflict check for imported case ${newCase.caseNumber}:`, error);
+      conflictCheckFailed.push(newCase.caseNumber);
+    }
+  }
+  return { created, invalid: invalid.map(row => row.preview), conflictCheckFailed };
+}
@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { Case } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+describe("case list search", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("always returns a page", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const agent = await signIn(app, mediator.id);
+
+    const response = await agent.get("/api/cases/search").expect(200);
+    expect(response.body).toMatchObject({ total: 1, page: 1, pageSize: 25 });
+    expect(response.body.cases.map((c: Case) => c.id)).toEqual([caseData.id]);
+  });
+
+  it("matches party names literally", async () => {
+    const mediator = await createTestUser();
+    const percentCase = await createTestCase(mediator.id);
+    const otherCase = await createTestCase(mediator.id);
+    await storage.createParty({ caseId: percentCase.id, entityName: "100% Fresh Pty Ltd", partyType: "applicant" });
+    await storage.createParty({ caseId: otherCase.id, entityName: "100 Main Street Pty Ltd", partyType: "applicant" });
+    const agent = await signIn(app, mediator.id);
+
+    const percent = await agent.get("/api/cases/search").query({ party: "100%" }).expect(200);
+    expect(percent.body.cases.map((c: Case) => c.id)).toEqual([percentCase.id]);
+    const underscore = await agent.get("/api/cases/search").query({ party: "100_" }).expect(200);
+    expect(underscore.body.total).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { and, eq } from "drizzle-orm";
+import { caseMediators } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestPractice, createTestUser, signIn } from "./test/helpers";
+
+describe("case mediators", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  const setUp = async () => {
+    const practice = await createTestPractice("mediator", "mediator", "mediator");
+    const [lead, coMediator, colleague] = practice.members;
+    const caseData = await createTestCase(lead.id);
+    await storage.addCaseMediator({ caseId: caseData.id, userId: coMediator.id, role: "co" });
+    return { ...practice, lead, coMediator, colleague, caseData };
+  };
+
+  it("lets the lead add a co-mediator from their organization only", async () => {
+    const { lead, colleague, caseData } = await setUp();
+    const outsider = await createTestUser("Outsider");
+    const agent = await signIn(app, lead.id);
+
+    await agent.post(`/api/cases/${caseData.id}/mediators`).send({ email: outsider.email }).expect(404);
+    await agent.post(`/api/cases/${caseData.id}/mediators`).send({ userId: outsider.id }).expect(404);
+    await agent.post(`/api/cases/${caseData.id}/mediators`).send({ email: colleague.email }).expect(201);
+    expect((await storage.getCaseMediators(caseData.id)).map(m => m.userId)).toContain(colleague.id);
+  });
+
+  it("tells a mediator practising alone to set up a practice first", async () => {
+    const mediator = await createTestUser();
+    const colleague = await createTestUser("Colleague");
+    const caseData = await createTestCase(mediator.id);
+    const agent = await signIn(app, mediator.id);
+
+    const res = await agent.post(`/api/cases/${caseData.id}/mediators`).send({ email: colleague.email }).expect(400);
+    expect(res.body.message).toMatch(/Create a practice under Settings > Team/);
+    expect((await storage.getCaseMediators(caseData.id)).map(m => m.userId)).toEqual([mediator.id]);
+  });
+
+  it("does not let a co-mediator add mediators, take the lead or remove others", async () => {
+    const { lead, coMediator, colleague, caseData } = await setUp();
+    await storage.addCaseMediator({ caseId: caseData.id, userId: colleague.id, role: "co" });
+    const agent = await signIn(app, coMediator.id);
+
+    await agent.post(`/api/cases/${caseData.id}/mediators`).send({ email: colleague.email }).expect(403);
+    await agent.patch(`/api/cases/${caseData.id}/mediators/${coMediator.id}`).send({ role: "lead" }).expect(403);
+    await agent.delete(`/api/cases/${caseData.id}/mediators/${colleague.id}`).expect(403);
+    await agent.delete(`/api/cases/${caseData.id}/mediators/${lead.id}`).expect(400);
+    expect((await storage.getCase(caseData.id))?.mediatorId).toBe(lead.id);
+
+    await agent.delete(`/api/cases/${caseData.id}/mediators/${coMediator.id}`).expect(200);
+  });
+
+  it("lets an organization admin change the lead", async () => {
+    const { admin, lead, coMediator, caseData } = await setUp();
+    const agent = await signIn(app, admin.id);
+
+    await agent.patch(`/api/cases/${caseData.id}/mediators/${coMediator.id}`).send({ role: "lead" }).expect(200);
+    const mediators = await storage.getCaseMediators(caseData.id);
+    expect(mediators.find(m => m.role === "lead")?.userId).toBe(coMediator.id);
+    expect(mediators.find(m => m.userId === lead.id)?.role).toBe("co");
+  });
+
+  it("does not reassign the case through a case edit", async () => {
+    const { lead, coMediator, caseData } = await setUp();
+    const agent = await signIn(app, coMediator.id);
+
+    await agent.patch(`/api/cases/${caseData.id}`).send({ mediatorId: coMediator.id }).expect(400);
+    await agent.patch(`/api/cases/${caseData.id}`)
+      .send({ premises: "Level 2", conflictReport: { matches: [] }, deletedAt: new Date().toISOString() })
+      .expect(200);
+
+    const updated = await storage.getCase(caseData.id);
+    expect(updated).toMatchObject({ mediatorId: lead.id, premises: "Level 2", conflictReport: null, deletedAt: null });
+  });
+
+  it("backfills missing lead rows", async () => {
+    const { lead, caseData } = await setUp();
+    await db.delete(caseMediators).where(and(eq(caseMediators.caseId, caseData.id), eq(caseMediators.userId, lead.id)));
+
+    await storage.backfillLeadMediators();
+    expect((await storage.getCaseMediators(caseData.id)).find(m => m.role === "lead")?.userId).toBe(lead.id);
+  });
+});
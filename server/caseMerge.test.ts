@@ -0,0 +1,68 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+describe("merging cases", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  const setUp = async () => {
+    const mediator = await createTestUser();
+    const target = await createTestCase(mediator.id);
+    const source = await createTestCase(mediator.id);
+    await storage.transitionCaseStatus(source.id, "intake", mediator.id, "Agreement to mediate signed");
+    return { mediator, target, source, agent: await signIn(app, mediator.id) };
+  };
+
+  it("carries the outcome and status history across and records the merge", async () => {
+    const { mediator, target, source, agent } = await setUp();
+    await storage.saveCaseOutcome(source.id, {
+      outcomeType: "settled",
+      currency: "AUD",
+      resolvedIssues: ["Outstanding rent"],
+    }, mediator.id);
+
+    await agent.post(`/api/cases/${target.id}/merge`).send({ sourceCaseId: source.id }).expect(200);
+
+    expect(await storage.getCaseOutcome(source.id)).toBeUndefined();
+    expect(await storage.getCaseOutcome(target.id)).toMatchObject({ outcomeType: "settled", resolvedIssues: ["Outstanding rent"] });
+
+    expect(await storage.getCaseStatusHistory(source.id)).toHaveLength(0);
+    const history = await storage.getCaseStatusHistory(target.id);
+    expect(history.map(entry => entry.reason)).toContain(`Case ${source.caseNumber}: Agreement to mediate signed`);
+    expect(history[history.length - 1]).toMatchObject({
+      fromStatus: "referred",
+      toStatus: "referred",
+      reason: `Merged case ${source.caseNumber} into this case`,
+    });
+  });
+
+  it("keeps the target's outcome and records the source's in the target's activity log", async () => {
+    const { mediator, target, source, agent } = await setUp();
+    await storage.saveCaseOutcome(target.id, { outcomeType: "impasse", currency: "AUD", resolvedIssues: [] }, mediator.id);
+    await storage.saveCaseOutcome(source.id, {
+      outcomeType: "settled",
+      settlementAmount: "12500.00",
+      currency: "AUD",
+      paymentTerms: "Within 30 days",
+      resolvedIssues: ["Outstanding rent"],
+    }, mediator.id);
+
+    await agent.post(`/api/cases/${target.id}/merge`).send({ sourceCaseId: source.id }).expect(200);
+
+    expect(await storage.getCaseOutcome(source.id)).toBeUndefined();
+    expect(await storage.getCaseOutcome(target.id)).toMatchObject({ outcomeType: "impasse", resolvedIssues: ["Outstanding rent"] });
+
+    const event = (await storage.getAuditEvents(target.id)).find(e => e.action === "outcome.merged");
+    expect(event?.metadata).toMatchObject({
+      sourceCaseNumber: source.caseNumber,
+      replacedOutcome: { outcomeType: "settled", settlementAmount: "12500.00", paymentTerms: "Within 30 days" },
+    });
+    const history = await storage.getCaseStatusHistory(target.id);
+    expect(history[history.length - 1].reason).toContain("Settled outcome is recorded in the activity log");
+  });
+});
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { eq } from "drizzle-orm";
+import { cases } from "@shared/schema";
+import { db } from "./db";
+import { storage, CaseStatusTransitionError } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+describe("case status", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("applies only one of two concurrent transitions from the same status", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+
+    const results = await Promise.allSettled([
+      storage.transitionCaseStatus(caseData.id, "intake", mediator.id),
+      storage.transitionCaseStatus(caseData.id, "intake", mediator.id),
+    ]);
+
+    expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+    const rejected = results.find(result => result.status === "rejected") as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(CaseStatusTransitionError);
+    const history = await storage.getCaseStatusHistory(caseData.id);
+    expect(history.filter(entry => entry.toStatus === "intake")).toHaveLength(1);
+  });
+
+  it("rejects a transition the stored status does not allow", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const agent = await signIn(app, mediator.id);
+
+    await agent.post(`/api/cases/${caseData.id}/status`).send({ status: "settled" }).expect(400);
+    await expect(storage.transitionCaseStatus(caseData.id, "settled", mediator.id)).rejects.toThrow(CaseStatusTransitionError);
+    expect((await storage.getCase(caseData.id))?.status).toBe("referred");
+  });
+
+  it("moves pre-lifecycle statuses to intake and records the change", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const unknown = await createTestCase(mediator.id);
+    await db.update(cases).set({ status: "active" }).where(eq(cases.id, caseData.id));
+    await db.update(cases).set({ status: "archived" }).where(eq(cases.id, unknown.id));
+
+    expect(await storage.normalizeLegacyCaseStatuses()).toBeGreaterThanOrEqual(1);
+    expect((await storage.getCase(caseData.id))?.status).toBe("intake");
+    expect((await storage.getCase(unknown.id))?.status).toBe("archived");
+    const history = await storage.getCaseStatusHistory(caseData.id);
+    expect(history.find(entry => entry.fromStatus === "active")).toMatchObject({ toStatus: "intake", actorId: mediator.id });
+  });
+});
@@ -0,0 +1,62 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { ConflictMatch } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestPractice, createTestUser, signIn } from "./test/helpers";
+
+describe("conflict check", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("matches a new case's parties against the rest of the practice and needs a fresh acknowledgement", async () => {
+    const { admin, members: [colleague] } = await createTestPractice("mediator");
+    const earlier = await createTestCase(colleague.id);
+    const earlierParty = await storage.createParty({ caseId: earlier.id, entityName: "Harbourside Holdings Pty Ltd", partyType: "respondent" });
+    await storage.createPartyRepresentative({ partyId: earlierParty.id, name: "Sam Solicitor", firm: "Law & Co", email: "sam@lawandco.example" });
+    const elsewhere = await createTestCase((await createTestUser("Elsewhere")).id);
+    await storage.createParty({ caseId: elsewhere.id, entityName: "Harbourside Holdings Pty Ltd", partyType: "applicant" });
+
+    const caseData = await createTestCase(admin.id);
+    await storage.createParty({ caseId: caseData.id, entityName: "Harbourside Holdings Pty. Ltd.", partyType: "applicant" });
+    const agent = await signIn(app, admin.id);
+
+    await agent.post(`/api/cases/${caseData.id}/conflict-check/acknowledge`).send({}).expect(400);
+    const { body: checked } = await agent.post(`/api/cases/${caseData.id}/conflict-check`).expect(200);
+    expect(checked.conflictReport.matches).toEqual([
+      expect.objectContaining({ caseId: earlier.id, partyId: earlierParty.id, reason: "name", involvement: "Respondent: Harbourside Holdings Pty Ltd" }),
+    ]);
+
+    const { body: acknowledged } = await agent.post(`/api/cases/${caseData.id}/conflict-check/acknowledge`)
+      .send({ note: "Different entity; confirmed with the referrer" })
+      .expect(200);
+    expect(acknowledged).toMatchObject({ conflictAcknowledgedBy: admin.id, conflictAcknowledgementNote: "Different entity; confirmed with the referrer" });
+
+    const { body: rechecked } = await agent.post(`/api/cases/${caseData.id}/conflict-check`).expect(200);
+    expect(rechecked.conflictAcknowledgedAt).toBeNull();
+    expect(rechecked.conflictReport.matches).toHaveLength(1);
+  });
+
+  it("matches representatives by email regardless of case and by firm", async () => {
+    const mediator = await createTestUser();
+    const earlier = await createTestCase(mediator.id);
+    const party = await storage.createParty({ caseId: earlier.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    await storage.createPartyRepresentative({ partyId: party.id, name: "Sam Solicitor", firm: "Law & Co", email: "sam@lawandco.example" });
+    const agent = await signIn(app, mediator.id);
+
+    const { body } = await agent.post("/api/conflict-check").send({
+      subjects: [
+        { name: "S. Solicitor", email: "SAM@LawAndCo.example" },
+        { name: "Jordan Lee", firm: "Law and Co" },
+        { name: "Unrelated Person" },
+      ],
+    }).expect(200);
+
+    const bySubject = new Map(body.matches.map((match: ConflictMatch) => [match.subject, match]));
+    expect(bySubject.get("S. Solicitor")).toMatchObject({ reason: "email", score: 1, caseId: earlier.id });
+    expect(bySubject.get("Jordan Lee")).toMatchObject({ reason: "firm", matchedValue: "Law & Co" });
+    expect(bySubject.has("Unrelated Person")).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { Contact, ContactMatch } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestPractice, createTestUser, signIn } from "./test/helpers";
+
+describe("contact directory", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("is shared within a practice and hidden from everyone else", async () => {
+    const { admin, members: [mediator] } = await createTestPractice("mediator");
+    const outsider = await createTestUser("Outsider");
+    const adminAgent = await signIn(app, admin.id);
+
+    const { body: firm } = await adminAgent.post("/api/contacts").send({ kind: "organization", name: "Harbour Legal" }).expect(201);
+
+    const colleague = await signIn(app, mediator.id);
+    const { body: directory } = await colleague.get("/api/contacts").expect(200);
+    expect(directory.map((contact: Contact) => contact.id)).toContain(firm.id);
+    await colleague.patch(`/api/contacts/${firm.id}`).send({ phone: "02 9000 0000" }).expect(200);
+
+    const other = await signIn(app, outsider.id);
+    const { body: otherDirectory } = await other.get("/api/contacts").expect(200);
+    expect(otherDirectory.map((contact: Contact) => contact.id)).not.toContain(firm.id);
+    await other.get(`/api/contacts/${firm.id}`).expect(404);
+    await other.delete(`/api/contacts/${firm.id}`).expect(404);
+    await other.post("/api/contacts").send({ kind: "person", name: "Jo Bloggs", firmId: firm.id }).expect(400);
+  });
+
+  it("suggests existing contacts by email and similar name", async () => {
+    const mediator = await createTestUser();
+    const agent = await signIn(app, mediator.id);
+    const { body: contact } = await agent.post("/api/contacts")
+      .send({ kind: "person", name: "Katherine O'Brien", email: "kobrien@harbourlegal.example" })
+      .expect(201);
+
+    const { body: byEmail } = await agent.post("/api/contacts/match").send({ name: "K. O'Brien", email: "KOBrien@HarbourLegal.example" }).expect(200);
+    expect(byEmail[0]).toMatchObject({ reason: "email", score: 1, contact: { id: contact.id } });
+
+    const { body: byName } = await agent.post("/api/contacts/match").send({ name: "Katherine OBrien" }).expect(200);
+    expect(byName.map((match: ContactMatch) => match.contact.id)).toContain(contact.id);
+
+    const { body: organizations } = await agent.post("/api/contacts/match").send({ name: "Katherine O'Brien", kind: "organization" }).expect(200);
+    expect(organizations).toEqual([]);
+  });
+
+  it("links a representative and their firm to the directory and lists the case on the contact", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const party = await storage.createParty({ caseId: caseData.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    const representative = await storage.createPartyRepresentative({
+      partyId: party.id,
+      name: "Sam Solicitor",
+      firm: "Law & Co",
+      email: "sam@lawandco.example",
+    });
+    const agent = await signIn(app, mediator.id);
+    const { body: existing } = await agent.post("/api/contacts").send({ kind: "person", name: "Samuel Solicitor", email: "sam@lawandco.example" }).expect(201);
+
+    const { body: linked } = await agent.post(`/api/cases/${caseData.id}/parties/${party.id}/save-to-directory`)
+      .send({ representativeId: representative.id })
+      .expect(200);
+
+    expect(linked.id).toBe(existing.id);
+    expect((await storage.getPartyRepresentative(representative.id))?.contactId).toBe(existing.id);
+    const { body: details } = await agent.get(`/api/contacts/${existing.id}`).expect(200);
+    expect(details.firm).toMatchObject({ kind: "organization", name: "Law & Co" });
+    expect(details.cases).toEqual([expect.objectContaining({ id: caseData.id, involvement: "Legal representative for Alpha Pty Ltd" })]);
+
+    const { body: firmDetails } = await agent.get(`/api/contacts/${details.firm.id}`).expect(200);
+    expect(firmDetails.members.map((member: Contact) => member.id)).toEqual([existing.id]);
+    expect(firmDetails.cases).toEqual([
+      expect.objectContaining({ id: caseData.id, involvement: "Legal representative for Alpha Pty Ltd (Sam Solicitor)" }),
+    ]);
+  });
+});
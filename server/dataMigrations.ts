@@ -0,0 +1,32 @@
+import { storage } from "./storage";
+
+// One-off updates for rows written before a schema or rule change. The schema itself is applied with
+// drizzle-kit push, which does not touch data or triggers. Each step is idempotent and runs on every start.
+export async function runDataMigrations() {
+  try {
+    await storage.protectAuditTrail();
+  } catch (error) {
+    console.error("Error protecting the audit trail:", error);
+  }
+
+  try {
+    const leads = await storage.backfillLeadMediators();
+    if (leads) console.log(`Recorded the lead mediator of ${leads} case(s)`);
+  } catch (error) {
+    console.error("Error backfilling lead mediators:", error);
+  }
+
+  try {
+    const statuses = await storage.normalizeLegacyCaseStatuses();
+    if (statuses) console.log(`Moved ${statuses} case(s) with a pre-lifecycle status to intake`);
+  } catch (error) {
+    console.error("Error normalizing legacy case statuses:", error);
+  }
+
+  try {
+    const drafts = await storage.backfillDocumentVersionGroups();
+    if (drafts) console.log(`Grouped ${drafts} generated document version(s)`);
+  } catch (error) {
+    console.error("Error backfilling document version groups:", error);
+  }
+}
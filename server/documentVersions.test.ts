@@ -0,0 +1,62 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import type { InsertDocument } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestCase, createTestUser } from "./test/helpers";
+
+const draft = (caseId: string, uploadedBy: string) => (version: number): InsertDocument[] => [
+  ["docx", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  ["pdf", "application/pdf"],
+].map(([extension, mimeType]) => ({
+  caseId,
+  fileName: `Heads of Agreement v${version}.${extension}`,
+  originalName: `Heads of Agreement v${version}.${extension}`,
+  fileSize: 100,
+  mimeType,
+  objectPath: `/objects/uploads/${randomUUID()}`,
+  uploadedBy,
+}));
+
+describe("document versions", () => {
+  it("gives concurrent drafts of the same series consecutive versions", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+
+    const results = await Promise.all([1, 2, 3].map(() =>
+      storage.createDocumentVersion(caseData.id, "Heads of Agreement", draft(caseData.id, mediator.id))));
+
+    expect(results.map(result => result.version).sort()).toEqual([1, 2, 3]);
+    const documents = await storage.getDocumentsByCase(caseData.id);
+    expect(documents).toHaveLength(6);
+    expect(new Set(documents.map(document => document.originalName)).size).toBe(6);
+    const other = await storage.createDocumentVersion(caseData.id, "Deed of Release", draft(caseData.id, mediator.id));
+    expect(other.version).toBe(1);
+  });
+
+  it("keeps numbering after a merge brings in a draft series the target already has", async () => {
+    const mediator = await createTestUser();
+    const target = await createTestCase(mediator.id);
+    const source = await createTestCase(mediator.id);
+    await storage.createDocumentVersion(target.id, "Heads of Agreement", draft(target.id, mediator.id));
+    await storage.createDocumentVersion(source.id, "Heads of Agreement", draft(source.id, mediator.id));
+    await storage.createDocumentVersion(source.id, "Heads of Agreement", draft(source.id, mediator.id));
+
+    await storage.mergeCases(target.id, source.id, mediator.id);
+
+    expect(await storage.getDocumentsByCase(target.id)).toHaveLength(6);
+    const next = await storage.createDocumentVersion(target.id, "Heads of Agreement", draft(target.id, mediator.id));
+    expect(next.version).toBe(2);
+  });
+
+  it("continues the numbering of drafts saved before version groups existed", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    for (const document of draft(caseData.id, mediator.id)(4)) {
+      await storage.createDocument({ ...document, version: 4 });
+    }
+
+    expect(await storage.backfillDocumentVersionGroups()).toBeGreaterThanOrEqual(2);
+    const next = await storage.createDocumentVersion(caseData.id, "Heads of Agreement", draft(caseData.id, mediator.id));
+    expect(next.version).toBe(5);
+  });
+});
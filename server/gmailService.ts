@@ -1,6 +1,13 @@
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import type { CalendarSettings } from '@shared/schema';
+import { randomUUID } from 'crypto';
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
 
 export class GmailService {
   private oauth2Client: OAuth2Client;
@@ -45,6 +52,7 @@ export class GmailService {
     cc?: string;
     requestReadReceipt?: boolean;
     requestDeliveryReceipt?: boolean;
+    attachments?: EmailAttachment[];
   }): Promise<string> {
     try {
       // Create email in RFC 2822 format
@@ -72,9 +80,30 @@ export class GmailService {
       }
 
       messageParts.push('MIME-Version: 1.0');
-      messageParts.push('Content-Type: text/html; charset=utf-8');
-      messageParts.push('');
-      messageParts.push(params.html || params.text || '');
+      if (params.attachments?.length) {
+        // Body and files as parts of a multipart/mixed message
+        const boundary = `mixed_${randomUUID()}`;
+        messageParts.push(`Content-Type: multipart/mixed; boundary="${boundary}"`);
+        messageParts.push('');
+        messageParts.push(`--${boundary}`);
+        messageParts.push('Content-Type: text/html; charset=utf-8');
+        messageParts.push('');
+        messageParts.push(params.html || params.text || '');
+        for (const attachment of params.attachments) {
+          const filename = attachment.filename.replace(/["\r\n]/g, '');
+          messageParts.push(`--${boundary}`);
+          messageParts.push(`Content-Type: ${attachment.contentType}; name="${filename}"`);
+          messageParts.push(`Content-Disposition: attachment; filename="${filename}"`);
+          messageParts.push('Content-Transfer-Encoding: base64');
+          messageParts.push('');
+          messageParts.push(attachment.content.toString('base64').replace(/.{76}/g, '$&\n'));
+        }
+        messageParts.push(`--${boundary}--`);
+      } else {
+        messageParts.push('Content-Type: text/html; charset=utf-8');
+        messageParts.push('');
+        messageParts.push(params.html || params.text || '');
+      }
       
       const message = messageParts.join('\n');
       
@@ -113,6 +142,7 @@ export class GmailService {
     cc?: string;
     requestReadReceipt?: boolean;
     requestDeliveryReceipt?: boolean;
+    attachments?: EmailAttachment[];
   }): Promise<string[]> {
     const messageIds: string[] = [];
     
@@ -126,6 +156,7 @@ export class GmailService {
         cc: params.cc,
         requestReadReceipt: params.requestReadReceipt,
         requestDeliveryReceipt: params.requestDeliveryReceipt,
+        attachments: params.attachments,
       });
       messageIds.push(messageId);
     }
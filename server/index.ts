@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { trashJobHandlers } from "./trash";
+import { retentionJobHandlers } from "./retention";
+import { startJobWorker } from "./jobs";
+import { reminderJobHandlers } from "./reminders";
+import { migrateLegacySessions, sessionJobHandlers } from "./sessions";
+import { runDataMigrations } from "./dataMigrations";
 
 const app = express();
 
@@ -77,5 +83,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    migrateLegacySessions();
+    runDataMigrations();
+    startJobWorker({ ...reminderJobHandlers, ...sessionJobHandlers, ...trashJobHandlers, ...retentionJobHandlers });
   });
 })();
@@ -0,0 +1,87 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { eq } from "drizzle-orm";
+import { users, type Invoice } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+// A case with 100 minutes at $100 an hour and a $100 expense unbilled: $266.67 in all
+async function createBillableCase(app: Express) {
+  const mediator = await createTestUser();
+  await db.update(users).set({ hourlyRate: "100.00" }).where(eq(users.id, mediator.id));
+  const caseData = await createTestCase(mediator.id);
+  const parties = await Promise.all(["Alpha Pty Ltd", "Beta Pty Ltd", "Gamma Pty Ltd"].map(entityName =>
+    storage.createParty({ caseId: caseData.id, entityName, partyType: "applicant" })));
+  const agent = await signIn(app, mediator.id);
+  const { body: entry } = await agent.post(`/api/cases/${caseData.id}/time-entries`)
+    .send({ activityType: "session", startedAt: "2025-03-01T01:00:00.000Z", durationMinutes: 100 })
+    .expect(201);
+  await agent.post(`/api/cases/${caseData.id}/expenses`)
+    .send({ incurredOn: "2025-03-01", category: "venue", description: "Room hire", amount: "100" })
+    .expect(201);
+  return { mediator, caseData, parties, agent, entry };
+}
+
+describe("invoices", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("splits the fees between parties with rounding on the last share and numbers them in sequence", async () => {
+    const { caseData, parties: [alpha, beta, gamma], agent } = await createBillableCase(app);
+    const shares = [
+      { partyId: alpha.id, percent: 33.33, billTo: "party" },
+      { partyId: beta.id, percent: 33.33, billTo: "party" },
+      { partyId: gamma.id, percent: 33.34, billTo: "party" },
+    ];
+
+    await agent.post(`/api/cases/${caseData.id}/invoices`).send({ shares }).expect(400);
+    await agent.put("/api/invoice-settings").send({ businessName: "Test Mediation", taxRate: 10, numberPrefix: "MED-", nextNumber: 41 }).expect(200);
+    await agent.post(`/api/cases/${caseData.id}/invoices`).send({ shares: shares.slice(0, 2) }).expect(400);
+    await agent.post(`/api/cases/${caseData.id}/invoices`)
+      .send({ shares: [{ partyId: alpha.id, percent: 100, billTo: "legal_rep" }] })
+      .expect(400);
+
+    const { body: invoices } = await agent.post(`/api/cases/${caseData.id}/invoices`).send({ shares }).expect(201);
+    expect(invoices.map((invoice: Invoice) => [invoice.invoiceNumber, invoice.partyName, invoice.subtotal, invoice.taxAmount, invoice.total])).toEqual([
+      ["MED-000041", "Alpha Pty Ltd", "88.88", "8.89", "97.77"],
+      ["MED-000042", "Beta Pty Ltd", "88.88", "8.89", "97.77"],
+      ["MED-000043", "Gamma Pty Ltd", "88.91", "8.89", "97.80"],
+    ]);
+    expect(invoices[0].lineItems).toHaveLength(2);
+    expect((await storage.getCase(caseData.id))?.feeSplit).toEqual(shares);
+
+    await agent.post(`/api/cases/${caseData.id}/invoices`).send({ shares }).expect(400);
+    await agent.put("/api/invoice-settings").send({ businessName: "Test Mediation", numberPrefix: "MED-", nextNumber: 1 }).expect(400);
+  });
+
+  it("releases the billed items once every invoice in the run is void", async () => {
+    const { caseData, parties: [alpha, beta], agent, entry } = await createBillableCase(app);
+    await agent.put("/api/invoice-settings").send({ businessName: "Test Mediation" }).expect(200);
+    const shares = [{ partyId: alpha.id, percent: 50, billTo: "party" }, { partyId: beta.id, percent: 50, billTo: "party" }];
+    const { body: [first, second] } = await agent.post(`/api/cases/${caseData.id}/invoices`).send({ shares }).expect(201);
+
+    await agent.patch(`/api/cases/${caseData.id}/time-entries/${entry.id}`).send({ durationMinutes: 60 }).expect(400);
+    const { body: paid } = await agent.post(`/api/cases/${caseData.id}/invoices/${first.id}/status`).send({ status: "paid" }).expect(200);
+    expect(paid.paidAt).not.toBeNull();
+    await agent.post(`/api/cases/${caseData.id}/invoices/${first.id}/void`).expect(400);
+    await agent.post(`/api/cases/${caseData.id}/invoices/${first.id}/status`).send({ status: "unpaid" }).expect(200);
+
+    const { body: firstVoid } = await agent.post(`/api/cases/${caseData.id}/invoices/${first.id}/void`).expect(200);
+    expect(firstVoid).toMatchObject({ released: false, invoice: { status: "void" } });
+    await agent.post(`/api/cases/${caseData.id}/invoices/${first.id}/void`).expect(400);
+    await agent.post(`/api/cases/${caseData.id}/invoices/${first.id}/status`).send({ status: "paid" }).expect(400);
+    const { body: secondVoid } = await agent.post(`/api/cases/${caseData.id}/invoices/${second.id}/void`).expect(200);
+    expect(secondVoid.released).toBe(true);
+
+    await agent.patch(`/api/cases/${caseData.id}/time-entries/${entry.id}`).send({ durationMinutes: 60 }).expect(200);
+    const { body: reissued } = await agent.post(`/api/cases/${caseData.id}/invoices`)
+      .send({ shares: [{ partyId: alpha.id, percent: 100, billTo: "party" }] })
+      .expect(201);
+    // Void invoices keep their numbers
+    expect(reissued.map((invoice: Invoice) => [invoice.invoiceNumber, invoice.total])).toEqual([["INV-000003", "200.00"]]);
+  });
+});
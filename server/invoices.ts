@@ -0,0 +1,270 @@
+import {
+  expenseCategoryLabels,
+  timeEntryActivityLabels,
+  timeEntryAmount,
+  type Case,
+  type ExpenseCategory,
+  type GenerateInvoices,
+  type Invoice,
+  type InvoiceLineItem,
+  type InvoiceSettings,
+  type TimeEntryActivityType,
+} from "@shared/schema";
+import { storage, type NewInvoiceRun } from "./storage";
+import { LocalFileStorageService } from "./localFileStorage";
+import { renderPdf } from "./pdf";
+
+// The invoices cannot be generated or sent; status is the HTTP status to answer with
+export class InvoiceError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "InvoiceError";
+    Object.setPrototypeOf(this, InvoiceError.prototype);
+  }
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-AU", { day: "numeric", month: "long", year: "numeric" });
+
+const formatMoney = (amount: number | string, currency: string) =>
+  Number(amount).toLocaleString("en-AU", { style: "currency", currency });
+
+export const invoiceFileName = (invoice: Invoice) => `${invoice.invoiceNumber.replace(/[\\/:*?"<>|]/g, "_")}.pdf`;
+
+// Bills every unbilled billable item on the case in one currency. Each share becomes an invoice to
+// that party (or its solicitors); rounding differences go to the last invoice so the shares add up.
+export async function generateInvoices(caseData: Case, input: GenerateInvoices, actorId: string): Promise<Invoice[]> {
+  const settings = await storage.getInvoiceSettings(actorId);
+  if (!settings) {
+    throw new InvoiceError("Set up your invoice letterhead in Settings before generating invoices");
+  }
+  const [parties, entries, expenses] = await Promise.all([
+    storage.getPartiesWithRepresentatives(caseData.id),
+    storage.getTimeEntries(caseData.id),
+    storage.getCaseExpenses(caseData.id),
+  ]);
+
+  const unbilledEntries = entries.filter(entry => entry.billable && entry.durationMinutes !== null && !entry.invoiceRunId);
+  const unbilledExpenses = expenses.filter(expense => expense.billable && !expense.invoiceRunId);
+  const currencies = Array.from(new Set([...unbilledEntries, ...unbilledExpenses].map(item => item.currency)));
+  if (currencies.length === 0) {
+    throw new InvoiceError("There is no unbilled time or expenses on this case");
+  }
+  if (!input.currency && currencies.length > 1) {
+    throw new InvoiceError(`Unbilled items are in more than one currency (${currencies.join(", ")}). Choose one to invoice.`);
+  }
+  const currency = input.currency ?? currencies[0];
+  const billedEntries = unbilledEntries.filter(entry => entry.currency === currency);
+  const billedExpenses = unbilledExpenses.filter(expense => expense.currency === currency);
+  if (billedEntries.length === 0 && billedExpenses.length === 0) {
+    throw new InvoiceError(`There is no unbilled time or expenses in ${currency}`);
+  }
+  const unratedMinutes = billedEntries.filter(entry => entry.hourlyRate === null).reduce((sum, entry) => sum + entry.durationMinutes!, 0);
+  if (unratedMinutes > 0) {
+    throw new InvoiceError(`${unratedMinutes} minutes of billable time have no hourly rate. Set a rate on those entries first.`);
+  }
+
+  const lineItems: InvoiceLineItem[] = [
+    ...billedEntries.map(entry => ({
+      kind: "time" as const,
+      date: entry.startedAt.toISOString(),
+      description: [timeEntryActivityLabels[entry.activityType as TimeEntryActivityType] ?? entry.activityType, entry.description]
+        .filter(Boolean)
+        .join(": "),
+      quantity: round(entry.durationMinutes! / 60),
+      unitAmount: Number(entry.hourlyRate),
+      amount: timeEntryAmount(entry)!,
+    })),
+    ...billedExpenses.map(expense => ({
+      kind: "expense" as const,
+      date: expense.incurredOn.toISOString(),
+      description: `${expenseCategoryLabels[expense.category as ExpenseCategory] ?? expense.category}: ${expense.description}`,
+      quantity: 1,
+      unitAmount: Number(expense.amount),
+      amount: Number(expense.amount),
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+  const fullAmount = round(lineItems.reduce((sum, item) => sum + item.amount, 0));
+
+  const shares = input.shares.filter(share => share.percent > 0);
+  const issuedAt = input.issuedAt ?? new Date();
+  const dueAt = new Date(issuedAt.getTime() + settings.paymentTermsDays * 24 * 60 * 60 * 1000);
+  const taxRate = Number(settings.taxRate);
+  let allocated = 0;
+
+  const drafts = shares.map((share, index) => {
+    const party = parties.find(p => p.id === share.partyId);
+    if (!party) {
+      throw new InvoiceError("Fee shares can only be assigned to parties on this case");
+    }
+    const legalRep = party.legalRepFirm || party.legalRepName;
+    if (share.billTo === "legal_rep" && !legalRep) {
+      throw new InvoiceError(`${party.entityName} has no legal representative to invoice`);
+    }
+
+    const subtotal = index === shares.length - 1 ? round(fullAmount - allocated) : round(fullAmount * share.percent / 100);
+    allocated = round(allocated + subtotal);
+    const taxAmount = round(subtotal * taxRate / 100);
+    return {
+      partyId: party.id,
+      partyName: party.entityName,
+      billTo: share.billTo,
+      recipientName: share.billTo === "legal_rep" ? legalRep! : party.entityName,
+      recipientAttention: share.billTo === "legal_rep"
+        ? (party.legalRepFirm ? party.legalRepName : null)
+        : party.primaryContactName,
+      recipientEmail: share.billTo === "legal_rep" ? party.legalRepEmail : party.primaryContactEmail,
+      sharePercent: share.percent.toFixed(2),
+      currency,
+      lineItems,
+      subtotal: subtotal.toFixed(2),
+      taxRate: settings.taxRate,
+      taxAmount: taxAmount.toFixed(2),
+      total: round(subtotal + taxAmount).toFixed(2),
+      issuedAt,
+      dueAt,
+    } satisfies NewInvoiceRun["invoices"][number];
+  });
+
+  const created = await storage.createInvoices({
+    caseId: caseData.id,
+    settingsId: settings.id,
+    createdBy: actorId,
+    feeSplit: input.shares,
+    timeEntryIds: billedEntries.map(entry => entry.id),
+    expenseIds: billedExpenses.map(expense => expense.id),
+    invoices: drafts,
+  });
+  if (!created) {
+    throw new InvoiceError("Some of these items were invoiced in the meantime. Refresh and try again.", 409);
+  }
+  return created;
+}
+
+async function readLogo(settings: InvoiceSettings): Promise<Buffer | null> {
+  if (!settings.logoObjectPath) return null;
+  try {
+    return await new LocalFileStorageService().readFile(settings.logoObjectPath);
+  } catch (error) {
+    console.error("Error reading invoice logo:", error);
+    return null;
+  }
+}
+
+// The invoice on the practice letterhead, rendered from the stored snapshot each time it is requested
+export async function renderInvoicePdf(invoice: Invoice, caseData: Case): Promise<Buffer> {
+  const settings = await storage.getInvoiceSettingsById(invoice.settingsId);
+  if (!settings) {
+    throw new InvoiceError("The invoice letterhead no longer exists", 404);
+  }
+  const logo = await readLogo(settings);
+  const money = (amount: number | string) => formatMoney(amount, invoice.currency);
+  const taxRate = Number(invoice.taxRate);
+
+  return renderPdf((doc) => {
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const top = doc.y;
+
+    // Letterhead: logo and practice name on the left, contact details on the right
+    if (logo) {
+      doc.image(logo, left, top, { fit: [140, 60] });
+      doc.y = top + 66;
+    }
+    doc.font("Helvetica-Bold").fontSize(16).fillColor("#111827").text(settings.businessName, left, doc.y, { width: width / 2 });
+    const contact = [settings.address, settings.phone, settings.email, settings.taxNumber ? `ABN ${settings.taxNumber}` : null]
+      .filter(Boolean)
+      .join("\n");
+    doc.font("Helvetica").fontSize(9).fillColor("#4b5563").text(contact, left + width / 2, top, { width: width / 2, align: "right" });
+    doc.y = Math.max(doc.y, top + (logo ? 90 : 40));
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor("#d1d5db").stroke();
+
+    doc.moveDown(1).font("Helvetica-Bold").fontSize(18).fillColor("#1e3a8a").text(taxRate > 0 ? "TAX INVOICE" : "INVOICE", left);
+    const detailsTop = doc.y + 6;
+    doc.font("Helvetica").fontSize(10).fillColor("#111827");
+    doc.font("Helvetica-Bold").text("Bill to", left, detailsTop).font("Helvetica");
+    doc.text([invoice.recipientName, invoice.recipientAttention ? `Attn: ${invoice.recipientAttention}` : null,
+      invoice.billTo === "legal_rep" ? `Solicitors for ${invoice.partyName}` : null].filter(Boolean).join("\n"), { width: width / 2 });
+    const billToBottom = doc.y;
+    doc.text(
+      [`Invoice number: ${invoice.invoiceNumber}`, `Issued: ${formatDate(invoice.issuedAt)}`, `Due: ${formatDate(invoice.dueAt)}`,
+        `Matter: ${caseData.caseNumber}${caseData.mediationNumber ? ` (${caseData.mediationNumber})` : ""}`].join("\n"),
+      left + width / 2, detailsTop, { width: width / 2, align: "right" },
+    );
+    doc.y = Math.max(doc.y, billToBottom);
+
+    // Line items at their full amount, then this party's share of the total
+    const columns = { date: left, description: left + 70, quantity: left + width - 190, unit: left + width - 130, amount: left + width - 70 };
+    const row = (cells: { date: string; description: string; quantity: string; unit: string; amount: string }, bold = false) => {
+      const y = doc.y;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+      doc.text(cells.description, columns.description, y, { width: columns.quantity - columns.description - 10 });
+      const bottom = doc.y;
+      doc.text(cells.date, columns.date, y, { width: 65 });
+      doc.text(cells.quantity, columns.quantity, y, { width: 55, align: "right" });
+      doc.text(cells.unit, columns.unit, y, { width: 55, align: "right" });
+      doc.text(cells.amount, columns.amount, y, { width: 70, align: "right" });
+      doc.y = Math.max(bottom, doc.y) + 4;
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 40) doc.addPage();
+    };
+    doc.moveDown(1.5);
+    row({ date: "Date", description: "Description", quantity: "Hours/Qty", unit: "Rate", amount: "Amount" }, true);
+    doc.moveTo(left, doc.y - 2).lineTo(left + width, doc.y - 2).strokeColor("#d1d5db").stroke();
+    for (const item of invoice.lineItems) {
+      row({
+        date: new Date(item.date).toLocaleDateString("en-AU"),
+        description: item.description,
+        quantity: item.kind === "time" ? item.quantity.toFixed(2) : "1",
+        unit: money(item.unitAmount),
+        amount: money(item.amount),
+      });
+    }
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor("#d1d5db").stroke();
+    doc.moveDown(0.5);
+
+    const fullAmount = invoice.lineItems.reduce((sum, item) => sum + item.amount, 0);
+    const total = (label: string, amount: number | string, bold = false) => {
+      const y = doc.y;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(bold ? 11 : 10);
+      doc.text(label, left, y, { width: width - 80, align: "right" });
+      doc.text(money(amount), left + width - 80, y, { width: 80, align: "right" });
+      doc.moveDown(0.2);
+    };
+    total("Total fees and expenses", fullAmount);
+    total(`Share payable by ${invoice.partyName} (${Number(invoice.sharePercent)}%)`, invoice.subtotal);
+    if (taxRate > 0) total(`${settings.taxLabel} (${taxRate}%)`, invoice.taxAmount);
+    total(`Amount due (${invoice.currency})`, invoice.total, true);
+
+    if (settings.paymentInstructions) {
+      doc.moveDown(1.5).font("Helvetica-Bold").fontSize(10).text("Payment details", left);
+      doc.font("Helvetica").fontSize(9).text(settings.paymentInstructions, { width });
+    }
+    doc.moveDown(1).font("Helvetica").fontSize(9).fillColor("#6b7280")
+      .text(`Please quote ${invoice.invoiceNumber} with your payment. Payment is due by ${formatDate(invoice.dueAt)}.`, left, doc.y, { width });
+  }, { title: `Invoice ${invoice.invoiceNumber}`, author: settings.businessName });
+}
+
+// Subject and body for emailing the invoice. A custom message replaces the standard wording.
+export async function buildInvoiceEmail(invoice: Invoice, caseData: Case, options: { subject?: string; message?: string }) {
+  const settings = await storage.getInvoiceSettingsById(invoice.settingsId);
+  const businessName = settings?.businessName ?? "";
+  const subject = options.subject || `Invoice ${invoice.invoiceNumber}: mediation ${caseData.caseNumber}`;
+  const message = options.message || [
+    `Dear ${invoice.recipientAttention || invoice.recipientName},`,
+    `Please find attached invoice ${invoice.invoiceNumber} for ${invoice.partyName}'s share (${Number(invoice.sharePercent)}%) ` +
+      `of the mediation fees for matter ${caseData.caseNumber}. The amount of ${formatMoney(invoice.total, invoice.currency)} ` +
+      `is due by ${formatDate(invoice.dueAt)}.`,
+    settings?.paymentInstructions ? `Payment details:\n${settings.paymentInstructions}` : null,
+    `Kind regards,\n${businessName}`,
+  ].filter(Boolean).join("\n\n");
+  const html = `<div style="font-family: Arial, sans-serif; line-height: 1.5;">${message
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("")}</div>`;
+  return { subject, html };
+}
@@ -0,0 +1,62 @@
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { jobs } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { enqueueJob, retryDelayMs } from "./jobs";
+
+const jobType = () => `test.${randomUUID().slice(0, 8)}`;
+
+const claim = async (id: string) => {
+  await db.update(jobs).set({ status: "running", lockedAt: new Date(), attempts: 1 }).where(eq(jobs.id, id));
+};
+
+describe("job queue", () => {
+  it("backs off exponentially between retries, up to six hours", () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([60_000, 120_000, 240_000, 480_000]);
+    expect(retryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it("queues a recurring job type only once, even from concurrent workers", async () => {
+    const type = jobType();
+    const created = await Promise.all([
+      storage.createSingletonJob(type, new Date()),
+      storage.createSingletonJob(type, new Date()),
+    ]);
+
+    expect(created.filter(Boolean)).toHaveLength(1);
+    expect(await db.select().from(jobs).where(eq(jobs.type, type))).toHaveLength(1);
+  });
+
+  it("does not retry a singleton job when its next run is already queued", async () => {
+    const type = jobType();
+    const first = (await storage.createSingletonJob(type, new Date()))!;
+    await claim(first.id);
+    const next = await storage.createSingletonJob(type, new Date(Date.now() + 60_000));
+    expect(next).toBeDefined();
+
+    await storage.failJobAttempt(first.id, "Boom", new Date());
+    expect((await storage.getJob(first.id))?.status).toBe("failed");
+
+    const other = await enqueueJob(jobType());
+    await claim(other.id);
+    await storage.failJobAttempt(other.id, "Boom", new Date());
+    expect((await storage.getJob(other.id))?.status).toBe("queued");
+  });
+
+  it("only requeues attempts that stopped sending heartbeats", async () => {
+    const alive = await enqueueJob(jobType());
+    const dead = await enqueueJob(jobType());
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
+    for (const job of [alive, dead]) {
+      await db.update(jobs).set({ status: "running", lockedAt: tenMinutesAgo }).where(eq(jobs.id, job.id));
+    }
+
+    await storage.touchJob(alive.id);
+    await storage.requeueStaleJobs(new Date(Date.now() - 5 * 60 * 1000));
+
+    expect((await storage.getJob(alive.id))?.status).toBe("running");
+    expect((await storage.getJob(dead.id))?.status).toBe("queued");
+  });
+});
@@ -0,0 +1,135 @@
+import type { Job } from "@shared/schema";
+import { storage } from "./storage";
+
+// Persistent background jobs. Jobs are rows in the jobs table, so delayed work survives restarts
+// and several server processes can share the queue: each due job is claimed by one worker
+// (SKIP LOCKED), a recurring job type has at most one run queued (a partial unique index), and a
+// running attempt sends heartbeats so only an attempt whose worker has died is run again.
+
+export interface JobHandler {
+  run(payload: Record<string, unknown>, job: Job): Promise<void>;
+  // Called once a job has used up its attempts
+  onFailed?(payload: Record<string, unknown>, job: Job, error: string): Promise<void>;
+  // Recurring jobs are kept queued by the worker and run again this long after each run
+  everyMs?: number;
+}
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 10;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// An attempt without a heartbeat for this long is assumed to belong to a worker that died
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const FINISHED_JOB_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown> = {},
+  options: { runAt?: Date; caseId?: string | null; maxAttempts?: number } = {},
+): Promise<Job> {
+  return await storage.createJob({
+    type,
+    payload,
+    runAt: options.runAt ?? new Date(),
+    caseId: options.caseId ?? null,
+    ...(options.maxAttempts !== undefined && { maxAttempts: options.maxAttempts }),
+  });
+}
+
+// Returns false when the job has already started or finished
+export async function cancelJob(id: string): Promise<boolean> {
+  return await storage.cancelJob(id);
+}
+
+// 1 minute after the first failure, then 2, 4, 8... up to 6 hours
+export function retryDelayMs(attempts: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+async function runJob(job: Job, handlers: Record<string, JobHandler>) {
+  const handler = handlers[job.type];
+  if (!handler) {
+    await storage.failJobAttempt(job.id, `No handler for job type ${job.type}`, null);
+    return;
+  }
+
+  let finished = true;
+  const heartbeat = setInterval(() => {
+    storage.touchJob(job.id).catch(error => console.error(`Error recording heartbeat of job ${job.id}:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+  try {
+    await handler.run(job.payload, job);
+    clearInterval(heartbeat);
+    await storage.completeJob(job.id);
+  } catch (error: any) {
+    clearInterval(heartbeat);
+    const message = error?.message || String(error);
+    const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + retryDelayMs(job.attempts)) : null;
+    console.error(`Error running job ${job.type} (${job.id}, attempt ${job.attempts}):`, error);
+    await storage.failJobAttempt(job.id, message, retryAt);
+    finished = !retryAt;
+    if (finished && handler.onFailed) {
+      try {
+        await handler.onFailed(job.payload, job, message);
+      } catch (failedError) {
+        console.error(`Error handling failure of job ${job.type} (${job.id}):`, failedError);
+      }
+    }
+  }
+
+  // A retry is already queued for a recurring job that failed; nothing is queued when the next run
+  // already is
+  if (handler.everyMs && finished) {
+    await storage.createSingletonJob(job.type, new Date(Date.now() + handler.everyMs));
+  }
+}
+
+// Makes sure each recurring job type has one run queued, e.g. after a fresh install
+async function ensureRecurringJobs(handlers: Record<string, JobHandler>) {
+  for (const [type, handler] of Object.entries(handlers)) {
+    if (handler.everyMs && !(await storage.hasPendingJob(type))) {
+      await storage.createSingletonJob(type, new Date());
+    }
+  }
+}
+
+const builtInHandlers: Record<string, JobHandler> = {
+  "jobs.cleanup": {
+    everyMs: 24 * 60 * 60 * 1000,
+    async run() {
+      const deleted = await storage.deleteFinishedJobs(new Date(Date.now() - FINISHED_JOB_RETENTION_MS));
+      if (deleted) console.log(`Job cleanup removed ${deleted} finished job(s)`);
+    },
+  },
+};
+
+export function startJobWorker(jobHandlers: Record<string, JobHandler>) {
+  const handlers = { ...builtInHandlers, ...jobHandlers };
+
+  const tick = async () => {
+    try {
+      await storage.requeueStaleJobs(new Date(Date.now() - STALE_LOCK_MS));
+      let claimed: Job[];
+      do {
+        claimed = await storage.claimDueJobs(BATCH_SIZE);
+        for (const job of claimed) {
+          await runJob(job, handlers);
+        }
+      } while (claimed.length === BATCH_SIZE);
+    } catch (error) {
+      console.error("Error polling job queue:", error);
+    }
+    setTimeout(tick, POLL_INTERVAL_MS);
+  };
+
+  const start = async () => {
+    try {
+      await ensureRecurringJobs(handlers);
+    } catch (error) {
+      console.error("Error scheduling recurring jobs:", error);
+    }
+    await tick();
+  };
+  setTimeout(start, 10 * 1000);
+}
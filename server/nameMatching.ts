@@ -0,0 +1,75 @@
+// Fuzzy name matching shared by the contacts directory and conflict checks
+
+const LEGAL_SUFFIXES = [
+  "pty ltd", "pty limited", "proprietary limited", "limited", "ltd", "inc", "incorporated",
+  "llc", "llp", "plc", "corp", "corporation", "co", "company", "lawyers", "solicitors", "legal", "and",
+];
+
+// Lowercases, strips punctuation, "the" and company/firm suffixes so "Smith & Co Pty Ltd" ~ "smith"
+export function normalizeName(name: string | null | undefined): string {
+  if (!name) return "";
+  let normalized = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+
+  let stripped = true;
+  while (stripped) {
+    stripped = false;
+    for (const suffix of LEGAL_SUFFIXES) {
+      if (normalized.endsWith(` ${suffix}`)) {
+        normalized = normalized.slice(0, -suffix.length - 1).trim();
+        stripped = true;
+      }
+    }
+  }
+  return normalized;
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Similarity between 0 and 1. Takes the better of edit distance and word overlap,
+// so both typos ("Jon Smith") and reordering ("Smith, John") score highly.
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const editScore = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+
+  const leftTokens = new Set(left.split(" "));
+  const rightTokens = new Set(right.split(" "));
+  const shared = Array.from(leftTokens).filter(token => rightTokens.has(token)).length;
+  const tokenScore = shared / Math.max(leftTokens.size, rightTokens.size);
+
+  return Math.max(editScore, tokenScore);
+}
+
+export const NAME_MATCH_THRESHOLD = 0.8;
+
+export function isNameMatch(a: string | null | undefined, b: string | null | undefined, threshold = NAME_MATCH_THRESHOLD): boolean {
+  return nameSimilarity(a, b) >= threshold;
+}
+
+export function normalizeEmail(email: string | null | undefined): string {
+  return (email || "").trim().toLowerCase();
+}
@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createTestPractice, createTestUser, signIn } from "./test/helpers";
+
+describe("adding team members", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("invites an existing account instead of adding it", async () => {
+    const { organization, admin } = await createTestPractice();
+    const existing = await createTestUser("Existing");
+    const adminAgent = await signIn(app, admin.id);
+
+    const response = await adminAgent
+      .post("/api/organization/members")
+      .send({ email: existing.email, role: "mediator" })
+      .expect(202);
+    expect(response.body.invitation).toMatchObject({ organizationId: organization.id, userId: existing.id });
+    expect(await storage.getOrganizationMembership(existing.id)).toBeUndefined();
+
+    const userAgent = await signIn(app, existing.id);
+    const invitations = (await userAgent.get("/api/organization/invitations").expect(200)).body;
+    expect(invitations).toHaveLength(1);
+    expect(invitations[0].organizationName).toBe(organization.name);
+
+    await userAgent.post(`/api/organization/invitations/${response.body.invitation.id}/accept`).expect(200);
+    expect(await storage.getOrganizationMembership(existing.id)).toMatchObject({ organizationId: organization.id, role: "mediator" });
+    expect(await storage.getReceivedInvitations(existing.id)).toHaveLength(0);
+  });
+
+  it("only lets the invited user accept", async () => {
+    const { admin } = await createTestPractice();
+    const invited = await createTestUser("Invited");
+    const someoneElse = await createTestUser("Else");
+    const invitation = await storage.inviteOrganizationMember({
+      organizationId: (await storage.getOrganizationMembership(admin.id))!.organizationId,
+      userId: invited.id,
+      role: "admin",
+      invitedBy: admin.id,
+    });
+
+    const agent = await signIn(app, someoneElse.id);
+    await agent.post(`/api/organization/invitations/${invitation.id}/accept`).expect(404);
+    await agent.delete(`/api/organization/invitations/${invitation.id}`).expect(404);
+    expect(await storage.getOrganizationMembership(someoneElse.id)).toBeUndefined();
+    expect(await storage.getOrganizationInvitation(invitation.id)).toBeDefined();
+  });
+
+  it("adds a new local account directly", async () => {
+    const { organization, admin } = await createTestPractice();
+    const adminAgent = await signIn(app, admin.id);
+    const username = `new-${Date.now()}`;
+
+    await adminAgent
+      .post("/api/organization/members")
+      .send({ email: `${username}@example.com`, role: "case_manager", username, password: "a-long-password" })
+      .expect(201);
+    expect(await storage.getOrganizationMembership(username)).toMatchObject({ organizationId: organization.id });
+  });
+});
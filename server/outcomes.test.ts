@@ -0,0 +1,95 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { CaseStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+const toSession: CaseStatus[] = ["intake", "scheduled", "in_session"];
+
+async function createCaseInSession(mediatorId: string) {
+  const caseData = await createTestCase(mediatorId);
+  for (const status of toSession) {
+    await storage.transitionCaseStatus(caseData.id, status, mediatorId);
+  }
+  return caseData;
+}
+
+describe("case outcomes", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("needs an outcome before closing and fixes the outcome type once closed", async () => {
+    const mediator = await createTestUser();
+    const agent = await signIn(app, mediator.id);
+    const referred = await createTestCase(mediator.id);
+    await agent.put(`/api/cases/${referred.id}/outcome`).send({ outcomeType: "settled" }).expect(400);
+    await agent.put(`/api/cases/${referred.id}/outcome`).send({ outcomeType: "withdrawn", settlementAmount: "500" }).expect(400);
+
+    const caseData = await createCaseInSession(mediator.id);
+    await agent.post(`/api/cases/${caseData.id}/status`).send({ status: "closed" }).expect(400);
+    await agent.post(`/api/cases/${caseData.id}/status`).send({ status: "settled" }).expect(200);
+    await agent.post(`/api/cases/${caseData.id}/status`).send({ status: "closed" }).expect(409);
+
+    await agent.put(`/api/cases/${caseData.id}/outcome`)
+      .send({ outcomeType: "settled", resolvedIssues: ["Parking"] })
+      .expect(400);
+    const { body: recorded } = await agent.put(`/api/cases/${caseData.id}/outcome`)
+      .send({ outcomeType: "settled", settlementAmount: "$1,250.50", resolvedIssues: ["Outstanding rent"] })
+      .expect(200);
+    expect(recorded.outcome).toMatchObject({ settlementAmount: "1250.50", currency: "AUD", recordedBy: mediator.id });
+    expect(recorded.case.status).toBe("settled");
+
+    const { body: closed } = await agent.post(`/api/cases/${caseData.id}/status`).send({ status: "closed" }).expect(200);
+    expect(closed.closedAt).not.toBeNull();
+    await agent.put(`/api/cases/${caseData.id}/outcome`).send({ outcomeType: "impasse" }).expect(400);
+    const { body: corrected } = await agent.put(`/api/cases/${caseData.id}/outcome`)
+      .send({ outcomeType: "settled", settlementAmount: "1300", resolvedIssues: ["Outstanding rent"] })
+      .expect(200);
+    expect(corrected.outcome.settlementAmount).toBe("1300.00");
+    expect(corrected.case.status).toBe("closed");
+    expect((await storage.getAuditEvents(caseData.id)).map(event => event.action)).toEqual(
+      expect.arrayContaining(["outcome.recorded", "outcome.updated"]),
+    );
+  });
+
+  it("moves a case in session to its outcome and reports on the outcomes the user can see", async () => {
+    const mediator = await createTestUser();
+    const agent = await signIn(app, mediator.id);
+    const settled = await createCaseInSession(mediator.id);
+    const impasse = await createCaseInSession(mediator.id);
+    const otherMediator = await createTestUser("Other");
+    const hidden = await createCaseInSession(otherMediator.id);
+    await storage.saveCaseOutcome(hidden.id, {
+      outcomeType: "settled",
+      settlementAmount: "90000.00",
+      currency: "AUD",
+      resolvedIssues: [],
+    }, otherMediator.id);
+
+    const { body: settledResult } = await agent.put(`/api/cases/${settled.id}/outcome`)
+      .send({ outcomeType: "settled", settlementAmount: 1000, resolvedIssues: ["Outstanding rent"], sessionDurationMinutes: 120 })
+      .expect(200);
+    expect(settledResult.case.status).toBe("settled");
+    await agent.put(`/api/cases/${impasse.id}/outcome`).send({ outcomeType: "impasse", sessionDurationMinutes: 60 }).expect(200);
+    expect((await storage.getCaseStatusHistory(impasse.id)).at(-1)).toMatchObject({ toStatus: "impasse", reason: "Outcome recorded" });
+
+    const { body: report } = await agent.get("/api/reports/outcomes").expect(200);
+    expect(report.rows.map((row: { caseId: string }) => row.caseId).sort()).toEqual([settled.id, impasse.id].sort());
+    expect(report.summary).toEqual({
+      total: 2,
+      byType: { settled: 1, partially_settled: 0, impasse: 1, withdrawn: 0 },
+      settlementRate: 0.5,
+      settlementTotals: [{ currency: "AUD", total: 1000, count: 1 }],
+      averageDurationMinutes: 90,
+      issuesRaised: 2,
+      issuesResolved: 1,
+    });
+
+    const { body: filtered } = await agent.get("/api/reports/outcomes").query({ outcomeType: "impasse" }).expect(200);
+    expect(filtered.rows.map((row: { caseId: string }) => row.caseId)).toEqual([impasse.id]);
+    await agent.get("/api/reports/outcomes").query({ outcomeType: "closed" }).expect(400);
+  });
+});
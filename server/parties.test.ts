@@ -0,0 +1,42 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+describe("deleting a party", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("detaches its attendance and invoices", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const party = await storage.createParty({ caseId: caseData.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    const other = await storage.createParty({ caseId: caseData.id, entityName: "Beta Pty Ltd", partyType: "respondent" });
+    const representative = await storage.createPartyRepresentative({ partyId: party.id, name: "Sam Solicitor", firm: "Law & Co" });
+    const session = await storage.createMediationSession(caseData.id, { title: "Mediation", startsAt: new Date(), durationMinutes: 120 }, mediator.id);
+    await storage.createSessionAttendee(session, { partyId: party.id, representativeId: representative.id, name: "Sam Solicitor", role: "lawyer" }, mediator.id);
+
+    const agent = await signIn(app, mediator.id);
+    await agent.put("/api/invoice-settings").send({ businessName: "Test Mediation", taxRate: 10 }).expect(200);
+    await agent.post(`/api/cases/${caseData.id}/expenses`)
+      .send({ incurredOn: "2025-03-01", category: "venue", description: "Room hire", amount: "200" })
+      .expect(201);
+    await agent.post(`/api/cases/${caseData.id}/invoices`)
+      .send({ shares: [{ partyId: party.id, percent: 50, billTo: "party" }, { partyId: other.id, percent: 50, billTo: "party" }] })
+      .expect(201);
+
+    await agent.delete(`/api/cases/${caseData.id}/parties/${party.id}`).expect(200);
+
+    expect(await storage.getParty(party.id)).toBeUndefined();
+    const [attendee] = await storage.getSessionAttendees(session.id);
+    expect(attendee).toMatchObject({ partyId: null, representativeId: null, name: "Sam Solicitor" });
+    const invoices = await storage.getInvoices(caseData.id);
+    expect(invoices.map(invoice => [invoice.partyName, invoice.partyId]).sort()).toEqual([
+      ["Alpha Pty Ltd", null],
+      ["Beta Pty Ltd", other.id],
+    ]);
+  });
+});
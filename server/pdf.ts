@@ -0,0 +1,40 @@
+import PDFDocument from "pdfkit";
+
+export type PdfDocument = PDFKit.PDFDocument;
+
+// Renders a PDF in memory with PDFKit's built-in Helvetica, so no font files need to be deployed
+export function renderPdf(draw: (doc: PdfDocument) => void, info: { title: string; author?: string }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: 50,
+      info: info.author ? { Title: info.title, Author: info.author } : { Title: info.title },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    try {
+      draw(doc);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+export function pdfHeading(doc: PdfDocument, text: string) {
+  doc.moveDown(0.8).font("Helvetica-Bold").fontSize(13).fillColor("#1e3a8a").text(text);
+  doc.moveDown(0.3).font("Helvetica").fontSize(10).fillColor("#111827");
+}
+
+// A bold label followed by its value on the same line
+export function pdfField(doc: PdfDocument, label: string, value: string | null | undefined) {
+  doc.font("Helvetica-Bold").text(`${label}: `, { continued: true }).font("Helvetica").text(value || "Not specified");
+}
+
+export function pdfParagraphs(doc: PdfDocument, text: string) {
+  for (const paragraph of text.split(/\n{2,}/)) {
+    doc.text(paragraph.trim(), { align: "left" }).moveDown(0.5);
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { REMINDER_SEND_JOB, reminderJobHandlers, syncCaseReminders } from "./reminders";
+import { createTestCase, createTestUser } from "./test/helpers";
+
+const sent = vi.hoisted(() => [] as { to: string; cc?: string; html?: string }[]);
+
+vi.mock("./gmailService", () => ({
+  GmailService: class {
+    async sendEmail(params: { to: string; cc?: string; html?: string }) {
+      sent.push(params);
+      return `message-${sent.length}`;
+    }
+  },
+}));
+
+describe("automated reminders", () => {
+  it("copies every case mediator in and escapes the message", async () => {
+    const lead = await createTestUser("Lead");
+    const coMediator = await createTestUser("Co");
+    const caseData = await createTestCase(lead.id);
+    await storage.addCaseMediator({ caseId: caseData.id, userId: coMediator.id, role: "co" });
+    await storage.createParty({
+      caseId: caseData.id,
+      entityName: "<Alpha> & Sons",
+      partyType: "applicant",
+      primaryContactName: "Ann",
+      primaryContactEmail: "ann@example.com",
+    });
+    await storage.createCalendarSettings({ userId: lead.id, clientId: "id", clientSecret: "secret", accessToken: "a", refreshToken: "r" });
+    await storage.createReminderRule(lead.id, {
+      name: "A week before",
+      daysBefore: 7,
+      recipients: "parties",
+      subject: "Mediation {caseNumber}",
+      body: "Dear {recipientName},\nre {applicant_1_name}",
+      enabled: true,
+    });
+    await storage.createMediationSession(caseData.id, {
+      title: "Mediation session",
+      startsAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      durationMinutes: 210,
+      format: "remote",
+    }, lead.id);
+    await syncCaseReminders(caseData.id);
+    const [reminder] = await storage.getCaseReminders(caseData.id);
+
+    await reminderJobHandlers[REMINDER_SEND_JOB].run({ reminderId: reminder.id }, {} as any);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("ann@example.com");
+    expect(sent[0].cc?.split(", ").sort()).toEqual([lead.email, coMediator.email].sort());
+    expect(sent[0].html).toBe("Dear Ann,<br/>re &lt;Alpha&gt; &amp; Sons");
+    expect((await storage.getCaseReminder(reminder.id))?.status).toBe("sent");
+  });
+});
@@ -0,0 +1,256 @@
+import { openCaseStatuses, replaceCasePlaceholders, type Case, type CaseReminder, type CaseStatus, type MediationSession, type ReminderRule } from "@shared/schema";
+import { storage } from "./storage";
+import { cancelJob, enqueueJob, type JobHandler } from "./jobs";
+
+export const REMINDER_SEND_JOB = "reminder.send";
+export const REMINDER_PLAN_JOB = "reminders.plan";
+
+const PLAN_INTERVAL_MS = 30 * 60 * 1000;
+
+function reminderSendAt(mediationDate: Date, daysBefore: number) {
+  const sendAt = new Date(mediationDate);
+  sendAt.setDate(sendAt.getDate() - daysBefore);
+  return sendAt;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function isOpen(caseData: Case) {
+  return !caseData.deletedAt && openCaseStatuses.includes(caseData.status as CaseStatus);
+}
+
+// Why a scheduled reminder should no longer go out, if it shouldn't
+function skipReason(reminder: CaseReminder, caseData: Case, sessions: MediationSession[], rule: ReminderRule | undefined): string | null {
+  if (caseData.deletedAt) return "Case was deleted";
+  if (!openCaseStatuses.includes(caseData.status as CaseStatus)) return "Case is no longer open";
+  const session = sessions.find(candidate => candidate.id === reminder.sessionId);
+  if (!session) return "Session was removed";
+  if (session.startsAt.getTime() !== reminder.mediationDate.getTime()) return "Session was rescheduled";
+  if (!rule) return "Reminder rule was deleted";
+  if (!rule.enabled) return "Reminder rule was turned off";
+  return null;
+}
+
+async function scheduleReminderJob(reminder: CaseReminder) {
+  const job = await enqueueJob(REMINDER_SEND_JOB, { reminderId: reminder.id }, { runAt: reminder.sendAt, caseId: reminder.caseId });
+  return await storage.updateCaseReminder(reminder.id, { jobId: job.id });
+}
+
+// Brings a case's reminders in line with its mediation sessions and the practice's rules:
+// reminders for a session that has moved or been removed are skipped, and each enabled rule gets
+// one for every upcoming session unless its send time has already passed. Cancelled reminders
+// stay cancelled.
+export async function syncCaseReminders(caseId: string) {
+  const caseData = await storage.getCase(caseId, { includeDeleted: true });
+  if (!caseData) return;
+
+  const rules = await storage.getReminderRules(caseData.mediatorId);
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]));
+  const reminders = await storage.getCaseReminders(caseId);
+  const sessions = await storage.getMediationSessions(caseId);
+  const now = new Date();
+
+  for (const reminder of reminders) {
+    if (reminder.status !== "scheduled" && reminder.status !== "skipped") continue;
+    const rule = rulesById.get(reminder.ruleId);
+    const reason = skipReason(reminder, caseData, sessions, rule);
+
+    if (reason) {
+      if (reminder.status === "scheduled") {
+        if (reminder.jobId) await cancelJob(reminder.jobId);
+        await storage.updateCaseReminder(reminder.id, { status: "skipped", statusNote: reason, jobId: null });
+      }
+      continue;
+    }
+
+    // The rule's timing may have changed since the reminder was scheduled
+    const sendAt = reminderSendAt(reminder.mediationDate, rule!.daysBefore);
+    if (reminder.status === "skipped") {
+      if (sendAt <= now) continue;
+      const resumed = await storage.updateCaseReminder(reminder.id, { status: "scheduled", statusNote: null, sendAt });
+      await scheduleReminderJob(resumed);
+    } else if (sendAt.getTime() !== reminder.sendAt.getTime() && sendAt > now) {
+      await storage.updateCaseReminder(reminder.id, { sendAt, ruleName: rule!.name });
+      if (!reminder.jobId || !(await storage.rescheduleJob(reminder.jobId, sendAt))) {
+        await scheduleReminderJob({ ...reminder, sendAt });
+      }
+    }
+  }
+
+  if (!isOpen(caseData)) return;
+  for (const session of sessions) {
+    if (session.startsAt <= now) continue;
+    for (const rule of rules) {
+      if (!rule.enabled) continue;
+      const exists = reminders.some(reminder =>
+        reminder.ruleId === rule.id
+        && reminder.sessionId === session.id
+        && reminder.mediationDate.getTime() === session.startsAt.getTime());
+      const sendAt = reminderSendAt(session.startsAt, rule.daysBefore);
+      if (exists || sendAt <= now) continue;
+
+      const reminder = await storage.createCaseReminder({
+        caseId,
+        sessionId: session.id,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        mediationDate: session.startsAt,
+        sendAt,
+      });
+      await scheduleReminderJob(reminder);
+    }
+  }
+}
+
+// Schedules reminders on every case with a session still ahead, picking up rule changes
+export async function planReminders() {
+  let synced = 0;
+  for (const caseData of await storage.getCasesWithUpcomingSessions()) {
+    try {
+      await syncCaseReminders(caseData.id);
+      synced++;
+    } catch (error) {
+      console.error(`Error scheduling reminders for case ${caseData.caseNumber}:`, error);
+    }
+  }
+  return synced;
+}
+
+// Reminder rules changed; reschedule in the background rather than in the request
+export async function queueReminderPlanning() {
+  await enqueueJob(REMINDER_PLAN_JOB);
+}
+
+export async function cancelCaseReminder(reminder: CaseReminder, userId: string): Promise<CaseReminder> {
+  if (reminder.jobId) await cancelJob(reminder.jobId);
+  const cancelled = await storage.updateCaseReminder(reminder.id, {
+    status: "cancelled",
+    jobId: null,
+    cancelledBy: userId,
+    cancelledAt: new Date(),
+  });
+  await storage.recordAuditEvent({
+    caseId: reminder.caseId,
+    actorId: userId,
+    action: "reminder.cancelled",
+    entityType: "reminder",
+    entityId: reminder.id,
+    metadata: { rule: reminder.ruleName, sendAt: reminder.sendAt.toISOString() },
+  });
+  return cancelled;
+}
+
+// Puts a cancelled reminder back on the schedule, if its send time is still ahead
+export async function resumeCaseReminder(reminder: CaseReminder, userId: string): Promise<CaseReminder> {
+  const resumed = await scheduleReminderJob(await storage.updateCaseReminder(reminder.id, {
+    status: "scheduled",
+    statusNote: null,
+    cancelledBy: null,
+    cancelledAt: null,
+  }));
+  await storage.recordAuditEvent({
+    caseId: reminder.caseId,
+    actorId: userId,
+    action: "reminder.resumed",
+    entityType: "reminder",
+    entityId: reminder.id,
+    metadata: { rule: reminder.ruleName, sendAt: reminder.sendAt.toISOString() },
+  });
+  // The date or rule may have changed while it was cancelled
+  await syncCaseReminders(reminder.caseId);
+  return (await storage.getCaseReminder(reminder.id)) ?? resumed;
+}
+
+// Each recipient gets their own email, addressed by name. Addresses already sent to are
+// recorded on the reminder so a retry after a partial failure doesn't send twice.
+async function sendReminder(reminderId: string) {
+  const reminder = await storage.getCaseReminder(reminderId);
+  if (!reminder || reminder.status !== "scheduled") return;
+
+  const caseData = await storage.getCase(reminder.caseId);
+  if (!caseData) return;
+  const rule = (await storage.getReminderRules(caseData.mediatorId)).find(candidate => candidate.id === reminder.ruleId);
+  const sessions = await storage.getMediationSessions(caseData.id);
+  const reason = skipReason(reminder, caseData, sessions, rule);
+  if (reason) {
+    await storage.updateCaseReminder(reminder.id, { status: "skipped", statusNote: reason, jobId: null });
+    return;
+  }
+
+  const settings = await storage.getCalendarSettings(caseData.mediatorId);
+  if (!settings?.accessToken || !settings.refreshToken) {
+    throw new Error("The case mediator's Google account is not connected");
+  }
+
+  const parties = await storage.getPartiesWithRepresentatives(caseData.id);
+  const recipients = new Map<string, string>();
+  for (const party of parties) {
+    if (party.primaryContactEmail) {
+      recipients.set(party.primaryContactEmail.toLowerCase(), party.primaryContactName || party.entityName);
+    }
+    if (rule!.recipients === "parties_and_representatives") {
+      for (const representative of party.representatives) {
+        if (representative.email && !recipients.has(representative.email.toLowerCase())) {
+          recipients.set(representative.email.toLowerCase(), representative.name);
+        }
+      }
+    }
+  }
+  if (recipients.size === 0) {
+    await storage.updateCaseReminder(reminder.id, { status: "skipped", statusNote: "No party has an email address", jobId: null });
+    return;
+  }
+
+  const caseType = caseData.caseTypeId ? await storage.getCaseType(caseData.caseTypeId) : undefined;
+  // Every mediator on the case is copied in, as on emails sent from the case
+  const mediatorEmails = (await storage.getCaseMediators(caseData.id))
+    .map(mediator => mediator.user.mediatorEmail || mediator.user.email)
+    .filter((email): email is string => !!email);
+  const { GmailService } = await import('./gmailService.js');
+  const gmailService = new GmailService(settings);
+
+  const sentTo = [...reminder.recipients];
+  const messageIds: string[] = [];
+  for (const [email, name] of Array.from(recipients)) {
+    if (sentTo.includes(email)) continue;
+    const placeholderOptions = { session: sessions.find(candidate => candidate.id === reminder.sessionId), recipientName: name, caseType };
+    const subject = replaceCasePlaceholders(rule!.subject, caseData, parties, sessions, placeholderOptions);
+    const text = replaceCasePlaceholders(rule!.body, caseData, parties, sessions, placeholderOptions);
+    messageIds.push(await gmailService.sendEmail({
+      to: email,
+      subject,
+      text,
+      html: escapeHtml(text).replace(/\n/g, '<br/>'),
+      cc: mediatorEmails.join(', ') || undefined,
+    }));
+    sentTo.push(email);
+    await storage.updateCaseReminder(reminder.id, { recipients: sentTo });
+  }
+
+  await storage.updateCaseReminder(reminder.id, { status: "sent", statusNote: null, sentAt: new Date() });
+  await storage.recordAuditEvent({
+    caseId: caseData.id,
+    action: "reminder.sent",
+    entityType: "email",
+    entityId: reminder.id,
+    metadata: { rule: rule!.name, recipients: sentTo, cc: mediatorEmails, messageIds },
+  });
+}
+
+export const reminderJobHandlers: Record<string, JobHandler> = {
+  [REMINDER_SEND_JOB]: {
+    async run(payload) {
+      await sendReminder(String(payload.reminderId));
+    },
+    async onFailed(payload, _job, error) {
+      await storage.updateCaseReminder(String(payload.reminderId), { status: "failed", statusNote: error, jobId: null });
+    },
+  },
+  [REMINDER_PLAN_JOB]: {
+    everyMs: PLAN_INTERVAL_MS,
+    async run() {
+      await planReminders();
+    },
+  },
+};
@@ -0,0 +1,127 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+import { eq } from "drizzle-orm";
+import { cases, retentionReviews, type CaseStatus, type RetentionReviewWithCase } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { evaluateRetention } from "./retention";
+import { createTestApp, createTestCase, createTestDocument, createTestPractice, createTestUser, signIn } from "./test/helpers";
+
+const yearsAgo = (years: number) => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - years);
+  return date;
+};
+
+const settledPath: CaseStatus[] = ["intake", "scheduled", "in_session", "settled", "closed"];
+const withdrawnPath: CaseStatus[] = ["withdrawn", "closed"];
+
+// A closed case with the given mediation type, closed the given number of years ago
+async function createClosedCase(mediatorId: string, path: CaseStatus[], closedYearsAgo: number, mediationType = "Remote") {
+  const caseData = await createTestCase(mediatorId);
+  for (const status of path) {
+    await storage.transitionCaseStatus(caseData.id, status, mediatorId);
+  }
+  await db.update(cases).set({ mediationType, closedAt: yearsAgo(closedYearsAgo) }).where(eq(cases.id, caseData.id));
+  return caseData;
+}
+
+describe("records retention", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("opens a review under the most specific matching rule once the retention period has passed", async () => {
+    const mediator = await createTestUser();
+    const agent = await signIn(app, mediator.id);
+    await agent.post("/api/retention/rules").send({ retentionYears: 7 }).expect(200);
+    const { body: byType } = await agent.post("/api/retention/rules").send({ mediationType: "Workplace", retentionYears: 5 }).expect(200);
+    const { body: byOutcome } = await agent.post("/api/retention/rules").send({ outcomeStatus: "withdrawn", retentionYears: 2 }).expect(200);
+    await agent.post("/api/retention/rules").send({ retentionYears: 0 }).expect(400);
+
+    const withdrawnWorkplace = await createClosedCase(mediator.id, withdrawnPath, 3, "Workplace");
+    const withdrawnRecently = await createClosedCase(mediator.id, withdrawnPath, 1);
+    const settledWorkplace = await createClosedCase(mediator.id, settledPath, 6, " workplace ");
+    const settledOther = await createClosedCase(mediator.id, settledPath, 6);
+    const stillOpen = await createTestCase(mediator.id);
+    await db.update(cases).set({ updatedAt: yearsAgo(10) }).where(eq(cases.id, stillOpen.id));
+
+    await agent.post("/api/retention/run").expect(200);
+    await agent.post("/api/retention/run").expect(200);
+
+    const { body: reviews } = await agent.get("/api/retention/reviews").expect(200);
+    const byCase = new Map(reviews.map((review: RetentionReviewWithCase) => [review.caseId, review]));
+    expect(reviews).toHaveLength(2);
+    expect(byCase.get(withdrawnWorkplace.id)).toMatchObject({ ruleId: byOutcome.id, retentionYears: 2, status: "pending" });
+    expect(byCase.get(settledWorkplace.id)).toMatchObject({ ruleId: byType.id, retentionYears: 5, status: "pending" });
+    expect(byCase.has(withdrawnRecently.id)).toBe(false);
+    expect(byCase.has(settledOther.id)).toBe(false);
+    expect(byCase.has(stillOpen.id)).toBe(false);
+
+    const other = await signIn(app, (await createTestUser("Other")).id);
+    const { body: otherReviews } = await other.get("/api/retention/reviews").expect(200);
+    expect(otherReviews).toEqual([]);
+  });
+
+  it("holds deferred records until the deferral lapses and purges approved ones with a certificate", async () => {
+    const { admin, members: [mediator] } = await createTestPractice("mediator");
+    const adminAgent = await signIn(app, admin.id);
+    const { body: rule } = await adminAgent.post("/api/retention/rules").send({ outcomeStatus: "withdrawn", retentionYears: 2 }).expect(200);
+    const caseData = await createClosedCase(mediator.id, withdrawnPath, 3);
+    await storage.createParty({ caseId: caseData.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    await createTestDocument(caseData.id, mediator.id);
+
+    await evaluateRetention();
+    const { body: [review] } = await adminAgent.get("/api/retention/reviews").expect(200);
+    expect(review).toMatchObject({ caseId: caseData.id, ruleId: rule.id });
+
+    const mediatorAgent = await signIn(app, mediator.id);
+    await mediatorAgent.post(`/api/retention/reviews/${review.id}/approve`).send({}).expect(403);
+    await adminAgent.post(`/api/retention/reviews/${review.id}/defer`)
+      .send({ until: yearsAgo(1).toISOString(), note: "Appeal window" })
+      .expect(400);
+    const { body: deferred } = await adminAgent.post(`/api/retention/reviews/${review.id}/defer`)
+      .send({ until: new Date(Date.now() + 60 * 60 * 1000).toISOString(), note: "Appeal window" })
+      .expect(200);
+    expect(deferred).toMatchObject({ status: "deferred", reviewedBy: admin.id, note: "Appeal window" });
+    await adminAgent.post(`/api/retention/reviews/${review.id}/approve`).send({}).expect(400);
+
+    await evaluateRetention();
+    expect((await storage.getRetentionReviewForUser(review.id, admin.id))?.status).toBe("deferred");
+    await db.update(retentionReviews).set({ deferredUntil: new Date(Date.now() - 1000) }).where(eq(retentionReviews.id, review.id));
+    await evaluateRetention();
+    expect(await storage.getRetentionReviewForUser(review.id, admin.id)).toMatchObject({ status: "pending", deferredUntil: null });
+
+    // The test document has no stored file, which the file service logs
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { body: certificate } = await adminAgent.post(`/api/retention/reviews/${review.id}/approve`)
+      .send({ note: "Approved at the practice meeting" })
+      .expect(200);
+
+    expect(certificate).toMatchObject({
+      caseId: caseData.id,
+      caseNumber: caseData.caseNumber,
+      outcomeStatus: "withdrawn",
+      ruleId: rule.id,
+      retentionYears: 2,
+      approvedBy: admin.id,
+      note: "Approved at the practice meeting",
+    });
+    expect(certificate.summary).toMatchObject({
+      parties: ["Alpha Pty Ltd"],
+      documents: [{ name: "statement.pdf", fileSize: 100 }],
+      statusChanges: 3,
+    });
+    expect(await storage.getCase(caseData.id, { includeDeleted: true })).toBeUndefined();
+    await adminAgent.post(`/api/retention/reviews/${review.id}/approve`).send({}).expect(404);
+    expect((await adminAgent.get("/api/retention/reviews").expect(200)).body).toEqual([]);
+    const { body: certificates } = await mediatorAgent.get("/api/retention/certificates").expect(200);
+    expect(certificates.map((c: { id: string }) => c.id)).toEqual([certificate.id]);
+  });
+});
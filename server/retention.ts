@@ -0,0 +1,156 @@
+import type { DestructionCertificate, RetentionReview, RetentionRule } from "@shared/schema";
+import { storage, type RetentionCandidate } from "./storage";
+import { purgeCase } from "./trash";
+import type { JobHandler } from "./jobs";
+
+export const RETENTION_CHECK_JOB = "retention.check";
+
+const RETENTION_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Rules apply to the lead mediator's practice, or to the mediator's own cases when they have none
+function ruleAppliesTo(rule: RetentionRule, candidate: RetentionCandidate) {
+  if (candidate.organizationId) {
+    return rule.organizationId === candidate.organizationId;
+  }
+  return !rule.organizationId && rule.ownerId === candidate.caseData.mediatorId;
+}
+
+function ruleMatches(rule: RetentionRule, candidate: RetentionCandidate) {
+  if (!ruleAppliesTo(rule, candidate)) {
+    return false;
+  }
+  if (rule.outcomeStatus && rule.outcomeStatus !== candidate.outcomeStatus) {
+    return false;
+  }
+  const mediationType = candidate.caseData.mediationType?.trim().toLowerCase();
+  return !rule.mediationType || rule.mediationType.trim().toLowerCase() === mediationType;
+}
+
+// A rule naming the outcome beats one naming the mediation type, which beats a catch-all rule
+function ruleSpecificity(rule: RetentionRule) {
+  return (rule.outcomeStatus ? 2 : 0) + (rule.mediationType ? 1 : 0);
+}
+
+export function findRetentionRule(rules: RetentionRule[], candidate: RetentionCandidate): RetentionRule | undefined {
+  return rules
+    .filter(rule => ruleMatches(rule, candidate))
+    .sort((a, b) => ruleSpecificity(b) - ruleSpecificity(a) || b.retentionYears - a.retentionYears)[0];
+}
+
+function retentionDueDate(closedAt: Date, retentionYears: number) {
+  const dueAt = new Date(closedAt);
+  dueAt.setFullYear(dueAt.getFullYear() + retentionYears);
+  return dueAt;
+}
+
+// Opens a review for every closed case past its retention period and puts deferred reviews
+// whose deferral has lapsed back in the queue. Nothing is purged without an approved review.
+export async function evaluateRetention() {
+  const rules = await storage.getAllRetentionRules();
+  if (rules.length === 0) return { reviewsOpened: 0, reviewsReopened: 0 };
+
+  const now = new Date();
+  const openReviews = new Map((await storage.getOpenRetentionReviews()).map(review => [review.caseId, review]));
+
+  let reviewsOpened = 0;
+  let reviewsReopened = 0;
+  for (const candidate of await storage.getRetentionCandidates()) {
+    const existing = openReviews.get(candidate.caseData.id);
+    if (existing) {
+      if (existing.status === "deferred" && existing.deferredUntil && existing.deferredUntil <= now) {
+        await storage.updateRetentionReview(existing.id, { status: "pending", deferredUntil: null });
+        reviewsReopened++;
+      }
+      continue;
+    }
+
+    const rule = findRetentionRule(rules, candidate);
+    if (!rule) continue;
+
+    const dueAt = retentionDueDate(candidate.closedAt, rule.retentionYears);
+    if (dueAt > now) continue;
+
+    await storage.createRetentionReview({
+      caseId: candidate.caseData.id,
+      organizationId: rule.organizationId,
+      ownerId: rule.ownerId,
+      ruleId: rule.id,
+      dueAt,
+    });
+    reviewsOpened++;
+  }
+  return { reviewsOpened, reviewsReopened };
+}
+
+// Purges the case under review and records a destruction certificate listing what was destroyed
+export async function approveRetentionReview(review: RetentionReview, approvedBy: string, note?: string): Promise<DestructionCertificate> {
+  const [candidate] = await storage.getRetentionCandidates(review.caseId);
+  if (!candidate) {
+    throw new Error("Case is no longer closed or has already been removed");
+  }
+  const caseData = candidate.caseData;
+
+  const rule = review.ruleId ? await storage.getRetentionRule(review.ruleId) : undefined;
+  const parties = await storage.getPartiesWithRepresentatives(caseData.id);
+  const documents = await storage.getDocumentsByCase(caseData.id, { includeDeleted: true });
+  const notes = await storage.getCaseNotes(caseData.id);
+  const analyses = await storage.getAiAnalyses(caseData.id);
+  const statusHistory = await storage.getCaseStatusHistory(caseData.id);
+
+  const { filesDeleted, externalLinksRemoved } = await purgeCase(caseData);
+
+  const certificate = await storage.createDestructionCertificate({
+    organizationId: review.organizationId,
+    ownerId: review.ownerId,
+    caseId: caseData.id,
+    caseNumber: caseData.caseNumber,
+    mediationType: caseData.mediationType,
+    outcomeStatus: candidate.outcomeStatus,
+    closedAt: candidate.closedAt,
+    ruleId: rule?.id ?? null,
+    retentionYears: rule?.retentionYears ?? null,
+    approvedBy,
+    note: note || null,
+    summary: {
+      parties: parties.map(party => party.entityName),
+      representatives: parties.reduce((total, party) => total + party.representatives.length, 0),
+      documents: documents.map(document => ({ name: document.originalName, fileSize: document.fileSize })),
+      notes: notes.length,
+      aiAnalyses: analyses.length,
+      statusChanges: statusHistory.length,
+      filesDeleted,
+      externalLinksRemoved,
+    },
+  });
+
+  await storage.updateRetentionReview(review.id, {
+    status: "purged",
+    reviewedBy: approvedBy,
+    reviewedAt: new Date(),
+    note: note || null,
+    certificateId: certificate.id,
+  });
+  return certificate;
+}
+
+export async function deferRetentionReview(review: RetentionReview, deferredBy: string, until: Date, note: string): Promise<RetentionReview> {
+  return await storage.updateRetentionReview(review.id, {
+    status: "deferred",
+    deferredUntil: until,
+    reviewedBy: deferredBy,
+    reviewedAt: new Date(),
+    note,
+  });
+}
+
+export const retentionJobHandlers: Record<string, JobHandler> = {
+  [RETENTION_CHECK_JOB]: {
+    everyMs: RETENTION_CHECK_INTERVAL_MS,
+    async run() {
+      const { reviewsOpened, reviewsReopened } = await evaluateRetention();
+      if (reviewsOpened || reviewsReopened) {
+        console.log(`Retention check opened ${reviewsOpened} review(s) and reopened ${reviewsReopened}`);
+      }
+    },
+  },
+};
@@ -2,17 +2,32 @@ import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import multer from 'multer';
-import { storage } from "./storage";
+import { storage, CaseStatusTransitionError, type DuplicateCaseCriteria } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
+import { requireCaseAccess, requireDocumentAccess, requireOrganizationRole, requirePracticeAdmin } from "./caseAccess";
+import { auditContextMiddleware, preserveAuditContext } from "./auditLog";
 import { LocalFileStorageService, ObjectNotFoundError } from "./localFileStorage";
 import { aiService } from "./aiService";
 import { emailService } from "./emailService";
-import { insertCaseSchema, insertPartySchema, insertDocumentSchema, insertCaseNoteSchema, insertAiAnalysisSchema, insertEmailTemplateSchema, insertSmtpSettingsSchema, insertZoomSettingsSchema, insertCalendarSettingsSchema } from "@shared/schema";
+import { TRASH_RETENTION_DAYS, purgeCase, purgeDocument } from "./trash";
+import { evaluateRetention, approveRetentionReview, deferRetentionReview } from "./retention";
+import { CaseImportError, importCases, previewCaseImport } from "./caseImport";
+import { CaseBundleError, buildCaseExport, importCaseBundle } from "./caseExport";
+import { cancelCaseReminder, queueReminderPlanning, resumeCaseReminder, syncCaseReminders } from "./reminders";
+import { removeSessionLinks } from "./sessions";
+import { AttendanceImportError, importZoomAttendance } from "./attendance";
+import { SettlementError, generateSettlement } from "./settlements";
+import { InvoiceError, buildInvoiceEmail, generateInvoices, invoiceFileName, renderInvoicePdf } from "./invoices";
+import bcrypt from "bcryptjs";
+import { insertCaseSchema, insertPartySchema, insertDocumentSchema, insertCaseNoteSchema, insertAiAnalysisSchema, insertEmailTemplateSchema, insertSmtpSettingsSchema, insertZoomSettingsSchema, insertCalendarSettingsSchema, insertOrganizationSchema, addTeamMemberSchema, organizationRoles, insertCaseMediatorSchema, caseStatusTransitionSchema, caseStatusTransitions, updatePartySchema, reorderPartiesSchema, updateCaseSchema, insertPartyRepresentativeSchema, insertContactSchema, contactMatchSchema, contactKinds, type InsertContact, conflictCheckSchema, acknowledgeConflictSchema, intakePartiesSchema, insertRetentionRuleSchema, approveRetentionReviewSchema, insertCaseTypeSchema, customFieldValuesSchema, caseListQuerySchema, insertSavedCaseViewSchema, deferRetentionReviewSchema, caseImportRequestSchema, mergeCasesSchema, caseOutcomeSchema, outcomeReportQuerySchema, startTimerSchema, insertTimeEntrySchema, updateTimeEntrySchema, insertCaseExpenseSchema, updateCaseExpenseSchema, dismissTimeSuggestionSchema, generateInvoicesSchema, updateInvoiceStatusSchema, sendInvoiceSchema, invoiceListQuerySchema, invoiceSettingsSchema, insertCaseTaskSchema, updateCaseTaskSchema, myTasksQuerySchema, insertReminderRuleSchema, insertSettlementTemplateSchema, generateSettlementSchema, insertMediationSessionSchema, updateMediationSessionSchema, sessionRangeQuerySchema, insertSessionAttendeeSchema, updateSessionAttendeeSchema, type UpdateSessionAttendee, startSessionSegmentSchema, insertCaucusNoteSchema, sessionFormatFromMediationType, sessionFormatLabels, sessionEndsAt, type SessionFormat, type Case, type MediationSession, type CaseImportResult, type DuplicateIntakeResponse, type CaseStatus, caseStatusLabels, canTransitionCaseStatus, normalizeCaseStatus, replaceCasePlaceholders } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
+  // Attributes audit events written during the request to the signed-in user
+  app.use(auditContextMiddleware);
+
   // Configure multer for file uploads in memory
   const upload = multer({ 
     storage: multer.memoryStorage(),
@@ -36,6 +51,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Referral spreadsheets for the bulk case import
+  const spreadsheetUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 10 * 1024 * 1024, // 10MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      cb(null, /\.(csv|xlsx|xls)$/i.test(file.originalname));
+    }
+  });
+
+  // Case export bundles (ZIP) for importing a case from another instance
+  const bundleUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 200 * 1024 * 1024, // 200MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      cb(null, /\.zip$/i.test(file.originalname));
+    }
+  });
+
+  // Letterhead logos; PDFKit can only embed PNG and JPEG images
+  const logoUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 2 * 1024 * 1024, // 2MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      cb(null, ['image/png', 'image/jpeg', 'image/jpg'].includes(file.mimetype));
+    }
+  });
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -66,6 +114,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedUser = await storage.upsertUser({
         ...currentUser,
         mediatorEmail: validatedData.mediatorEmail,
+        hourlyRate: validatedData.hourlyRate !== undefined ? validatedData.hourlyRate : currentUser.hourlyRate,
+        billingCurrency: validatedData.billingCurrency ?? currentUser.billingCurrency,
         updatedAt: new Date(),
       });
 
@@ -79,15 +129,256 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Organization & team management routes
+  app.get('/api/organization', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const membership = await storage.getOrganizationMembership(userId);
+
+      if (!membership) {
+        return res.json({ organization: null, membership: null, members: [], invitations: [] });
+      }
+
+      const organization = await storage.getOrganization(membership.organizationId);
+      const members = await storage.getOrganizationMembers(membership.organizationId);
+      const invitations = membership.role === 'admin' ? await storage.getSentInvitations(membership.organizationId) : [];
+
+      // Never expose password hashes of team members
+      const sanitizedMembers = members.map(({ user, ...member }) => ({
+        ...member,
+        user: { ...user, passwordHash: undefined },
+      }));
+
+      res.json({ organization, membership, members: sanitizedMembers, invitations });
+    } catch (error) {
+      console.error("Error fetching organization:", error);
+      res.status(500).json({ message: "Failed to fetch organization" });
+    }
+  });
+
+  app.post('/api/organization', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const existingMembership = await storage.getOrganizationMembership(userId);
+      if (existingMembership) {
+        return res.status(400).json({ message: "You already belong to an organization" });
+      }
+
+      const validatedData = insertOrganizationSchema.parse(req.body);
+      const organization = await storage.createOrganization(validatedData);
+
+      // The creator becomes the first admin
+      const membership = await storage.addOrganizationMember({
+        organizationId: organization.id,
+        userId,
+        role: 'admin',
+      });
+
+      res.status(201).json({ organization, membership });
+    } catch (error: any) {
+      console.error("Error creating organization:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid organization data", error: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create organization" });
+    }
+  });
+
+  app.patch('/api/organization', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const validatedData = insertOrganizationSchema.partial().parse(req.body);
+      const organization = await storage.updateOrganization(req.membership.organizationId, validatedData);
+      res.json(organization);
+    } catch (error: any) {
+      console.error("Error updating organization:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid organization data", error: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+
+  app.post('/api/organization/members', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const { email, role, username, password, firstName, lastName } = addTeamMemberSchema.parse(req.body);
+
+      // An existing account is only invited: joining exposes the cases they mediate to the practice's
+      // org-wide roles, so the user has to accept
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        if (await storage.getOrganizationMembership(existingUser.id)) {
+          return res.status(400).json({ message: "User already belongs to an organization" });
+        }
+        const invitation = await storage.inviteOrganizationMember({
+          organizationId: req.membership.organizationId,
+          userId: existingUser.id,
+          role,
+          invitedBy: req.user.claims.sub,
+        });
+        return res.status(202).json({ invitation });
+      }
+
+      // No existing account - create a local one when credentials are supplied
+      if (!username || !password) {
+        return res.status(404).json({ message: "No user with that email. Provide a username and password to create a local account." });
+      }
+      if (await storage.getUser(username)) {
+        return res.status(400).json({ message: "Username is already taken" });
+      }
+      const user = await storage.upsertUser({
+        id: username,
+        email,
+        firstName: firstName || null,
+        lastName: lastName || null,
+        passwordHash: await bcrypt.hash(password, 10),
+        isLocal: true,
+      });
+
+      const member = await storage.addOrganizationMember({
+        organizationId: req.membership.organizationId,
+        userId: user.id,
+        role,
+      });
+
+      res.status(201).json(member);
+    } catch (error: any) {
+      console.error("Error adding team member:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid team member data", error: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add team member" });
+    }
+  });
+
+  // Invitations the current user has received
+  app.get('/api/organization/invitations', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getReceivedInvitations(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post('/api/organization/invitations/:invitationId/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const invitation = await storage.getOrganizationInvitation(req.params.invitationId);
+      if (!invitation || invitation.userId !== userId) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      if (await storage.getOrganizationMembership(userId)) {
+        return res.status(400).json({ message: "You already belong to an organization" });
+      }
+
+      const membership = await storage.acceptOrganizationInvitation(invitation);
+      res.json(membership);
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // Declined by the invited user, or withdrawn by an admin of the organization
+  app.delete('/api/organization/invitations/:invitationId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const invitation = await storage.getOrganizationInvitation(req.params.invitationId);
+      const membership = await storage.getOrganizationMembership(userId);
+      const isOrganizationAdmin = membership?.role === 'admin' && membership.organizationId === invitation?.organizationId;
+      if (!invitation || (invitation.userId !== userId && !isOrganizationAdmin)) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      await storage.deleteOrganizationInvitation(invitation.id);
+      res.json({ message: "Invitation removed" });
+    } catch (error) {
+      console.error("Error removing invitation:", error);
+      res.status(500).json({ message: "Failed to remove invitation" });
+    }
+  });
+
+  // Guards against an organization losing its last admin
+  const isLastAdmin = async (organizationId: string, memberId: string): Promise<boolean> => {
+    const members = await storage.getOrganizationMembers(organizationId);
+    const admins = members.filter(m => m.role === 'admin');
+    return admins.length === 1 && admins[0].id === memberId;
+  };
+
+  app.patch('/api/organization/members/:memberId', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const { memberId } = req.params;
+      const { role } = req.body;
+
+      if (!organizationRoles.includes(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+
+      const member = await storage.getOrganizationMember(memberId);
+      if (!member || member.organizationId !== req.membership.organizationId) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+
+      if (role !== 'admin' && await isLastAdmin(member.organizationId, member.id)) {
+        return res.status(400).json({ message: "An organization must have at least one admin" });
+      }
+
+      const updatedMember = await storage.updateOrganizationMember(memberId, { role });
+      res.json(updatedMember);
+    } catch (error) {
+      console.error("Error updating team member:", error);
+      res.status(500).json({ message: "Failed to update team member" });
+    }
+  });
+
+  app.delete('/api/organization/members/:memberId', isAuthenticated, requireOrganizationRole('admin'), async (req: any, res) => {
+    try {
+      const { memberId } = req.params;
+
+      const member = await storage.getOrganizationMember(memberId);
+      if (!member || member.organizationId !== req.membership.organizationId) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+
+      if (await isLastAdmin(member.organizationId, member.id)) {
+        return res.status(400).json({ message: "An organization must have at least one admin" });
+      }
+
+      await storage.removeOrganizationMember(memberId);
+      res.json({ message: "Team member removed successfully" });
+    } catch (error) {
+      console.error("Error removing team member:", error);
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+
   // Local file storage routes for documents
   app.get("/objects/:objectPath(*)", isAuthenticated, async (req: any, res) => {
     const userId = req.user?.claims?.sub;
     const fileStorage = new LocalFileStorageService();
     try {
-      const canAccess = await fileStorage.canAccessFile(req.path, userId, "read");
+      const document = await storage.getDocumentByObjectPath(req.path);
+      if (document?.deletedAt) {
+        return res.sendStatus(404);
+      }
+      let canAccess = await fileStorage.canAccessFile(req.path, userId, "read");
+      if (!canAccess) {
+        // Files uploaded by someone else are still readable by users with access to the owning case
+        canAccess = !!document && !!(await storage.getCaseForUser(document.caseId, userId));
+      }
       if (!canAccess) {
         return res.sendStatus(401);
       }
+      if (document) {
+        await storage.recordAuditEvent({
+          caseId: document.caseId,
+          action: "document.viewed",
+          entityType: "document",
+          entityId: document.id,
+          metadata: { originalName: document.originalName },
+        });
+      }
       await fileStorage.downloadFile(req.path, res);
     } catch (error) {
       console.error("Error accessing file:", error);
@@ -99,7 +390,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Direct file upload endpoint for local storage (POST with multipart/form-data)
-  app.post("/api/documents/upload-local", isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post("/api/documents/upload-local", isAuthenticated, preserveAuditContext(upload.single('file')), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const file = req.file;
@@ -210,10 +501,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Case management routes
+  // Every case the user can see, as the dashboard, calendar and document pages expect. The filtered,
+  // paginated list is GET /api/cases/search.
   app.get('/api/cases', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const cases = await storage.getCases(userId);
+      const cases = await storage.getCasesForUser(userId);
       res.json(cases);
     } catch (error) {
       console.error("Error fetching cases:", error);
@@ -221,12 +514,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/cases/:id', isAuthenticated, async (req, res) => {
+  // The filtered, sorted and paginated case list
+  app.get('/api/cases/search', isAuthenticated, async (req: any, res) => {
+    try {
+      const query = caseListQuerySchema.parse(req.query);
+      res.json(await storage.queryCases(req.user.claims.sub, query));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid case filters", errors: error.errors });
+      }
+      console.error("Error searching cases:", error);
+      res.status(500).json({ message: "Failed to search cases" });
+    }
+  });
+
+  app.get('/api/cases/tags', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getCaseTags(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching case tags:", error);
+      res.status(500).json({ message: "Failed to fetch case tags" });
+    }
+  });
+
+  // Saved case list views are personal, so each user's sidebar shows only their own
+  app.get('/api/case-views', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getSavedCaseViews(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching saved views:", error);
+      res.status(500).json({ message: "Failed to fetch saved views" });
+    }
+  });
+
+  app.post('/api/case-views', isAuthenticated, async (req: any, res) => {
+    try {
+      const viewData = insertSavedCaseViewSchema.parse(req.body);
+      const view = await storage.createSavedCaseView(req.user.claims.sub, viewData);
+      res.json(view);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid saved view", errors: error.errors });
+      }
+      console.error("Error saving view:", error);
+      res.status(500).json({ message: "Failed to save view" });
+    }
+  });
+
+  app.patch('/api/case-views/:viewId', isAuthenticated, async (req: any, res) => {
+    try {
+      const viewData = insertSavedCaseViewSchema.partial().parse(req.body);
+      const view = await storage.updateSavedCaseView(req.params.viewId, req.user.claims.sub, viewData);
+      if (!view) {
+        return res.status(404).json({ message: "Saved view not found" });
+      }
+      res.json(view);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid saved view", errors: error.errors });
+      }
+      console.error("Error updating saved view:", error);
+      res.status(500).json({ message: "Failed to update saved view" });
+    }
+  });
+
+  app.delete('/api/case-views/:viewId', isAuthenticated, async (req: any, res) => {
     try {
-      const caseData = await storage.getCaseWithDetails(req.params.id);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
+      const deleted = await storage.deleteSavedCaseView(req.params.viewId, req.user.claims.sub);
+      if (!deleted) {
+        return res.status(404).json({ message: "Saved view not found" });
       }
+      res.json({ message: "Saved view deleted" });
+    } catch (error) {
+      console.error("Error deleting saved view:", error);
+      res.status(500).json({ message: "Failed to delete saved view" });
+    }
+  });
+
+  app.get('/api/cases/:id', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const caseData = await storage.getCaseWithDetails(req.caseData!.id);
       res.json(caseData);
     } catch (error) {
       console.error("Error fetching case:", error);
@@ -234,6 +601,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Resolves which mediator a new case belongs to. Admins and case managers may create cases
+  // on behalf of another mediator in their organization; read-only members cannot create cases.
+  const resolveCaseMediatorId = async (userId: string, requestedMediatorId?: string): Promise<string | null> => {
+    if (requestedMediatorId && requestedMediatorId !== userId) {
+      return (await storage.canActForMediator(userId, requestedMediatorId)) ? requestedMediatorId : null;
+    }
+
+    const membership = await storage.getOrganizationMembership(userId);
+    return membership?.role === 'read_only' ? null : userId;
+  };
+
+  // Checks the case type belongs to the user's practice and validates the custom field values against it.
+  // A case without issues picks up the type's default issues. Returns null when the type is not found.
+  const applyCaseType = async (userId: string, caseTypeId: string, customFields: unknown, issuesForDiscussion?: string[] | null) => {
+    const caseType = await storage.getCaseTypeForUser(caseTypeId, userId);
+    if (!caseType) return null;
+    return {
+      caseTypeId: caseType.id,
+      customFields: customFieldValuesSchema(caseType.fields).parse(customFields ?? {}),
+      issuesForDiscussion: issuesForDiscussion?.length ? issuesForDiscussion : caseType.defaultIssues ?? [],
+    };
+  };
+
+  // Reminders follow the case's mediation date and status. A scheduling problem shouldn't fail the
+  // case change; the periodic planner catches up.
+  const syncReminders = (caseId: string) =>
+    syncCaseReminders(caseId).catch(error => console.error("Error scheduling case reminders:", error));
+
   app.post('/api/cases', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -243,120 +638,1297 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Case number is required" });
       }
 
+      const mediatorId = await resolveCaseMediatorId(userId, req.body.mediatorId);
+      if (!mediatorId) {
+        return res.status(403).json({ message: "Not authorized to create cases for this mediator" });
+      }
+
       const caseData = {
         caseNumber,
         mediationDate: mediationDate ? new Date(mediationDate) : null,
         disputeBackground: disputeBackground || '',
         issuesForDiscussion: issuesForDiscussion || [],
-        mediatorId: userId,
-        status: 'open',
+        mediatorId,
+        status: 'referred' as const,
       };
 
+      if (req.body.caseTypeId) {
+        const typed = await applyCaseType(userId, req.body.caseTypeId, req.body.customFields, caseData.issuesForDiscussion);
+        if (!typed) {
+          return res.status(404).json({ message: "Case type not found" });
+        }
+        Object.assign(caseData, typed);
+      }
+
       const validatedCaseData = insertCaseSchema.parse(caseData);
-      const newCase = await storage.createCase(validatedCaseData);
+      const validatedParties = intakePartiesSchema.parse(req.body.parties ?? []);
+      const newCase = await storage.createCase(validatedCaseData, userId);
 
-      res.status(201).json(newCase);
-    } catch (error) {
+      for (const party of validatedParties) {
+        await storage.createParty({ ...party, caseId: newCase.id });
+      }
+
+      // The case type's checklist starts off assigned to the lead mediator
+      const caseType = newCase.caseTypeId ? await storage.getCaseType(newCase.caseTypeId) : undefined;
+      if (caseType?.taskTemplates.length) {
+        await storage.addChecklistTasks(newCase.id, userId, caseType.taskTemplates, newCase.mediatorId);
+      }
+
+      // Every intake gets a conflict-of-interest report the mediator must acknowledge
+      const checkedCase = await storage.runCaseConflictCheck(newCase.id, userId);
+      await syncReminders(newCase.id);
+
+      res.status(201).json(checkedCase);
+    } catch (error: any) {
       console.error("Error creating case:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid case data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to create case" });
     }
   });
 
-  app.patch('/api/cases/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/cases/:id', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const userId = req.user.claims.sub;
-      const updates = req.body;
 
-      // Get the case to verify ownership
-      const caseData = await storage.getCase(id);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
+      // Status changes must go through the lifecycle endpoint so they are validated and recorded
+      if (req.body.status !== undefined && req.body.status !== req.caseData!.status) {
+        return res.status(400).json({ message: "Use POST /api/cases/:id/status to change the case status" });
       }
-
-      if (caseData.mediatorId !== userId) {
-        return res.status(403).json({ message: "Not authorized to update this case" });
+      if (req.body.mediatorId !== undefined && req.body.mediatorId !== req.caseData!.mediatorId) {
+        return res.status(400).json({ message: "Use /api/cases/:id/mediators to change the lead mediator" });
+      }
+      // Anything else outside the editable fields (conflict reports, trash state, Zoom links) is dropped
+      const { mediationDate, ...updates } = updateCaseSchema.parse(req.body);
+
+      // Custom field values are only stored against a case type, and validated against its fields
+      const caseTypeId = updates.caseTypeId !== undefined ? updates.caseTypeId : req.caseData!.caseTypeId;
+      if (caseTypeId && (updates.caseTypeId !== undefined || updates.customFields !== undefined)) {
+        const typeChanged = caseTypeId !== req.caseData!.caseTypeId;
+        const typed = await applyCaseType(
+          req.user.claims.sub,
+          caseTypeId,
+          { ...(typeChanged ? {} : req.caseData!.customFields), ...updates.customFields },
+          updates.issuesForDiscussion ?? req.caseData!.issuesForDiscussion,
+        );
+        if (!typed) {
+          return res.status(404).json({ message: "Case type not found" });
+        }
+        Object.assign(updates, typed);
+      } else if (!caseTypeId) {
+        if (updates.caseTypeId !== undefined) updates.caseTypeId = null;
+        delete updates.customFields;
       }
 
-      // Convert mediationDate to Date object if provided
-      if (updates.mediationDate) {
-        updates.mediationDate = new Date(updates.mediationDate);
+      // The mediation date follows the case's sessions; a date on a case without any becomes its first session
+      const sessions = mediationDate !== undefined ? await storage.getMediationSessions(id) : [];
+      if (mediationDate !== undefined && sessions.length > 0) {
+        return res.status(400).json({ message: "Mediation dates are set on the case's sessions. Use /api/cases/:id/sessions to change them" });
       }
 
-      const updatedCase = await storage.updateCase(id, updates);
+      let updatedCase = await storage.updateCase(id, updates);
+      if (mediationDate) {
+        await storage.createMediationSession(id, insertMediationSessionSchema.parse({
+          startsAt: mediationDate,
+          format: sessionFormatFromMediationType(updatedCase.mediationType),
+          venue: updatedCase.premises || null,
+        }), req.user.claims.sub);
+        updatedCase = (await storage.getCase(id)) ?? updatedCase;
+        await syncReminders(id);
+      }
       res.json(updatedCase);
-    } catch (error) {
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
       console.error("Error updating case:", error);
       res.status(500).json({ message: "Failed to update case" });
     }
   });
 
-  // Helper function to sanitize text for PostgreSQL (remove null bytes and control characters)
-  const sanitizeTextForPostgres = (text: string | null | undefined): string | null => {
-    if (!text) return null;
-    // Remove null bytes and other problematic control characters
-    return text.replace(/\x00/g, '').replace(/[\x01-\x08\x0B-\x0C\x0E-\x1F]/g, '').trim() || null;
-  };
+  // A case cannot be accepted (scheduled onwards) until its conflict report is acknowledged; it can still be declined
+  const CONFLICT_CLEARANCE_EXEMPT_STATUSES: CaseStatus[] = ["referred", "intake", "withdrawn", "closed"];
 
-  app.post('/api/cases/create-from-upload', isAuthenticated, upload.single('document'), async (req: any, res) => {
+  app.post('/api/cases/:id/status', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const file = req.file;
+      const { status, reason } = caseStatusTransitionSchema.parse(req.body);
+      const currentStatus = normalizeCaseStatus(req.caseData!.status);
 
-      if (!file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      if (!canTransitionCaseStatus(currentStatus, status)) {
+        return res.status(400).json({
+          message: `Cannot move a case from ${caseStatusLabels[currentStatus]} to ${caseStatusLabels[status]}`,
+          allowedStatuses: caseStatusTransitions[currentStatus],
+        });
       }
 
-      // Save file to local storage
-      const fileStorage = new LocalFileStorageService();
-      const objectPath = await fileStorage.saveFile(
-        file.buffer,
-        {
-          contentType: file.mimetype,
-          size: file.size,
-          uploadedAt: new Date().toISOString(),
-          userId: userId,
-        },
-        userId
-      );
-
-      // Extract case data using AI (with fallback for errors)
-      let extractedData: any = {};
-      let extractedText = '';
-      
-      try {
-        extractedData = await aiService.extractCaseDataFromDocument(file.buffer, file.mimetype);
-      } catch (error) {
-        console.error("AI extraction failed, using defaults:", error);
-        extractedData = {};
+      if (!CONFLICT_CLEARANCE_EXEMPT_STATUSES.includes(status) && req.caseData!.conflictReport && !req.caseData!.conflictAcknowledgedAt) {
+        return res.status(409).json({ message: "Acknowledge the conflict-of-interest report before accepting this case" });
       }
-      
-      // Extract text content for future RAG queries
-      try {
-        extractedText = await aiService.extractTextFromDocument(file.buffer, file.mimetype);
-        // Sanitize the extracted text to remove null bytes
-        extractedText = sanitizeTextForPostgres(extractedText) || '';
-      } catch (error) {
-        console.error("Text extraction failed:", error);
-        extractedText = '';
+
+      if (status === "closed" && !(await storage.getCaseOutcome(req.caseData!.id))) {
+        return res.status(409).json({ message: "Record the mediation outcome before closing this case" });
       }
 
-      // Create case record
-      const caseData = {
-        caseNumber: extractedData.caseNumber || `MED-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`,
-        mediationNumber: extractedData.mediationNumber,
-        mediatorId: userId,
-        mediatorName: extractedData.mediatorName || 'Auto-assigned',
-        mediationType: extractedData.mediationType || 'Remote',
-        mediationDate: extractedData.mediationDate ? new Date(extractedData.mediationDate) : null,
-        premises: extractedData.premises,
-        disputeBackground: extractedData.disputeBackground,
-        issuesForDiscussion: extractedData.issuesForDiscussion || [],
-        status: 'active' as const
-      };
+      const updatedCase = await storage.transitionCaseStatus(req.caseData!.id, status, userId, reason);
+      await syncReminders(updatedCase.id);
+      res.json(updatedCase);
+    } catch (error: any) {
+      if (error instanceof CaseStatusTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error changing case status:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid status", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to change case status" });
+    }
+  });
 
-      const validatedCaseData = insertCaseSchema.parse(caseData);
-      const newCase = await storage.createCase(validatedCaseData);
+  app.get('/api/cases/:id/status-history', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const history = await storage.getCaseStatusHistory(req.caseData!.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching case status history:", error);
+      res.status(500).json({ message: "Failed to fetch case status history" });
+    }
+  });
+
+  app.get('/api/cases/:id/outcome', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const outcome = await storage.getCaseOutcome(req.caseData!.id);
+      res.json(outcome ?? null);
+    } catch (error) {
+      console.error("Error fetching case outcome:", error);
+      res.status(500).json({ message: "Failed to fetch case outcome" });
+    }
+  });
+
+  // Records or corrects the outcome. An open case moves to the matching outcome status; once closed,
+  // the details can still be corrected but the outcome type is fixed.
+  app.put('/api/cases/:id/outcome', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const caseData = req.caseData!;
+      const outcomeData = caseOutcomeSchema.parse(req.body);
+      const currentStatus = normalizeCaseStatus(caseData.status);
+      const outcomeLabel = caseStatusLabels[outcomeData.outcomeType];
+
+      const unknownIssues = outcomeData.resolvedIssues.filter(issue => !(caseData.issuesForDiscussion ?? []).includes(issue));
+      if (unknownIssues.length > 0) {
+        return res.status(400).json({ message: `Not an issue for discussion on this case: ${unknownIssues.join("; ")}` });
+      }
+
+      const existing = await storage.getCaseOutcome(caseData.id);
+      const needsTransition = currentStatus !== "closed" && currentStatus !== outcomeData.outcomeType;
+      if (currentStatus === "closed" && existing && existing.outcomeType !== outcomeData.outcomeType) {
+        return res.status(400).json({ message: "The case is closed, so its outcome type can no longer be changed" });
+      }
+      if (needsTransition && !canTransitionCaseStatus(currentStatus, outcomeData.outcomeType)) {
+        return res.status(400).json({
+          message: `A ${outcomeLabel} outcome cannot be recorded while the case is ${caseStatusLabels[currentStatus]}`,
+        });
+      }
+
+      // Transition first: it fails if another request moved the case on in the meantime
+      const updatedCase = needsTransition
+        ? await storage.transitionCaseStatus(caseData.id, outcomeData.outcomeType, userId, "Outcome recorded")
+        : caseData;
+      const outcome = await storage.saveCaseOutcome(caseData.id, outcomeData, userId);
+      if (needsTransition) {
+        await syncReminders(caseData.id);
+      }
+      res.json({ outcome, case: updatedCase });
+    } catch (error: any) {
+      if (error instanceof CaseStatusTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error saving case outcome:", error);
+      res.status(500).json({ message: "Failed to save case outcome" });
+    }
+  });
+
+  // Outcomes across the cases the user can see, e.g. settlement rates per mediator or case type
+  app.get('/api/reports/outcomes', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const filters = outcomeReportQuerySchema.parse(req.query);
+      const report = await storage.getOutcomeReport(userId, filters);
+      res.json(report);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid report filters", errors: error.errors });
+      }
+      console.error("Error building outcome report:", error);
+      res.status(500).json({ message: "Failed to build outcome report" });
+    }
+  });
+
+  // Time entries take the hourly rate and currency from the profile of the person logging the time
+  const billingRateFor = async (userId: string) => {
+    const user = await storage.getUser(userId);
+    return { hourlyRate: user?.hourlyRate ?? null, currency: user?.billingCurrency ?? "AUD" };
+  };
+
+  const getCaseTimeEntry = async (caseId: string, entryId: string) => {
+    const entry = await storage.getTimeEntry(entryId);
+    return entry?.caseId === caseId ? entry : undefined;
+  };
+
+  app.get('/api/cases/:id/billing', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const summary = await storage.getBillingSummary(req.caseData!.id);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching billing summary:", error);
+      res.status(500).json({ message: "Failed to fetch billing summary" });
+    }
+  });
+
+  app.get('/api/time-entries/running', isAuthenticated, async (req: any, res) => {
+    try {
+      const timer = await storage.getRunningTimer(req.user.claims.sub);
+      res.json(timer ?? null);
+    } catch (error) {
+      console.error("Error fetching running timer:", error);
+      res.status(500).json({ message: "Failed to fetch running timer" });
+    }
+  });
+
+  app.post('/api/cases/:id/time-entries/timer', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const timerData = startTimerSchema.parse(req.body);
+      const running = await storage.getRunningTimer(userId);
+      if (running) {
+        return res.status(409).json({ message: `A timer is already running on case ${running.caseNumber}. Stop it first.` });
+      }
+
+      const entry = await storage.createTimeEntry({
+        ...timerData,
+        ...(await billingRateFor(userId)),
+        caseId: req.caseData!.id,
+        userId,
+        startedAt: new Date(),
+        source: "timer",
+      });
+      res.status(201).json(entry);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid timer data", errors: error.errors });
+      }
+      console.error("Error starting timer:", error);
+      res.status(500).json({ message: "Failed to start timer" });
+    }
+  });
+
+  app.post('/api/cases/:id/time-entries/:entryId/stop', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const entry = await getCaseTimeEntry(req.params.id, req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      if (entry.endedAt) {
+        return res.status(400).json({ message: "This timer has already been stopped" });
+      }
+      if (entry.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the person who started a timer can stop it" });
+      }
+
+      const endedAt = new Date();
+      const durationMinutes = Math.max(1, Math.round((endedAt.getTime() - entry.startedAt.getTime()) / 60000));
+      const stopped = await storage.updateTimeEntry(entry.id, { endedAt, durationMinutes });
+      res.json(stopped);
+    } catch (error) {
+      console.error("Error stopping timer:", error);
+      res.status(500).json({ message: "Failed to stop timer" });
+    }
+  });
+
+  // Manual entries and accepted suggestions
+  app.post('/api/cases/:id/time-entries', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const entryData = insertTimeEntrySchema.parse(req.body);
+      const entry = await storage.createTimeEntry({
+        ...entryData,
+        ...(await billingRateFor(userId)),
+        caseId: req.caseData!.id,
+        userId,
+        endedAt: new Date(entryData.startedAt.getTime() + entryData.durationMinutes * 60000),
+      });
+      res.status(201).json(entry);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error creating time entry:", error);
+      res.status(500).json({ message: "Failed to create time entry" });
+    }
+  });
+
+  app.patch('/api/cases/:id/time-entries/:entryId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const entry = await getCaseTimeEntry(req.params.id, req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      if (entry.invoiceRunId) {
+        return res.status(400).json({ message: "This time has been invoiced. Void the invoices to change it." });
+      }
+      const entryData = updateTimeEntrySchema.parse(req.body);
+      if (!entry.endedAt && entryData.durationMinutes !== undefined) {
+        return res.status(400).json({ message: "Stop the timer before changing its duration" });
+      }
+
+      const updated = await storage.updateTimeEntry(entry.id, entryData);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error updating time entry:", error);
+      res.status(500).json({ message: "Failed to update time entry" });
+    }
+  });
+
+  app.delete('/api/cases/:id/time-entries/:entryId', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const entry = await getCaseTimeEntry(req.params.id, req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      if (entry.invoiceRunId) {
+        return res.status(400).json({ message: "This time has been invoiced. Void the invoices to delete it." });
+      }
+      await storage.deleteTimeEntry(entry.id);
+      res.json({ message: "Time entry deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting time entry:", error);
+      res.status(500).json({ message: "Failed to delete time entry" });
+    }
+  });
+
+  app.get('/api/cases/:id/time-suggestions', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const suggestions = await storage.getTimeSuggestions(req.caseData!.id, req.user.claims.sub);
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error fetching time suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch time suggestions" });
+    }
+  });
+
+  app.post('/api/cases/:id/time-suggestions/dismiss', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const { source, sourceId } = dismissTimeSuggestionSchema.parse(req.body);
+      await storage.dismissTimeSuggestion(req.user.claims.sub, source, sourceId);
+      res.json({ message: "Suggestion dismissed" });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid suggestion", errors: error.errors });
+      }
+      console.error("Error dismissing time suggestion:", error);
+      res.status(500).json({ message: "Failed to dismiss suggestion" });
+    }
+  });
+
+  const getCaseExpense = async (caseId: string, expenseId: string) => {
+    const expense = await storage.getCaseExpense(expenseId);
+    return expense?.caseId === caseId ? expense : undefined;
+  };
+
+  app.post('/api/cases/:id/expenses', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const expenseData = insertCaseExpenseSchema.parse(req.body);
+      const expense = await storage.createCaseExpense(req.caseData!.id, req.user.claims.sub, expenseData);
+      res.status(201).json(expense);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error creating expense:", error);
+      res.status(500).json({ message: "Failed to create expense" });
+    }
+  });
+
+  app.patch('/api/cases/:id/expenses/:expenseId', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const expense = await getCaseExpense(req.params.id, req.params.expenseId);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.invoiceRunId) {
+        return res.status(400).json({ message: "This expense has been invoiced. Void the invoices to change it." });
+      }
+      const expenseData = updateCaseExpenseSchema.parse(req.body);
+      const updated = await storage.updateCaseExpense(expense.id, expenseData);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error updating expense:", error);
+      res.status(500).json({ message: "Failed to update expense" });
+    }
+  });
+
+  app.delete('/api/cases/:id/expenses/:expenseId', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const expense = await getCaseExpense(req.params.id, req.params.expenseId);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.invoiceRunId) {
+        return res.status(400).json({ message: "This expense has been invoiced. Void the invoices to delete it." });
+      }
+      await storage.deleteCaseExpense(expense.id);
+      res.json({ message: "Expense deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting expense:", error);
+      res.status(500).json({ message: "Failed to delete expense" });
+    }
+  });
+
+  // Invoice routes. Fees are split between the parties; each share is invoiced to the party or its solicitors.
+  const getCaseInvoice = async (caseId: string, invoiceId: string) => {
+    const invoice = await storage.getInvoice(invoiceId);
+    return invoice?.caseId === caseId ? invoice : undefined;
+  };
+
+  app.get('/api/cases/:id/invoices', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const caseInvoices = await storage.getInvoices(req.caseData!.id);
+      res.json(caseInvoices);
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  app.post('/api/cases/:id/invoices', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const input = generateInvoicesSchema.parse(req.body);
+      const created = await generateInvoices(req.caseData!, input, req.user.claims.sub);
+      res.status(201).json(created);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error generating invoices:", error);
+      res.status(500).json({ message: "Failed to generate invoices" });
+    }
+  });
+
+  app.get('/api/cases/:id/invoices/:invoiceId/pdf', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const invoice = await getCaseInvoice(req.params.id, req.params.invoiceId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const pdf = await renderInvoicePdf(invoice, req.caseData!);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${invoiceFileName(invoice)}"`);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof InvoiceError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error rendering invoice:", error);
+      res.status(500).json({ message: "Failed to render invoice" });
+    }
+  });
+
+  // Emails the invoice PDF through the lead mediator's Gmail account, CCing the case mediators
+  app.post('/api/cases/:id/invoices/:invoiceId/send', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const caseData = req.caseData!;
+      const invoice = await getCaseInvoice(caseData.id, req.params.invoiceId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "void") {
+        return res.status(400).json({ message: "A void invoice cannot be sent" });
+      }
+      const { to, subject, message } = sendInvoiceSchema.parse(req.body);
+
+      const settings = await storage.getCalendarSettings(caseData.mediatorId);
+      if (!settings || !settings.accessToken || !settings.refreshToken) {
+        return res.status(400).json({ message: "Google account not connected. Please connect to Google Calendar first." });
+      }
+      const mediatorContacts = await getCaseMediatorContacts(caseData.id);
+      const email = await buildInvoiceEmail(invoice, caseData, { subject, message });
+      const pdf = await renderInvoicePdf(invoice, caseData);
+
+      const { GmailService } = await import('./gmailService.js');
+      const gmailService = new GmailService(settings);
+      await gmailService.sendEmail({
+        to,
+        subject: email.subject,
+        html: email.html,
+        cc: mediatorContacts.map(m => m.email).join(', ') || undefined,
+        attachments: [{ filename: invoiceFileName(invoice), contentType: 'application/pdf', content: pdf }],
+      });
+
+      const sent = await storage.markInvoiceSent(invoice.id, to);
+      res.json(sent);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      if (error instanceof InvoiceError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error sending invoice:", error);
+      res.status(500).json({ message: "Failed to send invoice" });
+    }
+  });
+
+  app.post('/api/cases/:id/invoices/:invoiceId/status', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const invoice = await getCaseInvoice(req.params.id, req.params.invoiceId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "void") {
+        return res.status(400).json({ message: "A void invoice cannot be marked paid or unpaid" });
+      }
+      const { status, paidAt } = updateInvoiceStatusSchema.parse(req.body);
+      const updated = await storage.updateInvoiceStatus(invoice.id, status, status === "paid" ? paidAt ?? new Date() : null);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid invoice status", errors: error.errors });
+      }
+      console.error("Error updating invoice status:", error);
+      res.status(500).json({ message: "Failed to update invoice status" });
+    }
+  });
+
+  app.post('/api/cases/:id/invoices/:invoiceId/void', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const invoice = await getCaseInvoice(req.params.id, req.params.invoiceId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "void") {
+        return res.status(400).json({ message: "This invoice is already void" });
+      }
+      if (invoice.status === "paid") {
+        return res.status(400).json({ message: "Mark the invoice unpaid before voiding it" });
+      }
+      const result = await storage.voidInvoice(invoice.id);
+      res.json(result);
+    } catch (error) {
+      console.error("Error voiding invoice:", error);
+      res.status(500).json({ message: "Failed to void invoice" });
+    }
+  });
+
+  // Invoices across every case the user can see, e.g. everything overdue
+  app.get('/api/invoices', isAuthenticated, async (req: any, res) => {
+    try {
+      const { status } = invoiceListQuerySchema.parse(req.query);
+      const invoiceList = await storage.getInvoicesForUser(req.user.claims.sub, status);
+      res.json(invoiceList);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid invoice filters", errors: error.errors });
+      }
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  // Invoice letterhead routes. Anyone in the practice can read them; only admins change them.
+  app.get('/api/invoice-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const settings = await storage.getInvoiceSettings(req.user.claims.sub);
+      res.json(settings ?? null);
+    } catch (error) {
+      console.error("Error fetching invoice settings:", error);
+      res.status(500).json({ message: "Failed to fetch invoice settings" });
+    }
+  });
+
+  app.put('/api/invoice-settings', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const settingsData = invoiceSettingsSchema.parse(req.body);
+      const existing = await storage.getInvoiceSettings(userId);
+      if (existing && settingsData.nextNumber !== undefined && settingsData.nextNumber < existing.nextNumber
+        && settingsData.numberPrefix === existing.numberPrefix) {
+        return res.status(400).json({ message: `Invoice numbers can't be reused. The next number must be at least ${existing.nextNumber}.` });
+      }
+      const settings = await storage.saveInvoiceSettings(userId, settingsData);
+      res.json(settings);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error saving invoice settings:", error);
+      res.status(500).json({ message: "Failed to save invoice settings" });
+    }
+  });
+
+  app.get('/api/invoice-settings/logo', isAuthenticated, async (req: any, res) => {
+    try {
+      const settings = await storage.getInvoiceSettings(req.user.claims.sub);
+      if (!settings?.logoObjectPath) {
+        return res.sendStatus(404);
+      }
+      await new LocalFileStorageService().downloadFile(settings.logoObjectPath, res);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.sendStatus(404);
+      }
+      console.error("Error fetching invoice logo:", error);
+      res.status(500).json({ message: "Failed to fetch invoice logo" });
+    }
+  });
+
+  app.post('/api/invoice-settings/logo', isAuthenticated, requirePracticeAdmin(), preserveAuditContext(logoUpload.single('logo')), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a PNG or JPEG image" });
+      }
+      const settings = await storage.getInvoiceSettings(userId);
+      if (!settings) {
+        return res.status(400).json({ message: "Save the letterhead details before adding a logo" });
+      }
+
+      const fileStorage = new LocalFileStorageService();
+      const objectPath = await fileStorage.saveFile(
+        req.file.buffer,
+        {
+          contentType: req.file.mimetype,
+          size: req.file.size,
+          uploadedAt: new Date().toISOString(),
+          userId,
+        },
+        userId
+      );
+      const updated = await storage.setInvoiceLogo(settings.id, objectPath);
+      if (settings.logoObjectPath) {
+        await fileStorage.deleteFile(settings.logoObjectPath).catch(error => console.error("Error deleting old invoice logo:", error));
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error uploading invoice logo:", error);
+      res.status(500).json({ message: "Failed to upload invoice logo" });
+    }
+  });
+
+  app.delete('/api/invoice-settings/logo', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const settings = await storage.getInvoiceSettings(req.user.claims.sub);
+      if (!settings?.logoObjectPath) {
+        return res.status(404).json({ message: "No logo uploaded" });
+      }
+      const updated = await storage.setInvoiceLogo(settings.id, null);
+      await new LocalFileStorageService().deleteFile(settings.logoObjectPath).catch(error => console.error("Error deleting invoice logo:", error));
+      res.json(updated);
+    } catch (error) {
+      console.error("Error removing invoice logo:", error);
+      res.status(500).json({ message: "Failed to remove invoice logo" });
+    }
+  });
+
+  // Case task routes
+  const getCaseTask = async (caseId: string, taskId: string) => {
+    const task = await storage.getCaseTask(taskId);
+    return task?.caseId === caseId ? task : undefined;
+  };
+
+  // Tasks can be assigned to anyone who can work on the case
+  const isValidTaskAssignee = async (caseId: string, assigneeId: string | null | undefined) =>
+    !assigneeId || !!(await storage.getCaseAccess(caseId, assigneeId))?.canWrite;
+
+  app.get('/api/cases/:id/tasks', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const tasks = await storage.getCaseTasks(req.caseData!.id);
+      res.json(tasks);
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+      res.status(500).json({ message: "Failed to fetch tasks" });
+    }
+  });
+
+  app.post('/api/cases/:id/tasks', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const taskData = insertCaseTaskSchema.parse(req.body);
+      if (!(await isValidTaskAssignee(req.caseData!.id, taskData.assigneeId))) {
+        return res.status(400).json({ message: "The assignee doesn't have access to this case" });
+      }
+      const task = await storage.createCaseTask(req.caseData!.id, req.user.claims.sub, taskData);
+      res.status(201).json(task);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error creating task:", error);
+      res.status(500).json({ message: "Failed to create task" });
+    }
+  });
+
+  // Adds the case type's checklist tasks the case doesn't have yet, assigned to the lead mediator
+  app.post('/api/cases/:id/tasks/checklist', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const caseData = req.caseData!;
+      const caseType = caseData.caseTypeId ? await storage.getCaseType(caseData.caseTypeId) : undefined;
+      if (!caseType?.taskTemplates.length) {
+        return res.status(400).json({ message: "This case's type has no task checklist" });
+      }
+      const tasks = await storage.addChecklistTasks(caseData.id, req.user.claims.sub, caseType.taskTemplates, caseData.mediatorId);
+      res.status(201).json(tasks);
+    } catch (error) {
+      console.error("Error adding checklist tasks:", error);
+      res.status(500).json({ message: "Failed to add checklist tasks" });
+    }
+  });
+
+  app.patch('/api/cases/:id/tasks/:taskId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const task = await getCaseTask(req.params.id, req.params.taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      const taskData = updateCaseTaskSchema.parse(req.body);
+      if (!(await isValidTaskAssignee(task.caseId, taskData.assigneeId))) {
+        return res.status(400).json({ message: "The assignee doesn't have access to this case" });
+      }
+      const updated = await storage.updateCaseTask(task.id, taskData, req.user.claims.sub);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error updating task:", error);
+      res.status(500).json({ message: "Failed to update task" });
+    }
+  });
+
+  app.delete('/api/cases/:id/tasks/:taskId', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const task = await getCaseTask(req.params.id, req.params.taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      await storage.deleteCaseTask(task.id);
+      res.json({ message: "Task deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      res.status(500).json({ message: "Failed to delete task" });
+    }
+  });
+
+  // The user's open tasks across cases: everything overdue plus what falls due in the next `days` days
+  app.get('/api/tasks/mine', isAuthenticated, async (req: any, res) => {
+    try {
+      const { days } = myTasksQuerySchema.parse(req.query);
+      const tasks = await storage.getTasksForUser(req.user.claims.sub, new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+      res.json(tasks);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid task filters", errors: error.errors });
+      }
+      console.error("Error fetching tasks:", error);
+      res.status(500).json({ message: "Failed to fetch tasks" });
+    }
+  });
+
+  // Reminder routes. Rules are shared by the practice like case types; only admins change them.
+  app.get('/api/reminders/rules', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getReminderRules(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching reminder rules:", error);
+      res.status(500).json({ message: "Failed to fetch reminder rules" });
+    }
+  });
+
+  app.post('/api/reminders/rules', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const ruleData = insertReminderRuleSchema.parse(req.body);
+      const rule = await storage.createReminderRule(req.user.claims.sub, ruleData);
+      await queueReminderPlanning();
+      res.json(rule);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid reminder rule", errors: error.errors });
+      }
+      console.error("Error creating reminder rule:", error);
+      res.status(500).json({ message: "Failed to create reminder rule" });
+    }
+  });
+
+  app.patch('/api/reminders/rules/:ruleId', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const existing = await storage.getReminderRuleForUser(req.params.ruleId, req.user.claims.sub);
+      if (!existing) {
+        return res.status(404).json({ message: "Reminder rule not found" });
+      }
+      const ruleData = insertReminderRuleSchema.partial().parse(req.body);
+      const rule = await storage.updateReminderRule(existing.id, ruleData);
+      await queueReminderPlanning();
+      res.json(rule);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid reminder rule", errors: error.errors });
+      }
+      console.error("Error updating reminder rule:", error);
+      res.status(500).json({ message: "Failed to update reminder rule" });
+    }
+  });
+
+  app.delete('/api/reminders/rules/:ruleId', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const existing = await storage.getReminderRuleForUser(req.params.ruleId, req.user.claims.sub);
+      if (!existing) {
+        return res.status(404).json({ message: "Reminder rule not found" });
+      }
+      await storage.deleteReminderRule(existing.id);
+      await queueReminderPlanning();
+      res.json({ message: "Reminder rule deleted" });
+    } catch (error) {
+      console.error("Error deleting reminder rule:", error);
+      res.status(500).json({ message: "Failed to delete reminder rule" });
+    }
+  });
+
+  // Settlement agreement templates, shared by the practice like reminder rules
+  app.get('/api/settlement-templates', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getSettlementTemplates(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching settlement templates:", error);
+      res.status(500).json({ message: "Failed to fetch settlement templates" });
+    }
+  });
+
+  app.post('/api/settlement-templates', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const templateData = insertSettlementTemplateSchema.parse(req.body);
+      res.json(await storage.createSettlementTemplate(req.user.claims.sub, templateData));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid settlement template", errors: error.errors });
+      }
+      console.error("Error creating settlement template:", error);
+      res.status(500).json({ message: "Failed to create settlement template" });
+    }
+  });
+
+  app.patch('/api/settlement-templates/:templateId', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const existing = await storage.getSettlementTemplateForUser(req.params.templateId, req.user.claims.sub);
+      if (!existing) {
+        return res.status(404).json({ message: "Settlement template not found" });
+      }
+      const templateData = insertSettlementTemplateSchema.partial().parse(req.body);
+      res.json(await storage.updateSettlementTemplate(existing.id, templateData));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid settlement template", errors: error.errors });
+      }
+      console.error("Error updating settlement template:", error);
+      res.status(500).json({ message: "Failed to update settlement template" });
+    }
+  });
+
+  app.delete('/api/settlement-templates/:templateId', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const existing = await storage.getSettlementTemplateForUser(req.params.templateId, req.user.claims.sub);
+      if (!existing) {
+        return res.status(404).json({ message: "Settlement template not found" });
+      }
+      await storage.deleteSettlementTemplate(existing.id);
+      res.json({ message: "Settlement template deleted" });
+    } catch (error) {
+      console.error("Error deleting settlement template:", error);
+      res.status(500).json({ message: "Failed to delete settlement template" });
+    }
+  });
+
+  // Drafts the next version of a settlement agreement into the case documents as a DOCX and a PDF
+  app.post('/api/cases/:id/settlement', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = generateSettlementSchema.parse(req.body);
+      const template = await storage.getSettlementTemplateForUser(input.templateId, userId);
+      if (!template) {
+        return res.status(404).json({ message: "Settlement template not found" });
+      }
+      res.status(201).json(await generateSettlement(req.caseData!, template, input, userId));
+    } catch (error: any) {
+      if (error instanceof SettlementError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid settlement request", errors: error.errors });
+      }
+      console.error("Error drafting settlement agreement:", error);
+      res.status(500).json({ message: "Failed to draft settlement agreement" });
+    }
+  });
+
+  const getCaseReminder = async (caseId: string, reminderId: string) => {
+    const reminder = await storage.getCaseReminder(reminderId);
+    return reminder?.caseId === caseId ? reminder : undefined;
+  };
+
+  app.get('/api/cases/:id/reminders', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      res.json(await storage.getCaseReminders(req.caseData!.id));
+    } catch (error) {
+      console.error("Error fetching case reminders:", error);
+      res.status(500).json({ message: "Failed to fetch case reminders" });
+    }
+  });
+
+  app.post('/api/cases/:id/reminders/:reminderId/cancel', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const reminder = await getCaseReminder(req.caseData!.id, req.params.reminderId);
+      if (!reminder) {
+        return res.status(404).json({ message: "Reminder not found" });
+      }
+      if (reminder.status !== "scheduled") {
+        return res.status(400).json({ message: "Only scheduled reminders can be cancelled" });
+      }
+      res.json(await cancelCaseReminder(reminder, req.user.claims.sub));
+    } catch (error) {
+      console.error("Error cancelling reminder:", error);
+      res.status(500).json({ message: "Failed to cancel reminder" });
+    }
+  });
+
+  app.post('/api/cases/:id/reminders/:reminderId/resume', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const reminder = await getCaseReminder(req.caseData!.id, req.params.reminderId);
+      if (!reminder) {
+        return res.status(404).json({ message: "Reminder not found" });
+      }
+      if (reminder.status !== "cancelled") {
+        return res.status(400).json({ message: "Only cancelled reminders can be resumed" });
+      }
+      if (reminder.sendAt <= new Date()) {
+        return res.status(400).json({ message: "This reminder's send time has passed" });
+      }
+      res.json(await resumeCaseReminder(reminder, req.user.claims.sub));
+    } catch (error) {
+      console.error("Error resuming reminder:", error);
+      res.status(500).json({ message: "Failed to resume reminder" });
+    }
+  });
+
+  app.get('/api/cases/:id/audit-events', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const events = await storage.getAuditEvents(req.caseData!.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
+  app.get('/api/cases/:id/audit-events/export', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const caseData = req.caseData!;
+      const events = await storage.getAuditEvents(caseData.id);
+
+      const escapeCsv = (value: unknown): string => {
+        if (value === null || value === undefined) return '';
+        let text = typeof value === 'string' ? value : JSON.stringify(value);
+        // Spreadsheets run a cell starting with one of these as a formula
+        if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      };
+
+      const header = ['Timestamp', 'Actor', 'Actor Email', 'Action', 'Entity Type', 'Entity ID', 'Changes', 'Details', 'IP Address'];
+      const rows = events.map(event => [
+        event.createdAt ? new Date(event.createdAt).toISOString() : '',
+        event.actor ? `${event.actor.firstName || ''} ${event.actor.lastName || ''}`.trim() || event.actor.id : event.actorId || 'System',
+        event.actor?.email,
+        event.action,
+        event.entityType,
+        event.entityId,
+        event.changes,
+        event.metadata,
+        event.ipAddress,
+      ].map(escapeCsv).join(','));
+
+      await storage.recordAuditEvent({
+        caseId: caseData.id,
+        action: "audit.exported",
+        entityType: "case",
+        entityId: caseData.id,
+        metadata: { eventCount: events.length },
+      });
+
+      const fileName = `audit-trail-${caseData.caseNumber.replace(/[^a-zA-Z0-9_-]/g, '_')}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send([header.join(','), ...rows].join('\r\n'));
+    } catch (error) {
+      console.error("Error exporting audit events:", error);
+      res.status(500).json({ message: "Failed to export audit events" });
+    }
+  });
+
+  // Helper function to sanitize text for PostgreSQL (remove null bytes and control characters)
+  const sanitizeTextForPostgres = (text: string | null | undefined): string | null => {
+    if (!text) return null;
+    // Remove null bytes and other problematic control characters
+    return text.replace(/\x00/g, '').replace(/[\x01-\x08\x0B-\x0C\x0E-\x1F]/g, '').trim() || null;
+  };
+
+  // Intake uploads can name an existing case to attach the file to instead of creating a new case,
+  // after the duplicate warning below. Returns null when the user cannot edit that case.
+  const attachIntakeFile = async (userId: string, caseId: string, file: Express.Multer.File) => {
+    const access = await storage.getCaseAccess(caseId, userId);
+    if (!access?.canWrite) return null;
+
+    const fileStorage = new LocalFileStorageService();
+    const objectPath = await fileStorage.saveFile(
+      file.buffer,
+      {
+        contentType: file.mimetype,
+        size: file.size,
+        uploadedAt: new Date().toISOString(),
+        userId: userId,
+      },
+      userId
+    );
+
+    let extractedText = '';
+    try {
+      extractedText = sanitizeTextForPostgres(await aiService.extractTextFromDocument(file.buffer, file.mimetype)) || '';
+    } catch (error) {
+      console.error("Text extraction failed (non-critical):", error);
+    }
+
+    const document = await storage.createDocument(insertDocumentSchema.parse({
+      caseId,
+      fileName: file.filename || `document_${Date.now()}`,
+      originalName: file.originalname,
+      fileSize: file.size,
+      mimeType: file.mimetype,
+      category: 'Legal Document',
+      objectPath,
+      extractedText,
+      isProcessed: !!extractedText,
+      uploadedBy: userId,
+    }));
+    return { caseData: access.caseData, document };
+  };
+
+  // Answers 409 with the likely duplicates unless the user has already chosen to create a new case
+  // anyway (createDuplicate=true). A case number that is already taken can only be attached to.
+  const respondIfDuplicateIntake = async (req: any, res: any, criteria: DuplicateCaseCriteria): Promise<boolean> => {
+    const userId = req.user.claims.sub;
+    const duplicates = await storage.findDuplicateCases(userId, criteria);
+    const caseNumberTaken = !!criteria.caseNumber &&
+      (await storage.getExistingCaseNumbers([criteria.caseNumber])).length > 0;
+    if (!caseNumberTaken && (duplicates.length === 0 || req.body.createDuplicate === 'true')) {
+      return false;
+    }
+
+    let message = "This looks like a case that already exists";
+    if (caseNumberTaken) {
+      message = duplicates.some(d => d.reasons.includes('case_number'))
+        ? `Case ${criteria.caseNumber} already exists`
+        : `Case number ${criteria.caseNumber} is already used by a case you do not have access to`;
+    }
+    const body: DuplicateIntakeResponse = { message, duplicates, caseNumberTaken };
+    res.status(409).json(body);
+    return true;
+  };
+
+  // Bulk import from a referral spreadsheet. The preview (without a mapping) suggests one from the column headings.
+  app.post('/api/cases/import/preview', isAuthenticated, preserveAuditContext(spreadsheetUpload.single('file')), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a CSV or Excel file" });
+      }
+      const { mapping, mediatorId: requestedMediatorId } = caseImportRequestSchema.parse(req.body);
+      const mediatorId = await resolveCaseMediatorId(userId, requestedMediatorId);
+      if (!mediatorId) {
+        return res.status(403).json({ message: "Not authorized to create cases for this mediator" });
+      }
+      res.json(await previewCaseImport(req.file, mediatorId, mapping));
+    } catch (error: any) {
+      if (error instanceof CaseImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.name === 'ZodError' || error instanceof SyntaxError) {
+        return res.status(400).json({ message: "Invalid column mapping", errors: error.errors });
+      }
+      console.error("Error previewing case import:", error);
+      res.status(500).json({ message: "Failed to read spreadsheet" });
+    }
+  });
+
+  app.post('/api/cases/import', isAuthenticated, preserveAuditContext(spreadsheetUpload.single('file')), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a CSV or Excel file" });
+      }
+      const { mapping, mediatorId: requestedMediatorId, skipInvalid } = caseImportRequestSchema.parse(req.body);
+      if (!mapping) {
+        return res.status(400).json({ message: "Column mapping is required" });
+      }
+      const mediatorId = await resolveCaseMediatorId(userId, requestedMediatorId);
+      if (!mediatorId) {
+        return res.status(403).json({ message: "Not authorized to create cases for this mediator" });
+      }
+
+      const { created, invalid, conflictCheckFailed } = await importCases(req.file, mapping, mediatorId, userId, skipInvalid);
+      if (created.length === 0 && invalid.length > 0) {
+        return res.status(400).json({
+          message: `${invalid.length} row${invalid.length === 1 ? " has" : "s have"} errors or duplicate case numbers; nothing was imported`,
+          rows: invalid,
+        });
+      }
+      const result: CaseImportResult = {
+        created: created.length,
+        skipped: invalid.length,
+        caseIds: created.map(c => c.id),
+        conflictCheckFailed,
+      };
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error instanceof CaseImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.name === 'ZodError' || error instanceof SyntaxError) {
+        return res.status(400).json({ message: "Invalid column mapping", errors: error.errors });
+      }
+      // A case number was taken between the preview and the import; the transaction rolled back
+      if (error.code === '23505') {
+        return res.status(409).json({ message: "A case number in the file was created by someone else meanwhile. Preview the file again." });
+      }
+      console.error("Error importing cases:", error);
+      res.status(500).json({ message: "Failed to import cases" });
+    }
+  });
+
+  // Recreates a case from a bundle produced by GET /api/cases/:id/export (possibly on another instance)
+  app.post('/api/cases/import-bundle', isAuthenticated, preserveAuditContext(bundleUpload.single('file')), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a case export ZIP" });
+      }
+      const mediatorId = await resolveCaseMediatorId(userId, req.body.mediatorId);
+      if (!mediatorId) {
+        return res.status(403).json({ message: "Not authorized to create cases for this mediator" });
+      }
+      const newCase = await importCaseBundle(req.file.buffer, mediatorId, userId, req.body.caseNumber);
+      res.status(201).json(newCase);
+    } catch (error: any) {
+      if (error instanceof CaseBundleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error importing case bundle:", error);
+      res.status(500).json({ message: "Failed to import case" });
+    }
+  });
+
+  app.post('/api/cases/create-from-upload', isAuthenticated, preserveAuditContext(upload.single('document')), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const file = req.file;
+
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      if (req.body.attachToCaseId) {
+        const attached = await attachIntakeFile(userId, req.body.attachToCaseId, file);
+        if (!attached) {
+          return res.status(404).json({ message: "Case not found" });
+        }
+        return res.json({
+          case: attached.caseData,
+          document: attached.document,
+          attached: true,
+          message: `Document attached to case ${attached.caseData.caseNumber}`,
+        });
+      }
+
+      const mediatorId = await resolveCaseMediatorId(userId, req.body.mediatorId);
+      if (!mediatorId) {
+        return res.status(403).json({ message: "Not authorized to create cases for this mediator" });
+      }
+
+      // Extract case data using AI (with fallback for errors)
+      let extractedData: any = {};
+      let extractedText = '';
+      
+      try {
+        extractedData = await aiService.extractCaseDataFromDocument(file.buffer, file.mimetype);
+      } catch (error) {
+        console.error("AI extraction failed, using defaults:", error);
+        extractedData = {};
+      }
+
+      const duplicateHandled = await respondIfDuplicateIntake(req, res, {
+        caseNumber: extractedData.caseNumber,
+        partyNames: (extractedData.parties || []).map((party: any) => party.entityName),
+        mediationDate: extractedData.mediationDate ? new Date(extractedData.mediationDate) : null,
+      });
+      if (duplicateHandled) return;
+
+      // Save file to local storage
+      const fileStorage = new LocalFileStorageService();
+      const objectPath = await fileStorage.saveFile(
+        file.buffer,
+        {
+          contentType: file.mimetype,
+          size: file.size,
+          uploadedAt: new Date().toISOString(),
+          userId: userId,
+        },
+        userId
+      );
+      
+      // Extract text content for future RAG queries
+      try {
+        extractedText = await aiService.extractTextFromDocument(file.buffer, file.mimetype);
+        // Sanitize the extracted text to remove null bytes
+        extractedText = sanitizeTextForPostgres(extractedText) || '';
+      } catch (error) {
+        console.error("Text extraction failed:", error);
+        extractedText = '';
+      }
+
+      // Create case record
+      const caseData = {
+        caseNumber: extractedData.caseNumber || `MED-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`,
+        mediationNumber: extractedData.mediationNumber,
+        mediatorId,
+        mediatorName: extractedData.mediatorName || 'Auto-assigned',
+        mediationType: extractedData.mediationType || 'Remote',
+        mediationDate: extractedData.mediationDate ? new Date(extractedData.mediationDate) : null,
+        premises: extractedData.premises,
+        disputeBackground: extractedData.disputeBackground,
+        issuesForDiscussion: extractedData.issuesForDiscussion || [],
+        status: 'referred' as const
+      };
+
+      const validatedCaseData = insertCaseSchema.parse(caseData);
+      const newCase = await storage.createCase(validatedCaseData, userId);
 
       // Create parties if extracted
       if (extractedData.parties) {
@@ -379,6 +1951,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      const checkedCase = await storage.runCaseConflictCheck(newCase.id, userId);
+
       // Create document record
       const documentData = {
         caseId: newCase.id,
@@ -397,7 +1971,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.createDocument(validatedDocumentData);
 
       res.json({ 
-        case: newCase, 
+        case: checkedCase, 
         message: "Case created successfully from uploaded document" 
       });
 
@@ -408,7 +1982,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // New route: Create meeting/case from file upload (PDF, DOC, DOCX)
-  app.post('/api/cases/create-from-file', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post('/api/cases/create-from-file', isAuthenticated, preserveAuditContext(upload.single('file')), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const file = req.file;
@@ -417,18 +1991,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      // Save file to local storage first
-      const fileStorage = new LocalFileStorageService();
-      const objectPath = await fileStorage.saveFile(
-        file.buffer,
-        {
-          contentType: file.mimetype,
-          size: file.size,
-          uploadedAt: new Date().toISOString(),
-          userId: userId,
-        },
-        userId
-      );
+      if (req.body.attachToCaseId) {
+        const attached = await attachIntakeFile(userId, req.body.attachToCaseId, file);
+        if (!attached) {
+          return res.status(404).json({ message: "Case not found" });
+        }
+        return res.json({
+          case: attached.caseData,
+          document: attached.document,
+          attached: true,
+          message: `File attached to case ${attached.caseData.caseNumber}`,
+        });
+      }
+
+      const mediatorId = await resolveCaseMediatorId(userId, req.body.mediatorId);
+      if (!mediatorId) {
+        return res.status(403).json({ message: "Not authorized to create cases for this mediator" });
+      }
 
       // Extract meeting/calendar data using AI (specifically for calendar invitations)
       let meetingData: any = {};
@@ -520,23 +2099,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         meetingData.additionalDetails ? meetingData.additionalDetails : null
       ].filter(Boolean);
 
+      // Calendar invites get a generated case number, so duplicates are found by invitee and date
+      const duplicateHandled = await respondIfDuplicateIntake(req, res, {
+        partyNames: [meetingData.inviteeName || meetingData.inviteeEmail].filter(Boolean),
+        mediationDate: parsedDate,
+      });
+      if (duplicateHandled) return;
+
+      // Save file to local storage
+      const fileStorage = new LocalFileStorageService();
+      const objectPath = await fileStorage.saveFile(
+        file.buffer,
+        {
+          contentType: file.mimetype,
+          size: file.size,
+          uploadedAt: new Date().toISOString(),
+          userId: userId,
+        },
+        userId
+      );
+
       // Map meeting data to case fields
       const caseNumber = `MED-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`;
       const caseData = {
         caseNumber: caseNumber,
         mediationNumber: caseNumber,
-        mediatorId: userId,
+        mediatorId,
         mediatorName: null, // Will be filled from user profile or settings
         mediationType: 'Remote', // Default for calendar meetings
         mediationDate: parsedDate,
         premises: meetingData.location || null,
         disputeBackground: backgroundParts.length > 0 ? backgroundParts.join('\n\n') : null,
         issuesForDiscussion: meetingData.eventType ? [meetingData.eventType] : [],
-        status: 'active' as const
+        status: parsedDate ? 'scheduled' as const : 'referred' as const
       };
 
       const validatedCaseData = insertCaseSchema.parse(caseData);
-      const newCase = await storage.createCase(validatedCaseData);
+      const newCase = await storage.createCase(validatedCaseData, userId);
 
       // Create party from invitee information
       if (meetingData.inviteeName || meetingData.inviteeEmail) {
@@ -557,53 +2156,448 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.createParty(validatedPartyData);
       }
 
-      // Create document record (sanitize extracted text to prevent UTF-8 encoding errors)
-      const documentData = {
-        caseId: newCase.id,
-        fileName: file.filename || `document_${Date.now()}`,
-        originalName: file.originalname,
-        fileSize: file.size,
-        mimeType: file.mimetype,
-        category: 'Legal Document',
-        objectPath: objectPath,
-        extractedText: sanitizeTextForPostgres(extractedText), // Sanitized to remove null bytes
-        isProcessed: !!extractedText, // Only mark as processed if text extraction succeeded
-        uploadedBy: userId,
-      };
+      const checkedCase = await storage.runCaseConflictCheck(newCase.id, userId);
+
+      // Create document record (sanitize extracted text to prevent UTF-8 encoding errors)
+      const documentData = {
+        caseId: newCase.id,
+        fileName: file.filename || `document_${Date.now()}`,
+        originalName: file.originalname,
+        fileSize: file.size,
+        mimeType: file.mimetype,
+        category: 'Legal Document',
+        objectPath: objectPath,
+        extractedText: sanitizeTextForPostgres(extractedText), // Sanitized to remove null bytes
+        isProcessed: !!extractedText, // Only mark as processed if text extraction succeeded
+        uploadedBy: userId,
+      };
+
+      const validatedDocumentData = insertDocumentSchema.parse(documentData);
+      await storage.createDocument(validatedDocumentData);
+
+      res.json({ 
+        case: checkedCase, 
+        meetingData: meetingData,
+        message: "Meeting created successfully from file" 
+      });
+
+    } catch (error) {
+      console.error("Error creating meeting from file:", error);
+      res.status(500).json({ message: "Failed to create meeting from file" });
+    }
+  });
+
+  app.get('/api/search', isAuthenticated, async (req: any, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim().slice(0, 200) : '';
+      if (query.length < 2) {
+        return res.json({ query, groups: [] });
+      }
+      const results = await storage.search(req.user.claims.sub, query);
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  // Conflict-of-interest checks
+  app.post('/api/conflict-check', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { subjects } = conflictCheckSchema.parse(req.body);
+      const matches = await storage.checkConflicts(userId, subjects);
+      res.json({ checkedAt: new Date().toISOString(), subjects, matches });
+    } catch (error: any) {
+      console.error("Error running conflict check:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid conflict check", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to run conflict check" });
+    }
+  });
+
+  // Other cases that look like the same matter, offered as merge candidates
+  app.get('/api/cases/:id/duplicates', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const caseParties = await storage.getPartiesByCase(req.caseData!.id);
+      const duplicates = await storage.findDuplicateCases(userId, {
+        partyNames: caseParties.map(party => party.entityName),
+        mediationDate: req.caseData!.mediationDate,
+        excludeCaseId: req.caseData!.id,
+      });
+      res.json(duplicates);
+    } catch (error) {
+      console.error("Error finding duplicate cases:", error);
+      res.status(500).json({ message: "Failed to find duplicate cases" });
+    }
+  });
+
+  app.post('/api/cases/:id/merge', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { sourceCaseId } = mergeCasesSchema.parse(req.body);
+      if (sourceCaseId === req.caseData!.id) {
+        return res.status(400).json({ message: "A case cannot be merged into itself" });
+      }
+      const sourceAccess = await storage.getCaseAccess(sourceCaseId, userId);
+      if (!sourceAccess?.canWrite) {
+        return res.status(404).json({ message: "Case to merge not found" });
+      }
+
+      const result = await storage.mergeCases(req.caseData!.id, sourceCaseId, userId);
+      await syncReminders(sourceCaseId);
+      await syncReminders(req.caseData!.id);
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid merge request", errors: error.errors });
+      }
+      console.error("Error merging cases:", error);
+      res.status(500).json({ message: "Failed to merge cases" });
+    }
+  });
+
+  // Streams the whole case file as a ZIP; ?brief=true adds a PDF case brief
+  app.get('/api/cases/:id/export', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const includeBrief = req.query.brief === 'true';
+      const { zip, fileName } = await buildCaseExport(req.caseData!, { includeBrief });
+      await storage.recordAuditEvent({
+        caseId: req.caseData!.id,
+        action: "case.exported",
+        entityType: "case",
+        entityId: req.caseData!.id,
+        metadata: { includeBrief },
+      });
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      zip
+        .generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' })
+        .on('error', (error) => {
+          console.error("Error streaming case export:", error);
+          res.destroy(error);
+        })
+        .pipe(res);
+    } catch (error) {
+      console.error("Error exporting case:", error);
+      res.status(500).json({ message: "Failed to export case" });
+    }
+  });
+
+  app.post('/api/cases/:id/conflict-check', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const updatedCase = await storage.runCaseConflictCheck(req.caseData!.id, req.user.claims.sub);
+      res.json(updatedCase);
+    } catch (error) {
+      console.error("Error running case conflict check:", error);
+      res.status(500).json({ message: "Failed to run conflict check" });
+    }
+  });
+
+  app.post('/api/cases/:id/conflict-check/acknowledge', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const { note } = acknowledgeConflictSchema.parse(req.body);
+      if (!req.caseData!.conflictReport) {
+        return res.status(400).json({ message: "Run a conflict check before acknowledging it" });
+      }
+      const updatedCase = await storage.acknowledgeConflictCheck(req.caseData!.id, req.user.claims.sub, note);
+      res.json(updatedCase);
+    } catch (error: any) {
+      console.error("Error acknowledging conflict check:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid acknowledgement", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to acknowledge conflict check" });
+    }
+  });
+
+  app.delete('/api/cases/:id', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      await storage.deleteCase(req.caseData!.id, req.user.claims.sub);
+      await syncReminders(req.caseData!.id);
+      res.json({ message: "Case moved to trash", retentionDays: TRASH_RETENTION_DAYS });
+    } catch (error) {
+      console.error("Error deleting case:", error);
+      res.status(500).json({ message: "Failed to delete case" });
+    }
+  });
+
+  // Trash routes
+  app.get('/api/trash', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json({
+        retentionDays: TRASH_RETENTION_DAYS,
+        cases: await storage.getTrashedCases(userId, TRASH_RETENTION_DAYS),
+        documents: await storage.getTrashedDocuments(userId, TRASH_RETENTION_DAYS),
+      });
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post('/api/cases/:id/restore', isAuthenticated, requireCaseAccess('id', { includeDeleted: true }), async (req, res) => {
+    try {
+      if (!req.caseData!.deletedAt) {
+        return res.status(400).json({ message: "Case is not in the trash" });
+      }
+      const restoredCase = await storage.restoreCase(req.caseData!.id);
+      await syncReminders(restoredCase.id);
+      res.json(restoredCase);
+    } catch (error) {
+      console.error("Error restoring case:", error);
+      res.status(500).json({ message: "Failed to restore case" });
+    }
+  });
+
+  app.delete('/api/cases/:id/permanent', isAuthenticated, requireCaseAccess('id', { includeDeleted: true }), async (req, res) => {
+    try {
+      if (!req.caseData!.deletedAt) {
+        return res.status(400).json({ message: "Move the case to the trash before deleting it permanently" });
+      }
+      await purgeCase(req.caseData!);
+      res.json({ message: "Case permanently deleted" });
+    } catch (error) {
+      console.error("Error permanently deleting case:", error);
+      res.status(500).json({ message: "Failed to permanently delete case" });
+    }
+  });
+
+  app.delete('/api/documents/:documentId', isAuthenticated, requireDocumentAccess(), async (req: any, res) => {
+    try {
+      await storage.deleteDocument(req.document!.id, req.user.claims.sub);
+      res.json({ message: "Document moved to trash", retentionDays: TRASH_RETENTION_DAYS });
+    } catch (error) {
+      console.error("Error deleting document:", error);
+      res.status(500).json({ message: "Failed to delete document" });
+    }
+  });
+
+  app.post('/api/documents/:documentId/restore', isAuthenticated, requireDocumentAccess('documentId', { includeDeleted: true }), async (req, res) => {
+    try {
+      if (!req.document!.deletedAt) {
+        return res.status(400).json({ message: "Document is not in the trash" });
+      }
+      const document = await storage.restoreDocument(req.document!.id);
+      res.json(document);
+    } catch (error) {
+      console.error("Error restoring document:", error);
+      res.status(500).json({ message: "Failed to restore document" });
+    }
+  });
+
+  app.delete('/api/documents/:documentId/permanent', isAuthenticated, requireDocumentAccess('documentId', { includeDeleted: true }), async (req, res) => {
+    try {
+      if (!req.document!.deletedAt) {
+        return res.status(400).json({ message: "Move the document to the trash before deleting it permanently" });
+      }
+      await purgeDocument(req.document!);
+      res.json({ message: "Document permanently deleted" });
+    } catch (error) {
+      console.error("Error permanently deleting document:", error);
+      res.status(500).json({ message: "Failed to permanently delete document" });
+    }
+  });
+
+  // Case type routes. Members pick from the practice's case types; only admins define them.
+  app.get('/api/case-types', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getCaseTypes(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching case types:", error);
+      res.status(500).json({ message: "Failed to fetch case types" });
+    }
+  });
+
+  app.post('/api/case-types', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const caseTypeData = insertCaseTypeSchema.parse(req.body);
+      const caseType = await storage.createCaseType(req.user.claims.sub, caseTypeData);
+      res.json(caseType);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid case type", errors: error.errors });
+      }
+      console.error("Error creating case type:", error);
+      res.status(500).json({ message: "Failed to create case type" });
+    }
+  });
+
+  app.patch('/api/case-types/:caseTypeId', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const existing = await storage.getCaseTypeForUser(req.params.caseTypeId, req.user.claims.sub);
+      if (!existing) {
+        return res.status(404).json({ message: "Case type not found" });
+      }
+      const caseTypeData = insertCaseTypeSchema.partial().parse(req.body);
+      const caseType = await storage.updateCaseType(existing.id, caseTypeData);
+      res.json(caseType);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid case type", errors: error.errors });
+      }
+      console.error("Error updating case type:", error);
+      res.status(500).json({ message: "Failed to update case type" });
+    }
+  });
+
+  app.delete('/api/case-types/:caseTypeId', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const existing = await storage.getCaseTypeForUser(req.params.caseTypeId, req.user.claims.sub);
+      if (!existing) {
+        return res.status(404).json({ message: "Case type not found" });
+      }
+      await storage.deleteCaseType(existing.id);
+      res.json({ message: "Case type deleted" });
+    } catch (error) {
+      console.error("Error deleting case type:", error);
+      res.status(500).json({ message: "Failed to delete case type" });
+    }
+  });
+
+  // Records retention routes. Anyone in the practice can see the policy; only admins change it or approve purges.
+  app.get('/api/retention/rules', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getRetentionRules(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching retention rules:", error);
+      res.status(500).json({ message: "Failed to fetch retention rules" });
+    }
+  });
 
-      const validatedDocumentData = insertDocumentSchema.parse(documentData);
-      await storage.createDocument(validatedDocumentData);
+  app.post('/api/retention/rules', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const ruleData = insertRetentionRuleSchema.parse(req.body);
+      const rule = await storage.createRetentionRule(req.user.claims.sub, ruleData);
+      res.json(rule);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid retention rule", errors: error.errors });
+      }
+      console.error("Error creating retention rule:", error);
+      res.status(500).json({ message: "Failed to create retention rule" });
+    }
+  });
 
-      res.json({ 
-        case: newCase, 
-        meetingData: meetingData,
-        message: "Meeting created successfully from file" 
-      });
+  app.patch('/api/retention/rules/:ruleId', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const existing = await storage.getRetentionRuleForUser(req.params.ruleId, req.user.claims.sub);
+      if (!existing) {
+        return res.status(404).json({ message: "Retention rule not found" });
+      }
+      const ruleData = insertRetentionRuleSchema.partial().parse(req.body);
+      const rule = await storage.updateRetentionRule(existing.id, ruleData);
+      res.json(rule);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid retention rule", errors: error.errors });
+      }
+      console.error("Error updating retention rule:", error);
+      res.status(500).json({ message: "Failed to update retention rule" });
+    }
+  });
 
+  app.delete('/api/retention/rules/:ruleId', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const existing = await storage.getRetentionRuleForUser(req.params.ruleId, req.user.claims.sub);
+      if (!existing) {
+        return res.status(404).json({ message: "Retention rule not found" });
+      }
+      await storage.deleteRetentionRule(existing.id);
+      res.json({ message: "Retention rule deleted" });
     } catch (error) {
-      console.error("Error creating meeting from file:", error);
-      res.status(500).json({ message: "Failed to create meeting from file" });
+      console.error("Error deleting retention rule:", error);
+      res.status(500).json({ message: "Failed to delete retention rule" });
     }
   });
 
-  app.delete('/api/cases/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/retention/reviews', isAuthenticated, async (req: any, res) => {
     try {
-      const caseId = req.params.id;
-      const caseData = await storage.getCase(caseId);
-      
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
+      res.json(await storage.getRetentionReviews(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching retention reviews:", error);
+      res.status(500).json({ message: "Failed to fetch retention reviews" });
+    }
+  });
+
+  // Checks every closed case against the rules now instead of waiting for the daily run
+  app.post('/api/retention/run', isAuthenticated, requirePracticeAdmin(), async (_req, res) => {
+    try {
+      res.json(await evaluateRetention());
+    } catch (error) {
+      console.error("Error running retention check:", error);
+      res.status(500).json({ message: "Failed to run retention check" });
+    }
+  });
+
+  app.post('/api/retention/reviews/:reviewId/approve', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { note } = approveRetentionReviewSchema.parse(req.body);
+      const review = await storage.getRetentionReviewForUser(req.params.reviewId, userId);
+      if (!review || review.status === "purged") {
+        return res.status(404).json({ message: "Retention review not found" });
       }
-      
-      await storage.deleteCase(caseId);
-      res.json({ message: "Case deleted successfully" });
+      if (review.status === "deferred") {
+        return res.status(400).json({ message: "This case's records are on hold until the deferral ends" });
+      }
+      const certificate = await approveRetentionReview(review, userId, note);
+      res.json(certificate);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid approval", errors: error.errors });
+      }
+      console.error("Error approving retention review:", error);
+      res.status(500).json({ message: "Failed to purge case records" });
+    }
+  });
+
+  app.post('/api/retention/reviews/:reviewId/defer', isAuthenticated, requirePracticeAdmin(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { until, note } = deferRetentionReviewSchema.parse(req.body);
+      if (until <= new Date()) {
+        return res.status(400).json({ message: "Defer the review to a date in the future" });
+      }
+      const review = await storage.getRetentionReviewForUser(req.params.reviewId, userId);
+      if (!review || review.status === "purged") {
+        return res.status(404).json({ message: "Retention review not found" });
+      }
+      const deferred = await deferRetentionReview(review, userId, until, note);
+      res.json(deferred);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid deferral", errors: error.errors });
+      }
+      console.error("Error deferring retention review:", error);
+      res.status(500).json({ message: "Failed to defer retention review" });
+    }
+  });
+
+  app.get('/api/retention/certificates', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getDestructionCertificates(req.user.claims.sub));
     } catch (error) {
-      console.error("Error deleting case:", error);
-      res.status(500).json({ message: "Failed to delete case" });
+      console.error("Error fetching destruction certificates:", error);
+      res.status(500).json({ message: "Failed to fetch destruction certificates" });
     }
   });
 
-  app.post('/api/cases/:id/parties', isAuthenticated, async (req: any, res) => {
+  // Directory contacts linked to parties must belong to the user's own directory
+  const canLinkContacts = async (userId: string, ...contactIds: (string | null | undefined)[]) => {
+    for (const contactId of contactIds) {
+      if (contactId && !(await storage.getContactForUser(contactId, userId))) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  app.post('/api/cases/:id/parties', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
       const caseId = req.params.id;
       const partyData = {
@@ -612,7 +2606,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const validatedPartyData = insertPartySchema.parse(partyData);
-      const party = await storage.createParty(validatedPartyData);
+      if (!(await canLinkContacts(req.user.claims.sub, validatedPartyData.contactId, req.body.legalRepContactId))) {
+        return res.status(400).json({ message: "Contact not found" });
+      }
+      const party = await storage.createParty(validatedPartyData, req.body.legalRepContactId || undefined);
 
       res.json(party);
     } catch (error) {
@@ -621,8 +2618,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Loads a party and checks it belongs to the case in the URL
+  const getCaseParty = async (caseId: string, partyId: string) => {
+    const party = await storage.getParty(partyId);
+    return party && party.caseId === caseId ? party : undefined;
+  };
+
+  app.patch('/api/cases/:id/parties/:partyId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const party = await getCaseParty(req.params.id, req.params.partyId);
+      if (!party) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+
+      const validatedData = updatePartySchema.parse(req.body);
+      if (!(await canLinkContacts(req.user.claims.sub, validatedData.contactId))) {
+        return res.status(400).json({ message: "Contact not found" });
+      }
+      const updatedParty = await storage.updateParty(party.id, validatedData);
+      res.json(updatedParty);
+    } catch (error: any) {
+      console.error("Error updating party:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid party data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update party" });
+    }
+  });
+
+  app.delete('/api/cases/:id/parties/:partyId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const party = await getCaseParty(req.params.id, req.params.partyId);
+      if (!party) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+
+      await storage.deleteParty(party.id);
+      res.json({ message: "Party deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting party:", error);
+      res.status(500).json({ message: "Failed to delete party" });
+    }
+  });
+
+  app.put('/api/cases/:id/parties/order', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const { partyIds } = reorderPartiesSchema.parse(req.body);
+      const parties = await storage.reorderParties(req.params.id, partyIds);
+      res.json(parties);
+    } catch (error: any) {
+      console.error("Error reordering parties:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid party order", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reorder parties" });
+    }
+  });
+
+  app.post('/api/cases/:id/parties/:partyId/representatives', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const party = await getCaseParty(req.params.id, req.params.partyId);
+      if (!party) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+
+      const validatedData = insertPartyRepresentativeSchema.parse({ ...req.body, partyId: party.id });
+      if (!(await canLinkContacts(req.user.claims.sub, validatedData.contactId))) {
+        return res.status(400).json({ message: "Contact not found" });
+      }
+      const representative = await storage.createPartyRepresentative(validatedData);
+      res.status(201).json(representative);
+    } catch (error: any) {
+      console.error("Error adding representative:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid representative data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add representative" });
+    }
+  });
+
+  app.patch('/api/cases/:id/parties/:partyId/representatives/:representativeId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const party = await getCaseParty(req.params.id, req.params.partyId);
+      const representative = await storage.getPartyRepresentative(req.params.representativeId);
+      if (!party || !representative || representative.partyId !== party.id) {
+        return res.status(404).json({ message: "Representative not found" });
+      }
+
+      const validatedData = insertPartyRepresentativeSchema.omit({ partyId: true }).partial().parse(req.body);
+      if (!(await canLinkContacts(req.user.claims.sub, validatedData.contactId))) {
+        return res.status(400).json({ message: "Contact not found" });
+      }
+      const updatedRepresentative = await storage.updatePartyRepresentative(representative.id, validatedData);
+      res.json(updatedRepresentative);
+    } catch (error: any) {
+      console.error("Error updating representative:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid representative data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update representative" });
+    }
+  });
+
+  app.delete('/api/cases/:id/parties/:partyId/representatives/:representativeId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const party = await getCaseParty(req.params.id, req.params.partyId);
+      const representative = await storage.getPartyRepresentative(req.params.representativeId);
+      if (!party || !representative || representative.partyId !== party.id) {
+        return res.status(404).json({ message: "Representative not found" });
+      }
+
+      await storage.deletePartyRepresentative(representative.id);
+      res.json({ message: "Representative removed successfully" });
+    } catch (error) {
+      console.error("Error removing representative:", error);
+      res.status(500).json({ message: "Failed to remove representative" });
+    }
+  });
+
   // Document routes
-  app.get('/api/cases/:id/documents', isAuthenticated, async (req, res) => {
+  app.get('/api/cases/:id/documents', isAuthenticated, requireCaseAccess(), async (req, res) => {
     try {
       const documents = await storage.getDocumentsByCase(req.params.id);
       res.json(documents);
@@ -632,7 +2747,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/cases/:id/documents', isAuthenticated, upload.single('document'), async (req: any, res) => {
+  app.post('/api/cases/:id/documents', isAuthenticated, requireCaseAccess(), preserveAuditContext(upload.single('document')), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const file = req.file;
@@ -684,7 +2799,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/cases/:id/documents/process-upload', isAuthenticated, async (req: any, res) => {
+  app.post('/api/cases/:id/documents/process-upload', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { uploadURL, fileName, fileSize, mimeType, category } = req.body;
@@ -760,14 +2875,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/documents/:documentId/reparse', isAuthenticated, async (req: any, res) => {
+  app.post('/api/documents/:documentId/reparse', isAuthenticated, requireDocumentAccess(), async (req: any, res) => {
     try {
-      const { documentId } = req.params;
-      
-      const document = await storage.getDocument(documentId);
-      if (!document) {
-        return res.status(404).json({ message: "Document not found" });
-      }
+      const document = req.document!;
 
       let extractedText = '';
       let isProcessed = false;
@@ -784,7 +2894,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Failed to extract text from document" });
       }
 
-      const updatedDocument = await storage.updateDocument(documentId, {
+      const updatedDocument = await storage.updateDocument(document.id, {
         extractedText,
         isProcessed,
       });
@@ -797,7 +2907,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Case notes routes
-  app.get('/api/cases/:id/notes', isAuthenticated, async (req, res) => {
+  app.get('/api/cases/:id/notes', isAuthenticated, requireCaseAccess(), async (req, res) => {
     try {
       const notes = await storage.getCaseNotes(req.params.id);
       res.json(notes);
@@ -807,7 +2917,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/cases/:id/notes', isAuthenticated, async (req: any, res) => {
+  app.post('/api/cases/:id/notes', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { content } = req.body;
@@ -833,7 +2943,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI analysis routes
-  app.post('/api/cases/:id/ai/summary', isAuthenticated, async (req: any, res) => {
+  app.post('/api/cases/:id/ai/summary', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const summary = await aiService.generateCaseSummary(req.params.id);
@@ -855,7 +2965,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/cases/:id/ai/question', isAuthenticated, async (req: any, res) => {
+  app.post('/api/cases/:id/ai/question', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { question } = req.body;
@@ -884,40 +2994,329 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/cases/:id/ai/irac', isAuthenticated, async (req: any, res) => {
+  app.post('/api/cases/:id/ai/irac', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { legalIssue } = req.body;
+
+      if (!legalIssue) {
+        return res.status(400).json({ message: "Legal issue is required" });
+      }
+
+      const iracAnalysis = await aiService.generateIRACAnalysis(req.params.id, legalIssue);
+
+      const analysisData = {
+        caseId: req.params.id,
+        analysisType: 'irac',
+        input: legalIssue,
+        output: iracAnalysis,
+        metadata: { legalIssue },
+        createdBy: userId,
+      };
+
+      const validatedAnalysisData = insertAiAnalysisSchema.parse(analysisData);
+      const analysis = await storage.createAiAnalysis(validatedAnalysisData);
+
+      res.json({ legalIssue, iracAnalysis, analysis });
+    } catch (error) {
+      console.error("Error generating IRAC analysis:", error);
+      res.status(500).json({ message: "Failed to generate IRAC analysis" });
+    }
+  });
+
+  // Case mediator (co-mediation) routes
+  app.get('/api/cases/:id/mediators', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const mediators = await storage.getCaseMediators(req.params.id);
+      res.json(mediators.map(m => ({ ...m, user: { ...m.user, passwordHash: undefined } })));
+    } catch (error) {
+      console.error("Error fetching case mediators:", error);
+      res.status(500).json({ message: "Failed to fetch case mediators" });
+    }
+  });
+
+  // Only the lead mediator or an admin of the lead's organization changes who mediates a case
+  const canManageCaseMediators = async (caseData: Case, userId: string) => {
+    if (caseData.mediatorId === userId) return true;
+    const membership = await storage.getOrganizationMembership(userId);
+    if (membership?.role !== 'admin') return false;
+    const leadMembership = await storage.getOrganizationMembership(caseData.mediatorId);
+    return leadMembership?.organizationId === membership.organizationId;
+  };
+
+  app.post('/api/cases/:id/mediators', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const caseData = req.caseData!;
+      if (!(await canManageCaseMediators(caseData, req.user.claims.sub))) {
+        return res.status(403).json({ message: "Only the lead mediator or an organization admin can add co-mediators" });
+      }
+
+      // Co-mediators come from the lead mediator's organization; users elsewhere are reported as not found.
+      // A lead mediator practising alone has no one to add until they set up a practice and invite them.
+      const leadMembership = await storage.getOrganizationMembership(caseData.mediatorId);
+      if (!leadMembership) {
+        return res.status(400).json({
+          message: "Co-mediators must be members of the lead mediator's practice. Create a practice under Settings > Team and invite them to it first.",
+        });
+      }
+      const { email, userId: mediatorUserId } = req.body;
+      const mediatorUser = mediatorUserId
+        ? await storage.getUser(mediatorUserId)
+        : email ? await storage.getUserByEmail(email) : undefined;
+      const mediatorMembership = mediatorUser ? await storage.getOrganizationMembership(mediatorUser.id) : undefined;
+      if (!mediatorUser || mediatorMembership?.organizationId !== leadMembership.organizationId) {
+        return res.status(404).json({
+          message: "No member of the lead mediator's practice has that email. Invite them to the practice under Settings > Team first.",
+        });
+      }
+
+      const existing = await storage.getCaseMediators(caseData.id);
+      if (existing.some(m => m.userId === mediatorUser.id)) {
+        return res.status(400).json({ message: "Mediator is already assigned to this case" });
+      }
+
+      const validatedData = insertCaseMediatorSchema.parse({
+        caseId: caseData.id,
+        userId: mediatorUser.id,
+        role: 'co',
+      });
+      const mediator = await storage.addCaseMediator(validatedData);
+      res.status(201).json(mediator);
+    } catch (error) {
+      console.error("Error adding co-mediator:", error);
+      res.status(500).json({ message: "Failed to add co-mediator" });
+    }
+  });
+
+  app.patch('/api/cases/:id/mediators/:userId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const { id, userId: mediatorUserId } = req.params;
+
+      if (req.body.role !== 'lead') {
+        return res.status(400).json({ message: "Only promotion to lead mediator is supported" });
+      }
+      if (!(await canManageCaseMediators(req.caseData!, req.user.claims.sub))) {
+        return res.status(403).json({ message: "Only the lead mediator or an organization admin can change the lead mediator" });
+      }
+
+      const mediators = await storage.getCaseMediators(id);
+      if (!mediators.some(m => m.userId === mediatorUserId)) {
+        return res.status(404).json({ message: "Mediator is not assigned to this case" });
+      }
+
+      const updatedCase = await storage.setLeadMediator(id, mediatorUserId);
+      res.json(updatedCase);
+    } catch (error) {
+      console.error("Error changing lead mediator:", error);
+      res.status(500).json({ message: "Failed to change lead mediator" });
+    }
+  });
+
+  // Co-mediators may take themselves off a case; anyone else is removed by the lead or an admin
+  app.delete('/api/cases/:id/mediators/:userId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const { id, userId: mediatorUserId } = req.params;
+      const userId = req.user.claims.sub;
+
+      if (req.caseData.mediatorId === mediatorUserId) {
+        return res.status(400).json({ message: "The lead mediator cannot be removed. Assign a new lead first." });
+      }
+      if (mediatorUserId !== userId && !(await canManageCaseMediators(req.caseData!, userId))) {
+        return res.status(403).json({ message: "Only the lead mediator or an organization admin can remove co-mediators" });
+      }
+
+      await storage.removeCaseMediator(id, mediatorUserId);
+      res.json({ message: "Co-mediator removed successfully" });
+    } catch (error) {
+      console.error("Error removing co-mediator:", error);
+      res.status(500).json({ message: "Failed to remove co-mediator" });
+    }
+  });
+
+  // Contact addresses of every mediator on a case (the configured mediator email, else the login email)
+  const getCaseMediatorContacts = async (caseId: string): Promise<{ email: string; displayName: string }[]> => {
+    const mediators = await storage.getCaseMediators(caseId);
+    return mediators
+      .map(m => ({
+        email: m.user.mediatorEmail || m.user.email || '',
+        displayName: `${m.user.firstName || ''} ${m.user.lastName || ''}`.trim() || m.user.id,
+      }))
+      .filter(m => m.email);
+  };
+
+  // Contact directory routes
+  app.get('/api/contacts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined;
+      const kind = contactKinds.find(k => k === req.query.kind);
+      const directory = await storage.getContacts(userId, search || undefined, kind);
+      res.json(directory);
+    } catch (error) {
+      console.error("Error fetching contacts:", error);
+      res.status(500).json({ message: "Failed to fetch contacts" });
+    }
+  });
+
+  app.post('/api/contacts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertContactSchema.parse(req.body);
+      if (validatedData.firmId && !(await storage.getContactForUser(validatedData.firmId, userId))) {
+        return res.status(400).json({ message: "Firm not found" });
+      }
+
+      const contact = await storage.createContact(userId, validatedData);
+      res.status(201).json(contact);
+    } catch (error: any) {
+      console.error("Error creating contact:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create contact" });
+    }
+  });
+
+  // Near-matches in the directory, used to suggest linking instead of creating duplicates
+  app.post('/api/contacts/match', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const criteria = contactMatchSchema.parse(req.body);
+      const matches = await storage.findContactMatches(userId, criteria);
+      res.json(matches);
+    } catch (error: any) {
+      console.error("Error matching contacts:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid match criteria", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to match contacts" });
+    }
+  });
+
+  app.get('/api/contacts/:contactId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const contact = await storage.getContactForUser(req.params.contactId, userId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const firm = contact.firmId ? await storage.getContactForUser(contact.firmId, userId) : undefined;
+      const members = contact.kind === 'organization' ? await storage.getFirmMembers(contact.id) : [];
+      const cases = await storage.getContactCases(contact.id, userId);
+      res.json({ contact, firm: firm || null, members, cases });
+    } catch (error) {
+      console.error("Error fetching contact:", error);
+      res.status(500).json({ message: "Failed to fetch contact" });
+    }
+  });
+
+  app.patch('/api/contacts/:contactId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const contact = await storage.getContactForUser(req.params.contactId, userId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+
+      const validatedData = insertContactSchema.partial().parse(req.body);
+      if (validatedData.firmId && (validatedData.firmId === contact.id || !(await storage.getContactForUser(validatedData.firmId, userId)))) {
+        return res.status(400).json({ message: "Firm not found" });
+      }
+
+      const updatedContact = await storage.updateContact(contact.id, validatedData);
+      res.json(updatedContact);
+    } catch (error: any) {
+      console.error("Error updating contact:", error);
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid contact data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update contact" });
+    }
+  });
+
+  app.delete('/api/contacts/:contactId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { legalIssue } = req.body;
-
-      if (!legalIssue) {
-        return res.status(400).json({ message: "Legal issue is required" });
+      const contact = await storage.getContactForUser(req.params.contactId, userId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
       }
 
-      const iracAnalysis = await aiService.generateIRACAnalysis(req.params.id, legalIssue);
+      await storage.deleteContact(contact.id);
+      res.json({ message: "Contact deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+      res.status(500).json({ message: "Failed to delete contact" });
+    }
+  });
 
-      const analysisData = {
-        caseId: req.params.id,
-        analysisType: 'irac',
-        input: legalIssue,
-        output: iracAnalysis,
-        metadata: { legalIssue },
-        createdBy: userId,
+  // Links a party (or one of its representatives) to the directory, reusing an exact match
+  // when one exists and creating the contact otherwise. Representatives' firms are linked too.
+  app.post('/api/cases/:id/parties/:partyId/save-to-directory', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const party = await getCaseParty(req.params.id, req.params.partyId);
+      if (!party) {
+        return res.status(404).json({ message: "Party not found" });
+      }
+
+      const findOrCreateContact = async (data: InsertContact) => {
+        const [match] = await storage.findContactMatches(userId, { name: data.name, email: data.email || undefined, kind: data.kind });
+        if (match && (match.reason === 'email' || match.score === 1)) {
+          return match.contact;
+        }
+        return await storage.createContact(userId, data);
       };
 
-      const validatedAnalysisData = insertAiAnalysisSchema.parse(analysisData);
-      const analysis = await storage.createAiAnalysis(validatedAnalysisData);
+      const { representativeId } = req.body;
+      if (!representativeId) {
+        const contact = await findOrCreateContact({ kind: 'organization', name: party.entityName });
+        await storage.updateParty(party.id, { contactId: contact.id });
+        return res.json(contact);
+      }
 
-      res.json({ legalIssue, iracAnalysis, analysis });
+      const representative = await storage.getPartyRepresentative(representativeId);
+      if (!representative || representative.partyId !== party.id) {
+        return res.status(404).json({ message: "Representative not found" });
+      }
+
+      const firm = representative.firm
+        ? await findOrCreateContact({ kind: 'organization', name: representative.firm })
+        : undefined;
+      const contact = await findOrCreateContact({
+        kind: 'person',
+        name: representative.name,
+        email: representative.email,
+        phone: representative.phone,
+        role: representative.role,
+        firmId: firm?.id,
+      });
+      if (firm && !contact.firmId) {
+        await storage.updateContact(contact.id, { firmId: firm.id });
+      }
+      await storage.updatePartyRepresentative(representative.id, { contactId: contact.id });
+      res.json(contact);
     } catch (error) {
-      console.error("Error generating IRAC analysis:", error);
-      res.status(500).json({ message: "Failed to generate IRAC analysis" });
+      console.error("Error saving to directory:", error);
+      res.status(500).json({ message: "Failed to save to directory" });
+    }
+  });
+
+  app.get('/api/cases/:id/contact-suggestions', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const suggestions = await storage.getContactSuggestions(req.caseData!.id, req.user.claims.sub);
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error fetching contact suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch contact suggestions" });
     }
   });
 
   // Email communication routes
-  app.post('/api/cases/:id/email', isAuthenticated, async (req: any, res) => {
+  app.post('/api/cases/:id/email', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
-      const { template, recipients, subject, message } = req.body;
+      const { template, recipients, subject, message, draftingSeconds, sessionId } = req.body;
       const userId = req.user.claims.sub;
       const caseId = req.params.id;
 
@@ -930,23 +3329,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ? recipients.map((r: any) => typeof r === 'string' ? r : r.email)
         : [typeof recipients === 'string' ? recipients : recipients.email];
 
-      // Get case data for template replacement
-      const caseData = await storage.getCase(caseId);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
-      }
+      // Case data for template replacement (loaded by requireCaseAccess)
+      const caseData = req.caseData;
 
-      // Get parties for template data
-      const parties = await storage.getPartiesByCase(caseId);
-      const applicants = parties.filter(p => p.partyType === 'applicant');
-      const respondents = parties.filter(p => p.partyType === 'respondent');
+      // Get parties and sessions for template data; session placeholders describe the chosen session
+      const parties = await storage.getPartiesWithRepresentatives(caseId);
+      const sessions = await storage.getMediationSessions(caseId);
+      const session = sessionId ? sessions.find(candidate => candidate.id === sessionId) : undefined;
+      if (sessionId && !session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
 
-      // Get user's mediator email for CC
-      const user = await storage.getUser(userId);
-      const mediatorEmail = user?.mediatorEmail || undefined;
+      // Emails go out through the lead mediator's Google account and CC every mediator on the case,
+      // so case managers sending on a mediator's behalf use that mediator's identity
+      const mediatorContacts = await getCaseMediatorContacts(caseId);
+      const mediatorEmail = mediatorContacts.map(m => m.email).join(', ') || undefined;
 
       // Get Google Calendar settings for Gmail
-      const settings = await storage.getCalendarSettings(userId);
+      const settings = await storage.getCalendarSettings(caseData.mediatorId);
       if (!settings || !settings.accessToken || !settings.refreshToken) {
         return res.status(400).json({ message: "Google account not connected. Please connect to Google Calendar first." });
       }
@@ -979,68 +3379,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid template" });
       }
 
-      // Replace placeholders in subject and body
-      const replacePlaceholders = (text: string): string => {
-        if (!text) return '';
-        
-        // Determine recipient name for {recipientName} placeholder
-        let recipientName = '[Recipient Name]';
-        
-        if (recipientEmails.length === 1) {
-          // Try to find the recipient name from parties
-          const allContacts = [
-            ...applicants.map(p => ({ email: p.primaryContactEmail, name: p.primaryContactName })),
-            ...applicants.map(p => ({ email: p.legalRepEmail, name: p.legalRepName })),
-            ...respondents.map(p => ({ email: p.primaryContactEmail, name: p.primaryContactName })),
-            ...respondents.map(p => ({ email: p.legalRepEmail, name: p.legalRepName }))
-          ].filter(c => c.email);
-          
-          const match = allContacts.find(c => c.email === recipientEmails[0]);
-          recipientName = match?.name || recipientEmails[0];
-        } else if (recipientEmails.length > 1) {
-          recipientName = 'All';
-        }
-        
-        let result = text;
-        
-        // Replace basic case placeholders
-        result = result
-          .replace(/\{caseNumber\}/g, caseData.caseNumber || '[Case Number]')
-          .replace(/\{mediatorName\}/g, caseData.mediatorName || '[Mediator Name]')
-          .replace(/\{mediationDate\}/g, caseData.mediationDate ? new Date(caseData.mediationDate).toLocaleDateString('en-AU', { year: 'numeric', month: 'long', day: 'numeric' }) : '[Mediation Date]')
-          .replace(/\{mediationTime\}/g, caseData.mediationDate ? new Date(caseData.mediationDate).toLocaleTimeString('en-AU', { hour: '2-digit', minute: '2-digit' }) : '[Mediation Time]')
-          .replace(/\{mediationType\}/g, caseData.mediationType || '[Mediation Type]')
-          .replace(/\{recipientName\}/g, recipientName)
-          .replace(/\{zoomLink\}/g, caseData.zoomMeetingLink || '[Zoom Link]')
-          .replace(/\{zoomPassword\}/g, caseData.zoomMeetingPassword || '[Zoom Password]')
-          .replace(/\{premises\}/g, caseData.premises || '[Location]');
-        
-        // Replace applicant placeholders (indexed from 1)
-        applicants.forEach((applicant, index) => {
-          const num = index + 1;
-          result = result
-            .replace(new RegExp(`\\{applicant_${num}_name\\}`, 'g'), applicant.entityName || `[Applicant ${num} Name]`)
-            .replace(new RegExp(`\\{applicant_${num}_contact\\}`, 'g'), applicant.primaryContactName || `[Applicant ${num} Contact]`)
-            .replace(new RegExp(`\\{applicant_${num}_email\\}`, 'g'), applicant.primaryContactEmail || `[Applicant ${num} Email]`)
-            .replace(new RegExp(`\\{applicant_${num}_phone\\}`, 'g'), applicant.primaryContactPhone || `[Applicant ${num} Phone]`)
-            .replace(new RegExp(`\\{applicant_${num}_lawyer\\}`, 'g'), applicant.legalRepName || `[Applicant ${num} Lawyer]`)
-            .replace(new RegExp(`\\{applicant_${num}_lawyer_firm\\}`, 'g'), applicant.legalRepFirm || `[Applicant ${num} Law Firm]`);
-        });
-        
-        // Replace respondent placeholders (indexed from 1)
-        respondents.forEach((respondent, index) => {
-          const num = index + 1;
-          result = result
-            .replace(new RegExp(`\\{respondent_${num}_name\\}`, 'g'), respondent.entityName || `[Respondent ${num} Name]`)
-            .replace(new RegExp(`\\{respondent_${num}_contact\\}`, 'g'), respondent.primaryContactName || `[Respondent ${num} Contact]`)
-            .replace(new RegExp(`\\{respondent_${num}_email\\}`, 'g'), respondent.primaryContactEmail || `[Respondent ${num} Email]`)
-            .replace(new RegExp(`\\{respondent_${num}_phone\\}`, 'g'), respondent.primaryContactPhone || `[Respondent ${num} Phone]`)
-            .replace(new RegExp(`\\{respondent_${num}_lawyer\\}`, 'g'), respondent.legalRepName || `[Respondent ${num} Lawyer]`)
-            .replace(new RegExp(`\\{respondent_${num}_lawyer_firm\\}`, 'g'), respondent.legalRepFirm || `[Respondent ${num} Law Firm]`);
-        });
-        
-        return result;
-      };
+      // Determine recipient name for the {recipientName} placeholder
+      let recipientName = '[Recipient Name]';
+      if (recipientEmails.length === 1) {
+        // Try to find the recipient name from parties
+        const allContacts = [
+          ...parties.map(p => ({ email: p.primaryContactEmail, name: p.primaryContactName })),
+          ...parties.flatMap(p => p.representatives.map(r => ({ email: r.email, name: r.name })))
+        ].filter(c => c.email);
+
+        const match = allContacts.find(c => c.email === recipientEmails[0]);
+        recipientName = match?.name || recipientEmails[0];
+      } else if (recipientEmails.length > 1) {
+        recipientName = 'All';
+      }
+      const caseType = caseData.caseTypeId ? await storage.getCaseType(caseData.caseTypeId) : undefined;
+      const replacePlaceholders = (text: string) => replaceCasePlaceholders(text, caseData, parties, sessions, { session, recipientName, caseType });
 
       emailSubject = replacePlaceholders(emailSubject);
       emailBody = replacePlaceholders(emailBody);
@@ -1056,6 +3410,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cc: mediatorEmail,
       });
 
+      await storage.recordAuditEvent({
+        caseId,
+        action: "email.sent",
+        entityType: "email",
+        metadata: {
+          recipients: recipientEmails,
+          cc: mediatorEmail || null,
+          subject: emailSubject,
+          template: isUUID ? template : 'custom',
+          sessionId: session?.id ?? null,
+          messageIds,
+          // Time the dialog was open, offered as a correspondence time entry on the Billing tab
+          draftingSeconds: Number.isFinite(Number(draftingSeconds)) ? Math.max(0, Math.round(Number(draftingSeconds))) : null,
+        },
+      });
+
       res.json({ 
         message: "Email(s) sent successfully via Gmail API",
         messageIds,
@@ -1585,29 +3955,405 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Zoom integration routes
-  app.post('/api/cases/:caseId/zoom-meeting', isAuthenticated, async (req: any, res) => {
+  // Mediation session routes. The case's mediation date follows its next session (see refreshCaseSchedule).
+  const getCaseSession = async (caseId: string, sessionId: string) => {
+    const session = await storage.getMediationSession(sessionId);
+    return session?.caseId === caseId ? session : undefined;
+  };
+
+  // Calendar event details for a session, with the parties and every mediator on the case as attendees
+  const sessionCalendarEvent = async (caseData: Case, session: MediationSession) => {
+    const parties = await storage.getPartiesByCase(caseData.id);
+    const applicants = parties.filter(p => p.partyType === 'applicant');
+    const respondents = parties.filter(p => p.partyType === 'respondent');
+
+    const attendees = [
+      ...applicants.map(p => ({
+        email: p.primaryContactEmail || '',
+        displayName: p.entityName
+      })),
+      ...respondents.map(p => ({
+        email: p.primaryContactEmail || '',
+        displayName: p.entityName
+      })),
+      ...(await getCaseMediatorContacts(caseData.id)),
+    ].filter(a => a.email);
+
+    const venue = session.venue || caseData.premises;
+    const inPerson = session.format === 'in_person';
+    const description = [
+      `Case Number: ${caseData.caseNumber}`,
+      `Session: ${session.title}`,
+      `Type: ${sessionFormatLabels[session.format as SessionFormat] ?? session.format}`,
+      inPerson && venue ? `Location: ${venue}` : '',
+      session.zoomMeetingLink ? `Zoom: ${session.zoomMeetingLink}` : '',
+      caseData.disputeBackground ? `\nBackground:\n${caseData.disputeBackground}` : '',
+    ].filter(Boolean).join('\n');
+
+    return {
+      summary: `Mediation: ${caseData.caseNumber} - ${session.title}`,
+      description,
+      location: (inPerson ? venue : session.zoomMeetingLink) || '',
+      startDateTime: new Date(session.startsAt).toISOString(),
+      endDateTime: sessionEndsAt(session).toISOString(),
+      attendees,
+    };
+  };
+
+  // Puts a session in the mediator's calendar. An existing event is deleted and recreated rather than
+  // updated, to avoid "Event type cannot be changed" errors.
+  const syncSessionToCalendar = async (
+    calendarService: Awaited<ReturnType<typeof getUserCalendarService>>['service'],
+    caseData: Case,
+    session: MediationSession,
+  ) => {
+    if (session.calendarEventId) {
+      try {
+        await calendarService.deleteEvent(session.calendarEventId);
+      } catch (error) {
+        console.log('Event already deleted or not found, creating new one');
+      }
+    }
+    const eventId = await calendarService.createEvent(await sessionCalendarEvent(caseData, session));
+    return await storage.updateMediationSession(session.id, { calendarEventId: eventId });
+  };
+
+  app.get('/api/cases/:id/sessions', isAuthenticated, requireCaseAccess(), async (req, res) => {
     try {
-      const { caseId } = req.params;
-      const userId = req.user.claims.sub;
+      const sessions = await storage.getMediationSessions(req.caseData!.id);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.post('/api/cases/:id/sessions', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const sessionData = insertMediationSessionSchema.parse(req.body);
+      const session = await storage.createMediationSession(req.caseData!.id, sessionData, req.user.claims.sub);
+      await syncReminders(session.caseId);
+      res.status(201).json(session);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error creating session:", error);
+      res.status(500).json({ message: "Failed to create session" });
+    }
+  });
+
+  // A session already in the calendar is moved with it; a Zoom meeting keeps its link, so only the
+  // invitations need resending
+  app.patch('/api/cases/:id/sessions/:sessionId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const sessionData = updateMediationSessionSchema.parse(req.body);
+      let updated = await storage.updateMediationSession(session.id, sessionData, req.user.claims.sub);
+      await syncReminders(session.caseId);
+
+      if (updated.calendarEventId) {
+        try {
+          const { service, settings } = await getUserCalendarService(req.caseData!.mediatorId);
+          updated = await syncSessionToCalendar(service, req.caseData!, updated);
+          await saveRefreshedTokens(req.caseData!.mediatorId, settings, service);
+        } catch (error) {
+          console.error("Error updating session calendar event:", error);
+        }
+      }
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error updating session:", error);
+      res.status(500).json({ message: "Failed to update session" });
+    }
+  });
+
+  app.delete('/api/cases/:id/sessions/:sessionId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      let externalLinksRemoved: string[] = [];
+      try {
+        externalLinksRemoved = await removeSessionLinks(req.caseData!, session);
+      } catch (error) {
+        // The meeting or event may have been removed by hand
+        console.error("Error removing session Zoom/calendar links:", error);
+      }
+      await storage.deleteMediationSession(session.id, req.user.claims.sub);
+      await syncReminders(session.caseId);
+      res.json({ message: "Session deleted successfully", externalLinksRemoved });
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      res.status(500).json({ message: "Failed to delete session" });
+    }
+  });
+
+  // Sessions on the user's cases in a date range, shown alongside their Google Calendar
+  app.get('/api/sessions', isAuthenticated, async (req: any, res) => {
+    try {
+      const { from, to } = sessionRangeQuerySchema.parse(req.query);
+      const sessions = await storage.getSessionsForUser(req.user.claims.sub, from, to);
+      res.json(sessions);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid date range", errors: error.errors });
+      }
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Session attendance routes
+  const getSessionAttendee = async (sessionId: string, attendeeId: string) => {
+    const attendee = await storage.getSessionAttendee(attendeeId);
+    return attendee?.sessionId === sessionId ? attendee : undefined;
+  };
+
+  // Attendees can only be linked to the case's own parties and their representatives
+  const invalidAttendeeLink = async (caseId: string, attendee: Pick<UpdateSessionAttendee, "partyId" | "representativeId">) => {
+    if (!attendee.partyId) {
+      return attendee.representativeId ? "A representative must be linked to their party" : null;
+    }
+    const party = (await storage.getPartiesWithRepresentatives(caseId)).find(p => p.id === attendee.partyId);
+    if (!party) return "Party not found on this case";
+    if (attendee.representativeId && !party.representatives.some(r => r.id === attendee.representativeId)) {
+      return "Representative not found for this party";
+    }
+    return null;
+  };
+
+  app.get('/api/cases/:id/attendance', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const attendance = await storage.getCaseAttendance(req.caseData!.id);
+      res.json(attendance);
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+      res.status(500).json({ message: "Failed to fetch attendance" });
+    }
+  });
+
+  app.get('/api/cases/:id/sessions/:sessionId/attendance', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const attendees = await storage.getSessionAttendees(session.id);
+      res.json(attendees);
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+      res.status(500).json({ message: "Failed to fetch attendance" });
+    }
+  });
+
+  app.post('/api/cases/:id/sessions/:sessionId/attendance', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const attendeeData = insertSessionAttendeeSchema.parse(req.body);
+      const linkError = await invalidAttendeeLink(session.caseId, attendeeData);
+      if (linkError) {
+        return res.status(400).json({ message: linkError });
+      }
+      const attendee = await storage.createSessionAttendee(session, attendeeData, req.user.claims.sub);
+      res.status(201).json(attendee);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error recording attendance:", error);
+      res.status(500).json({ message: "Failed to record attendance" });
+    }
+  });
+
+  app.patch('/api/cases/:id/sessions/:sessionId/attendance/:attendeeId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      const attendee = session && await getSessionAttendee(session.id, req.params.attendeeId);
+      if (!attendee) {
+        return res.status(404).json({ message: "Attendee not found" });
+      }
+      const attendeeData = updateSessionAttendeeSchema.parse(req.body);
+      const arrivedAt = attendeeData.arrivedAt === undefined ? attendee.arrivedAt : attendeeData.arrivedAt;
+      const leftAt = attendeeData.leftAt === undefined ? attendee.leftAt : attendeeData.leftAt;
+      if (arrivedAt && leftAt && leftAt < arrivedAt) {
+        return res.status(400).json({ message: "Left time must be after the arrival time" });
+      }
+      if (attendeeData.partyId !== undefined || attendeeData.representativeId !== undefined) {
+        const linkError = await invalidAttendeeLink(session.caseId, {
+          partyId: attendeeData.partyId === undefined ? attendee.partyId : attendeeData.partyId,
+          representativeId: attendeeData.representativeId === undefined ? attendee.representativeId : attendeeData.representativeId,
+        });
+        if (linkError) {
+          return res.status(400).json({ message: linkError });
+        }
+      }
+      const updated = await storage.updateSessionAttendee(attendee.id, attendeeData, req.user.claims.sub);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error updating attendance:", error);
+      res.status(500).json({ message: "Failed to update attendance" });
+    }
+  });
+
+  app.delete('/api/cases/:id/sessions/:sessionId/attendance/:attendeeId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      const attendee = session && await getSessionAttendee(session.id, req.params.attendeeId);
+      if (!attendee) {
+        return res.status(404).json({ message: "Attendee not found" });
+      }
+      await storage.deleteSessionAttendee(attendee.id, req.user.claims.sub);
+      res.json({ message: "Attendee removed" });
+    } catch (error) {
+      console.error("Error removing attendee:", error);
+      res.status(500).json({ message: "Failed to remove attendee" });
+    }
+  });
+
+  // Pre-fills the register from the Zoom participant report once the meeting has ended
+  app.post('/api/cases/:id/sessions/:sessionId/attendance/zoom-import', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const result = await importZoomAttendance(req.caseData!, session, req.user.claims.sub);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof AttendanceImportError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error importing Zoom attendance:", error);
+      res.status(500).json({ message: "Failed to import attendance from Zoom" });
+    }
+  });
+
+  // Session log routes (live session mode)
+  const isCaseParty = async (caseId: string, partyId: string) =>
+    (await storage.getPartiesByCase(caseId)).some(p => p.id === partyId);
+
+  app.get('/api/cases/:id/sessions/:sessionId/log', isAuthenticated, requireCaseAccess(), async (req, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const log = await storage.getSessionLog(session);
+      res.json(log);
+    } catch (error) {
+      console.error("Error fetching session log:", error);
+      res.status(500).json({ message: "Failed to fetch session log" });
+    }
+  });
+
+  // Starts a joint session or a caucus with one party, ending whatever was running
+  app.post('/api/cases/:id/sessions/:sessionId/log/segments', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const segmentData = startSessionSegmentSchema.parse(req.body);
+      if (segmentData.partyId && !(await isCaseParty(session.caseId, segmentData.partyId))) {
+        return res.status(400).json({ message: "Party not found on this case" });
+      }
+      const segment = await storage.startSessionSegment(session, segmentData, req.user.claims.sub);
+      res.status(201).json(segment);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error starting session segment:", error);
+      res.status(500).json({ message: "Failed to start segment" });
+    }
+  });
+
+  app.post('/api/cases/:id/sessions/:sessionId/log/stop', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const segment = await storage.stopSessionSegment(session.id, req.user.claims.sub);
+      res.json({ segment: segment ?? null });
+    } catch (error) {
+      console.error("Error stopping session segment:", error);
+      res.status(500).json({ message: "Failed to stop segment" });
+    }
+  });
+
+  // Notes are tagged to the running segment and, unless given, the party in the running caucus
+  app.post('/api/cases/:id/sessions/:sessionId/log/notes', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const session = await getCaseSession(req.params.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const { content, partyId } = insertCaucusNoteSchema.parse(req.body);
+      const running = await storage.getRunningSegment(session.id);
+      const notePartyId = partyId === undefined ? running?.partyId ?? null : partyId;
+      if (notePartyId && !(await isCaseParty(session.caseId, notePartyId))) {
+        return res.status(400).json({ message: "Party not found on this case" });
+      }
+      const note = await storage.createCaucusNote(
+        session,
+        { content, partyId: notePartyId, segmentId: running?.id ?? null },
+        req.user.claims.sub,
+      );
+      res.status(201).json(note);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: error.errors.map((e: any) => e.message).join("; "), errors: error.errors });
+      }
+      console.error("Error saving caucus note:", error);
+      res.status(500).json({ message: "Failed to save note" });
+    }
+  });
 
-      // Get the case to verify ownership and get details
-      const caseData = await storage.getCase(caseId);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
+  app.delete('/api/cases/:id/sessions/:sessionId/log/notes/:noteId', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const note = await storage.getCaucusNote(req.params.noteId);
+      if (!note || note.caseId !== req.params.id || note.sessionId !== req.params.sessionId) {
+        return res.status(404).json({ message: "Note not found" });
       }
+      await storage.deleteCaucusNote(note.id, req.user.claims.sub);
+      res.json({ message: "Note deleted" });
+    } catch (error) {
+      console.error("Error deleting caucus note:", error);
+      res.status(500).json({ message: "Failed to delete note" });
+    }
+  });
 
-      if (caseData.mediatorId !== userId) {
-        return res.status(403).json({ message: "Not authorized to create meeting for this case" });
+  // Zoom integration routes
+  app.post('/api/cases/:id/sessions/:sessionId/zoom-meeting', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
+    try {
+      const caseData = req.caseData!;
+      const session = await getCaseSession(caseData.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
       }
 
       // Check if meeting already exists
-      if (caseData.zoomMeetingId) {
-        return res.status(400).json({ message: "Zoom meeting already exists for this case" });
+      if (session.zoomMeetingId) {
+        return res.status(400).json({ message: "Zoom meeting already exists for this session" });
       }
 
-      // Get Zoom credentials from database
-      const zoomSettings = await storage.getZoomSettings(userId);
+      // Get the case mediator's Zoom credentials from database
+      const zoomSettings = await storage.getZoomSettings(caseData.mediatorId);
       if (!zoomSettings) {
         return res.status(400).json({ message: "Zoom credentials not configured. Please configure your Zoom settings first." });
       }
@@ -1616,7 +4362,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { zoomService } = await import('./zoomService.js');
 
       // Create Zoom meeting with credentials from database
-      const startTime = caseData.mediationDate || new Date(Date.now() + 24 * 60 * 60 * 1000); // Default to tomorrow if no date set
       const meeting = await zoomService.createMeeting(
         {
           accountId: zoomSettings.accountId,
@@ -1624,48 +4369,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
           clientSecret: zoomSettings.clientSecret,
         },
         {
-          topic: `Mediation Session - ${caseData.caseNumber}`,
-          startTime: new Date(startTime),
-          duration: 210, // 3.5 hours default (210 minutes)
+          topic: `${session.title} - ${caseData.caseNumber}`,
+          startTime: new Date(session.startsAt),
+          duration: session.durationMinutes,
           timezone: 'Australia/Sydney',
         }
       );
 
-      // Update case with Zoom meeting details
-      const updatedCase = await storage.updateCase(caseId, {
+      // Update session with Zoom meeting details
+      const updatedSession = await storage.updateMediationSession(session.id, {
         zoomMeetingId: meeting.meetingId,
         zoomMeetingLink: meeting.joinUrl,
         zoomMeetingPassword: meeting.password,
-      });
+      }, req.user.claims.sub);
 
-      res.json(updatedCase);
+      res.json(updatedSession);
     } catch (error) {
       console.error("Error creating Zoom meeting:", error);
       res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create Zoom meeting" });
     }
   });
 
-  app.delete('/api/cases/:caseId/zoom-meeting', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/cases/:id/sessions/:sessionId/zoom-meeting', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
-      const { caseId } = req.params;
-      const userId = req.user.claims.sub;
-
-      // Get the case to verify ownership
-      const caseData = await storage.getCase(caseId);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
-      }
-
-      if (caseData.mediatorId !== userId) {
-        return res.status(403).json({ message: "Not authorized to delete meeting for this case" });
+      const caseData = req.caseData!;
+      const session = await getCaseSession(caseData.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
       }
 
-      if (!caseData.zoomMeetingId) {
-        return res.status(400).json({ message: "No Zoom meeting exists for this case" });
+      if (!session.zoomMeetingId) {
+        return res.status(400).json({ message: "No Zoom meeting exists for this session" });
       }
 
-      // Get Zoom credentials from database
-      const zoomSettings = await storage.getZoomSettings(userId);
+      // Get the case mediator's Zoom credentials from database
+      const zoomSettings = await storage.getZoomSettings(caseData.mediatorId);
       if (!zoomSettings) {
         return res.status(400).json({ message: "Zoom credentials not configured. Please configure your Zoom settings first." });
       }
@@ -1680,17 +4418,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           clientId: zoomSettings.clientId,
           clientSecret: zoomSettings.clientSecret,
         },
-        caseData.zoomMeetingId
+        session.zoomMeetingId
       );
 
-      // Update case to remove Zoom meeting details
-      const updatedCase = await storage.updateCase(caseId, {
+      // Update session to remove Zoom meeting details
+      const updatedSession = await storage.updateMediationSession(session.id, {
         zoomMeetingId: null,
         zoomMeetingLink: null,
         zoomMeetingPassword: null,
-      });
+      }, req.user.claims.sub);
 
-      res.json(updatedCase);
+      res.json(updatedSession);
     } catch (error) {
       console.error("Error deleting Zoom meeting:", error);
       res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete Zoom meeting" });
@@ -1717,206 +4455,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const { service: calendarService, settings } = await getUserCalendarService(userId);
-      
-      // Get all cases with mediation dates
-      const cases = await storage.getCases(userId);
-      const casesWithDates = cases.filter((c: any) => c.mediationDate);
-      
-      const results = [];
-      
-      for (const caseData of casesWithDates) {
-        try {
-          const parties = await storage.getPartiesByCase(caseData.id);
-          const applicants = parties.filter(p => p.partyType === 'applicant');
-          const respondents = parties.filter(p => p.partyType === 'respondent');
-          
-          const attendees = [
-            ...applicants.map(p => ({ 
-              email: p.primaryContactEmail || '', 
-              displayName: p.entityName 
-            })),
-            ...respondents.map(p => ({ 
-              email: p.primaryContactEmail || '', 
-              displayName: p.entityName 
-            }))
-          ].filter(a => a.email);
-
-          const startDateTime = new Date(caseData.mediationDate!);
-          const endDateTime = new Date(startDateTime.getTime() + 2 * 60 * 60 * 1000); // 2 hours
-
-          const description = [
-            `Case Number: ${caseData.caseNumber}`,
-            caseData.mediationType ? `Type: ${caseData.mediationType}` : '',
-            caseData.premises ? `Location: ${caseData.premises}` : '',
-            caseData.disputeBackground ? `\nBackground:\n${caseData.disputeBackground}` : '',
-          ].filter(Boolean).join('\n');
-
-          if (caseData.calendarEventId) {
-            // Delete and recreate to avoid type conflict errors
-            try {
-              await calendarService.deleteEvent(caseData.calendarEventId);
-            } catch (e) {
-              console.log('Event already deleted');
-            }
-          }
-          
-          // Create event (or recreate if existed)
-          const eventId = await calendarService.createEvent({
-            summary: `Mediation: ${caseData.caseNumber}`,
-            description,
-            location: caseData.premises || '',
-            startDateTime: startDateTime.toISOString(),
-            endDateTime: endDateTime.toISOString(),
-            attendees,
-          });
 
-          if (caseData.calendarEventId) {
-            await storage.updateCase(caseData.id, { calendarEventId: eventId });
-            results.push({ caseId: caseData.id, action: 'updated', eventId });
-          } else {
+      // Only the lead mediator's cases go into their calendar; co-mediators are invited as attendees
+      const cases = (await storage.getCases(userId)).filter((c: any) => c.mediatorId === userId);
+
+      const results = [];
 
-            // Update case with calendar event ID
-            await storage.updateCase(caseData.id, { calendarEventId: eventId });
-            results.push({ caseId: caseData.id, action: 'created', eventId });
+      for (const caseData of cases) {
+        for (const session of await storage.getMediationSessions(caseData.id)) {
+          try {
+            const synced = await syncSessionToCalendar(calendarService, caseData, session);
+            results.push({
+              caseId: caseData.id,
+              sessionId: session.id,
+              action: session.calendarEventId ? 'updated' : 'created',
+              eventId: synced.calendarEventId,
+            });
+          } catch (error) {
+            console.error(`Error syncing session ${session.id} of case ${caseData.id}:`, error);
+            results.push({
+              caseId: caseData.id,
+              sessionId: session.id,
+              action: 'failed',
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
           }
-        } catch (error) {
-          console.error(`Error syncing case ${caseData.id}:`, error);
-          results.push({ 
-            caseId: caseData.id, 
-            action: 'failed', 
-            error: error instanceof Error ? error.message : 'Unknown error' 
-          });
         }
       }
 
+      await saveRefreshedTokens(userId, settings, calendarService);
       res.json({ synced: results.length, results });
     } catch (error) {
       console.error("Error syncing cases to calendar:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to sync cases" 
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to sync cases"
       });
     }
   });
 
-  app.post('/api/cases/:caseId/sync-to-calendar', isAuthenticated, async (req: any, res) => {
+  app.post('/api/cases/:id/sessions/:sessionId/calendar-event', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
-      const { caseId } = req.params;
-      const userId = req.user.claims.sub;
-      const { service: calendarService, settings } = await getUserCalendarService(userId);
-
-      const caseData = await storage.getCase(caseId);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
-      }
-
-      if (caseData.mediatorId !== userId) {
-        return res.status(403).json({ message: "Not authorized" });
-      }
-
-      if (!caseData.mediationDate) {
-        return res.status(400).json({ message: "Case has no mediation date set" });
+      const caseData = req.caseData!;
+      const session = await getCaseSession(caseData.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
       }
+      // Sync into the case mediator's calendar, even when a case manager triggers it
+      const mediatorId = caseData.mediatorId;
+      const { service: calendarService, settings } = await getUserCalendarService(mediatorId);
 
-      const parties = await storage.getPartiesByCase(caseId);
-      const applicants = parties.filter(p => p.partyType === 'applicant');
-      const respondents = parties.filter(p => p.partyType === 'respondent');
-      
-      const attendees = [
-        ...applicants.map(p => ({ 
-          email: p.primaryContactEmail || '', 
-          displayName: p.entityName 
-        })),
-        ...respondents.map(p => ({ 
-          email: p.primaryContactEmail || '', 
-          displayName: p.entityName 
-        }))
-      ].filter(a => a.email);
-
-      const startDateTime = new Date(caseData.mediationDate);
-      const endDateTime = new Date(startDateTime.getTime() + 2 * 60 * 60 * 1000);
-
-      const description = [
-        `Case Number: ${caseData.caseNumber}`,
-        caseData.mediationType ? `Type: ${caseData.mediationType}` : '',
-        caseData.premises ? `Location: ${caseData.premises}` : '',
-        caseData.disputeBackground ? `\nBackground:\n${caseData.disputeBackground}` : '',
-      ].filter(Boolean).join('\n');
-
-      if (caseData.calendarEventId) {
-        // Check if the existing event still exists
-        const existingEvent = await calendarService.getEvent(caseData.calendarEventId);
-        
-        if (existingEvent) {
-          // Delete the old event and create a new one to avoid "Event type cannot be changed" errors
-          try {
-            await calendarService.deleteEvent(caseData.calendarEventId);
-          } catch (error) {
-            console.log('Event already deleted or not found, creating new one');
-          }
-        }
-        
-        // Create new event
-        const eventId = await calendarService.createEvent({
-          summary: `Mediation: ${caseData.caseNumber}`,
-          description,
-          location: caseData.premises || '',
-          startDateTime: startDateTime.toISOString(),
-          endDateTime: endDateTime.toISOString(),
-          attendees,
-        });
-
-        const updatedCase = await storage.updateCase(caseId, { calendarEventId: eventId });
-        await saveRefreshedTokens(userId, settings, calendarService);
-        res.json({ action: 'recreated', eventId, case: updatedCase });
-      } else {
-        const eventId = await calendarService.createEvent({
-          summary: `Mediation: ${caseData.caseNumber}`,
-          description,
-          location: caseData.premises || '',
-          startDateTime: startDateTime.toISOString(),
-          endDateTime: endDateTime.toISOString(),
-          attendees,
-        });
-
-        const updatedCase = await storage.updateCase(caseId, { calendarEventId: eventId });
-        await saveRefreshedTokens(userId, settings, calendarService);
-        res.json({ action: 'created', eventId, case: updatedCase });
-      }
+      const updatedSession = await syncSessionToCalendar(calendarService, caseData, session);
+      await saveRefreshedTokens(mediatorId, settings, calendarService);
+      res.json({ action: session.calendarEventId ? 'recreated' : 'created', eventId: updatedSession.calendarEventId, session: updatedSession });
     } catch (error) {
-      console.error("Error syncing case to calendar:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to sync case" 
+      console.error("Error syncing session to calendar:", error);
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to sync session"
       });
     }
   });
 
-  app.delete('/api/cases/:caseId/calendar-event', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/cases/:id/sessions/:sessionId/calendar-event', isAuthenticated, requireCaseAccess(), async (req: any, res) => {
     try {
-      const { caseId } = req.params;
-      const userId = req.user.claims.sub;
-      const { googleCalendarService } = await import('./googleCalendarService.js');
-
-      const caseData = await storage.getCase(caseId);
-      if (!caseData) {
-        return res.status(404).json({ message: "Case not found" });
+      const caseData = req.caseData!;
+      const session = await getCaseSession(caseData.id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
       }
 
-      if (caseData.mediatorId !== userId) {
-        return res.status(403).json({ message: "Not authorized" });
+      if (!session.calendarEventId) {
+        return res.status(400).json({ message: "No calendar event exists for this session" });
       }
 
-      if (!caseData.calendarEventId) {
-        return res.status(400).json({ message: "No calendar event exists for this case" });
-      }
+      const { service, settings } = await getUserCalendarService(caseData.mediatorId);
+      await service.deleteEvent(session.calendarEventId);
+      await saveRefreshedTokens(caseData.mediatorId, settings, service);
+      const updatedSession = await storage.updateMediationSession(session.id, { calendarEventId: null }, req.user.claims.sub);
 
-      await googleCalendarService.deleteEvent(caseData.calendarEventId);
-      const updatedCase = await storage.updateCase(caseId, { calendarEventId: null });
-      
-      res.json(updatedCase);
+      res.json(updatedSession);
     } catch (error) {
       console.error("Error deleting calendar event:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to delete calendar event" 
+      res.status(500).json({
+        message: error instanceof Error ? error.message : "Failed to delete calendar event"
       });
     }
   });
@@ -2005,10 +4625,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         mediationDate,
         premises,
         disputeBackground: disputeBackground || undefined,
-        status: 'active',
-        calendarEventId: eventId,
+        status: mediationDate ? 'scheduled' : 'referred',
       });
 
+      // The event becomes the case's first session's calendar event
+      const [firstSession] = await storage.getMediationSessions(newCase.id);
+      if (firstSession) {
+        await storage.updateMediationSession(firstSession.id, { calendarEventId: eventId });
+      }
+
       // Extract attendees as parties if available
       if (event.attendees && event.attendees.length > 0) {
         for (let i = 0; i < event.attendees.length; i++) {
@@ -0,0 +1,31 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { SearchResponse } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+describe("search", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("finds a party by any of its representatives", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const party = await storage.createParty({ caseId: caseData.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    await storage.createPartyRepresentative({ partyId: party.id, name: "Sam Solicitor", firm: "Law & Co" });
+    await storage.createPartyRepresentative({ partyId: party.id, kind: "support_person", name: "Priyanka Okonkwo", role: "Interpreter" });
+    const agent = await signIn(app, mediator.id);
+
+    const res = await agent.get("/api/search").query({ q: "okonkwo" }).expect(200);
+    const parties = (res.body as SearchResponse).groups.find(group => group.type === "party");
+    expect(parties?.results).toEqual([expect.objectContaining({ id: party.id, title: "Alpha Pty Ltd", caseId: caseData.id })]);
+    expect(parties?.results[0].highlight).toContain("Okonkwo");
+
+    const other = await signIn(app, (await createTestUser()).id);
+    const hidden = await other.get("/api/search").query({ q: "okonkwo" }).expect(200);
+    expect((hidden.body as SearchResponse).groups).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import JSZip from "jszip";
+import type { SessionLog } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on("data", (chunk: Buffer) => chunks.push(chunk));
+  res.on("end", () => callback(null, Buffer.concat(chunks)));
+};
+
+describe("live session log", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("runs one segment at a time and tags notes to the party in caucus", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const alpha = await storage.createParty({ caseId: caseData.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    const beta = await storage.createParty({ caseId: caseData.id, entityName: "Beta Pty Ltd", partyType: "respondent" });
+    const elsewhere = await storage.createParty({ caseId: (await createTestCase(mediator.id)).id, entityName: "Gamma Pty Ltd", partyType: "applicant" });
+    const session = await storage.createMediationSession(caseData.id, { title: "Mediation", startsAt: new Date(), durationMinutes: 210 }, mediator.id);
+    const agent = await signIn(app, mediator.id);
+    const log = `/api/cases/${caseData.id}/sessions/${session.id}/log`;
+
+    await agent.post(`${log}/segments`).send({ kind: "caucus" }).expect(400);
+    await agent.post(`${log}/segments`).send({ kind: "joint", partyId: alpha.id }).expect(400);
+    await agent.post(`${log}/segments`).send({ kind: "caucus", partyId: elsewhere.id }).expect(400);
+
+    const { body: joint } = await agent.post(`${log}/segments`).send({ kind: "joint" }).expect(201);
+    const { body: jointNote } = await agent.post(`${log}/notes`).send({ content: "Opening statements" }).expect(201);
+    expect(jointNote).toMatchObject({ segmentId: joint.id, partyId: null, authorId: mediator.id });
+
+    const { body: caucus } = await agent.post(`${log}/segments`).send({ kind: "caucus", partyId: alpha.id }).expect(201);
+    const { body: caucusNote } = await agent.post(`${log}/notes`).send({ content: "Alpha would accept 40k" }).expect(201);
+    expect(caucusNote).toMatchObject({ segmentId: caucus.id, partyId: alpha.id });
+    const { body: taggedNote } = await agent.post(`${log}/notes`).send({ content: "Ask Beta about the fit-out", partyId: beta.id }).expect(201);
+    expect(taggedNote.partyId).toBe(beta.id);
+    await agent.post(`${log}/notes`).send({ content: "Wrong case", partyId: elsewhere.id }).expect(400);
+
+    const { body: stopped } = await agent.post(`${log}/stop`).expect(200);
+    expect(stopped.segment).toMatchObject({ id: caucus.id });
+    expect((await agent.post(`${log}/stop`).expect(200)).body).toEqual({ segment: null });
+    const { body: afterwards } = await agent.post(`${log}/notes`).send({ content: "Debrief" }).expect(201);
+    expect(afterwards).toMatchObject({ segmentId: null, partyId: null });
+
+    const { body: record } = await agent.get(log).expect(200) as { body: SessionLog };
+    expect(record.segments.map(segment => [segment.kind, segment.partyId])).toEqual([["joint", null], ["caucus", alpha.id]]);
+    expect(record.segments.every(segment => segment.endedAt !== null)).toBe(true);
+    expect(new Date(record.segments[0].endedAt!).getTime()).toBeLessThanOrEqual(new Date(record.segments[1].startedAt).getTime());
+    expect(record.notes.map(note => note.content)).toEqual(["Opening statements", "Alpha would accept 40k", "Ask Beta about the fit-out", "Debrief"]);
+
+    await agent.delete(`/api/cases/${caseData.id}/sessions/${session.id}/log/notes/${caucusNote.id}`).expect(200);
+    await agent.delete(`/api/cases/${caseData.id}/sessions/${session.id}/log/notes/${caucusNote.id}`).expect(404);
+  });
+
+  it("keeps caucus notes out of the audit trail, search and the case export", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const alpha = await storage.createParty({ caseId: caseData.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    const session = await storage.createMediationSession(caseData.id, { title: "Mediation", startsAt: new Date(), durationMinutes: 210 }, mediator.id);
+    const agent = await signIn(app, mediator.id);
+    const log = `/api/cases/${caseData.id}/sessions/${session.id}/log`;
+    const secret = "Bottomline zanzibarquokka";
+
+    await agent.post(`${log}/segments`).send({ kind: "caucus", partyId: alpha.id }).expect(201);
+    await agent.post(`${log}/notes`).send({ content: secret }).expect(201);
+
+    const auditTrail = JSON.stringify(await storage.getAuditEvents(caseData.id));
+    expect(auditTrail).toContain("caucus_note.created");
+    expect(auditTrail).not.toContain("zanzibarquokka");
+
+    const { body: search } = await agent.get("/api/search").query({ q: "zanzibarquokka" }).expect(200);
+    expect(search.groups).toEqual([]);
+
+    const response = await agent.get(`/api/cases/${caseData.id}/export`).buffer(true).parse(binaryParser).expect(200);
+    const zip = await JSZip.loadAsync(response.body);
+    for (const file of Object.values(zip.files).filter(entry => !entry.dir)) {
+      expect(await file.async("string"), file.name).not.toContain("zanzibarquokka");
+    }
+  });
+});
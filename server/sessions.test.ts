@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { eq } from "drizzle-orm";
+import { cases, type MediationSession } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+describe("mediation sessions", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("points the case's mediation date at its next session", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const agent = await signIn(app, mediator.id);
+    const mediationDate = async () => (await storage.getCase(caseData.id))?.mediationDate?.toISOString() ?? null;
+
+    await agent.post(`/api/cases/${caseData.id}/sessions`).send({ startsAt: "2030-05-01T00:00:00.000Z", durationMinutes: 10 }).expect(400);
+    const { body: second } = await agent.post(`/api/cases/${caseData.id}/sessions`)
+      .send({ title: "Day two", startsAt: "2030-06-01T00:00:00.000Z" })
+      .expect(201);
+    const { body: first } = await agent.post(`/api/cases/${caseData.id}/sessions`)
+      .send({ title: "Day one", startsAt: "2030-05-01T00:00:00.000Z", format: "in_person", venue: "Level 3, 1 Market St" })
+      .expect(201);
+    expect(await mediationDate()).toBe("2030-05-01T00:00:00.000Z");
+
+    // A finished session is not the next one
+    await agent.post(`/api/cases/${caseData.id}/sessions`).send({ title: "Preliminary", startsAt: hoursFromNow(-48).toISOString() }).expect(201);
+    expect(await mediationDate()).toBe("2030-05-01T00:00:00.000Z");
+
+    await agent.patch(`/api/cases/${caseData.id}/sessions/${first.id}`).send({ startsAt: "2030-07-01T00:00:00.000Z" }).expect(200);
+    expect(await mediationDate()).toBe("2030-06-01T00:00:00.000Z");
+    await agent.delete(`/api/cases/${caseData.id}/sessions/${second.id}`).expect(200);
+    expect(await mediationDate()).toBe("2030-07-01T00:00:00.000Z");
+
+    const { body: sessions } = await agent.get(`/api/cases/${caseData.id}/sessions`).expect(200);
+    expect(sessions.map((session: MediationSession) => session.title)).toEqual(["Preliminary", "Day one"]);
+    await agent.delete(`/api/cases/${caseData.id}/sessions/${first.id}`).expect(200);
+    // With only past sessions left the case points at the last of them
+    expect(await mediationDate()).toBe(sessions[0].startsAt);
+  });
+
+  it("rolls cases on to their next session once the current one has finished", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const finished = await storage.createMediationSession(caseData.id, { title: "Day one", startsAt: hoursFromNow(-6), durationMinutes: 120 }, mediator.id);
+    const upcoming = await storage.createMediationSession(caseData.id, { title: "Day two", startsAt: hoursFromNow(24), durationMinutes: 120 }, mediator.id);
+    // As if the first session was still the next one when the case was last updated
+    await db.update(cases).set({ mediationDate: finished.startsAt }).where(eq(cases.id, caseData.id));
+
+    expect(await storage.rollForwardCaseSchedules()).toBeGreaterThanOrEqual(1);
+    expect((await storage.getCase(caseData.id))?.mediationDate).toEqual(upcoming.startsAt);
+  });
+
+  it("lists sessions in a date range on the cases the user can see", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const session = await storage.createMediationSession(caseData.id, { title: "Mediation", startsAt: new Date("2031-02-10T23:00:00.000Z"), durationMinutes: 210 }, mediator.id);
+    await storage.createMediationSession(caseData.id, { title: "Later", startsAt: new Date("2031-03-10T23:00:00.000Z"), durationMinutes: 210 }, mediator.id);
+    const agent = await signIn(app, mediator.id);
+    const range = { from: "2031-02-01T00:00:00.000Z", to: "2031-03-01T00:00:00.000Z" };
+
+    const { body: inRange } = await agent.get("/api/sessions").query(range).expect(200);
+    expect(inRange).toEqual([expect.objectContaining({ id: session.id, caseNumber: caseData.caseNumber, mediatorId: mediator.id })]);
+    await agent.get("/api/sessions").query({ from: range.to, to: range.from }).expect(400);
+
+    const other = await signIn(app, (await createTestUser("Other")).id);
+    expect((await other.get("/api/sessions").query(range).expect(200)).body).toEqual([]);
+    await other.patch(`/api/cases/${caseData.id}/sessions/${session.id}`).send({ title: "Renamed" }).expect(404);
+  });
+});
@@ -0,0 +1,59 @@
+import type { Case, MediationSession } from "@shared/schema";
+import { storage } from "./storage";
+import type { JobHandler } from "./jobs";
+
+export const SESSION_ROLL_FORWARD_JOB = "sessions.roll_forward";
+
+const ROLL_FORWARD_INTERVAL_MS = 60 * 60 * 1000;
+
+// A session's Zoom meeting and calendar event live in the case mediator's accounts. Returns what was removed.
+export async function removeSessionLinks(caseData: Case, session: MediationSession): Promise<string[]> {
+  const removed: string[] = [];
+  if (session.zoomMeetingId) {
+    const zoomSettings = await storage.getZoomSettings(caseData.mediatorId);
+    if (zoomSettings) {
+      const { zoomService } = await import('./zoomService.js');
+      await zoomService.deleteMeeting(
+        {
+          accountId: zoomSettings.accountId,
+          clientId: zoomSettings.clientId,
+          clientSecret: zoomSettings.clientSecret,
+        },
+        session.zoomMeetingId,
+      );
+      removed.push(`Zoom meeting ${session.zoomMeetingId}`);
+    }
+  }
+
+  if (session.calendarEventId) {
+    const calendarSettings = await storage.getCalendarSettings(caseData.mediatorId);
+    if (calendarSettings?.accessToken && calendarSettings.refreshToken) {
+      const { GoogleCalendarOAuthService } = await import('./googleCalendarOAuthService.js');
+      await new GoogleCalendarOAuthService(calendarSettings).deleteEvent(session.calendarEventId);
+      removed.push(`Calendar event ${session.calendarEventId}`);
+    }
+  }
+  return removed;
+}
+
+// Cases from before mediation sessions had one mediation date with its Zoom meeting and calendar
+// event on the case row; this moves them onto a first session. Runs on every start.
+export async function migrateLegacySessions() {
+  try {
+    const migrated = await storage.migrateLegacySessions();
+    if (migrated) console.log(`Moved ${migrated} case(s) onto mediation sessions`);
+  } catch (error) {
+    console.error("Error migrating cases to mediation sessions:", error);
+  }
+}
+
+export const sessionJobHandlers: Record<string, JobHandler> = {
+  // A case's mediation date points at its next session, so it moves on once a session is over
+  [SESSION_ROLL_FORWARD_JOB]: {
+    everyMs: ROLL_FORWARD_INTERVAL_MS,
+    async run() {
+      const moved = await storage.rollForwardCaseSchedules();
+      if (moved) console.log(`Moved ${moved} case(s) on to their next mediation session`);
+    },
+  },
+};
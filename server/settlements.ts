@@ -0,0 +1,190 @@
+import { AlignmentType, Document as DocxDocument, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import {
+  replaceCasePlaceholders,
+  type Case,
+  type CaseOutcome,
+  type CaseType,
+  type Document,
+  type GenerateSettlement,
+  type MediationSession,
+  type PartyWithRepresentatives,
+  type SettlementTemplate,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { LocalFileStorageService } from "./localFileStorage";
+import { renderPdf } from "./pdf";
+
+// The agreement cannot be drafted; status is the HTTP status to answer with
+export class SettlementError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "SettlementError";
+    Object.setPrototypeOf(this, SettlementError.prototype);
+  }
+}
+
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// A rendered agreement: headings ("# " lines in the template) and paragraphs, which keep their line breaks
+type SettlementBlock = { kind: "heading" | "paragraph"; text: string };
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-AU", { day: "numeric", month: "long", year: "numeric" });
+
+const formatMoney = (amount: number | string, currency: string) =>
+  Number(amount).toLocaleString("en-AU", { style: "currency", currency });
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|\x00-\x1F]/g, "_").trim() || "Settlement";
+
+// Values for the settlement term placeholders. {settlementTerms} numbers every recorded term as a clause.
+function settlementTermValues(outcome: CaseOutcome | undefined, additionalTerms: string | null | undefined, now: Date) {
+  const amount = outcome?.settlementAmount ? formatMoney(outcome.settlementAmount, outcome.currency) : null;
+  const issues = outcome?.resolvedIssues ?? [];
+  const clauses = [
+    amount ? `Payment of ${amount}${outcome?.paymentTerms ? `, ${outcome.paymentTerms}` : "."}` : outcome?.paymentTerms,
+    outcome?.nonMonetaryTerms,
+    issues.length > 0 ? `The following issues are resolved: ${issues.join("; ")}.` : null,
+    ...(additionalTerms ? additionalTerms.split(/\n{2,}/) : []),
+  ].map(clause => clause?.trim()).filter(Boolean);
+
+  return {
+    settlementDate: formatDate(now),
+    settlementAmount: amount || "[Settlement Amount]",
+    paymentTerms: outcome?.paymentTerms || "[Payment Terms]",
+    nonMonetaryTerms: outcome?.nonMonetaryTerms || "[Non-Monetary Terms]",
+    resolvedIssues: issues.length > 0 ? issues.map((issue, index) => `${index + 1}. ${issue}`).join("\n") : "[Resolved Issues]",
+    additionalTerms: additionalTerms || "[Additional Terms]",
+    settlementTerms: clauses.length > 0 ? clauses.map((clause, index) => `${index + 1}. ${clause}`).join("\n\n") : "[Settlement Terms]",
+  };
+}
+
+// Case placeholders are filled first so that typed-in terms are never treated as placeholders
+function fillPlaceholders(
+  text: string,
+  caseData: Case,
+  parties: PartyWithRepresentatives[],
+  sessions: MediationSession[],
+  caseType: CaseType | undefined,
+  terms: Record<string, string>,
+) {
+  let result = replaceCasePlaceholders(text, caseData, parties, sessions, { caseType });
+  for (const [key, value] of Object.entries(terms)) {
+    result = result.replace(new RegExp(`\\{${key}\\}`, "g"), () => value);
+  }
+  return result;
+}
+
+function toBlocks(body: string): SettlementBlock[] {
+  const blocks: SettlementBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ kind: "paragraph", text: paragraph.join("\n") });
+    paragraph = [];
+  };
+  for (const line of body.replace(/\r\n/g, "\n").split("\n")) {
+    if (line.startsWith("# ")) {
+      flush();
+      blocks.push({ kind: "heading", text: line.slice(2).trim() });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function renderSettlementDocx(title: string, blocks: SettlementBlock[], author: string | null): Promise<Buffer> {
+  const doc = new DocxDocument({
+    title,
+    creator: author ?? undefined,
+    styles: { default: { document: { run: { font: "Arial", size: 22 } } } },
+    sections: [{
+      children: [
+        new Paragraph({ text: title, heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, spacing: { after: 300 } }),
+        ...blocks.map(block => block.kind === "heading"
+          ? new Paragraph({ text: block.text, heading: HeadingLevel.HEADING_2, spacing: { before: 240, after: 120 } })
+          : new Paragraph({
+            spacing: { after: 160 },
+            children: block.text.split("\n").map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined })),
+          })),
+      ],
+    }],
+  });
+  return Packer.toBuffer(doc);
+}
+
+function renderSettlementPdf(title: string, blocks: SettlementBlock[], author: string | null): Promise<Buffer> {
+  return renderPdf((doc) => {
+    doc.font("Helvetica-Bold").fontSize(16).fillColor("#111827").text(title, { align: "center" });
+    doc.moveDown(1).font("Helvetica").fontSize(11);
+    for (const block of blocks) {
+      if (block.kind === "heading") {
+        doc.moveDown(0.5).font("Helvetica-Bold").fontSize(12).text(block.text).font("Helvetica").fontSize(11).moveDown(0.3);
+      } else {
+        doc.text(block.text).moveDown(0.6);
+      }
+    }
+  }, { title, author: author || undefined });
+}
+
+// Drafts the agreement from a template and the case's recorded outcome as a DOCX and a PDF, both saved
+// to the case documents as the next version, e.g. "Heads of Agreement v2.docx" and ".pdf"
+export async function generateSettlement(
+  caseData: Case,
+  template: SettlementTemplate,
+  input: GenerateSettlement,
+  actorId: string,
+): Promise<{ version: number; documents: Document[] }> {
+  const [parties, sessions, outcome, caseType] = await Promise.all([
+    storage.getPartiesWithRepresentatives(caseData.id),
+    storage.getMediationSessions(caseData.id),
+    storage.getCaseOutcome(caseData.id),
+    caseData.caseTypeId ? storage.getCaseType(caseData.caseTypeId) : undefined,
+  ]);
+  if (parties.length === 0) {
+    throw new SettlementError("Add the parties to the case before drafting an agreement");
+  }
+
+  const terms = settlementTermValues(outcome, input.additionalTerms, new Date());
+  const title = fillPlaceholders(template.title, caseData, parties, sessions, caseType, terms);
+  const body = fillPlaceholders(template.body, caseData, parties, sessions, caseType, terms);
+  const blocks = toBlocks(body);
+  const [docx, pdf] = await Promise.all([
+    renderSettlementDocx(title, blocks, caseData.mediatorName),
+    renderSettlementPdf(title, blocks, caseData.mediatorName),
+  ]);
+
+  const baseName = safeFileName(template.name);
+  const extractedText = [title, body].join("\n\n");
+  const fileStorage = new LocalFileStorageService();
+  const formats = [[docx, "docx", DOCX_MIME_TYPE], [pdf, "pdf", "application/pdf"]] as const;
+  const files = await Promise.all(formats.map(async ([buffer, extension, mimeType]) => ({
+    buffer,
+    extension,
+    mimeType,
+    objectPath: await fileStorage.saveFile(
+      buffer,
+      {
+        contentType: mimeType,
+        size: buffer.length,
+        uploadedAt: new Date().toISOString(),
+        userId: actorId,
+      },
+      actorId,
+    ),
+  })));
+  return storage.createDocumentVersion(caseData.id, baseName, version => files.map(file => ({
+    caseId: caseData.id,
+    fileName: `${baseName} v${version}.${file.extension}`,
+    originalName: `${baseName} v${version}.${file.extension}`,
+    fileSize: file.buffer.length,
+    mimeType: file.mimeType,
+    category: "Legal Document",
+    objectPath: file.objectPath,
+    extractedText,
+    isProcessed: true,
+    uploadedBy: actorId,
+  })));
+}
@@ -9,6 +9,37 @@ import {
   smtpSettings,
   zoomSettings,
   calendarSettings,
+  organizations,
+  organizationMembers,
+  organizationInvitations,
+  caseMediators,
+  caseStatusHistory,
+  auditEvents,
+  partyRepresentatives,
+  contacts,
+  caseTypes,
+  savedCaseViews,
+  retentionRules,
+  retentionReviews,
+  destructionCertificates,
+  caseOutcomes,
+  timeEntries,
+  caseExpenses,
+  dismissedTimeSuggestions,
+  invoiceSettings,
+  invoices,
+  caseTasks,
+  jobs,
+  reminderRules,
+  caseReminders,
+  mediationSessions,
+  sessionAttendees,
+  sessionSegments,
+  caucusNotes,
+  settlementTemplates,
+  nextMediationSession,
+  attendedSessionWindow,
+  sessionFormatFromMediationType,
   type User,
   type UpsertUser,
   type Case,
@@ -21,7 +52,21 @@ import {
   type ZoomSettings,
   type CalendarSettings,
   type InsertCase,
+  type CaseStatus,
+  type CaseStatusHistoryWithActor,
+  type AuditEventWithActor,
+  type InsertAuditEvent,
   type InsertParty,
+  type UpdateParty,
+  type PartyRepresentative,
+  type PartyWithRepresentatives,
+  type InsertPartyRepresentative,
+  type Contact,
+  type ContactKind,
+  type ContactMatch,
+  type ContactCase,
+  type ContactSuggestion,
+  type InsertContact,
   type InsertDocument,
   type InsertCaseNote,
   type InsertAiAnalysis,
@@ -29,31 +74,499 @@ import {
   type InsertSmtpSettings,
   type InsertZoomSettings,
   type InsertCalendarSettings,
+  type Organization,
+  type OrganizationMember,
+  type OrganizationInvitation,
+  type SentInvitation,
+  type ReceivedInvitation,
+  type OrganizationRole,
+  type InsertOrganization,
+  type InsertOrganizationMember,
+  type TeamMember,
+  type CaseMediator,
+  type CaseMediatorWithUser,
+  type InsertCaseMediator,
+  type ConflictCheckSubject,
+  type ConflictMatch,
+  type ConflictReport,
+  type SearchResponse,
+  type TrashedCase,
+  type TrashedDocument,
+  type SearchResult,
+  type CaseType,
+  type InsertCaseType,
+  type CaseListQuery,
+  type CaseListPage,
+  type SavedCaseView,
+  type InsertSavedCaseView,
+  caseStatuses,
+  legacyCaseStatuses,
+  caseStatusLabels,
+  canTransitionCaseStatus,
+  normalizeCaseStatus,
+  type RetentionRule,
+  type InsertRetentionRule,
+  type RetentionReview,
+  type RetentionReviewWithCase,
+  type DestructionCertificate,
+  searchVector,
+  documentSearchText,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type DuplicateCaseMatch,
+  type DuplicateCaseReason,
+  type CaseMergeResult,
+  type CaseOutcome,
+  type CaseOutcomeInput,
+  type OutcomeReport,
+  type OutcomeReportFilters,
+  outcomeCaseStatuses,
+  settledOutcomeTypes,
+  type TimeEntry,
+  type TimeEntryWithUser,
+  type UpdateTimeEntry,
+  type RunningTimer,
+  type CaseExpense,
+  type InsertCaseExpense,
+  type UpdateCaseExpense,
+  type TimeSuggestion,
+  type BillingSummary,
+  timeEntryAmount,
+  type FeeSplitShare,
+  type Invoice,
+  type InvoiceWithCase,
+  type InvoiceDisplayStatus,
+  type InvoiceSettings,
+  type InvoiceSettingsInput,
+  formatInvoiceNumber,
+  type CaseTypeTaskTemplate,
+  type CaseTask,
+  type CaseTaskWithAssignee,
+  type InsertCaseTask,
+  type UpdateCaseTask,
+  type MyTask,
+  openCaseStatuses,
+  taskDueFromMediation,
+  type Job,
+  type ReminderRule,
+  type InsertReminderRule,
+  type SettlementTemplate,
+  type InsertSettlementTemplate,
+  type CaseReminder,
+  type MediationSession,
+  type MediationSessionWithCase,
+  type InsertMediationSession,
+  type SessionAttendee,
+  type InsertSessionAttendee,
+  type AttendanceSource,
+  type SessionSegment,
+  type StartSessionSegment,
+  type CaucusNote,
+  type SessionLog,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { auditContext, diffRecords, snapshotRecord } from "./auditLog";
+import { eq, ne, desc, asc, and, or, inArray, notInArray, arrayContains, isNull, isNotNull, lt, lte, gte, ilike, sql, type SQL, TransactionRollbackError } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { nameSimilarity, normalizeEmail, NAME_MATCH_THRESHOLD } from "./nameMatching";
+import { randomUUID } from "crypto";
+
+const SEARCH_RESULTS_PER_TYPE = 8;
+
+// In an update of jobs: the row is a singleton job and another of its type is queued
+const queuedSingletonSibling = sql.raw(
+  `"jobs"."singleton" and exists (select 1 from "jobs" as "sibling" where "sibling"."type" = "jobs"."type" and "sibling"."singleton" and "sibling"."status" = 'queued')`,
+);
+
+// Raised when a status change is not allowed from the status the case holds at the time it is written
+export class CaseStatusTransitionError extends Error {
+  constructor(message: string, public status = 409) {
+    super(message);
+    this.name = "CaseStatusTransitionError";
+    Object.setPrototypeOf(this, CaseStatusTransitionError.prototype);
+  }
+}
+
+function trashPurgeDate(deletedAt: Date, retentionDays: number): string {
+  return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+const SEARCH_HEADLINE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+const ANALYSIS_TYPE_LABELS: Record<string, string> = { summary: "Case summary", irac: "IRAC analysis", qa: "Question" };
+
+// Organization roles that can see every case belonging to the organization's members
+const ORG_WIDE_READ_ROLES: OrganizationRole[] = ["admin", "case_manager", "read_only"];
+// Organization roles that can modify cases and act on behalf of other mediators
+const ORG_WIDE_WRITE_ROLES: OrganizationRole[] = ["admin", "case_manager"];
+
+// Everyone appearing on a party (the entity, its contact person and representatives) as conflict-check entries
+function partyConflictEntries(party: Party, representatives: PartyRepresentative[]): Required<ConflictCheckSubject>[] {
+  const partyLabel = party.partyType === "respondent" ? "Respondent" : "Applicant";
+  const entries: Required<ConflictCheckSubject>[] = [
+    { name: party.entityName, email: null, firm: null, label: partyLabel },
+  ];
+  if (party.primaryContactName || party.primaryContactEmail) {
+    entries.push({
+      name: party.primaryContactName || party.primaryContactEmail!,
+      email: party.primaryContactEmail,
+      firm: null,
+      label: `Contact for ${party.entityName}`,
+    });
+  }
+
+  // Parties created before representatives existed only have the legalRep* columns
+  const legacyLegalRep = representatives.length === 0 && party.legalRepName
+    ? [{ kind: "legal_rep", name: party.legalRepName, email: party.legalRepEmail, firm: party.legalRepFirm }]
+    : [];
+  for (const representative of [...representatives, ...legacyLegalRep]) {
+    const role = representative.kind === "support_person" ? "Support person" : "Legal representative";
+    entries.push({
+      name: representative.name,
+      email: representative.email,
+      firm: representative.firm,
+      label: `${role} for ${party.entityName}`,
+    });
+  }
+  return entries;
+}
+
+export interface TrashOptions {
+  includeDeleted?: boolean;
+}
+
+export interface CaseAccess {
+  caseData: Case;
+  canWrite: boolean;
+}
+
+// A closed case as the retention job sees it. organizationId is the lead mediator's practice.
+export interface RetentionCandidate {
+  caseData: Case;
+  organizationId: string | null;
+  closedAt: Date;
+  outcomeStatus: string | null;
+}
+
+// A case with its parties, as created by the bulk spreadsheet import
+export interface NewCaseWithParties {
+  caseData: InsertCase;
+  parties: Omit<InsertParty, "caseId">[];
+}
+
+// What a new (or existing) case is compared on when looking for duplicates
+export interface DuplicateCaseCriteria {
+  caseNumber?: string | null;
+  partyNames: string[];
+  mediationDate?: Date | null;
+  excludeCaseId?: string;
+}
+
+// A case recreated from an export bundle. The document files are already in storage.
+export interface CaseBundleRecords {
+  caseData: InsertCase;
+  parties: (Omit<InsertParty, "caseId"> & { representatives: Omit<InsertPartyRepresentative, "partyId">[] })[];
+  notes: { content: string; createdAt?: Date | null }[];
+  aiAnalyses: (Omit<InsertAiAnalysis, "caseId" | "createdBy"> & { createdAt?: Date | null })[];
+  documents: (Omit<InsertDocument, "caseId" | "uploadedBy"> & { createdAt?: Date | null })[];
+  sessions: InsertMediationSession[];
+  source: { caseId?: string; exportedAt: Date };
+}
+
+export type NewTimeEntry = typeof timeEntries.$inferInsert;
+export type NewJob = typeof jobs.$inferInsert;
+export type NewCaseReminder = typeof caseReminders.$inferInsert;
+export type NewMediationSession = typeof mediationSessions.$inferInsert;
+export type NewSessionAttendee = typeof sessionAttendees.$inferInsert;
+
+// Invoices generated together for one case. Numbers are assigned from the practice sequence when stored.
+export interface NewInvoiceRun {
+  caseId: string;
+  settingsId: string;
+  createdBy: string;
+  feeSplit: FeeSplitShare[]; // saved as the case default
+  timeEntryIds: string[];
+  expenseIds: string[];
+  invoices: Omit<typeof invoices.$inferInsert, "caseId" | "settingsId" | "runId" | "invoiceNumber" | "createdBy">[];
+}
+
+// Fixed-date and relative task due dates are exclusive; a relative one is resolved against the mediation date
+function resolveTaskDue(mediationDate: Date | null, due: { dueAt?: Date | null; dueOffsetDays?: number | null }) {
+  if (due.dueOffsetDays !== undefined && due.dueOffsetDays !== null) {
+    return { dueAt: taskDueFromMediation(mediationDate, due.dueOffsetDays), dueOffsetDays: due.dueOffsetDays };
+  }
+  return { dueAt: due.dueAt ?? null, dueOffsetDays: null };
+}
+
+// A case's first session, from its mediation date and the single-session fields cases had before
+// sessions existed
+function firstSessionValues(
+  caseData: Pick<Case, "id" | "mediationType" | "premises"> & Partial<Pick<Case, "zoomMeetingId" | "zoomMeetingLink" | "zoomMeetingPassword" | "calendarEventId">> & { mediationDate: Date },
+  createdBy: string | null,
+): NewMediationSession {
+  return {
+    caseId: caseData.id,
+    startsAt: caseData.mediationDate,
+    format: sessionFormatFromMediationType(caseData.mediationType),
+    venue: caseData.premises || null,
+    zoomMeetingId: caseData.zoomMeetingId ?? null,
+    zoomMeetingLink: caseData.zoomMeetingLink ?? null,
+    zoomMeetingPassword: caseData.zoomMeetingPassword ?? null,
+    calendarEventId: caseData.calendarEventId ?? null,
+    createdBy,
+  };
+}
+
+// Moves relative task due dates along with the mediation date (or clears them when it is removed)
+const relativeTaskDue = (mediationDate: Date | null) =>
+  mediationDate ? sql`${mediationDate.toISOString()}::timestamp + ${caseTasks.dueOffsetDays} * interval '1 day'` : null;
+
+// Suggested entries cover work from the last month, rounded up to six-minute billing units
+const TIME_SUGGESTION_WINDOW_DAYS = 30;
+const BILLING_UNIT_MINUTES = 6;
 
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
   
+  // Organization operations
+  createOrganization(organizationData: InsertOrganization): Promise<Organization>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  updateOrganization(id: string, organizationData: Partial<InsertOrganization>): Promise<Organization>;
+  getOrganizationMembership(userId: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMember(id: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<TeamMember[]>;
+  addOrganizationMember(memberData: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMember(id: string, memberData: Partial<InsertOrganizationMember>): Promise<OrganizationMember>;
+  removeOrganizationMember(id: string): Promise<void>;
+  getSentInvitations(organizationId: string): Promise<SentInvitation[]>;
+  getReceivedInvitations(userId: string): Promise<ReceivedInvitation[]>;
+  getOrganizationInvitation(id: string): Promise<OrganizationInvitation | undefined>;
+  inviteOrganizationMember(invitationData: Omit<OrganizationInvitation, "id" | "createdAt">): Promise<OrganizationInvitation>;
+  acceptOrganizationInvitation(invitation: OrganizationInvitation): Promise<OrganizationMember>;
+  deleteOrganizationInvitation(id: string): Promise<void>;
+  
   // Case operations
   getCases(mediatorId: string): Promise<Case[]>;
-  getCase(id: string): Promise<Case | undefined>;
-  getCaseWithDetails(id: string): Promise<(Case & { parties: Party[], documents: Document[] }) | undefined>;
-  createCase(caseData: InsertCase): Promise<Case>;
+  getCasesForUser(userId: string): Promise<Case[]>;
+  getCase(id: string, options?: TrashOptions): Promise<Case | undefined>;
+  getCaseForUser(id: string, userId: string): Promise<Case | undefined>;
+  getCaseAccess(id: string, userId: string, options?: TrashOptions): Promise<CaseAccess | undefined>;
+  canActForMediator(userId: string, mediatorId: string): Promise<boolean>;
+  getCaseWithDetails(id: string): Promise<(Case & { parties: PartyWithRepresentatives[], documents: Document[], mediators: CaseMediatorWithUser[], sessions: MediationSession[] }) | undefined>;
+  createCase(caseData: InsertCase, actorId?: string): Promise<Case>;
   updateCase(id: string, caseData: Partial<InsertCase>): Promise<Case>;
-  deleteCase(id: string): Promise<void>;
+  deleteCase(id: string, actorId: string): Promise<void>;
+  createCasesWithParties(entries: NewCaseWithParties[], actorId: string): Promise<Case[]>;
+  getExistingCaseNumbers(caseNumbers: string[]): Promise<string[]>;
+  createCaseFromBundle(bundle: CaseBundleRecords, actorId: string): Promise<Case>;
+  
+  // Case list operations
+  queryCases(userId: string, query: CaseListQuery): Promise<CaseListPage>;
+  getCaseTags(userId: string): Promise<string[]>;
+  getSavedCaseViews(userId: string): Promise<SavedCaseView[]>;
+  createSavedCaseView(userId: string, viewData: InsertSavedCaseView): Promise<SavedCaseView>;
+  updateSavedCaseView(id: string, userId: string, viewData: Partial<InsertSavedCaseView>): Promise<SavedCaseView | undefined>;
+  deleteSavedCaseView(id: string, userId: string): Promise<boolean>;
+  
+  // Trash operations. Deleted cases and documents stay restorable until they are purged.
+  getTrashedCases(userId: string, retentionDays: number): Promise<TrashedCase[]>;
+  getTrashedDocuments(userId: string, retentionDays: number): Promise<TrashedDocument[]>;
+  restoreCase(id: string): Promise<Case>;
+  purgeCase(id: string): Promise<void>;
+  deleteDocument(id: string, actorId: string): Promise<void>;
+  restoreDocument(id: string): Promise<Document>;
+  purgeDocument(id: string): Promise<void>;
+  getExpiredTrash(deletedBefore: Date): Promise<{ cases: Case[]; documents: Document[] }>;
+  
+  // Case status lifecycle operations
+  transitionCaseStatus(caseId: string, toStatus: CaseStatus, actorId: string, reason?: string): Promise<Case>;
+  normalizeLegacyCaseStatuses(): Promise<number>;
+  getCaseStatusHistory(caseId: string): Promise<CaseStatusHistoryWithActor[]>;
+
+  // Outcome operations
+  getCaseOutcome(caseId: string): Promise<CaseOutcome | undefined>;
+  saveCaseOutcome(caseId: string, outcome: CaseOutcomeInput, actorId: string): Promise<CaseOutcome>;
+  getOutcomeReport(userId: string, filters: OutcomeReportFilters): Promise<OutcomeReport>;
+
+  // Time and expense operations
+  getTimeEntries(caseId: string): Promise<TimeEntryWithUser[]>;
+  getTimeEntry(id: string): Promise<TimeEntry | undefined>;
+  getRunningTimer(userId: string): Promise<RunningTimer | undefined>;
+  createTimeEntry(entry: NewTimeEntry): Promise<TimeEntry>;
+  updateTimeEntry(id: string, entryData: UpdateTimeEntry & { endedAt?: Date }): Promise<TimeEntry>;
+  deleteTimeEntry(id: string): Promise<void>;
+  getCaseExpenses(caseId: string): Promise<CaseExpense[]>;
+  getCaseExpense(id: string): Promise<CaseExpense | undefined>;
+  createCaseExpense(caseId: string, userId: string, expense: InsertCaseExpense): Promise<CaseExpense>;
+  updateCaseExpense(id: string, expenseData: UpdateCaseExpense): Promise<CaseExpense>;
+  deleteCaseExpense(id: string): Promise<void>;
+  getBillingSummary(caseId: string): Promise<BillingSummary>;
+  getTimeSuggestions(caseId: string, userId: string): Promise<TimeSuggestion[]>;
+  dismissTimeSuggestion(userId: string, source: TimeSuggestion["source"], sourceId: string): Promise<void>;
+
+  // Invoice operations
+  getInvoiceSettings(userId: string): Promise<InvoiceSettings | undefined>;
+  getInvoiceSettingsById(id: string): Promise<InvoiceSettings | undefined>;
+  saveInvoiceSettings(userId: string, settings: InvoiceSettingsInput): Promise<InvoiceSettings>;
+  setInvoiceLogo(settingsId: string, logoObjectPath: string | null): Promise<InvoiceSettings>;
+  getInvoices(caseId: string): Promise<Invoice[]>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoicesForUser(userId: string, statuses?: InvoiceDisplayStatus[]): Promise<InvoiceWithCase[]>;
+  createInvoices(run: NewInvoiceRun): Promise<Invoice[] | null>;
+  updateInvoiceStatus(id: string, status: "unpaid" | "paid", paidAt: Date | null): Promise<Invoice>;
+  markInvoiceSent(id: string, sentTo: string): Promise<Invoice>;
+  voidInvoice(id: string): Promise<{ invoice: Invoice; released: boolean }>;
+
+  // Task operations
+  getCaseTasks(caseId: string): Promise<CaseTaskWithAssignee[]>;
+  getCaseTask(id: string): Promise<CaseTask | undefined>;
+  createCaseTask(caseId: string, createdBy: string, task: InsertCaseTask): Promise<CaseTask>;
+  addChecklistTasks(caseId: string, createdBy: string, templates: CaseTypeTaskTemplate[], assigneeId: string | null): Promise<CaseTask[]>;
+  updateCaseTask(id: string, task: UpdateCaseTask, actorId: string): Promise<CaseTask>;
+  deleteCaseTask(id: string): Promise<void>;
+  getTasksForUser(userId: string, dueBefore: Date): Promise<MyTask[]>;
+
+  // Mediation session operations
+  getMediationSessions(caseId: string): Promise<MediationSession[]>;
+  getMediationSession(id: string): Promise<MediationSession | undefined>;
+  createMediationSession(caseId: string, session: InsertMediationSession, actorId: string): Promise<MediationSession>;
+  updateMediationSession(id: string, session: Partial<NewMediationSession>, actorId?: string): Promise<MediationSession>;
+  deleteMediationSession(id: string, actorId: string): Promise<void>;
+  refreshCaseSchedule(caseId: string): Promise<Case | undefined>;
+  rollForwardCaseSchedules(): Promise<number>;
+  getSessionsForUser(userId: string, from: Date, to: Date): Promise<MediationSessionWithCase[]>;
+  migrateLegacySessions(): Promise<number>;
+
+  // Session attendance operations
+  getSessionAttendees(sessionId: string): Promise<SessionAttendee[]>;
+  getSessionAttendee(id: string): Promise<SessionAttendee | undefined>;
+  getCaseAttendance(caseId: string): Promise<SessionAttendee[]>;
+  createSessionAttendee(session: MediationSession, attendee: InsertSessionAttendee, actorId: string, source?: AttendanceSource): Promise<SessionAttendee>;
+  updateSessionAttendee(id: string, attendee: Partial<NewSessionAttendee>, actorId: string): Promise<SessionAttendee>;
+  deleteSessionAttendee(id: string, actorId: string): Promise<void>;
+
+  // Session log operations
+  getSessionLog(session: MediationSession): Promise<SessionLog>;
+  getRunningSegment(sessionId: string): Promise<SessionSegment | undefined>;
+  startSessionSegment(session: MediationSession, segment: StartSessionSegment, actorId: string): Promise<SessionSegment>;
+  stopSessionSegment(sessionId: string, actorId: string): Promise<SessionSegment | undefined>;
+  getCaucusNote(id: string): Promise<CaucusNote | undefined>;
+  createCaucusNote(session: MediationSession, note: { content: string; partyId: string | null; segmentId: string | null }, actorId: string): Promise<CaucusNote>;
+  deleteCaucusNote(id: string, actorId: string): Promise<void>;
+
+  // Job queue operations
+  createJob(job: NewJob): Promise<Job>;
+  createSingletonJob(type: string, runAt: Date): Promise<Job | undefined>;
+  touchJob(id: string): Promise<void>;
+  getJob(id: string): Promise<Job | undefined>;
+  claimDueJobs(limit: number): Promise<Job[]>;
+  completeJob(id: string): Promise<void>;
+  failJobAttempt(id: string, error: string, retryAt: Date | null): Promise<void>;
+  cancelJob(id: string): Promise<boolean>;
+  rescheduleJob(id: string, runAt: Date): Promise<boolean>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  hasPendingJob(type: string): Promise<boolean>;
+  deleteFinishedJobs(finishedBefore: Date): Promise<number>;
+
+  // Reminder operations
+  getReminderRules(userId: string): Promise<ReminderRule[]>;
+  getReminderRuleForUser(id: string, userId: string): Promise<ReminderRule | undefined>;
+  createReminderRule(userId: string, rule: InsertReminderRule): Promise<ReminderRule>;
+  updateReminderRule(id: string, rule: Partial<InsertReminderRule>): Promise<ReminderRule>;
+  deleteReminderRule(id: string): Promise<void>;
+
+  // Settlement template operations
+  getSettlementTemplates(userId: string): Promise<SettlementTemplate[]>;
+  getSettlementTemplateForUser(id: string, userId: string): Promise<SettlementTemplate | undefined>;
+  createSettlementTemplate(userId: string, template: InsertSettlementTemplate): Promise<SettlementTemplate>;
+  updateSettlementTemplate(id: string, template: Partial<InsertSettlementTemplate>): Promise<SettlementTemplate>;
+  deleteSettlementTemplate(id: string): Promise<void>;
+  getCaseReminders(caseId: string): Promise<CaseReminder[]>;
+  getCaseReminder(id: string): Promise<CaseReminder | undefined>;
+  createCaseReminder(reminder: NewCaseReminder): Promise<CaseReminder>;
+  updateCaseReminder(id: string, reminder: Partial<NewCaseReminder>): Promise<CaseReminder>;
+  getCasesWithUpcomingSessions(): Promise<Case[]>;
+  
+  // Case type operations
+  getCaseTypes(userId: string): Promise<CaseType[]>;
+  getCaseType(id: string): Promise<CaseType | undefined>;
+  getCaseTypeForUser(id: string, userId: string): Promise<CaseType | undefined>;
+  createCaseType(userId: string, caseTypeData: InsertCaseType): Promise<CaseType>;
+  updateCaseType(id: string, caseTypeData: Partial<InsertCaseType>): Promise<CaseType>;
+  deleteCaseType(id: string): Promise<void>;
+  
+  // Records retention operations
+  getRetentionRules(userId: string): Promise<RetentionRule[]>;
+  getAllRetentionRules(): Promise<RetentionRule[]>;
+  getRetentionRule(id: string): Promise<RetentionRule | undefined>;
+  getRetentionRuleForUser(id: string, userId: string): Promise<RetentionRule | undefined>;
+  createRetentionRule(userId: string, ruleData: InsertRetentionRule): Promise<RetentionRule>;
+  updateRetentionRule(id: string, ruleData: Partial<InsertRetentionRule>): Promise<RetentionRule>;
+  deleteRetentionRule(id: string): Promise<void>;
+  getRetentionCandidates(caseId?: string): Promise<RetentionCandidate[]>;
+  getRetentionReviews(userId: string): Promise<RetentionReviewWithCase[]>;
+  getOpenRetentionReviews(): Promise<RetentionReview[]>;
+  getRetentionReviewForUser(id: string, userId: string): Promise<RetentionReview | undefined>;
+  createRetentionReview(reviewData: typeof retentionReviews.$inferInsert): Promise<RetentionReview>;
+  updateRetentionReview(id: string, reviewData: Partial<typeof retentionReviews.$inferInsert>): Promise<RetentionReview>;
+  createDestructionCertificate(certificateData: typeof destructionCertificates.$inferInsert): Promise<DestructionCertificate>;
+  getDestructionCertificates(userId: string): Promise<DestructionCertificate[]>;
+  
+  // Case mediator (co-mediation) operations
+  getCaseMediators(caseId: string): Promise<CaseMediatorWithUser[]>;
+  backfillLeadMediators(): Promise<number>;
+  addCaseMediator(mediatorData: InsertCaseMediator): Promise<CaseMediator>;
+  removeCaseMediator(caseId: string, userId: string): Promise<void>;
+  setLeadMediator(caseId: string, userId: string): Promise<Case>;
+  
+  // Audit log operations (append-only)
+  protectAuditTrail(): Promise<void>;
+  recordAuditEvent(event: Omit<InsertAuditEvent, "actorId" | "ipAddress"> & { actorId?: string | null }): Promise<void>;
+  getAuditEvents(caseId: string): Promise<AuditEventWithActor[]>;
   
   // Party operations
-  createParty(partyData: InsertParty): Promise<Party>;
+  createParty(partyData: InsertParty, legalRepContactId?: string): Promise<Party>;
   getPartiesByCase(caseId: string): Promise<Party[]>;
+  getPartiesWithRepresentatives(caseId: string): Promise<PartyWithRepresentatives[]>;
+  getParty(id: string): Promise<Party | undefined>;
+  updateParty(id: string, partyData: UpdateParty): Promise<Party>;
+  deleteParty(id: string): Promise<void>;
+  reorderParties(caseId: string, partyIds: string[]): Promise<Party[]>;
+  
+  // Party representative operations
+  getPartyRepresentative(id: string): Promise<PartyRepresentative | undefined>;
+  createPartyRepresentative(representativeData: InsertPartyRepresentative): Promise<PartyRepresentative>;
+  updatePartyRepresentative(id: string, representativeData: Partial<InsertPartyRepresentative>): Promise<PartyRepresentative>;
+  deletePartyRepresentative(id: string): Promise<void>;
+  
+  // Contact directory operations
+  getContacts(userId: string, search?: string, kind?: ContactKind): Promise<Contact[]>;
+  getContactForUser(id: string, userId: string): Promise<Contact | undefined>;
+  getFirmMembers(firmId: string): Promise<Contact[]>;
+  createContact(userId: string, contactData: InsertContact): Promise<Contact>;
+  updateContact(id: string, contactData: Partial<InsertContact>): Promise<Contact>;
+  deleteContact(id: string): Promise<void>;
+  findContactMatches(userId: string, criteria: { name?: string; email?: string; kind?: ContactKind }): Promise<ContactMatch[]>;
+  getContactCases(contactId: string, userId: string): Promise<ContactCase[]>;
+  getContactSuggestions(caseId: string, userId: string): Promise<ContactSuggestion[]>;
+  
+  // Conflict-of-interest check operations
+  checkConflicts(userId: string, subjects: ConflictCheckSubject[], excludeCaseId?: string): Promise<ConflictMatch[]>;
+  runCaseConflictCheck(caseId: string, userId: string): Promise<Case>;
+  acknowledgeConflictCheck(caseId: string, userId: string, note?: string): Promise<Case>;
+  
+  // Duplicate detection and merge operations
+  findDuplicateCases(userId: string, criteria: DuplicateCaseCriteria): Promise<DuplicateCaseMatch[]>;
+  mergeCases(targetId: string, sourceId: string, actorId: string): Promise<CaseMergeResult>;
   
   // Document operations
   createDocument(documentData: InsertDocument): Promise<Document>;
-  getDocumentsByCase(caseId: string): Promise<Document[]>;
-  getDocument(id: string): Promise<Document | undefined>;
+  createDocumentVersion(caseId: string, versionGroup: string, build: (version: number) => InsertDocument[]): Promise<{ version: number; documents: Document[] }>;
+  backfillDocumentVersionGroups(): Promise<number>;
+  getDocumentsByCase(caseId: string, options?: TrashOptions): Promise<Document[]>;
+  getDocument(id: string, options?: TrashOptions): Promise<Document | undefined>;
+  getDocumentByObjectPath(objectPath: string): Promise<Document | undefined>;
   updateDocument(id: string, documentData: Partial<InsertDocument>): Promise<Document>;
   
   // Case Notes operations
@@ -64,6 +577,9 @@ export interface IStorage {
   createAiAnalysis(analysisData: InsertAiAnalysis): Promise<AiAnalysis>;
   getAiAnalyses(caseId: string): Promise<AiAnalysis[]>;
   
+  // Search operations
+  search(userId: string, query: string): Promise<SearchResponse>;
+  
   // Email Template operations
   createEmailTemplate(templateData: InsertEmailTemplate): Promise<EmailTemplate>;
   getEmailTemplates(userId: string): Promise<EmailTemplate[]>;
@@ -94,6 +610,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -109,116 +630,3507 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Organization operations
+  async createOrganization(organizationData: InsertOrganization): Promise<Organization> {
+    const [organization] = await db.insert(organizations).values(organizationData).returning();
+    return organization;
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async updateOrganization(id: string, organizationData: Partial<InsertOrganization>): Promise<Organization> {
+    const [updatedOrganization] = await db
+      .update(organizations)
+      .set({ ...organizationData, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    return updatedOrganization;
+  }
+
+  async getOrganizationMembership(userId: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.userId, userId));
+    return member;
+  }
+
+  async getOrganizationMember(id: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db.select().from(organizationMembers).where(eq(organizationMembers.id, id));
+    return member;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<TeamMember[]> {
+    const rows = await db
+      .select()
+      .from(organizationMembers)
+      .innerJoin(users, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+    return rows.map(row => ({ ...row.organization_members, user: row.users }));
+  }
+
+  async addOrganizationMember(memberData: InsertOrganizationMember): Promise<OrganizationMember> {
+    const [member] = await db.insert(organizationMembers).values(memberData).returning();
+    return member;
+  }
+
+  async updateOrganizationMember(id: string, memberData: Partial<InsertOrganizationMember>): Promise<OrganizationMember> {
+    const [updatedMember] = await db
+      .update(organizationMembers)
+      .set(memberData)
+      .where(eq(organizationMembers.id, id))
+      .returning();
+    return updatedMember;
+  }
+
+  async removeOrganizationMember(id: string): Promise<void> {
+    await db.delete(organizationMembers).where(eq(organizationMembers.id, id));
+  }
+
+  async getSentInvitations(organizationId: string): Promise<SentInvitation[]> {
+    const rows = await db
+      .select()
+      .from(organizationInvitations)
+      .innerJoin(users, eq(organizationInvitations.userId, users.id))
+      .where(eq(organizationInvitations.organizationId, organizationId))
+      .orderBy(organizationInvitations.createdAt);
+    return rows.map(({ organization_invitations: invitation, users: user }) => ({
+      ...invitation,
+      user: { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName },
+    }));
+  }
+
+  async getReceivedInvitations(userId: string): Promise<ReceivedInvitation[]> {
+    const rows = await db
+      .select({ invitation: organizationInvitations, organizationName: organizations.name, inviter: users })
+      .from(organizationInvitations)
+      .innerJoin(organizations, eq(organizationInvitations.organizationId, organizations.id))
+      .leftJoin(users, eq(organizationInvitations.invitedBy, users.id))
+      .where(eq(organizationInvitations.userId, userId))
+      .orderBy(organizationInvitations.createdAt);
+    return rows.map(({ invitation, organizationName, inviter }) => ({
+      ...invitation,
+      organizationName,
+      invitedByName: inviter ? `${inviter.firstName || ''} ${inviter.lastName || ''}`.trim() || inviter.email : null,
+    }));
+  }
+
+  async getOrganizationInvitation(id: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select().from(organizationInvitations).where(eq(organizationInvitations.id, id));
+    return invitation;
+  }
+
+  // Inviting someone again updates the role they are offered
+  async inviteOrganizationMember(invitationData: Omit<OrganizationInvitation, "id" | "createdAt">): Promise<OrganizationInvitation> {
+    const [invitation] = await db
+      .insert(organizationInvitations)
+      .values(invitationData)
+      .onConflictDoUpdate({
+        target: [organizationInvitations.organizationId, organizationInvitations.userId],
+        set: { role: invitationData.role, invitedBy: invitationData.invitedBy },
+      })
+      .returning();
+    return invitation;
+  }
+
+  // Joining one organization withdraws the user's other invitations, as a user belongs to at most one
+  async acceptOrganizationInvitation(invitation: OrganizationInvitation): Promise<OrganizationMember> {
+    return db.transaction(async (tx) => {
+      const [member] = await tx
+        .insert(organizationMembers)
+        .values({ organizationId: invitation.organizationId, userId: invitation.userId, role: invitation.role })
+        .returning();
+      await tx.delete(organizationInvitations).where(eq(organizationInvitations.userId, invitation.userId));
+      return member;
+    });
+  }
+
+  async deleteOrganizationInvitation(id: string): Promise<void> {
+    await db.delete(organizationInvitations).where(eq(organizationInvitations.id, id));
+  }
+
   // Case operations
+  // Cases the mediator leads or co-mediates
   async getCases(mediatorId: string): Promise<Case[]> {
     return await db
       .select()
       .from(cases)
-      .where(eq(cases.mediatorId, mediatorId))
+      .where(and(isNull(cases.deletedAt), this.mediatedCasesCondition(mediatorId)))
+      .orderBy(desc(cases.updatedAt));
+  }
+
+  private mediatedCasesCondition(userId: string) {
+    return or(
+      eq(cases.mediatorId, userId),
+      inArray(cases.id, this.coMediatedCaseIds(userId)),
+    );
+  }
+
+  private coMediatedCaseIds(userId: string) {
+    return db
+      .select({ caseId: caseMediators.caseId })
+      .from(caseMediators)
+      .where(eq(caseMediators.userId, userId));
+  }
+
+  // All cases the user can see: their own, or the whole organization's for org-wide roles
+  async getCasesForUser(userId: string): Promise<Case[]> {
+    return await db
+      .select()
+      .from(cases)
+      .where(and(isNull(cases.deletedAt), await this.accessibleCasesCondition(userId)))
       .orderBy(desc(cases.updatedAt));
   }
 
-  async getCase(id: string): Promise<Case | undefined> {
-    const [caseData] = await db.select().from(cases).where(eq(cases.id, id));
+  private async accessibleCasesCondition(userId: string) {
+    const membership = await this.getOrganizationMembership(userId);
+    if (!membership || !ORG_WIDE_READ_ROLES.includes(membership.role as OrganizationRole)) {
+      return this.mediatedCasesCondition(userId);
+    }
+
+    const memberIds = db
+      .select({ userId: organizationMembers.userId })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.organizationId, membership.organizationId));
+
+    return or(
+      inArray(cases.mediatorId, memberIds),
+      inArray(cases.id, this.coMediatedCaseIds(userId)),
+    );
+  }
+
+  // Trashed cases are treated as missing unless includeDeleted is set
+  async getCase(id: string, options: TrashOptions = {}): Promise<Case | undefined> {
+    const [caseData] = await db
+      .select()
+      .from(cases)
+      .where(and(eq(cases.id, id), options.includeDeleted ? undefined : isNull(cases.deletedAt)));
     return caseData;
   }
 
-  async getCaseWithDetails(id: string): Promise<(Case & { parties: Party[], documents: Document[] }) | undefined> {
+  // Returns the case only if the user is allowed to access it
+  async getCaseForUser(id: string, userId: string): Promise<Case | undefined> {
+    const access = await this.getCaseAccess(id, userId);
+    return access?.caseData;
+  }
+
+  // Resolves whether (and how) a user can access a case.
+  // The assigned mediator always has full access; org-wide roles see every case of their organization.
+  async getCaseAccess(id: string, userId: string, options: TrashOptions = {}): Promise<CaseAccess | undefined> {
+    const caseData = await this.getCase(id, options);
+    if (!caseData) return undefined;
+
+    if (caseData.mediatorId === userId) {
+      return { caseData, canWrite: true };
+    }
+
+    const [coMediator] = await db
+      .select()
+      .from(caseMediators)
+      .where(and(eq(caseMediators.caseId, id), eq(caseMediators.userId, userId)));
+    if (coMediator) {
+      return { caseData, canWrite: true };
+    }
+
+    const membership = await this.getOrganizationMembership(userId);
+    if (!membership || !ORG_WIDE_READ_ROLES.includes(membership.role as OrganizationRole)) {
+      return undefined;
+    }
+
+    const mediatorMembership = await this.getOrganizationMembership(caseData.mediatorId);
+    if (mediatorMembership?.organizationId !== membership.organizationId) {
+      return undefined;
+    }
+
+    return {
+      caseData,
+      canWrite: ORG_WIDE_WRITE_ROLES.includes(membership.role as OrganizationRole),
+    };
+  }
+
+  // Whether a user may create or manage cases on behalf of the given mediator
+  async canActForMediator(userId: string, mediatorId: string): Promise<boolean> {
+    if (userId === mediatorId) return true;
+
+    const membership = await this.getOrganizationMembership(userId);
+    if (!membership || !ORG_WIDE_WRITE_ROLES.includes(membership.role as OrganizationRole)) {
+      return false;
+    }
+
+    const mediatorMembership = await this.getOrganizationMembership(mediatorId);
+    return mediatorMembership?.organizationId === membership.organizationId;
+  }
+
+  async getCaseWithDetails(id: string): Promise<(Case & { parties: PartyWithRepresentatives[], documents: Document[], mediators: CaseMediatorWithUser[], sessions: MediationSession[] }) | undefined> {
     const caseData = await this.getCase(id);
     if (!caseData) return undefined;
 
-    const caseParties = await this.getPartiesByCase(id);
+    const caseParties = await this.getPartiesWithRepresentatives(id);
     const caseDocuments = await this.getDocumentsByCase(id);
+    const mediators = await this.getCaseMediators(id);
+    const sessions = await this.getMediationSessions(id);
 
     return {
       ...caseData,
       parties: caseParties,
       documents: caseDocuments,
+      mediators,
+      sessions,
     };
   }
 
-  async createCase(caseData: InsertCase): Promise<Case> {
+  // A mediation date on a new case becomes its first session
+  async createCase(caseData: InsertCase, actorId?: string): Promise<Case> {
     const [newCase] = await db.insert(cases).values(caseData).returning();
+    await db
+      .insert(caseMediators)
+      .values({ caseId: newCase.id, userId: newCase.mediatorId, role: "lead" })
+      .onConflictDoNothing();
+    if (newCase.mediationDate) {
+      await db.insert(mediationSessions).values(firstSessionValues({ ...newCase, mediationDate: newCase.mediationDate }, actorId ?? null));
+    }
+    await db.insert(caseStatusHistory).values({
+      caseId: newCase.id,
+      fromStatus: null,
+      toStatus: newCase.status,
+      actorId: actorId || newCase.mediatorId,
+    });
+    await this.recordAuditEvent({
+      caseId: newCase.id,
+      actorId,
+      action: "case.created",
+      entityType: "case",
+      entityId: newCase.id,
+      changes: snapshotRecord(newCase, "created"),
+    });
     return newCase;
   }
 
+  // All-or-nothing: a failure on any row (e.g. a case number taken meanwhile) rolls back the whole import
+  async createCasesWithParties(entries: NewCaseWithParties[], actorId: string): Promise<Case[]> {
+    const ipAddress = auditContext.getStore()?.ipAddress ?? null;
+    return await db.transaction(async (tx) => {
+      const created: Case[] = [];
+      for (const entry of entries) {
+        const [newCase] = await tx.insert(cases).values(entry.caseData).returning();
+        await tx
+          .insert(caseMediators)
+          .values({ caseId: newCase.id, userId: newCase.mediatorId, role: "lead" })
+          .onConflictDoNothing();
+        if (newCase.mediationDate) {
+          await tx.insert(mediationSessions).values(firstSessionValues({ ...newCase, mediationDate: newCase.mediationDate }, actorId));
+        }
+        await tx.insert(caseStatusHistory).values({
+          caseId: newCase.id,
+          fromStatus: null,
+          toStatus: newCase.status,
+          actorId,
+        });
+        await tx.insert(auditEvents).values({
+          caseId: newCase.id,
+          actorId,
+          ipAddress,
+          action: "case.created",
+          entityType: "case",
+          entityId: newCase.id,
+          changes: snapshotRecord(newCase, "created"),
+          metadata: { source: "import" },
+        });
+
+        for (let sortOrder = 0; sortOrder < entry.parties.length; sortOrder++) {
+          const [party] = await tx
+            .insert(parties)
+            .values({ ...entry.parties[sortOrder], caseId: newCase.id, sortOrder })
+            .returning();
+          if (party.legalRepName) {
+            await tx.insert(partyRepresentatives).values({
+              partyId: party.id,
+              kind: "legal_rep",
+              name: party.legalRepName,
+              firm: party.legalRepFirm,
+              email: party.legalRepEmail,
+              phone: party.legalRepPhone,
+            });
+          }
+          await tx.insert(auditEvents).values({
+            caseId: newCase.id,
+            actorId,
+            ipAddress,
+            action: "party.created",
+            entityType: "party",
+            entityId: party.id,
+            changes: snapshotRecord(party, "created"),
+          });
+        }
+        created.push(newCase);
+      }
+      return created;
+    });
+  }
+
+  // Notes, analyses and documents are attributed to the importing user but keep their original dates
+  async createCaseFromBundle(bundle: CaseBundleRecords, actorId: string): Promise<Case> {
+    const ipAddress = auditContext.getStore()?.ipAddress ?? null;
+    return await db.transaction(async (tx) => {
+      // Sessions come from the bundle; older exports only have the case's mediation date
+      const mediationDate = bundle.sessions.length > 0
+        ? nextMediationSession(bundle.sessions)!.startsAt
+        : bundle.caseData.mediationDate ?? null;
+      const [newCase] = await tx.insert(cases).values({ ...bundle.caseData, mediationDate }).returning();
+      await tx
+        .insert(caseMediators)
+        .values({ caseId: newCase.id, userId: newCase.mediatorId, role: "lead" })
+        .onConflictDoNothing();
+      if (bundle.sessions.length > 0) {
+        await tx.insert(mediationSessions).values(bundle.sessions.map(session => ({ ...session, caseId: newCase.id, createdBy: actorId })));
+      } else if (newCase.mediationDate) {
+        await tx.insert(mediationSessions).values(firstSessionValues({ ...newCase, mediationDate: newCase.mediationDate }, actorId));
+      }
+      await tx.insert(caseStatusHistory).values({
+        caseId: newCase.id,
+        fromStatus: null,
+        toStatus: newCase.status,
+        actorId,
+        reason: "Imported from a case export bundle",
+      });
+      await tx.insert(auditEvents).values({
+        caseId: newCase.id,
+        actorId,
+        ipAddress,
+        action: "case.created",
+        entityType: "case",
+        entityId: newCase.id,
+        changes: snapshotRecord(newCase, "created"),
+        metadata: { source: "bundle", sourceCaseId: bundle.source.caseId ?? null, exportedAt: bundle.source.exportedAt },
+      });
+
+      for (let sortOrder = 0; sortOrder < bundle.parties.length; sortOrder++) {
+        const { representatives, ...partyData } = bundle.parties[sortOrder];
+        const [party] = await tx
+          .insert(parties)
+          .values({ ...partyData, caseId: newCase.id, sortOrder })
+          .returning();
+        if (representatives.length > 0) {
+          await tx.insert(partyRepresentatives).values(
+            representatives.map(representative => ({ ...representative, partyId: party.id })),
+          );
+        }
+      }
+
+      if (bundle.notes.length > 0) {
+        await tx.insert(caseNotes).values(bundle.notes.map(note => ({
+          caseId: newCase.id,
+          content: note.content,
+          authorId: actorId,
+          createdAt: note.createdAt ?? undefined,
+          updatedAt: note.createdAt ?? undefined,
+        })));
+      }
+      if (bundle.aiAnalyses.length > 0) {
+        await tx.insert(aiAnalyses).values(bundle.aiAnalyses.map(analysis => ({
+          ...analysis,
+          caseId: newCase.id,
+          createdBy: actorId,
+          createdAt: analysis.createdAt ?? undefined,
+        })));
+      }
+      if (bundle.documents.length > 0) {
+        await tx.insert(documents).values(bundle.documents.map(document => ({
+          ...document,
+          caseId: newCase.id,
+          uploadedBy: actorId,
+          createdAt: document.createdAt ?? undefined,
+        })));
+      }
+      return newCase;
+    });
+  }
+
+  // Case numbers are unique across all practices and the trash, so this deliberately checks every case
+  async getExistingCaseNumbers(caseNumbers: string[]): Promise<string[]> {
+    if (caseNumbers.length === 0) return [];
+    const rows = await db
+      .select({ caseNumber: cases.caseNumber })
+      .from(cases)
+      .where(inArray(cases.caseNumber, caseNumbers));
+    return rows.map(row => row.caseNumber);
+  }
+
   async updateCase(id: string, caseData: Partial<InsertCase>): Promise<Case> {
+    const before = await this.getCase(id);
     const [updatedCase] = await db
       .update(cases)
       .set({ ...caseData, updatedAt: new Date() })
       .where(eq(cases.id, id))
       .returning();
+    if (caseData.mediationDate !== undefined) {
+      await db
+        .update(caseTasks)
+        .set({ dueAt: relativeTaskDue(updatedCase.mediationDate) })
+        .where(and(eq(caseTasks.caseId, id), isNotNull(caseTasks.dueOffsetDays)));
+    }
+    const changes = diffRecords(before, caseData);
+    if (changes) {
+      await this.recordAuditEvent({
+        caseId: id,
+        action: "case.updated",
+        entityType: "case",
+        entityId: id,
+        changes,
+      });
+    }
     return updatedCase;
   }
 
-  async deleteCase(id: string): Promise<void> {
-    await db.delete(cases).where(eq(cases.id, id));
+  // Moves the case to the trash. Its active documents are trashed with the same timestamp so
+  // restoring the case brings them back, while documents trashed earlier stay in the trash.
+  async deleteCase(id: string, actorId: string): Promise<void> {
+    const deletedAt = new Date();
+    const trashedDocuments = await db.transaction(async (tx) => {
+      await tx.update(cases).set({ deletedAt, deletedBy: actorId }).where(eq(cases.id, id));
+      return await tx
+        .update(documents)
+        .set({ deletedAt, deletedBy: actorId })
+        .where(and(eq(documents.caseId, id), isNull(documents.deletedAt)))
+        .returning({ id: documents.id });
+    });
+    await this.recordAuditEvent({
+      caseId: id,
+      action: "case.deleted",
+      entityType: "case",
+      entityId: id,
+      metadata: { documentCount: trashedDocuments.length },
+    });
   }
 
-  // Party operations
-  async createParty(partyData: InsertParty): Promise<Party> {
-    const [party] = await db.insert(parties).values(partyData).returning();
-    return party;
-  }
+  // Case list operations
+  async queryCases(userId: string, query: CaseListQuery): Promise<CaseListPage> {
+    const conditions: (SQL | undefined)[] = [isNull(cases.deletedAt), await this.accessibleCasesCondition(userId)];
+    if (query.status?.length) {
+      // Statuses stored before the lifecycle existed count as intake (see normalizeCaseStatus)
+      conditions.push(query.status.includes("intake")
+        ? or(inArray(cases.status, query.status), notInArray(cases.status, [...caseStatuses]))
+        : inArray(cases.status, query.status));
+    }
+    if (query.mediationType) {
+      conditions.push(ilike(cases.mediationType, query.mediationType.replace(/[\\%_]/g, "\\$&")));
+    }
+    if (query.caseTypeId) {
+      conditions.push(eq(cases.caseTypeId, query.caseTypeId));
+    }
+    if (query.tag?.length) {
+      conditions.push(arrayContains(cases.tags, query.tag));
+    }
+    if (query.party) {
+      const pattern = `%${query.party.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(inArray(
+        cases.id,
+        db.select({ caseId: parties.caseId }).from(parties).where(or(ilike(parties.entityName, pattern), ilike(parties.primaryContactName, pattern))),
+      ));
+    }
+    if (query.dateFrom) {
+      conditions.push(gte(cases.mediationDate, new Date(`${query.dateFrom}T00:00:00`)));
+    }
+    if (query.dateTo) {
+      const dayAfter = new Date(`${query.dateTo}T00:00:00`);
+      dayAfter.setDate(dayAfter.getDate() + 1);
+      conditions.push(lt(cases.mediationDate, dayAfter));
+    }
+    if (query.nextDays) {
+      const now = new Date();
+      conditions.push(gte(cases.mediationDate, now), lt(cases.mediationDate, new Date(now.getTime() + query.nextDays * 24 * 60 * 60 * 1000)));
+    }
 
-  async getPartiesByCase(caseId: string): Promise<Party[]> {
-    return await db.select().from(parties).where(eq(parties.caseId, caseId));
+    const sortColumns = {
+      updatedAt: cases.updatedAt,
+      createdAt: cases.createdAt,
+      mediationDate: cases.mediationDate,
+      caseNumber: cases.caseNumber,
+    };
+    const sortColumn = sortColumns[query.sort ?? "updatedAt"];
+    const direction = query.order ?? (query.sort === "caseNumber" || query.sort === "mediationDate" ? "asc" : "desc");
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(cases).where(where);
+    const rows = await db
+      .select()
+      .from(cases)
+      .where(where)
+      .orderBy(sql`${sortColumn} ${sql.raw(direction)} nulls last`, asc(cases.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { cases: rows, total, page: query.page, pageSize: query.pageSize };
   }
 
-  // Document operations
-  async createDocument(documentData: InsertDocument): Promise<Document> {
-    const [document] = await db.insert(documents).values(documentData).returning();
-    return document;
+  async getCaseTags(userId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ tag: sql<string>`unnest(${cases.tags})` })
+      .from(cases)
+      .where(and(isNull(cases.deletedAt), await this.accessibleCasesCondition(userId)))
+      .orderBy(sql`1`);
+    return rows.map(row => row.tag);
   }
 
-  async getDocumentsByCase(caseId: string): Promise<Document[]> {
+  async getSavedCaseViews(userId: string): Promise<SavedCaseView[]> {
     return await db
       .select()
+      .from(savedCaseViews)
+      .where(eq(savedCaseViews.userId, userId))
+      .orderBy(asc(savedCaseViews.createdAt));
+  }
+
+  async createSavedCaseView(userId: string, viewData: InsertSavedCaseView): Promise<SavedCaseView> {
+    const [view] = await db.insert(savedCaseViews).values({ ...viewData, userId }).returning();
+    return view;
+  }
+
+  async updateSavedCaseView(id: string, userId: string, viewData: Partial<InsertSavedCaseView>): Promise<SavedCaseView | undefined> {
+    const [view] = await db
+      .update(savedCaseViews)
+      .set(viewData)
+      .where(and(eq(savedCaseViews.id, id), eq(savedCaseViews.userId, userId)))
+      .returning();
+    return view;
+  }
+
+  async deleteSavedCaseView(id: string, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(savedCaseViews)
+      .where(and(eq(savedCaseViews.id, id), eq(savedCaseViews.userId, userId)))
+      .returning({ id: savedCaseViews.id });
+    return deleted.length > 0;
+  }
+
+  // Trash operations
+  async getTrashedCases(userId: string, retentionDays: number): Promise<TrashedCase[]> {
+    const rows = await db
+      .select({
+        id: cases.id,
+        caseNumber: cases.caseNumber,
+        status: cases.status,
+        deletedAt: cases.deletedAt,
+        deletedBy: cases.deletedBy,
+        // Spelled out: drizzle leaves columns in select fields unqualified, which the subquery would read as its own
+        documentCount: sql<number>`(select count(*)::int from ${documents} where ${documents}.case_id = ${cases}.id)`,
+      })
+      .from(cases)
+      .where(and(isNotNull(cases.deletedAt), await this.accessibleCasesCondition(userId)))
+      .orderBy(desc(cases.deletedAt));
+    return rows.map(row => ({ ...row, purgeAt: trashPurgeDate(row.deletedAt!, retentionDays) }));
+  }
+
+  // Documents trashed on their own; those of trashed cases are listed under the case
+  async getTrashedDocuments(userId: string, retentionDays: number): Promise<TrashedDocument[]> {
+    const rows = await db
+      .select({
+        id: documents.id,
+        caseId: documents.caseId,
+        caseNumber: cases.caseNumber,
+        originalName: documents.originalName,
+        fileSize: documents.fileSize,
+        deletedAt: documents.deletedAt,
+        deletedBy: documents.deletedBy,
+      })
       .from(documents)
-      .where(eq(documents.caseId, caseId))
-      .orderBy(desc(documents.createdAt));
+      .innerJoin(cases, eq(documents.caseId, cases.id))
+      .where(and(
+        isNotNull(documents.deletedAt),
+        isNull(cases.deletedAt),
+        await this.accessibleCasesCondition(userId),
+      ))
+      .orderBy(desc(documents.deletedAt));
+    return rows.map(row => ({ ...row, purgeAt: trashPurgeDate(row.deletedAt!, retentionDays) }));
   }
 
-  async getDocument(id: string): Promise<Document | undefined> {
-    const [document] = await db.select().from(documents).where(eq(documents.id, id));
-    return document;
+  async restoreCase(id: string): Promise<Case> {
+    const trashed = await this.getCase(id, { includeDeleted: true });
+    const restoredCase = await db.transaction(async (tx) => {
+      if (trashed?.deletedAt) {
+        await tx
+          .update(documents)
+          .set({ deletedAt: null, deletedBy: null })
+          .where(and(eq(documents.caseId, id), eq(documents.deletedAt, trashed.deletedAt)));
+      }
+      const [restored] = await tx
+        .update(cases)
+        .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+        .where(eq(cases.id, id))
+        .returning();
+      return restored;
+    });
+    await this.recordAuditEvent({
+      caseId: id,
+      action: "case.restored",
+      entityType: "case",
+      entityId: id,
+    });
+    return restoredCase;
   }
 
-  async updateDocument(id: string, documentData: Partial<InsertDocument>): Promise<Document> {
-    const [updatedDocument] = await db
+  // Permanently removes the case and every child record. Stored files and external links
+  // (Zoom, calendar) are cleaned up by the caller first; the audit trail is kept.
+  async purgeCase(id: string): Promise<void> {
+    const before = await this.getCase(id, { includeDeleted: true });
+    await db.transaction(async (tx) => {
+      const partyIds = tx.select({ id: parties.id }).from(parties).where(eq(parties.caseId, id));
+      await tx.delete(partyRepresentatives).where(inArray(partyRepresentatives.partyId, partyIds));
+      await tx.delete(parties).where(eq(parties.caseId, id));
+      await tx.delete(documents).where(eq(documents.caseId, id));
+      await tx.delete(caseNotes).where(eq(caseNotes.caseId, id));
+      await tx.delete(aiAnalyses).where(eq(aiAnalyses.caseId, id));
+      await tx.delete(caseMediators).where(eq(caseMediators.caseId, id));
+      await tx.delete(caseStatusHistory).where(eq(caseStatusHistory.caseId, id));
+      await tx.delete(caseOutcomes).where(eq(caseOutcomes.caseId, id));
+      await tx.delete(timeEntries).where(eq(timeEntries.caseId, id));
+      await tx.delete(caseExpenses).where(eq(caseExpenses.caseId, id));
+      await tx.delete(invoices).where(eq(invoices.caseId, id));
+      await tx.delete(caseTasks).where(eq(caseTasks.caseId, id));
+      await tx.delete(caseReminders).where(eq(caseReminders.caseId, id));
+      await tx.delete(jobs).where(eq(jobs.caseId, id));
+      await tx.delete(sessionAttendees).where(eq(sessionAttendees.caseId, id));
+      await tx.delete(sessionSegments).where(eq(sessionSegments.caseId, id));
+      await tx.delete(caucusNotes).where(eq(caucusNotes.caseId, id));
+      await tx.delete(mediationSessions).where(eq(mediationSessions.caseId, id));
+      await tx.delete(cases).where(eq(cases.id, id));
+    });
+    if (before) {
+      await this.recordAuditEvent({
+        caseId: id,
+        action: "case.purged",
+        entityType: "case",
+        entityId: id,
+        changes: snapshotRecord(before, "deleted", ["conflictReport"]),
+      });
+    }
+  }
+
+  async deleteDocument(id: string, actorId: string): Promise<void> {
+    const [document] = await db
       .update(documents)
-      .set(documentData)
+      .set({ deletedAt: new Date(), deletedBy: actorId })
       .where(eq(documents.id, id))
       .returning();
-    return updatedDocument;
+    await this.recordAuditEvent({
+      caseId: document.caseId,
+      action: "document.deleted",
+      entityType: "document",
+      entityId: id,
+      metadata: { originalName: document.originalName },
+    });
   }
 
-  // Case Notes operations
-  async createCaseNote(noteData: InsertCaseNote): Promise<CaseNote> {
-    const [note] = await db.insert(caseNotes).values(noteData).returning();
-    return note;
+  async restoreDocument(id: string): Promise<Document> {
+    const [document] = await db
+      .update(documents)
+      .set({ deletedAt: null, deletedBy: null })
+      .where(eq(documents.id, id))
+      .returning();
+    await this.recordAuditEvent({
+      caseId: document.caseId,
+      action: "document.restored",
+      entityType: "document",
+      entityId: id,
+      metadata: { originalName: document.originalName },
+    });
+    return document;
   }
 
-  async getCaseNotes(caseId: string): Promise<CaseNote[]> {
-    return await db
-      .select()
-      .from(caseNotes)
-      .where(eq(caseNotes.caseId, caseId))
-      .orderBy(desc(caseNotes.createdAt));
+  // Removes the document row; the caller deletes the stored file
+  async purgeDocument(id: string): Promise<void> {
+    const [document] = await db.delete(documents).where(eq(documents.id, id)).returning();
+    if (document) {
+      await this.recordAuditEvent({
+        caseId: document.caseId,
+        action: "document.purged",
+        entityType: "document",
+        entityId: id,
+        metadata: { originalName: document.originalName },
+      });
+    }
   }
 
-  // AI Analysis operations
-  async createAiAnalysis(analysisData: InsertAiAnalysis): Promise<AiAnalysis> {
-    const [analysis] = await db.insert(aiAnalyses).values(analysisData).returning();
-    return analysis;
+  async getExpiredTrash(deletedBefore: Date): Promise<{ cases: Case[]; documents: Document[] }> {
+    const expiredCases = await db.select().from(cases).where(lt(cases.deletedAt, deletedBefore));
+    const expiredDocuments = await db
+      .select({ document: documents })
+      .from(documents)
+      .innerJoin(cases, eq(documents.caseId, cases.id))
+      .where(and(lt(documents.deletedAt, deletedBefore), isNull(cases.deletedAt)));
+    return { cases: expiredCases, documents: expiredDocuments.map(row => row.document) };
   }
 
-  async getAiAnalyses(caseId: string): Promise<AiAnalysis[]> {
+  // Case status lifecycle operations. The row is locked and the transition re-checked against its current
+  // status, so concurrent changes cannot both apply.
+  async transitionCaseStatus(caseId: string, toStatus: CaseStatus, actorId: string, reason?: string): Promise<Case> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(cases).where(eq(cases.id, caseId)).for("update");
+      if (!current) {
+        throw new CaseStatusTransitionError("Case not found", 404);
+      }
+      const fromStatus = normalizeCaseStatus(current.status);
+      if (!canTransitionCaseStatus(fromStatus, toStatus)) {
+        throw new CaseStatusTransitionError(
+          `Cannot move a case from ${caseStatusLabels[fromStatus]} to ${caseStatusLabels[toStatus]}`,
+        );
+      }
+      const [updatedCase] = await tx
+        .update(cases)
+        .set({ status: toStatus, updatedAt: new Date(), ...(toStatus === "closed" ? { closedAt: new Date() } : {}) })
+        .where(eq(cases.id, caseId))
+        .returning();
+      await tx.insert(caseStatusHistory).values({
+        caseId,
+        fromStatus: current.status,
+        toStatus,
+        actorId,
+        reason: reason || null,
+      });
+      await tx.insert(auditEvents).values({
+        caseId,
+        actorId,
+        ipAddress: auditContext.getStore()?.ipAddress ?? null,
+        action: "case.status_changed",
+        entityType: "case",
+        entityId: caseId,
+        changes: { status: { before: current.status, after: toStatus } },
+        metadata: reason ? { reason } : null,
+      });
+      return updatedCase;
+    });
+  }
+
+  // Cases stored before the lifecycle existed hold "active" or "open", which read as intake. Runs at startup.
+  async normalizeLegacyCaseStatuses(): Promise<number> {
+    return db.transaction(async (tx) => {
+      const legacy = await tx
+        .select({ id: cases.id, status: cases.status, mediatorId: cases.mediatorId })
+        .from(cases)
+        .where(inArray(cases.status, [...legacyCaseStatuses]))
+        .for("update");
+      if (legacy.length === 0) return 0;
+
+      const reason = "Pre-lifecycle status moved to intake";
+      await tx.update(cases).set({ status: "intake" }).where(inArray(cases.id, legacy.map(row => row.id)));
+      await tx.insert(caseStatusHistory).values(legacy.map(row => ({
+        caseId: row.id,
+        fromStatus: row.status,
+        toStatus: "intake",
+        actorId: row.mediatorId,
+        reason,
+      })));
+      await tx.insert(auditEvents).values(legacy.map(row => ({
+        caseId: row.id,
+        action: "case.status_changed",
+        entityType: "case",
+        entityId: row.id,
+        changes: { status: { before: row.status, after: "intake" } },
+        metadata: { reason },
+      })));
+      return legacy.length;
+    });
+  }
+
+  async getCaseStatusHistory(caseId: string): Promise<CaseStatusHistoryWithActor[]> {
+    const rows = await db
+      .select({
+        history: caseStatusHistory,
+        actor: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(caseStatusHistory)
+      .leftJoin(users, eq(caseStatusHistory.actorId, users.id))
+      .where(eq(caseStatusHistory.caseId, caseId))
+      .orderBy(caseStatusHistory.createdAt);
+    return rows.map(row => ({ ...row.history, actor: row.actor }));
+  }
+
+  // Outcome operations
+  async getCaseOutcome(caseId: string): Promise<CaseOutcome | undefined> {
+    const [outcome] = await db.select().from(caseOutcomes).where(eq(caseOutcomes.caseId, caseId));
+    return outcome;
+  }
+
+  async saveCaseOutcome(caseId: string, outcomeData: CaseOutcomeInput, actorId: string): Promise<CaseOutcome> {
+    const before = await this.getCaseOutcome(caseId);
+    const [outcome] = await db
+      .insert(caseOutcomes)
+      .values({ ...outcomeData, caseId, recordedBy: actorId })
+      .onConflictDoUpdate({
+        target: caseOutcomes.caseId,
+        set: { ...outcomeData, recordedBy: actorId, updatedAt: new Date() },
+      })
+      .returning();
+    const changes = before ? diffRecords(before, outcomeData) : snapshotRecord(outcome, "created");
+    if (changes) {
+      await this.recordAuditEvent({
+        caseId,
+        actorId,
+        action: before ? "outcome.updated" : "outcome.recorded",
+        entityType: "outcome",
+        entityId: outcome.id,
+        changes,
+      });
+    }
+    return outcome;
+  }
+
+  // Outcomes on the cases the user can see, with totals for reporting. Settlement amounts are
+  // totalled per currency rather than converted.
+  async getOutcomeReport(userId: string, filters: OutcomeReportFilters): Promise<OutcomeReport> {
+    const conditions: (SQL | undefined)[] = [isNull(cases.deletedAt), await this.accessibleCasesCondition(userId)];
+    if (filters.outcomeType?.length) {
+      conditions.push(inArray(caseOutcomes.outcomeType, filters.outcomeType));
+    }
+    if (filters.mediationType) {
+      conditions.push(ilike(cases.mediationType, filters.mediationType));
+    }
+    if (filters.caseTypeId) {
+      conditions.push(eq(cases.caseTypeId, filters.caseTypeId));
+    }
+    if (filters.mediatorId) {
+      conditions.push(eq(cases.mediatorId, filters.mediatorId));
+    }
+    if (filters.dateFrom) {
+      conditions.push(gte(caseOutcomes.createdAt, new Date(`${filters.dateFrom}T00:00:00`)));
+    }
+    if (filters.dateTo) {
+      const dayAfter = new Date(`${filters.dateTo}T00:00:00`);
+      dayAfter.setDate(dayAfter.getDate() + 1);
+      conditions.push(lt(caseOutcomes.createdAt, dayAfter));
+    }
+
+    const results = await db
+      .select({
+        outcome: caseOutcomes,
+        caseNumber: cases.caseNumber,
+        mediationType: cases.mediationType,
+        mediationDate: cases.mediationDate,
+        mediatorId: cases.mediatorId,
+        mediatorName: cases.mediatorName,
+        caseTypeId: cases.caseTypeId,
+        status: cases.status,
+        issuesForDiscussion: cases.issuesForDiscussion,
+      })
+      .from(caseOutcomes)
+      .innerJoin(cases, eq(caseOutcomes.caseId, cases.id))
+      .where(and(...conditions))
+      .orderBy(desc(caseOutcomes.createdAt));
+
+    const rows = results.map(({ outcome, issuesForDiscussion, ...caseFields }) => ({
+      ...outcome,
+      ...caseFields,
+      issuesRaised: issuesForDiscussion?.length ?? 0,
+    }));
+
+    const byType = Object.fromEntries(outcomeCaseStatuses.map(type => [type, 0])) as OutcomeReport["summary"]["byType"];
+    const totals = new Map<string, { currency: string; total: number; count: number }>();
+    let settledCount = 0;
+    let durationTotal = 0;
+    let durationCount = 0;
+    for (const row of rows) {
+      if (row.outcomeType in byType) {
+        byType[row.outcomeType as keyof typeof byType]++;
+      }
+      if (settledOutcomeTypes.some(type => type === row.outcomeType)) {
+        settledCount++;
+      }
+      if (row.settlementAmount !== null) {
+        const entry = totals.get(row.currency) ?? { currency: row.currency, total: 0, count: 0 };
+        entry.total += Number(row.settlementAmount);
+        entry.count++;
+        totals.set(row.currency, entry);
+      }
+      if (row.sessionDurationMinutes !== null) {
+        durationTotal += row.sessionDurationMinutes;
+        durationCount++;
+      }
+    }
+
+    return {
+      rows,
+      summary: {
+        total: rows.length,
+        byType,
+        settlementRate: rows.length > 0 ? settledCount / rows.length : null,
+        settlementTotals: Array.from(totals.values()).map(entry => ({ ...entry, total: Math.round(entry.total * 100) / 100 })),
+        averageDurationMinutes: durationCount > 0 ? Math.round(durationTotal / durationCount) : null,
+        issuesRaised: rows.reduce((sum, row) => sum + row.issuesRaised, 0),
+        issuesResolved: rows.reduce((sum, row) => sum + row.resolvedIssues.length, 0),
+      },
+    };
+  }
+
+  // Time and expense operations
+  async getTimeEntries(caseId: string): Promise<TimeEntryWithUser[]> {
+    const rows = await db
+      .select({
+        entry: timeEntries,
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(timeEntries)
+      .leftJoin(users, eq(timeEntries.userId, users.id))
+      .where(eq(timeEntries.caseId, caseId))
+      .orderBy(desc(timeEntries.startedAt));
+    return rows.map(row => ({ ...row.entry, user: row.user }));
+  }
+
+  async getTimeEntry(id: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry;
+  }
+
+  // A user has at most one running timer, on any case
+  async getRunningTimer(userId: string): Promise<RunningTimer | undefined> {
+    const [row] = await db
+      .select({ entry: timeEntries, caseNumber: cases.caseNumber })
+      .from(timeEntries)
+      .innerJoin(cases, eq(timeEntries.caseId, cases.id))
+      .where(and(eq(timeEntries.userId, userId), isNull(timeEntries.endedAt)))
+      .limit(1);
+    return row ? { ...row.entry, caseNumber: row.caseNumber } : undefined;
+  }
+
+  async createTimeEntry(entryData: NewTimeEntry): Promise<TimeEntry> {
+    const [entry] = await db.insert(timeEntries).values(entryData).returning();
+    await this.recordAuditEvent({
+      caseId: entry.caseId,
+      action: "time_entry.created",
+      entityType: "time_entry",
+      entityId: entry.id,
+      changes: snapshotRecord(entry, "created"),
+    });
+    return entry;
+  }
+
+  async updateTimeEntry(id: string, entryData: UpdateTimeEntry & { endedAt?: Date }): Promise<TimeEntry> {
+    const before = await this.getTimeEntry(id);
+    const [entry] = await db
+      .update(timeEntries)
+      .set({ ...entryData, updatedAt: new Date() })
+      .where(eq(timeEntries.id, id))
+      .returning();
+    const changes = diffRecords(before, entryData);
+    if (changes) {
+      await this.recordAuditEvent({
+        caseId: entry.caseId,
+        action: "time_entry.updated",
+        entityType: "time_entry",
+        entityId: id,
+        changes,
+      });
+    }
+    return entry;
+  }
+
+  async deleteTimeEntry(id: string): Promise<void> {
+    const [entry] = await db.delete(timeEntries).where(eq(timeEntries.id, id)).returning();
+    if (entry) {
+      await this.recordAuditEvent({
+        caseId: entry.caseId,
+        action: "time_entry.deleted",
+        entityType: "time_entry",
+        entityId: id,
+        changes: snapshotRecord(entry, "deleted"),
+      });
+    }
+  }
+
+  async getCaseExpenses(caseId: string): Promise<CaseExpense[]> {
     return await db
       .select()
-      .from(aiAnalyses)
-      .where(eq(aiAnalyses.caseId, caseId))
-      .orderBy(desc(aiAnalyses.createdAt));
+      .from(caseExpenses)
+      .where(eq(caseExpenses.caseId, caseId))
+      .orderBy(desc(caseExpenses.incurredOn));
+  }
+
+  async getCaseExpense(id: string): Promise<CaseExpense | undefined> {
+    const [expense] = await db.select().from(caseExpenses).where(eq(caseExpenses.id, id));
+    return expense;
+  }
+
+  async createCaseExpense(caseId: string, userId: string, expenseData: InsertCaseExpense): Promise<CaseExpense> {
+    const [expense] = await db
+      .insert(caseExpenses)
+      .values({ ...expenseData, amount: expenseData.amount!, caseId, userId })
+      .returning();
+    await this.recordAuditEvent({
+      caseId,
+      action: "expense.created",
+      entityType: "expense",
+      entityId: expense.id,
+      changes: snapshotRecord(expense, "created"),
+    });
+    return expense;
+  }
+
+  async updateCaseExpense(id: string, expenseData: UpdateCaseExpense): Promise<CaseExpense> {
+    const before = await this.getCaseExpense(id);
+    const { amount, ...rest } = expenseData;
+    const [expense] = await db
+      .update(caseExpenses)
+      .set({ ...rest, ...(amount ? { amount } : {}), updatedAt: new Date() })
+      .where(eq(caseExpenses.id, id))
+      .returning();
+    const changes = diffRecords(before, expenseData);
+    if (changes) {
+      await this.recordAuditEvent({
+        caseId: expense.caseId,
+        action: "expense.updated",
+        entityType: "expense",
+        entityId: id,
+        changes,
+      });
+    }
+    return expense;
+  }
+
+  async deleteCaseExpense(id: string): Promise<void> {
+    const [expense] = await db.delete(caseExpenses).where(eq(caseExpenses.id, id)).returning();
+    if (expense) {
+      await this.recordAuditEvent({
+        caseId: expense.caseId,
+        action: "expense.deleted",
+        entityType: "expense",
+        entityId: id,
+        changes: snapshotRecord(expense, "deleted"),
+      });
+    }
+  }
+
+  async getBillingSummary(caseId: string): Promise<BillingSummary> {
+    const [entries, expenses] = await Promise.all([this.getTimeEntries(caseId), this.getCaseExpenses(caseId)]);
+
+    const totals = new Map<string, BillingSummary["totals"][number]>();
+    const totalsFor = (currency: string) => {
+      let entry = totals.get(currency);
+      if (!entry) {
+        entry = { currency, billableMinutes: 0, nonBillableMinutes: 0, timeAmount: 0, expenseAmount: 0, total: 0 };
+        totals.set(currency, entry);
+      }
+      return entry;
+    };
+    const byActivity = new Map<string, { activityType: string; minutes: number; amount: number }>();
+    let unratedMinutes = 0;
+
+    for (const entry of entries) {
+      if (entry.durationMinutes === null) continue; // timer still running
+      const currencyTotals = totalsFor(entry.currency);
+      const activity = byActivity.get(entry.activityType) ?? { activityType: entry.activityType, minutes: 0, amount: 0 };
+      activity.minutes += entry.durationMinutes;
+      byActivity.set(entry.activityType, activity);
+      if (!entry.billable) {
+        currencyTotals.nonBillableMinutes += entry.durationMinutes;
+        continue;
+      }
+      currencyTotals.billableMinutes += entry.durationMinutes;
+      const amount = timeEntryAmount(entry);
+      if (amount === null) {
+        unratedMinutes += entry.durationMinutes;
+      } else {
+        currencyTotals.timeAmount += amount;
+        activity.amount += amount;
+      }
+    }
+    for (const expense of expenses) {
+      if (expense.billable) {
+        totalsFor(expense.currency).expenseAmount += Number(expense.amount);
+      }
+    }
+
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    return {
+      timeEntries: entries,
+      expenses,
+      totals: Array.from(totals.values()).map(entry => ({
+        ...entry,
+        timeAmount: round(entry.timeAmount),
+        expenseAmount: round(entry.expenseAmount),
+        total: round(entry.timeAmount + entry.expenseAmount),
+      })),
+      byActivity: Array.from(byActivity.values()).map(activity => ({ ...activity, amount: round(activity.amount) })),
+      unratedMinutes,
+    };
+  }
+
+  // Emails the user sent and AI analyses they ran on the case recently that aren't logged as time yet.
+  // Email drafting time is measured by the email dialog; an AI analysis counts as one billing unit.
+  async getTimeSuggestions(caseId: string, userId: string): Promise<TimeSuggestion[]> {
+    const since = new Date(Date.now() - TIME_SUGGESTION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const [emails, analyses, sessions, attendance, logged, dismissed] = await Promise.all([
+      db
+        .select()
+        .from(auditEvents)
+        .where(and(
+          eq(auditEvents.caseId, caseId),
+          eq(auditEvents.actorId, userId),
+          eq(auditEvents.action, "email.sent"),
+          gte(auditEvents.createdAt, since),
+        )),
+      db
+        .select({ id: aiAnalyses.id, analysisType: aiAnalyses.analysisType, createdAt: aiAnalyses.createdAt })
+        .from(aiAnalyses)
+        .where(and(eq(aiAnalyses.caseId, caseId), eq(aiAnalyses.createdBy, userId), gte(aiAnalyses.createdAt, since))),
+      db
+        .select()
+        .from(mediationSessions)
+        .where(and(eq(mediationSessions.caseId, caseId), gte(mediationSessions.startsAt, since))),
+      this.getCaseAttendance(caseId),
+      db
+        .select({ sourceId: timeEntries.sourceId })
+        .from(timeEntries)
+        .where(and(eq(timeEntries.caseId, caseId), isNotNull(timeEntries.sourceId))),
+      db
+        .select({ sourceId: dismissedTimeSuggestions.sourceId })
+        .from(dismissedTimeSuggestions)
+        .where(eq(dismissedTimeSuggestions.userId, userId)),
+    ]);
+
+    const handled = new Set([...logged, ...dismissed].map(row => row.sourceId));
+    const toUnits = (minutes: number) => Math.max(1, Math.ceil(minutes / BILLING_UNIT_MINUTES)) * BILLING_UNIT_MINUTES;
+    const suggestions: TimeSuggestion[] = [];
+
+    for (const email of emails) {
+      if (handled.has(email.id)) continue;
+      const draftingSeconds = Number(email.metadata?.draftingSeconds) || 0;
+      suggestions.push({
+        source: "email",
+        sourceId: email.id,
+        activityType: "correspondence",
+        description: `Email: ${email.metadata?.subject ?? "(no subject)"}`,
+        startedAt: new Date((email.createdAt ?? new Date()).getTime() - draftingSeconds * 1000).toISOString(),
+        durationMinutes: toUnits(draftingSeconds / 60),
+      });
+    }
+    for (const analysis of analyses) {
+      if (handled.has(analysis.id)) continue;
+      suggestions.push({
+        source: "ai_analysis",
+        sourceId: analysis.id,
+        activityType: "preparation",
+        description: `AI ${analysis.analysisType} analysis review`,
+        startedAt: (analysis.createdAt ?? new Date()).toISOString(),
+        durationMinutes: BILLING_UNIT_MINUTES,
+      });
+    }
+    // Sessions with an attendance register, timed from the first arrival to the last departure
+    for (const session of sessions) {
+      if (handled.has(session.id)) continue;
+      const attended = attendedSessionWindow(session, attendance.filter(attendee => attendee.sessionId === session.id));
+      if (!attended || attended.start > new Date()) continue;
+      suggestions.push({
+        source: "attendance",
+        sourceId: session.id,
+        activityType: "session",
+        description: session.title,
+        startedAt: attended.start.toISOString(),
+        durationMinutes: toUnits(attended.minutes),
+      });
+    }
+
+    return suggestions.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  async dismissTimeSuggestion(userId: string, source: TimeSuggestion["source"], sourceId: string): Promise<void> {
+    await db.insert(dismissedTimeSuggestions).values({ userId, source, sourceId }).onConflictDoNothing();
+  }
+
+  // Invoice operations
+  async getInvoiceSettings(userId: string): Promise<InvoiceSettings | undefined> {
+    const [settings] = await db
+      .select()
+      .from(invoiceSettings)
+      .where(await this.practiceScope(userId, invoiceSettings));
+    return settings;
+  }
+
+  async getInvoiceSettingsById(id: string): Promise<InvoiceSettings | undefined> {
+    const [settings] = await db.select().from(invoiceSettings).where(eq(invoiceSettings.id, id));
+    return settings;
+  }
+
+  async saveInvoiceSettings(userId: string, settingsData: InvoiceSettingsInput): Promise<InvoiceSettings> {
+    const existing = await this.getInvoiceSettings(userId);
+    if (existing) {
+      const [settings] = await db
+        .update(invoiceSettings)
+        .set({ ...settingsData, updatedAt: new Date() })
+        .where(eq(invoiceSettings.id, existing.id))
+        .returning();
+      return settings;
+    }
+    const membership = await this.getOrganizationMembership(userId);
+    const [settings] = await db
+      .insert(invoiceSettings)
+      .values({ ...settingsData, ownerId: userId, organizationId: membership?.organizationId ?? null })
+      .returning();
+    return settings;
+  }
+
+  async setInvoiceLogo(settingsId: string, logoObjectPath: string | null): Promise<InvoiceSettings> {
+    const [settings] = await db
+      .update(invoiceSettings)
+      .set({ logoObjectPath, updatedAt: new Date() })
+      .where(eq(invoiceSettings.id, settingsId))
+      .returning();
+    return settings;
+  }
+
+  async getInvoices(caseId: string): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.caseId, caseId))
+      .orderBy(desc(invoices.issuedAt), asc(invoices.invoiceNumber));
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  // Invoices on every case the user can see. Overdue and unpaid are distinct, as displayed.
+  async getInvoicesForUser(userId: string, statuses?: InvoiceDisplayStatus[]): Promise<InvoiceWithCase[]> {
+    const now = new Date();
+    const statusConditions: Record<InvoiceDisplayStatus, SQL | undefined> = {
+      unpaid: and(eq(invoices.status, "unpaid"), gte(invoices.dueAt, now)),
+      overdue: and(eq(invoices.status, "unpaid"), lt(invoices.dueAt, now)),
+      paid: eq(invoices.status, "paid"),
+      void: eq(invoices.status, "void"),
+    };
+    const rows = await db
+      .select({ invoice: invoices, caseNumber: cases.caseNumber })
+      .from(invoices)
+      .innerJoin(cases, eq(invoices.caseId, cases.id))
+      .where(and(
+        isNull(cases.deletedAt),
+        await this.accessibleCasesCondition(userId),
+        statuses?.length ? or(...statuses.map(status => statusConditions[status])) : undefined,
+      ))
+      .orderBy(desc(invoices.issuedAt), asc(invoices.invoiceNumber));
+    return rows.map(row => ({ ...row.invoice, caseNumber: row.caseNumber }));
+  }
+
+  // Stamps the billed items with the run and takes the next numbers from the practice sequence in one
+  // transaction. Returns null when some of the items were billed by someone else in the meantime.
+  async createInvoices(run: NewInvoiceRun): Promise<Invoice[] | null> {
+    const ipAddress = auditContext.getStore()?.ipAddress ?? null;
+    const runId = randomUUID();
+    const now = new Date();
+    try {
+      return await db.transaction(async (tx) => {
+        const billedEntries = run.timeEntryIds.length === 0 ? [] : await tx
+          .update(timeEntries)
+          .set({ invoiceRunId: runId, updatedAt: now })
+          .where(and(inArray(timeEntries.id, run.timeEntryIds), isNull(timeEntries.invoiceRunId)))
+          .returning({ id: timeEntries.id });
+        const billedExpenses = run.expenseIds.length === 0 ? [] : await tx
+          .update(caseExpenses)
+          .set({ invoiceRunId: runId, updatedAt: now })
+          .where(and(inArray(caseExpenses.id, run.expenseIds), isNull(caseExpenses.invoiceRunId)))
+          .returning({ id: caseExpenses.id });
+        if (billedEntries.length !== run.timeEntryIds.length || billedExpenses.length !== run.expenseIds.length) {
+          tx.rollback();
+        }
+
+        // The row lock taken by this update also serialises concurrent runs on the same sequence
+        const [sequence] = await tx
+          .update(invoiceSettings)
+          .set({ nextNumber: sql`${invoiceSettings.nextNumber} + ${run.invoices.length}`, updatedAt: now })
+          .where(eq(invoiceSettings.id, run.settingsId))
+          .returning();
+        const firstNumber = sequence.nextNumber - run.invoices.length;
+
+        const created = await tx
+          .insert(invoices)
+          .values(run.invoices.map((invoice, index) => ({
+            ...invoice,
+            caseId: run.caseId,
+            settingsId: run.settingsId,
+            runId,
+            invoiceNumber: formatInvoiceNumber(sequence.numberPrefix, firstNumber + index),
+            createdBy: run.createdBy,
+          })))
+          .returning();
+        await tx.update(cases).set({ feeSplit: run.feeSplit, updatedAt: now }).where(eq(cases.id, run.caseId));
+        await tx.insert(auditEvents).values(created.map(invoice => ({
+          caseId: run.caseId,
+          actorId: run.createdBy,
+          ipAddress,
+          action: "invoice.issued",
+          entityType: "invoice",
+          entityId: invoice.id,
+          metadata: {
+            invoiceNumber: invoice.invoiceNumber,
+            partyName: invoice.partyName,
+            sharePercent: invoice.sharePercent,
+            total: invoice.total,
+            currency: invoice.currency,
+            timeEntries: run.timeEntryIds.length,
+            expenses: run.expenseIds.length,
+          },
+        })));
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return null;
+      throw error;
+    }
+  }
+
+  async updateInvoiceStatus(id: string, status: "unpaid" | "paid", paidAt: Date | null): Promise<Invoice> {
+    const before = await this.getInvoice(id);
+    const [invoice] = await db
+      .update(invoices)
+      .set({ status, paidAt, updatedAt: new Date() })
+      .where(eq(invoices.id, id))
+      .returning();
+    await this.recordAuditEvent({
+      caseId: invoice.caseId,
+      action: status === "paid" ? "invoice.paid" : "invoice.marked_unpaid",
+      entityType: "invoice",
+      entityId: id,
+      changes: diffRecords(before, { status, paidAt }),
+      metadata: { invoiceNumber: invoice.invoiceNumber },
+    });
+    return invoice;
+  }
+
+  async markInvoiceSent(id: string, sentTo: string): Promise<Invoice> {
+    const [invoice] = await db
+      .update(invoices)
+      .set({ sentAt: new Date(), sentTo, updatedAt: new Date() })
+      .where(eq(invoices.id, id))
+      .returning();
+    await this.recordAuditEvent({
+      caseId: invoice.caseId,
+      action: "invoice.sent",
+      entityType: "invoice",
+      entityId: id,
+      metadata: { invoiceNumber: invoice.invoiceNumber, to: sentTo },
+    });
+    return invoice;
+  }
+
+  // Once every invoice in a run is void its time entries and expenses become unbilled again
+  async voidInvoice(id: string): Promise<{ invoice: Invoice; released: boolean }> {
+    const result = await db.transaction(async (tx) => {
+      const [invoice] = await tx
+        .update(invoices)
+        .set({ status: "void", updatedAt: new Date() })
+        .where(eq(invoices.id, id))
+        .returning();
+      const [remaining] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(invoices)
+        .where(and(eq(invoices.runId, invoice.runId), ne(invoices.status, "void")));
+      const released = remaining.count === 0;
+      if (released) {
+        await tx.update(timeEntries).set({ invoiceRunId: null }).where(eq(timeEntries.invoiceRunId, invoice.runId));
+        await tx.update(caseExpenses).set({ invoiceRunId: null }).where(eq(caseExpenses.invoiceRunId, invoice.runId));
+      }
+      return { invoice, released };
+    });
+    await this.recordAuditEvent({
+      caseId: result.invoice.caseId,
+      action: "invoice.voided",
+      entityType: "invoice",
+      entityId: id,
+      metadata: { invoiceNumber: result.invoice.invoiceNumber, itemsReleased: result.released },
+    });
+    return result;
+  }
+
+  // Task operations
+  async getCaseTasks(caseId: string): Promise<CaseTaskWithAssignee[]> {
+    const rows = await db
+      .select({
+        task: caseTasks,
+        assignee: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(caseTasks)
+      .leftJoin(users, eq(caseTasks.assigneeId, users.id))
+      .where(eq(caseTasks.caseId, caseId))
+      .orderBy(asc(caseTasks.sortOrder), asc(caseTasks.createdAt));
+    return rows.map(row => ({ ...row.task, assignee: row.assignee }));
+  }
+
+  async getCaseTask(id: string): Promise<CaseTask | undefined> {
+    const [task] = await db.select().from(caseTasks).where(eq(caseTasks.id, id));
+    return task;
+  }
+
+  async createCaseTask(caseId: string, createdBy: string, taskData: InsertCaseTask): Promise<CaseTask> {
+    const caseData = await this.getCase(caseId);
+    const [{ next }] = await db
+      .select({ next: sql<number>`coalesce(max(${caseTasks.sortOrder}) + 1, 0)::int` })
+      .from(caseTasks)
+      .where(eq(caseTasks.caseId, caseId));
+    const [task] = await db
+      .insert(caseTasks)
+      .values({
+        caseId,
+        createdBy,
+        title: taskData.title,
+        description: taskData.description ?? null,
+        assigneeId: taskData.assigneeId ?? null,
+        ...resolveTaskDue(caseData?.mediationDate ?? null, taskData),
+        sortOrder: next,
+      })
+      .returning();
+    await this.recordAuditEvent({
+      caseId,
+      action: "task.created",
+      entityType: "task",
+      entityId: task.id,
+      changes: snapshotRecord(task, "created"),
+    });
+    return task;
+  }
+
+  // Adds the case type's checklist, skipping tasks the case already has (matched on title)
+  async addChecklistTasks(caseId: string, createdBy: string, templates: CaseTypeTaskTemplate[], assigneeId: string | null): Promise<CaseTask[]> {
+    const caseData = await this.getCase(caseId);
+    const existing = await db
+      .select({ title: caseTasks.title, sortOrder: caseTasks.sortOrder })
+      .from(caseTasks)
+      .where(eq(caseTasks.caseId, caseId));
+    const existingTitles = new Set(existing.map(task => task.title.trim().toLowerCase()));
+    const missing = templates.filter(template => !existingTitles.has(template.title.trim().toLowerCase()));
+    if (missing.length === 0) return [];
+
+    const firstSortOrder = existing.reduce((max, task) => Math.max(max, task.sortOrder + 1), 0);
+    const created = await db
+      .insert(caseTasks)
+      .values(missing.map((template, index) => ({
+        caseId,
+        createdBy,
+        assigneeId,
+        title: template.title,
+        description: template.description ?? null,
+        ...resolveTaskDue(caseData?.mediationDate ?? null, { dueOffsetDays: template.offsetDays }),
+        sortOrder: firstSortOrder + index,
+      })))
+      .returning();
+    await this.recordAuditEvent({
+      caseId,
+      action: "task.checklist_added",
+      entityType: "task",
+      metadata: { titles: created.map(task => task.title) },
+    });
+    return created;
+  }
+
+  async updateCaseTask(id: string, taskData: UpdateCaseTask, actorId: string): Promise<CaseTask> {
+    const before = await this.getCaseTask(id);
+    const { completed, dueAt, dueOffsetDays, ...fields } = taskData;
+    const updates: Partial<typeof caseTasks.$inferInsert> = { ...fields };
+    if (dueAt !== undefined || dueOffsetDays !== undefined) {
+      const caseData = before ? await this.getCase(before.caseId) : undefined;
+      Object.assign(updates, resolveTaskDue(caseData?.mediationDate ?? null, { dueAt, dueOffsetDays }));
+    }
+    if (completed !== undefined && completed !== !!before?.completedAt) {
+      updates.completedAt = completed ? new Date() : null;
+      updates.completedBy = completed ? actorId : null;
+    }
+    const [task] = await db
+      .update(caseTasks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(caseTasks.id, id))
+      .returning();
+    const changes = diffRecords(before, updates);
+    if (changes) {
+      const completionChanged = "completedAt" in updates;
+      await this.recordAuditEvent({
+        caseId: task.caseId,
+        action: completionChanged ? (task.completedAt ? "task.completed" : "task.reopened") : "task.updated",
+        entityType: "task",
+        entityId: id,
+        changes,
+        metadata: completionChanged ? { title: task.title } : undefined,
+      });
+    }
+    return task;
+  }
+
+  async deleteCaseTask(id: string): Promise<void> {
+    const [task] = await db.delete(caseTasks).where(eq(caseTasks.id, id)).returning();
+    if (task) {
+      await this.recordAuditEvent({
+        caseId: task.caseId,
+        action: "task.deleted",
+        entityType: "task",
+        entityId: id,
+        changes: snapshotRecord(task, "deleted"),
+      });
+    }
+  }
+
+  // Open tasks assigned to the user on open cases they can still see, due before the given date.
+  // Overdue tasks are included however late they are; undated tasks are left to the case page.
+  async getTasksForUser(userId: string, dueBefore: Date): Promise<MyTask[]> {
+    const rows = await db
+      .select({ task: caseTasks, caseNumber: cases.caseNumber, mediationDate: cases.mediationDate })
+      .from(caseTasks)
+      .innerJoin(cases, eq(caseTasks.caseId, cases.id))
+      .where(and(
+        eq(caseTasks.assigneeId, userId),
+        isNull(caseTasks.completedAt),
+        isNotNull(caseTasks.dueAt),
+        lt(caseTasks.dueAt, dueBefore),
+        isNull(cases.deletedAt),
+        inArray(cases.status, openCaseStatuses),
+        await this.accessibleCasesCondition(userId),
+      ))
+      .orderBy(asc(caseTasks.dueAt), asc(cases.caseNumber));
+    return rows.map(row => ({ ...row.task, caseNumber: row.caseNumber, mediationDate: row.mediationDate }));
+  }
+
+  // Mediation session operations
+  async getMediationSessions(caseId: string): Promise<MediationSession[]> {
+    return await db
+      .select()
+      .from(mediationSessions)
+      .where(eq(mediationSessions.caseId, caseId))
+      .orderBy(asc(mediationSessions.startsAt));
+  }
+
+  async getMediationSession(id: string): Promise<MediationSession | undefined> {
+    const [session] = await db.select().from(mediationSessions).where(eq(mediationSessions.id, id));
+    return session;
+  }
+
+  async createMediationSession(caseId: string, sessionData: InsertMediationSession, actorId: string): Promise<MediationSession> {
+    const [session] = await db
+      .insert(mediationSessions)
+      .values({ ...sessionData, caseId, createdBy: actorId })
+      .returning();
+    await this.recordAuditEvent({
+      caseId,
+      actorId,
+      action: "session.created",
+      entityType: "session",
+      entityId: session.id,
+      changes: snapshotRecord(session, "created"),
+    });
+    await this.refreshCaseSchedule(caseId);
+    return session;
+  }
+
+  // Also used for the session's Zoom meeting and calendar event, which are set by the integrations
+  async updateMediationSession(id: string, sessionData: Partial<NewMediationSession>, actorId?: string): Promise<MediationSession> {
+    const before = await this.getMediationSession(id);
+    const [session] = await db
+      .update(mediationSessions)
+      .set({ ...sessionData, updatedAt: new Date() })
+      .where(eq(mediationSessions.id, id))
+      .returning();
+    const changes = diffRecords(before, sessionData);
+    if (changes) {
+      await this.recordAuditEvent({
+        caseId: session.caseId,
+        actorId,
+        action: "session.updated",
+        entityType: "session",
+        entityId: id,
+        changes,
+      });
+    }
+    if (sessionData.startsAt !== undefined || sessionData.durationMinutes !== undefined) {
+      await this.refreshCaseSchedule(session.caseId);
+    }
+    return session;
+  }
+
+  async deleteMediationSession(id: string, actorId: string): Promise<void> {
+    const [session] = await db.delete(mediationSessions).where(eq(mediationSessions.id, id)).returning();
+    if (!session) return;
+    await db.delete(sessionAttendees).where(eq(sessionAttendees.sessionId, id));
+    await db.delete(sessionSegments).where(eq(sessionSegments.sessionId, id));
+    await db.delete(caucusNotes).where(eq(caucusNotes.sessionId, id));
+    await this.recordAuditEvent({
+      caseId: session.caseId,
+      actorId,
+      action: "session.deleted",
+      entityType: "session",
+      entityId: id,
+      changes: snapshotRecord(session, "deleted"),
+    });
+    await this.refreshCaseSchedule(session.caseId);
+  }
+
+  // Points cases.mediationDate at the case's next session (see nextMediationSession)
+  async refreshCaseSchedule(caseId: string): Promise<Case | undefined> {
+    const caseData = await this.getCase(caseId, { includeDeleted: true });
+    if (!caseData) return undefined;
+    const mediationDate = nextMediationSession(await this.getMediationSessions(caseId))?.startsAt ?? null;
+    if (mediationDate?.getTime() === caseData.mediationDate?.getTime()) {
+      return caseData;
+    }
+    return await this.updateCase(caseId, { mediationDate });
+  }
+
+  // Moves cases on to their next session once the one they point at has finished
+  async rollForwardCaseSchedules(): Promise<number> {
+    const rows = await db
+      .selectDistinct({ caseId: cases.id })
+      .from(cases)
+      .innerJoin(mediationSessions, eq(mediationSessions.caseId, cases.id))
+      .where(and(
+        isNull(cases.deletedAt),
+        lt(cases.mediationDate, new Date()),
+        sql`${mediationSessions.startsAt} > ${cases.mediationDate}`,
+      ));
+    let moved = 0;
+    for (const { caseId } of rows) {
+      const before = await this.getCase(caseId);
+      const after = await this.refreshCaseSchedule(caseId);
+      if (after?.mediationDate?.getTime() !== before?.mediationDate?.getTime()) moved++;
+    }
+    return moved;
+  }
+
+  // Sessions on cases the user can see, for the calendar
+  async getSessionsForUser(userId: string, from: Date, to: Date): Promise<MediationSessionWithCase[]> {
+    const rows = await db
+      .select({ session: mediationSessions, caseNumber: cases.caseNumber, mediatorId: cases.mediatorId })
+      .from(mediationSessions)
+      .innerJoin(cases, eq(mediationSessions.caseId, cases.id))
+      .where(and(
+        gte(mediationSessions.startsAt, from),
+        lt(mediationSessions.startsAt, to),
+        isNull(cases.deletedAt),
+        await this.accessibleCasesCondition(userId),
+      ))
+      .orderBy(asc(mediationSessions.startsAt));
+    return rows.map(row => ({ ...row.session, caseNumber: row.caseNumber, mediatorId: row.mediatorId }));
+  }
+
+  // Moves each case's single mediation date, Zoom meeting and calendar event onto a session.
+  // Runs at startup; cases that already have sessions are left alone.
+  async migrateLegacySessions(): Promise<number> {
+    const legacyCases = await db
+      .select()
+      .from(cases)
+      .where(and(
+        isNotNull(cases.mediationDate),
+        sql`not exists (select 1 from ${mediationSessions} where ${mediationSessions.caseId} = ${cases.id})`,
+      ));
+    for (const caseData of legacyCases) {
+      await db.transaction(async (tx) => {
+        const [session] = await tx.insert(mediationSessions).values(firstSessionValues({ ...caseData, mediationDate: caseData.mediationDate! }, null)).returning();
+        await tx
+          .update(caseReminders)
+          .set({ sessionId: session.id })
+          .where(and(
+            eq(caseReminders.caseId, caseData.id),
+            eq(caseReminders.mediationDate, session.startsAt),
+            isNull(caseReminders.sessionId),
+          ));
+        await tx
+          .update(cases)
+          .set({ zoomMeetingId: null, zoomMeetingLink: null, zoomMeetingPassword: null, calendarEventId: null })
+          .where(eq(cases.id, caseData.id));
+      });
+    }
+    return legacyCases.length;
+  }
+
+  // Session attendance operations
+  async getSessionAttendees(sessionId: string): Promise<SessionAttendee[]> {
+    return await db
+      .select()
+      .from(sessionAttendees)
+      .where(eq(sessionAttendees.sessionId, sessionId))
+      .orderBy(asc(sessionAttendees.createdAt));
+  }
+
+  async getSessionAttendee(id: string): Promise<SessionAttendee | undefined> {
+    const [attendee] = await db.select().from(sessionAttendees).where(eq(sessionAttendees.id, id));
+    return attendee;
+  }
+
+  async getCaseAttendance(caseId: string): Promise<SessionAttendee[]> {
+    return await db
+      .select()
+      .from(sessionAttendees)
+      .where(eq(sessionAttendees.caseId, caseId))
+      .orderBy(asc(sessionAttendees.createdAt));
+  }
+
+  async createSessionAttendee(session: MediationSession, attendeeData: InsertSessionAttendee, actorId: string, source: AttendanceSource = "manual"): Promise<SessionAttendee> {
+    const [attendee] = await db
+      .insert(sessionAttendees)
+      .values({
+        ...attendeeData,
+        email: attendeeData.email || null,
+        sessionId: session.id,
+        caseId: session.caseId,
+        source,
+        recordedBy: actorId,
+      })
+      .returning();
+    await this.recordAuditEvent({
+      caseId: session.caseId,
+      actorId,
+      action: "attendance.added",
+      entityType: "attendance",
+      entityId: attendee.id,
+      changes: snapshotRecord(attendee, "created"),
+      metadata: { sessionId: session.id },
+    });
+    return attendee;
+  }
+
+  async updateSessionAttendee(id: string, attendeeData: Partial<NewSessionAttendee>, actorId: string): Promise<SessionAttendee> {
+    const before = await this.getSessionAttendee(id);
+    const values = attendeeData.email === undefined ? attendeeData : { ...attendeeData, email: attendeeData.email || null };
+    const [attendee] = await db
+      .update(sessionAttendees)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(sessionAttendees.id, id))
+      .returning();
+    const changes = diffRecords(before, values);
+    if (changes) {
+      await this.recordAuditEvent({
+        caseId: attendee.caseId,
+        actorId,
+        action: "attendance.updated",
+        entityType: "attendance",
+        entityId: id,
+        changes,
+        metadata: { sessionId: attendee.sessionId },
+      });
+    }
+    return attendee;
+  }
+
+  async deleteSessionAttendee(id: string, actorId: string): Promise<void> {
+    const [attendee] = await db.delete(sessionAttendees).where(eq(sessionAttendees.id, id)).returning();
+    if (!attendee) return;
+    await this.recordAuditEvent({
+      caseId: attendee.caseId,
+      actorId,
+      action: "attendance.removed",
+      entityType: "attendance",
+      entityId: id,
+      changes: snapshotRecord(attendee, "deleted"),
+      metadata: { sessionId: attendee.sessionId },
+    });
+  }
+
+  // Session log operations
+  async getSessionLog(session: MediationSession): Promise<SessionLog> {
+    const [segments, notes] = await Promise.all([
+      db
+        .select()
+        .from(sessionSegments)
+        .where(eq(sessionSegments.sessionId, session.id))
+        .orderBy(asc(sessionSegments.startedAt)),
+      db
+        .select()
+        .from(caucusNotes)
+        .where(eq(caucusNotes.sessionId, session.id))
+        .orderBy(asc(caucusNotes.createdAt)),
+    ]);
+    return { session, segments, notes };
+  }
+
+  async getRunningSegment(sessionId: string): Promise<SessionSegment | undefined> {
+    const [segment] = await db
+      .select()
+      .from(sessionSegments)
+      .where(and(eq(sessionSegments.sessionId, sessionId), isNull(sessionSegments.endedAt)));
+    return segment;
+  }
+
+  // Ends whatever is running so segments never overlap
+  async startSessionSegment(session: MediationSession, segmentData: StartSessionSegment, actorId: string): Promise<SessionSegment> {
+    const now = new Date();
+    const segment = await db.transaction(async (tx) => {
+      await tx
+        .update(sessionSegments)
+        .set({ endedAt: now })
+        .where(and(eq(sessionSegments.sessionId, session.id), isNull(sessionSegments.endedAt)));
+      const [created] = await tx
+        .insert(sessionSegments)
+        .values({
+          sessionId: session.id,
+          caseId: session.caseId,
+          kind: segmentData.kind,
+          partyId: segmentData.partyId ?? null,
+          startedAt: now,
+          startedBy: actorId,
+        })
+        .returning();
+      return created;
+    });
+    await this.recordAuditEvent({
+      caseId: session.caseId,
+      actorId,
+      action: "segment.started",
+      entityType: "segment",
+      entityId: segment.id,
+      metadata: { sessionId: session.id, kind: segment.kind, partyId: segment.partyId },
+    });
+    return segment;
+  }
+
+  async stopSessionSegment(sessionId: string, actorId: string): Promise<SessionSegment | undefined> {
+    const [segment] = await db
+      .update(sessionSegments)
+      .set({ endedAt: new Date() })
+      .where(and(eq(sessionSegments.sessionId, sessionId), isNull(sessionSegments.endedAt)))
+      .returning();
+    if (segment) {
+      await this.recordAuditEvent({
+        caseId: segment.caseId,
+        actorId,
+        action: "segment.ended",
+        entityType: "segment",
+        entityId: segment.id,
+        metadata: { sessionId, kind: segment.kind, partyId: segment.partyId },
+      });
+    }
+    return segment;
+  }
+
+  async getCaucusNote(id: string): Promise<CaucusNote | undefined> {
+    const [note] = await db.select().from(caucusNotes).where(eq(caucusNotes.id, id));
+    return note;
+  }
+
+  async createCaucusNote(
+    session: MediationSession,
+    noteData: { content: string; partyId: string | null; segmentId: string | null },
+    actorId: string,
+  ): Promise<CaucusNote> {
+    const [note] = await db
+      .insert(caucusNotes)
+      .values({ ...noteData, sessionId: session.id, caseId: session.caseId, authorId: actorId })
+      .returning();
+    // As with case notes, only the fact a note was taken is audited, never its content
+    await this.recordAuditEvent({
+      caseId: session.caseId,
+      actorId,
+      action: "caucus_note.created",
+      entityType: "caucus_note",
+      entityId: note.id,
+      metadata: { sessionId: session.id },
+    });
+    return note;
+  }
+
+  async deleteCaucusNote(id: string, actorId: string): Promise<void> {
+    const [note] = await db.delete(caucusNotes).where(eq(caucusNotes.id, id)).returning();
+    if (!note) return;
+    await this.recordAuditEvent({
+      caseId: note.caseId,
+      actorId,
+      action: "caucus_note.deleted",
+      entityType: "caucus_note",
+      entityId: id,
+      metadata: { sessionId: note.sessionId },
+    });
+  }
+
+  // Job queue operations
+  async createJob(jobData: NewJob): Promise<Job> {
+    const [job] = await db.insert(jobs).values(jobData).returning();
+    return job;
+  }
+
+  // Queues the job unless one of its type is already queued. The partial unique index makes the check
+  // safe between server processes. Returns undefined when one was already queued.
+  async createSingletonJob(type: string, runAt: Date): Promise<Job | undefined> {
+    const [job] = await db
+      .insert(jobs)
+      .values({ type, runAt, singleton: true })
+      .onConflictDoNothing({ target: jobs.type, where: sql`${jobs.singleton} and ${jobs.status} = 'queued'` })
+      .returning();
+    return job;
+  }
+
+  // Heartbeat of a running attempt, so it is not taken for abandoned
+  async touchJob(id: string): Promise<void> {
+    await db.update(jobs).set({ lockedAt: new Date() }).where(and(eq(jobs.id, id), eq(jobs.status, "running")));
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  // Takes due jobs for this worker. SKIP LOCKED lets several server processes share the queue
+  // without running the same job twice.
+  async claimDueJobs(limit: number): Promise<Job[]> {
+    const now = new Date();
+    const due = db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, now)))
+      .orderBy(asc(jobs.runAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    return await db
+      .update(jobs)
+      .set({ status: "running", attempts: sql`${jobs.attempts} + 1`, lockedAt: now, updatedAt: now })
+      .where(inArray(jobs.id, due))
+      .returning();
+  }
+
+  async completeJob(id: string): Promise<void> {
+    const now = new Date();
+    await db
+      .update(jobs)
+      .set({ status: "completed", lockedAt: null, completedAt: now, updatedAt: now })
+      .where(eq(jobs.id, id));
+  }
+
+  // Records a failed attempt: queued again at retryAt, or failed for good when retryAt is null. A
+  // singleton job is not retried when another of its type has been queued meanwhile.
+  async failJobAttempt(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(jobs)
+      .set({
+        status: retryAt ? sql`case when ${queuedSingletonSibling} then 'failed' else 'queued' end` : "failed",
+        runAt: retryAt ?? sql`${jobs.runAt}`,
+        lastError: error,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, id));
+  }
+
+  // Only queued jobs can be cancelled or moved; returns whether the job was still queued
+  async cancelJob(id: string): Promise<boolean> {
+    const cancelled = await db
+      .update(jobs)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "queued")))
+      .returning({ id: jobs.id });
+    return cancelled.length > 0;
+  }
+
+  async rescheduleJob(id: string, runAt: Date): Promise<boolean> {
+    const moved = await db
+      .update(jobs)
+      .set({ runAt, updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "queued")))
+      .returning({ id: jobs.id });
+    return moved.length > 0;
+  }
+
+  // Jobs whose worker stopped sending heartbeats mid-attempt go back on the queue, unless they are
+  // singletons with another of their type queued meanwhile
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const requeued = await db
+      .update(jobs)
+      .set({ status: sql`case when ${queuedSingletonSibling} then 'cancelled' else 'queued' end`, lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  async hasPendingJob(type: string): Promise<boolean> {
+    const [job] = await db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.type, type), inArray(jobs.status, ["queued", "running"])))
+      .limit(1);
+    return !!job;
+  }
+
+  async deleteFinishedJobs(finishedBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(jobs)
+      .where(and(inArray(jobs.status, ["completed", "cancelled"]), lt(jobs.updatedAt, finishedBefore)))
+      .returning({ id: jobs.id });
+    return deleted.length;
+  }
+
+  // Reminder operations
+  async getReminderRules(userId: string): Promise<ReminderRule[]> {
+    return await db
+      .select()
+      .from(reminderRules)
+      .where(await this.practiceScope(userId, reminderRules))
+      .orderBy(desc(reminderRules.daysBefore), asc(reminderRules.createdAt));
+  }
+
+  async getReminderRuleForUser(id: string, userId: string): Promise<ReminderRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(reminderRules)
+      .where(and(eq(reminderRules.id, id), await this.practiceScope(userId, reminderRules)));
+    return rule;
+  }
+
+  async createReminderRule(userId: string, ruleData: InsertReminderRule): Promise<ReminderRule> {
+    const membership = await this.getOrganizationMembership(userId);
+    const [rule] = await db
+      .insert(reminderRules)
+      .values({ ...ruleData, ownerId: userId, organizationId: membership?.organizationId ?? null })
+      .returning();
+    return rule;
+  }
+
+  async updateReminderRule(id: string, ruleData: Partial<InsertReminderRule>): Promise<ReminderRule> {
+    const [rule] = await db
+      .update(reminderRules)
+      .set({ ...ruleData, updatedAt: new Date() })
+      .where(eq(reminderRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteReminderRule(id: string): Promise<void> {
+    await db.delete(reminderRules).where(eq(reminderRules.id, id));
+  }
+
+  // Settlement template operations
+  async getSettlementTemplates(userId: string): Promise<SettlementTemplate[]> {
+    return await db
+      .select()
+      .from(settlementTemplates)
+      .where(await this.practiceScope(userId, settlementTemplates))
+      .orderBy(asc(settlementTemplates.name));
+  }
+
+  async getSettlementTemplateForUser(id: string, userId: string): Promise<SettlementTemplate | undefined> {
+    const [template] = await db
+      .select()
+      .from(settlementTemplates)
+      .where(and(eq(settlementTemplates.id, id), await this.practiceScope(userId, settlementTemplates)));
+    return template;
+  }
+
+  async createSettlementTemplate(userId: string, templateData: InsertSettlementTemplate): Promise<SettlementTemplate> {
+    const membership = await this.getOrganizationMembership(userId);
+    const [template] = await db
+      .insert(settlementTemplates)
+      .values({ ...templateData, ownerId: userId, organizationId: membership?.organizationId ?? null })
+      .returning();
+    return template;
+  }
+
+  async updateSettlementTemplate(id: string, templateData: Partial<InsertSettlementTemplate>): Promise<SettlementTemplate> {
+    const [template] = await db
+      .update(settlementTemplates)
+      .set({ ...templateData, updatedAt: new Date() })
+      .where(eq(settlementTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteSettlementTemplate(id: string): Promise<void> {
+    await db.delete(settlementTemplates).where(eq(settlementTemplates.id, id));
+  }
+
+  async getCaseReminders(caseId: string): Promise<CaseReminder[]> {
+    return await db
+      .select()
+      .from(caseReminders)
+      .where(eq(caseReminders.caseId, caseId))
+      .orderBy(desc(caseReminders.mediationDate), asc(caseReminders.sendAt));
+  }
+
+  async getCaseReminder(id: string): Promise<CaseReminder | undefined> {
+    const [reminder] = await db.select().from(caseReminders).where(eq(caseReminders.id, id));
+    return reminder;
+  }
+
+  async createCaseReminder(reminderData: NewCaseReminder): Promise<CaseReminder> {
+    const [reminder] = await db.insert(caseReminders).values(reminderData).returning();
+    return reminder;
+  }
+
+  async updateCaseReminder(id: string, reminderData: Partial<NewCaseReminder>): Promise<CaseReminder> {
+    const [reminder] = await db
+      .update(caseReminders)
+      .set({ ...reminderData, updatedAt: new Date() })
+      .where(eq(caseReminders.id, id))
+      .returning();
+    return reminder;
+  }
+
+  // Open cases with a session still ahead, for the reminder planner
+  async getCasesWithUpcomingSessions(): Promise<Case[]> {
+    const upcoming = db
+      .select({ caseId: mediationSessions.caseId })
+      .from(mediationSessions)
+      .where(gte(mediationSessions.startsAt, new Date()));
+    return await db
+      .select()
+      .from(cases)
+      .where(and(
+        isNull(cases.deletedAt),
+        inArray(cases.status, openCaseStatuses),
+        inArray(cases.id, upcoming),
+      ));
+  }
+
+  // Case type operations
+  // Practice-wide records (case types, retention rules) are scoped like the contact directory
+  private async practiceScope(userId: string, table: { organizationId: AnyPgColumn; ownerId: AnyPgColumn }) {
+    const membership = await this.getOrganizationMembership(userId);
+    return membership
+      ? eq(table.organizationId, membership.organizationId)
+      : and(isNull(table.organizationId), eq(table.ownerId, userId));
+  }
+
+  async getCaseTypes(userId: string): Promise<CaseType[]> {
+    return await db
+      .select()
+      .from(caseTypes)
+      .where(await this.practiceScope(userId, caseTypes))
+      .orderBy(asc(caseTypes.name));
+  }
+
+  async getCaseType(id: string): Promise<CaseType | undefined> {
+    const [caseType] = await db.select().from(caseTypes).where(eq(caseTypes.id, id));
+    return caseType;
+  }
+
+  async getCaseTypeForUser(id: string, userId: string): Promise<CaseType | undefined> {
+    const [caseType] = await db
+      .select()
+      .from(caseTypes)
+      .where(and(eq(caseTypes.id, id), await this.practiceScope(userId, caseTypes)));
+    return caseType;
+  }
+
+  async createCaseType(userId: string, caseTypeData: InsertCaseType): Promise<CaseType> {
+    const membership = await this.getOrganizationMembership(userId);
+    const [caseType] = await db
+      .insert(caseTypes)
+      .values({ ...caseTypeData, ownerId: userId, organizationId: membership?.organizationId ?? null })
+      .returning();
+    return caseType;
+  }
+
+  async updateCaseType(id: string, caseTypeData: Partial<InsertCaseType>): Promise<CaseType> {
+    const [caseType] = await db
+      .update(caseTypes)
+      .set({ ...caseTypeData, updatedAt: new Date() })
+      .where(eq(caseTypes.id, id))
+      .returning();
+    return caseType;
+  }
+
+  // Unlinks the type from its cases; the field values already entered are kept on the case
+  async deleteCaseType(id: string): Promise<void> {
+    await db.update(cases).set({ caseTypeId: null }).where(eq(cases.caseTypeId, id));
+    await db.delete(caseTypes).where(eq(caseTypes.id, id));
+  }
+
+  // Records retention operations
+  async getRetentionRules(userId: string): Promise<RetentionRule[]> {
+    return await db
+      .select()
+      .from(retentionRules)
+      .where(await this.practiceScope(userId, retentionRules))
+      .orderBy(asc(retentionRules.createdAt));
+  }
+
+  async getAllRetentionRules(): Promise<RetentionRule[]> {
+    return await db.select().from(retentionRules);
+  }
+
+  async getRetentionRule(id: string): Promise<RetentionRule | undefined> {
+    const [rule] = await db.select().from(retentionRules).where(eq(retentionRules.id, id));
+    return rule;
+  }
+
+  async getRetentionRuleForUser(id: string, userId: string): Promise<RetentionRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(retentionRules)
+      .where(and(eq(retentionRules.id, id), await this.practiceScope(userId, retentionRules)));
+    return rule;
+  }
+
+  async createRetentionRule(userId: string, ruleData: InsertRetentionRule): Promise<RetentionRule> {
+    const membership = await this.getOrganizationMembership(userId);
+    const [rule] = await db
+      .insert(retentionRules)
+      .values({ ...ruleData, ownerId: userId, organizationId: membership?.organizationId ?? null })
+      .returning();
+    return rule;
+  }
+
+  async updateRetentionRule(id: string, ruleData: Partial<InsertRetentionRule>): Promise<RetentionRule> {
+    const [rule] = await db
+      .update(retentionRules)
+      .set({ ...ruleData, updatedAt: new Date() })
+      .where(eq(retentionRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteRetentionRule(id: string): Promise<void> {
+    await db.delete(retentionRules).where(eq(retentionRules.id, id));
+  }
+
+  // Closed cases that are not in the trash. Cases closed before closedAt was recorded fall back to
+  // the status history, then to their last update. The outcome is the status the case closed from.
+  async getRetentionCandidates(caseId?: string): Promise<RetentionCandidate[]> {
+    const closingTransition = sql`from ${caseStatusHistory} where ${caseStatusHistory.caseId} = ${cases.id} and ${caseStatusHistory.toStatus} = 'closed' order by ${caseStatusHistory.createdAt} desc limit 1`;
+    const rows = await db
+      .select({
+        caseData: cases,
+        organizationId: organizationMembers.organizationId,
+        closedAt: sql<Date>`coalesce(${cases.closedAt}, (select ${caseStatusHistory.createdAt} ${closingTransition}), ${cases.updatedAt})`.mapWith(cases.closedAt),
+        outcomeStatus: sql<string | null>`(select ${caseStatusHistory.fromStatus} ${closingTransition})`,
+      })
+      .from(cases)
+      .leftJoin(organizationMembers, eq(organizationMembers.userId, cases.mediatorId))
+      .where(and(
+        eq(cases.status, "closed"),
+        isNull(cases.deletedAt),
+        caseId ? eq(cases.id, caseId) : undefined,
+      ));
+    return rows;
+  }
+
+  // Reviews still waiting on a decision, oldest due first
+  async getRetentionReviews(userId: string): Promise<RetentionReviewWithCase[]> {
+    const rows = await db
+      .select({
+        review: retentionReviews,
+        caseNumber: cases.caseNumber,
+        mediationType: cases.mediationType,
+        closedAt: cases.closedAt,
+        retentionYears: retentionRules.retentionYears,
+      })
+      .from(retentionReviews)
+      .innerJoin(cases, eq(retentionReviews.caseId, cases.id))
+      .leftJoin(retentionRules, eq(retentionReviews.ruleId, retentionRules.id))
+      .where(and(
+        ne(retentionReviews.status, "purged"),
+        isNull(cases.deletedAt),
+        await this.practiceScope(userId, retentionReviews),
+      ))
+      .orderBy(asc(retentionReviews.dueAt));
+    return rows.map(({ review, ...caseInfo }) => ({ ...review, ...caseInfo }));
+  }
+
+  async getOpenRetentionReviews(): Promise<RetentionReview[]> {
+    return await db.select().from(retentionReviews).where(ne(retentionReviews.status, "purged"));
+  }
+
+  async getRetentionReviewForUser(id: string, userId: string): Promise<RetentionReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(retentionReviews)
+      .where(and(eq(retentionReviews.id, id), await this.practiceScope(userId, retentionReviews)));
+    return review;
+  }
+
+  async createRetentionReview(reviewData: typeof retentionReviews.$inferInsert): Promise<RetentionReview> {
+    const [review] = await db.insert(retentionReviews).values(reviewData).returning();
+    return review;
+  }
+
+  async updateRetentionReview(id: string, reviewData: Partial<typeof retentionReviews.$inferInsert>): Promise<RetentionReview> {
+    const [review] = await db
+      .update(retentionReviews)
+      .set(reviewData)
+      .where(eq(retentionReviews.id, id))
+      .returning();
+    return review;
+  }
+
+  async createDestructionCertificate(certificateData: typeof destructionCertificates.$inferInsert): Promise<DestructionCertificate> {
+    const [certificate] = await db.insert(destructionCertificates).values(certificateData).returning();
+    return certificate;
+  }
+
+  async getDestructionCertificates(userId: string): Promise<DestructionCertificate[]> {
+    return await db
+      .select()
+      .from(destructionCertificates)
+      .where(await this.practiceScope(userId, destructionCertificates))
+      .orderBy(desc(destructionCertificates.destroyedAt));
+  }
+
+  // Case mediator (co-mediation) operations
+  async getCaseMediators(caseId: string): Promise<CaseMediatorWithUser[]> {
+    const rows = await db
+      .select()
+      .from(caseMediators)
+      .innerJoin(users, eq(caseMediators.userId, users.id))
+      .where(eq(caseMediators.caseId, caseId))
+      .orderBy(caseMediators.createdAt);
+    return rows
+      .map(row => ({ ...row.case_mediators, user: row.users }))
+      .sort((a, b) => (a.role === "lead" ? -1 : b.role === "lead" ? 1 : 0));
+  }
+
+  // Cases created before co-mediation existed have no lead row; older lead changes may have left the row
+  // out of step with cases.mediatorId. Runs at startup.
+  async backfillLeadMediators(): Promise<number> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`
+        update ${caseMediators} set role = 'co'
+        from ${cases}
+        where ${caseMediators.caseId} = ${cases.id} and ${caseMediators.role} = 'lead' and ${caseMediators.userId} <> ${cases.mediatorId}
+      `);
+      const result = await tx.execute(sql`
+        insert into ${caseMediators} (case_id, user_id, role)
+        select ${cases.id}, ${cases.mediatorId}, 'lead' from ${cases}
+        on conflict (case_id, user_id) do update set role = 'lead' where ${caseMediators.role} <> 'lead'
+      `);
+      return result.rowCount ?? 0;
+    });
+  }
+
+  async addCaseMediator(mediatorData: InsertCaseMediator): Promise<CaseMediator> {
+    const [mediator] = await db.insert(caseMediators).values(mediatorData).returning();
+    await this.recordAuditEvent({
+      caseId: mediator.caseId,
+      action: "mediator.added",
+      entityType: "mediator",
+      entityId: mediator.userId,
+      metadata: { role: mediator.role },
+    });
+    return mediator;
+  }
+
+  async removeCaseMediator(caseId: string, userId: string): Promise<void> {
+    await db
+      .delete(caseMediators)
+      .where(and(eq(caseMediators.caseId, caseId), eq(caseMediators.userId, userId)));
+    await this.recordAuditEvent({
+      caseId,
+      action: "mediator.removed",
+      entityType: "mediator",
+      entityId: userId,
+    });
+  }
+
+  // Promotes a mediator to lead; the previous lead stays on the case as a co-mediator
+  async setLeadMediator(caseId: string, userId: string): Promise<Case> {
+    const before = await this.getCase(caseId);
+    const updatedCase = await db.transaction(async (tx) => {
+      await tx
+        .update(caseMediators)
+        .set({ role: "co" })
+        .where(and(eq(caseMediators.caseId, caseId), eq(caseMediators.role, "lead")));
+      await tx
+        .insert(caseMediators)
+        .values({ caseId, userId, role: "lead" })
+        .onConflictDoUpdate({
+          target: [caseMediators.caseId, caseMediators.userId],
+          set: { role: "lead" },
+        });
+      const [updatedCase] = await tx
+        .update(cases)
+        .set({ mediatorId: userId, updatedAt: new Date() })
+        .where(eq(cases.id, caseId))
+        .returning();
+      return updatedCase;
+    });
+    await this.recordAuditEvent({
+      caseId,
+      action: "mediator.lead_changed",
+      entityType: "mediator",
+      entityId: userId,
+      changes: diffRecords(before, { mediatorId: userId }),
+    });
+    return updatedCase;
+  }
+
+  // Audit log operations. There are deliberately no update or delete methods.
+  async recordAuditEvent(event: Omit<InsertAuditEvent, "actorId" | "ipAddress"> & { actorId?: string | null }): Promise<void> {
+    const context = auditContext.getStore();
+    await db.insert(auditEvents).values({
+      ...event,
+      actorId: event.actorId ?? context?.actorId ?? null,
+      ipAddress: context?.ipAddress ?? null,
+    });
+  }
+
+  // drizzle-kit push does not manage triggers, so the one that rejects changes to logged events is
+  // (re)created at startup
+  async protectAuditTrail(): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        create or replace function audit_events_append_only() returns trigger language plpgsql as $$
+        begin
+          raise exception 'audit_events is append-only: % is not allowed', tg_op;
+        end
+        $$
+      `);
+      await tx.execute(sql`drop trigger if exists audit_events_append_only on ${auditEvents}`);
+      await tx.execute(sql`
+        create trigger audit_events_append_only before update or delete or truncate on ${auditEvents}
+        for each statement execute function audit_events_append_only()
+      `);
+    });
+  }
+
+  async getAuditEvents(caseId: string): Promise<AuditEventWithActor[]> {
+    const rows = await db
+      .select({
+        event: auditEvents,
+        actor: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(auditEvents)
+      .leftJoin(users, eq(auditEvents.actorId, users.id))
+      .where(eq(auditEvents.caseId, caseId))
+      .orderBy(desc(auditEvents.createdAt));
+    return rows.map(row => ({ ...row.event, actor: row.actor }));
+  }
+
+  // Party operations
+  async createParty(partyData: InsertParty, legalRepContactId?: string): Promise<Party> {
+    // New parties go to the end of the case's party list unless an order is given
+    const sortOrder = partyData.sortOrder ?? (await this.getPartiesByCase(partyData.caseId)).length;
+    const [party] = await db.insert(parties).values({ ...partyData, sortOrder }).returning();
+    if (party.legalRepName) {
+      await db.insert(partyRepresentatives).values({
+        partyId: party.id,
+        contactId: legalRepContactId || null,
+        kind: "legal_rep",
+        name: party.legalRepName,
+        firm: party.legalRepFirm,
+        email: party.legalRepEmail,
+        phone: party.legalRepPhone,
+      });
+    }
+    await this.recordAuditEvent({
+      caseId: party.caseId,
+      action: "party.created",
+      entityType: "party",
+      entityId: party.id,
+      changes: snapshotRecord(party, "created"),
+    });
+    return party;
+  }
+
+  async getPartiesByCase(caseId: string): Promise<Party[]> {
+    return await db
+      .select()
+      .from(parties)
+      .where(eq(parties.caseId, caseId))
+      .orderBy(asc(parties.sortOrder), asc(parties.createdAt));
+  }
+
+  async getPartiesWithRepresentatives(caseId: string): Promise<PartyWithRepresentatives[]> {
+    const caseParties = await this.getPartiesByCase(caseId);
+    if (caseParties.length === 0) return [];
+
+    const loadRepresentatives = () => db
+      .select()
+      .from(partyRepresentatives)
+      .where(inArray(partyRepresentatives.partyId, caseParties.map(p => p.id)))
+      .orderBy(asc(partyRepresentatives.sortOrder), asc(partyRepresentatives.createdAt));
+
+    let representatives = await loadRepresentatives();
+
+    // Parties created before representatives existed only have the legalRep* columns
+    const legacyParties = caseParties.filter(
+      p => p.legalRepName && !representatives.some(r => r.partyId === p.id && r.kind === "legal_rep"),
+    );
+    if (legacyParties.length > 0) {
+      await db.insert(partyRepresentatives).values(legacyParties.map(p => ({
+        partyId: p.id,
+        kind: "legal_rep",
+        name: p.legalRepName!,
+        firm: p.legalRepFirm,
+        email: p.legalRepEmail,
+        phone: p.legalRepPhone,
+      })));
+      representatives = await loadRepresentatives();
+    }
+
+    return caseParties.map(party => ({
+      ...party,
+      representatives: representatives.filter(r => r.partyId === party.id),
+    }));
+  }
+
+  async getParty(id: string): Promise<Party | undefined> {
+    const [party] = await db.select().from(parties).where(eq(parties.id, id));
+    return party;
+  }
+
+  async updateParty(id: string, partyData: UpdateParty): Promise<Party> {
+    const before = await this.getParty(id);
+    const [updatedParty] = await db
+      .update(parties)
+      .set(partyData)
+      .where(eq(parties.id, id))
+      .returning();
+    const changes = diffRecords(before, partyData);
+    if (changes) {
+      await this.recordAuditEvent({
+        caseId: updatedParty.caseId,
+        action: "party.updated",
+        entityType: "party",
+        entityId: id,
+        changes,
+      });
+    }
+    return updatedParty;
+  }
+
+  // Attendance rows and invoices keep the names they recorded but stop pointing at the party. Caucus notes
+  // and segments keep the id, so notes from the party's caucus stay confidential to it.
+  async deleteParty(id: string): Promise<void> {
+    const context = auditContext.getStore();
+    await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(parties).where(eq(parties.id, id)).for("update");
+      if (!before) return;
+      await tx
+        .update(sessionAttendees)
+        .set({ partyId: null, representativeId: null })
+        .where(eq(sessionAttendees.partyId, id));
+      await tx.update(invoices).set({ partyId: null }).where(eq(invoices.partyId, id));
+      await tx.delete(partyRepresentatives).where(eq(partyRepresentatives.partyId, id));
+      await tx.delete(parties).where(eq(parties.id, id));
+      await tx.insert(auditEvents).values({
+        caseId: before.caseId,
+        actorId: context?.actorId ?? null,
+        ipAddress: context?.ipAddress ?? null,
+        action: "party.deleted",
+        entityType: "party",
+        entityId: id,
+        changes: snapshotRecord(before, "deleted"),
+      });
+    });
+  }
+
+  // Sets sortOrder from the position of each party in partyIds; parties not listed keep their order after them
+  async reorderParties(caseId: string, partyIds: string[]): Promise<Party[]> {
+    const before = await this.getPartiesByCase(caseId);
+    const ordered = [
+      ...partyIds.map(id => before.find(p => p.id === id)).filter((p): p is Party => !!p),
+      ...before.filter(p => !partyIds.includes(p.id)),
+    ];
+
+    await db.transaction(async (tx) => {
+      for (let index = 0; index < ordered.length; index++) {
+        if (ordered[index].sortOrder !== index) {
+          await tx.update(parties).set({ sortOrder: index }).where(eq(parties.id, ordered[index].id));
+        }
+      }
+    });
+
+    await this.recordAuditEvent({
+      caseId,
+      action: "party.reordered",
+      entityType: "party",
+      changes: {
+        order: {
+          before: before.map(p => p.entityName),
+          after: ordered.map(p => p.entityName),
+        },
+      },
+    });
+    return await this.getPartiesByCase(caseId);
+  }
+
+  // Party representative operations
+  async getPartyRepresentative(id: string): Promise<PartyRepresentative | undefined> {
+    const [representative] = await db.select().from(partyRepresentatives).where(eq(partyRepresentatives.id, id));
+    return representative;
+  }
+
+  async createPartyRepresentative(representativeData: InsertPartyRepresentative): Promise<PartyRepresentative> {
+    const [representative] = await db.insert(partyRepresentatives).values(representativeData).returning();
+    const party = await this.syncPrimaryLegalRep(representative.partyId);
+    await this.recordAuditEvent({
+      caseId: party?.caseId,
+      action: "representative.created",
+      entityType: "party",
+      entityId: representative.partyId,
+      changes: snapshotRecord(representative, "created"),
+    });
+    return representative;
+  }
+
+  async updatePartyRepresentative(id: string, representativeData: Partial<InsertPartyRepresentative>): Promise<PartyRepresentative> {
+    const before = await this.getPartyRepresentative(id);
+    const [representative] = await db
+      .update(partyRepresentatives)
+      .set(representativeData)
+      .where(eq(partyRepresentatives.id, id))
+      .returning();
+    const party = await this.syncPrimaryLegalRep(representative.partyId);
+    const changes = diffRecords(before, representativeData);
+    if (changes) {
+      await this.recordAuditEvent({
+        caseId: party?.caseId,
+        action: "representative.updated",
+        entityType: "party",
+        entityId: representative.partyId,
+        changes,
+        metadata: { representativeId: id, name: representative.name },
+      });
+    }
+    return representative;
+  }
+
+  async deletePartyRepresentative(id: string): Promise<void> {
+    const before = await this.getPartyRepresentative(id);
+    if (!before) return;
+    await db.delete(partyRepresentatives).where(eq(partyRepresentatives.id, id));
+    const party = await this.syncPrimaryLegalRep(before.partyId);
+    await this.recordAuditEvent({
+      caseId: party?.caseId,
+      action: "representative.deleted",
+      entityType: "party",
+      entityId: before.partyId,
+      changes: snapshotRecord(before, "deleted"),
+    });
+  }
+
+  // Contact directory operations
+  private async contactScope(userId: string) {
+    const membership = await this.getOrganizationMembership(userId);
+    return membership
+      ? eq(contacts.organizationId, membership.organizationId)
+      : and(isNull(contacts.organizationId), eq(contacts.ownerId, userId));
+  }
+
+  async getContacts(userId: string, search?: string, kind?: ContactKind): Promise<Contact[]> {
+    const conditions = [await this.contactScope(userId)];
+    if (search) {
+      conditions.push(or(ilike(contacts.name, `%${search}%`), ilike(contacts.email, `%${search}%`)));
+    }
+    if (kind) {
+      conditions.push(eq(contacts.kind, kind));
+    }
+    return await db
+      .select()
+      .from(contacts)
+      .where(and(...conditions))
+      .orderBy(asc(contacts.name))
+      .limit(search ? 20 : 500);
+  }
+
+  async getContactForUser(id: string, userId: string): Promise<Contact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(and(eq(contacts.id, id), await this.contactScope(userId)));
+    return contact;
+  }
+
+  async getFirmMembers(firmId: string): Promise<Contact[]> {
+    return await db.select().from(contacts).where(eq(contacts.firmId, firmId)).orderBy(asc(contacts.name));
+  }
+
+  async createContact(userId: string, contactData: InsertContact): Promise<Contact> {
+    const membership = await this.getOrganizationMembership(userId);
+    const [contact] = await db
+      .insert(contacts)
+      .values({ ...contactData, ownerId: userId, organizationId: membership?.organizationId ?? null })
+      .returning();
+    return contact;
+  }
+
+  async updateContact(id: string, contactData: Partial<InsertContact>): Promise<Contact> {
+    const [contact] = await db
+      .update(contacts)
+      .set({ ...contactData, updatedAt: new Date() })
+      .where(eq(contacts.id, id))
+      .returning();
+    return contact;
+  }
+
+  // Unlinks the contact everywhere; the text copied onto parties and representatives is kept
+  async deleteContact(id: string): Promise<void> {
+    await db.update(parties).set({ contactId: null }).where(eq(parties.contactId, id));
+    await db.update(partyRepresentatives).set({ contactId: null }).where(eq(partyRepresentatives.contactId, id));
+    await db.update(contacts).set({ firmId: null }).where(eq(contacts.firmId, id));
+    await db.delete(contacts).where(eq(contacts.id, id));
+  }
+
+  private scoreContacts(
+    directory: Contact[],
+    criteria: { name?: string | null; email?: string | null; kind?: ContactKind },
+  ): ContactMatch[] {
+    const email = normalizeEmail(criteria.email);
+    const matches: ContactMatch[] = [];
+    for (const contact of directory) {
+      if (criteria.kind && contact.kind !== criteria.kind) continue;
+      if (email && normalizeEmail(contact.email) === email) {
+        matches.push({ contact, score: 1, reason: "email" });
+        continue;
+      }
+      const score = nameSimilarity(criteria.name, contact.name);
+      if (score >= NAME_MATCH_THRESHOLD) {
+        matches.push({ contact, score, reason: "name" });
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, 5);
+  }
+
+  async findContactMatches(userId: string, criteria: { name?: string; email?: string; kind?: ContactKind }): Promise<ContactMatch[]> {
+    if (!criteria.name && !criteria.email) return [];
+    return this.scoreContacts(await this.getContacts(userId), criteria);
+  }
+
+  async getContactCases(contactId: string, userId: string): Promise<ContactCase[]> {
+    const accessibleCases = await this.getCasesForUser(userId);
+    const caseById = new Map(accessibleCases.map(c => [c.id, c]));
+    const involvements: { caseId: string; involvement: string }[] = [];
+    const partyLabel = (partyType: string) => partyType === "respondent" ? "Respondent" : "Applicant";
+
+    const linkedParties = await db.select().from(parties).where(eq(parties.contactId, contactId));
+    for (const party of linkedParties) {
+      involvements.push({ caseId: party.caseId, involvement: partyLabel(party.partyType) });
+    }
+
+    // Representatives linked directly, or (for firms) through one of the firm's people
+    const firmMemberIds = (await this.getFirmMembers(contactId)).map(m => m.id);
+    const representativeRows = await db
+      .select()
+      .from(partyRepresentatives)
+      .innerJoin(parties, eq(partyRepresentatives.partyId, parties.id))
+      .where(inArray(partyRepresentatives.contactId, [contactId, ...firmMemberIds]));
+    for (const row of representativeRows) {
+      const role = row.party_representatives.kind === "support_person" ? "Support person" : "Legal representative";
+      const via = row.party_representatives.contactId === contactId ? "" : ` (${row.party_representatives.name})`;
+      involvements.push({
+        caseId: row.parties.caseId,
+        involvement: `${role} for ${row.parties.entityName}${via}`,
+      });
+    }
+
+    return involvements
+      .filter(item => caseById.has(item.caseId))
+      .map(item => {
+        const caseData = caseById.get(item.caseId)!;
+        return {
+          id: caseData.id,
+          caseNumber: caseData.caseNumber,
+          status: caseData.status,
+          mediationDate: caseData.mediationDate,
+          involvement: item.involvement,
+        };
+      })
+      .sort((a, b) => a.caseNumber.localeCompare(b.caseNumber));
+  }
+
+  // Directory near-matches for parties and representatives on a case that are not linked yet
+  async getContactSuggestions(caseId: string, userId: string): Promise<ContactSuggestion[]> {
+    const directory = await this.getContacts(userId);
+    if (directory.length === 0) return [];
+
+    const suggestions: ContactSuggestion[] = [];
+    for (const party of await this.getPartiesWithRepresentatives(caseId)) {
+      if (!party.contactId) {
+        const matches = this.scoreContacts(directory, { name: party.entityName });
+        if (matches.length > 0) {
+          suggestions.push({ partyId: party.id, name: party.entityName, matches });
+        }
+      }
+      for (const representative of party.representatives) {
+        if (representative.contactId) continue;
+        const matches = this.scoreContacts(directory, { name: representative.name, email: representative.email, kind: "person" });
+        if (matches.length > 0) {
+          suggestions.push({ partyId: party.id, representativeId: representative.id, name: representative.name, matches });
+        }
+      }
+    }
+    return suggestions;
+  }
+
+  // Conflict-of-interest check operations
+  // Cases belonging to the practice: the whole organization's, or the user's own when they have none
+  private async getPracticeCases(userId: string): Promise<Case[]> {
+    const membership = await this.getOrganizationMembership(userId);
+    if (!membership) return this.getCases(userId);
+
+    const memberIds = db
+      .select({ userId: organizationMembers.userId })
+      .from(organizationMembers)
+      .where(eq(organizationMembers.organizationId, membership.organizationId));
+    return await db
+      .select()
+      .from(cases)
+      .where(and(
+        isNull(cases.deletedAt),
+        or(
+          inArray(cases.mediatorId, memberIds),
+          inArray(cases.id, this.coMediatedCaseIds(userId)),
+        ),
+      ));
+  }
+
+  // Fuzzy-matches names, emails and firms against every party and representative in the practice
+  async checkConflicts(userId: string, subjects: ConflictCheckSubject[], excludeCaseId?: string): Promise<ConflictMatch[]> {
+    const practiceCases = (await this.getPracticeCases(userId)).filter(c => c.id !== excludeCaseId);
+    if (practiceCases.length === 0 || subjects.length === 0) return [];
+
+    const caseById = new Map(practiceCases.map(c => [c.id, c]));
+    const practiceParties = await db.select().from(parties).where(inArray(parties.caseId, Array.from(caseById.keys())));
+    const representatives = practiceParties.length === 0 ? [] : await db
+      .select()
+      .from(partyRepresentatives)
+      .where(inArray(partyRepresentatives.partyId, practiceParties.map(p => p.id)));
+
+    const matches = new Map<string, ConflictMatch>();
+    const addMatch = (match: ConflictMatch) => {
+      const key = `${match.subject}|${match.partyId}|${match.involvement}`;
+      const existing = matches.get(key);
+      if (!existing || existing.score < match.score) {
+        matches.set(key, match);
+      }
+    };
+
+    for (const party of practiceParties) {
+      const caseData = caseById.get(party.caseId)!;
+      const entries = partyConflictEntries(party, representatives.filter(r => r.partyId === party.id));
+      for (const subject of subjects) {
+        for (const entry of entries) {
+          const base = {
+            subject: subject.name,
+            subjectLabel: subject.label,
+            caseId: caseData.id,
+            caseNumber: caseData.caseNumber,
+            caseStatus: caseData.status,
+            partyId: party.id,
+            involvement: `${entry.label}: ${entry.name}`,
+          };
+
+          const subjectEmail = normalizeEmail(subject.email);
+          if (subjectEmail && subjectEmail === normalizeEmail(entry.email)) {
+            addMatch({ ...base, reason: "email", matchedValue: entry.email!, score: 1 });
+            continue;
+          }
+          const nameScore = nameSimilarity(subject.name, entry.name);
+          if (nameScore >= NAME_MATCH_THRESHOLD) {
+            addMatch({ ...base, reason: "name", matchedValue: entry.name, score: nameScore });
+            continue;
+          }
+          if (entry.firm) {
+            const firmScore = Math.max(nameSimilarity(subject.firm, entry.firm), nameSimilarity(subject.name, entry.firm));
+            if (firmScore >= NAME_MATCH_THRESHOLD) {
+              addMatch({ ...base, reason: "firm", matchedValue: entry.firm, score: firmScore });
+            }
+          }
+        }
+      }
+    }
+
+    return Array.from(matches.values())
+      .sort((a, b) => b.score - a.score || a.caseNumber.localeCompare(b.caseNumber))
+      .slice(0, 200);
+  }
+
+  // Checks everyone on the case against the rest of the practice. A new report always needs a fresh acknowledgement.
+  async runCaseConflictCheck(caseId: string, userId: string): Promise<Case> {
+    const subjects: ConflictCheckSubject[] = [];
+    for (const party of await this.getPartiesWithRepresentatives(caseId)) {
+      subjects.push(...partyConflictEntries(party, party.representatives));
+    }
+
+    const report: ConflictReport = {
+      checkedAt: new Date().toISOString(),
+      checkedBy: userId,
+      subjects,
+      matches: await this.checkConflicts(userId, subjects, caseId),
+    };
+
+    const [updatedCase] = await db
+      .update(cases)
+      .set({
+        conflictReport: report,
+        conflictAcknowledgedAt: null,
+        conflictAcknowledgedBy: null,
+        conflictAcknowledgementNote: null,
+      })
+      .where(eq(cases.id, caseId))
+      .returning();
+    await this.recordAuditEvent({
+      caseId,
+      action: "case.conflict_checked",
+      entityType: "case",
+      entityId: caseId,
+      metadata: { subjectCount: subjects.length, matchCount: report.matches.length },
+    });
+    return updatedCase;
+  }
+
+  async acknowledgeConflictCheck(caseId: string, userId: string, note?: string): Promise<Case> {
+    const [updatedCase] = await db
+      .update(cases)
+      .set({
+        conflictAcknowledgedAt: new Date(),
+        conflictAcknowledgedBy: userId,
+        conflictAcknowledgementNote: note || null,
+      })
+      .where(eq(cases.id, caseId))
+      .returning();
+    await this.recordAuditEvent({
+      caseId,
+      action: "case.conflict_acknowledged",
+      entityType: "case",
+      entityId: caseId,
+      metadata: { matchCount: updatedCase.conflictReport?.matches.length ?? 0, note: note || null },
+    });
+    return updatedCase;
+  }
+
+  // Duplicate detection and merge operations
+
+  // A case is a likely duplicate when it has the same case number, shares two or more party names,
+  // or shares a party name and the session day. Only cases the user can see are considered.
+  async findDuplicateCases(userId: string, criteria: DuplicateCaseCriteria): Promise<DuplicateCaseMatch[]> {
+    const candidates = (await this.getCasesForUser(userId)).filter(c => c.id !== criteria.excludeCaseId);
+    if (candidates.length === 0) return [];
+
+    const names = criteria.partyNames.map(name => name.trim()).filter(Boolean);
+    const candidateParties = await db
+      .select({ caseId: parties.caseId, entityName: parties.entityName, primaryContactName: parties.primaryContactName })
+      .from(parties)
+      .where(inArray(parties.caseId, candidates.map(c => c.id)));
+    const caseNumber = criteria.caseNumber?.trim().toLowerCase();
+
+    const matches: DuplicateCaseMatch[] = [];
+    for (const candidate of candidates) {
+      const caseParties = candidateParties.filter(p => p.caseId === candidate.id);
+      const matchedParties: string[] = [];
+      let nameScore = 0;
+      for (const name of names) {
+        const best = Math.max(0, ...caseParties.flatMap(p => [
+          nameSimilarity(name, p.entityName),
+          nameSimilarity(name, p.primaryContactName),
+        ]));
+        if (best >= NAME_MATCH_THRESHOLD) {
+          matchedParties.push(name);
+          nameScore += best;
+        }
+      }
+
+      const reasons: DuplicateCaseReason[] = [];
+      if (caseNumber && candidate.caseNumber.trim().toLowerCase() === caseNumber) {
+        reasons.push("case_number");
+      }
+      if (matchedParties.length > 0) {
+        reasons.push("party_names");
+      }
+      const sameDay = !!criteria.mediationDate && !!candidate.mediationDate &&
+        Math.abs(candidate.mediationDate.getTime() - criteria.mediationDate.getTime()) < 24 * 60 * 60 * 1000;
+      if (sameDay) {
+        reasons.push("mediation_date");
+      }
+
+      const isDuplicate = reasons.includes("case_number") ||
+        matchedParties.length >= 2 ||
+        (matchedParties.length === 1 && sameDay);
+      if (!isDuplicate) continue;
+
+      matches.push({
+        caseId: candidate.id,
+        caseNumber: candidate.caseNumber,
+        caseStatus: candidate.status,
+        mediationDate: candidate.mediationDate?.toISOString() ?? null,
+        parties: caseParties.map(p => p.entityName),
+        matchedParties,
+        reasons,
+        score: reasons.includes("case_number")
+          ? 1
+          : Math.min(0.99, (nameScore / Math.max(names.length, 1)) * (sameDay ? 1 : 0.9)),
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score || a.caseNumber.localeCompare(b.caseNumber)).slice(0, 10);
+  }
+
+  // Moves the source case's parties, documents (including trashed ones), notes, AI analyses, time
+  // entries and expenses into the target, and its mediators onto the target as co-mediators. Tags and
+  // issues are combined and blank target details are filled from the source. The emptied source case
+  // goes to the trash.
+  async mergeCases(targetId: string, sourceId: string, actorId: string): Promise<CaseMergeResult> {
+    const ipAddress = auditContext.getStore()?.ipAddress ?? null;
+    return await db.transaction(async (tx) => {
+      const [target] = await tx.select().from(cases).where(eq(cases.id, targetId));
+      const [source] = await tx.select().from(cases).where(eq(cases.id, sourceId));
+
+      const targetParties = await tx.select({ id: parties.id }).from(parties).where(eq(parties.caseId, targetId));
+      const movedParties = await tx
+        .update(parties)
+        .set({ caseId: targetId, sortOrder: sql`${parties.sortOrder} + ${targetParties.length}` })
+        .where(eq(parties.caseId, sourceId))
+        .returning({ id: parties.id });
+      // A draft series the target also has stops counting as one, so the two sets of numbers don't collide
+      const movedDocuments = await tx
+        .update(documents)
+        .set({
+          caseId: targetId,
+          versionGroup: sql`case when exists (
+            select 1 from ${documents} existing
+            where existing.case_id = ${targetId} and existing.version_group = ${documents.versionGroup}
+          ) then null else ${documents.versionGroup} end`,
+        })
+        .where(eq(documents.caseId, sourceId))
+        .returning({ id: documents.id });
+      const movedNotes = await tx
+        .update(caseNotes)
+        .set({ caseId: targetId })
+        .where(eq(caseNotes.caseId, sourceId))
+        .returning({ id: caseNotes.id });
+      const movedAnalyses = await tx
+        .update(aiAnalyses)
+        .set({ caseId: targetId })
+        .where(eq(aiAnalyses.caseId, sourceId))
+        .returning({ id: aiAnalyses.id });
+      await tx.update(timeEntries).set({ caseId: targetId }).where(eq(timeEntries.caseId, sourceId));
+      await tx.update(caseExpenses).set({ caseId: targetId }).where(eq(caseExpenses.caseId, sourceId));
+      await tx.update(invoices).set({ caseId: targetId }).where(eq(invoices.caseId, sourceId));
+      const targetTasks = await tx.select({ id: caseTasks.id }).from(caseTasks).where(eq(caseTasks.caseId, targetId));
+      await tx
+        .update(caseTasks)
+        .set({ caseId: targetId, sortOrder: sql`${caseTasks.sortOrder} + ${targetTasks.length}` })
+        .where(eq(caseTasks.caseId, sourceId));
+      await tx.update(mediationSessions).set({ caseId: targetId }).where(eq(mediationSessions.caseId, sourceId));
+      await tx.update(sessionAttendees).set({ caseId: targetId }).where(eq(sessionAttendees.caseId, sourceId));
+      await tx.update(sessionSegments).set({ caseId: targetId }).where(eq(sessionSegments.caseId, sourceId));
+      await tx.update(caucusNotes).set({ caseId: targetId }).where(eq(caucusNotes.caseId, sourceId));
+      const mergedSessions = await tx.select().from(mediationSessions).where(eq(mediationSessions.caseId, targetId));
+
+      const sourceMediators = await tx.select().from(caseMediators).where(eq(caseMediators.caseId, sourceId));
+      if (sourceMediators.length > 0) {
+        await tx
+          .insert(caseMediators)
+          .values(sourceMediators.map(m => ({ caseId: targetId, userId: m.userId, role: "co" })))
+          .onConflictDoNothing();
+      }
+
+      const combined = (a: string[] | null, b: string[] | null) => Array.from(new Set([...(a ?? []), ...(b ?? [])]));
+      const [mergedCase] = await tx
+        .update(cases)
+        .set({
+          tags: combined(target.tags, source.tags),
+          issuesForDiscussion: combined(target.issuesForDiscussion, source.issuesForDiscussion),
+          mediationNumber: target.mediationNumber ?? source.mediationNumber,
+          mediationDate: nextMediationSession(mergedSessions)?.startsAt ?? null,
+          premises: target.premises ?? source.premises,
+          disputeBackground: target.disputeBackground || source.disputeBackground,
+          updatedAt: new Date(),
+        })
+        .where(eq(cases.id, targetId))
+        .returning();
+      await tx
+        .update(caseTasks)
+        .set({ dueAt: relativeTaskDue(mergedCase.mediationDate) })
+        .where(and(eq(caseTasks.caseId, targetId), isNotNull(caseTasks.dueOffsetDays)));
+      await tx.update(cases).set({ deletedAt: new Date(), deletedBy: actorId }).where(eq(cases.id, sourceId));
+
+      // A case has one outcome: the source's moves across unless the target already has its own, which
+      // then takes on the issues the source resolved. The rest of the source's outcome is kept in full in
+      // the target's audit trail, so its amount and terms are not lost.
+      const [targetOutcome] = await tx.select().from(caseOutcomes).where(eq(caseOutcomes.caseId, targetId));
+      const [sourceOutcome] = await tx.select().from(caseOutcomes).where(eq(caseOutcomes.caseId, sourceId));
+      const replacedOutcome = sourceOutcome && targetOutcome ? sourceOutcome : undefined;
+      if (sourceOutcome && !targetOutcome) {
+        await tx.update(caseOutcomes).set({ caseId: targetId }).where(eq(caseOutcomes.id, sourceOutcome.id));
+      } else if (sourceOutcome) {
+        await tx
+          .update(caseOutcomes)
+          .set({ resolvedIssues: combined(targetOutcome.resolvedIssues, sourceOutcome.resolvedIssues), updatedAt: new Date() })
+          .where(eq(caseOutcomes.id, targetOutcome.id));
+        await tx.delete(caseOutcomes).where(eq(caseOutcomes.id, sourceOutcome.id));
+      }
+
+      // The source's status changes stay readable on the target's timeline, followed by the merge itself
+      await tx
+        .update(caseStatusHistory)
+        .set({ caseId: targetId, reason: sql`concat_ws(': ', ${`Case ${source.caseNumber}`}::text, ${caseStatusHistory.reason})` })
+        .where(eq(caseStatusHistory.caseId, sourceId));
+      await tx.insert(caseStatusHistory).values({
+        caseId: targetId,
+        fromStatus: mergedCase.status,
+        toStatus: mergedCase.status,
+        actorId,
+        reason: replacedOutcome
+          ? `Merged case ${source.caseNumber} into this case; its ${caseStatusLabels[normalizeCaseStatus(replacedOutcome.outcomeType)]} outcome is recorded in the activity log`
+          : `Merged case ${source.caseNumber} into this case`,
+      });
+
+      const moved = {
+        parties: movedParties.length,
+        documents: movedDocuments.length,
+        notes: movedNotes.length,
+        aiAnalyses: movedAnalyses.length,
+      };
+      await tx.insert(auditEvents).values([
+        {
+          caseId: targetId,
+          actorId,
+          ipAddress,
+          action: "case.merged",
+          entityType: "case",
+          entityId: targetId,
+          changes: diffRecords(target, {
+            tags: mergedCase.tags,
+            issuesForDiscussion: mergedCase.issuesForDiscussion,
+            mediationNumber: mergedCase.mediationNumber,
+            mediationDate: mergedCase.mediationDate,
+            premises: mergedCase.premises,
+            disputeBackground: mergedCase.disputeBackground,
+          }),
+          metadata: { sourceCaseId: sourceId, sourceCaseNumber: source.caseNumber, moved },
+        },
+        {
+          caseId: sourceId,
+          actorId,
+          ipAddress,
+          action: "case.merged_into",
+          entityType: "case",
+          entityId: sourceId,
+          metadata: { targetCaseId: targetId, targetCaseNumber: target.caseNumber, moved },
+        },
+        ...(replacedOutcome ? [{
+          caseId: targetId,
+          actorId,
+          ipAddress,
+          action: "outcome.merged",
+          entityType: "outcome",
+          entityId: targetOutcome.id,
+          metadata: {
+            sourceCaseId: sourceId,
+            sourceCaseNumber: source.caseNumber,
+            replacedOutcome: {
+              outcomeType: replacedOutcome.outcomeType,
+              settlementAmount: replacedOutcome.settlementAmount,
+              currency: replacedOutcome.currency,
+              paymentTerms: replacedOutcome.paymentTerms,
+              nonMonetaryTerms: replacedOutcome.nonMonetaryTerms,
+              resolvedIssues: replacedOutcome.resolvedIssues,
+              sessionDurationMinutes: replacedOutcome.sessionDurationMinutes,
+              recordedBy: replacedOutcome.recordedBy,
+              recordedAt: replacedOutcome.updatedAt,
+            },
+          },
+        }] : []),
+      ]);
+      return { case: mergedCase, moved };
+    });
+  }
+
+  // Copies the first legal representative onto the party's legalRep* columns
+  private async syncPrimaryLegalRep(partyId: string): Promise<Party | undefined> {
+    const [primary] = await db
+      .select()
+      .from(partyRepresentatives)
+      .where(and(eq(partyRepresentatives.partyId, partyId), eq(partyRepresentatives.kind, "legal_rep")))
+      .orderBy(asc(partyRepresentatives.sortOrder), asc(partyRepresentatives.createdAt))
+      .limit(1);
+    const [party] = await db
+      .update(parties)
+      .set({
+        legalRepName: primary?.name ?? null,
+        legalRepFirm: primary?.firm ?? null,
+        legalRepEmail: primary?.email ?? null,
+        legalRepPhone: primary?.phone ?? null,
+      })
+      .where(eq(parties.id, partyId))
+      .returning();
+    return party;
+  }
+
+  // Document operations
+  async createDocument(documentData: InsertDocument): Promise<Document> {
+    const [document] = await db.insert(documents).values(documentData).returning();
+    await this.recordAuditEvent({
+      caseId: document.caseId,
+      action: "document.uploaded",
+      entityType: "document",
+      entityId: document.id,
+      changes: snapshotRecord(document, "created", ["extractedText"]),
+    });
+    return document;
+  }
+
+  // Saves the documents build returns as the next version of the case's versionGroup series. The case row
+  // is locked while the number is taken, so concurrent drafts get consecutive versions; trashed documents
+  // keep their numbers, which are never reused.
+  async createDocumentVersion(
+    caseId: string,
+    versionGroup: string,
+    build: (version: number) => InsertDocument[],
+  ): Promise<{ version: number; documents: Document[] }> {
+    const context = auditContext.getStore();
+    return db.transaction(async (tx) => {
+      await tx.select({ id: cases.id }).from(cases).where(eq(cases.id, caseId)).for("update");
+      const [latest] = await tx
+        .select({ version: sql<number | null>`max(${documents.version})` })
+        .from(documents)
+        .where(and(eq(documents.caseId, caseId), eq(documents.versionGroup, versionGroup)));
+      const version = Number(latest?.version ?? 0) + 1;
+
+      const created = await tx
+        .insert(documents)
+        .values(build(version).map(document => ({ ...document, caseId, version, versionGroup })))
+        .returning();
+      await tx.insert(auditEvents).values(created.map(document => ({
+        caseId,
+        actorId: context?.actorId ?? null,
+        ipAddress: context?.ipAddress ?? null,
+        action: "document.uploaded",
+        entityType: "document",
+        entityId: document.id,
+        changes: snapshotRecord(document, "created", ["extractedText"]),
+      })));
+      return { version, documents: created };
+    });
+  }
+
+  // Generated documents saved before versionGroup existed are grouped by their "<name> v<n>.<ext>" file
+  // name. A draft whose number is already taken in its series stays ungrouped. Runs at startup.
+  async backfillDocumentVersionGroups(): Promise<number> {
+    const result = await db.execute(sql`
+      update ${documents} d set version_group = regexp_replace(d.original_name, ' v[0-9]+\\.[^.]+$', '')
+      where d.version is not null and d.version_group is null and not exists (
+        select 1 from ${documents} o
+        where o.case_id = d.case_id and o.version = d.version and o.mime_type = d.mime_type
+          and (o.version_group is not null or o.id < d.id)
+          and coalesce(o.version_group, regexp_replace(o.original_name, ' v[0-9]+\\.[^.]+$', ''))
+            = regexp_replace(d.original_name, ' v[0-9]+\\.[^.]+$', '')
+      )
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  async getDocumentsByCase(caseId: string, options: TrashOptions = {}): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.caseId, caseId), options.includeDeleted ? undefined : isNull(documents.deletedAt)))
+      .orderBy(desc(documents.createdAt));
+  }
+
+  async getDocument(id: string, options: TrashOptions = {}): Promise<Document | undefined> {
+    const [document] = await db
+      .select()
+      .from(documents)
+      .where(and(eq(documents.id, id), options.includeDeleted ? undefined : isNull(documents.deletedAt)));
+    return document;
+  }
+
+  async getDocumentByObjectPath(objectPath: string): Promise<Document | undefined> {
+    const [document] = await db.select().from(documents).where(eq(documents.objectPath, objectPath));
+    return document;
+  }
+
+  async updateDocument(id: string, documentData: Partial<InsertDocument>): Promise<Document> {
+    const before = await this.getDocument(id);
+    const [updatedDocument] = await db
+      .update(documents)
+      .set(documentData)
+      .where(eq(documents.id, id))
+      .returning();
+    const changes = diffRecords(before, documentData, ["extractedText"]);
+    const textChanged = documentData.extractedText !== undefined && documentData.extractedText !== before?.extractedText;
+    if (changes || textChanged) {
+      await this.recordAuditEvent({
+        caseId: updatedDocument.caseId,
+        action: "document.updated",
+        entityType: "document",
+        entityId: id,
+        changes,
+        metadata: textChanged ? { extractedTextChanged: true } : null,
+      });
+    }
+    return updatedDocument;
+  }
+
+  // Case Notes operations
+  async createCaseNote(noteData: InsertCaseNote): Promise<CaseNote> {
+    const [note] = await db.insert(caseNotes).values(noteData).returning();
+    // Note content stays out of the audit trail; only the fact a note was written is recorded
+    await this.recordAuditEvent({
+      caseId: note.caseId,
+      action: "note.created",
+      entityType: "note",
+      entityId: note.id,
+    });
+    return note;
+  }
+
+  async getCaseNotes(caseId: string): Promise<CaseNote[]> {
+    return await db
+      .select()
+      .from(caseNotes)
+      .where(eq(caseNotes.caseId, caseId))
+      .orderBy(desc(caseNotes.createdAt));
+  }
+
+  // AI Analysis operations
+  async createAiAnalysis(analysisData: InsertAiAnalysis): Promise<AiAnalysis> {
+    const [analysis] = await db.insert(aiAnalyses).values(analysisData).returning();
+    await this.recordAuditEvent({
+      caseId: analysis.caseId,
+      actorId: analysis.createdBy,
+      action: "ai_analysis.created",
+      entityType: "ai_analysis",
+      entityId: analysis.id,
+      metadata: { analysisType: analysis.analysisType, input: analysis.input },
+    });
+    return analysis;
+  }
+
+  async getAiAnalyses(caseId: string): Promise<AiAnalysis[]> {
+    return await db
+      .select()
+      .from(aiAnalyses)
+      .where(eq(aiAnalyses.caseId, caseId))
+      .orderBy(desc(aiAnalyses.createdAt));
+  }
+
+  // Search operations
+  // Ranked full-text search over the cases the user can access, grouped by result type
+  async search(userId: string, query: string): Promise<SearchResponse> {
+    const terms = (query.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || []).slice(0, 8);
+    const caseIds = (await this.getCasesForUser(userId)).map(c => c.id);
+    if (terms.length === 0 || caseIds.length === 0) {
+      return { query, groups: [] };
+    }
+
+    // Every term is a prefix match so results show up while the user is still typing
+    const tsQuery = sql`to_tsquery('english', ${terms.map(term => `${term}:*`).join(" & ")})`;
+    const rank = (vector: SQL) => sql<number>`ts_rank(${vector}, ${tsQuery})`;
+    const highlight = (text: SQL) => sql<string>`ts_headline('english', ${text}, ${tsQuery}, ${SEARCH_HEADLINE_OPTIONS})`;
+
+    const caseVector = searchVector(cases.caseNumber, cases.mediationNumber, cases.premises, cases.disputeBackground);
+    // A party is also found by any of its representatives and support people, not only the primary legal rep
+    const representatives = db
+      .select({
+        partyId: partyRepresentatives.partyId,
+        text: sql<string>`string_agg(concat_ws(' ', ${partyRepresentatives.name}, ${partyRepresentatives.firm}, ${partyRepresentatives.role}, ${partyRepresentatives.email}), ' · ')`.as("representative_text"),
+      })
+      .from(partyRepresentatives)
+      .groupBy(partyRepresentatives.partyId)
+      .as("representatives");
+    const partyVector = searchVector(parties.entityName, parties.primaryContactName, parties.primaryContactEmail, parties.legalRepName, parties.legalRepFirm, sql`${representatives.text}`);
+    const documentVector = searchVector(documents.originalName, documentSearchText(documents.extractedText));
+    const noteVector = searchVector(caseNotes.content);
+    const analysisVector = searchVector(aiAnalyses.output);
+
+    const [caseRows, partyRows, documentRows, noteRows, analysisRows] = await Promise.all([
+      db
+        .select({
+          id: cases.id,
+          caseNumber: cases.caseNumber,
+          title: cases.caseNumber,
+          rank: rank(caseVector),
+          highlight: highlight(sql`concat_ws(' ', ${cases.mediationNumber}, ${cases.premises}, ${cases.disputeBackground})`),
+        })
+        .from(cases)
+        .where(and(inArray(cases.id, caseIds), sql`${caseVector} @@ ${tsQuery}`))
+        .orderBy(desc(rank(caseVector)))
+        .limit(SEARCH_RESULTS_PER_TYPE),
+      db
+        .select({
+          id: parties.id,
+          caseId: parties.caseId,
+          caseNumber: cases.caseNumber,
+          title: parties.entityName,
+          rank: rank(partyVector),
+          highlight: highlight(sql`concat_ws(' · ', ${parties.primaryContactName}, ${parties.primaryContactEmail}, ${parties.legalRepName}, ${parties.legalRepFirm}, ${representatives.text})`),
+        })
+        .from(parties)
+        .innerJoin(cases, eq(parties.caseId, cases.id))
+        .leftJoin(representatives, eq(representatives.partyId, parties.id))
+        .where(and(inArray(parties.caseId, caseIds), sql`${partyVector} @@ ${tsQuery}`))
+        .orderBy(desc(rank(partyVector)))
+        .limit(SEARCH_RESULTS_PER_TYPE),
+      db
+        .select({
+          id: documents.id,
+          caseId: documents.caseId,
+          caseNumber: cases.caseNumber,
+          title: documents.originalName,
+          rank: rank(documentVector),
+          highlight: highlight(sql`coalesce(${documentSearchText(documents.extractedText)}, '')`),
+        })
+        .from(documents)
+        .innerJoin(cases, eq(documents.caseId, cases.id))
+        .where(and(inArray(documents.caseId, caseIds), isNull(documents.deletedAt), sql`${documentVector} @@ ${tsQuery}`))
+        .orderBy(desc(rank(documentVector)))
+        .limit(SEARCH_RESULTS_PER_TYPE),
+      db
+        .select({
+          id: caseNotes.id,
+          caseId: caseNotes.caseId,
+          caseNumber: cases.caseNumber,
+          createdAt: caseNotes.createdAt,
+          rank: rank(noteVector),
+          highlight: highlight(sql`${caseNotes.content}`),
+        })
+        .from(caseNotes)
+        .innerJoin(cases, eq(caseNotes.caseId, cases.id))
+        .where(and(inArray(caseNotes.caseId, caseIds), sql`${noteVector} @@ ${tsQuery}`))
+        .orderBy(desc(rank(noteVector)))
+        .limit(SEARCH_RESULTS_PER_TYPE),
+      db
+        .select({
+          id: aiAnalyses.id,
+          caseId: aiAnalyses.caseId,
+          caseNumber: cases.caseNumber,
+          analysisType: aiAnalyses.analysisType,
+          input: aiAnalyses.input,
+          rank: rank(analysisVector),
+          highlight: highlight(sql`${aiAnalyses.output}`),
+        })
+        .from(aiAnalyses)
+        .innerJoin(cases, eq(aiAnalyses.caseId, cases.id))
+        .where(and(inArray(aiAnalyses.caseId, caseIds), sql`${analysisVector} @@ ${tsQuery}`))
+        .orderBy(desc(rank(analysisVector)))
+        .limit(SEARCH_RESULTS_PER_TYPE),
+    ]);
+
+    const groups: SearchResponse["groups"] = [
+      { type: "case", results: caseRows.map((row): SearchResult => ({ ...row, type: "case", caseId: row.id })) },
+      { type: "party", results: partyRows.map((row): SearchResult => ({ ...row, type: "party" })) },
+      { type: "document", results: documentRows.map((row): SearchResult => ({ ...row, type: "document" })) },
+      {
+        type: "note",
+        results: noteRows.map(({ createdAt, ...row }): SearchResult => ({
+          ...row,
+          type: "note",
+          title: `Note from ${createdAt ? createdAt.toLocaleDateString("en-AU") : "unknown date"}`,
+        })),
+      },
+      {
+        type: "analysis",
+        results: analysisRows.map(({ analysisType, input, ...row }): SearchResult => ({
+          ...row,
+          type: "analysis",
+          title: input ? `${ANALYSIS_TYPE_LABELS[analysisType] || analysisType}: ${input}` : ANALYSIS_TYPE_LABELS[analysisType] || analysisType,
+        })),
+      },
+    ];
+    return { query, groups: groups.filter(group => group.results.length > 0) };
   }
 
   // Email Template operations
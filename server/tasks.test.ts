@@ -0,0 +1,109 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type { CaseTask } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestUser, signIn } from "./test/helpers";
+
+const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+describe("tasks", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("keeps relative due dates in step with the mediation date", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const agent = await signIn(app, mediator.id);
+
+    await agent.post(`/api/cases/${caseData.id}/tasks`)
+      .send({ title: "Send agenda", dueAt: "2030-05-01T00:00:00.000Z", dueOffsetDays: -7 })
+      .expect(400);
+    const { body: relative } = await agent.post(`/api/cases/${caseData.id}/tasks`).send({ title: "Send agenda", dueOffsetDays: -7 }).expect(201);
+    expect(relative).toMatchObject({ dueAt: null, dueOffsetDays: -7 });
+    const { body: fixed } = await agent.post(`/api/cases/${caseData.id}/tasks`)
+      .send({ title: "File report", dueAt: "2030-01-01T00:00:00.000Z" })
+      .expect(201);
+
+    const { body: session } = await agent.post(`/api/cases/${caseData.id}/sessions`)
+      .send({ startsAt: "2030-05-20T00:00:00.000Z" })
+      .expect(201);
+    const dueDates = async () => new Map(
+      (await storage.getCaseTasks(caseData.id)).map(task => [task.id, task.dueAt?.toISOString() ?? null]),
+    );
+    expect(await dueDates()).toEqual(new Map([
+      [relative.id, "2030-05-13T00:00:00.000Z"],
+      [fixed.id, "2030-01-01T00:00:00.000Z"],
+    ]));
+
+    await agent.patch(`/api/cases/${caseData.id}/sessions/${session.id}`).send({ startsAt: "2030-06-10T00:00:00.000Z" }).expect(200);
+    expect((await dueDates()).get(relative.id)).toBe("2030-06-03T00:00:00.000Z");
+
+    const { body: madeFixed } = await agent.patch(`/api/cases/${caseData.id}/tasks/${relative.id}`)
+      .send({ dueAt: "2030-06-01T00:00:00.000Z" })
+      .expect(200);
+    expect(madeFixed.dueOffsetDays).toBeNull();
+    await agent.patch(`/api/cases/${caseData.id}/sessions/${session.id}`).send({ startsAt: "2030-07-01T00:00:00.000Z" }).expect(200);
+    expect((await dueDates()).get(relative.id)).toBe("2030-06-01T00:00:00.000Z");
+  });
+
+  it("adds the case type's missing checklist tasks, assigned to the lead mediator", async () => {
+    const mediator = await createTestUser();
+    const agent = await signIn(app, mediator.id);
+    const caseData = await createTestCase(mediator.id);
+    await agent.post(`/api/cases/${caseData.id}/tasks/checklist`).expect(400);
+
+    const { body: caseType } = await agent.post("/api/case-types").send({
+      name: "Retail lease",
+      taskTemplates: [
+        { title: "Intake call", offsetDays: -14 },
+        { title: "Send draft agreement", description: "Use the retail lease template" },
+      ],
+    }).expect(200);
+    await storage.updateCase(caseData.id, { caseTypeId: caseType.id, mediationDate: new Date("2030-03-15T00:00:00.000Z") });
+    await agent.post(`/api/cases/${caseData.id}/tasks`).send({ title: "intake call " }).expect(201);
+
+    const { body: added } = await agent.post(`/api/cases/${caseData.id}/tasks/checklist`).expect(201);
+    expect(added).toEqual([expect.objectContaining({
+      title: "Send draft agreement",
+      assigneeId: mediator.id,
+      dueAt: null,
+      dueOffsetDays: null,
+    })]);
+    expect((await agent.post(`/api/cases/${caseData.id}/tasks/checklist`).expect(201)).body).toEqual([]);
+    expect((await storage.getCaseTasks(caseData.id)).map(task => task.sortOrder)).toEqual([0, 1]);
+  });
+
+  it("lists the user's open tasks that are overdue or due soon", async () => {
+    const mediator = await createTestUser();
+    const outsider = await createTestUser("Outsider");
+    const agent = await signIn(app, mediator.id);
+    const caseData = await createTestCase(mediator.id);
+    const create = async (title: string, dueAt: Date | null) => (await agent.post(`/api/cases/${caseData.id}/tasks`)
+      .send({ title, dueAt: dueAt?.toISOString() ?? null, assigneeId: mediator.id })
+      .expect(201)).body as CaseTask;
+
+    const overdue = await create("Chase position paper", inDays(-30));
+    const soon = await create("Book room", inDays(3));
+    await create("Later", inDays(60));
+    await create("Whenever", null);
+    const done = await create("Done already", inDays(1));
+    await agent.post(`/api/cases/${caseData.id}/tasks`).send({ title: "Theirs", assigneeId: outsider.id }).expect(400);
+
+    const { body: completed } = await agent.patch(`/api/cases/${caseData.id}/tasks/${done.id}`).send({ completed: true }).expect(200);
+    expect(completed).toMatchObject({ completedBy: mediator.id });
+    expect(completed.completedAt).not.toBeNull();
+
+    const { body: mine } = await agent.get("/api/tasks/mine").query({ days: 7 }).expect(200);
+    expect(mine.map((task: CaseTask) => task.id)).toEqual([overdue.id, soon.id]);
+    expect(mine[0].caseNumber).toBe(caseData.caseNumber);
+
+    const { body: reopened } = await agent.patch(`/api/cases/${caseData.id}/tasks/${done.id}`).send({ completed: false }).expect(200);
+    expect(reopened).toMatchObject({ completedAt: null, completedBy: null });
+    expect((await storage.getAuditEvents(caseData.id)).map(event => event.action)).toEqual(
+      expect.arrayContaining(["task.completed", "task.reopened"]),
+    );
+  });
+});
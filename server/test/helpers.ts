@@ -0,0 +1,77 @@
+import { randomUUID } from "crypto";
+import express, { type Express } from "express";
+import bcrypt from "bcryptjs";
+import request from "supertest";
+import type { OrganizationRole } from "@shared/schema";
+import { registerRoutes } from "../routes";
+import { storage } from "../storage";
+
+export const TEST_PASSWORD = "test-password";
+
+// Hashed once; the default cost makes every test user take a noticeable moment to create
+const passwordHash = bcrypt.hashSync(TEST_PASSWORD, 4);
+
+const uniqueSuffix = () => randomUUID().slice(0, 8);
+
+// The API as server/index.ts serves it, without Vite or the background jobs
+export async function createTestApp(): Promise<Express> {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  await registerRoutes(app);
+  return app;
+}
+
+export async function createTestUser(firstName = "Test") {
+  const id = `user-${uniqueSuffix()}`;
+  return storage.upsertUser({
+    id,
+    email: `${id}@example.com`,
+    firstName,
+    lastName: "Mediator",
+    passwordHash,
+    isLocal: true,
+  });
+}
+
+// A practice with an admin and, for each given role, one more member
+export async function createTestPractice(...roles: OrganizationRole[]) {
+  const organization = await storage.createOrganization({ name: `Practice ${uniqueSuffix()}` });
+  const admin = await createTestUser("Admin");
+  await storage.addOrganizationMember({ organizationId: organization.id, userId: admin.id, role: "admin" });
+  const members = [];
+  for (const role of roles) {
+    const user = await createTestUser(role);
+    await storage.addOrganizationMember({ organizationId: organization.id, userId: user.id, role });
+    members.push(user);
+  }
+  return { organization, admin, members };
+}
+
+export async function createTestCase(mediatorId: string) {
+  return storage.createCase({
+    caseNumber: `TEST-${uniqueSuffix()}`,
+    mediatorId,
+    mediationType: "Remote",
+    issuesForDiscussion: ["Outstanding rent"],
+  }, mediatorId);
+}
+
+export async function createTestDocument(caseId: string, uploadedBy: string) {
+  return storage.createDocument({
+    caseId,
+    fileName: "statement.pdf",
+    originalName: "statement.pdf",
+    fileSize: 100,
+    mimeType: "application/pdf",
+    objectPath: `/objects/uploads/${randomUUID()}`,
+    uploadedBy,
+  });
+}
+
+// A supertest agent holding a local-login session for the user
+export async function signIn(app: Express, userId: string) {
+  const agent = request.agent(app);
+  await agent.post("/api/login").send({ username: userId, password: TEST_PASSWORD }).expect(200);
+  return agent;
+}
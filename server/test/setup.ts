@@ -0,0 +1,5 @@
+import { inject } from "vitest";
+
+// server/db.ts connects on import, so the database must be known before any server module loads
+process.env.DATABASE_URL = inject("databaseUrl");
+process.env.SESSION_SECRET ??= "test-session-secret";
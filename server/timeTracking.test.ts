@@ -0,0 +1,107 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { eq } from "drizzle-orm";
+import { timeEntries, users, type TimeSuggestion } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { createTestApp, createTestCase, createTestPractice, createTestUser, signIn } from "./test/helpers";
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+describe("time tracking", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("runs one timer per person and only its owner can stop it", async () => {
+    const { admin, members: [colleague] } = await createTestPractice("mediator");
+    await db.update(users).set({ hourlyRate: "240.00", billingCurrency: "NZD" }).where(eq(users.id, admin.id));
+    const caseData = await createTestCase(admin.id);
+    await storage.addCaseMediator({ caseId: caseData.id, userId: colleague.id, role: "co" });
+    const otherCase = await createTestCase(admin.id);
+    const agent = await signIn(app, admin.id);
+
+    const { body: timer } = await agent.post(`/api/cases/${caseData.id}/time-entries/timer`)
+      .send({ activityType: "preparation", description: "Reading the position papers" })
+      .expect(201);
+    expect(timer).toMatchObject({ source: "timer", hourlyRate: "240.00", currency: "NZD", endedAt: null, durationMinutes: null });
+    const { body: running } = await agent.get("/api/time-entries/running").expect(200);
+    expect(running).toMatchObject({ id: timer.id, caseNumber: caseData.caseNumber });
+    await agent.post(`/api/cases/${otherCase.id}/time-entries/timer`).send({ activityType: "preparation" }).expect(409);
+    await agent.patch(`/api/cases/${caseData.id}/time-entries/${timer.id}`).send({ durationMinutes: 30 }).expect(400);
+    await agent.post(`/api/cases/${otherCase.id}/time-entries/${timer.id}/stop`).expect(404);
+
+    const colleagueAgent = await signIn(app, colleague.id);
+    await colleagueAgent.post(`/api/cases/${caseData.id}/time-entries/${timer.id}/stop`).expect(403);
+
+    await db.update(timeEntries).set({ startedAt: minutesAgo(50) }).where(eq(timeEntries.id, timer.id));
+    const { body: stopped } = await agent.post(`/api/cases/${caseData.id}/time-entries/${timer.id}/stop`).expect(200);
+    expect(stopped.durationMinutes).toBe(50);
+    await agent.post(`/api/cases/${caseData.id}/time-entries/${timer.id}/stop`).expect(400);
+    expect((await agent.get("/api/time-entries/running").expect(200)).body).toBeNull();
+  });
+
+  it("totals billable time at the rate it was logged at", async () => {
+    const mediator = await createTestUser();
+    await db.update(users).set({ hourlyRate: "180.00" }).where(eq(users.id, mediator.id));
+    const caseData = await createTestCase(mediator.id);
+    const agent = await signIn(app, mediator.id);
+
+    await agent.post(`/api/cases/${caseData.id}/time-entries`)
+      .send({ activityType: "session", startedAt: minutesAgo(200).toISOString(), durationMinutes: 90 })
+      .expect(201);
+    await agent.post(`/api/cases/${caseData.id}/time-entries`)
+      .send({ activityType: "correspondence", startedAt: minutesAgo(60).toISOString(), durationMinutes: 30, billable: false })
+      .expect(201);
+    await agent.post(`/api/cases/${caseData.id}/time-entries`)
+      .send({ activityType: "session", startedAt: minutesAgo(60).toISOString(), durationMinutes: 0 })
+      .expect(400);
+    // A later rate change leaves time already logged alone
+    await db.update(users).set({ hourlyRate: null }).where(eq(users.id, mediator.id));
+    await agent.post(`/api/cases/${caseData.id}/time-entries`)
+      .send({ activityType: "preparation", startedAt: minutesAgo(30).toISOString(), durationMinutes: 15 })
+      .expect(201);
+    await agent.post(`/api/cases/${caseData.id}/expenses`)
+      .send({ incurredOn: "2025-03-01", category: "venue", description: "Room hire", amount: "200" })
+      .expect(201);
+
+    const { body: billing } = await agent.get(`/api/cases/${caseData.id}/billing`).expect(200);
+    expect(billing.totals).toEqual([{
+      currency: "AUD",
+      billableMinutes: 105,
+      nonBillableMinutes: 30,
+      timeAmount: 270,
+      expenseAmount: 200,
+      total: 470,
+    }]);
+    expect(billing.unratedMinutes).toBe(15);
+  });
+
+  it("suggests time from attendance and AI analyses until it is logged or dismissed", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const startsAt = minutesAgo(3 * 24 * 60);
+    const session = await storage.createMediationSession(caseData.id, { title: "Mediation", startsAt, durationMinutes: 180 }, mediator.id);
+    await storage.createSessionAttendee(session, {
+      name: "Alex Applicant",
+      role: "party",
+      arrivedAt: new Date(startsAt.getTime() + 10 * 60 * 1000),
+      leftAt: new Date(startsAt.getTime() + 131 * 60 * 1000),
+    }, mediator.id);
+    const analysis = await storage.createAiAnalysis({ caseId: caseData.id, analysisType: "summary", output: "Summary", createdBy: mediator.id });
+    const agent = await signIn(app, mediator.id);
+
+    const { body: suggestions } = await agent.get(`/api/cases/${caseData.id}/time-suggestions`).expect(200);
+    const bySource = new Map(suggestions.map((suggestion: TimeSuggestion) => [suggestion.sourceId, suggestion]));
+    // 121 minutes present, rounded up to whole six-minute units
+    expect(bySource.get(session.id)).toMatchObject({ source: "attendance", activityType: "session", durationMinutes: 126 });
+    expect(bySource.get(analysis.id)).toMatchObject({ source: "ai_analysis", durationMinutes: 6 });
+
+    const attendance = bySource.get(session.id) as TimeSuggestion;
+    await agent.post(`/api/cases/${caseData.id}/time-entries`).send(attendance).expect(201);
+    await agent.post(`/api/cases/${caseData.id}/time-suggestions/dismiss`).send({ source: "ai_analysis", sourceId: analysis.id }).expect(200);
+    expect((await agent.get(`/api/cases/${caseData.id}/time-suggestions`).expect(200)).body).toEqual([]);
+  });
+});
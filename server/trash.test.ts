@@ -0,0 +1,83 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+import { eq } from "drizzle-orm";
+import { cases, documents } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { purgeExpiredTrash, TRASH_RETENTION_DAYS } from "./trash";
+import { createTestApp, createTestCase, createTestDocument, createTestUser, signIn } from "./test/helpers";
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+describe("trash", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("restores a case with the documents trashed along with it only", async () => {
+    const mediator = await createTestUser();
+    const caseData = await createTestCase(mediator.id);
+    const kept = await createTestDocument(caseData.id, mediator.id);
+    const trashedEarlier = await createTestDocument(caseData.id, mediator.id);
+    const agent = await signIn(app, mediator.id);
+
+    await agent.delete(`/api/documents/${trashedEarlier.id}`).expect(200);
+    await agent.delete(`/api/cases/${caseData.id}`).expect(200);
+
+    await agent.get(`/api/cases/${caseData.id}`).expect(404);
+    const { body: trash } = await agent.get("/api/trash").expect(200);
+    const trashed = trash.cases.find((c: { id: string }) => c.id === caseData.id);
+    expect(trashed).toMatchObject({ documentCount: 2 });
+    expect(new Date(trashed.purgeAt).getTime() - new Date(trashed.deletedAt).getTime()).toBe(TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    // Documents of a trashed case are listed under the case, not on their own
+    expect(trash.documents.map((d: { id: string }) => d.id)).not.toContain(trashedEarlier.id);
+
+    await agent.post(`/api/cases/${caseData.id}/restore`).expect(200);
+    await agent.post(`/api/cases/${caseData.id}/restore`).expect(400);
+    expect((await storage.getDocumentsByCase(caseData.id)).map(d => d.id)).toEqual([kept.id]);
+    await agent.delete(`/api/documents/${kept.id}/permanent`).expect(400);
+    await agent.post(`/api/documents/${trashedEarlier.id}/restore`).expect(200);
+    expect(await storage.getDocumentsByCase(caseData.id)).toHaveLength(2);
+  });
+
+  it("purges what has been in the trash longer than the retention period and keeps the audit trail", async () => {
+    const mediator = await createTestUser();
+    const expiredCase = await createTestCase(mediator.id);
+    await storage.createParty({ caseId: expiredCase.id, entityName: "Alpha Pty Ltd", partyType: "applicant" });
+    await createTestDocument(expiredCase.id, mediator.id);
+    const recentCase = await createTestCase(mediator.id);
+    const liveCase = await createTestCase(mediator.id);
+    const expiredDocument = await createTestDocument(liveCase.id, mediator.id);
+    const recentDocument = await createTestDocument(liveCase.id, mediator.id);
+
+    await storage.deleteCase(expiredCase.id, mediator.id);
+    await storage.deleteCase(recentCase.id, mediator.id);
+    await storage.deleteDocument(expiredDocument.id, mediator.id);
+    await storage.deleteDocument(recentDocument.id, mediator.id);
+    const expiredAt = daysAgo(TRASH_RETENTION_DAYS + 1);
+    await db.update(cases).set({ deletedAt: expiredAt }).where(eq(cases.id, expiredCase.id));
+    await db.update(documents).set({ deletedAt: expiredAt }).where(eq(documents.caseId, expiredCase.id));
+    await db.update(documents).set({ deletedAt: expiredAt }).where(eq(documents.id, expiredDocument.id));
+
+    // The test documents have no stored file, which the file service logs
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const result = await purgeExpiredTrash();
+
+    expect(result.purgedCases).toBeGreaterThanOrEqual(1);
+    expect(result.purgedDocuments).toBeGreaterThanOrEqual(1);
+    expect(await storage.getCase(expiredCase.id, { includeDeleted: true })).toBeUndefined();
+    expect(await storage.getPartiesByCase(expiredCase.id)).toEqual([]);
+    expect(await storage.getDocumentsByCase(expiredCase.id, { includeDeleted: true })).toEqual([]);
+    expect(await storage.getCase(recentCase.id, { includeDeleted: true })).toBeDefined();
+    expect((await storage.getDocumentsByCase(liveCase.id, { includeDeleted: true })).map(d => d.id)).toEqual([recentDocument.id]);
+    expect((await storage.getAuditEvents(expiredCase.id)).map(event => event.action)).toEqual(
+      expect.arrayContaining(["case.created", "case.deleted", "case.purged"]),
+    );
+  });
+});
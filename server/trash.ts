@@ -0,0 +1,93 @@
+import type { Case, Document } from "@shared/schema";
+import { storage } from "./storage";
+import { LocalFileStorageService } from "./localFileStorage";
+import { removeSessionLinks } from "./sessions";
+import type { JobHandler } from "./jobs";
+
+export const TRASH_PURGE_JOB = "trash.purge";
+
+// Days a trashed case or document can be restored before it is purged permanently
+export const TRASH_RETENTION_DAYS = Math.max(1, parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10) || 30);
+
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Deletes the stored file and its uploads/.acl sidecar. A file that is already gone is not an error.
+// Returns whether there was a file to delete.
+async function deleteStoredFile(objectPath: string): Promise<boolean> {
+  try {
+    await new LocalFileStorageService().deleteFile(objectPath);
+    return true;
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+    return false;
+  }
+}
+
+// Zoom meetings and calendar events of every session on the case. Returns what was removed.
+async function removeExternalLinks(caseData: Case): Promise<string[]> {
+  const removed: string[] = [];
+  for (const session of await storage.getMediationSessions(caseData.id)) {
+    removed.push(...await removeSessionLinks(caseData, session));
+  }
+  return removed;
+}
+
+export async function purgeCase(caseData: Case): Promise<{ filesDeleted: number; externalLinksRemoved: string[] }> {
+  let externalLinksRemoved: string[] = [];
+  try {
+    externalLinksRemoved = await removeExternalLinks(caseData);
+  } catch (error) {
+    // The meeting or event may have been removed by hand; don't keep the case around because of it
+    console.error(`Error removing Zoom/calendar links for case ${caseData.caseNumber}:`, error);
+  }
+
+  let filesDeleted = 0;
+  for (const document of await storage.getDocumentsByCase(caseData.id, { includeDeleted: true })) {
+    if (await deleteStoredFile(document.objectPath)) filesDeleted++;
+  }
+  await storage.purgeCase(caseData.id);
+  return { filesDeleted, externalLinksRemoved };
+}
+
+export async function purgeDocument(document: Document) {
+  await deleteStoredFile(document.objectPath);
+  await storage.purgeDocument(document.id);
+}
+
+// Purges everything that has been in the trash longer than the retention period
+export async function purgeExpiredTrash() {
+  const deletedBefore = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const expired = await storage.getExpiredTrash(deletedBefore);
+
+  let purgedCases = 0;
+  let purgedDocuments = 0;
+  for (const caseData of expired.cases) {
+    try {
+      await purgeCase(caseData);
+      purgedCases++;
+    } catch (error) {
+      console.error(`Error purging case ${caseData.caseNumber}:`, error);
+    }
+  }
+  for (const document of expired.documents) {
+    try {
+      await purgeDocument(document);
+      purgedDocuments++;
+    } catch (error) {
+      console.error(`Error purging document ${document.id}:`, error);
+    }
+  }
+  return { purgedCases, purgedDocuments };
+}
+
+export const trashJobHandlers: Record<string, JobHandler> = {
+  [TRASH_PURGE_JOB]: {
+    everyMs: PURGE_INTERVAL_MS,
+    async run() {
+      const { purgedCases, purgedDocuments } = await purgeExpiredTrash();
+      if (purgedCases || purgedDocuments) {
+        console.log(`Trash purge removed ${purgedCases} case(s) and ${purgedDocuments} document(s)`);
+      }
+    },
+  },
+};
@@ -13,6 +13,24 @@ interface ZoomMeetingResponse {
   start_url: string;
 }
 
+interface ZoomParticipantReportResponse {
+  next_page_token?: string;
+  participants: {
+    name: string;
+    user_email?: string;
+    join_time: string;
+    leave_time?: string;
+  }[];
+}
+
+// One row per join; people who dropped out and rejoined appear more than once
+export interface ZoomParticipant {
+  name: string;
+  email: string | null;
+  joinTime: Date;
+  leaveTime: Date | null;
+}
+
 interface ZoomMeetingSettings {
   topic: string;
   type: 2; // Scheduled meeting
@@ -169,6 +187,42 @@ export class ZoomService {
 
     return await response.json();
   }
+
+  // Past meeting participant report. Needs the report:read scope and is only available once the meeting has ended.
+  async getMeetingParticipants(credentials: ZoomCredentials, meetingId: string): Promise<ZoomParticipant[]> {
+    const token = await this.getAccessToken(credentials);
+    const participants: ZoomParticipant[] = [];
+    let pageToken = '';
+
+    do {
+      const params = new URLSearchParams({ page_size: '300' });
+      if (pageToken) params.set('next_page_token', pageToken);
+      const response = await fetch(`https://api.zoom.us/v2/report/meetings/${meetingId}/participants?${params}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to get Zoom participant report: ${response.status} ${errorText}`);
+      }
+
+      const report: ZoomParticipantReportResponse = await response.json();
+      for (const participant of report.participants) {
+        participants.push({
+          name: participant.name,
+          email: participant.user_email || null,
+          joinTime: new Date(participant.join_time),
+          leaveTime: participant.leave_time ? new Date(participant.leave_time) : null,
+        });
+      }
+      pageToken = report.next_page_token ?? '';
+    } while (pageToken);
+
+    return participants;
+  }
 }
 
 export const zoomService = new ZoomService();
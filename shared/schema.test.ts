@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { replaceCasePlaceholders, visibleCaucusNotes, type Case, type CaseType, type MediationSession, type Party } from "./schema";
+
+const caseData = {
+  id: "case-1",
+  caseNumber: "RL-2024-001",
+  mediatorName: "Jo Mediator",
+  mediationType: "Remote",
+  premises: null,
+  customFields: { lease_expiry: "2025-06-30", annual_rent: null },
+} as unknown as Case;
+
+const caseType = {
+  fields: [
+    { key: "lease_expiry", label: "Lease expiry", type: "date" },
+    { key: "annual_rent", label: "Annual rent", type: "currency" },
+  ],
+} as unknown as CaseType;
+
+const applicant = {
+  partyType: "applicant",
+  entityName: "Alpha Pty Ltd",
+  primaryContactName: "Ann Alpha",
+  legalRepName: "Lee Lawyer",
+  legalRepEmail: "lee@example.com",
+  legalRepPhone: null,
+} as unknown as Party;
+
+const sessions: MediationSession[] = [];
+
+describe("replaceCasePlaceholders", () => {
+  it("fills custom field placeholders from the case type", () => {
+    const text = "Lease ends {field_lease_expiry}; rent {field_annual_rent}; {field_unknown}";
+    expect(replaceCasePlaceholders(text, caseData, [applicant], sessions, { caseType }))
+      .toBe("Lease ends 30 June 2025; rent [Annual rent]; {field_unknown}");
+  });
+
+  it("fills the lawyer's email and phone, and labels parties the case does not have", () => {
+    const text = "{applicant_1_lawyer} <{applicant_1_lawyer_email}> {applicant_1_lawyer_phone} / {respondent_1_name} / {applicant_2_name}";
+    expect(replaceCasePlaceholders(text, caseData, [applicant], sessions))
+      .toBe("Lee Lawyer <lee@example.com> [Applicant 1 Lawyer Phone] / [Respondent 1 Name] / [Applicant 2 Name]");
+  });
+
+  it("inserts values literally", () => {
+    const withDollar = { ...applicant, entityName: "Cash $& Carry" } as Party;
+    expect(replaceCasePlaceholders("{applicant_1_name} re {caseNumber}", caseData, [withDollar], sessions))
+      .toBe("Cash $& Carry re RL-2024-001");
+  });
+});
+
+describe("visibleCaucusNotes", () => {
+  const notes = [
+    { id: "joint", partyId: null },
+    { id: "alpha", partyId: "party-alpha" },
+    { id: "beta", partyId: "party-beta" },
+  ];
+
+  it("shows a party in caucus only their own and joint-session notes", () => {
+    expect(visibleCaucusNotes(notes, "party-alpha").map(note => note.id)).toEqual(["joint", "alpha"]);
+  });
+
+  it("shows only joint-session notes with everyone in the room", () => {
+    expect(visibleCaucusNotes(notes, null).map(note => note.id)).toEqual(["joint"]);
+  });
+});
@@ -1,18 +1,30 @@
-import { sql } from 'drizzle-orm';
+import { sql, type SQL } from 'drizzle-orm';
 import {
   index,
+  unique,
+  uniqueIndex,
   jsonb,
   pgTable,
   text,
   varchar,
   timestamp,
   integer,
+  numeric,
   boolean,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
+// Full-text search document over the given columns. The GIN indexes below and the search
+// queries in server/storage.ts must build it from the same columns so Postgres uses the index.
+export function searchVector(...columns: (AnyPgColumn | SQL)[]) {
+  return sql`to_tsvector('english', ${sql.join(columns.map(column => sql`coalesce(${column}, '')`), sql` || ' ' || `)})`;
+}
+
+export const documentSearchText = (extractedText: AnyPgColumn) => sql`left(${extractedText}, 200000)`;
+
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
   "sessions",
@@ -34,6 +46,118 @@ export const users = pgTable("users", {
   passwordHash: varchar("password_hash"), // For local authentication
   isLocal: boolean("is_local").default(false), // true for local users, false for Replit auth
   mediatorEmail: varchar("mediator_email"), // Email to CC on all outgoing communications
+  hourlyRate: numeric("hourly_rate", { precision: 10, scale: 2 }), // copied onto time entries when they are logged
+  billingCurrency: text("billing_currency").notNull().default("AUD"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Practices/firms that group several users together
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Roles a user can hold within an organization
+export const organizationRoles = ["admin", "mediator", "case_manager", "read_only"] as const;
+export type OrganizationRole = typeof organizationRoles[number];
+
+// A user belongs to at most one organization
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  userId: varchar("user_id").notNull().unique(),
+  role: text("role").notNull().default("mediator"), // admin, mediator, case_manager, read_only
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Existing accounts join an organization only by accepting an admin's invitation
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: text("role").notNull().default("mediator"), // role the user gets on accepting
+  invitedBy: varchar("invited_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("UQ_organization_invitation").on(table.organizationId, table.userId)]);
+
+// Case lifecycle. Outcome statuses (settled, partially_settled, impasse, withdrawn) all lead to closed.
+export const caseStatuses = [
+  "referred",
+  "intake",
+  "scheduled",
+  "in_session",
+  "settled",
+  "partially_settled",
+  "impasse",
+  "withdrawn",
+  "closed",
+] as const;
+export type CaseStatus = typeof caseStatuses[number];
+
+export const caseStatusLabels: Record<CaseStatus, string> = {
+  referred: "Referred",
+  intake: "Intake",
+  scheduled: "Scheduled",
+  in_session: "In Session",
+  settled: "Settled",
+  partially_settled: "Partially Settled",
+  impasse: "Impasse",
+  withdrawn: "Withdrawn",
+  closed: "Closed",
+};
+
+export const caseStatusTransitions: Record<CaseStatus, CaseStatus[]> = {
+  referred: ["intake", "withdrawn"],
+  intake: ["scheduled", "withdrawn"],
+  scheduled: ["in_session", "intake", "withdrawn"],
+  in_session: ["settled", "partially_settled", "impasse", "withdrawn", "scheduled"],
+  settled: ["closed"],
+  partially_settled: ["closed"],
+  impasse: ["closed"],
+  withdrawn: ["closed"],
+  closed: [],
+};
+
+// Statuses in which the case is still being worked on
+export const openCaseStatuses: CaseStatus[] = ["referred", "intake", "scheduled", "in_session"];
+
+// Statuses a case can end in before it is closed
+export const outcomeCaseStatuses = ["settled", "partially_settled", "impasse", "withdrawn"] as const;
+export type OutcomeCaseStatus = typeof outcomeCaseStatuses[number];
+
+// Statuses stored before the lifecycle existed. The startup data migration moves them to intake.
+export const legacyCaseStatuses = ["active", "open"] as const;
+
+// Maps statuses stored before the lifecycle existed onto it
+export function normalizeCaseStatus(status: string): CaseStatus {
+  if ((caseStatuses as readonly string[]).includes(status)) {
+    return status as CaseStatus;
+  }
+  return "intake";
+}
+
+export function canTransitionCaseStatus(from: string, to: CaseStatus): boolean {
+  return caseStatusTransitions[normalizeCaseStatus(from)].includes(to);
+}
+
+// Kinds of matter a practice handles (e.g. retail lease, workplace, family property). Each type
+// defines its own custom fields, stored on cases.customFields, plus default issues and email templates.
+export const customFieldTypes = ["text", "number", "date", "currency", "select"] as const;
+export type CustomFieldType = typeof customFieldTypes[number];
+
+export const caseTypes = pgTable("case_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id"),
+  ownerId: varchar("owner_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  fields: jsonb("fields").$type<CustomFieldDefinition[]>().notNull().default([]),
+  defaultIssues: text("default_issues").array(),
+  emailTemplates: jsonb("email_templates").$type<CaseTypeEmailTemplate[]>().notNull().default([]),
+  taskTemplates: jsonb("task_templates").$type<CaseTypeTaskTemplate[]>().notNull().default([]), // checklist added to new cases
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -45,15 +169,510 @@ export const cases = pgTable("cases", {
   mediatorId: varchar("mediator_id").notNull(),
   mediatorName: text("mediator_name"),
   mediationType: text("mediation_type"), // Remote, In-Person
-  mediationDate: timestamp("mediation_date"),
-  premises: text("premises"),
+  mediationDate: timestamp("mediation_date"), // mirrors the next mediation session; see mediationSessions
+  premises: text("premises"), // default venue for in-person sessions
   disputeBackground: text("dispute_background"),
   issuesForDiscussion: text("issues_for_discussion").array(),
-  status: text("status").notNull().default("active"), // active, scheduled, closed
+  status: text("status").notNull().default("referred"), // see caseStatuses
+  caseTypeId: varchar("case_type_id"),
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>(), // keyed by CustomFieldDefinition.key
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`), // lowercase, free-form
+  feeSplit: jsonb("fee_split").$type<FeeSplitShare[]>(), // how invoices are shared between parties; null splits equally
+  // Legacy single-session links, moved onto the case's first mediation session at startup and then
+  // cleared (see migrateLegacySessions). Zoom meetings and calendar events now live on mediationSessions.
   zoomMeetingId: text("zoom_meeting_id"),
   zoomMeetingLink: text("zoom_meeting_link"),
   zoomMeetingPassword: text("zoom_meeting_password"),
   calendarEventId: text("calendar_event_id"),
+  conflictReport: jsonb("conflict_report").$type<ConflictReport>(), // latest intake conflict-of-interest check
+  conflictAcknowledgedAt: timestamp("conflict_acknowledged_at"),
+  conflictAcknowledgedBy: varchar("conflict_acknowledged_by"),
+  conflictAcknowledgementNote: text("conflict_acknowledgement_note"),
+  closedAt: timestamp("closed_at"), // starts the records retention period
+  deletedAt: timestamp("deleted_at"), // in the trash; purged permanently after the retention period
+  deletedBy: varchar("deleted_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_cases_search").using("gin", searchVector(table.caseNumber, table.mediationNumber, table.premises, table.disputeBackground)),
+  index("IDX_cases_tags").using("gin", table.tags),
+]);
+
+// Named case list filters (e.g. "Next 14 days, remote") shown in each user's sidebar
+export const savedCaseViews = pgTable("saved_case_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  filters: jsonb("filters").$type<CaseListFilters>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Mediators assigned to a case. The lead mediator mirrors cases.mediatorId; co-mediators share full access.
+export const caseMediatorRoles = ["lead", "co"] as const;
+export type CaseMediatorRole = typeof caseMediatorRoles[number];
+
+export const caseMediators = pgTable("case_mediators", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: text("role").notNull().default("co"), // lead, co
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("UQ_case_mediator").on(table.caseId, table.userId)]);
+
+// Sittings of a mediation, e.g. a preliminary conference followed by one or more full-day sessions.
+// Each has its own Zoom meeting and calendar event.
+export const sessionFormats = ["remote", "in_person"] as const;
+export type SessionFormat = typeof sessionFormats[number];
+
+export const sessionFormatLabels: Record<SessionFormat, string> = {
+  remote: "Remote",
+  in_person: "In-Person",
+};
+
+export const mediationSessions = pgTable("mediation_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  title: text("title").notNull().default("Mediation session"), // e.g. Preliminary conference, Day 2
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(210),
+  format: text("format").notNull().default("remote"), // see sessionFormats
+  venue: text("venue"), // address for in-person sessions
+  zoomMeetingId: text("zoom_meeting_id"),
+  zoomMeetingLink: text("zoom_meeting_link"),
+  zoomMeetingPassword: text("zoom_meeting_password"),
+  calendarEventId: text("calendar_event_id"), // in the lead mediator's Google Calendar
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_mediation_sessions_case").on(table.caseId, table.startsAt),
+  index("IDX_mediation_sessions_starts").on(table.startsAt),
+]);
+
+// Attendance register for a session: who was there, when they arrived and left, and whether they could
+// settle. Party and representative rows link back to the case's parties; interpreters and others are free-form.
+export const attendeeRoles = ["party", "representative", "interpreter", "support_person", "other"] as const;
+export type AttendeeRole = typeof attendeeRoles[number];
+
+export const attendeeRoleLabels: Record<AttendeeRole, string> = {
+  party: "Party",
+  representative: "Representative",
+  interpreter: "Interpreter",
+  support_person: "Support person",
+  other: "Other",
+};
+
+// Rows added by hand, or from the Zoom participant report for the session's meeting
+export const attendanceSources = ["manual", "zoom"] as const;
+export type AttendanceSource = typeof attendanceSources[number];
+
+export const sessionAttendees = pgTable("session_attendees", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  caseId: varchar("case_id").notNull(),
+  partyId: varchar("party_id"), // the party attended for, or supported
+  representativeId: varchar("representative_id"), // set when attending as one of the party's representatives
+  name: text("name").notNull(),
+  email: text("email"),
+  role: text("role").notNull().default("party"), // see attendeeRoles
+  arrivedAt: timestamp("arrived_at"),
+  leftAt: timestamp("left_at"),
+  authorityToSettle: boolean("authority_to_settle").notNull().default(false),
+  notes: text("notes"), // e.g. the interpreter's language
+  source: text("source").notNull().default("manual"), // see attendanceSources
+  recordedBy: varchar("recorded_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_session_attendees_session").on(table.sessionId),
+  index("IDX_session_attendees_case").on(table.caseId),
+]);
+
+// Session log from live session mode: the session split into joint sessions and private caucuses with
+// one party, back to back. At most one segment per session is running (endedAt null).
+export const sessionSegmentKinds = ["joint", "caucus"] as const;
+export type SessionSegmentKind = typeof sessionSegmentKinds[number];
+
+export const sessionSegmentKindLabels: Record<SessionSegmentKind, string> = {
+  joint: "Joint session",
+  caucus: "Caucus",
+};
+
+export const sessionSegments = pgTable("session_segments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  caseId: varchar("case_id").notNull(),
+  kind: text("kind").notNull(), // see sessionSegmentKinds
+  partyId: varchar("party_id"), // the party in caucus; null for joint sessions
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+  startedBy: varchar("started_by"),
+}, (table) => [
+  index("IDX_session_segments_session").on(table.sessionId, table.startedAt),
+  index("IDX_session_segments_case").on(table.caseId),
+]);
+
+// The mediator's private notes from a session. Notes tagged to a party were taken in (or about) that
+// party's caucus and are confidential to it: they are kept apart from case notes and never go into
+// emails, exports, AI prompts, search or the audit trail.
+export const caucusNotes = pgTable("caucus_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull(),
+  caseId: varchar("case_id").notNull(),
+  segmentId: varchar("segment_id"), // the joint session or caucus running when the note was taken
+  partyId: varchar("party_id"), // null for notes from a joint session
+  content: text("content").notNull(),
+  authorId: varchar("author_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_caucus_notes_session").on(table.sessionId, table.createdAt),
+  index("IDX_caucus_notes_case").on(table.caseId),
+]);
+
+// One row per lifecycle transition, including the initial status when the case is created
+export const caseStatusHistory = pgTable("case_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  fromStatus: text("from_status"), // null for the initial status
+  toStatus: text("to_status").notNull(),
+  actorId: varchar("actor_id").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// How a mediation ended, one per case. Recording it moves the case to the matching outcome status;
+// a case cannot be closed without one.
+export const caseOutcomes = pgTable("case_outcomes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull().unique(),
+  outcomeType: text("outcome_type").notNull(), // see outcomeCaseStatuses
+  settlementAmount: numeric("settlement_amount", { precision: 14, scale: 2 }),
+  currency: text("currency").notNull().default("AUD"),
+  paymentTerms: text("payment_terms"),
+  nonMonetaryTerms: text("non_monetary_terms"),
+  resolvedIssues: text("resolved_issues").array().notNull().default(sql`'{}'::text[]`), // taken from cases.issuesForDiscussion
+  sessionDurationMinutes: integer("session_duration_minutes"),
+  recordedBy: varchar("recorded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_case_outcomes_type").on(table.outcomeType, table.createdAt)]);
+
+// Billable work on a case. The hourly rate and currency are copied from the mediator's profile when
+// the entry is logged, so later rate changes don't alter recorded work.
+export const timeEntryActivityTypes = ["preparation", "session", "follow_up", "correspondence", "travel", "administration"] as const;
+export type TimeEntryActivityType = typeof timeEntryActivityTypes[number];
+
+export const timeEntryActivityLabels: Record<TimeEntryActivityType, string> = {
+  preparation: "Preparation",
+  session: "Session",
+  follow_up: "Follow-up",
+  correspondence: "Correspondence",
+  travel: "Travel",
+  administration: "Administration",
+};
+
+// How the entry was created; suggested entries keep the email (audit event), AI analysis or attended session they came from
+export const timeEntrySources = ["timer", "manual", "email", "ai_analysis", "attendance"] as const;
+export type TimeEntrySource = typeof timeEntrySources[number];
+
+export const timeEntries = pgTable("time_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  activityType: text("activity_type").notNull().default("preparation"), // see timeEntryActivityTypes
+  description: text("description"),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"), // null while the timer is running
+  durationMinutes: integer("duration_minutes"), // null while the timer is running
+  billable: boolean("billable").notNull().default(true),
+  hourlyRate: numeric("hourly_rate", { precision: 10, scale: 2 }), // null when the mediator had no rate set
+  currency: text("currency").notNull().default("AUD"),
+  source: text("source").notNull().default("manual"), // see timeEntrySources
+  sourceId: varchar("source_id"),
+  invoiceRunId: varchar("invoice_run_id"), // set once billed; see invoices.runId
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_time_entries_case").on(table.caseId, table.startedAt),
+  index("IDX_time_entries_user").on(table.userId, table.endedAt),
+]);
+
+export const expenseCategories = ["venue", "travel", "catering", "interpreter", "transcription", "printing", "other"] as const;
+export type ExpenseCategory = typeof expenseCategories[number];
+
+export const expenseCategoryLabels: Record<ExpenseCategory, string> = {
+  venue: "Venue hire",
+  travel: "Travel",
+  catering: "Catering",
+  interpreter: "Interpreter",
+  transcription: "Transcription",
+  printing: "Printing & copying",
+  other: "Other",
+};
+
+export const caseExpenses = pgTable("case_expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  incurredOn: timestamp("incurred_on").notNull(),
+  category: text("category").notNull().default("other"), // see expenseCategories
+  description: text("description").notNull(),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("AUD"),
+  billable: boolean("billable").notNull().default(true),
+  invoiceRunId: varchar("invoice_run_id"), // set once billed; see invoices.runId
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_case_expenses_case").on(table.caseId, table.incurredOn)]);
+
+// Suggested time entries the user chose not to log, so they aren't offered again
+export const dismissedTimeSuggestions = pgTable("dismissed_time_suggestions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  source: text("source").notNull(), // email, ai_analysis
+  sourceId: varchar("source_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("UQ_dismissed_time_suggestion").on(table.userId, table.source, table.sourceId)]);
+
+// Amount billed for a time entry; null while the timer runs or when no rate was set
+export function timeEntryAmount(entry: { durationMinutes: number | null; hourlyRate: string | null }): number | null {
+  if (entry.durationMinutes === null || entry.hourlyRate === null) return null;
+  return Math.round(entry.durationMinutes * Number(entry.hourlyRate) / 60 * 100) / 100;
+}
+
+// Letterhead, payment details and the invoice number sequence. One per practice (or per user without one).
+export const invoiceSettings = pgTable("invoice_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").unique(),
+  ownerId: varchar("owner_id").notNull(),
+  businessName: text("business_name").notNull(),
+  address: text("address"),
+  taxNumber: text("tax_number"), // ABN or equivalent
+  email: text("email"),
+  phone: text("phone"),
+  logoObjectPath: text("logo_object_path"),
+  paymentInstructions: text("payment_instructions"), // bank details, BPAY etc.
+  paymentTermsDays: integer("payment_terms_days").notNull().default(14),
+  taxRate: numeric("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"), // percent added to fees, e.g. 10 for GST
+  taxLabel: text("tax_label").notNull().default("GST"),
+  numberPrefix: text("number_prefix").notNull().default("INV-"),
+  nextNumber: integer("next_number").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One invoice per paying party. Invoices generated together share a runId, which is also stamped on the
+// time entries and expenses they billed. Line items are a snapshot so later edits don't change issued invoices.
+export const invoiceStatuses = ["unpaid", "paid", "void"] as const;
+export type InvoiceStatus = typeof invoiceStatuses[number];
+
+// Overdue is not stored: it is an unpaid invoice past its due date
+export type InvoiceDisplayStatus = InvoiceStatus | "overdue";
+
+export const invoiceStatusLabels: Record<InvoiceDisplayStatus, string> = {
+  unpaid: "Unpaid",
+  overdue: "Overdue",
+  paid: "Paid",
+  void: "Void",
+};
+
+export const invoiceBillTo = ["party", "legal_rep"] as const;
+export type InvoiceBillTo = typeof invoiceBillTo[number];
+
+export type InvoiceLineItem = {
+  kind: "time" | "expense";
+  date: string;
+  description: string;
+  quantity: number; // hours for time, 1 for expenses
+  unitAmount: number;
+  amount: number; // full amount before the party's share is applied
+};
+
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  settingsId: varchar("settings_id").notNull(), // numbering scope; see invoiceSettings
+  runId: varchar("run_id").notNull(),
+  invoiceNumber: text("invoice_number").notNull(),
+  partyId: varchar("party_id"),
+  billTo: text("bill_to").notNull().default("party"), // see invoiceBillTo
+  recipientName: text("recipient_name").notNull(), // party entity or law firm
+  recipientAttention: text("recipient_attention"), // contact person or solicitor
+  recipientEmail: text("recipient_email"),
+  partyName: text("party_name").notNull(),
+  sharePercent: numeric("share_percent", { precision: 5, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default("AUD"),
+  lineItems: jsonb("line_items").$type<InvoiceLineItem[]>().notNull().default([]),
+  subtotal: numeric("subtotal", { precision: 12, scale: 2 }).notNull(), // the party's share, before tax
+  taxRate: numeric("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxAmount: numeric("tax_amount", { precision: 12, scale: 2 }).notNull().default("0"),
+  total: numeric("total", { precision: 12, scale: 2 }).notNull(),
+  issuedAt: timestamp("issued_at").notNull(),
+  dueAt: timestamp("due_at").notNull(),
+  status: text("status").notNull().default("unpaid"), // see invoiceStatuses
+  paidAt: timestamp("paid_at"),
+  sentAt: timestamp("sent_at"),
+  sentTo: text("sent_to"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("UQ_invoice_number").on(table.settingsId, table.invoiceNumber),
+  index("IDX_invoices_case").on(table.caseId, table.issuedAt),
+  index("IDX_invoices_status").on(table.status, table.dueAt),
+]);
+
+export function formatInvoiceNumber(prefix: string, sequence: number): string {
+  return `${prefix}${String(sequence).padStart(6, "0")}`;
+}
+
+export function invoiceDisplayStatus(invoice: { status: string; dueAt: Date | string }, now = new Date()): InvoiceDisplayStatus {
+  if (invoice.status === "unpaid" && new Date(invoice.dueAt) < now) return "overdue";
+  return invoice.status as InvoiceStatus;
+}
+
+// Things to get done on a case, e.g. "agreement to mediate signed". A task is due on a fixed date, or a number
+// of days before/after the mediation (dueOffsetDays), in which case dueAt follows the mediation date when it moves.
+export const caseTasks = pgTable("case_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  assigneeId: varchar("assignee_id"),
+  dueAt: timestamp("due_at"), // null when undated, or relative to a mediation date that isn't set yet
+  dueOffsetDays: integer("due_offset_days"), // negative is before the mediation; null for fixed or no due date
+  completedAt: timestamp("completed_at"),
+  completedBy: varchar("completed_by"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_case_tasks_case").on(table.caseId, table.sortOrder),
+  index("IDX_case_tasks_assignee").on(table.assigneeId, table.completedAt, table.dueAt),
+]);
+
+// Resolves a relative due date: the mediation's date and time moved by whole days
+export function taskDueFromMediation(mediationDate: Date | string | null, offsetDays: number): Date | null {
+  if (!mediationDate) return null;
+  const due = new Date(mediationDate);
+  due.setDate(due.getDate() + offsetDays);
+  return due;
+}
+
+// Persistent background jobs run by the worker in server/jobs.ts. A failed attempt is retried with
+// exponential backoff until maxAttempts is reached; queued jobs can be cancelled or moved.
+export const jobStatuses = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // handler name, e.g. reminder.send
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  caseId: varchar("case_id"), // set for jobs about one case
+  status: text("status").notNull().default("queued"), // see jobStatuses
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  lastError: text("last_error"),
+  lockedAt: timestamp("locked_at"), // last heartbeat of the current attempt
+  singleton: boolean("singleton").notNull().default(false), // at most one queued at a time, e.g. recurring jobs
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_jobs_due").on(table.status, table.runAt),
+  index("IDX_jobs_case").on(table.caseId),
+  uniqueIndex("IDX_jobs_singleton_queued").on(table.type).where(sql`${table.singleton} and ${table.status} = 'queued'`),
+]);
+
+// Automated emails sent a number of days before the mediation. Shared by the practice like case types.
+export const reminderRecipients = ["parties", "parties_and_representatives"] as const;
+export type ReminderRecipients = typeof reminderRecipients[number];
+
+export const reminderRecipientLabels: Record<ReminderRecipients, string> = {
+  parties: "Party contacts",
+  parties_and_representatives: "Party contacts and their representatives",
+};
+
+export const reminderRules = pgTable("reminder_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id"),
+  ownerId: varchar("owner_id").notNull(),
+  name: text("name").notNull(),
+  daysBefore: integer("days_before").notNull(),
+  recipients: text("recipients").notNull().default("parties_and_representatives"), // see reminderRecipients
+  subject: text("subject").notNull(), // email template placeholders, e.g. {caseNumber}
+  body: text("body").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Settlement agreement templates, shared by the practice like reminder rules. Title and body use the email
+// template placeholders plus the settlement term placeholders below; body lines starting "# " are headings.
+export const settlementTemplates = pgTable("settlement_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id"),
+  ownerId: varchar("owner_id").notNull(),
+  name: text("name").notNull(), // also names the generated documents, e.g. "Heads of Agreement v2.docx"
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One reminder per rule for each mediation session and date. Reminders for a session that has
+// since moved are skipped and new ones are scheduled for the new date.
+export const caseReminderStatuses = ["scheduled", "sent", "cancelled", "skipped", "failed"] as const;
+export type CaseReminderStatus = typeof caseReminderStatuses[number];
+
+export const caseReminderStatusLabels: Record<CaseReminderStatus, string> = {
+  scheduled: "Scheduled",
+  sent: "Sent",
+  cancelled: "Cancelled",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+export const caseReminders = pgTable("case_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  ruleId: varchar("rule_id").notNull(),
+  ruleName: text("rule_name").notNull(),
+  sessionId: varchar("session_id"), // the mediation session being reminded about
+  mediationDate: timestamp("mediation_date").notNull(), // the session's start when the reminder was scheduled
+  sendAt: timestamp("send_at").notNull(),
+  status: text("status").notNull().default("scheduled"), // see caseReminderStatuses
+  statusNote: text("status_note"), // why it was skipped or failed
+  jobId: varchar("job_id"),
+  recipients: text("recipients").array().notNull().default(sql`'{}'::text[]`), // addresses sent to so far
+  sentAt: timestamp("sent_at"),
+  cancelledBy: varchar("cancelled_by"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("UQ_case_reminder").on(table.caseId, table.ruleId, table.mediationDate),
+  index("IDX_case_reminders_case").on(table.caseId, table.sendAt),
+]);
+
+// Directory of people and organisations (law firms, companies) reused across cases.
+// Shared by everyone in an organization; users without one have a private directory.
+export const contactKinds = ["person", "organization"] as const;
+export type ContactKind = typeof contactKinds[number];
+
+export const contacts = pgTable("contacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id"),
+  ownerId: varchar("owner_id").notNull(),
+  kind: text("kind").notNull().default("person"), // person, organization
+  name: text("name").notNull(),
+  firmId: varchar("firm_id"), // organization contact a person works for
+  role: text("role"), // e.g. Solicitor, Partner, Director
+  email: text("email"),
+  phone: text("phone"),
+  notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -61,6 +680,7 @@ export const cases = pgTable("cases", {
 export const parties = pgTable("parties", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   caseId: varchar("case_id").notNull(),
+  contactId: varchar("contact_id"), // directory entry for the party entity
   entityName: text("entity_name").notNull(),
   partyType: text("party_type").notNull(), // applicant, respondent
   primaryContactName: text("primary_contact_name"),
@@ -71,6 +691,28 @@ export const parties = pgTable("parties", {
   legalRepFirm: text("legal_rep_firm"),
   legalRepEmail: text("legal_rep_email"),
   legalRepPhone: text("legal_rep_phone"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_parties_search").using("gin", searchVector(table.entityName, table.primaryContactName, table.primaryContactEmail, table.legalRepName, table.legalRepFirm)),
+]);
+
+// Legal representatives and support persons for a party. The legalRep* columns on parties
+// mirror the first legal representative so placeholders and AI prompts keep working.
+export const partyRepresentativeKinds = ["legal_rep", "support_person"] as const;
+export type PartyRepresentativeKind = typeof partyRepresentativeKinds[number];
+
+export const partyRepresentatives = pgTable("party_representatives", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partyId: varchar("party_id").notNull(),
+  contactId: varchar("contact_id"), // directory entry for the person
+  kind: text("kind").notNull().default("legal_rep"), // legal_rep, support_person
+  name: text("name").notNull(),
+  firm: text("firm"),
+  role: text("role"), // e.g. Solicitor, Counsel, Interpreter, Family member
+  email: text("email"),
+  phone: text("phone"),
+  sortOrder: integer("sort_order").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -86,8 +728,17 @@ export const documents = pgTable("documents", {
   extractedText: text("extracted_text"),
   isProcessed: boolean("is_processed").default(false),
   uploadedBy: varchar("uploaded_by").notNull(),
+  version: integer("version"), // draft number of generated documents such as settlement agreements; null for uploads
+  versionGroup: text("version_group"), // the series the version counts in, e.g. the settlement template's file name
+  deletedAt: timestamp("deleted_at"), // set with the case's deletedAt when the whole case is trashed
+  deletedBy: varchar("deleted_by"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // tsvectors are capped at 1MB, so only the start of very long documents is indexed
+  index("IDX_documents_search").using("gin", searchVector(table.originalName, documentSearchText(table.extractedText))),
+  // Each version of a series is saved once per format (DOCX and PDF)
+  uniqueIndex("IDX_documents_version").on(table.caseId, table.versionGroup, table.version, table.mimeType).where(sql`${table.versionGroup} is not null`),
+]);
 
 export const caseNotes = pgTable("case_notes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -96,7 +747,9 @@ export const caseNotes = pgTable("case_notes", {
   authorId: varchar("author_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_case_notes_search").using("gin", searchVector(table.content)),
+]);
 
 export const aiAnalyses = pgTable("ai_analyses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -107,6 +760,91 @@ export const aiAnalyses = pgTable("ai_analyses", {
   metadata: jsonb("metadata"),
   createdBy: varchar("created_by").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_ai_analyses_search").using("gin", searchVector(table.output)),
+]);
+
+// Append-only audit trail. A trigger created at startup (storage.protectAuditTrail) rejects updates and deletes.
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    caseId: varchar("case_id"),
+    actorId: varchar("actor_id"), // null for system actions
+    action: text("action").notNull(), // e.g. case.updated, party.created, document.viewed, email.sent
+    entityType: text("entity_type").notNull(), // case, party, document, note, ai_analysis, email, mediator
+    entityId: varchar("entity_id"),
+    changes: jsonb("changes").$type<AuditChanges>(),
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+    ipAddress: text("ip_address"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_audit_events_case").on(table.caseId, table.createdAt)],
+);
+
+// Records retention policy. A closed case becomes due for destruction retentionYears after it closed.
+// Rules belong to a practice (or to a user without one); the most specific matching rule applies.
+export const retentionRules = pgTable("retention_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id"),
+  ownerId: varchar("owner_id").notNull(),
+  outcomeStatus: text("outcome_status"), // see outcomeCaseStatuses; null matches any outcome
+  mediationType: text("mediation_type"), // null matches any mediation type
+  retentionYears: integer("retention_years").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Cases past retention wait here until someone approves the purge or defers it
+export const retentionReviewStatuses = ["pending", "deferred", "purged"] as const;
+export type RetentionReviewStatus = typeof retentionReviewStatuses[number];
+
+export const retentionReviews = pgTable("retention_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caseId: varchar("case_id").notNull(),
+  organizationId: varchar("organization_id"),
+  ownerId: varchar("owner_id").notNull(),
+  ruleId: varchar("rule_id"),
+  dueAt: timestamp("due_at").notNull(),
+  status: text("status").notNull().default("pending"), // pending, deferred, purged
+  deferredUntil: timestamp("deferred_until"),
+  note: text("note"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  certificateId: varchar("certificate_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Permanent record of what was destroyed under the retention policy. Outlives the case it describes.
+export type DestructionSummary = {
+  parties: string[];
+  representatives: number;
+  documents: { name: string; fileSize: number | null }[];
+  notes: number;
+  aiAnalyses: number;
+  statusChanges: number;
+  filesDeleted: number;
+  externalLinksRemoved: string[];
+};
+
+export const destructionCertificates = pgTable("destruction_certificates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id"),
+  ownerId: varchar("owner_id").notNull(),
+  caseId: varchar("case_id").notNull(),
+  caseNumber: text("case_number").notNull(),
+  mediationType: text("mediation_type"),
+  outcomeStatus: text("outcome_status"),
+  closedAt: timestamp("closed_at"),
+  ruleId: varchar("rule_id"),
+  retentionYears: integer("retention_years"),
+  approvedBy: varchar("approved_by").notNull(),
+  note: text("note"),
+  summary: jsonb("summary").$type<DestructionSummary>().notNull(),
+  destroyedAt: timestamp("destroyed_at").defaultNow(),
 });
 
 export const emailTemplates = pgTable("email_templates", {
@@ -161,6 +899,9 @@ export const calendarSettings = pgTable("calendar_settings", {
 export const casesRelations = relations(cases, ({ many, one }) => ({
   parties: many(parties),
   documents: many(documents),
+  caseMediators: many(caseMediators),
+  sessions: many(mediationSessions),
+  statusHistory: many(caseStatusHistory),
   caseNotes: many(caseNotes),
   aiAnalyses: many(aiAnalyses),
   mediator: one(users, {
@@ -169,11 +910,110 @@ export const casesRelations = relations(cases, ({ many, one }) => ({
   }),
 }));
 
-export const partiesRelations = relations(parties, ({ one }) => ({
+export const mediationSessionsRelations = relations(mediationSessions, ({ one }) => ({
+  case: one(cases, {
+    fields: [mediationSessions.caseId],
+    references: [cases.id],
+  }),
+}));
+
+export const sessionAttendeesRelations = relations(sessionAttendees, ({ one }) => ({
+  session: one(mediationSessions, {
+    fields: [sessionAttendees.sessionId],
+    references: [mediationSessions.id],
+  }),
+}));
+
+export const sessionSegmentsRelations = relations(sessionSegments, ({ one }) => ({
+  session: one(mediationSessions, {
+    fields: [sessionSegments.sessionId],
+    references: [mediationSessions.id],
+  }),
+}));
+
+export const caucusNotesRelations = relations(caucusNotes, ({ one }) => ({
+  segment: one(sessionSegments, {
+    fields: [caucusNotes.segmentId],
+    references: [sessionSegments.id],
+  }),
+}));
+
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  members: many(organizationMembers),
+}));
+
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const caseOutcomesRelations = relations(caseOutcomes, ({ one }) => ({
+  case: one(cases, {
+    fields: [caseOutcomes.caseId],
+    references: [cases.id],
+  }),
+}));
+
+export const caseStatusHistoryRelations = relations(caseStatusHistory, ({ one }) => ({
+  case: one(cases, {
+    fields: [caseStatusHistory.caseId],
+    references: [cases.id],
+  }),
+  actor: one(users, {
+    fields: [caseStatusHistory.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const caseMediatorsRelations = relations(caseMediators, ({ one }) => ({
+  case: one(cases, {
+    fields: [caseMediators.caseId],
+    references: [cases.id],
+  }),
+  user: one(users, {
+    fields: [caseMediators.userId],
+    references: [users.id],
+  }),
+}));
+
+export const partiesRelations = relations(parties, ({ one, many }) => ({
+  representatives: many(partyRepresentatives),
   case: one(cases, {
     fields: [parties.caseId],
     references: [cases.id],
   }),
+  contact: one(contacts, {
+    fields: [parties.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const partyRepresentativesRelations = relations(partyRepresentatives, ({ one }) => ({
+  party: one(parties, {
+    fields: [partyRepresentatives.partyId],
+    references: [parties.id],
+  }),
+  contact: one(contacts, {
+    fields: [partyRepresentatives.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const contactsRelations = relations(contacts, ({ one, many }) => ({
+  firm: one(contacts, {
+    fields: [contacts.firmId],
+    references: [contacts.id],
+    relationName: "firm_members",
+  }),
+  members: many(contacts, { relationName: "firm_members" }),
+  parties: many(parties),
+  representatives: many(partyRepresentatives),
 }));
 
 export const documentsRelations = relations(documents, ({ one }) => ({
@@ -217,19 +1057,616 @@ export const usersRelations = relations(users, ({ many }) => ({
 }));
 
 // Zod schemas for validation
-export const insertCaseSchema = createInsertSchema(cases).omit({
+// Tags are matched case-insensitively, so they are stored lowercase and de-duplicated
+export const caseTagsSchema = z
+  .array(z.string().trim().toLowerCase().min(1).max(40, "Tags are limited to 40 characters"))
+  .max(20, "A case can have at most 20 tags")
+  .transform(tags => Array.from(new Set(tags)));
+
+export const insertCaseSchema = createInsertSchema(cases, {
+  customFields: z.record(z.union([z.string(), z.number(), z.null()])).nullish(),
+  tags: caseTagsSchema.optional(),
+}).omit({
   id: true,
+  conflictReport: true,
+  feeSplit: true,
+  conflictAcknowledgedAt: true,
+  conflictAcknowledgedBy: true,
+  conflictAcknowledgementNote: true,
+  closedAt: true,
+  deletedAt: true,
+  deletedBy: true,
+  zoomMeetingId: true,
+  zoomMeetingLink: true,
+  zoomMeetingPassword: true,
+  calendarEventId: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Fields a case edit may change. The lead mediator changes through /api/cases/:id/mediators, the status
+// through the lifecycle endpoint, and the rest of the row only through their own endpoints.
+export const updateCaseSchema = insertCaseSchema.pick({
+  caseNumber: true,
+  mediationNumber: true,
+  mediatorName: true,
+  mediationType: true,
+  premises: true,
+  disputeBackground: true,
+  issuesForDiscussion: true,
+  caseTypeId: true,
+  customFields: true,
+  tags: true,
+}).extend({
+  mediationDate: z.coerce.date().nullish(), // becomes the first session of a case without any
+}).partial();
+
+export const caseListSortFields = ["updatedAt", "createdAt", "mediationDate", "caseNumber"] as const;
+export type CaseListSortField = typeof caseListSortFields[number];
+
+// Query strings repeat a parameter (status=a&status=b) or separate values with commas
+const queryList = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  value => (value === undefined ? undefined : (Array.isArray(value) ? value : [value]).flatMap(v => String(v).split(",")).filter(Boolean)),
+  z.array(item).optional(),
+);
+const queryDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates").optional();
+
+// Filters for GET /api/cases/search. Saved views store these; nextDays keeps "upcoming" views relative to today.
+export const caseListFiltersSchema = z.object({
+  status: queryList(z.enum(caseStatuses)),
+  mediationType: z.string().trim().max(100).optional(),
+  caseTypeId: z.string().max(100).optional(),
+  tag: queryList(z.string().trim().toLowerCase().max(40)),
+  party: z.string().trim().max(200).optional(),
+  dateFrom: queryDate,
+  dateTo: queryDate,
+  nextDays: z.coerce.number().int().min(1).max(366).optional(),
+  sort: z.enum(caseListSortFields).optional(),
+  order: z.enum(["asc", "desc"]).optional(),
+});
+
+export const caseListQuerySchema = caseListFiltersSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export const insertSavedCaseViewSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  filters: caseListFiltersSchema,
+});
+
+// Bulk case import from referral spreadsheets. Party columns are given for the applicant and the respondent.
+export const caseImportFields = [
+  "caseNumber",
+  "mediationNumber",
+  "mediationType",
+  "mediationDate",
+  "premises",
+  "disputeBackground",
+  "issuesForDiscussion",
+  "tags",
+  "applicant.entityName",
+  "applicant.primaryContactName",
+  "applicant.primaryContactEmail",
+  "applicant.primaryContactPhone",
+  "applicant.legalRepName",
+  "applicant.legalRepFirm",
+  "applicant.legalRepEmail",
+  "applicant.legalRepPhone",
+  "respondent.entityName",
+  "respondent.primaryContactName",
+  "respondent.primaryContactEmail",
+  "respondent.primaryContactPhone",
+  "respondent.legalRepName",
+  "respondent.legalRepFirm",
+  "respondent.legalRepEmail",
+  "respondent.legalRepPhone",
+] as const;
+
+export const caseImportFieldLabels: Record<typeof caseImportFields[number], string> = {
+  caseNumber: "Case number",
+  mediationNumber: "Mediation number",
+  mediationType: "Mediation type",
+  mediationDate: "Session date",
+  premises: "Premises",
+  disputeBackground: "Dispute background",
+  issuesForDiscussion: "Issues (separated by ;)",
+  tags: "Tags (separated by ;)",
+  "applicant.entityName": "Applicant name",
+  "applicant.primaryContactName": "Applicant contact",
+  "applicant.primaryContactEmail": "Applicant email",
+  "applicant.primaryContactPhone": "Applicant phone",
+  "applicant.legalRepName": "Applicant's lawyer",
+  "applicant.legalRepFirm": "Applicant's law firm",
+  "applicant.legalRepEmail": "Applicant's lawyer email",
+  "applicant.legalRepPhone": "Applicant's lawyer phone",
+  "respondent.entityName": "Respondent name",
+  "respondent.primaryContactName": "Respondent contact",
+  "respondent.primaryContactEmail": "Respondent email",
+  "respondent.primaryContactPhone": "Respondent phone",
+  "respondent.legalRepName": "Respondent's lawyer",
+  "respondent.legalRepFirm": "Respondent's law firm",
+  "respondent.legalRepEmail": "Respondent's lawyer email",
+  "respondent.legalRepPhone": "Respondent's lawyer phone",
+};
+
+// Maps each field to the spreadsheet column (header text) it is read from
+export const caseImportMappingSchema = z.record(z.enum(caseImportFields), z.string().trim().min(1));
+
+// Sent as multipart form fields alongside the spreadsheet, so the mapping arrives as JSON text
+export const caseImportRequestSchema = z.object({
+  mapping: z.preprocess(
+    (value) => (typeof value === "string" ? JSON.parse(value) : value),
+    caseImportMappingSchema,
+  ).optional(),
+  mediatorId: z.string().optional(),
+  // Import the valid rows and leave out rows with errors or duplicate case numbers
+  skipInvalid: z.preprocess((value) => value === true || value === "true", z.boolean()).default(false),
+});
+
+export const insertCaseMediatorSchema = createInsertSchema(caseMediators, {
+  role: z.enum(caseMediatorRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMediationSessionSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(120).default("Mediation session"),
+  startsAt: z.coerce.date(),
+  durationMinutes: z.number().int().min(15).max(24 * 60).default(210),
+  format: z.enum(sessionFormats).default("remote"),
+  venue: z.string().trim().max(500).nullish(),
+});
+
+export const updateMediationSessionSchema = insertMediationSessionSchema.partial();
+
+// GET /api/sessions: sessions on the user's cases starting in [from, to), for the calendar
+export const sessionRangeQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine(range => range.to > range.from, { message: "The range must end after it starts", path: ["to"] });
+
+const sessionAttendeeFields = z.object({
+  partyId: z.string().nullish(),
+  representativeId: z.string().nullish(),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  email: z.string().trim().email().nullish().or(z.literal("")),
+  role: z.enum(attendeeRoles).default("party"),
+  arrivedAt: z.coerce.date().nullish(),
+  leftAt: z.coerce.date().nullish(),
+  authorityToSettle: z.boolean().default(false),
+  notes: z.string().trim().max(500).nullish(),
+});
+
+const leftAfterArriving = (attendee: { arrivedAt?: Date | null; leftAt?: Date | null }) =>
+  !attendee.arrivedAt || !attendee.leftAt || attendee.leftAt >= attendee.arrivedAt;
+
+export const insertSessionAttendeeSchema = sessionAttendeeFields
+  .refine(leftAfterArriving, { message: "Left time must be after the arrival time", path: ["leftAt"] });
+
+export const updateSessionAttendeeSchema = sessionAttendeeFields.partial()
+  .refine(leftAfterArriving, { message: "Left time must be after the arrival time", path: ["leftAt"] });
+
+export const startSessionSegmentSchema = z.object({
+  kind: z.enum(sessionSegmentKinds),
+  partyId: z.string().nullish(),
+}).refine(segment => segment.kind === "joint" ? !segment.partyId : !!segment.partyId, {
+  message: "A caucus is held with one party; a joint session with none",
+  path: ["partyId"],
+});
+
+// partyId defaults to the party in the running caucus
+export const insertCaucusNoteSchema = z.object({
+  content: z.string().trim().min(1, "Note is required").max(10000),
+  partyId: z.string().nullish(),
+});
+
+// What can be on screen with a party in the room: joint-session notes and that party's own caucus notes.
+// With everyone in the room (partyId null) only joint-session notes.
+export function visibleCaucusNotes<T extends Pick<CaucusNote, "partyId">>(notes: T[], partyId: string | null): T[] {
+  return notes.filter(note => !note.partyId || note.partyId === partyId);
+}
+
+export function sessionEndsAt(session: Pick<MediationSession, "startsAt" | "durationMinutes">) {
+  return new Date(new Date(session.startsAt).getTime() + session.durationMinutes * 60 * 1000);
+}
+
+// The session still to come (or in progress), else the last one held. cases.mediationDate mirrors it.
+export function nextMediationSession<T extends Pick<MediationSession, "startsAt" | "durationMinutes">>(sessions: T[], now = new Date()): T | undefined {
+  const ordered = [...sessions].sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+  return ordered.find(session => sessionEndsAt(session) > now) ?? ordered[ordered.length - 1];
+}
+
+// How long a session actually ran by its attendance register: first arrival to last departure, running to
+// the scheduled end for anyone not checked out. Null when no one was checked in.
+export function attendedSessionWindow(
+  session: Pick<MediationSession, "startsAt" | "durationMinutes">,
+  attendees: Pick<SessionAttendee, "arrivedAt" | "leftAt">[],
+): { start: Date; end: Date; minutes: number } | null {
+  const present = attendees.filter(attendee => attendee.arrivedAt);
+  if (present.length === 0) return null;
+  const start = new Date(Math.min(...present.map(attendee => new Date(attendee.arrivedAt!).getTime())));
+  const scheduledEnd = sessionEndsAt(session).getTime();
+  const end = new Date(Math.max(start.getTime(), ...present.map(attendee =>
+    attendee.leftAt ? new Date(attendee.leftAt).getTime() : scheduledEnd)));
+  return { start, end, minutes: Math.round((end.getTime() - start.getTime()) / 60000) };
+}
+
+// Who the register expects at each session: every party's primary contact (or the entity when there is
+// none) and their representatives. Interpreters and anyone else are added on the day.
+export function expectedSessionAttendees(parties: PartyWithRepresentatives[]): InsertSessionAttendee[] {
+  return parties.flatMap(party => [
+    {
+      partyId: party.id,
+      representativeId: null,
+      name: party.primaryContactName || party.entityName,
+      email: party.primaryContactEmail,
+      role: "party" as const,
+      authorityToSettle: false,
+    },
+    ...party.representatives.map(representative => ({
+      partyId: party.id,
+      representativeId: representative.id,
+      name: representative.name,
+      email: representative.email,
+      role: representative.kind === "support_person" ? "support_person" as const : "representative" as const,
+      authorityToSettle: false,
+    })),
+  ]);
+}
+
+// Whether a register row is the entry for an expected attendee
+export function isExpectedAttendee(
+  attendee: Pick<SessionAttendee, "partyId" | "representativeId" | "role">,
+  expected: Pick<InsertSessionAttendee, "partyId" | "representativeId">,
+) {
+  return expected.representativeId
+    ? attendee.representativeId === expected.representativeId
+    : attendee.partyId === expected.partyId && attendee.role === "party" && !attendee.representativeId;
+}
+
+// Case-level mediation types ("Remote", "In-Person", "Hybrid") mapped onto a session format
+export function sessionFormatFromMediationType(mediationType: string | null | undefined): SessionFormat {
+  return mediationType && /person/i.test(mediationType) ? "in_person" : "remote";
+}
+
+const formatSessionDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-AU', { year: 'numeric', month: 'long', day: 'numeric' });
+const formatSessionTime = (date: Date | string) =>
+  new Date(date).toLocaleTimeString('en-AU', { hour: '2-digit', minute: '2-digit' });
+
+// How to attend: the Zoom link (and passcode) for remote sessions, otherwise the venue
+function sessionAttendance(session: MediationSession, fallbackVenue: string | null) {
+  const venue = session.venue || (session.format === "in_person" ? fallbackVenue : null);
+  if (session.zoomMeetingLink && (session.format === "remote" || !venue)) {
+    return session.zoomMeetingPassword
+      ? `Join on Zoom: ${session.zoomMeetingLink} (passcode ${session.zoomMeetingPassword})`
+      : `Join on Zoom: ${session.zoomMeetingLink}`;
+  }
+  return venue ? `Venue: ${venue}` : null;
+}
+
+// Values for the session placeholders in email templates. Date, time and joining details come from
+// the chosen session (the next one by default); {sessionSchedule} lists every session on the case.
+export function sessionPlaceholderValues(
+  caseData: Pick<Case, "mediationType" | "premises">,
+  sessions: MediationSession[],
+  session: MediationSession | undefined = nextMediationSession(sessions),
+): Record<string, string> {
+  const ordered = [...sessions].sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+  return {
+    sessionTitle: session?.title || '[Session Title]',
+    mediationDate: session ? formatSessionDate(session.startsAt) : '[Mediation Date]',
+    mediationTime: session ? formatSessionTime(session.startsAt) : '[Mediation Time]',
+    mediationType: session ? sessionFormatLabels[session.format as SessionFormat] ?? session.format : caseData.mediationType || '[Mediation Type]',
+    zoomLink: session?.zoomMeetingLink || '[Zoom Link]',
+    zoomPassword: session?.zoomMeetingPassword || '[Zoom Password]',
+    premises: session?.venue || caseData.premises || '[Location]',
+    sessionDetails: (session && sessionAttendance(session, caseData.premises)) || '[Session Details]',
+    sessionSchedule: ordered.length > 0
+      ? ordered.map(each => `${each.title}: ${formatSessionDate(each.startsAt)} at ${formatSessionTime(each.startsAt)}`).join('\n')
+      : '[Session Schedule]',
+  };
+}
+
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: string | number | null | undefined): string {
+  if (value === null || value === undefined || value === '') return 'Not specified';
+  switch (field.type) {
+    case 'currency':
+      return Number(value).toLocaleString('en-AU', { style: 'currency', currency: field.currency || 'AUD' });
+    case 'number':
+      return Number(value).toLocaleString('en-AU');
+    case 'date':
+      return new Date(`${value}T00:00:00`).toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+    default:
+      return String(value);
+  }
+}
+
+const partyPlaceholderFields: { suffix: string; label: string; value: (party: Party) => string | null }[] = [
+  { suffix: 'name', label: 'Name', value: party => party.entityName },
+  { suffix: 'contact', label: 'Contact', value: party => party.primaryContactName },
+  { suffix: 'email', label: 'Email', value: party => party.primaryContactEmail },
+  { suffix: 'phone', label: 'Phone', value: party => party.primaryContactPhone },
+  { suffix: 'lawyer', label: 'Lawyer', value: party => party.legalRepName },
+  { suffix: 'lawyer_firm', label: 'Law Firm', value: party => party.legalRepFirm },
+  { suffix: 'lawyer_email', label: 'Lawyer Email', value: party => party.legalRepEmail },
+  { suffix: 'lawyer_phone', label: 'Lawyer Phone', value: party => party.legalRepPhone },
+];
+
+// The {placeholder} vocabulary of email templates, reminders and settlement documents, filled the same way
+// in the email preview and on the server: case and session details, the case type's custom fields
+// ({field_<key>}) and numbered applicant/respondent fields, e.g. {applicant_1_name}. Missing values
+// render as "[Label]". Session placeholders describe the given session, or the case's next one.
+export function replaceCasePlaceholders(
+  text: string,
+  caseData: Case,
+  parties: Party[],
+  sessions: MediationSession[],
+  options: { session?: MediationSession; recipientName?: string; caseType?: Pick<CaseType, "fields"> } = {},
+): string {
+  if (!text) return '';
+
+  let result = text
+    .replace(/\{caseNumber\}/g, () => caseData.caseNumber || '[Case Number]')
+    .replace(/\{mediatorName\}/g, () => caseData.mediatorName || '[Mediator Name]')
+    .replace(/\{recipientName\}/g, () => options.recipientName || '[Recipient Name]');
+
+  for (const [key, value] of Object.entries(sessionPlaceholderValues(caseData, sessions, options.session))) {
+    result = result.replace(new RegExp(`\\{${key}\\}`, 'g'), () => value);
+  }
+
+  for (const field of options.caseType?.fields ?? []) {
+    const value = caseData.customFields?.[field.key];
+    result = result.replace(
+      new RegExp(`\\{field_${field.key}\\}`, 'g'),
+      () => (value === null || value === undefined || value === '' ? `[${field.label}]` : formatCustomFieldValue(field, value)),
+    );
+  }
+
+  // Numbered from 1; numbers past the last party of a side render as their label
+  for (const [partyType, sideLabel] of [['applicant', 'Applicant'], ['respondent', 'Respondent']] as const) {
+    const side = parties.filter(party => party.partyType === partyType);
+    for (const { suffix, label, value } of partyPlaceholderFields) {
+      result = result.replace(new RegExp(`\\{${partyType}_(\\d+)_${suffix}\\}`, 'g'), (_match, num: string) => {
+        const party = side[Number(num) - 1];
+        return (party && value(party)) || `[${sideLabel} ${num} ${label}]`;
+      });
+    }
+  }
+
+  // Listed in older templates, though cases do not record them
+  return result
+    .replace(/\{disputeType\}/g, '[Dispute Type]')
+    .replace(/\{disputeAmount\}/g, '[Dispute Amount]');
+}
+
+export const conflictCheckSubjectSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().max(200).nullish(),
+  firm: z.string().trim().max(200).nullish(),
+  label: z.string().trim().max(200).optional(),
+});
+
+export const conflictCheckSchema = z.object({
+  subjects: z.array(conflictCheckSubjectSchema).min(1).max(50),
+});
+
+export const acknowledgeConflictSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+});
+
+// Moves everything from the source case into the case in the URL; the emptied source goes to the trash
+export const mergeCasesSchema = z.object({
+  sourceCaseId: z.string().min(1),
+});
+
+export const caseStatusTransitionSchema = z.object({
+  status: z.enum(caseStatuses),
+  reason: z.string().trim().max(1000).optional(),
+});
+
+// Money sent as a number or the text of an input ("12,500.50"); stored as numeric, so kept as a 2-decimal string
+const moneyAmount = (label: string) => z.preprocess(
+  input => (input === "" || input === undefined || input === null ? null : typeof input === "string" ? Number(input.replace(/[,\s$]/g, "")) : input),
+  z.number({ invalid_type_error: `${label} must be a number` }).finite().nonnegative().max(999_999_999_999).nullable(),
+).transform(amount => (amount === null ? null : amount.toFixed(2)));
+
+const currencyCode = z.string().trim().toUpperCase().length(3, "Use a 3-letter currency code, e.g. AUD");
+
+// Settlement amount and payment terms only apply when something was agreed
+export const settledOutcomeTypes: OutcomeCaseStatus[] = ["settled", "partially_settled"];
+
+export const caseOutcomeSchema = z.object({
+  outcomeType: z.enum(outcomeCaseStatuses),
+  settlementAmount: moneyAmount("Settlement amount"),
+  currency: currencyCode.default("AUD"),
+  paymentTerms: z.string().trim().max(5000).nullish(),
+  nonMonetaryTerms: z.string().trim().max(10000).nullish(),
+  resolvedIssues: z.array(z.string().trim().min(1).max(500)).max(50).default([]),
+  sessionDurationMinutes: z.number().int().min(0).max(7 * 24 * 60).nullish(),
+}).refine(outcome => settledOutcomeTypes.includes(outcome.outcomeType) || (outcome.settlementAmount === null && !outcome.paymentTerms), {
+  message: "Settlement amount and payment terms can only be recorded for a settled or partially settled outcome",
+  path: ["settlementAmount"],
+});
+
+// Filters for GET /api/reports/outcomes; dates apply to when the outcome was recorded
+export const outcomeReportQuerySchema = z.object({
+  outcomeType: queryList(z.enum(outcomeCaseStatuses)),
+  mediationType: z.string().trim().max(100).optional(),
+  caseTypeId: z.string().max(100).optional(),
+  mediatorId: z.string().max(100).optional(),
+  dateFrom: queryDate,
+  dateTo: queryDate,
+});
+
+export const startTimerSchema = z.object({
+  activityType: z.enum(timeEntryActivityTypes),
+  description: z.string().trim().max(1000).nullish(),
+});
+
+// Manual entries and accepted suggestions; timer entries are created by starting and stopping a timer
+export const insertTimeEntrySchema = startTimerSchema.extend({
+  startedAt: z.coerce.date(),
+  durationMinutes: z.number().int().min(1, "Duration must be at least a minute").max(24 * 60, "Duration must be under 24 hours"),
+  billable: z.boolean().default(true),
+  source: z.enum(["manual", "email", "ai_analysis", "attendance"]).default("manual"),
+  sourceId: z.string().max(100).nullish(),
+});
+
+export const updateTimeEntrySchema = insertTimeEntrySchema.pick({
+  activityType: true,
+  description: true,
+  startedAt: true,
+  durationMinutes: true,
+  billable: true,
+}).extend({
+  hourlyRate: moneyAmount("Hourly rate"),
+}).partial();
+
+export const insertCaseExpenseSchema = z.object({
+  incurredOn: z.coerce.date(),
+  category: z.enum(expenseCategories),
+  description: z.string().trim().min(1, "Description is required").max(500),
+  amount: moneyAmount("Amount").refine(amount => amount !== null && Number(amount) > 0, "Amount is required"),
+  currency: currencyCode.default("AUD"),
+  billable: z.boolean().default(true),
+});
+
+export const updateCaseExpenseSchema = insertCaseExpenseSchema.partial();
+
+export const dismissTimeSuggestionSchema = z.object({
+  source: z.enum(["email", "ai_analysis", "attendance"]),
+  sourceId: z.string().min(1),
+});
+
+export const feeSplitShareSchema = z.object({
+  partyId: z.string().min(1),
+  percent: z.number().min(0).max(100),
+  billTo: z.enum(invoiceBillTo).default("party"),
+});
+
+const feeSplitSchema = z.array(feeSplitShareSchema).min(1, "Choose at least one party to invoice").max(50)
+  .refine(shares => Math.abs(shares.reduce((sum, share) => sum + share.percent, 0) - 100) < 0.01, "The shares must add up to 100%")
+  .refine(shares => new Set(shares.map(share => share.partyId)).size === shares.length, "Each party can only appear once");
+
+// Bills the case's unbilled billable time and expenses in one currency; the split is saved as the case default
+export const generateInvoicesSchema = z.object({
+  shares: feeSplitSchema,
+  currency: currencyCode.optional(), // required when unbilled items are in more than one currency
+  issuedAt: z.coerce.date().optional(),
+});
+
+export const updateInvoiceStatusSchema = z.object({
+  status: z.enum(["unpaid", "paid"]),
+  paidAt: z.coerce.date().optional(),
+});
+
+export const sendInvoiceSchema = z.object({
+  to: z.string().trim().email("Enter a valid recipient email"),
+  subject: z.string().trim().min(1).max(300).optional(),
+  message: z.string().trim().max(10000).optional(),
+});
+
+export const invoiceListQuerySchema = z.object({
+  status: queryList(z.enum(["unpaid", "overdue", "paid", "void"])),
+});
+
+export const invoiceSettingsSchema = z.object({
+  businessName: z.string().trim().min(1, "Business name is required").max(200),
+  address: z.string().trim().max(1000).nullish(),
+  taxNumber: z.string().trim().max(50).nullish(),
+  email: z.string().trim().email().nullish().or(z.literal("").transform(() => null)),
+  phone: z.string().trim().max(50).nullish(),
+  paymentInstructions: z.string().trim().max(2000).nullish(),
+  paymentTermsDays: z.number().int().min(0).max(365).default(14),
+  taxRate: z.preprocess(
+    input => (input === "" || input === undefined || input === null ? 0 : Number(input)),
+    z.number({ invalid_type_error: "Tax rate must be a number" }).min(0).max(100),
+  ).transform(rate => rate.toFixed(2)),
+  taxLabel: z.string().trim().min(1).max(20).default("GST"),
+  numberPrefix: z.string().trim().max(20).default("INV-"),
+  nextNumber: z.number().int().min(1).max(99_999_999).optional(), // lets a practice continue an existing sequence
+});
+
+// A task is due on a fixed date (dueAt) or relative to the mediation (dueOffsetDays), never both
+export const insertCaseTaskSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  description: z.string().trim().max(2000).nullish(),
+  assigneeId: z.string().max(100).nullish(),
+  dueAt: z.coerce.date().nullish(),
+  dueOffsetDays: z.number().int().min(-365).max(365).nullish(),
+}).refine(task => task.dueAt == null || task.dueOffsetDays == null, {
+  message: "Choose either a due date or a number of days from the mediation",
+  path: ["dueOffsetDays"],
+});
+
+export const updateCaseTaskSchema = insertCaseTaskSchema.innerType().extend({
+  completed: z.boolean(),
+}).partial().refine(task => task.dueAt == null || task.dueOffsetDays == null, {
+  message: "Choose either a due date or a number of days from the mediation",
+  path: ["dueOffsetDays"],
+});
+
+// GET /api/tasks/mine: open tasks assigned to the user, due within `days` (overdue ones are always included)
+export const myTasksQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(14),
+});
+
 export const insertPartySchema = createInsertSchema(parties).omit({
   id: true,
   createdAt: true,
 });
 
+// Representatives are edited through their own endpoints, so the mirrored legalRep* columns are not updatable here
+export const updatePartySchema = insertPartySchema.omit({
+  caseId: true,
+  sortOrder: true,
+  legalRepName: true,
+  legalRepFirm: true,
+  legalRepEmail: true,
+  legalRepPhone: true,
+}).partial();
+
+// Parties supplied with a new case so the intake conflict check covers them
+export const intakePartiesSchema = z.array(insertPartySchema.omit({ caseId: true })).max(50);
+
+export const reorderPartiesSchema = z.object({
+  partyIds: z.array(z.string()).min(1),
+});
+
+export const insertContactSchema = createInsertSchema(contacts, {
+  kind: z.enum(contactKinds),
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().email().nullish().or(z.literal("")),
+}).omit({
+  id: true,
+  organizationId: true,
+  ownerId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const contactMatchSchema = z.object({
+  name: z.string().optional(),
+  email: z.string().optional(),
+  kind: z.enum(contactKinds).optional(),
+});
+
+export const insertPartyRepresentativeSchema = createInsertSchema(partyRepresentatives, {
+  kind: z.enum(partyRepresentativeKinds),
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().email().nullish().or(z.literal("")),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
+  deletedAt: true,
+  deletedBy: true,
   createdAt: true,
 });
 
@@ -244,6 +1681,42 @@ export const insertAiAnalysisSchema = createInsertSchema(aiAnalyses).omit({
   createdAt: true,
 });
 
+// case.json in a case export bundle (GET /api/cases/:id/export). Ids, the mediator and Zoom/calendar
+// links belong to the exporting instance, so they are left out or ignored on import. The case type
+// travels by name; custom field values are kept only under the importing practice's type of that name.
+export const caseExportFormat = "mediatorpro-case-export";
+
+const exportedDate = z.coerce.date().nullish();
+
+export const caseExportManifestSchema = z.object({
+  format: z.literal(caseExportFormat),
+  version: z.literal(1),
+  exportedAt: z.coerce.date(),
+  case: insertCaseSchema.omit({
+    mediatorId: true,
+    caseTypeId: true,
+  }).extend({
+    id: z.string().optional(), // the source case, kept for reference in the audit trail
+    mediationDate: exportedDate,
+  }),
+  caseType: z.object({ name: z.string().min(1) }).nullish(),
+  // Exports from before sessions existed have none; the case's mediationDate becomes its only session
+  sessions: z.array(insertMediationSessionSchema).default([]),
+  parties: z.array(insertPartySchema.omit({ caseId: true, contactId: true }).extend({
+    representatives: z.array(insertPartyRepresentativeSchema.omit({ partyId: true, contactId: true })).default([]),
+  })),
+  notes: z.array(z.object({ content: z.string().min(1), createdAt: exportedDate })),
+  aiAnalyses: z.array(insertAiAnalysisSchema.omit({ caseId: true, createdBy: true }).extend({ createdAt: exportedDate })),
+  documents: z.array(z.object({
+    file: z.string().min(1), // path of the original inside the ZIP
+    originalName: z.string().min(1),
+    mimeType: z.string().min(1),
+    category: z.string().nullish(),
+    extractedText: z.string().nullish(),
+    createdAt: exportedDate,
+  })),
+});
+
 export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({
   id: true,
   createdAt: true,
@@ -268,25 +1741,464 @@ export const insertCalendarSettingsSchema = createInsertSchema(calendarSettings)
   updatedAt: true,
 });
 
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers, {
+  role: z.enum(organizationRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Adding a team member: an existing user (by email), who is invited, or a new local account
+export const addTeamMemberSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(organizationRoles),
+  username: z.string().min(1).optional(),
+  password: z.string().min(8).optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+export const customFieldDefinitionSchema = z.object({
+  key: z.string().trim().regex(/^[a-z][a-z0-9_]*$/, "Keys use lowercase letters, digits and underscores").max(50),
+  label: z.string().trim().min(1, "Label is required").max(100),
+  type: z.enum(customFieldTypes),
+  required: z.boolean().default(false),
+  options: z.array(z.string().trim().min(1).max(100)).max(50).optional(), // select
+  currency: z.string().trim().length(3).optional(), // currency, e.g. AUD
+}).refine(field => field.type !== "select" || (field.options?.length ?? 0) > 0, {
+  message: "Select fields need at least one option",
+  path: ["options"],
+});
+
+export const caseTypeEmailTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(200),
+  subject: z.string().trim().min(1, "Subject is required").max(500),
+  body: z.string().min(1, "Body is required").max(20000),
+});
+
+// offsetDays is relative to the mediation date (negative is before); null leaves the task undated
+export const caseTypeTaskTemplateSchema = z.object({
+  title: z.string().trim().min(1, "Task title is required").max(200),
+  description: z.string().trim().max(2000).nullish(),
+  offsetDays: z.number().int().min(-365).max(365).nullable().default(null),
+});
+
+export const insertCaseTypeSchema = createInsertSchema(caseTypes, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).nullish(),
+  defaultIssues: z.array(z.string().trim().min(1).max(500)).max(50).nullish(),
+}).omit({
+  id: true,
+  organizationId: true,
+  ownerId: true,
+  fields: true,
+  emailTemplates: true,
+  taskTemplates: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  fields: z.array(customFieldDefinitionSchema).max(50).default([]).refine(
+    fields => new Set(fields.map(field => field.key)).size === fields.length,
+    "Field keys must be unique",
+  ),
+  emailTemplates: z.array(caseTypeEmailTemplateSchema).max(20).default([]),
+  taskTemplates: z.array(caseTypeTaskTemplateSchema).max(50).default([]),
+});
+
+// Validates values entered for a case type's custom fields. Dates are YYYY-MM-DD strings,
+// currency amounts are numbers in the field's currency. Keys the type doesn't define are dropped.
+export function customFieldValuesSchema(fields: CustomFieldDefinition[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    let value: z.ZodTypeAny;
+    switch (field.type) {
+      case "number":
+      case "currency":
+        value = z.coerce.number({ invalid_type_error: `${field.label} must be a number` }).finite();
+        break;
+      case "date":
+        value = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, `${field.label} must be a date`);
+        break;
+      case "select":
+        value = z.enum((field.options ?? []) as [string, ...string[]], {
+          errorMap: () => ({ message: `${field.label} must be one of ${(field.options ?? []).join(", ")}` }),
+        });
+        break;
+      default:
+        value = z.string().trim().max(2000);
+    }
+    // Empty inputs clear the value
+    const presence = field.required ? z.custom(input => input !== null, `${field.label} is required`).pipe(value) : value.nullable();
+    shape[field.key] = z.preprocess(input => (input === "" || input === undefined ? null : input), presence);
+  }
+  return z.object(shape);
+}
+
+export const insertRetentionRuleSchema = createInsertSchema(retentionRules, {
+  outcomeStatus: z.enum(outcomeCaseStatuses).nullish(),
+  mediationType: z.string().trim().max(100).nullish(),
+  retentionYears: z.number().int().min(1, "Keep records for at least a year").max(100),
+  description: z.string().trim().max(500).nullish(),
+}).omit({
+  id: true,
+  organizationId: true,
+  ownerId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReminderRuleSchema = createInsertSchema(reminderRules, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  daysBefore: z.number().int().min(0, "Days before can't be negative").max(90),
+  recipients: z.enum(reminderRecipients).default("parties_and_representatives"),
+  subject: z.string().trim().min(1, "Subject is required").max(500),
+  body: z.string().min(1, "Body is required").max(20000),
+  enabled: z.boolean().default(true),
+}).omit({
+  id: true,
+  organizationId: true,
+  ownerId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// The usual week-before and day-before reminders, offered when a practice has none yet
+export const defaultReminderRules: z.infer<typeof insertReminderRuleSchema>[] = [7, 1].map(daysBefore => ({
+  name: daysBefore === 1 ? "Day before" : `${daysBefore} days before`,
+  daysBefore,
+  recipients: "parties_and_representatives",
+  subject: "Reminder: mediation {caseNumber} on {mediationDate}",
+  body: [
+    "Dear {recipientName},",
+    "",
+    "This is a reminder that the mediation for {caseNumber} will be held on {mediationDate} at {mediationTime}.",
+    "",
+    "{sessionDetails}",
+    "",
+    "Please contact us if you have any questions before the session.",
+    "",
+    "Kind regards,",
+    "{mediatorName}",
+  ].join("\n"),
+  enabled: true,
+}));
+
+export const insertSettlementTemplateSchema = createInsertSchema(settlementTemplates, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  title: z.string().trim().min(1, "Title is required").max(300),
+  body: z.string().min(1, "Body is required").max(50000),
+}).omit({
+  id: true,
+  organizationId: true,
+  ownerId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Terms come from the case's recorded outcome; anything agreed beyond it can be added when drafting
+export const generateSettlementSchema = z.object({
+  templateId: z.string().min(1),
+  additionalTerms: z.string().trim().max(20000).nullish(),
+});
+
+// Placeholders for the recorded terms, on top of the email template vocabulary
+export const settlementPlaceholders = [
+  "{settlementDate}",
+  "{settlementAmount}",
+  "{paymentTerms}",
+  "{nonMonetaryTerms}",
+  "{resolvedIssues}",
+  "{additionalTerms}",
+  "{settlementTerms}",
+] as const;
+
+export const defaultSettlementTemplate: z.infer<typeof insertSettlementTemplateSchema> = {
+  name: "Heads of Agreement",
+  title: "Heads of Agreement: {caseNumber}",
+  body: [
+    "This agreement is made on {settlementDate} at a mediation conducted by {mediatorName}.",
+    "",
+    "# Parties",
+    "{applicant_1_name} (the Applicant)",
+    "{respondent_1_name} (the Respondent)",
+    "",
+    "# Terms",
+    "The parties agree as follows:",
+    "",
+    "{settlementTerms}",
+    "",
+    "# General",
+    "These heads of agreement are binding and are intended to be recorded in a formal deed of settlement. Until then, each party will keep the terms and the mediation confidential.",
+    "",
+    "# Signatures",
+    "Signed for {applicant_1_name}: ______________________________  Date: __________",
+    "",
+    "Signed for {respondent_1_name}: ______________________________  Date: __________",
+  ].join("\n"),
+};
+
+export const approveRetentionReviewSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+});
+
+export const deferRetentionReviewSchema = z.object({
+  until: z.coerce.date(),
+  note: z.string().trim().min(1, "Give a reason for keeping the records").max(2000),
+});
+
 // User profile update schema (for updating mediator email)
 export const updateUserProfileSchema = z.object({
   mediatorEmail: z.string().email().nullable().optional()
     .or(z.literal('').transform(() => null)),
+  hourlyRate: moneyAmount("Hourly rate").optional(),
+  billingCurrency: currencyCode.optional(),
 });
 
+export type Organization = typeof organizations.$inferSelect;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+// An admin's view of a pending invitation
+export type SentInvitation = OrganizationInvitation & { user: Pick<User, "id" | "email" | "firstName" | "lastName"> };
+// The invited user's view
+export type ReceivedInvitation = OrganizationInvitation & { organizationName: string; invitedByName: string | null };
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+export type AddTeamMember = z.infer<typeof addTeamMemberSchema>;
+export type TeamMember = OrganizationMember & { user: User };
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type Case = typeof cases.$inferSelect;
+export type MediationSession = typeof mediationSessions.$inferSelect;
+export type MediationSessionWithCase = MediationSession & Pick<Case, "caseNumber" | "mediatorId">;
+export type InsertMediationSession = z.infer<typeof insertMediationSessionSchema>;
+export type UpdateMediationSession = z.infer<typeof updateMediationSessionSchema>;
+export type SessionAttendee = typeof sessionAttendees.$inferSelect;
+export type InsertSessionAttendee = z.infer<typeof insertSessionAttendeeSchema>;
+export type UpdateSessionAttendee = z.infer<typeof updateSessionAttendeeSchema>;
+export type SessionSegment = typeof sessionSegments.$inferSelect;
+export type StartSessionSegment = z.infer<typeof startSessionSegmentSchema>;
+export type CaucusNote = typeof caucusNotes.$inferSelect;
+export type InsertCaucusNote = z.infer<typeof insertCaucusNoteSchema>;
+// The structured record of a session kept by live session mode
+export type SessionLog = {
+  session: MediationSession;
+  segments: SessionSegment[];
+  notes: CaucusNote[];
+};
 export type Party = typeof parties.$inferSelect;
+export type PartyRepresentative = typeof partyRepresentatives.$inferSelect;
+export type PartyWithRepresentatives = Party & { representatives: PartyRepresentative[] };
+export type Contact = typeof contacts.$inferSelect;
+export type ContactMatch = { contact: Contact; score: number; reason: "email" | "name" };
+export type ContactCase = Pick<Case, "id" | "caseNumber" | "status" | "mediationDate"> & {
+  involvement: string; // e.g. "Applicant", "Legal representative for Acme Pty Ltd"
+};
+export type ContactSuggestion = {
+  partyId: string;
+  representativeId?: string;
+  name: string;
+  matches: ContactMatch[];
+};
+export type ConflictCheckSubject = z.infer<typeof conflictCheckSubjectSchema>;
+export type ConflictMatch = {
+  subject: string; // name (or email) that was checked
+  subjectLabel?: string; // e.g. "Applicant", "Legal representative for Acme Pty Ltd"
+  reason: "email" | "name" | "firm";
+  matchedValue: string;
+  score: number;
+  caseId: string;
+  caseNumber: string;
+  caseStatus: string;
+  partyId: string;
+  involvement: string; // how the match appears on the other case
+};
+export type ConflictReport = {
+  checkedAt: string;
+  checkedBy: string;
+  subjects: ConflictCheckSubject[];
+  matches: ConflictMatch[];
+};
+// Possible duplicate of a case being created (or of an existing case, when looking for merge candidates)
+export type DuplicateCaseReason = "case_number" | "party_names" | "mediation_date";
+export type DuplicateCaseMatch = {
+  caseId: string;
+  caseNumber: string;
+  caseStatus: string;
+  mediationDate: string | null;
+  parties: string[];
+  matchedParties: string[]; // names from the new case found among this case's parties
+  reasons: DuplicateCaseReason[];
+  score: number;
+};
+// 409 response from the create-from-upload/create-from-file intake when possible duplicates exist
+export type DuplicateIntakeResponse = {
+  message: string;
+  duplicates: DuplicateCaseMatch[];
+  caseNumberTaken: boolean; // the extracted case number is in use, so only attaching is possible
+};
+export type CaseMergeResult = {
+  case: Case;
+  moved: { parties: number; documents: number; notes: number; aiAnalyses: number };
+};
+export const searchResultTypes = ["case", "party", "document", "note", "analysis"] as const;
+export type SearchResultType = typeof searchResultTypes[number];
+// ts_headline wraps matched terms in these markers; the client renders them as highlights
+export const SEARCH_HIGHLIGHT_START = "\u2983";
+export const SEARCH_HIGHLIGHT_END = "\u2984";
+export type SearchResult = {
+  type: SearchResultType;
+  id: string;
+  caseId: string;
+  caseNumber: string;
+  title: string;
+  highlight: string;
+  rank: number;
+};
+export type SearchResponse = {
+  query: string;
+  groups: { type: SearchResultType; results: SearchResult[] }[];
+};
 export type Document = typeof documents.$inferSelect;
+export type TrashedCase = Pick<Case, "id" | "caseNumber" | "status" | "deletedAt" | "deletedBy"> & { documentCount: number; purgeAt: string };
+export type TrashedDocument = Pick<Document, "id" | "caseId" | "originalName" | "fileSize" | "deletedAt" | "deletedBy"> & { caseNumber: string; purgeAt: string };
+export type TrashContents = { retentionDays: number; cases: TrashedCase[]; documents: TrashedDocument[] };
+export type CaseListFilters = z.infer<typeof caseListFiltersSchema>;
+export type CaseListQuery = z.infer<typeof caseListQuerySchema>;
+export type CaseListPage = { cases: Case[]; total: number; page: number; pageSize: number };
+export type SavedCaseView = typeof savedCaseViews.$inferSelect;
+export type InsertSavedCaseView = z.infer<typeof insertSavedCaseViewSchema>;
+export type CaseImportField = typeof caseImportFields[number];
+export type CaseImportMapping = z.infer<typeof caseImportMappingSchema>;
+export type CaseImportRow = {
+  rowNumber: number; // spreadsheet row, the header being row 1
+  caseNumber: string | null;
+  applicant: string | null;
+  respondent: string | null;
+  mediationDate: string | null;
+  duplicate: "existing" | "file" | null; // case number already used, or repeated earlier in the file
+  errors: string[];
+};
+export type CaseImportPreview = {
+  columns: string[];
+  mapping: CaseImportMapping;
+  rows: CaseImportRow[];
+  validCount: number;
+};
+// conflictCheckFailed: case numbers of imported cases whose intake conflict check could not run
+export type CaseImportResult = { created: number; skipped: number; caseIds: string[]; conflictCheckFailed: string[] };
+export type CaseExportManifest = z.infer<typeof caseExportManifestSchema>;
+// droppedCustomFields: custom field keys from the bundle with no matching field on the imported case
+export type CaseBundleImport = Case & { droppedCustomFields: string[] };
+export type CustomFieldDefinition = z.infer<typeof customFieldDefinitionSchema>;
+export type CustomFieldValues = Record<string, string | number | null>;
+export type CaseTypeEmailTemplate = z.infer<typeof caseTypeEmailTemplateSchema>;
+export type CaseTypeTaskTemplate = z.infer<typeof caseTypeTaskTemplateSchema>;
+export type CaseType = typeof caseTypes.$inferSelect;
+export type InsertCaseType = z.infer<typeof insertCaseTypeSchema>;
+export type RetentionRule = typeof retentionRules.$inferSelect;
+export type InsertRetentionRule = z.infer<typeof insertRetentionRuleSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type ReminderRule = typeof reminderRules.$inferSelect;
+export type InsertReminderRule = z.infer<typeof insertReminderRuleSchema>;
+export type SettlementTemplate = typeof settlementTemplates.$inferSelect;
+export type InsertSettlementTemplate = z.infer<typeof insertSettlementTemplateSchema>;
+export type GenerateSettlement = z.infer<typeof generateSettlementSchema>;
+export type CaseReminder = typeof caseReminders.$inferSelect;
+export type RetentionReview = typeof retentionReviews.$inferSelect;
+export type RetentionReviewWithCase = RetentionReview & {
+  caseNumber: string;
+  mediationType: string | null;
+  closedAt: Date | null;
+  retentionYears: number | null;
+};
+export type DestructionCertificate = typeof destructionCertificates.$inferSelect;
 export type CaseNote = typeof caseNotes.$inferSelect;
 export type AiAnalysis = typeof aiAnalyses.$inferSelect;
 export type EmailTemplate = typeof emailTemplates.$inferSelect;
 export type SmtpSettings = typeof smtpSettings.$inferSelect;
 export type ZoomSettings = typeof zoomSettings.$inferSelect;
 export type CalendarSettings = typeof calendarSettings.$inferSelect;
+export type CaseMediator = typeof caseMediators.$inferSelect;
+export type CaseMediatorWithUser = CaseMediator & { user: User };
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type TimeEntryWithUser = TimeEntry & { user: Pick<User, "id" | "firstName" | "lastName" | "email"> | null };
+export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
+export type UpdateTimeEntry = z.infer<typeof updateTimeEntrySchema>;
+export type RunningTimer = TimeEntry & { caseNumber: string };
+export type CaseExpense = typeof caseExpenses.$inferSelect;
+export type InsertCaseExpense = z.infer<typeof insertCaseExpenseSchema>;
+export type UpdateCaseExpense = z.infer<typeof updateCaseExpenseSchema>;
+export type TimeSuggestion = {
+  source: "email" | "ai_analysis" | "attendance";
+  sourceId: string;
+  activityType: TimeEntryActivityType;
+  description: string;
+  startedAt: string;
+  durationMinutes: number;
+};
+// Totals are kept per currency; amounts only count billable entries
+export type BillingSummary = {
+  timeEntries: TimeEntryWithUser[];
+  expenses: CaseExpense[];
+  totals: {
+    currency: string;
+    billableMinutes: number;
+    nonBillableMinutes: number;
+    timeAmount: number;
+    expenseAmount: number;
+    total: number;
+  }[];
+  byActivity: { activityType: string; minutes: number; amount: number }[];
+  unratedMinutes: number; // billable time logged without an hourly rate
+};
+export type FeeSplitShare = z.infer<typeof feeSplitShareSchema>;
+export type GenerateInvoices = z.infer<typeof generateInvoicesSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceWithCase = Invoice & { caseNumber: string };
+export type InvoiceSettings = typeof invoiceSettings.$inferSelect;
+export type InvoiceSettingsInput = z.infer<typeof invoiceSettingsSchema>;
+export type CaseTask = typeof caseTasks.$inferSelect;
+export type CaseTaskWithAssignee = CaseTask & { assignee: Pick<User, "id" | "firstName" | "lastName" | "email"> | null };
+export type InsertCaseTask = z.infer<typeof insertCaseTaskSchema>;
+export type UpdateCaseTask = z.infer<typeof updateCaseTaskSchema>;
+export type MyTask = CaseTask & Pick<Case, "caseNumber" | "mediationDate">;
+export type CaseOutcome = typeof caseOutcomes.$inferSelect;
+export type CaseOutcomeInput = z.infer<typeof caseOutcomeSchema>;
+export type OutcomeReportFilters = z.infer<typeof outcomeReportQuerySchema>;
+export type OutcomeReportRow = CaseOutcome & Pick<Case, "caseNumber" | "mediationType" | "mediationDate" | "mediatorId" | "mediatorName" | "caseTypeId" | "status"> & {
+  issuesRaised: number; // size of the case's issuesForDiscussion
+};
+export type OutcomeReport = {
+  rows: OutcomeReportRow[];
+  summary: {
+    total: number;
+    byType: Record<OutcomeCaseStatus, number>;
+    settlementRate: number | null; // settled or partially settled, as a fraction of all outcomes
+    settlementTotals: { currency: string; total: number; count: number }[];
+    averageDurationMinutes: number | null;
+    issuesRaised: number;
+    issuesResolved: number;
+  };
+};
+export type CaseStatusHistory = typeof caseStatusHistory.$inferSelect;
+export type CaseStatusHistoryWithActor = CaseStatusHistory & { actor: Pick<User, "id" | "firstName" | "lastName" | "email"> | null };
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditEventWithActor = AuditEvent & { actor: Pick<User, "id" | "firstName" | "lastName" | "email"> | null };
 export type InsertCase = z.infer<typeof insertCaseSchema>;
+export type UpdateCase = z.infer<typeof updateCaseSchema>;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type CaseStatusTransition = z.infer<typeof caseStatusTransitionSchema>;
+export type InsertCaseMediator = z.infer<typeof insertCaseMediatorSchema>;
 export type InsertParty = z.infer<typeof insertPartySchema>;
+export type UpdateParty = z.infer<typeof updatePartySchema>;
+export type InsertPartyRepresentative = z.infer<typeof insertPartyRepresentativeSchema>;
+export type InsertContact = z.infer<typeof insertContactSchema>;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type InsertCaseNote = z.infer<typeof insertCaseNoteSchema>;
 export type InsertAiAnalysis = z.infer<typeof insertAiAnalysisSchema>;
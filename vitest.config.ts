@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    globalSetup: ["server/test/globalSetup.ts"],
+    setupFiles: ["server/test/setup.ts"],
+    // The test files share one database
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 120000,
+  },
+});